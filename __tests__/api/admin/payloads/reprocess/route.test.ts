@@ -0,0 +1,114 @@
+import { NextRequest } from 'next/server';
+
+jest.mock('@/lib/logger', () => ({
+  logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+jest.mock('@/lib/config', () => ({
+  config: { databaseUrl: 'postgresql://test', apiKey: 'test-api-key' },
+}));
+
+const mockSelectRawPayloads = jest.fn();
+const mockFindActiveApiKeyByHash = jest.fn();
+const mockReprocessRawPayloads = jest.fn();
+const mockInngestSend = jest.fn();
+
+jest.mock('@/lib/db', () => ({
+  selectRawPayloads: (...args: any[]) => mockSelectRawPayloads(...args),
+  RAW_PAYLOAD_STATUSES: ['pending', 'processing', 'completed', 'failed'],
+  findActiveApiKeyByHash: (...args: any[]) => mockFindActiveApiKeyByHash(...args),
+  touchApiKeyLastUsed: jest.fn().mockResolvedValue(undefined),
+}));
+
+jest.mock('@/lib/reprocess', () => ({
+  reprocessRawPayloads: (...args: any[]) => mockReprocessRawPayloads(...args),
+}));
+
+jest.mock('@/lib/inngest/client', () => ({
+  inngest: { send: (...args: any[]) => mockInngestSend(...args) },
+}));
+
+import { POST } from '@/app/api/admin/payloads/reprocess/route';
+
+function createRequest(body: unknown, apiKey: string | null = 'test-api-key') {
+  return new NextRequest('http://localhost:3000/api/admin/payloads/reprocess', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...(apiKey ? { 'X-API-Key': apiKey } : {}) },
+    body: JSON.stringify(body),
+  });
+}
+
+const payloads = [
+  { id: 41, payload: { DeviceId: '863257063350583' }, tenantId: null, status: 'failed' },
+  { id: 42, payload: { DeviceId: '863257063350583' }, tenantId: null, status: 'failed' },
+];
+
+describe('POST /api/admin/payloads/reprocess', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockFindActiveApiKeyByHash.mockResolvedValue(null);
+    mockSelectRawPayloads.mockResolvedValue({ payloads, truncated: false });
+  });
+
+  it('should return the diff of a dry run without starting a run', async () => {
+    mockReprocessRawPayloads.mockResolvedValue({
+      dryRun: true,
+      counts: { created: 0, updated: 1, unchanged: 1, invalid: 0, failed: 0 },
+      results: [
+        {
+          rawPayloadId: 41,
+          outcome: 'updated',
+          telemetry: { id: 5, changes: [{ column: 'temperature', before: 9.5, after: 10 }] },
+          location: { id: 6, changes: [] },
+        },
+        { rawPayloadId: 42, outcome: 'unchanged', telemetry: { id: 7, changes: [] }, location: { id: 8, changes: [] } },
+      ],
+    });
+
+    const response = await POST(createRequest({ status: 'failed', limit: 2, dryRun: true }));
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(mockSelectRawPayloads).toHaveBeenCalledWith({ status: 'failed', limit: 2 });
+    expect(mockReprocessRawPayloads).toHaveBeenCalledWith(payloads, { dryRun: true });
+    expect(data.data).toMatchObject({ dryRun: true, count: 2, truncated: false, counts: { updated: 1 } });
+    expect(data.data.results[0].telemetry.changes[0]).toEqual({ column: 'temperature', before: 9.5, after: 10 });
+    expect(mockInngestSend).not.toHaveBeenCalled();
+  });
+
+  it('should hand the selected payloads to Inngest', async () => {
+    mockSelectRawPayloads.mockResolvedValue({ payloads, truncated: true });
+    mockInngestSend.mockResolvedValue({ ids: ['01JEVT'] });
+
+    const response = await POST(createRequest({ ids: [41, 42] }));
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(mockInngestSend).toHaveBeenCalledWith({ name: 'admin/payloads.reprocess', data: { raw_ids: [41, 42] } });
+    expect(data.data).toEqual({ dryRun: false, count: 2, truncated: true, rawPayloadIds: [41, 42], eventId: '01JEVT' });
+    expect(mockReprocessRawPayloads).not.toHaveBeenCalled();
+  });
+
+  it('should reject a request without a selection', async () => {
+    const response = await POST(createRequest({ dryRun: true }));
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.details.errors[0].field).toBe('body');
+    expect(mockSelectRawPayloads).not.toHaveBeenCalled();
+  });
+
+  it('should refuse tenant API keys', async () => {
+    mockFindActiveApiKeyByHash.mockResolvedValue({ id: 3, tenantId: 2, tenant: { tiveAccountId: 100 } });
+
+    const response = await POST(createRequest({ status: 'failed' }, 'tenant-key'));
+
+    expect(response.status).toBe(403);
+    expect(mockSelectRawPayloads).not.toHaveBeenCalled();
+  });
+});
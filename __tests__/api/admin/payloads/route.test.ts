@@ -0,0 +1,142 @@
+import { NextRequest } from 'next/server';
+
+jest.mock('@/lib/logger', () => ({
+  logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+jest.mock('@/lib/config', () => ({
+  config: { databaseUrl: 'postgresql://test', apiKey: 'test-api-key' },
+}));
+
+const mockListRawPayloads = jest.fn();
+const mockGetRawPayloadDetail = jest.fn();
+const mockFindActiveApiKeyByHash = jest.fn();
+
+jest.mock('@/lib/db', () => ({
+  listRawPayloads: (...args: any[]) => mockListRawPayloads(...args),
+  getRawPayloadDetail: (...args: any[]) => mockGetRawPayloadDetail(...args),
+  RAW_PAYLOAD_STATUSES: ['pending', 'processing', 'completed', 'failed'],
+  findActiveApiKeyByHash: (...args: any[]) => mockFindActiveApiKeyByHash(...args),
+  touchApiKeyLastUsed: jest.fn().mockResolvedValue(undefined),
+}));
+
+import { GET } from '@/app/api/admin/payloads/route';
+import { GET as GET_DETAIL } from '@/app/api/admin/payloads/[id]/route';
+import { encodeCursor } from '@/lib/api/query-params';
+
+function createRequest(path: string, apiKey: string | null = 'test-api-key') {
+  return new NextRequest(`http://localhost:3000/api/admin/payloads${path}`, {
+    headers: apiKey ? { 'X-API-Key': apiKey } : {},
+  });
+}
+
+describe('GET /api/admin/payloads', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockFindActiveApiKeyByHash.mockResolvedValue(null);
+  });
+
+  it('should search payloads and return the next page cursor', async () => {
+    const cursor = encodeCursor({ ts: 1739217000000, id: 80 });
+    mockListRawPayloads.mockResolvedValue({
+      items: [{ id: 79, status: 'failed', deviceId: '863257063350583', createdAt: new Date(1739216000000) }],
+      nextCursor: { ts: 1739216000000, id: 79 },
+    });
+
+    const response = await GET(
+      createRequest(`?status=failed&device=863257063350583&validationError=Location.Latitude&from=1739210000000&limit=1&cursor=${cursor}`)
+    );
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(mockListRawPayloads).toHaveBeenCalledWith({
+      status: 'failed',
+      source: undefined,
+      deviceId: '863257063350583',
+      validationErrorField: 'Location.Latitude',
+      from: 1739210000000,
+      to: undefined,
+      cursor: { ts: 1739217000000, id: 80 },
+      limit: 1,
+    });
+    expect(data.data.count).toBe(1);
+    expect(data.data.payloads[0]).toMatchObject({ id: 79, deviceId: '863257063350583' });
+    expect(data.data.nextCursor).toBe(encodeCursor({ ts: 1739216000000, id: 79 }));
+  });
+
+  it('should reject an unknown status', async () => {
+    const response = await GET(createRequest('?status=done'));
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.details.errors[0].field).toBe('status');
+    expect(mockListRawPayloads).not.toHaveBeenCalled();
+  });
+
+  it('should reject times outside the range of a date', async () => {
+    const response = await GET(createRequest('?from=99999999999999999'));
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.details.errors).toEqual([
+      { field: 'from', message: 'from must be epoch milliseconds or an ISO 8601 date' },
+    ]);
+    expect(mockListRawPayloads).not.toHaveBeenCalled();
+  });
+
+  it('should refuse tenant API keys', async () => {
+    mockFindActiveApiKeyByHash.mockResolvedValue({ id: 3, tenantId: 2, tenant: { tiveAccountId: 100 } });
+
+    const response = await GET(createRequest('', 'tenant-key'));
+
+    expect(response.status).toBe(403);
+    expect(mockListRawPayloads).not.toHaveBeenCalled();
+  });
+
+  it('should return 401 without a valid API key', async () => {
+    const response = await GET(createRequest('', null));
+    expect(response.status).toBe(401);
+  });
+});
+
+describe('GET /api/admin/payloads/:id', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockFindActiveApiKeyByHash.mockResolvedValue(null);
+  });
+
+  it('should return the payload with the rows produced from it', async () => {
+    mockGetRawPayloadDetail.mockResolvedValue({
+      id: 42,
+      payload: { DeviceId: '863257063350583' },
+      status: 'completed',
+      inngestEventId: '01JABC',
+      telemetry: [{ id: 7, ts: BigInt(1739217000000) }],
+      locations: [{ id: 9, ts: BigInt(1739217000000) }],
+    });
+
+    const response = await GET_DETAIL(createRequest('/42'), { params: { id: '42' } });
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(mockGetRawPayloadDetail).toHaveBeenCalledWith(42);
+    expect(data.data).toMatchObject({
+      inngestEventId: '01JABC',
+      telemetry: [{ id: 7, ts: 1739217000000 }],
+      locations: [{ id: 9, ts: 1739217000000 }],
+    });
+  });
+
+  it('should return 404 for unknown or invalid ids', async () => {
+    mockGetRawPayloadDetail.mockResolvedValue(null);
+
+    expect((await GET_DETAIL(createRequest('/42'), { params: { id: '42' } })).status).toBe(404);
+    expect((await GET_DETAIL(createRequest('/abc'), { params: { id: 'abc' } })).status).toBe(404);
+    expect(mockGetRawPayloadDetail).toHaveBeenCalledTimes(1);
+  });
+});
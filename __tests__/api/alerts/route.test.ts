@@ -0,0 +1,73 @@
+import { NextRequest } from 'next/server';
+
+jest.mock('@/lib/logger', () => ({
+  logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+jest.mock('@/lib/config', () => ({
+  config: { databaseUrl: 'postgresql://test', apiKey: 'test-api-key' },
+}));
+
+const mockListAlerts = jest.fn();
+const mockFindActiveApiKeyByHash = jest.fn();
+
+jest.mock('@/lib/db', () => ({
+  listAlerts: (...args: any[]) => mockListAlerts(...args),
+  findActiveApiKeyByHash: (...args: any[]) => mockFindActiveApiKeyByHash(...args),
+  touchApiKeyLastUsed: jest.fn().mockResolvedValue(undefined),
+}));
+
+import { GET } from '@/app/api/alerts/route';
+
+function createRequest(url: string, apiKey: string | null = 'test-api-key') {
+  return new NextRequest(url, { headers: apiKey ? { 'X-API-Key': apiKey } : {} });
+}
+
+describe('GET /api/alerts', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockFindActiveApiKeyByHash.mockResolvedValue(null);
+    mockListAlerts.mockResolvedValue([]);
+  });
+
+  it('should list alerts with filters', async () => {
+    mockListAlerts.mockResolvedValue([
+      { id: 1, status: 'open', firstTriggeredTs: BigInt(1739215646000), rule: { id: 3, name: 'Too warm' } },
+    ]);
+
+    const response = await GET(createRequest('http://localhost:3000/api/alerts?status=open&device=863257063350583&limit=5'));
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.data.alerts[0].firstTriggeredTs).toBe(1739215646000);
+    expect(mockListAlerts).toHaveBeenCalledWith({ status: 'open', deviceImei: '863257063350583', tenantId: null, limit: 5 });
+  });
+
+  it('should scope alerts to the tenant of a tenant API key', async () => {
+    mockFindActiveApiKeyByHash.mockResolvedValue({
+      id: 7,
+      tenantId: 3,
+      lastUsedAt: null,
+      tenant: { id: 3, name: 'Acme', tiveAccountId: 12345 },
+    });
+
+    await GET(createRequest('http://localhost:3000/api/alerts', 'pxf_tenant-key'));
+
+    expect(mockListAlerts).toHaveBeenCalledWith(expect.objectContaining({ tenantId: 3 }));
+  });
+
+  it('should reject an unknown status', async () => {
+    const response = await GET(createRequest('http://localhost:3000/api/alerts?status=closed'));
+    expect(response.status).toBe(400);
+  });
+
+  it('should return 401 without a valid API key', async () => {
+    const response = await GET(createRequest('http://localhost:3000/api/alerts', null));
+    expect(response.status).toBe(401);
+  });
+});
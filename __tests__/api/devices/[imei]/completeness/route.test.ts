@@ -0,0 +1,74 @@
+import { NextRequest } from 'next/server';
+
+jest.mock('@/lib/logger', () => ({
+  logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+jest.mock('@/lib/config', () => ({
+  config: { databaseUrl: 'postgresql://test', apiKey: 'test-api-key', connectivity: {} },
+}));
+
+const mockFindDeviceLatest = jest.fn();
+const mockGetDeviceCompleteness = jest.fn();
+
+jest.mock('@/lib/db', () => ({
+  findDeviceLatest: (...args: any[]) => mockFindDeviceLatest(...args),
+  getDeviceCompleteness: (...args: any[]) => mockGetDeviceCompleteness(...args),
+  findActiveApiKeyByHash: jest.fn().mockResolvedValue(null),
+  touchApiKeyLastUsed: jest.fn().mockResolvedValue(undefined),
+}));
+
+import { GET } from '@/app/api/devices/[imei]/completeness/route';
+
+const imei = '863257063350583';
+const DAY = 24 * 60 * 60 * 1000;
+
+function createRequest(query: string = '') {
+  return new NextRequest(`http://localhost:3000/api/devices/${imei}/completeness${query}`, {
+    headers: { 'X-API-Key': 'test-api-key' },
+  });
+}
+
+describe('GET /api/devices/:imei/completeness', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockFindDeviceLatest.mockResolvedValue({ deviceImei: imei });
+    mockGetDeviceCompleteness.mockResolvedValue({ deviceImei: imei, truncated: false, days: [] });
+  });
+
+  it('should compute completeness over the given window', async () => {
+    const to = 1739210000000;
+    const response = await GET(createRequest(`?from=${to - 7 * DAY}&to=${to}&gapFactor=2`), { params: { imei } });
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(mockGetDeviceCompleteness).toHaveBeenCalledWith(
+      imei,
+      expect.objectContaining({ from: to - 7 * DAY, to, gapFactor: 2, tenantId: null }),
+      {}
+    );
+    expect(data.data).toMatchObject({ deviceImei: imei, truncated: false, gapFactor: 2 });
+  });
+
+  it('should reject a window longer than the maximum', async () => {
+    const to = 1739210000000;
+    const response = await GET(createRequest(`?from=${to - 400 * DAY}&to=${to}`), { params: { imei } });
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.details.errors[0].field).toBe('from');
+    expect(mockGetDeviceCompleteness).not.toHaveBeenCalled();
+  });
+
+  it('should reject a far-past from without to', async () => {
+    const response = await GET(createRequest('?from=-100000000000000'), { params: { imei } });
+
+    expect(response.status).toBe(400);
+    expect(mockGetDeviceCompleteness).not.toHaveBeenCalled();
+  });
+});
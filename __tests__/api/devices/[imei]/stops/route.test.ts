@@ -0,0 +1,88 @@
+import { NextRequest } from 'next/server';
+
+jest.mock('@/lib/logger', () => ({
+  logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+jest.mock('@/lib/config', () => ({
+  config: { databaseUrl: 'postgresql://test', apiKey: 'test-api-key' },
+}));
+
+const mockFindDeviceLatest = jest.fn();
+const mockGetDeviceStops = jest.fn();
+
+jest.mock('@/lib/db', () => ({
+  findDeviceLatest: (...args: any[]) => mockFindDeviceLatest(...args),
+  getDeviceStops: (...args: any[]) => mockGetDeviceStops(...args),
+  findActiveApiKeyByHash: jest.fn().mockResolvedValue(null),
+  touchApiKeyLastUsed: jest.fn().mockResolvedValue(undefined),
+}));
+
+import { GET } from '@/app/api/devices/[imei]/stops/route';
+
+const imei = '863257063350583';
+
+function createRequest(query: string = '') {
+  return new NextRequest(`http://localhost:3000/api/devices/${imei}/stops${query}`, {
+    headers: { 'X-API-Key': 'test-api-key' },
+  });
+}
+
+describe('GET /api/devices/:imei/stops', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockFindDeviceLatest.mockResolvedValue({ deviceImei: imei });
+  });
+
+  it('should detect stops with the given radius and minimum duration', async () => {
+    mockGetDeviceStops.mockResolvedValue({
+      deviceImei: imei,
+      locationCount: 40,
+      locationsTruncated: false,
+      readingsTruncated: true,
+      stops: [{ startTs: 1739215646000, endTs: 1739230046000, durationMs: 14400000, latitude: 40.1, longitude: -74.0, pointCount: 12 }],
+    });
+
+    const response = await GET(createRequest('?radiusMeters=300&minDurationMinutes=60&from=1739000000000'), { params: { imei } });
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(mockGetDeviceStops).toHaveBeenCalledWith(imei, expect.objectContaining({
+      tenantId: null,
+      from: 1739000000000,
+      radiusMeters: 300,
+      minDurationMs: 3600000,
+      activationEnergyKjPerMol: 83.144,
+    }));
+    expect(data.data).toMatchObject({
+      count: 1,
+      locationsTruncated: false,
+      readingsTruncated: true,
+      radiusMeters: 300,
+      minDurationMinutes: 60,
+    });
+    expect(data.data.stops[0].durationMs).toBe(14400000);
+  });
+
+  it('should reject an invalid radius', async () => {
+    const response = await GET(createRequest('?radiusMeters=0'), { params: { imei } });
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.details.errors[0].field).toBe('radiusMeters');
+    expect(mockGetDeviceStops).not.toHaveBeenCalled();
+  });
+
+  it('should return 404 for an unknown device', async () => {
+    mockFindDeviceLatest.mockResolvedValue(null);
+
+    const response = await GET(createRequest(), { params: { imei } });
+
+    expect(response.status).toBe(404);
+  });
+});
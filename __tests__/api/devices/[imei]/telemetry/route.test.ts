@@ -0,0 +1,197 @@
+import { NextRequest } from 'next/server';
+
+jest.mock('@/lib/logger', () => ({
+  logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+jest.mock('@/lib/config', () => ({
+  config: { databaseUrl: 'postgresql://test', apiKey: 'test-api-key' },
+}));
+
+const mockFindDeviceLatest = jest.fn();
+const mockGetTelemetryHistory = jest.fn();
+const mockAggregateTelemetryHistory = jest.fn();
+const mockGetTelemetryMetricSeries = jest.fn();
+const mockFindActiveApiKeyByHash = jest.fn();
+
+jest.mock('@/lib/db', () => ({
+  findDeviceLatest: (...args: any[]) => mockFindDeviceLatest(...args),
+  getTelemetryHistory: (...args: any[]) => mockGetTelemetryHistory(...args),
+  aggregateTelemetryHistory: (...args: any[]) => mockAggregateTelemetryHistory(...args),
+  getTelemetryMetricSeries: (...args: any[]) => mockGetTelemetryMetricSeries(...args),
+  getDeviceTemperatureChannel: jest.fn().mockResolvedValue('probe'),
+  TELEMETRY_HISTORY_FIELDS: ['temperature', 'humidity'],
+  TELEMETRY_METRICS: ['temperature', 'probeTemperature', 'humidity', 'lightLevel', 'accelerometerMagnitude'],
+  findActiveApiKeyByHash: (...args: any[]) => mockFindActiveApiKeyByHash(...args),
+  touchApiKeyLastUsed: jest.fn().mockResolvedValue(undefined),
+}));
+
+import { GET } from '@/app/api/devices/[imei]/telemetry/route';
+import { encodeCursor } from '@/lib/api/query-params';
+
+const imei = '863257063350583';
+
+function createRequest(query: string = '', apiKey: string | null = 'test-api-key') {
+  return new NextRequest(`http://localhost:3000/api/devices/${imei}/telemetry${query}`, {
+    headers: apiKey ? { 'X-API-Key': apiKey } : {},
+  });
+}
+
+describe('GET /api/devices/:imei/telemetry', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockFindActiveApiKeyByHash.mockResolvedValue(null);
+    mockFindDeviceLatest.mockResolvedValue({ deviceImei: imei });
+    mockGetTelemetryHistory.mockResolvedValue({ items: [], nextCursor: null });
+  });
+
+  it('should return a page of readings with the next cursor', async () => {
+    mockGetTelemetryHistory.mockResolvedValue({
+      items: [{ id: 11, ts: BigInt(1739215646000), temperature: { toNumber: () => 4.5 } }],
+      nextCursor: { ts: 1739215646000, id: 11 },
+    });
+
+    const response = await GET(
+      createRequest('?from=1739000000000&to=2025-02-11T00:00:00Z&limit=1&fields=temperature'),
+      { params: { imei } }
+    );
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.data).toEqual({
+      deviceImei: imei,
+      count: 1,
+      telemetry: [{ id: 11, ts: 1739215646000, temperature: 4.5 }],
+      nextCursor: encodeCursor({ ts: 1739215646000, id: 11 }),
+    });
+    expect(mockGetTelemetryHistory).toHaveBeenCalledWith({
+      deviceImei: imei,
+      tenantId: null,
+      from: 1739000000000,
+      to: Date.parse('2025-02-11T00:00:00Z'),
+      cursor: undefined,
+      order: 'desc',
+      limit: 1,
+      fields: ['temperature'],
+    });
+  });
+
+  it('should continue from a cursor', async () => {
+    const cursor = encodeCursor({ ts: 1739215646000, id: 11 });
+
+    await GET(createRequest(`?cursor=${cursor}&order=asc`), { params: { imei } });
+
+    expect(mockGetTelemetryHistory).toHaveBeenCalledWith(expect.objectContaining({
+      cursor: { ts: 1739215646000, id: 11 },
+      order: 'asc',
+    }));
+  });
+
+  it('should reject unknown fields and malformed cursors', async () => {
+    const response = await GET(createRequest('?fields=temperature,latitude&cursor=abc'), { params: { imei } });
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.details.errors.map((e: any) => e.field)).toEqual(['cursor', 'fields']);
+    expect(mockGetTelemetryHistory).not.toHaveBeenCalled();
+  });
+
+  it('should aggregate readings into buckets', async () => {
+    const bucket = {
+      ts: 1739214000000,
+      count: 12,
+      temperature: { min: 4, max: 6, avg: 5, last: 5.5 },
+      probeTemperature: { min: 2, max: 3, avg: 2.5, last: 3 },
+      humidity: { min: null, max: null, avg: null, last: null },
+      lightLevel: { min: null, max: null, avg: null, last: null },
+      accelerometerMagnitude: { min: null, max: null, avg: null, last: null },
+    };
+    mockAggregateTelemetryHistory.mockResolvedValue({ buckets: [bucket], nextFrom: 1739217600000 });
+
+    const response = await GET(createRequest('?interval=1h&from=1739210000000&limit=1'), { params: { imei } });
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.data).toEqual({
+      deviceImei: imei,
+      interval: '1h',
+      temperatureChannel: 'probe',
+      count: 1,
+      buckets: [bucket],
+      nextFrom: 1739217600000,
+    });
+    expect(mockAggregateTelemetryHistory).toHaveBeenCalledWith({
+      deviceImei: imei,
+      tenantId: null,
+      from: 1739210000000,
+      to: undefined,
+      intervalMs: 3600000,
+      limit: 1,
+    });
+    expect(mockGetTelemetryHistory).not.toHaveBeenCalled();
+  });
+
+  it('should downsample a metric series', async () => {
+    mockGetTelemetryMetricSeries.mockResolvedValue({
+      series: Array.from({ length: 10 }, (_, i) => ({ ts: 1739210000000 + i * 60000, value: i % 3 })),
+      truncated: false,
+    });
+
+    const response = await GET(createRequest('?downsample=4&metric=humidity'), { params: { imei } });
+    const data = await response.json();
+
+    expect(data.data).toMatchObject({ metric: 'humidity', sourceCount: 10, truncated: false, count: 4 });
+    expect(mockGetTelemetryMetricSeries.mock.calls[0][1]).toBe('humidity');
+  });
+
+  it('should flag a downsampled series cut off at the source row limit', async () => {
+    mockGetTelemetryMetricSeries.mockResolvedValue({
+      series: Array.from({ length: 10 }, (_, i) => ({ ts: 1739210000000 + i * 60000, value: i })),
+      truncated: true,
+    });
+
+    const response = await GET(createRequest('?downsample=4&to=1739300000000'), { params: { imei } });
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(mockGetTelemetryMetricSeries).toHaveBeenCalledWith(
+      expect.objectContaining({ deviceImei: imei, to: 1739300000000 }),
+      'temperature',
+      200000
+    );
+    expect(data.data).toMatchObject({ sourceCount: 10, truncated: true, count: 4 });
+  });
+
+  it('should reject invalid aggregation parameters', async () => {
+    const response = await GET(createRequest('?interval=2h&downsample=10&metric=latitude'), { params: { imei } });
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.details.errors.map((e: any) => e.field)).toEqual(['interval', 'metric', 'downsample']);
+  });
+
+  it('should return 404 for a device outside the tenant', async () => {
+    mockFindActiveApiKeyByHash.mockResolvedValue({
+      id: 7,
+      tenantId: 3,
+      lastUsedAt: null,
+      tenant: { id: 3, name: 'Acme', tiveAccountId: 12345 },
+    });
+    mockFindDeviceLatest.mockResolvedValue(null);
+
+    const response = await GET(createRequest('', 'pxf_tenant-key'), { params: { imei } });
+
+    expect(response.status).toBe(404);
+    expect(mockFindDeviceLatest).toHaveBeenCalledWith(imei, 3);
+  });
+
+  it('should return 401 without a valid API key', async () => {
+    const response = await GET(createRequest('', null), { params: { imei } });
+    expect(response.status).toBe(401);
+  });
+});
@@ -10,22 +10,36 @@ jest.mock('@/lib/logger', () => ({
 }));
 
 jest.mock('@/lib/config', () => ({
-  config: { databaseUrl: 'postgresql://test' },
+  config: { databaseUrl: 'postgresql://test', apiKey: 'test-api-key' },
 }));
 
 // Mock getDeviceLatestList function
 const mockGetDeviceLatestList = jest.fn();
+const mockFindActiveApiKeyByHash = jest.fn();
+const mockGetDeviceTemperatureProfiles = jest.fn();
+const mockGetDeviceTemperatureChannels = jest.fn();
 
 jest.mock('@/lib/db', () => ({
   getDeviceLatestList: (...args: any[]) => mockGetDeviceLatestList(...args),
+  getDeviceTemperatureProfiles: (...args: any[]) => mockGetDeviceTemperatureProfiles(...args),
+  getDeviceTemperatureChannels: (...args: any[]) => mockGetDeviceTemperatureChannels(...args),
+  findActiveApiKeyByHash: (...args: any[]) => mockFindActiveApiKeyByHash(...args),
+  touchApiKeyLastUsed: jest.fn().mockResolvedValue(undefined),
 }));
 
 // Import after mocking
 import { GET } from '@/app/api/devices/route';
 
+function createRequest(url: string, apiKey: string | null = 'test-api-key') {
+  return new NextRequest(url, { headers: apiKey ? { 'X-API-Key': apiKey } : {} });
+}
+
 describe('GET /api/devices', () => {
   beforeEach(() => {
     jest.clearAllMocks();
+    mockFindActiveApiKeyByHash.mockResolvedValue(null);
+    mockGetDeviceTemperatureProfiles.mockResolvedValue(new Map());
+    mockGetDeviceTemperatureChannels.mockResolvedValue(new Map());
   });
 
   it('should return devices list', async () => {
@@ -65,7 +79,7 @@ describe('GET /api/devices', () => {
 
     mockGetDeviceLatestList.mockResolvedValue(mockDevices);
 
-    const request = new NextRequest('http://localhost:3000/api/devices?limit=10');
+    const request = createRequest('http://localhost:3000/api/devices?limit=10');
     const response = await GET(request);
     const data = await response.json();
 
@@ -74,13 +88,81 @@ describe('GET /api/devices', () => {
     expect(data.data.count).toBe(1);
     expect(data.data.devices[0].deviceImei).toBe('123');
     expect(data.data.devices[0].lastTs).toBe(1234567890); // Should be converted from BigInt
-    expect(mockGetDeviceLatestList).toHaveBeenCalledWith(10);
+    expect(mockGetDeviceLatestList).toHaveBeenCalledWith(10, null, undefined);
+    expect(data.data.devices[0].temperatureProfile).toBeNull();
+    expect(data.data.devices[0].temperatureChannel).toBe('ambient');
+  });
+
+  it('should include the assigned temperature profile', async () => {
+    mockGetDeviceLatestList.mockResolvedValue([{ deviceImei: '123', deviceId: 'Device1', lastTs: BigInt(1) }]);
+    mockGetDeviceTemperatureProfiles.mockResolvedValue(
+      new Map([['123', { id: 1, name: 'Refrigerated (2-8°C)', minTemp: 2, maxTemp: 8, allowedExcursionMinutes: 30 }]])
+    );
+
+    const response = await GET(createRequest('http://localhost:3000/api/devices'));
+    const data = await response.json();
+
+    expect(mockGetDeviceTemperatureProfiles).toHaveBeenCalledWith(['123']);
+    expect(data.data.devices[0].temperatureProfile).toMatchObject({ id: 1, minTemp: 2, maxTemp: 8 });
+  });
+
+  it('should include the primary temperature channel', async () => {
+    mockGetDeviceLatestList.mockResolvedValue([{ deviceImei: '123', deviceId: 'Device1', lastTs: BigInt(1) }]);
+    mockGetDeviceTemperatureChannels.mockResolvedValue(new Map([['123', 'probe']]));
+
+    const response = await GET(createRequest('http://localhost:3000/api/devices'));
+    const data = await response.json();
+
+    expect(mockGetDeviceTemperatureChannels).toHaveBeenCalledWith(['123']);
+    expect(data.data.devices[0].temperatureChannel).toBe('probe');
+  });
+
+  it('should return 401 without a valid API key', async () => {
+    const missing = await GET(createRequest('http://localhost:3000/api/devices', null));
+    const unknown = await GET(createRequest('http://localhost:3000/api/devices', 'pxf_unknown'));
+
+    expect(missing.status).toBe(401);
+    expect(unknown.status).toBe(401);
+    expect(mockGetDeviceLatestList).not.toHaveBeenCalled();
+  });
+
+  it('should scope devices to the tenant of a tenant API key', async () => {
+    mockFindActiveApiKeyByHash.mockResolvedValue({
+      id: 7,
+      tenantId: 3,
+      lastUsedAt: null,
+      tenant: { id: 3, name: 'Acme', tiveAccountId: 12345 },
+    });
+    mockGetDeviceLatestList.mockResolvedValue([]);
+
+    const response = await GET(createRequest('http://localhost:3000/api/devices?limit=10', 'pxf_tenant-key'));
+
+    expect(response.status).toBe(200);
+    expect(mockGetDeviceLatestList).toHaveBeenCalledWith(10, 3, undefined);
+  });
+
+  it('should filter devices by connectivity status', async () => {
+    mockGetDeviceLatestList.mockResolvedValue([]);
+
+    const response = await GET(createRequest('http://localhost:3000/api/devices?connectivity=offline'));
+
+    expect(response.status).toBe(200);
+    expect(mockGetDeviceLatestList).toHaveBeenCalledWith(100, null, 'offline');
+  });
+
+  it('should reject an unknown connectivity status', async () => {
+    const response = await GET(createRequest('http://localhost:3000/api/devices?connectivity=asleep'));
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.error).toBe('Invalid query parameters');
+    expect(mockGetDeviceLatestList).not.toHaveBeenCalled();
   });
 
   it('should handle database errors', async () => {
     mockGetDeviceLatestList.mockRejectedValue(new Error('Database error'));
 
-    const request = new NextRequest('http://localhost:3000/api/devices');
+    const request = createRequest('http://localhost:3000/api/devices');
     const response = await GET(request);
     const data = await response.json();
 
@@ -0,0 +1,126 @@
+import { NextRequest } from 'next/server';
+
+jest.mock('@/lib/logger', () => ({
+  logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+jest.mock('@/lib/config', () => ({
+  config: { databaseUrl: 'postgresql://test', apiKey: 'test-api-key' },
+}));
+
+const mockCreateGeofence = jest.fn();
+const mockListGeofences = jest.fn();
+const mockFindGeofence = jest.fn();
+const mockDeleteGeofence = jest.fn();
+const mockFindShipment = jest.fn();
+
+jest.mock('@/lib/db', () => ({
+  createGeofence: (...args: any[]) => mockCreateGeofence(...args),
+  listGeofences: (...args: any[]) => mockListGeofences(...args),
+  findGeofence: (...args: any[]) => mockFindGeofence(...args),
+  deleteGeofence: (...args: any[]) => mockDeleteGeofence(...args),
+  findShipment: (...args: any[]) => mockFindShipment(...args),
+  findActiveApiKeyByHash: jest.fn().mockResolvedValue(null),
+  touchApiKeyLastUsed: jest.fn().mockResolvedValue(undefined),
+}));
+
+import { GET, POST } from '@/app/api/geofences/route';
+import { DELETE } from '@/app/api/geofences/[id]/route';
+
+function createRequest(path: string, init: { method?: string; body?: string } = {}) {
+  return new NextRequest(`http://localhost:3000/api/geofences${path}`, {
+    method: init.method ?? 'GET',
+    headers: { 'X-API-Key': 'test-api-key', 'Content-Type': 'application/json' },
+    body: init.body,
+  });
+}
+
+describe('/api/geofences', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should create a polygon geofence', async () => {
+    mockCreateGeofence.mockResolvedValue({ id: 7, name: 'Warehouse', shape: 'polygon', centerLat: null });
+
+    const body = {
+      name: 'Warehouse',
+      type: 'polygon',
+      vertices: [
+        { latitude: 40.0, longitude: -74.0 },
+        { latitude: 40.0, longitude: -73.9 },
+        { latitude: 40.1, longitude: -73.9 },
+      ],
+      dwellMinutes: 60,
+    };
+    const response = await POST(createRequest('', { method: 'POST', body: JSON.stringify(body) }));
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(mockCreateGeofence).toHaveBeenCalledWith({
+      name: 'Warehouse',
+      shape: { type: 'polygon', vertices: body.vertices },
+      dwellMinutes: 60,
+      tenantId: null,
+    });
+    expect(data.data.id).toBe(7);
+  });
+
+  it('should reject an invalid geofence', async () => {
+    const body = { name: 'Dock', type: 'circle', latitude: 95, longitude: -74, radiusMeters: 0 };
+    const response = await POST(createRequest('', { method: 'POST', body: JSON.stringify(body) }));
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.details.errors.map((error: any) => error.field)).toEqual(['latitude', 'radiusMeters']);
+    expect(mockCreateGeofence).not.toHaveBeenCalled();
+  });
+
+  it('should list geofences without the shipment geofences', async () => {
+    mockListGeofences.mockResolvedValue([{ id: 7, name: 'Warehouse', centerLat: { toNumber: () => 40.1 } }]);
+
+    const response = await GET(createRequest('?shipmentGeofences=false'));
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(mockListGeofences).toHaveBeenCalledWith({
+      tenantId: null,
+      shipmentId: undefined,
+      includeShipmentGeofences: false,
+      limit: 100,
+    });
+    expect(data.data.geofences[0].centerLat).toBe(40.1);
+  });
+
+  it('should delete a geofence', async () => {
+    mockFindGeofence.mockResolvedValue({ id: 7, tenantId: null, shipmentId: null, role: null });
+    mockDeleteGeofence.mockResolvedValue(undefined);
+
+    const response = await DELETE(createRequest('/7', { method: 'DELETE' }), { params: { id: '7' } });
+
+    expect(response.status).toBe(200);
+    expect(mockDeleteGeofence).toHaveBeenCalledWith(7);
+  });
+
+  it('should not delete the geofence of a shipment', async () => {
+    mockFindGeofence.mockResolvedValue({ id: 8, tenantId: null, shipmentId: 1, role: 'origin' });
+
+    const response = await DELETE(createRequest('/8', { method: 'DELETE' }), { params: { id: '8' } });
+
+    expect(response.status).toBe(409);
+    expect(mockDeleteGeofence).not.toHaveBeenCalled();
+  });
+
+  it('should return 404 for an unknown geofence', async () => {
+    mockFindGeofence.mockResolvedValue(null);
+
+    const response = await DELETE(createRequest('/99', { method: 'DELETE' }), { params: { id: '99' } });
+
+    expect(response.status).toBe(404);
+  });
+});
@@ -0,0 +1,126 @@
+import { NextRequest } from 'next/server';
+
+jest.mock('@/lib/logger', () => ({
+  logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+jest.mock('@/lib/config', () => ({
+  config: { databaseUrl: 'postgresql://test', apiKey: 'test-api-key' },
+}));
+
+const mockFindShipment = jest.fn();
+const mockGetShipmentTemperatureSeries = jest.fn();
+const mockGetShipmentRoute = jest.fn();
+const mockListTemperatureExcursions = jest.fn();
+const mockListShockEvents = jest.fn();
+const mockListGeofenceEvents = jest.fn();
+
+jest.mock('@/lib/db', () => ({
+  findShipment: (...args: any[]) => mockFindShipment(...args),
+  getShipmentTemperatureSeries: (...args: any[]) => mockGetShipmentTemperatureSeries(...args),
+  getShipmentRoute: (...args: any[]) => mockGetShipmentRoute(...args),
+  listTemperatureExcursions: (...args: any[]) => mockListTemperatureExcursions(...args),
+  listShockEvents: (...args: any[]) => mockListShockEvents(...args),
+  listGeofenceEvents: (...args: any[]) => mockListGeofenceEvents(...args),
+  findActiveApiKeyByHash: jest.fn().mockResolvedValue(null),
+  touchApiKeyLastUsed: jest.fn().mockResolvedValue(undefined),
+}));
+
+import { GET } from '@/app/api/shipments/[id]/route';
+
+function createRequest(id: string, apiKey: string | null = 'test-api-key') {
+  return new NextRequest(`http://localhost:3000/api/shipments/${id}`, {
+    headers: apiKey ? { 'X-API-Key': apiKey } : {},
+  });
+}
+
+describe('GET /api/shipments/:id', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should return the shipment with devices, temperature series, route, excursions, shock and geofence events', async () => {
+    mockFindShipment.mockResolvedValue({
+      id: 1,
+      externalId: '7232',
+      publicId: 'PUB-7232',
+      firstSeenTs: BigInt(1739215646000),
+      lastSeenTs: BigInt(1739219246000),
+      deviceAssignments: [
+        { id: 4, shipmentId: 1, deviceImei: '863257063350583', firstTs: BigInt(1739215646000), lastTs: BigInt(1739219246000) },
+      ],
+    });
+    mockGetShipmentTemperatureSeries.mockResolvedValue([
+      { ts: BigInt(1739215646000), deviceImei: '863257063350583', temperature: 10.08, humidity: 38.7 },
+    ]);
+    mockGetShipmentRoute.mockResolvedValue([
+      { ts: BigInt(1739215646000), deviceImei: '863257063350583', latitude: 40.81, longitude: -73.88, locationAccuracy: 5, addressFullAddress: null },
+    ]);
+
+    mockListTemperatureExcursions.mockResolvedValue([
+      { id: 9, deviceImei: '863257063350583', direction: 'high', startTs: BigInt(1739215646000), endTs: null, peakTemperature: 9.5 },
+    ]);
+
+    mockListShockEvents.mockResolvedValue([
+      { id: 3, deviceImei: '863257063350583', kind: 'drop', severity: 'major', startTs: BigInt(1739217000000), peakMagnitude: 5.2 },
+    ]);
+
+    mockListGeofenceEvents.mockResolvedValue([
+      {
+        id: 5,
+        deviceImei: '863257063350583',
+        type: 'exit',
+        ts: BigInt(1739216000000),
+        durationMs: BigInt(600000),
+        geofence: { id: 2, name: 'Origin of shipment PUB-7232', shape: 'circle', role: 'origin' },
+      },
+    ]);
+
+    const response = await GET(createRequest('PUB-7232'), { params: { id: 'PUB-7232' } });
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(mockFindShipment).toHaveBeenCalledWith('PUB-7232', null);
+    expect(mockGetShipmentTemperatureSeries).toHaveBeenCalledWith(1, 5000);
+    expect(data.data.shipment.externalId).toBe('7232');
+    expect(data.data.shipment.deviceAssignments).toBeUndefined();
+    expect(data.data.devices[0].firstTs).toBe(1739215646000);
+    expect(data.data.temperatureSeries[0].ts).toBe(1739215646000);
+    expect(data.data.route[0].latitude).toBe(40.81);
+    expect(mockListTemperatureExcursions).toHaveBeenCalledWith({ shipmentId: 1, limit: 1000 });
+    expect(data.data.excursions[0]).toMatchObject({ id: 9, startTs: 1739215646000, endTs: null });
+    expect(mockListShockEvents).toHaveBeenCalledWith({ shipmentId: 1, limit: 1000 });
+    expect(data.data.shockEvents[0]).toMatchObject({ id: 3, kind: 'drop', startTs: 1739217000000 });
+    expect(mockListGeofenceEvents).toHaveBeenCalledWith({ shipmentId: 1, limit: 1000 });
+    expect(data.data.geofenceEvents[0]).toMatchObject({ type: 'exit', ts: 1739216000000, durationMs: 600000 });
+  });
+
+  it('should return 404 for an unknown shipment', async () => {
+    mockFindShipment.mockResolvedValue(null);
+
+    const response = await GET(createRequest('missing'), { params: { id: 'missing' } });
+
+    expect(response.status).toBe(404);
+    expect(mockGetShipmentRoute).not.toHaveBeenCalled();
+  });
+
+  it('should look up ids containing % as they are (already decoded)', async () => {
+    mockFindShipment.mockResolvedValue(null);
+
+    const response = await GET(createRequest('SHP%2525'), { params: { id: 'SHP%25' } });
+
+    expect(response.status).toBe(404);
+    expect(mockFindShipment).toHaveBeenCalledWith('SHP%25', null);
+  });
+
+  it('should return 401 without a valid API key', async () => {
+    const response = await GET(createRequest('7232', null), { params: { id: '7232' } });
+    expect(response.status).toBe(401);
+    expect(mockFindShipment).not.toHaveBeenCalled();
+  });
+});
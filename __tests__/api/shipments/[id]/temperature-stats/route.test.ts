@@ -0,0 +1,119 @@
+import { NextRequest } from 'next/server';
+
+jest.mock('@/lib/logger', () => ({
+  logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+jest.mock('@/lib/config', () => ({
+  config: { databaseUrl: 'postgresql://test', apiKey: 'test-api-key' },
+}));
+
+const mockFindShipment = jest.fn();
+const mockGetShipmentTemperatureStats = jest.fn();
+
+jest.mock('@/lib/db', () => ({
+  findShipment: (...args: any[]) => mockFindShipment(...args),
+  getShipmentTemperatureStats: (...args: any[]) => mockGetShipmentTemperatureStats(...args),
+  findActiveApiKeyByHash: jest.fn().mockResolvedValue(null),
+  touchApiKeyLastUsed: jest.fn().mockResolvedValue(undefined),
+}));
+
+import { GET } from '@/app/api/shipments/[id]/temperature-stats/route';
+
+function createRequest(id: string, query: string = '') {
+  return new NextRequest(`http://localhost:3000/api/shipments/${id}/temperature-stats${query}`, {
+    headers: { 'X-API-Key': 'test-api-key' },
+  });
+}
+
+const stats = {
+  readingCount: 2,
+  firstTs: 1739210000000,
+  lastTs: 1739210900000,
+  minTemperature: 4,
+  maxTemperature: 6,
+  mkt: 4,
+  coveredMs: 900000,
+  gapMs: 0,
+  gapCount: 0,
+  inRangeMs: 900000,
+  aboveRangeMs: 0,
+  belowRangeMs: 0,
+  stabilityBudget: null,
+};
+
+describe('GET /api/shipments/:id/temperature-stats', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockFindShipment.mockResolvedValue({ id: 42, externalId: 'SHP-1', deviceAssignments: [] });
+  });
+
+  it('should return overall and per-device statistics', async () => {
+    const profile = { id: 1, name: 'Refrigerated (2-8°C)', minTemp: { toNumber: () => 2 }, maxTemp: { toNumber: () => 8 } };
+    mockGetShipmentTemperatureStats.mockResolvedValue({
+      profile,
+      stats,
+      devices: [{ deviceImei: '863257063350583', profile, stats, truncated: false }],
+      truncated: false,
+    });
+
+    const response = await GET(
+      createRequest('SHP-1', '?from=1739200000000&activationEnergy=100&maxGapMinutes=30'),
+      { params: { id: 'SHP-1' } }
+    );
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.data).toMatchObject({
+      shipmentId: 42,
+      profile: { id: 1, minTemp: 2, maxTemp: 8 },
+      stats,
+      devices: [{ deviceImei: '863257063350583' }],
+      truncated: false,
+      activationEnergy: 100,
+      maxGapMinutes: 30,
+    });
+    expect(mockGetShipmentTemperatureStats).toHaveBeenCalledWith(42, {
+      from: 1739200000000,
+      to: undefined,
+      activationEnergyKjPerMol: 100,
+      maxGapMs: 1800000,
+      tenantId: null,
+    });
+  });
+
+  it('should use the default activation energy and gap threshold', async () => {
+    mockGetShipmentTemperatureStats.mockResolvedValue({ profile: null, stats, devices: [] });
+
+    await GET(createRequest('SHP-1'), { params: { id: 'SHP-1' } });
+
+    expect(mockGetShipmentTemperatureStats).toHaveBeenCalledWith(42, expect.objectContaining({
+      activationEnergyKjPerMol: 83.144,
+      maxGapMs: 3600000,
+    }));
+  });
+
+  it('should reject invalid parameters', async () => {
+    const response = await GET(
+      createRequest('SHP-1', '?activationEnergy=-5&maxGapMinutes=0&from=2025-02-12&to=2025-02-11'),
+      { params: { id: 'SHP-1' } }
+    );
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.details.errors.map((e: any) => e.field)).toEqual(['from', 'activationEnergy', 'maxGapMinutes']);
+  });
+
+  it('should return 404 for an unknown shipment', async () => {
+    mockFindShipment.mockResolvedValue(null);
+
+    const response = await GET(createRequest('nope'), { params: { id: 'nope' } });
+
+    expect(response.status).toBe(404);
+  });
+});
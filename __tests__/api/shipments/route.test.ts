@@ -0,0 +1,120 @@
+import { NextRequest } from 'next/server';
+
+jest.mock('@/lib/logger', () => ({
+  logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+jest.mock('@/lib/config', () => ({
+  config: { databaseUrl: 'postgresql://test', apiKey: 'test-api-key' },
+}));
+
+const mockListShipments = jest.fn();
+const mockFindActiveApiKeyByHash = jest.fn();
+
+jest.mock('@/lib/db', () => ({
+  listShipments: (...args: any[]) => mockListShipments(...args),
+  findActiveApiKeyByHash: (...args: any[]) => mockFindActiveApiKeyByHash(...args),
+  touchApiKeyLastUsed: jest.fn().mockResolvedValue(undefined),
+}));
+
+import { GET } from '@/app/api/shipments/route';
+
+function createRequest(url: string, apiKey: string | null = 'test-api-key') {
+  return new NextRequest(url, { headers: apiKey ? { 'X-API-Key': apiKey } : {} });
+}
+
+describe('GET /api/shipments', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockFindActiveApiKeyByHash.mockResolvedValue(null);
+    mockListShipments.mockResolvedValue([]);
+  });
+
+  it('should return shipments with their device count', async () => {
+    mockListShipments.mockResolvedValue([
+      {
+        id: 1,
+        externalId: '7232',
+        publicId: 'PUB-7232',
+        carrier: 'FedEx',
+        status: 'in_transit',
+        shipFromLat: null,
+        firstSeenTs: BigInt(1739215646000),
+        lastSeenTs: BigInt(1739219246000),
+        createdAt: new Date('2025-02-10T19:27:26.000Z'),
+        _count: { deviceAssignments: 2 },
+      },
+    ]);
+
+    const response = await GET(createRequest('http://localhost:3000/api/shipments'));
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.data.count).toBe(1);
+    expect(data.data.shipments[0]).toMatchObject({
+      externalId: '7232',
+      firstSeenTs: 1739215646000,
+      lastSeenTs: 1739219246000,
+      deviceCount: 2,
+    });
+    expect(data.data.shipments[0]._count).toBeUndefined();
+  });
+
+  it('should pass filters to the query', async () => {
+    const url = 'http://localhost:3000/api/shipments?status=in_transit&carrier=fedex&origin=Boston'
+      + '&destination=Chicago&q=PUB-7232&from=2025-02-10T00:00:00Z&to=1739318400000&limit=20';
+
+    const response = await GET(createRequest(url));
+
+    expect(response.status).toBe(200);
+    expect(mockListShipments).toHaveBeenCalledWith({
+      status: 'in_transit',
+      carrier: 'fedex',
+      origin: 'Boston',
+      destination: 'Chicago',
+      search: 'PUB-7232',
+      from: Date.parse('2025-02-10T00:00:00Z'),
+      to: 1739318400000,
+      tenantId: null,
+      limit: 20,
+    });
+  });
+
+  it('should reject invalid query parameters', async () => {
+    const response = await GET(createRequest('http://localhost:3000/api/shipments?from=yesterday&limit=0'));
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.details.errors.map((e: any) => e.field)).toEqual(['from', 'limit']);
+    expect(mockListShipments).not.toHaveBeenCalled();
+  });
+
+  it('should reject a range that ends before it starts', async () => {
+    const response = await GET(createRequest('http://localhost:3000/api/shipments?from=2000&to=1000'));
+    expect(response.status).toBe(400);
+  });
+
+  it('should scope shipments to the tenant of a tenant API key', async () => {
+    mockFindActiveApiKeyByHash.mockResolvedValue({
+      id: 7,
+      tenantId: 3,
+      lastUsedAt: null,
+      tenant: { id: 3, name: 'Acme', tiveAccountId: 12345 },
+    });
+
+    await GET(createRequest('http://localhost:3000/api/shipments', 'pxf_tenant-key'));
+
+    expect(mockListShipments).toHaveBeenCalledWith(expect.objectContaining({ tenantId: 3, limit: 100 }));
+  });
+
+  it('should return 401 without a valid API key', async () => {
+    const response = await GET(createRequest('http://localhost:3000/api/shipments', null));
+    expect(response.status).toBe(401);
+    expect(mockListShipments).not.toHaveBeenCalled();
+  });
+});
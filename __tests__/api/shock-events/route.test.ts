@@ -0,0 +1,83 @@
+import { NextRequest } from 'next/server';
+
+jest.mock('@/lib/logger', () => ({
+  logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+jest.mock('@/lib/config', () => ({
+  config: { databaseUrl: 'postgresql://test', apiKey: 'test-api-key' },
+}));
+
+const mockFindShipment = jest.fn();
+const mockListShockEvents = jest.fn();
+
+jest.mock('@/lib/db', () => ({
+  findShipment: (...args: any[]) => mockFindShipment(...args),
+  listShockEvents: (...args: any[]) => mockListShockEvents(...args),
+  findActiveApiKeyByHash: jest.fn().mockResolvedValue(null),
+  touchApiKeyLastUsed: jest.fn().mockResolvedValue(undefined),
+}));
+
+import { GET } from '@/app/api/shock-events/route';
+
+function createRequest(query: string, apiKey: string | null = 'test-api-key') {
+  return new NextRequest(`http://localhost:3000/api/shock-events${query}`, {
+    headers: apiKey ? { 'X-API-Key': apiKey } : {},
+  });
+}
+
+describe('GET /api/shock-events', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should list events filtered by shipment and minimum severity', async () => {
+    mockFindShipment.mockResolvedValue({ id: 1 });
+    mockListShockEvents.mockResolvedValue([
+      { id: 3, deviceImei: '863257063350583', kind: 'drop', severity: 'severe', startTs: BigInt(1739217000000), peakMagnitude: 9.2 },
+    ]);
+
+    const response = await GET(createRequest('?shipment=7232&severity=major&from=1739210000000&limit=20'));
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(mockListShockEvents).toHaveBeenCalledWith({
+      deviceImei: undefined,
+      shipmentId: 1,
+      minSeverity: 'major',
+      from: 1739210000000,
+      to: undefined,
+      tenantId: null,
+      limit: 20,
+    });
+    expect(data.data.count).toBe(1);
+    expect(data.data.shockEvents[0]).toMatchObject({ id: 3, startTs: 1739217000000, peakMagnitude: 9.2 });
+  });
+
+  it('should reject an unknown severity', async () => {
+    const response = await GET(createRequest('?severity=catastrophic'));
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.details.errors[0].field).toBe('severity');
+    expect(mockListShockEvents).not.toHaveBeenCalled();
+  });
+
+  it('should return 404 for an unknown shipment', async () => {
+    mockFindShipment.mockResolvedValue(null);
+
+    const response = await GET(createRequest('?shipment=missing'));
+
+    expect(response.status).toBe(404);
+  });
+
+  it('should return 401 without a valid API key', async () => {
+    const response = await GET(createRequest('', null));
+    expect(response.status).toBe(401);
+  });
+});
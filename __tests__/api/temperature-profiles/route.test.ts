@@ -0,0 +1,96 @@
+import { NextRequest } from 'next/server';
+import { ConflictError } from '@/lib/error-handling/error-types';
+
+jest.mock('@/lib/logger', () => ({
+  logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+jest.mock('@/lib/config', () => ({
+  config: { databaseUrl: 'postgresql://test', apiKey: 'test-api-key' },
+}));
+
+const mockListTemperatureProfiles = jest.fn();
+const mockCreateTemperatureProfile = jest.fn();
+const mockFindActiveApiKeyByHash = jest.fn();
+
+jest.mock('@/lib/db', () => ({
+  listTemperatureProfiles: (...args: any[]) => mockListTemperatureProfiles(...args),
+  createTemperatureProfile: (...args: any[]) => mockCreateTemperatureProfile(...args),
+  findActiveApiKeyByHash: (...args: any[]) => mockFindActiveApiKeyByHash(...args),
+  touchApiKeyLastUsed: jest.fn().mockResolvedValue(undefined),
+}));
+
+import { GET, POST } from '@/app/api/temperature-profiles/route';
+
+function createRequest(method: string, body?: unknown, apiKey: string | null = 'test-api-key') {
+  return new NextRequest('http://localhost:3000/api/temperature-profiles', {
+    method,
+    body: body === undefined ? undefined : JSON.stringify(body),
+    headers: apiKey ? { 'X-API-Key': apiKey } : {},
+  });
+}
+
+describe('/api/temperature-profiles', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockFindActiveApiKeyByHash.mockResolvedValue(null);
+  });
+
+  it('should list the profiles visible to the caller', async () => {
+    mockListTemperatureProfiles.mockResolvedValue([{ id: 1, name: 'Refrigerated (2-8°C)', minTemp: 2, maxTemp: 8 }]);
+
+    const response = await GET(createRequest('GET'));
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.data.count).toBe(1);
+    expect(mockListTemperatureProfiles).toHaveBeenCalledWith(null);
+  });
+
+  it('should create a profile owned by the tenant of a tenant key', async () => {
+    mockFindActiveApiKeyByHash.mockResolvedValue({
+      id: 7,
+      tenantId: 3,
+      lastUsedAt: null,
+      tenant: { id: 3, name: 'Acme', tiveAccountId: 12345 },
+    });
+    mockCreateTemperatureProfile.mockResolvedValue({ id: 4, name: 'Chocolate', minTemp: 12, maxTemp: 18, tenantId: 3 });
+
+    const response = await POST(createRequest('POST', { name: 'Chocolate', minTemp: 12, maxTemp: 18 }, 'pxf_tenant-key'));
+
+    expect(response.status).toBe(200);
+    expect(mockCreateTemperatureProfile).toHaveBeenCalledWith({
+      name: 'Chocolate',
+      minTemp: 12,
+      maxTemp: 18,
+      allowedExcursionMinutes: 0,
+      stabilityBudgetMinutes: null,
+      tenantId: 3,
+    });
+  });
+
+  it('should reject an invalid profile', async () => {
+    const response = await POST(createRequest('POST', { name: 'Inverted', minTemp: 8, maxTemp: 2 }));
+
+    expect(response.status).toBe(400);
+    expect(mockCreateTemperatureProfile).not.toHaveBeenCalled();
+  });
+
+  it('should return 409 for a duplicate name', async () => {
+    mockCreateTemperatureProfile.mockRejectedValue(new ConflictError('Temperature profile "Frozen" already exists', 'name'));
+
+    const response = await POST(createRequest('POST', { name: 'Frozen', maxTemp: -20 }));
+
+    expect(response.status).toBe(409);
+  });
+
+  it('should return 401 without a valid API key', async () => {
+    const response = await POST(createRequest('POST', { name: 'Frozen', maxTemp: -20 }, null));
+    expect(response.status).toBe(401);
+  });
+});
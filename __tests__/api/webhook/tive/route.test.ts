@@ -4,6 +4,7 @@
 
 import { POST } from '@/app/api/webhook/tive/route';
 import { NextRequest } from 'next/server';
+import { DuplicatePayloadError } from '@/lib/error-handling/error-types';
 
 // Mock dependencies
 jest.mock('@/lib/logger', () => ({
@@ -21,6 +22,11 @@ jest.mock('@/lib/db', () => ({
   updateDeviceLatestCritical: jest.fn(),
   saveTelemetry: jest.fn(),
   saveLocation: jest.fn(),
+  findActiveApiKeyByHash: jest.fn().mockResolvedValue(null),
+  findTenantByTiveAccountId: jest.fn().mockResolvedValue(null),
+  findDeviceTenantId: jest.fn().mockResolvedValue(null),
+  findShipmentTenantId: jest.fn().mockResolvedValue(null),
+  touchApiKeyLastUsed: jest.fn().mockResolvedValue(undefined),
 }));
 
 jest.mock('@/lib/inngest/client', () => ({
@@ -154,6 +160,193 @@ describe('POST /api/webhook/tive', () => {
     expect(data.error).toBe('Payload too large');
   });
 
+  it('should send the Inngest event with the payload fingerprint as event id', async () => {
+    const { storeRawPayload, updateDeviceLatestCritical } = require('@/lib/db');
+    const { inngest } = require('@/lib/inngest/client');
+
+    storeRawPayload.mockResolvedValue(1);
+    updateDeviceLatestCritical.mockResolvedValue(undefined);
+    inngest.send.mockResolvedValue({ ids: ['evt_123'] });
+
+    const request = new NextRequest('http://localhost:3000/api/webhook/tive', {
+      method: 'POST',
+      body: JSON.stringify(validPayload),
+      headers: {
+        'Content-Type': 'application/json',
+        'X-API-Key': 'test-api-key',
+        'Idempotency-Key': 'delivery-1',
+      },
+    });
+
+    await POST(request);
+
+    const fingerprint = storeRawPayload.mock.calls[0][4].fingerprint;
+    expect(fingerprint).toMatch(/^key:global:863257063350583:[0-9a-f]{64}$/);
+    expect(inngest.send).toHaveBeenCalledWith(expect.objectContaining({
+      id: fingerprint,
+      name: 'webhook/tive.process',
+    }));
+  });
+
+  it('should return the original payload_id and skip processing for duplicate deliveries', async () => {
+    const { storeRawPayload, updateDeviceLatestCritical } = require('@/lib/db');
+    const { inngest } = require('@/lib/inngest/client');
+
+    storeRawPayload.mockRejectedValue(new DuplicatePayloadError('fp', 7));
+
+    const request = new NextRequest('http://localhost:3000/api/webhook/tive', {
+      method: 'POST',
+      body: JSON.stringify(validPayload),
+      headers: {
+        'Content-Type': 'application/json',
+        'X-API-Key': 'test-api-key',
+      },
+    });
+
+    const response = await POST(request);
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.data.payload_id).toBe(7);
+    expect(data.data.duplicate).toBe(true);
+    expect(updateDeviceLatestCritical).not.toHaveBeenCalled();
+    expect(inngest.send).not.toHaveBeenCalled();
+  });
+
+  it('should flag readings older than the stored device state as out of order', async () => {
+    const { storeRawPayload, updateDeviceLatestCritical } = require('@/lib/db');
+    const { inngest } = require('@/lib/inngest/client');
+
+    storeRawPayload.mockResolvedValue(1);
+    updateDeviceLatestCritical.mockResolvedValue('late');
+    inngest.send.mockResolvedValue({ ids: ['evt_123'] });
+
+    const request = new NextRequest('http://localhost:3000/api/webhook/tive', {
+      method: 'POST',
+      body: JSON.stringify(validPayload),
+      headers: {
+        'Content-Type': 'application/json',
+        'X-API-Key': 'test-api-key',
+      },
+    });
+
+    const response = await POST(request);
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.data.out_of_order).toBe(true);
+    // Late readings still go through async processing into the history tables
+    expect(inngest.send).toHaveBeenCalled();
+  });
+
+  it('should stamp payloads sent with a tenant API key with the tenant', async () => {
+    const { storeRawPayload, updateDeviceLatestCritical, findActiveApiKeyByHash } = require('@/lib/db');
+    const { inngest } = require('@/lib/inngest/client');
+
+    findActiveApiKeyByHash.mockResolvedValueOnce({
+      id: 7,
+      tenantId: 3,
+      lastUsedAt: null,
+      tenant: { id: 3, name: 'Acme', tiveAccountId: 12345 },
+    });
+    storeRawPayload.mockResolvedValue(1);
+    updateDeviceLatestCritical.mockResolvedValue('applied');
+    inngest.send.mockResolvedValue({ ids: ['evt_123'] });
+
+    const request = new NextRequest('http://localhost:3000/api/webhook/tive', {
+      method: 'POST',
+      body: JSON.stringify({ ...validPayload, AccountId: 12345 }),
+      headers: {
+        'Content-Type': 'application/json',
+        'X-API-Key': 'pxf_tenant-key',
+      },
+    });
+
+    const response = await POST(request);
+
+    expect(response.status).toBe(200);
+    expect(storeRawPayload).toHaveBeenCalledWith(
+      expect.anything(),
+      undefined,
+      'pending',
+      undefined,
+      expect.objectContaining({ tenantId: 3 })
+    );
+    expect(updateDeviceLatestCritical.mock.calls[0][5]).toBe(3);
+    expect(inngest.send).toHaveBeenCalledWith(
+      expect.objectContaining({ data: expect.objectContaining({ tenant_id: 3 }) })
+    );
+  });
+
+  it('should reject payloads whose AccountId belongs to another tenant', async () => {
+    const { storeRawPayload, updateDeviceLatestCritical, findActiveApiKeyByHash } = require('@/lib/db');
+    const { inngest } = require('@/lib/inngest/client');
+
+    findActiveApiKeyByHash.mockResolvedValueOnce({
+      id: 7,
+      tenantId: 3,
+      lastUsedAt: null,
+      tenant: { id: 3, name: 'Acme', tiveAccountId: 12345 },
+    });
+    storeRawPayload.mockResolvedValue(2);
+
+    const request = new NextRequest('http://localhost:3000/api/webhook/tive', {
+      method: 'POST',
+      body: JSON.stringify({ ...validPayload, AccountId: 99999 }),
+      headers: {
+        'Content-Type': 'application/json',
+        'X-API-Key': 'pxf_tenant-key',
+      },
+    });
+
+    const response = await POST(request);
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.details.errors[0].field).toBe('AccountId');
+    expect(storeRawPayload).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.any(Array),
+      'failed',
+      undefined,
+      { tenantId: 3 }
+    );
+    expect(updateDeviceLatestCritical).not.toHaveBeenCalled();
+    expect(inngest.send).not.toHaveBeenCalled();
+  });
+
+  it('should reject readings of a device owned by another tenant', async () => {
+    const { storeRawPayload, updateDeviceLatestCritical, findActiveApiKeyByHash, findDeviceTenantId } = require('@/lib/db');
+    const { inngest } = require('@/lib/inngest/client');
+
+    findActiveApiKeyByHash.mockResolvedValueOnce({
+      id: 7,
+      tenantId: 3,
+      lastUsedAt: null,
+      tenant: { id: 3, name: 'Acme', tiveAccountId: 12345 },
+    });
+    findDeviceTenantId.mockResolvedValueOnce(5);
+    storeRawPayload.mockResolvedValue(2);
+
+    const request = new NextRequest('http://localhost:3000/api/webhook/tive', {
+      method: 'POST',
+      body: JSON.stringify({ ...validPayload, AccountId: 12345 }),
+      headers: {
+        'Content-Type': 'application/json',
+        'X-API-Key': 'pxf_tenant-key',
+      },
+    });
+
+    const response = await POST(request);
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.details.errors[0].field).toBe('DeviceId');
+    expect(findDeviceTenantId).toHaveBeenCalledWith(validPayload.DeviceId);
+    expect(updateDeviceLatestCritical).not.toHaveBeenCalled();
+    expect(inngest.send).not.toHaveBeenCalled();
+  });
+
   it('should return 503 when database connection fails', async () => {
     const { storeRawPayload } = require('@/lib/db');
     storeRawPayload.mockRejectedValue(new Error('Database connection failed'));
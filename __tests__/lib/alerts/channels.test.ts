@@ -0,0 +1,115 @@
+/**
+ * Unit tests for outbound alert channels
+ */
+
+import { createHmac } from 'crypto';
+
+const mockSendMail = jest.fn();
+
+jest.mock('nodemailer', () => ({
+  __esModule: true,
+  default: { createTransport: jest.fn(() => ({ sendMail: mockSendMail })) },
+}));
+
+const mockConfig: Record<string, any> = {
+  alertWebhookSecret: 'alert-secret',
+  smtp: { host: 'smtp.example.com', port: 587, secure: false, from: 'alerts@paxafe.com' },
+};
+
+jest.mock('@/lib/config', () => ({
+  get config() {
+    return mockConfig;
+  },
+}));
+
+import {
+  sendAlertNotification,
+  buildSlackPayload,
+  AlertNotification,
+  ChannelConfigurationError,
+} from '@/lib/alerts/channels';
+
+const notification: AlertNotification = {
+  alert_id: 12,
+  event: 'opened',
+  rule_id: 3,
+  rule_name: 'Vaccines too warm',
+  type: 'threshold',
+  severity: 'critical',
+  status: 'open',
+  device_imei: '863257063350583',
+  shipment_id: 42,
+  message: 'Temperature 30°C (rule: > 8)',
+  value: 30,
+  first_triggered_ts: 1739215646000,
+  last_triggered_ts: 1739215646000,
+  occurrence_count: 1,
+  sent_at: 1739215650000,
+};
+
+describe('sendAlertNotification', () => {
+  const mockFetch = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    global.fetch = mockFetch as any;
+    mockFetch.mockResolvedValue({ ok: true, status: 200, statusText: 'OK' });
+  });
+
+  it('should sign generic webhook payloads', async () => {
+    await sendAlertNotification({ type: 'webhook', url: 'https://example.com/hook' }, notification);
+
+    const [url, init] = mockFetch.mock.calls[0];
+    const expected = createHmac('sha256', 'alert-secret').update(init.body).digest('hex');
+    expect(url).toBe('https://example.com/hook');
+    expect(JSON.parse(init.body)).toEqual(notification);
+    expect(init.headers['X-Paxafe-Signature']).toBe(expected);
+  });
+
+  it('should prefer the channel secret over the default secret', async () => {
+    await sendAlertNotification({ type: 'webhook', url: 'https://example.com/hook', secret: 'own' }, notification);
+
+    const init = mockFetch.mock.calls[0][1];
+    expect(init.headers['X-Paxafe-Signature']).toBe(createHmac('sha256', 'own').update(init.body).digest('hex'));
+  });
+
+  it('should refuse to send unsigned webhooks when no secret is configured', async () => {
+    mockConfig.alertWebhookSecret = undefined;
+    try {
+      await expect(
+        sendAlertNotification({ type: 'webhook', url: 'https://example.com/hook' }, notification)
+      ).rejects.toThrow(ChannelConfigurationError);
+      expect(mockFetch).not.toHaveBeenCalled();
+    } finally {
+      mockConfig.alertWebhookSecret = 'alert-secret';
+    }
+  });
+
+  it('should send Slack-compatible payloads', async () => {
+    await sendAlertNotification({ type: 'slack', url: 'https://hooks.slack.com/services/T/B/X' }, notification);
+
+    const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+    expect(body).toEqual(buildSlackPayload(notification));
+    expect(body.text).toBe('[CRITICAL] Vaccines too warm - device 863257063350583');
+  });
+
+  it('should throw when the endpoint rejects the delivery', async () => {
+    mockFetch.mockResolvedValue({ ok: false, status: 503, statusText: 'Service Unavailable' });
+
+    await expect(
+      sendAlertNotification({ type: 'slack', url: 'https://hooks.slack.com/services/T/B/X' }, notification)
+    ).rejects.toThrow('HTTP 503');
+  });
+
+  it('should send emails over SMTP', async () => {
+    mockSendMail.mockResolvedValue({ messageId: '1' });
+
+    await sendAlertNotification({ type: 'email', to: ['ops@example.com'] }, { ...notification, event: 'resolved' });
+
+    expect(mockSendMail).toHaveBeenCalledWith(expect.objectContaining({
+      from: 'alerts@paxafe.com',
+      to: ['ops@example.com'],
+      subject: '[Resolved] Vaccines too warm - device 863257063350583',
+    }));
+  });
+});
@@ -0,0 +1,177 @@
+/**
+ * Unit tests for the alert engine (database mocked)
+ */
+
+jest.mock('@/lib/db', () => ({
+  listApplicableAlertRules: jest.fn(),
+  listEnabledAlertRulesByType: jest.fn(),
+  findMetricReference: jest.fn(),
+  findSilentDevices: jest.fn(),
+  findDeviceLatest: jest.fn(),
+  getDeviceTemperatureChannel: jest.fn(),
+  raiseAlert: jest.fn(),
+  resolveActiveAlert: jest.fn(),
+}));
+
+import { evaluateReadingAlerts, evaluateShockAlerts, checkNoDataAlerts } from '@/lib/alerts/engine';
+import { PaxafeSensorPayload, PaxafeLocationPayload } from '@/types/paxafe';
+
+const db = require('@/lib/db');
+
+const sensor = {
+  device_imei: '863257063350583',
+  timestamp: 1739215646000,
+  temperature: 30,
+  probe_temperature: 5,
+  humidity: null,
+  light_level: null,
+  accelerometer: null,
+} as unknown as PaxafeSensorPayload;
+
+const location = {
+  device_imei: '863257063350583',
+  timestamp: 1739215646000,
+  latitude: 40.81,
+  longitude: -73.88,
+  battery_level: 80,
+} as unknown as PaxafeLocationPayload;
+
+const context = { tenantId: 3, shipmentId: 42 };
+
+function rule(id: number, type: string, params: any) {
+  return { id, name: `Rule ${id}`, type, params, severity: 'warning', shipmentId: null, tenantId: null, deviceImei: null };
+}
+
+describe('evaluateReadingAlerts', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    db.findDeviceLatest.mockResolvedValue({ lastTs: BigInt(1739215646000) });
+    db.getDeviceTemperatureChannel.mockResolvedValue('ambient');
+    db.resolveActiveAlert.mockResolvedValue(null);
+  });
+
+  it('should open alerts for triggered rules and resolve cleared ones', async () => {
+    db.listApplicableAlertRules.mockResolvedValue([
+      rule(1, 'threshold', { metric: 'temperature', operator: 'gt', value: 8 }),
+      rule(2, 'battery_low', { percent: 10 }),
+    ]);
+    db.raiseAlert.mockResolvedValue({ alertId: 100, opened: true });
+    db.resolveActiveAlert.mockResolvedValue(99);
+
+    const changes = await evaluateReadingAlerts(sensor, location, context);
+
+    expect(changes).toEqual([
+      { alertId: 100, event: 'opened' },
+      { alertId: 99, event: 'resolved' },
+    ]);
+    expect(db.listApplicableAlertRules).toHaveBeenCalledWith({ tenantId: 3, deviceImei: '863257063350583', shipmentId: 42 });
+    expect(db.raiseAlert).toHaveBeenCalledWith(expect.objectContaining({ ruleId: 1, value: 30, ts: 1739215646000, shipmentId: 42 }));
+    expect(db.resolveActiveAlert).toHaveBeenCalledWith(2, '863257063350583');
+  });
+
+  it('should not report another occurrence of an active alert as a change', async () => {
+    db.listApplicableAlertRules.mockResolvedValue([rule(1, 'threshold', { metric: 'temperature', operator: 'gt', value: 8 })]);
+    db.raiseAlert.mockResolvedValue({ alertId: 100, opened: false });
+
+    expect(await evaluateReadingAlerts(sensor, location, context)).toEqual([]);
+  });
+
+  it('should evaluate temperature rules on the primary channel of the device', async () => {
+    db.getDeviceTemperatureChannel.mockResolvedValue('probe');
+    db.listApplicableAlertRules.mockResolvedValue([
+      rule(1, 'threshold', { metric: 'temperature', operator: 'gt', value: 8 }),
+      rule(2, 'threshold', { metric: 'ambient_temperature', operator: 'gt', value: 8 }),
+    ]);
+    db.raiseAlert.mockResolvedValue({ alertId: 100, opened: true });
+
+    const changes = await evaluateReadingAlerts(sensor, location, context);
+
+    expect(changes).toEqual([{ alertId: 100, event: 'opened' }]);
+    expect(db.raiseAlert).toHaveBeenCalledTimes(1);
+    expect(db.raiseAlert).toHaveBeenCalledWith(expect.objectContaining({ ruleId: 2, value: 30 }));
+    expect(db.resolveActiveAlert).toHaveBeenCalledWith(1, '863257063350583');
+  });
+
+  it('should look up the window reference for rate-of-change rules', async () => {
+    db.listApplicableAlertRules.mockResolvedValue([
+      rule(1, 'rate_of_change', { metric: 'temperature', maxChange: 5, windowMinutes: 30 }),
+    ]);
+    db.findMetricReference.mockResolvedValue({ ts: 1739215646000 - 600000, value: 20 });
+    db.raiseAlert.mockResolvedValue({ alertId: 100, opened: true });
+
+    await evaluateReadingAlerts(sensor, location, context);
+
+    expect(db.findMetricReference).toHaveBeenCalledWith(
+      '863257063350583',
+      'temperature',
+      1739215646000 - 1800000,
+      1739215646000,
+      'ambient'
+    );
+    expect(db.raiseAlert).toHaveBeenCalledWith(expect.objectContaining({ value: 10 }));
+  });
+
+  it('should resolve no-data alerts when the device reports', async () => {
+    db.listApplicableAlertRules.mockResolvedValue([rule(5, 'no_data', { minutes: 60 })]);
+    db.resolveActiveAlert.mockResolvedValue(77);
+
+    expect(await evaluateReadingAlerts(sensor, location, context)).toEqual([{ alertId: 77, event: 'resolved' }]);
+  });
+
+  it('should skip late readings', async () => {
+    db.findDeviceLatest.mockResolvedValue({ lastTs: BigInt(1739219246000) });
+
+    expect(await evaluateReadingAlerts(sensor, location, context)).toEqual([]);
+    expect(db.listApplicableAlertRules).not.toHaveBeenCalled();
+  });
+});
+
+describe('evaluateShockAlerts', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should raise alerts for shock events of at least the rule severity', async () => {
+    db.listApplicableAlertRules.mockResolvedValue([
+      rule(6, 'shock', { minSeverity: 'major' }),
+      rule(7, 'threshold', { metric: 'temperature', operator: 'gt', value: 8 }),
+    ]);
+    db.raiseAlert.mockResolvedValue({ alertId: 102, opened: true });
+
+    const changes = await evaluateShockAlerts(
+      '863257063350583',
+      [
+        { id: 1, kind: 'shock', severity: 'minor', startTs: 1000, peakMagnitude: 2.5 },
+        { id: 2, kind: 'drop', severity: 'severe', startTs: 2000, peakMagnitude: 9.1 },
+      ],
+      context
+    );
+
+    expect(changes).toEqual([{ alertId: 102, event: 'opened' }]);
+    expect(db.raiseAlert).toHaveBeenCalledTimes(1);
+    expect(db.raiseAlert).toHaveBeenCalledWith(
+      expect.objectContaining({ ruleId: 6, type: 'shock', value: 9.1, ts: 2000, shipmentId: 42 })
+    );
+    expect(db.resolveActiveAlert).not.toHaveBeenCalled();
+  });
+
+  it('should not load rules without events', async () => {
+    expect(await evaluateShockAlerts('863257063350583', [], context)).toEqual([]);
+    expect(db.listApplicableAlertRules).not.toHaveBeenCalled();
+  });
+});
+
+describe('checkNoDataAlerts', () => {
+  it('should raise alerts for silent devices', async () => {
+    const now = 1739215646000;
+    db.listEnabledAlertRulesByType.mockResolvedValue([rule(5, 'no_data', { minutes: 60 })]);
+    db.findSilentDevices.mockResolvedValue([{ deviceImei: '863257063350583', tenantId: 3, lastTs: BigInt(now - 90 * 60000) }]);
+    db.raiseAlert.mockResolvedValue({ alertId: 101, opened: true });
+
+    const changes = await checkNoDataAlerts(now);
+
+    expect(changes).toEqual([{ alertId: 101, event: 'opened' }]);
+    expect(db.findSilentDevices).toHaveBeenCalledWith(expect.objectContaining({ id: 5 }), now - 60 * 60000);
+    expect(db.raiseAlert).toHaveBeenCalledWith(expect.objectContaining({ tenantId: 3, value: 90, ts: now }));
+  });
+});
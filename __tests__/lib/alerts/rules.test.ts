@@ -0,0 +1,100 @@
+/**
+ * Unit tests for alert rule evaluation
+ */
+
+import { evaluateRule, evaluateNoData, evaluateShockEvent, AlertReading, AlertRuleDefinition } from '@/lib/alerts/rules';
+
+const reading: AlertReading = {
+  deviceImei: '863257063350583',
+  ts: 1739215646000,
+  temperature: 30,
+  ambientTemperature: 30,
+  probeTemperature: 4.5,
+  humidity: 38.7,
+  lightLevel: null,
+  batteryLevel: 5,
+  accelerometerMagnitude: 0.98,
+  latitude: 40.8103,
+  longitude: -73.8813,
+};
+
+function rule(type: AlertRuleDefinition['type'], params: any): AlertRuleDefinition {
+  return { id: 1, name: 'Test rule', type, params };
+}
+
+describe('evaluateRule', () => {
+  it('should evaluate threshold rules', () => {
+    expect(evaluateRule(rule('threshold', { metric: 'temperature', operator: 'gt', value: 8 }), reading)).toMatchObject({
+      triggered: true,
+      value: 30,
+    });
+    expect(evaluateRule(rule('threshold', { metric: 'temperature', operator: 'lte', value: 8 }), reading)?.triggered).toBe(false);
+  });
+
+  it('should evaluate threshold rules on an explicit temperature channel', () => {
+    expect(evaluateRule(rule('threshold', { metric: 'probe_temperature', operator: 'gt', value: 8 }), reading)).toMatchObject({
+      triggered: false,
+      value: 4.5,
+      message: 'Probe temperature 4.5°C (rule: > 8)',
+    });
+    expect(evaluateRule(rule('threshold', { metric: 'ambient_temperature', operator: 'gt', value: 8 }), reading)?.triggered).toBe(true);
+  });
+
+  it('should not evaluate a rule whose metric is missing', () => {
+    expect(evaluateRule(rule('threshold', { metric: 'light_level', operator: 'gt', value: 100 }), reading)).toBeNull();
+  });
+
+  it('should evaluate rate-of-change rules against the reference value', () => {
+    const roc = rule('rate_of_change', { metric: 'temperature', maxChange: 5, windowMinutes: 30 });
+
+    expect(evaluateRule(roc, reading, { ts: reading.ts - 20 * 60000, value: 22 })).toMatchObject({ triggered: true, value: 8 });
+    expect(evaluateRule(roc, reading, { ts: reading.ts - 20 * 60000, value: 27 })?.triggered).toBe(false);
+    expect(evaluateRule(roc, reading, null)).toBeNull();
+  });
+
+  it('should evaluate battery rules', () => {
+    expect(evaluateRule(rule('battery_low', { percent: 10 }), reading)?.triggered).toBe(true);
+    expect(evaluateRule(rule('battery_low', { percent: 4 }), reading)?.triggered).toBe(false);
+  });
+
+  it('should evaluate geofence exit and enter rules', () => {
+    const center = { latitude: 40.8103, longitude: -73.8913, radiusMeters: 500 };
+
+    const exit = evaluateRule(rule('geofence', { ...center, trigger: 'exit' }), reading);
+    const enter = evaluateRule(rule('geofence', { ...center, trigger: 'enter' }), reading);
+
+    // ~840 m east of the center
+    expect(exit?.triggered).toBe(true);
+    expect(enter?.triggered).toBe(false);
+    expect(exit?.value).toBeGreaterThan(800);
+  });
+
+  it('should leave no_data rules to the scheduled check', () => {
+    expect(evaluateRule(rule('no_data', { minutes: 60 }), reading)).toBeNull();
+  });
+
+  it('should leave shock rules to the detected shock events', () => {
+    expect(evaluateRule(rule('shock', { minSeverity: 'minor' }), { ...reading, accelerometerMagnitude: 9 })).toBeNull();
+  });
+});
+
+describe('evaluateShockEvent', () => {
+  it('should trigger for events of at least the minimum severity', () => {
+    const drop = { id: 1, kind: 'drop' as const, severity: 'major' as const, startTs: 0, peakMagnitude: 5.25 };
+
+    expect(evaluateShockEvent({ minSeverity: 'major' }, drop)).toEqual({
+      triggered: true,
+      value: 5.25,
+      message: 'Drop (major), peak 5.25 g (rule: major or worse)',
+    });
+    expect(evaluateShockEvent({ minSeverity: 'severe' }, drop).triggered).toBe(false);
+  });
+});
+
+describe('evaluateNoData', () => {
+  it('should trigger once the device has been silent for the configured minutes', () => {
+    const now = 1739215646000;
+    expect(evaluateNoData({ minutes: 60 }, now - 61 * 60000, now)).toMatchObject({ triggered: true, value: 61 });
+    expect(evaluateNoData({ minutes: 60 }, now - 30 * 60000, now).triggered).toBe(false);
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Unit tests for battery depletion forecasting
+ */
+
+import { BatterySample, fitDrainRate, forecastBattery, selectDischargeRun } from '@/lib/analytics/battery';
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+const options = { minSamples: 4, minSpanMs: 6 * HOUR, minDrainPercentPerDay: 0.1, rechargeJumpPercent: 5 };
+
+/** Hourly readings from `start` losing `perHour` percent an hour */
+function draining(start: number, level: number, perHour: number, count: number): BatterySample[] {
+  return Array.from({ length: count }, (_, i) => ({ ts: start + i * HOUR, level: level - i * perHour, charging: false }));
+}
+
+describe('selectDischargeRun', () => {
+  it('should start after the last reading reported as charging', () => {
+    const samples = [
+      { ts: 1, level: 50, charging: false },
+      { ts: 2, level: 60, charging: true },
+      { ts: 3, level: 59, charging: false },
+      { ts: 4, level: 58, charging: false },
+    ];
+    expect(selectDischargeRun(samples, 5).map((s) => s.ts)).toEqual([3, 4]);
+  });
+
+  it('should start at the last rise of at least the recharge jump', () => {
+    const samples = [
+      { ts: 4, level: 97, charging: null },
+      { ts: 1, level: 30, charging: null },
+      { ts: 2, level: 32, charging: null },
+      { ts: 3, level: 98, charging: null },
+    ];
+    // The 2 % rise is noise; the 66 % rise is a recharge
+    expect(selectDischargeRun(samples, 5).map((s) => s.ts)).toEqual([3, 4]);
+  });
+});
+
+describe('fitDrainRate', () => {
+  it('should return the drain in percent per day', () => {
+    expect(fitDrainRate(draining(0, 80, 1, 10))).toBeCloseTo(24);
+  });
+
+  it('should return null without two distinct timestamps', () => {
+    expect(fitDrainRate([])).toBeNull();
+    expect(fitDrainRate([{ ts: 0, level: 50, charging: false }])).toBeNull();
+    expect(fitDrainRate([{ ts: 0, level: 50, charging: false }, { ts: 0, level: 49, charging: false }])).toBeNull();
+  });
+});
+
+describe('forecastBattery', () => {
+  it('should need enough readings over a long enough span', () => {
+    expect(forecastBattery([], null, options).status).toBe('insufficient_data');
+    expect(forecastBattery(draining(0, 80, 1, 3), null, options)).toMatchObject({ status: 'insufficient_data', level: 78, sampleCount: 3 });
+    // 4 readings, but only 3 hours apart
+    expect(forecastBattery(draining(0, 80, 1, 4), null, options).status).toBe('insufficient_data');
+  });
+
+  it('should report charging devices without a forecast', () => {
+    const samples = [...draining(0, 80, 1, 10), { ts: 10 * HOUR, level: 75, charging: true }];
+    expect(forecastBattery(samples, null, options)).toMatchObject({ status: 'charging', emptyTs: null });
+  });
+
+  it('should treat a flat battery as stable', () => {
+    const samples = draining(0, 80, 0, 12);
+    expect(forecastBattery(samples, null, options)).toMatchObject({ status: 'stable', drainPercentPerDay: 0, emptyTs: null });
+  });
+
+  it('should predict when the battery will be empty', () => {
+    // 1 % an hour from 80 %: 71 % at the latest reading, empty 71 hours later
+    const forecast = forecastBattery(draining(0, 80, 1, 10), null, options);
+    expect(forecast.status).toBe('draining');
+    expect(forecast.drainPercentPerDay).toBeCloseTo(24);
+    expect(forecast.emptyTs).toBe(9 * HOUR + 71 * HOUR);
+    expect(forecast.marginMs).toBeNull();
+  });
+
+  it('should fit only the readings since the last recharge', () => {
+    const samples = [...draining(0, 40, 5, 6), ...draining(6 * HOUR, 100, 1, 10)];
+    const forecast = forecastBattery(samples, null, options);
+    expect(forecast).toMatchObject({ sampleCount: 10, fromTs: 6 * HOUR, toTs: 15 * HOUR });
+    expect(forecast.drainPercentPerDay).toBeCloseTo(24);
+  });
+
+  it('should flag batteries that will be empty before the shipment arrives', () => {
+    const samples = draining(0, 80, 1, 10);
+    const emptyTs = 80 * HOUR;
+
+    expect(forecastBattery(samples, emptyTs + DAY, options)).toMatchObject({ status: 'at_risk', marginMs: -DAY });
+    expect(forecastBattery(samples, emptyTs - DAY, options)).toMatchObject({ status: 'draining', marginMs: DAY });
+  });
+});
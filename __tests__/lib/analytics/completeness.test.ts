@@ -0,0 +1,111 @@
+/**
+ * Unit tests for reporting gaps and data completeness
+ */
+
+import { combineCompleteness, computeCompleteness, ReceivedReading } from '@/lib/analytics/completeness';
+
+const MINUTE = 60000;
+const DAY = 24 * 60 * MINUTE;
+const options = { expectedIntervalMs: 10 * MINUTE, gapFactor: 1.5, bufferedDelayMs: 30 * MINUTE };
+
+function live(...minutes: number[]): ReceivedReading[] {
+  return minutes.map((minute) => ({ ts: minute * MINUTE, receivedAt: minute * MINUTE + MINUTE }));
+}
+
+describe('computeCompleteness', () => {
+  it('should report a regular series as complete', () => {
+    const report = computeCompleteness(live(0, 10, 20, 30, 40, 50, 60), options);
+
+    expect(report.stats).toMatchObject({ readingCount: 7, expectedReadings: 7, missingMs: 0, gapCount: 0, completenessPercent: 100 });
+    expect(report.timeline).toEqual([{ kind: 'live', startTs: 0, endTs: 60 * MINUTE }]);
+  });
+
+  it('should count the time after the first missed report as missing', () => {
+    const report = computeCompleteness(live(0, 10, 20, 80, 90), options);
+
+    expect(report.gaps).toEqual([
+      { startTs: 20 * MINUTE, endTs: 80 * MINUTE, durationMs: 60 * MINUTE, missingMs: 50 * MINUTE, missingReadings: 5 },
+    ]);
+    expect(report.stats.completenessPercent).toBeCloseTo((1 - 50 / 90) * 100, 6);
+    expect(report.timeline.map((segment) => segment.kind)).toEqual(['live', 'gap', 'live']);
+  });
+
+  it('should tell readings uploaded later apart from lost ones', () => {
+    // Readings from minute 20 to 50 were buffered and all arrived at minute 100
+    const buffered = [20, 30, 40, 50].map((minute) => ({ ts: minute * MINUTE, receivedAt: 100 * MINUTE }));
+    const report = computeCompleteness([...live(0, 10, 60), ...buffered], options);
+
+    expect(report.gaps).toEqual([]);
+    expect(report.stats).toMatchObject({ completenessPercent: 100, backfilledReadingCount: 4 });
+    expect(report.timeline).toEqual([
+      { kind: 'live', startTs: 0, endTs: 10 * MINUTE },
+      { kind: 'backfilled', startTs: 10 * MINUTE, endTs: 50 * MINUTE },
+      { kind: 'live', startTs: 50 * MINUTE, endTs: 60 * MINUTE },
+    ]);
+    expect(report.backfilled).toEqual([
+      { startTs: 10 * MINUTE, endTs: 50 * MINUTE, readingCount: 4, maxDelayMs: 80 * MINUTE },
+    ]);
+  });
+
+  it('should count silences at the ends of an explicit window as gaps', () => {
+    const report = computeCompleteness(live(0, 10, 20, 30, 40, 50, 60), { ...options, from: -30 * MINUTE, to: 100 * MINUTE });
+
+    expect(report.gaps.map((gap) => [gap.startTs / MINUTE, gap.endTs / MINUTE])).toEqual([[-30, 0], [60, 100]]);
+    expect(report.stats.missingMs).toBe(50 * MINUTE);
+    expect(report.stats.windowMs).toBe(130 * MINUTE);
+  });
+
+  it('should split completeness by UTC day', () => {
+    const report = computeCompleteness(
+      [DAY - 20 * MINUTE, DAY - 10 * MINUTE, DAY + 50 * MINUTE, DAY + 60 * MINUTE].map((ts) => ({ ts, receivedAt: ts })),
+      options
+    );
+
+    expect(report.days.map((day) => [day.date, day.readingCount, day.missingMs / MINUTE])).toEqual([
+      ['1970-01-01', 2, 0],
+      ['1970-01-02', 2, 50],
+    ]);
+    expect(report.days[1].completenessPercent).toBeCloseTo((1 - 50 / 60) * 100, 6);
+  });
+
+  it('should spread a gap over the days it spans', () => {
+    const report = computeCompleteness(
+      [0, 3 * DAY + 10 * MINUTE].map((ts) => ({ ts, receivedAt: ts })),
+      options
+    );
+
+    expect(report.days.map((day) => [day.date, day.readingCount, day.gapCount, day.missingMs / MINUTE])).toEqual([
+      ['1970-01-01', 1, 1, 24 * 60 - 10],
+      ['1970-01-02', 0, 1, 24 * 60],
+      ['1970-01-03', 0, 1, 24 * 60],
+      ['1970-01-04', 1, 1, 10],
+    ]);
+  });
+
+  it('should count readings with the same timestamp once', () => {
+    const report = computeCompleteness([...live(0, 10), { ts: 10 * MINUTE, receivedAt: 90 * MINUTE }], options);
+
+    expect(report.stats.readingCount).toBe(2);
+    expect(report.stats.backfilledReadingCount).toBe(0);
+  });
+
+  it('should return an empty report without readings or window', () => {
+    const report = computeCompleteness([], options);
+
+    expect(report.stats).toMatchObject({ readingCount: 0, windowMs: 0, completenessPercent: null });
+    expect(report.timeline).toEqual([]);
+  });
+});
+
+describe('combineCompleteness', () => {
+  it('should weigh devices by the length of their window', () => {
+    const complete = computeCompleteness(live(0, 10, 20, 30), options);
+    const gappy = computeCompleteness(live(0, 10, 70), options);
+
+    const combined = combineCompleteness([complete, gappy]);
+
+    expect(combined.stats).toMatchObject({ windowMs: 100 * MINUTE, missingMs: 50 * MINUTE, gapCount: 1, completenessPercent: 50 });
+    expect(combined.days).toHaveLength(1);
+    expect(combined.days[0].readingCount).toBe(7);
+  });
+});
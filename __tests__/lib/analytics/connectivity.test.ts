@@ -0,0 +1,45 @@
+/**
+ * Unit tests for device connectivity classification
+ */
+
+import {
+  classifyConnectivity,
+  connectivityRank,
+  resolveExpectedInterval,
+} from '@/lib/analytics/connectivity';
+
+const MINUTE = 60000;
+const thresholds = { defaultIntervalMs: 15 * MINUTE, lateFactor: 2, offlineFactor: 4, graceMs: 5 * MINUTE };
+
+describe('resolveExpectedInterval', () => {
+  it('should prefer the configured interval, then the learned cadence, then the default', () => {
+    expect(resolveExpectedInterval(60 * MINUTE, 5 * MINUTE, thresholds)).toEqual({ intervalMs: 60 * MINUTE, source: 'configured' });
+    expect(resolveExpectedInterval(null, 5 * MINUTE, thresholds)).toEqual({ intervalMs: 5 * MINUTE, source: 'learned' });
+    expect(resolveExpectedInterval(null, null, thresholds)).toEqual({ intervalMs: 15 * MINUTE, source: 'default' });
+    expect(resolveExpectedInterval(null, 0, thresholds).source).toBe('default');
+  });
+});
+
+describe('classifyConnectivity', () => {
+  const now = 1000 * MINUTE;
+
+  it('should classify by silence against the expected interval plus grace', () => {
+    // 10 min interval: late after 25 min, offline after 45 min
+    expect(classifyConnectivity(now - 25 * MINUTE, now, 10 * MINUTE, thresholds)).toBe('online');
+    expect(classifyConnectivity(now - 26 * MINUTE, now, 10 * MINUTE, thresholds)).toBe('late');
+    expect(classifyConnectivity(now - 45 * MINUTE, now, 10 * MINUTE, thresholds)).toBe('late');
+    expect(classifyConnectivity(now - 46 * MINUTE, now, 10 * MINUTE, thresholds)).toBe('offline');
+  });
+
+  it('should treat readings from the future as online', () => {
+    expect(classifyConnectivity(now + MINUTE, now, 10 * MINUTE, thresholds)).toBe('online');
+  });
+});
+
+describe('connectivityRank', () => {
+  it('should order offline devices first', () => {
+    const statuses = ['online', 'offline', 'late'] as const;
+
+    expect([...statuses].sort((a, b) => connectivityRank(a) - connectivityRank(b))).toEqual(['offline', 'late', 'online']);
+  });
+});
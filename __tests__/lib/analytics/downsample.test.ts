@@ -0,0 +1,41 @@
+/**
+ * Unit tests for LTTB downsampling
+ */
+
+import { downsampleLttb, SeriesPoint } from '@/lib/analytics/downsample';
+
+function series(values: number[]): SeriesPoint[] {
+  return values.map((value, i) => ({ ts: 1739210000000 + i * 60000, value }));
+}
+
+describe('downsampleLttb', () => {
+  it('should return short series unchanged', () => {
+    const points = series([1, 2, 3]);
+    expect(downsampleLttb(points, 5)).toEqual(points);
+  });
+
+  it('should keep the endpoints and return exactly the threshold', () => {
+    const points = series(Array.from({ length: 1000 }, (_, i) => Math.sin(i / 50)));
+    const sampled = downsampleLttb(points, 100);
+
+    expect(sampled).toHaveLength(100);
+    expect(sampled[0]).toBe(points[0]);
+    expect(sampled[99]).toBe(points[999]);
+    expect(sampled.every((point, i) => i === 0 || point.ts > sampled[i - 1].ts)).toBe(true);
+  });
+
+  it('should preserve spikes', () => {
+    const values = Array.from({ length: 500 }, () => 5);
+    values[217] = 25;
+    values[402] = -10;
+
+    const sampled = downsampleLttb(series(values), 20);
+
+    expect(sampled.map((point) => point.value)).toEqual(expect.arrayContaining([25, -10]));
+  });
+
+  it('should keep only the endpoints below three points', () => {
+    const points = series([1, 2, 3, 4, 5]);
+    expect(downsampleLttb(points, 2)).toEqual([points[0], points[4]]);
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * Unit tests for temperature excursion detection
+ */
+
+import { detectExcursions, classifyTemperature, TemperatureRange } from '@/lib/analytics/excursions';
+
+const MINUTE = 60 * 1000;
+
+const refrigerated: TemperatureRange = { minTemp: 2, maxTemp: 8, allowedExcursionMinutes: 30 };
+
+function readings(...values: Array<[number, number]>) {
+  return values.map(([minute, temperature]) => ({ ts: minute * MINUTE, temperature }));
+}
+
+describe('classifyTemperature', () => {
+  it('should treat the bounds as in range', () => {
+    expect(classifyTemperature(2, refrigerated)).toBeNull();
+    expect(classifyTemperature(8, refrigerated)).toBeNull();
+    expect(classifyTemperature(8.01, refrigerated)).toBe('high');
+    expect(classifyTemperature(1.99, refrigerated)).toBe('low');
+  });
+
+  it('should support one-sided ranges', () => {
+    const frozen: TemperatureRange = { minTemp: null, maxTemp: -20, allowedExcursionMinutes: 0 };
+    expect(classifyTemperature(-80, frozen)).toBeNull();
+    expect(classifyTemperature(-19, frozen)).toBe('high');
+  });
+});
+
+describe('detectExcursions', () => {
+  it('should close an excursion at the first reading back in range', () => {
+    const result = detectExcursions(readings([0, 5], [10, 9], [20, 11], [30, 10], [40, 6]), refrigerated);
+
+    expect(result).toEqual([
+      {
+        direction: 'high',
+        startTs: 10 * MINUTE,
+        endTs: 40 * MINUTE,
+        lastTs: 30 * MINUTE,
+        peakTemperature: 11,
+        durationMs: 30 * MINUTE,
+        readingCount: 3,
+        exceedsAllowance: false,
+      },
+    ]);
+  });
+
+  it('should leave an excursion open when the history ends out of range', () => {
+    const result = detectExcursions(readings([0, 5], [10, 1], [50, -1]), refrigerated);
+
+    expect(result).toHaveLength(1);
+    expect(result[0]).toMatchObject({
+      direction: 'low',
+      endTs: null,
+      lastTs: 50 * MINUTE,
+      peakTemperature: -1,
+      durationMs: 40 * MINUTE,
+      exceedsAllowance: true,
+    });
+  });
+
+  it('should split an excursion that jumps from high to low', () => {
+    const result = detectExcursions(readings([0, 9], [10, 1], [20, 5]), refrigerated);
+
+    expect(result.map((e) => [e.direction, e.startTs, e.endTs])).toEqual([
+      ['high', 0, 10 * MINUTE],
+      ['low', 10 * MINUTE, 20 * MINUTE],
+    ]);
+  });
+
+  it('should give the same result regardless of arrival order', () => {
+    const ordered = readings([0, 5], [10, 9], [20, 5], [30, 9], [40, 5]);
+    const late = [ordered[2], ordered[0], ordered[4], ordered[1], ordered[3]];
+
+    expect(detectExcursions(late, refrigerated)).toEqual(detectExcursions(ordered, refrigerated));
+  });
+
+  it('should split an excursion when a late in-range reading arrives inside it', () => {
+    const before = detectExcursions(readings([0, 9], [20, 9], [40, 5]), refrigerated);
+    const after = detectExcursions(readings([0, 9], [10, 5], [20, 9], [40, 5]), refrigerated);
+
+    expect(before).toHaveLength(1);
+    expect(after.map((e) => [e.startTs, e.endTs])).toEqual([
+      [0, 10 * MINUTE],
+      [20 * MINUTE, 40 * MINUTE],
+    ]);
+  });
+
+  it('should return no excursions when all readings are in range', () => {
+    expect(detectExcursions(readings([0, 3], [10, 7]), refrigerated)).toEqual([]);
+    expect(detectExcursions([], refrigerated)).toEqual([]);
+  });
+});
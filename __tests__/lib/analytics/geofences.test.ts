@@ -0,0 +1,84 @@
+/**
+ * Unit tests for geofence containment and enter/exit/dwell transitions
+ */
+
+import {
+  applyGeofenceReading,
+  geofenceContains,
+  pointInPolygon,
+  GeofencePresenceState,
+} from '@/lib/analytics/geofences';
+
+const MINUTE = 60000;
+
+// Square of about 11 km around (40.05, -73.95)
+const square = [
+  { latitude: 40.0, longitude: -74.0 },
+  { latitude: 40.0, longitude: -73.9 },
+  { latitude: 40.1, longitude: -73.9 },
+  { latitude: 40.1, longitude: -74.0 },
+];
+
+describe('geofenceContains', () => {
+  it('should test points against a polygon', () => {
+    expect(pointInPolygon(40.05, -73.95, square)).toBe(true);
+    expect(pointInPolygon(40.15, -73.95, square)).toBe(false);
+    expect(pointInPolygon(40.05, -74.05, square)).toBe(false);
+  });
+
+  it('should handle concave polygons', () => {
+    // U shape open to the north
+    const u = [
+      { latitude: 0, longitude: 0 },
+      { latitude: 0, longitude: 3 },
+      { latitude: 3, longitude: 3 },
+      { latitude: 3, longitude: 2 },
+      { latitude: 1, longitude: 2 },
+      { latitude: 1, longitude: 1 },
+      { latitude: 3, longitude: 1 },
+      { latitude: 3, longitude: 0 },
+    ];
+    expect(pointInPolygon(2, 0.5, u)).toBe(true);
+    expect(pointInPolygon(2, 1.5, u)).toBe(false);
+    expect(pointInPolygon(0.5, 1.5, u)).toBe(true);
+  });
+
+  it('should test points against a circle by great-circle distance', () => {
+    const circle = { type: 'circle' as const, latitude: 40.0, longitude: -74.0, radiusMeters: 1000 };
+    expect(geofenceContains(circle, 40.008, -74.0)).toBe(true); // ~890 m north
+    expect(geofenceContains(circle, 40.01, -74.0)).toBe(false); // ~1110 m north
+    expect(geofenceContains({ type: 'polygon', vertices: square }, 40.05, -73.95)).toBe(true);
+  });
+});
+
+describe('applyGeofenceReading', () => {
+  it('should not emit an event for the first reading outside', () => {
+    const { state, transitions } = applyGeofenceReading(null, false, 0, null);
+    expect(state).toEqual({ inside: false, enteredTs: null, dwellReported: false });
+    expect(transitions).toEqual([]);
+  });
+
+  it('should emit enter and exit with the time inside', () => {
+    const entered = applyGeofenceReading({ inside: false, enteredTs: null, dwellReported: false }, true, 10 * MINUTE, null);
+    expect(entered.transitions).toEqual([{ type: 'enter', ts: 10 * MINUTE, durationMs: null }]);
+
+    const stayed = applyGeofenceReading(entered.state, true, 20 * MINUTE, null);
+    expect(stayed.transitions).toEqual([]);
+    expect(stayed.state.enteredTs).toBe(10 * MINUTE);
+
+    const exited = applyGeofenceReading(stayed.state, false, 40 * MINUTE, null);
+    expect(exited.transitions).toEqual([{ type: 'exit', ts: 40 * MINUTE, durationMs: 30 * MINUTE }]);
+    expect(exited.state.inside).toBe(false);
+  });
+
+  it('should emit dwell once per stay', () => {
+    let state: GeofencePresenceState | null = null;
+    const types: string[] = [];
+    for (const [minute, inside] of [[0, true], [20, true], [30, true], [45, true], [50, false], [60, true], [95, true]] as const) {
+      const result = applyGeofenceReading(state, inside, minute * MINUTE, 30 * MINUTE);
+      state = result.state;
+      types.push(...result.transitions.map((transition) => `${transition.type}@${minute}`));
+    }
+    expect(types).toEqual(['enter@0', 'dwell@30', 'exit@50', 'enter@60', 'dwell@95']);
+  });
+});
@@ -0,0 +1,48 @@
+/**
+ * Unit tests for distance, speed and movement state between location fixes
+ */
+
+import { computeMovementSegment, MovementFix } from '@/lib/analytics/movement';
+
+const MINUTE = 60000;
+const thresholds = { movingSpeedKmh: 3, maxSpeedKmh: 1000 };
+
+function fix(minute: number, latitude: number, longitude: number, accuracyMeters: number | null = 5): MovementFix {
+  return { ts: minute * MINUTE, latitude, longitude, accuracyMeters };
+}
+
+describe('computeMovementSegment', () => {
+  it('should compute distance and speed of a moving segment', () => {
+    // 0.1° of latitude ≈ 11.1 km in 10 minutes ≈ 67 km/h
+    const segment = computeMovementSegment(fix(0, 40.0, -74.0), fix(10, 40.1, -74.0), thresholds);
+
+    expect(segment.state).toBe('moving');
+    expect(segment.distanceMeters).toBeCloseTo(11119.5, 0);
+    expect(segment.speedKmh).toBeCloseTo(66.66, 1);
+    expect(segment.countedMeters).toBe(segment.distanceMeters);
+  });
+
+  it('should treat jitter within the accuracy radii as stationary', () => {
+    // ~22 m apart with 15 m accuracy each
+    const segment = computeMovementSegment(fix(0, 40.0, -74.0, 15), fix(1, 40.0002, -74.0, 15), thresholds);
+
+    expect(segment.state).toBe('stationary');
+    expect(segment.speedKmh).toBe(0);
+    expect(segment.countedMeters).toBe(0);
+  });
+
+  it('should flag a distant cell fix between GPS fixes as implausible', () => {
+    // ~300 km in 10 minutes with 2 km accuracy
+    const segment = computeMovementSegment(fix(0, 40.0, -74.0), fix(10, 42.7, -74.0, 2000), thresholds);
+
+    expect(segment.state).toBe('implausible');
+    expect(segment.countedMeters).toBe(0);
+  });
+
+  it('should accept a coarse fix whose uncertainty explains the jump', () => {
+    // ~5.5 km in 1 minute, but the fix is only accurate to 6 km
+    const segment = computeMovementSegment(fix(0, 40.0, -74.0), fix(1, 40.05, -74.0, 6000), thresholds);
+
+    expect(segment.state).toBe('stationary');
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Unit tests for shock and drop event detection
+ */
+
+import {
+  detectShockEvents,
+  classifyShockSeverity,
+  meetsShockSeverity,
+  ShockThresholds,
+} from '@/lib/analytics/shocks';
+
+const SECOND = 1000;
+
+const thresholds: ShockThresholds = {
+  thresholdG: 2,
+  majorG: 4,
+  severeG: 8,
+  freeFallG: 0.3,
+  mergeWindowMs: 60 * SECOND,
+};
+
+function readings(...values: Array<[number, number]>) {
+  return values.map(([second, magnitude]) => ({ ts: second * SECOND, magnitude }));
+}
+
+describe('classifyShockSeverity', () => {
+  it('should treat the thresholds as inclusive', () => {
+    expect(classifyShockSeverity(2, thresholds)).toBe('minor');
+    expect(classifyShockSeverity(4, thresholds)).toBe('major');
+    expect(classifyShockSeverity(8, thresholds)).toBe('severe');
+  });
+
+  it('should compare severities', () => {
+    expect(meetsShockSeverity('severe', 'major')).toBe(true);
+    expect(meetsShockSeverity('major', 'major')).toBe(true);
+    expect(meetsShockSeverity('minor', 'major')).toBe(false);
+  });
+});
+
+describe('detectShockEvents', () => {
+  it('should ignore readings within the normal band', () => {
+    expect(detectShockEvents(readings([0, 1], [10, 1.5], [20, 0.9]), thresholds)).toEqual([]);
+  });
+
+  it('should group consecutive spikes into one event classified by its peak', () => {
+    const events = detectShockEvents(readings([0, 1], [10, 2.5], [20, 5.2], [30, 3], [40, 1]), thresholds);
+
+    expect(events).toEqual([
+      { kind: 'shock', severity: 'major', startTs: 10 * SECOND, endTs: 30 * SECOND, peakMagnitude: 5.2, readingCount: 3 },
+    ]);
+  });
+
+  it('should split events at normal readings and at gaps longer than the merge window', () => {
+    const events = detectShockEvents(readings([0, 3], [10, 1], [20, 3], [200, 9]), thresholds);
+
+    expect(events.map((event) => [event.startTs / SECOND, event.severity])).toEqual([
+      [0, 'minor'],
+      [20, 'minor'],
+      [200, 'severe'],
+    ]);
+  });
+
+  it('should report free fall followed by an impact as a drop', () => {
+    const events = detectShockEvents(readings([30, 9.5], [0, 1], [10, 0.1], [20, 0.05]), thresholds);
+
+    expect(events).toEqual([
+      { kind: 'drop', severity: 'severe', startTs: 10 * SECOND, endTs: 30 * SECOND, peakMagnitude: 9.5, readingCount: 3 },
+    ]);
+  });
+
+  it('should report free fall without an impact as a minor drop', () => {
+    const events = detectShockEvents(readings([0, 0.2], [10, 0.1], [20, 1]), thresholds);
+
+    expect(events).toEqual([
+      { kind: 'drop', severity: 'minor', startTs: 0, endTs: 10 * SECOND, peakMagnitude: 0.1, readingCount: 2 },
+    ]);
+  });
+});
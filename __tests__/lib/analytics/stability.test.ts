@@ -0,0 +1,92 @@
+/**
+ * Unit tests for Mean Kinetic Temperature and stability budget calculations
+ */
+
+import { computeTemperatureStats, meanKineticTemperature, StabilityRange } from '@/lib/analytics/stability';
+
+const MINUTE = 60000;
+const start = 1739210000000;
+const options = { activationEnergyKjPerMol: 83.144, maxGapMs: 60 * MINUTE };
+const refrigerated: StabilityRange = { minTemp: 2, maxTemp: 8, stabilityBudgetMinutes: 120 };
+
+function readings(temperatures: number[], stepMinutes: number = 15) {
+  return temperatures.map((temperature, i) => ({ ts: start + i * stepMinutes * MINUTE, temperature }));
+}
+
+describe('meanKineticTemperature', () => {
+  it('should equal the temperature of a constant series', () => {
+    expect(meanKineticTemperature([{ temperature: 5, weight: 1 }, { temperature: 5, weight: 3 }], 83.144)).toBeCloseTo(5, 6);
+  });
+
+  it('should weigh warm periods more than the arithmetic mean', () => {
+    const mkt = meanKineticTemperature([{ temperature: 5, weight: 1 }, { temperature: 25, weight: 1 }], 83.144);
+
+    // ΔH/R = 10000 K: MKT of equal time at 5°C and 25°C is 19.70°C (arithmetic mean 15°C)
+    expect(mkt).toBeCloseTo(19.7, 1);
+  });
+
+  it('should return null without weight', () => {
+    expect(meanKineticTemperature([], 83.144)).toBeNull();
+  });
+});
+
+describe('computeTemperatureStats', () => {
+  it('should total time in, above and below range', () => {
+    // Each reading holds for 15 minutes until the next one
+    const stats = computeTemperatureStats(readings([5, 10, 12, 5, 1, 5]), refrigerated, options);
+
+    expect(stats).toMatchObject({
+      readingCount: 6,
+      minTemperature: 1,
+      maxTemperature: 12,
+      coveredMs: 75 * MINUTE,
+      gapMs: 0,
+      gapCount: 0,
+      inRangeMs: 30 * MINUTE,
+      aboveRangeMs: 30 * MINUTE,
+      belowRangeMs: 15 * MINUTE,
+      stabilityBudget: { budgetMs: 120 * MINUTE, usedMs: 45 * MINUTE, remainingMs: 75 * MINUTE, exceeded: false },
+    });
+  });
+
+  it('should count gaps against the budget instead of as in range', () => {
+    const series = [
+      { ts: start, temperature: 5 },
+      { ts: start + 15 * MINUTE, temperature: 5 },
+      { ts: start + 3 * 60 * MINUTE, temperature: 5 }, // 2h45m without data
+    ];
+
+    const stats = computeTemperatureStats(series, refrigerated, options);
+
+    expect(stats.inRangeMs).toBe(15 * MINUTE);
+    expect(stats.gapMs).toBe(165 * MINUTE);
+    expect(stats.gapCount).toBe(1);
+    expect(stats.stabilityBudget).toMatchObject({ usedMs: 165 * MINUTE, remainingMs: 0, exceeded: true });
+  });
+
+  it('should treat silences at the ends of the window as gaps', () => {
+    const stats = computeTemperatureStats(readings([5, 5]), refrigerated, {
+      ...options,
+      from: start - 2 * 60 * MINUTE,
+      to: start + 15 * MINUTE + 30 * MINUTE,
+    });
+
+    // The leading 2h is a gap, the trailing 30m is within maxGap
+    expect(stats.gapMs).toBe(120 * MINUTE);
+    expect(stats.gapCount).toBe(1);
+  });
+
+  it('should only report MKT and coverage without a profile', () => {
+    const stats = computeTemperatureStats(readings([4, 6]), null, options);
+
+    expect(stats.mkt).toBeCloseTo(4, 6);
+    expect(stats.inRangeMs).toBeNull();
+    expect(stats.stabilityBudget).toBeNull();
+  });
+
+  it('should handle an empty series', () => {
+    const stats = computeTemperatureStats([], refrigerated, { ...options, from: start, to: start + 120 * MINUTE });
+
+    expect(stats).toMatchObject({ readingCount: 0, mkt: null, coveredMs: 0, gapMs: 120 * MINUTE });
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Unit tests for stop detection on device tracks
+ */
+
+import { detectStops, TrackPoint } from '@/lib/analytics/stops';
+
+const MINUTE = 60000;
+const options = { radiusMeters: 150, minDurationMs: 15 * MINUTE };
+
+// 0.001° of latitude is about 111 m
+function point(minute: number, latitude: number, longitude: number, accuracyMeters: number | null = 10): TrackPoint {
+  return { ts: minute * MINUTE, latitude, longitude, accuracyMeters };
+}
+
+describe('detectStops', () => {
+  it('should split a track into stops separated by movement', () => {
+    const stops = detectStops(
+      [
+        point(0, 40.0, -74.0),
+        point(10, 40.0005, -74.0),
+        point(30, 40.0, -74.0005),
+        point(40, 40.05, -74.0), // driving
+        point(50, 40.1, -74.0),
+        point(60, 40.1, -74.0),
+        point(300, 40.1002, -74.0), // parked for four hours
+      ],
+      options
+    );
+
+    expect(stops).toHaveLength(2);
+    expect(stops[0]).toMatchObject({ startTs: 0, endTs: 30 * MINUTE, durationMs: 30 * MINUTE, pointCount: 3 });
+    expect(stops[0].latitude).toBeCloseTo(40.00017, 4);
+    expect(stops[1]).toMatchObject({ startTs: 50 * MINUTE, endTs: 300 * MINUTE, durationMs: 250 * MINUTE, pointCount: 3 });
+  });
+
+  it('should drop clusters shorter than the minimum duration', () => {
+    const stops = detectStops(
+      [point(0, 40.0, -74.0), point(5, 40.0, -74.0), point(10, 40.1, -74.0), point(20, 40.2, -74.0)],
+      options
+    );
+
+    expect(stops).toEqual([]);
+  });
+
+  it('should not let a low-accuracy fix end a stop or move its centroid', () => {
+    const stops = detectStops(
+      [
+        point(0, 40.0, -74.0, 5),
+        point(20, 40.01, -74.0, 2000), // cell fix ~1.1 km away, 2 km accuracy
+        point(40, 40.0, -74.0, 5),
+      ],
+      options
+    );
+
+    expect(stops).toHaveLength(1);
+    expect(stops[0]).toMatchObject({ startTs: 0, endTs: 40 * MINUTE, pointCount: 3 });
+    expect(stops[0].latitude).toBeCloseTo(40.0, 5);
+  });
+
+  it('should end a stop at an accurate fix outside the radius', () => {
+    const stops = detectStops(
+      [point(0, 40.0, -74.0), point(20, 40.0, -74.0), point(25, 40.003, -74.0), point(30, 40.003, -74.0)],
+      options
+    );
+
+    expect(stops).toHaveLength(1);
+    expect(stops[0].endTs).toBe(20 * MINUTE);
+  });
+
+  it('should sort points by timestamp first', () => {
+    const stops = detectStops([point(20, 40.0, -74.0), point(0, 40.0, -74.0)], options);
+
+    expect(stops[0]).toMatchObject({ startTs: 0, endTs: 20 * MINUTE });
+  });
+});
@@ -0,0 +1,43 @@
+/**
+ * Unit tests for temperature channel selection
+ */
+
+import {
+  getChannelTemperature,
+  selectChannelReadings,
+  toTemperatureChannel,
+} from '@/lib/analytics/temperature-channels';
+
+describe('getChannelTemperature', () => {
+  it('should return the temperature of the requested channel', () => {
+    const values = { temperature: 21.5, probeTemperature: 4.2 };
+
+    expect(getChannelTemperature(values, 'ambient')).toBe(21.5);
+    expect(getChannelTemperature(values, 'probe')).toBe(4.2);
+    expect(getChannelTemperature({ temperature: 21.5, probeTemperature: null }, 'probe')).toBeNull();
+  });
+});
+
+describe('toTemperatureChannel', () => {
+  it('should fall back to ambient for unknown values', () => {
+    expect(toTemperatureChannel('probe')).toBe('probe');
+    expect(toTemperatureChannel('external')).toBe('ambient');
+    expect(toTemperatureChannel(null)).toBe('ambient');
+  });
+});
+
+describe('selectChannelReadings', () => {
+  it('should take each device\'s channel and skip readings without it, keeping the order', () => {
+    const readings = [
+      { deviceImei: 'A', ts: 1, temperature: 20, probeTemperature: 5 },
+      { deviceImei: 'B', ts: 2, temperature: 21, probeTemperature: 6 },
+      { deviceImei: 'A', ts: 3, temperature: 22, probeTemperature: null },
+      { deviceImei: 'B', ts: 4, temperature: null, probeTemperature: 7 },
+    ];
+
+    expect(selectChannelReadings(readings, (deviceImei) => (deviceImei === 'A' ? 'probe' : 'ambient'))).toEqual([
+      { deviceImei: 'A', ts: 1, temperature: 5 },
+      { deviceImei: 'B', ts: 2, temperature: 21 },
+    ]);
+  });
+});
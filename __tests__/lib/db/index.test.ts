@@ -27,36 +27,105 @@ jest.mock('@prisma/client', () => {
     rawWebhookPayload: {
       create: jest.fn(),
       update: jest.fn(),
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
     },
     telemetry: {
       create: jest.fn(),
+      findMany: jest.fn(),
+      findFirst: jest.fn(),
+    },
+    shipment: {
+      findUnique: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    geofence: {
+      findMany: jest.fn(),
+    },
+    geofencePresence: {
+      findMany: jest.fn(),
+      upsert: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    geofenceEvent: {
+      create: jest.fn(),
+    },
+    deviceConfig: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+    },
+    temperatureExcursion: {
+      count: jest.fn(),
+      findMany: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+    shockEvent: {
+      count: jest.fn(),
+      findMany: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      deleteMany: jest.fn(),
     },
     location: {
       create: jest.fn(),
+      findMany: jest.fn(),
+      findFirst: jest.fn(),
+      findUnique: jest.fn(),
+      update: jest.fn(),
     },
     deviceLatest: {
       upsert: jest.fn(),
       update: jest.fn(),
+      updateMany: jest.fn(),
+      create: jest.fn(),
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+    },
+    deviceConnectivityEvent: {
+      create: jest.fn(),
     },
     $queryRaw: jest.fn(),
+    $executeRaw: jest.fn(),
     $transaction: jest.fn(),
     $disconnect: jest.fn(),
   };
   
   return {
     PrismaClient: jest.fn().mockImplementation(() => mockInstance),
+    Prisma: { JsonNull: 'JsonNull', DbNull: 'DbNull' },
   };
 });
 
 // Import after mocking
 import {
   storeRawPayload,
+  storeRawPayloadBatch,
   updateRawPayloadStatus,
   updateRawPayloadInngestEventId,
+  listRawPayloads,
   saveTelemetry,
   saveLocation,
   updateDeviceLatestCritical,
   updateDeviceLatestReferences,
+  updateDeviceLatestDerived,
+  getDerivationContext,
+  upsertShipment,
+  recomputeTemperatureExcursions,
+  recomputeShockEvents,
+  evaluateGeofences,
+  recordLocationMovement,
+  getTelemetryHistory,
+  getLocationHistory,
+  getTemperatureReadings,
+  aggregateTelemetryHistory,
+  scanDeviceConnectivity,
+  markDeviceReporting,
+  getReadingArrivals,
+  getShipmentCompleteness,
+  getDeviceStops,
+  updateDeviceBatteryForecast,
   checkDatabaseHealth,
   withTransaction,
   prisma,
@@ -94,10 +163,37 @@ describe('Database Functions', () => {
           status: 'pending',
           validationErrors: null,
           inngestEventId: null,
+          fingerprint: null,
+          tenantId: null,
         },
       });
     });
 
+    it('should store the fingerprint when provided', async () => {
+      mockPrisma.rawWebhookPayload.create.mockResolvedValue({ id: 3 });
+
+      await storeRawPayload({} as TivePayload, undefined, 'pending', undefined, { fingerprint: 'fp-1' });
+
+      expect(mockPrisma.rawWebhookPayload.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ fingerprint: 'fp-1' }),
+      });
+    });
+
+    it('should throw DuplicatePayloadError when the fingerprint already exists', async () => {
+      mockPrisma.rawWebhookPayload.create.mockRejectedValue(
+        Object.assign(new Error('Unique constraint failed'), { code: 'P2002' })
+      );
+      mockPrisma.rawWebhookPayload.findUnique.mockResolvedValue({ id: 42 });
+
+      await expect(
+        storeRawPayload({} as TivePayload, undefined, 'pending', undefined, { fingerprint: 'fp-1' })
+      ).rejects.toMatchObject({ name: 'DuplicatePayloadError', existingPayloadId: 42 });
+
+      expect(mockPrisma.rawWebhookPayload.findUnique).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { fingerprint: 'fp-1' } })
+      );
+    });
+
     it('should handle validation errors', async () => {
       const validationErrors = [{ field: 'DeviceId', message: 'Invalid' }];
       
@@ -121,6 +217,31 @@ describe('Database Functions', () => {
     });
   });
 
+  describe('storeRawPayloadBatch', () => {
+    it('should store rejected items without a body as JSON null', async () => {
+      mockPrisma.$transaction.mockImplementation(async (cb: any) => cb(mockPrisma));
+      mockPrisma.rawWebhookPayload.create
+        .mockResolvedValueOnce({ id: 1 })
+        .mockResolvedValueOnce({ id: 2 });
+      const errors = [{ field: 'payload', message: 'Payload must be a JSON object' }];
+
+      const stored = await storeRawPayloadBatch([
+        { payload: null, validationErrors: errors, status: 'failed' },
+        { payload: { raw: '{"DeviceId"' }, validationErrors: errors, status: 'failed', tenantId: 2 },
+      ]);
+
+      expect(stored).toEqual([{ id: 1, duplicate: false }, { id: 2, duplicate: false }]);
+      expect(mockPrisma.rawWebhookPayload.create.mock.calls[0][0].data).toEqual({
+        payload: 'JsonNull',
+        source: 'Tive',
+        status: 'failed',
+        validationErrors: errors,
+        tenantId: null,
+      });
+      expect(mockPrisma.rawWebhookPayload.create.mock.calls[1][0].data.payload).toEqual({ raw: '{"DeviceId"' });
+    });
+  });
+
   describe('updateRawPayloadStatus', () => {
     it('should update payload status', async () => {
       mockPrisma.rawWebhookPayload.update.mockResolvedValue({});
@@ -151,6 +272,38 @@ describe('Database Functions', () => {
     });
   });
 
+  describe('listRawPayloads', () => {
+    it('should filter on the payload body and validation errors and page newest first', async () => {
+      mockPrisma.rawWebhookPayload.findMany.mockResolvedValue([
+        { id: 9, payload: { DeviceId: '863257063350583', EntryTimeEpoch: 1739217000000 }, createdAt: new Date(2000) },
+        { id: 8, payload: null, createdAt: new Date(1000) },
+        { id: 7, payload: { DeviceId: '863257063350583' }, createdAt: new Date(500) },
+      ]);
+
+      const page = await listRawPayloads({
+        status: 'failed',
+        deviceId: '863257063350583',
+        validationErrorField: 'DeviceId',
+        cursor: { ts: 3000, id: 10 },
+        limit: 2,
+      });
+
+      const query = mockPrisma.rawWebhookPayload.findMany.mock.calls[0][0];
+      expect(query.where.AND).toEqual([
+        { status: 'failed' },
+        { payload: { path: ['DeviceId'], equals: '863257063350583' } },
+        { validationErrors: { array_contains: [{ field: 'DeviceId' }] } },
+        { OR: [{ createdAt: { lt: new Date(3000) } }, { createdAt: new Date(3000), id: { lt: 10 } }] },
+      ]);
+      expect(query.take).toBe(3);
+      expect(page.items).toEqual([
+        { id: 9, deviceId: '863257063350583', entryTimeEpoch: 1739217000000, createdAt: new Date(2000) },
+        { id: 8, deviceId: null, entryTimeEpoch: null, createdAt: new Date(1000) },
+      ]);
+      expect(page.nextCursor).toEqual({ ts: 1000, id: 8 });
+    });
+  });
+
   describe('saveTelemetry', () => {
     it('should save telemetry as new record', async () => {
       const payload: PaxafeSensorPayload = {
@@ -160,18 +313,22 @@ describe('Database Functions', () => {
         provider: 'Tive',
         type: 'Active',
         temperature: 10.08,
+        temperature_fahrenheit: 50.14,
+        probe_temperature: 4.5,
+        probe_temperature_fahrenheit: 40.1,
         humidity: 38.7,
         light_level: 0.0,
         accelerometer: { x: -0.562, y: -0.437, z: 0.688, magnitude: 0.99 },
         tilt: null,
         box_open: null,
+        entity_name: 'A571992',
       };
 
       mockPrisma.telemetry.create.mockResolvedValue({
         id: 1,
       });
 
-      const result = await saveTelemetry(payload);
+      const result = await saveTelemetry(payload, { tenantId: 2, shipmentId: 5, rawPayloadId: 11 });
 
       expect(result).toBe(1);
       expect(mockPrisma.telemetry.create).toHaveBeenCalledWith({
@@ -182,12 +339,24 @@ describe('Database Functions', () => {
           provider: payload.provider,
           type: payload.type,
           temperature: payload.temperature,
+          temperatureFahrenheit: 50.14,
+          probeTemperature: 4.5,
+          probeTemperatureFahrenheit: 40.1,
           humidity: payload.humidity,
           lightLevel: payload.light_level,
           accelerometerX: payload.accelerometer?.x,
           accelerometerY: payload.accelerometer?.y,
           accelerometerZ: payload.accelerometer?.z,
           accelerometerMagnitude: payload.accelerometer?.magnitude,
+          tiltX: null,
+          tiltY: null,
+          tiltZ: null,
+          tilt: null,
+          boxOpen: null,
+          entityName: 'A571992',
+          tenantId: 2,
+          shipmentId: 5,
+          rawPayloadId: 11,
         },
       });
     });
@@ -207,6 +376,7 @@ describe('Database Functions', () => {
         location_accuracy: 5,
         location_accuracy_category: 'High',
         location_source: 'gps',
+        geolocation_source: null,
         address: {
           street: '123 Main St',
           locality: 'New York',
@@ -216,10 +386,14 @@ describe('Database Functions', () => {
           full_address: '123 Main St, New York, NY 10001',
         },
         battery_level: 85,
+        battery_estimation: 'Months',
+        battery_charging: false,
         cellular_dbm: -70,
+        cellular_signal_strength: 'Good',
         cellular_network_type: 'LTE',
         cellular_operator: 'Verizon',
         wifi_access_points: 3,
+        cell_towers: null,
       };
 
       mockPrisma.location.create.mockResolvedValue({
@@ -236,81 +410,985 @@ describe('Database Functions', () => {
           ts: BigInt(payload.timestamp),
           latitude: payload.latitude,
           longitude: payload.longitude,
+          batteryEstimation: 'Months',
+          batteryCharging: false,
+          cellularSignalStrength: 'Good',
+          tenantId: null,
         }),
       });
     });
   });
 
   describe('updateDeviceLatestCritical', () => {
-    it('should upsert device latest with critical fields', async () => {
-      const sensorPayload: PaxafeSensorPayload = {
-        device_id: 'A571992',
-        device_imei: '863257063350583',
-        timestamp: Date.now(),
-        provider: 'Tive',
-        type: 'Active',
-        temperature: 10.08,
-        humidity: 38.7,
-        light_level: 0.0,
-        accelerometer: { x: -0.562, y: -0.437, z: 0.688, magnitude: 0.99 },
-        tilt: null,
-        box_open: null,
-      };
+    const timestamp = Date.now();
 
-      const locationPayload: PaxafeLocationPayload = {
-        device_id: 'A571992',
-        device_imei: '863257063350583',
-        timestamp: Date.now(),
-        provider: 'Tive',
-        type: 'Active',
-        latitude: 40.810562,
-        longitude: -73.879285,
-        altitude: null,
-        location_accuracy: null,
-        location_accuracy_category: null,
-        location_source: null,
-        address: null,
-        battery_level: null,
-        cellular_dbm: null,
-        cellular_network_type: null,
-        cellular_operator: null,
-        wifi_access_points: null,
-      };
+    const sensorPayload: PaxafeSensorPayload = {
+      device_id: 'A571992',
+      device_imei: '863257063350583',
+      timestamp,
+      provider: 'Tive',
+      type: 'Active',
+      temperature: 10.08,
+      temperature_fahrenheit: null,
+      probe_temperature: null,
+      probe_temperature_fahrenheit: null,
+      humidity: 38.7,
+      light_level: 0.0,
+      accelerometer: { x: -0.562, y: -0.437, z: 0.688, magnitude: 0.99 },
+      tilt: null,
+      box_open: null,
+      entity_name: null,
+    };
+
+    const locationPayload: PaxafeLocationPayload = {
+      device_id: 'A571992',
+      device_imei: '863257063350583',
+      timestamp,
+      provider: 'Tive',
+      type: 'Active',
+      latitude: 40.810562,
+      longitude: -73.879285,
+      altitude: null,
+      location_accuracy: null,
+      location_accuracy_category: null,
+      location_source: null,
+      geolocation_source: null,
+      address: null,
+      battery_level: null,
+      battery_estimation: null,
+      battery_charging: null,
+      cellular_dbm: null,
+      cellular_signal_strength: null,
+      cellular_network_type: null,
+      cellular_operator: null,
+      wifi_access_points: null,
+      cell_towers: null,
+    };
 
-      mockPrisma.deviceLatest.upsert.mockResolvedValue({});
+    it('should update only when the stored state is older', async () => {
+      mockPrisma.deviceLatest.updateMany.mockResolvedValue({ count: 1 });
+
+      const outcome = await updateDeviceLatestCritical(
+        '863257063350583',
+        'A571992',
+        timestamp,
+        sensorPayload,
+        locationPayload
+      );
+
+      expect(outcome).toBe('applied');
+      expect(mockPrisma.deviceLatest.updateMany).toHaveBeenCalledWith({
+        where: { deviceImei: '863257063350583', lastTs: { lt: BigInt(timestamp) } },
+        data: expect.objectContaining({ lastTs: BigInt(timestamp), lastTemperature: 10.08 }),
+      });
+      expect(mockPrisma.deviceLatest.create).not.toHaveBeenCalled();
+    });
+
+    it('should leave derived fields to the asynchronous update unless the provider reports them', async () => {
+      mockPrisma.deviceLatest.updateMany.mockResolvedValue({ count: 1 });
+
+      await updateDeviceLatestCritical('863257063350583', 'A571992', timestamp, sensorPayload, locationPayload);
+      expect(mockPrisma.deviceLatest.updateMany.mock.calls[0][0].data).not.toHaveProperty('lastBoxOpen');
+      expect(mockPrisma.deviceLatest.updateMany.mock.calls[0][0].data).not.toHaveProperty('lastTilt');
 
       await updateDeviceLatestCritical(
         '863257063350583',
         'A571992',
-        Date.now(),
+        timestamp,
+        { ...sensorPayload, box_open: true },
+        locationPayload
+      );
+      expect(mockPrisma.deviceLatest.updateMany.mock.calls[1][0].data).toMatchObject({ lastBoxOpen: true });
+    });
+
+    it('should create the row for the first reading of a device', async () => {
+      mockPrisma.deviceLatest.updateMany.mockResolvedValue({ count: 0 });
+      mockPrisma.deviceLatest.create.mockResolvedValue({});
+
+      const outcome = await updateDeviceLatestCritical(
+        '863257063350583',
+        'A571992',
+        timestamp,
         sensorPayload,
         locationPayload
       );
 
-      expect(mockPrisma.deviceLatest.upsert).toHaveBeenCalledWith({
+      expect(outcome).toBe('applied');
+      expect(mockPrisma.deviceLatest.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ deviceImei: '863257063350583', provider: 'Tive' }),
+      });
+    });
+
+    it('should attribute devices without a tenant but never re-stamp the owner', async () => {
+      mockPrisma.deviceLatest.updateMany.mockResolvedValue({ count: 1 });
+
+      await updateDeviceLatestCritical('863257063350583', 'A571992', timestamp, sensorPayload, locationPayload, 3);
+
+      expect(mockPrisma.deviceLatest.updateMany.mock.calls[0][0].data).not.toHaveProperty('tenantId');
+      expect(mockPrisma.deviceLatest.updateMany).toHaveBeenCalledWith({
+        where: { deviceImei: '863257063350583', tenantId: null },
+        data: { tenantId: 3 },
+      });
+
+      mockPrisma.deviceLatest.updateMany.mockClear();
+      await updateDeviceLatestCritical('863257063350583', 'A571992', timestamp, sensorPayload, locationPayload);
+      expect(mockPrisma.deviceLatest.updateMany).toHaveBeenCalledTimes(1);
+    });
+
+    it('should count a late arrival when a newer reading is stored', async () => {
+      mockPrisma.deviceLatest.updateMany.mockResolvedValue({ count: 0 });
+      mockPrisma.deviceLatest.create.mockRejectedValue(
+        Object.assign(new Error('Unique constraint failed'), { code: 'P2002' })
+      );
+      mockPrisma.deviceLatest.update.mockResolvedValue({});
+
+      const outcome = await updateDeviceLatestCritical(
+        '863257063350583',
+        'A571992',
+        timestamp,
+        sensorPayload,
+        locationPayload
+      );
+
+      expect(outcome).toBe('late');
+      expect(mockPrisma.deviceLatest.update).toHaveBeenCalledWith({
         where: { deviceImei: '863257063350583' },
-        create: expect.any(Object),
-        update: expect.any(Object),
+        data: { lateArrivalCount: { increment: 1 } },
       });
     });
+
+    it('should report failure without throwing', async () => {
+      mockPrisma.deviceLatest.updateMany.mockRejectedValue(new Error('Connection lost'));
+
+      const outcome = await updateDeviceLatestCritical(
+        '863257063350583',
+        'A571992',
+        timestamp,
+        sensorPayload,
+        locationPayload
+      );
+
+      expect(outcome).toBe('failed');
+    });
   });
 
   describe('updateDeviceLatestReferences', () => {
-    it('should update device latest references', async () => {
-      mockPrisma.deviceLatest.update.mockResolvedValue({});
+    it('should only move references forward in time', async () => {
+      mockPrisma.deviceLatest.updateMany.mockResolvedValue({ count: 1 });
+
+      await updateDeviceLatestReferences('863257063350583', 1, 2, 1739215646000);
+
+      expect(mockPrisma.deviceLatest.updateMany).toHaveBeenCalledWith({
+        where: {
+          deviceImei: '863257063350583',
+          OR: [
+            { latestTelemetryId: null },
+            { latestTelemetry: { is: { ts: { lte: BigInt(1739215646000) } } } },
+          ],
+        },
+        data: { latestTelemetryId: 1 },
+      });
+      expect(mockPrisma.deviceLatest.updateMany).toHaveBeenCalledWith({
+        where: {
+          deviceImei: '863257063350583',
+          OR: [
+            { latestLocationId: null },
+            { latestLocation: { is: { ts: { lte: BigInt(1739215646000) } } } },
+          ],
+        },
+        data: { latestLocationId: 2 },
+      });
+    });
+  });
+
+  describe('updateDeviceLatestDerived', () => {
+    it('should only apply while the reading is the latest', async () => {
+      mockPrisma.deviceLatest.updateMany.mockResolvedValue({ count: 1 });
+
+      await updateDeviceLatestDerived('863257063350583', 1739215646000, {
+        tilt: { x: 0, y: 0, z: 90, tilt: 0 },
+        box_open: false,
+      } as PaxafeSensorPayload);
+
+      expect(mockPrisma.deviceLatest.updateMany).toHaveBeenCalledWith({
+        where: { deviceImei: '863257063350583', lastTs: BigInt(1739215646000) },
+        data: { lastTiltX: 0, lastTiltY: 0, lastTiltZ: 90, lastTilt: 0, lastBoxOpen: false },
+      });
+    });
+  });
+
+  describe('getDerivationContext', () => {
+    it('should load the calibration and the box state of the previous reading', async () => {
+      mockPrisma.deviceConfig.findUnique.mockResolvedValue({
+        luxBaseline: 3.5,
+        restAccelerometerX: 0,
+        restAccelerometerY: -1,
+        restAccelerometerZ: 0,
+      });
+      mockPrisma.telemetry.findFirst.mockResolvedValue({ boxOpen: true });
+
+      const context = await getDerivationContext('863257063350583', 1739215646000);
+
+      expect(context).toEqual({
+        calibration: { luxBaseline: 3.5, restOrientation: { x: 0, y: -1, z: 0 } },
+        previousBoxOpen: true,
+      });
+      expect(mockPrisma.telemetry.findFirst).toHaveBeenCalledWith(expect.objectContaining({
+        where: { deviceImei: '863257063350583', ts: { lt: BigInt(1739215646000) }, boxOpen: { not: null } },
+      }));
+    });
+
+    it('should fall back to no calibration and an unknown box state', async () => {
+      mockPrisma.deviceConfig.findUnique.mockResolvedValue(null);
+      mockPrisma.telemetry.findFirst.mockResolvedValue(null);
+
+      expect(await getDerivationContext('863257063350583', 1739215646000)).toEqual({
+        calibration: null,
+        previousBoxOpen: null,
+      });
+    });
+  });
+
+  describe('upsertShipment', () => {
+    const shipment = {
+      shipment_id: 'SHP-001',
+      public_shipment_id: null,
+      provider: 'Tive' as const,
+      device_id: 'A571992',
+      device_imei: '863257063350583',
+      timestamp: 1739215646000,
+      description: 'Vaccines to Boston',
+      carrier: null,
+      ship_from: { latitude: 40.81, longitude: -73.88, address: null },
+      ship_to: null,
+    };
+
+    it('should upsert the shipment and the device assignment in one transaction', async () => {
+      mockPrisma.$transaction.mockImplementation(async (cb: any) => cb(mockPrisma));
+      mockPrisma.$queryRaw.mockResolvedValue([{ id: 42 }]);
+      mockPrisma.$executeRaw.mockResolvedValue(1);
+
+      const shipmentId = await upsertShipment(shipment, 3);
+
+      expect(shipmentId).toBe(42);
+      expect(mockPrisma.$queryRaw.mock.calls[0].slice(1)).toEqual(
+        expect.arrayContaining(['SHP-001', 3, BigInt(1739215646000)])
+      );
+      expect(mockPrisma.$executeRaw.mock.calls[0].slice(1)).toEqual(
+        [42, '863257063350583', 'A571992', BigInt(1739215646000), BigInt(1739215646000)]
+      );
+    });
+
+    it('should throw a descriptive error when the upsert fails', async () => {
+      mockPrisma.$transaction.mockRejectedValue(new Error('Connection lost'));
+
+      await expect(upsertShipment(shipment)).rejects.toThrow('Failed to upsert shipment: Connection lost');
+    });
+  });
+
+
+  describe('recomputeTemperatureExcursions', () => {
+    const MINUTE = 60 * 1000;
+    const profile = { id: 1, minTemp: 2, maxTemp: 8, allowedExcursionMinutes: 30 };
+
+    function telemetry(minute: number, temperature: number) {
+      return { ts: BigInt(minute * MINUTE), temperature, tenantId: 3 };
+    }
+
+    beforeEach(() => {
+      mockPrisma.$transaction.mockImplementation(async (cb: any) => cb(mockPrisma));
+      mockPrisma.$executeRaw.mockResolvedValue(1);
+      mockPrisma.shipment.findUnique.mockResolvedValue({ temperatureProfile: profile });
+      mockPrisma.deviceConfig.findUnique.mockResolvedValue(null);
+    });
+
+    it('should create new excursions and update changed ones in place', async () => {
+      mockPrisma.telemetry.findMany.mockResolvedValue([
+        telemetry(0, 9), telemetry(10, 10), telemetry(20, 5), telemetry(30, 1),
+      ]);
+      mockPrisma.temperatureExcursion.findMany.mockResolvedValue([
+        {
+          id: 7, direction: 'high', startTs: BigInt(0), endTs: null, lastTs: BigInt(0), profileId: 1,
+          peakTemperature: 9, readingCount: 1, exceedsAllowance: false,
+        },
+      ]);
+
+      const result = await recomputeTemperatureExcursions('863257063350583', 42);
+
+      expect(result).toEqual({ profileId: 1, created: 1, updated: 1, removed: 0, open: 1 });
+      expect(mockPrisma.temperatureExcursion.update).toHaveBeenCalledWith({
+        where: { id: 7 },
+        data: expect.objectContaining({ endTs: BigInt(20 * MINUTE), lastTs: BigInt(10 * MINUTE), peakTemperature: 10 }),
+      });
+      expect(mockPrisma.temperatureExcursion.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          deviceImei: '863257063350583',
+          shipmentId: 42,
+          tenantId: 3,
+          direction: 'low',
+          startTs: BigInt(30 * MINUTE),
+          endTs: null,
+        }),
+      });
+    });
+
+    it('should delete excursions that no longer exist', async () => {
+      mockPrisma.telemetry.findMany.mockResolvedValue([telemetry(0, 5), telemetry(10, 6)]);
+      mockPrisma.temperatureExcursion.findMany.mockResolvedValue([
+        { id: 7, direction: 'high', startTs: BigInt(10 * MINUTE) },
+      ]);
+
+      const result = await recomputeTemperatureExcursions('863257063350583', 42);
+
+      expect(result.removed).toBe(1);
+      expect(mockPrisma.temperatureExcursion.deleteMany).toHaveBeenCalledWith({ where: { id: { in: [7] } } });
+    });
+
+    it('should detect excursions on the probe channel when it is the primary channel', async () => {
+      mockPrisma.deviceConfig.findUnique.mockResolvedValue({ temperatureChannel: 'probe' });
+      mockPrisma.telemetry.findMany.mockResolvedValue([
+        { ts: BigInt(0), temperature: 20, probeTemperature: 5, tenantId: 3 },
+        { ts: BigInt(10 * MINUTE), temperature: 21, probeTemperature: 9, tenantId: 3 },
+      ]);
+      mockPrisma.temperatureExcursion.findMany.mockResolvedValue([]);
+
+      const result = await recomputeTemperatureExcursions('863257063350583', 42);
+
+      expect(mockPrisma.telemetry.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { deviceImei: '863257063350583', shipmentId: 42, probeTemperature: { not: null } },
+      }));
+      expect(result).toEqual({ profileId: 1, created: 1, updated: 0, removed: 0, open: 1 });
+      expect(mockPrisma.temperatureExcursion.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ direction: 'high', startTs: BigInt(10 * MINUTE), peakTemperature: 9 }),
+      });
+    });
+
+    it('should only recompute between the in-range readings around a new reading', async () => {
+      mockPrisma.telemetry.findFirst
+        .mockResolvedValueOnce({ ts: BigInt(10 * MINUTE) })
+        .mockResolvedValueOnce({ ts: BigInt(40 * MINUTE) });
+      mockPrisma.telemetry.findMany.mockResolvedValue([
+        telemetry(10, 5), telemetry(20, 9), telemetry(30, 10), telemetry(40, 6),
+      ]);
+      mockPrisma.temperatureExcursion.findMany.mockResolvedValue([]);
+      mockPrisma.temperatureExcursion.count.mockResolvedValue(1);
+
+      const result = await recomputeTemperatureExcursions('863257063350583', 42, 30 * MINUTE);
+
+      const window = { gte: BigInt(10 * MINUTE), lte: BigInt(40 * MINUTE) };
+      expect(mockPrisma.telemetry.findFirst).toHaveBeenCalledWith({
+        where: {
+          AND: [
+            { deviceImei: '863257063350583', shipmentId: 42, temperature: { not: null } },
+            { temperature: { gte: 2, lte: 8 } },
+            { ts: { lt: BigInt(30 * MINUTE) } },
+          ],
+        },
+        orderBy: [{ ts: 'desc' }, { id: 'desc' }],
+        select: { ts: true },
+      });
+      expect(mockPrisma.telemetry.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { deviceImei: '863257063350583', shipmentId: 42, temperature: { not: null }, ts: window },
+      }));
+      expect(mockPrisma.temperatureExcursion.findMany).toHaveBeenCalledWith({
+        where: { deviceImei: '863257063350583', shipmentId: 42, startTs: window },
+      });
+      // The closed excursion in the window is created; the open count covers the whole shipment
+      expect(result).toEqual({ profileId: 1, created: 1, updated: 0, removed: 0, open: 1 });
+      expect(mockPrisma.temperatureExcursion.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ startTs: BigInt(20 * MINUTE), endTs: BigInt(40 * MINUTE) }),
+      });
+    });
+
+    it('should remove all excursions when no profile applies', async () => {
+      mockPrisma.shipment.findUnique.mockResolvedValue({ temperatureProfile: null });
+      mockPrisma.deviceConfig.findUnique.mockResolvedValue(null);
+      mockPrisma.temperatureExcursion.findMany.mockResolvedValue([{ id: 7 }, { id: 8 }]);
+
+      const result = await recomputeTemperatureExcursions('863257063350583', 42);
+
+      expect(result).toEqual({ profileId: null, created: 0, updated: 0, removed: 2, open: 0 });
+      expect(mockPrisma.telemetry.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('recomputeShockEvents', () => {
+    const SECOND = 1000;
+    const thresholds = { thresholdG: 2, majorG: 4, severeG: 8, freeFallG: 0.3, mergeWindowMs: 60 * SECOND };
+
+    function telemetry(second: number, accelerometerMagnitude: number) {
+      return { ts: BigInt(second * SECOND), accelerometerMagnitude, tenantId: 3 };
+    }
+
+    beforeEach(() => {
+      mockPrisma.$transaction.mockImplementation(async (cb: any) => cb(mockPrisma));
+      mockPrisma.$executeRaw.mockResolvedValue(1);
+    });
+
+    it('should create new events, extend existing ones and remove stale ones', async () => {
+      mockPrisma.telemetry.findMany.mockResolvedValue([
+        telemetry(0, 2.5), telemetry(10, 5), telemetry(20, 1), telemetry(30, 9),
+      ]);
+      mockPrisma.shockEvent.findMany.mockResolvedValue([
+        { id: 7, kind: 'shock', severity: 'minor', startTs: BigInt(0), endTs: BigInt(0), peakMagnitude: 2.5, readingCount: 1 },
+        { id: 8, kind: 'shock', severity: 'minor', startTs: BigInt(20 * SECOND) },
+      ]);
+      mockPrisma.shockEvent.create.mockImplementation(async ({ data }: any) => ({ id: 9, ...data }));
+
+      const result = await recomputeShockEvents('863257063350583', 42, thresholds, { ts: 30 * SECOND, magnitude: 9 });
+
+      expect(result).toMatchObject({ skipped: false, updated: 1, removed: 1 });
+      expect(result.created).toEqual([expect.objectContaining({ id: 9, severity: 'severe', startTs: BigInt(30 * SECOND) })]);
+      expect(mockPrisma.shockEvent.update).toHaveBeenCalledWith({
+        where: { id: 7 },
+        data: expect.objectContaining({ severity: 'major', endTs: BigInt(10 * SECOND), peakMagnitude: 5, readingCount: 2 }),
+      });
+      expect(mockPrisma.shockEvent.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ deviceImei: '863257063350583', shipmentId: 42, tenantId: 3, kind: 'shock' }),
+      });
+      expect(mockPrisma.shockEvent.deleteMany).toHaveBeenCalledWith({ where: { id: { in: [8] } } });
+    });
+
+    it('should only recompute between the normal readings around a spike', async () => {
+      mockPrisma.telemetry.findFirst
+        .mockResolvedValueOnce({ ts: BigInt(20 * SECOND) })
+        .mockResolvedValueOnce(null);
+      mockPrisma.telemetry.findMany.mockResolvedValue([telemetry(20, 1), telemetry(30, 9)]);
+      mockPrisma.shockEvent.findMany.mockResolvedValue([]);
+      mockPrisma.shockEvent.create.mockImplementation(async ({ data }: any) => ({ id: 9, ...data }));
+
+      const result = await recomputeShockEvents('863257063350583', 42, thresholds, { ts: 30 * SECOND, magnitude: 9 });
+
+      expect(mockPrisma.telemetry.findFirst.mock.calls[0][0].where.AND[1]).toEqual({
+        accelerometerMagnitude: { gt: 0.3, lt: 2 },
+      });
+      expect(mockPrisma.telemetry.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: expect.objectContaining({ ts: { gte: BigInt(20 * SECOND) } }),
+      }));
+      expect(mockPrisma.shockEvent.findMany).toHaveBeenCalledWith({
+        where: { deviceImei: '863257063350583', shipmentId: 42, startTs: { gte: BigInt(20 * SECOND) } },
+      });
+      expect(result.created).toEqual([expect.objectContaining({ startTs: BigInt(30 * SECOND) })]);
+    });
+
+    it('should skip normal readings outside every stored event', async () => {
+      mockPrisma.shockEvent.count.mockResolvedValue(0);
+
+      const result = await recomputeShockEvents('863257063350583', 42, thresholds, { ts: 30 * SECOND, magnitude: 1 });
+
+      expect(result).toEqual({ skipped: true, created: [], updated: 0, removed: 0 });
+      expect(mockPrisma.telemetry.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('recordLocationMovement', () => {
+    const MINUTE = 60000;
+    const thresholds = { movingSpeedKmh: 3, maxSpeedKmh: 1000 };
+    const location = {
+      id: 20, deviceImei: '863257063350583', shipmentId: 42, ts: 10 * MINUTE, latitude: 40.1, longitude: -74.0, accuracyMeters: 5,
+    };
+
+    function stored(id: number, minute: number, latitude: number, movementState: string, distanceMeters: number | null) {
+      return { id, ts: BigInt(minute * MINUTE), latitude, longitude: -74.0, locationAccuracy: 5, movementState, distanceMeters };
+    }
+
+    beforeEach(() => {
+      mockPrisma.$transaction.mockImplementation(async (cb: any) => cb(mockPrisma));
+      mockPrisma.$executeRaw.mockResolvedValue(1);
+      mockPrisma.location.findUnique.mockResolvedValue(stored(20, 10, 40.1, null as any, null));
+    });
+
+    it('should measure from the previous accepted fix and add moving distance to the shipment', async () => {
+      mockPrisma.location.findFirst
+        .mockResolvedValueOnce(stored(19, 0, 40.0, 'stationary', null))
+        .mockResolvedValueOnce(null);
+
+      const result = await recordLocationMovement(location, thresholds);
+
+      expect(result.state).toBe('moving');
+      expect(result.distanceMeters).toBeCloseTo(11119.5, 0);
+      expect(result.countedMeters).toBeCloseTo(11119.5, 0);
+      expect(mockPrisma.location.findFirst).toHaveBeenCalledWith(expect.objectContaining({
+        where: expect.objectContaining({ deviceImei: '863257063350583', shipmentId: 42, movementState: { in: ['moving', 'stationary'] } }),
+      }));
+      expect(mockPrisma.location.update).toHaveBeenCalledWith({
+        where: { id: 20 },
+        data: expect.objectContaining({ movementState: 'moving' }),
+      });
+      // Lock, assignment distance and shipment distance
+      expect(mockPrisma.$executeRaw).toHaveBeenCalledTimes(3);
+    });
+
+    it('should recompute the following fix of a late location and correct the distance', async () => {
+      // Previously 0 → 20 min was one 22 km segment; the late fix at 10 min lies off that line
+      mockPrisma.location.findFirst
+        .mockResolvedValueOnce(stored(19, 0, 40.0, 'stationary', null))
+        .mockResolvedValueOnce(stored(21, 20, 40.2, 'moving', 22239));
+
+      const result = await recordLocationMovement({ ...location, longitude: -73.9 }, thresholds);
+
+      expect(mockPrisma.location.update).toHaveBeenCalledTimes(2);
+      expect(mockPrisma.location.update).toHaveBeenLastCalledWith({
+        where: { id: 21 },
+        data: expect.objectContaining({ movementState: 'moving' }),
+      });
+      expect(result.countedMeters).toBeGreaterThan(0);
+      expect(result.countedMeters).toBeLessThan(10000);
+    });
+
+    it('should store the first fix as stationary without changing the distance', async () => {
+      mockPrisma.location.findFirst.mockResolvedValue(null);
+
+      const result = await recordLocationMovement(location, thresholds);
+
+      expect(result).toEqual({ state: 'stationary', distanceMeters: null, speedKmh: null, countedMeters: 0 });
+      expect(mockPrisma.$executeRaw).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('evaluateGeofences', () => {
+    const MINUTE = 60000;
+    const reading = { deviceImei: '863257063350583', ts: 60 * MINUTE, latitude: 40.5, longitude: -74.0 };
+    const origin = {
+      id: 1, shape: 'circle', centerLat: 40.0, centerLon: -74.0, radiusMeters: 1000, vertices: null,
+      dwellMinutes: 30, shipmentId: 42, role: 'origin',
+    };
+    const destination = {
+      id: 2, shape: 'polygon', centerLat: null, centerLon: null, radiusMeters: null, dwellMinutes: null,
+      vertices: [
+        { latitude: 40.4, longitude: -74.1 },
+        { latitude: 40.4, longitude: -73.9 },
+        { latitude: 40.6, longitude: -73.9 },
+        { latitude: 40.6, longitude: -74.1 },
+      ],
+      shipmentId: 42, role: 'destination',
+    };
+
+    beforeEach(() => {
+      mockPrisma.$transaction.mockImplementation(async (cb: any) => cb(mockPrisma));
+      mockPrisma.$executeRaw.mockResolvedValue(1);
+      mockPrisma.geofenceEvent.create.mockImplementation(async ({ data }: any) => ({ id: 1, ...data }));
+      mockPrisma.shipment.updateMany.mockResolvedValue({ count: 1 });
+    });
+
+    it('should record exit from the origin and arrival at the destination', async () => {
+      mockPrisma.geofence.findMany.mockResolvedValue([origin, destination]);
+      mockPrisma.geofencePresence.findMany.mockResolvedValue([
+        { geofenceId: 1, inside: true, enteredTs: BigInt(0), dwellReported: true, lastTs: BigInt(10 * MINUTE) },
+        { geofenceId: 2, inside: false, enteredTs: null, dwellReported: false, lastTs: BigInt(10 * MINUTE) },
+      ]);
 
-      await updateDeviceLatestReferences('863257063350583', 1, 2);
+      const result = await evaluateGeofences(reading, { tenantId: 3, shipmentId: 42 });
+
+      expect(result).toMatchObject({ evaluated: 2, departed: true, arrived: true });
+      expect(result.events.map((event) => event.type)).toEqual(['exit', 'enter']);
+      expect(mockPrisma.geofenceEvent.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          geofenceId: 1, type: 'exit', ts: BigInt(60 * MINUTE), durationMs: BigInt(60 * MINUTE), shipmentId: 42, tenantId: 3,
+        }),
+      });
+      expect(mockPrisma.shipment.updateMany).toHaveBeenCalledWith({
+        where: { id: 42, departedTs: null },
+        data: { departedTs: BigInt(60 * MINUTE) },
+      });
+      expect(mockPrisma.shipment.updateMany).toHaveBeenCalledWith({
+        where: { id: 42, status: 'in_transit' },
+        data: { status: 'arrived' },
+      });
+      expect(mockPrisma.geofencePresence.upsert).toHaveBeenCalledTimes(2);
+    });
+
+    it('should skip readings older than the last evaluated one and only advance unchanged presence', async () => {
+      mockPrisma.geofence.findMany.mockResolvedValue([origin, destination]);
+      mockPrisma.geofencePresence.findMany.mockResolvedValue([
+        { geofenceId: 1, inside: false, enteredTs: null, dwellReported: false, lastTs: BigInt(90 * MINUTE) },
+        { geofenceId: 2, inside: true, enteredTs: BigInt(50 * MINUTE), dwellReported: false, lastTs: BigInt(55 * MINUTE) },
+      ]);
+
+      const result = await evaluateGeofences(reading, { tenantId: 3, shipmentId: 42 });
+
+      expect(result).toMatchObject({ evaluated: 1, events: [], departed: false, arrived: false });
+      expect(mockPrisma.geofencePresence.upsert).not.toHaveBeenCalled();
+      expect(mockPrisma.geofencePresence.updateMany).toHaveBeenCalledWith({
+        where: { deviceImei: '863257063350583', geofenceId: { in: [2] } },
+        data: { lastTs: BigInt(60 * MINUTE) },
+      });
+    });
+
+    it('should not open a transaction without applicable geofences', async () => {
+      mockPrisma.geofence.findMany.mockResolvedValue([]);
+
+      const result = await evaluateGeofences(reading, {});
+
+      expect(result).toEqual({ evaluated: 0, events: [], departed: false, arrived: false });
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+      expect(mockPrisma.geofence.findMany).toHaveBeenCalledWith({
+        where: { active: true, OR: [{ shipmentId: null, tenantId: null }] },
+      });
+    });
+  });
+
+  describe('getTelemetryHistory', () => {
+    it('should page by (ts, id) and report the next cursor', async () => {
+      mockPrisma.telemetry.findMany.mockResolvedValue([
+        { id: 12, ts: BigInt(3000), temperature: 5 },
+        { id: 11, ts: BigInt(2000), temperature: 6 },
+        { id: 10, ts: BigInt(2000), temperature: 7 },
+      ]);
+
+      const page = await getTelemetryHistory({
+        deviceImei: '863257063350583',
+        tenantId: 3,
+        from: 1000,
+        cursor: { ts: 4000, id: 13 },
+        order: 'desc',
+        limit: 2,
+        fields: ['temperature'],
+      });
+
+      expect(page.items.map((row) => row.id)).toEqual([12, 11]);
+      expect(page.nextCursor).toEqual({ ts: 2000, id: 11 });
+      expect(mockPrisma.telemetry.findMany).toHaveBeenCalledWith({
+        where: {
+          deviceImei: '863257063350583',
+          tenantId: 3,
+          ts: { gte: BigInt(1000) },
+          OR: [
+            { ts: { lt: BigInt(4000) } },
+            { ts: BigInt(4000), id: { lt: 13 } },
+          ],
+        },
+        orderBy: [{ ts: 'desc' }, { id: 'desc' }],
+        take: 3,
+        select: { id: true, ts: true, temperature: true },
+      });
+    });
+
+    it('should return no cursor on the last page', async () => {
+      mockPrisma.telemetry.findMany.mockResolvedValue([{ id: 1, ts: BigInt(1000) }]);
+
+      const page = await getTelemetryHistory({ deviceImei: '863257063350583', order: 'asc', limit: 2 });
+
+      expect(page.nextCursor).toBeNull();
+    });
+  });
+
+  describe('aggregateTelemetryHistory', () => {
+    it('should map bucket rows and report where the next page starts', async () => {
+      const row = (bucket: number) => ({
+        bucket: BigInt(bucket),
+        count: 3,
+        temperature_min: 4,
+        temperature_max: 6,
+        temperature_avg: 5,
+        temperature_last: 6,
+        probe_temperature_min: 2.5,
+        probe_temperature_max: 3.5,
+        probe_temperature_avg: 3,
+        probe_temperature_last: 3.5,
+        humidity_min: null,
+        humidity_max: null,
+        humidity_avg: null,
+        humidity_last: null,
+        light_level_min: null,
+        light_level_max: null,
+        light_level_avg: null,
+        light_level_last: null,
+        accelerometer_magnitude_min: 0.98,
+        accelerometer_magnitude_max: 1.2,
+        accelerometer_magnitude_avg: 1.05,
+        accelerometer_magnitude_last: 1,
+      });
+      mockPrisma.$queryRaw.mockResolvedValue([row(3600000), row(7200000)]);
 
+      const page = await aggregateTelemetryHistory({ deviceImei: '863257063350583', intervalMs: 3600000, limit: 1 });
+
+      expect(page.buckets).toEqual([{
+        ts: 3600000,
+        count: 3,
+        temperature: { min: 4, max: 6, avg: 5, last: 6 },
+        probeTemperature: { min: 2.5, max: 3.5, avg: 3, last: 3.5 },
+        humidity: { min: null, max: null, avg: null, last: null },
+        lightLevel: { min: null, max: null, avg: null, last: null },
+        accelerometerMagnitude: { min: 0.98, max: 1.2, avg: 1.05, last: 1 },
+      }]);
+      expect(page.nextFrom).toBe(7200000);
+    });
+  });
+
+  describe('getLocationHistory', () => {
+    it('should read ascending pages after the cursor', async () => {
+      mockPrisma.location.findMany.mockResolvedValue([]);
+
+      await getLocationHistory({
+        deviceImei: '863257063350583',
+        cursor: { ts: 4000, id: 13 },
+        order: 'asc',
+        limit: 10,
+      });
+
+      const args = mockPrisma.location.findMany.mock.calls[0][0];
+      expect(args.where.OR).toEqual([
+        { ts: { gt: BigInt(4000) } },
+        { ts: BigInt(4000), id: { gt: 13 } },
+      ]);
+      expect(args.select).toMatchObject({ id: true, ts: true, latitude: true, batteryLevel: true });
+    });
+  });
+
+  describe('getTemperatureReadings', () => {
+    it('should flag readings cut off at the limit', async () => {
+      mockPrisma.telemetry.findMany.mockResolvedValue([
+        { deviceImei: '863257063350583', ts: BigInt(1000), temperature: 5, probeTemperature: null },
+        { deviceImei: '863257063350583', ts: BigInt(2000), temperature: 6, probeTemperature: null },
+      ]);
+
+      const result = await getTemperatureReadings({ deviceImei: '863257063350583', tenantId: 3 }, 1);
+
+      expect(mockPrisma.telemetry.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: {
+          OR: [{ temperature: { not: null } }, { probeTemperature: { not: null } }],
+          deviceImei: '863257063350583',
+          tenantId: 3,
+        },
+        take: 2,
+      }));
+      expect(result).toEqual({
+        readings: [{ deviceImei: '863257063350583', ts: 1000, temperature: 5, probeTemperature: null }],
+        truncated: true,
+      });
+    });
+  });
+
+  describe('scanDeviceConnectivity', () => {
+    const MINUTE = 60000;
+    const thresholds = { defaultIntervalMs: 15 * MINUTE, lateFactor: 2, offlineFactor: 4, graceMs: 5 * MINUTE };
+    const now = 1000 * MINUTE;
+
+    function row(overrides: Record<string, unknown>) {
+      return {
+        device_imei: '863257063350583',
+        tenant_id: 1,
+        last_ts: BigInt(now - 10 * MINUTE),
+        connectivity_status: 'online',
+        reporting_interval_ms: null,
+        configured_minutes: null,
+        learned_ms: null,
+        samples: 0,
+        ...overrides,
+      };
+    }
+
+    beforeEach(() => {
+      mockPrisma.$transaction.mockImplementation(async (cb: any) => cb(mockPrisma));
+      mockPrisma.deviceLatest.updateMany.mockResolvedValue({ count: 1 });
+    });
+
+    it('should mark a device late against its learned cadence and record the transition', async () => {
+      // Learned 5 min cadence: late after 15 min of silence, offline after 25
+      mockPrisma.$queryRaw.mockResolvedValue([
+        row({ last_ts: BigInt(now - 20 * MINUTE), learned_ms: 5 * MINUTE, samples: 20 }),
+      ]);
+
+      const transitions = await scanDeviceConnectivity(now, thresholds);
+
+      expect(transitions).toEqual([expect.objectContaining({
+        deviceImei: '863257063350583', from: 'online', to: 'late', ts: now, expectedIntervalMs: 5 * MINUTE,
+      })]);
+      expect(mockPrisma.deviceLatest.updateMany).toHaveBeenCalledWith({
+        where: { deviceImei: '863257063350583', connectivityStatus: 'online', lastTs: BigInt(now - 20 * MINUTE) },
+        data: { connectivityStatus: 'late', connectivitySinceTs: BigInt(now), reportingIntervalMs: 5 * MINUTE },
+      });
+      expect(mockPrisma.deviceConnectivityEvent.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ fromStatus: 'online', toStatus: 'late', tenantId: 1 }),
+      });
+    });
+
+    it('should prefer the configured interval and ignore cadences from too few readings', async () => {
+      mockPrisma.$queryRaw.mockResolvedValue([
+        row({ last_ts: BigInt(now - 50 * MINUTE), configured_minutes: 60, learned_ms: 5 * MINUTE, samples: 20 }),
+        row({ device_imei: '863257063350584', last_ts: BigInt(now - 50 * MINUTE), learned_ms: 5 * MINUTE, samples: 2 }),
+      ]);
+
+      const transitions = await scanDeviceConnectivity(now, thresholds);
+
+      // 60 min configured: still online. Default 15 min: late after 35 min, offline after 65
+      expect(transitions).toEqual([expect.objectContaining({ deviceImei: '863257063350584', to: 'late', expectedIntervalMs: 15 * MINUTE })]);
       expect(mockPrisma.deviceLatest.update).toHaveBeenCalledWith({
         where: { deviceImei: '863257063350583' },
-        data: {
-          latestTelemetryId: 1,
-          latestLocationId: 2,
-        },
+        data: { reportingIntervalMs: 5 * MINUTE },
       });
     });
+
+    it('should skip the event when the device reported during the scan', async () => {
+      mockPrisma.$queryRaw.mockResolvedValue([row({ last_ts: BigInt(now - 120 * MINUTE) })]);
+      mockPrisma.deviceLatest.updateMany.mockResolvedValue({ count: 0 });
+
+      const transitions = await scanDeviceConnectivity(now, thresholds);
+
+      expect(transitions).toEqual([]);
+      expect(mockPrisma.deviceConnectivityEvent.create).not.toHaveBeenCalled();
+    });
   });
 
+  describe('markDeviceReporting', () => {
+    beforeEach(() => {
+      mockPrisma.$transaction.mockImplementation(async (cb: any) => cb(mockPrisma));
+      mockPrisma.deviceLatest.updateMany.mockResolvedValue({ count: 1 });
+    });
+
+    it('should bring an offline device back online', async () => {
+      mockPrisma.deviceLatest.findUnique.mockResolvedValue({
+        tenantId: 1, lastTs: BigInt(5000), connectivityStatus: 'offline', reportingIntervalMs: 300000,
+      });
+
+      const transition = await markDeviceReporting('863257063350583', 5000);
+
+      expect(transition).toEqual(expect.objectContaining({ from: 'offline', to: 'online', lastReadingTs: 5000 }));
+      expect(mockPrisma.deviceConnectivityEvent.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ fromStatus: 'offline', toStatus: 'online' }),
+      });
+    });
+
+    it('should ignore online devices and late arrivals', async () => {
+      mockPrisma.deviceLatest.findUnique
+        .mockResolvedValueOnce({ tenantId: 1, lastTs: BigInt(5000), connectivityStatus: 'online', reportingIntervalMs: null })
+        .mockResolvedValueOnce({ tenantId: 1, lastTs: BigInt(9000), connectivityStatus: 'offline', reportingIntervalMs: null });
+
+      expect(await markDeviceReporting('863257063350583', 5000)).toBeNull();
+      expect(await markDeviceReporting('863257063350583', 5000)).toBeNull();
+      expect(mockPrisma.deviceLatest.updateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getShipmentCompleteness', () => {
+    const MINUTE = 60000;
+    const thresholds = { defaultIntervalMs: 15 * MINUTE, lateFactor: 2, offlineFactor: 4, graceMs: 5 * MINUTE };
+    const query = { gapFactor: 1.5, bufferedDelayMs: 30 * MINUTE };
+
+    function reading(deviceImei: string, minute: number, storedMinute: number, payloadMinute: number | null) {
+      return {
+        deviceImei,
+        ts: BigInt(minute * MINUTE),
+        createdAt: new Date(storedMinute * MINUTE),
+        rawPayload: payloadMinute !== null ? { createdAt: new Date(payloadMinute * MINUTE) } : null,
+      };
+    }
+
+    it('should judge each device against its own interval and use the payload arrival time', async () => {
+      mockPrisma.telemetry.findMany.mockResolvedValue([
+        reading('A', 0, 1, 1),
+        reading('B', 0, 1, 1),
+        // Buffered reading: its payload arrived 90 min late, the row was stored on reprocessing
+        reading('A', 5, 200, 95),
+        reading('A', 10, 11, null),
+        reading('B', 30, 31, 31),
+      ]);
+      mockPrisma.deviceLatest.findMany.mockResolvedValue([{ deviceImei: 'A', reportingIntervalMs: 5 * MINUTE }]);
+      mockPrisma.deviceConfig.findMany.mockResolvedValue([{ deviceImei: 'B', reportingIntervalMinutes: 10 }]);
+
+      const result = await getShipmentCompleteness(42, query, thresholds);
+
+      expect(mockPrisma.telemetry.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { shipmentId: 42 },
+        orderBy: [{ ts: 'asc' }, { id: 'asc' }],
+      }));
+      const [a, b] = result.devices;
+      expect(a).toMatchObject({ deviceImei: 'A', intervalSource: 'learned', expectedIntervalMs: 5 * MINUTE, gaps: [] });
+      expect(a.backfilled).toEqual([{ startTs: 0, endTs: 5 * MINUTE, readingCount: 1, maxDelayMs: 90 * MINUTE }]);
+      expect(b).toMatchObject({ deviceImei: 'B', intervalSource: 'configured' });
+      expect(b.gaps).toEqual([expect.objectContaining({ missingMs: 20 * MINUTE, missingReadings: 2 })]);
+      expect(result.stats).toMatchObject({ windowMs: 40 * MINUTE, missingMs: 20 * MINUTE, completenessPercent: 50 });
+      expect(result.truncated).toBe(false);
+    });
+
+    it('should flag arrivals cut off at the limit', async () => {
+      mockPrisma.telemetry.findMany.mockResolvedValue([
+        reading('A', 0, 1, 1),
+        reading('A', 5, 6, 6),
+        reading('A', 10, 11, 11),
+      ]);
+
+      const result = await getReadingArrivals({ deviceImei: 'A' }, 2);
+
+      expect(mockPrisma.telemetry.findMany).toHaveBeenCalledWith(expect.objectContaining({ take: 3 }));
+      expect(result.readings.map((arrival) => arrival.ts)).toEqual([0, 5 * MINUTE]);
+      expect(result.truncated).toBe(true);
+    });
+  });
+
+  describe('getDeviceStops', () => {
+    const MINUTE = 60000;
+    const query = { radiusMeters: 150, minDurationMs: 15 * MINUTE, activationEnergyKjPerMol: 83.144, maxGapMs: 60 * MINUTE };
+
+    function location(minute: number, latitude: number) {
+      return { ts: BigInt(minute * MINUTE), latitude, longitude: -74, locationAccuracy: 10 };
+    }
+
+    it('should read the temperature readings of each stop on its own', async () => {
+      mockPrisma.location.findMany.mockResolvedValue([
+        location(120, 41), location(90, 41), location(60, 41),
+        location(30, 40), location(15, 40), location(0, 40),
+      ]);
+      mockPrisma.deviceConfig.findUnique.mockResolvedValue(null);
+      mockPrisma.telemetry.findMany.mockResolvedValue([
+        { deviceImei: 'A', ts: BigInt(0), temperature: 5, probeTemperature: null },
+      ]);
+
+      const result = await getDeviceStops('A', query);
+
+      expect(result).toMatchObject({ locationCount: 6, locationsTruncated: false, readingsTruncated: false });
+      expect(result.stops.map((stop) => [stop.startTs, stop.endTs])).toEqual([[0, 30 * MINUTE], [60 * MINUTE, 120 * MINUTE]]);
+      expect(mockPrisma.telemetry.findMany.mock.calls.map(([args]: any[]) => args.where.ts)).toEqual([
+        { gte: BigInt(0), lte: BigInt(30 * MINUTE) },
+        { gte: BigInt(60 * MINUTE), lte: BigInt(120 * MINUTE) },
+      ]);
+    });
+  });
+
+  describe('updateDeviceBatteryForecast', () => {
+    const HOUR = 60 * 60 * 1000;
+    const readings = Array.from({ length: 10 }, (_, i) => ({
+      ts: BigInt(i * HOUR),
+      batteryLevel: 80 - i,
+      batteryCharging: false,
+    })).reverse();
+
+    it('should store the forecast against the planned arrival of the device\'s shipment', async () => {
+      mockPrisma.deviceLatest.findUnique.mockResolvedValue({
+        lastTs: BigInt(9 * HOUR),
+        latestLocation: { shipment: { id: 7, expectedArrivalTs: BigInt(100 * HOUR), arrivedTs: null } },
+      });
+      mockPrisma.location.findMany.mockResolvedValue(readings);
+
+      const forecast = await updateDeviceBatteryForecast('863257063350583');
+
+      expect(forecast).toMatchObject({ shipmentId: 7, status: 'at_risk', emptyTs: 80 * HOUR, marginMs: -20 * HOUR });
+      expect(mockPrisma.deviceLatest.update).toHaveBeenCalledWith({
+        where: { deviceImei: '863257063350583' },
+        data: { batteryForecastStatus: 'at_risk', batteryDrainPerDay: 24, batteryEmptyTs: BigInt(80 * HOUR) },
+      });
+    });
+
+    it('should ignore the planned arrival once the shipment has arrived', async () => {
+      mockPrisma.deviceLatest.findUnique.mockResolvedValue({
+        lastTs: BigInt(9 * HOUR),
+        latestLocation: { shipment: { id: 7, expectedArrivalTs: BigInt(100 * HOUR), arrivedTs: BigInt(9 * HOUR) } },
+      });
+      mockPrisma.location.findMany.mockResolvedValue(readings);
+
+      const forecast = await updateDeviceBatteryForecast('863257063350583');
+
+      expect(forecast).toMatchObject({ status: 'draining', expectedArrivalTs: null, marginMs: null });
+    });
+
+    it('should return null for unknown devices', async () => {
+      mockPrisma.deviceLatest.findUnique.mockResolvedValue(null);
+
+      expect(await updateDeviceBatteryForecast('863257063350583')).toBeNull();
+      expect(mockPrisma.deviceLatest.update).not.toHaveBeenCalled();
+    });
+  });
 
   describe('checkDatabaseHealth', () => {
     it('should return true when database is healthy', async () => {
@@ -0,0 +1,111 @@
+/**
+ * Unit tests for formatted address parsing
+ */
+
+import { parseFormattedAddress, findCountryCode } from '@/lib/geocoding/address-parser';
+
+describe('parseFormattedAddress', () => {
+  it('should parse US addresses with the state and ZIP code together', () => {
+    expect(parseFormattedAddress('114 Hunts Point Market, Bronx, NY 10474, USA')).toEqual({
+      street: '114 Hunts Point Market',
+      locality: 'Bronx',
+      state: 'NY',
+      country: 'USA',
+      postal_code: '10474',
+      full_address: '114 Hunts Point Market, Bronx, NY 10474, USA',
+    });
+  });
+
+  it('should parse European addresses with the postal code before the locality', () => {
+    expect(parseFormattedAddress('Unter den Linden 1, 10117 Berlin, Germany')).toMatchObject({
+      street: 'Unter den Linden 1',
+      locality: 'Berlin',
+      state: null,
+      country: 'Germany',
+      postal_code: '10117',
+    });
+    expect(parseFormattedAddress('Damrak 1, 1012 LG Amsterdam, Nederland')).toMatchObject({
+      locality: 'Amsterdam',
+      postal_code: '1012 LG',
+      country: 'Nederland',
+    });
+    expect(parseFormattedAddress('Via del Corso 1, 00186 Roma RM, Italia')).toMatchObject({
+      locality: 'Roma',
+      state: 'RM',
+      postal_code: '00186',
+    });
+  });
+
+  it('should parse UK, Australian and Japanese layouts', () => {
+    expect(parseFormattedAddress('10 Downing St, London SW1A 2AA, UK')).toMatchObject({
+      street: '10 Downing St',
+      locality: 'London',
+      state: null,
+      postal_code: 'SW1A 2AA',
+    });
+    expect(parseFormattedAddress('1 George St, Sydney NSW 2000, Australia')).toMatchObject({
+      locality: 'Sydney',
+      state: 'NSW',
+      postal_code: '2000',
+    });
+    expect(parseFormattedAddress('1-chōme-1-2 Oshiage, Sumida City, Tokyo 131-0045, Japan')).toMatchObject({
+      street: '1-chōme-1-2 Oshiage',
+      locality: 'Sumida City',
+      state: 'Tokyo',
+      postal_code: '131-0045',
+    });
+  });
+
+  it('should accept postal codes in their own part, also after the country', () => {
+    expect(parseFormattedAddress('Av. Paulista 1578, São Paulo - SP, 01310-100, Brazil')).toMatchObject({
+      street: 'Av. Paulista 1578',
+      locality: 'São Paulo',
+      state: 'SP',
+      postal_code: '01310-100',
+    });
+    expect(parseFormattedAddress('88 Century Ave, Pudong, Shanghai, China, 200120')).toMatchObject({
+      locality: 'Pudong',
+      state: 'Shanghai',
+      country: 'China',
+      postal_code: '200120',
+    });
+  });
+
+  it('should use the country hint when the address does not name its country', () => {
+    expect(parseFormattedAddress('1 Raffles Place, Singapore 048616', 'SG')).toMatchObject({
+      street: '1 Raffles Place',
+      locality: 'Singapore',
+      country: null,
+      postal_code: '048616',
+    });
+  });
+
+  it('should handle addresses without street or postal code', () => {
+    expect(parseFormattedAddress('Bronx, NY, USA')).toMatchObject({
+      street: null,
+      locality: 'Bronx',
+      state: 'NY',
+      country: 'USA',
+      postal_code: null,
+    });
+    expect(parseFormattedAddress('Rotterdam')).toMatchObject({ street: null, locality: 'Rotterdam' });
+    expect(parseFormattedAddress(null)).toEqual({
+      street: null,
+      locality: null,
+      state: null,
+      country: null,
+      postal_code: null,
+      full_address: null,
+    });
+  });
+});
+
+describe('findCountryCode', () => {
+  it('should recognize country names in several languages and common aliases', () => {
+    expect(findCountryCode('Deutschland')).toBe('DE');
+    expect(findCountryCode('united kingdom')).toBe('GB');
+    expect(findCountryCode('USA')).toBe('US');
+    expect(findCountryCode('日本')).toBe('JP');
+    expect(findCountryCode('CA')).toBeNull();
+  });
+});
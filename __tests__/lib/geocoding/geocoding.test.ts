@@ -0,0 +1,148 @@
+/**
+ * Unit tests for offline reverse geocoding and address completion
+ */
+
+import {
+  createGazetteerGeocoder,
+  geocodeLocationAddress,
+  parseAdmin1Codes,
+  parseGeoNamesCities,
+  withCoordinateCache,
+  ReverseGeocoder,
+} from '@/lib/geocoding';
+import { PaxafeLocationPayload } from '@/types/paxafe';
+
+jest.mock('@/lib/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+function geoNamesLine(name: string, latitude: number, longitude: number, countryCode: string, admin1: string): string {
+  return [1, name, name, '', latitude, longitude, 'P', 'PPL', countryCode, '', admin1, '', '', '', 1000, '', 10, 'UTC', '2024-01-01'].join('\t');
+}
+
+const admin1 = parseAdmin1Codes('US.NY\tNew York\tNew York\t5128638\nDE.16\tBerlin\tBerlin\t2950157\n');
+const places = parseGeoNamesCities(
+  [
+    geoNamesLine('The Bronx', 40.84985, -73.86641, 'US', 'NY'),
+    geoNamesLine('Manhattan', 40.78343, -73.96625, 'US', 'NY'),
+    geoNamesLine('Berlin', 52.52437, 13.41053, 'DE', '16'),
+    'not a gazetteer line',
+  ].join('\n'),
+  admin1
+);
+
+function location(latitude: number, longitude: number, fullAddress: string | null): PaxafeLocationPayload {
+  return {
+    device_id: 'A571992',
+    device_imei: '863257063350583',
+    timestamp: 1739215646000,
+    provider: 'Tive',
+    type: 'Active',
+    latitude,
+    longitude,
+    altitude: null,
+    location_accuracy: 10,
+    location_accuracy_category: 'High',
+    location_source: 'GPS',
+    geolocation_source: null,
+    address: fullAddress
+      ? { street: null, locality: null, state: null, country: null, postal_code: null, full_address: fullAddress }
+      : null,
+    battery_level: 80,
+    battery_estimation: null,
+    battery_charging: null,
+    cellular_dbm: null,
+    cellular_signal_strength: null,
+    cellular_network_type: null,
+    cellular_operator: null,
+    wifi_access_points: null,
+    cell_towers: null,
+  };
+}
+
+describe('gazetteer geocoder', () => {
+  const geocoder = createGazetteerGeocoder(places, 25);
+
+  it('should skip malformed lines and resolve region names', () => {
+    expect(places).toHaveLength(3);
+    expect(places[0]).toMatchObject({ name: 'The Bronx', countryCode: 'US', region: 'New York' });
+  });
+
+  it('should name a coordinate after the nearest place', async () => {
+    const place = await geocoder.reverse(40.8131, -73.8829);
+
+    expect(place).toMatchObject({
+      locality: 'The Bronx',
+      region: 'New York',
+      country: 'United States',
+      countryCode: 'US',
+    });
+    expect(place!.distanceMeters).toBeGreaterThan(3000);
+    expect(place!.distanceMeters).toBeLessThan(5000);
+  });
+
+  it('should return null beyond the maximum distance', async () => {
+    expect(await geocoder.reverse(45.0, -30.0)).toBeNull();
+    expect(await createGazetteerGeocoder(places, 1).reverse(40.8131, -73.8829)).toBeNull();
+  });
+});
+
+describe('withCoordinateCache', () => {
+  it('should look up each rounded coordinate once and evict the least recently used', async () => {
+    const inner: ReverseGeocoder = {
+      name: 'test',
+      reverse: jest.fn(async () => null),
+    };
+    const cached = withCoordinateCache(inner, 2);
+
+    await cached.reverse(40.00001, -74.00001);
+    await cached.reverse(40.00002, -74.00002); // Same rounded coordinate
+    await cached.reverse(41.0, -74.0);
+    await cached.reverse(40.0, -74.0); // Refreshes the first entry
+    await cached.reverse(42.0, -74.0); // Evicts 41,-74
+    await cached.reverse(41.0, -74.0);
+
+    expect(inner.reverse).toHaveBeenCalledTimes(4);
+  });
+});
+
+describe('geocodeLocationAddress', () => {
+  const geocoder = createGazetteerGeocoder(places, 25);
+
+  it('should compose an address for locations without one', async () => {
+    const address = await geocodeLocationAddress(location(52.52, 13.40, null), geocoder);
+
+    expect(address).toEqual({
+      street: null,
+      locality: 'Berlin',
+      state: 'Berlin',
+      country: 'Germany',
+      postal_code: null,
+      full_address: 'Berlin, Berlin, Germany',
+    });
+  });
+
+  it('should parse the formatted address with the geocoded country and fill in what it lacks', async () => {
+    const address = await geocodeLocationAddress(location(52.52, 13.40, 'Alexanderplatz 1, 10178 Berlin'), geocoder);
+
+    expect(address).toEqual({
+      street: 'Alexanderplatz 1',
+      locality: 'Berlin',
+      state: 'Berlin',
+      country: 'Germany',
+      postal_code: '10178',
+      full_address: 'Alexanderplatz 1, 10178 Berlin',
+    });
+  });
+
+  it('should keep the parsed address when geocoding fails', async () => {
+    const failing: ReverseGeocoder = {
+      name: 'failing',
+      reverse: jest.fn().mockRejectedValue(new Error('boom')),
+    };
+
+    const address = await geocodeLocationAddress(location(40.81, -73.88, 'Bronx, NY 10474, USA'), failing);
+
+    expect(address).toMatchObject({ locality: 'Bronx', state: 'NY', postal_code: '10474', country: 'USA' });
+  });
+});
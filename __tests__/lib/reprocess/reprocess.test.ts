@@ -0,0 +1,220 @@
+/**
+ * Unit tests for raw payload reprocessing
+ */
+
+jest.mock('@/lib/logger', () => ({
+  logger: { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+jest.mock('@/lib/config', () => ({
+  config: { movement: {}, shock: {} },
+}));
+
+jest.mock('@/lib/geocoding', () => ({
+  geocodeLocationAddress: jest.fn(async (location: any) => location.address),
+}));
+
+const mockFindReadingsOfRawPayload = jest.fn();
+const mockToTelemetryData = jest.fn();
+const mockToLocationData = jest.fn();
+const mockUpsertShipment = jest.fn();
+const mockUpdateTelemetry = jest.fn();
+const mockUpdateLocation = jest.fn();
+const mockSaveTelemetry = jest.fn();
+const mockSaveLocation = jest.fn();
+const mockUpdateRawPayloadStatus = jest.fn();
+const mockRecomputeTemperatureExcursions = jest.fn();
+const mockRecomputeShockEvents = jest.fn();
+const mockUpdateDeviceBatteryForecast = jest.fn();
+const mockUpdateDeviceLatestCritical = jest.fn();
+const mockRefreshDeviceLatestCritical = jest.fn();
+
+jest.mock('@/lib/db', () => ({
+  findReadingsOfRawPayload: (...args: any[]) => mockFindReadingsOfRawPayload(...args),
+  getDerivationContext: jest.fn().mockResolvedValue({ calibration: null, previousBoxOpen: null }),
+  toTelemetryData: (...args: any[]) => mockToTelemetryData(...args),
+  toLocationData: (...args: any[]) => mockToLocationData(...args),
+  saveTelemetry: (...args: any[]) => mockSaveTelemetry(...args),
+  saveLocation: (...args: any[]) => mockSaveLocation(...args),
+  updateTelemetry: (...args: any[]) => mockUpdateTelemetry(...args),
+  updateLocation: (...args: any[]) => mockUpdateLocation(...args),
+  upsertShipment: (...args: any[]) => mockUpsertShipment(...args),
+  ensureShipmentGeofences: jest.fn().mockResolvedValue(undefined),
+  recordLocationMovement: jest.fn().mockResolvedValue({ state: 'moving', speedKmh: 12 }),
+  updateDeviceLatestCritical: (...args: any[]) => mockUpdateDeviceLatestCritical(...args),
+  refreshDeviceLatestCritical: (...args: any[]) => mockRefreshDeviceLatestCritical(...args),
+  updateDeviceLatestReferences: jest.fn().mockResolvedValue(undefined),
+  updateDeviceLatestDerived: jest.fn().mockResolvedValue(undefined),
+  updateDeviceLatestMovement: jest.fn().mockResolvedValue(undefined),
+  updateDeviceLatestAddress: jest.fn().mockResolvedValue(undefined),
+  updateRawPayloadStatus: (...args: any[]) => mockUpdateRawPayloadStatus(...args),
+  recomputeTemperatureExcursions: (...args: any[]) => mockRecomputeTemperatureExcursions(...args),
+  recomputeShockEvents: (...args: any[]) => mockRecomputeShockEvents(...args),
+  updateDeviceBatteryForecast: (...args: any[]) => mockUpdateDeviceBatteryForecast(...args),
+}));
+
+import { reprocessRawPayload, reprocessRawPayloads } from '@/lib/reprocess';
+import { diffColumns } from '@/lib/reprocess/diff';
+import { createValidTivePayload } from '../../helpers/test-utils';
+
+const IMEI = '863257063350583';
+const TS = Date.now() - 60 * 60 * 1000;
+const decimal = (value: number) => ({ toNumber: () => value });
+
+describe('diffColumns', () => {
+  it('should compare Decimal, BigInt and Date columns by value and skip ignored columns', () => {
+    const current = { ts: BigInt(TS), temperature: decimal(9.5), humidity: decimal(40), createdAt: new Date(TS), shipmentId: 3 };
+    const next = { ts: BigInt(TS), temperature: 10, humidity: 40, createdAt: new Date(TS), shipmentId: 7 };
+
+    expect(diffColumns(current, next, ['shipmentId'])).toEqual([{ column: 'temperature', before: 9.5, after: 10 }]);
+  });
+
+  it('should report every non-null column of a row that is not stored yet', () => {
+    expect(diffColumns(null, { ts: BigInt(TS), humidity: null, temperature: 10 })).toEqual([
+      { column: 'ts', before: null, after: TS },
+      { column: 'temperature', before: null, after: 10 },
+    ]);
+  });
+});
+
+describe('reprocessRawPayload', () => {
+  const raw = {
+    id: 42,
+    payload: createValidTivePayload({ EntryTimeEpoch: TS, ShipmentId: 'SHP-1' }),
+    tenantId: 2,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockToTelemetryData.mockReturnValue({ ts: BigInt(TS), temperature: 10, shipmentId: null, rawPayloadId: null });
+    mockToLocationData.mockReturnValue({ ts: BigInt(TS), latitude: 40.810562 });
+    mockFindReadingsOfRawPayload.mockResolvedValue({
+      telemetry: { id: 5, ts: BigInt(TS), temperature: decimal(9.5), shipmentId: 3, rawPayloadId: null },
+      location: { id: 6, ts: BigInt(TS), latitude: decimal(40.810562), shipmentId: 3 },
+    });
+    mockUpsertShipment.mockResolvedValue(7);
+    mockUpdateRawPayloadStatus.mockResolvedValue(undefined);
+    mockUpdateDeviceLatestCritical.mockResolvedValue('applied');
+    mockRefreshDeviceLatestCritical.mockResolvedValue(false);
+  });
+
+  it('should report the column changes of a dry run without writing', async () => {
+    const { result, scopes } = await reprocessRawPayload(raw, { dryRun: true });
+
+    expect(mockFindReadingsOfRawPayload).toHaveBeenCalledWith(42, IMEI, TS);
+    expect(result).toMatchObject({ rawPayloadId: 42, deviceImei: IMEI, ts: TS, outcome: 'updated' });
+    expect(result.telemetry).toEqual({ id: 5, changes: [{ column: 'temperature', before: 9.5, after: 10 }] });
+    expect(result.location).toEqual({ id: 6, changes: [] });
+    expect(scopes).toEqual([]);
+    expect(mockUpsertShipment).not.toHaveBeenCalled();
+    expect(mockUpdateTelemetry).not.toHaveBeenCalled();
+    expect(mockUpdateRawPayloadStatus).not.toHaveBeenCalled();
+  });
+
+  it('should report payloads without stored readings as created', async () => {
+    mockFindReadingsOfRawPayload.mockResolvedValue({ telemetry: null, location: null });
+
+    const { result } = await reprocessRawPayload(raw, { dryRun: true });
+
+    expect(result.outcome).toBe('created');
+    expect(result.telemetry?.id).toBeNull();
+  });
+
+  it('should leave payloads that no longer validate unchanged', async () => {
+    const { result } = await reprocessRawPayload({ ...raw, payload: { DeviceName: 'A571992' } }, { dryRun: false });
+
+    expect(result.outcome).toBe('invalid');
+    expect(result.errors).toEqual(expect.arrayContaining([expect.objectContaining({ field: 'DeviceId' })]));
+    expect(mockFindReadingsOfRawPayload).not.toHaveBeenCalled();
+    expect(mockUpdateRawPayloadStatus).not.toHaveBeenCalled();
+  });
+
+  it('should move device_latest forward for readings stored for the first time', async () => {
+    mockFindReadingsOfRawPayload.mockResolvedValue({ telemetry: null, location: null });
+    mockSaveTelemetry.mockResolvedValue(11);
+    mockSaveLocation.mockResolvedValue(12);
+
+    const { result } = await reprocessRawPayload(raw, { dryRun: false });
+
+    expect(result.outcome).toBe('created');
+    expect(mockUpdateDeviceLatestCritical).toHaveBeenCalledWith(IMEI, expect.any(String), TS, expect.anything(), expect.anything(), 2);
+    expect(mockRefreshDeviceLatestCritical).not.toHaveBeenCalled();
+  });
+
+  it('should only refresh device_latest for rewritten readings', async () => {
+    const { result } = await reprocessRawPayload(raw, { dryRun: false });
+
+    expect(result.outcome).toBe('updated');
+    expect(mockRefreshDeviceLatestCritical).toHaveBeenCalledWith(IMEI, expect.any(String), TS, expect.anything(), expect.anything(), 2);
+    expect(mockUpdateDeviceLatestCritical).not.toHaveBeenCalled();
+  });
+
+  it('should mark the payload failed when storage fails', async () => {
+    mockFindReadingsOfRawPayload.mockResolvedValue({ telemetry: null, location: null });
+    mockSaveTelemetry.mockRejectedValue(new Error('connection lost'));
+
+    const { result } = await reprocessRawPayload(raw, { dryRun: false });
+
+    expect(result).toMatchObject({ outcome: 'failed', error: 'connection lost' });
+    expect(mockUpdateRawPayloadStatus).toHaveBeenCalledWith(42, 'failed', 'Reprocessing failed: connection lost');
+  });
+});
+
+describe('reprocessRawPayloads', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockToTelemetryData.mockReturnValue({ ts: BigInt(TS), temperature: 10 });
+    mockToLocationData.mockReturnValue({ ts: BigInt(TS), latitude: 40.810562 });
+    mockUpsertShipment.mockResolvedValue(7);
+    mockUpdateRawPayloadStatus.mockResolvedValue(undefined);
+    mockUpdateDeviceLatestCritical.mockResolvedValue('applied');
+    mockRefreshDeviceLatestCritical.mockResolvedValue(false);
+  });
+
+  it('should rewrite stored rows in place and recompute each device and shipment once', async () => {
+    mockFindReadingsOfRawPayload
+      .mockResolvedValueOnce({
+        telemetry: { id: 5, ts: BigInt(TS), temperature: decimal(9.5), shipmentId: 3 },
+        location: { id: 6, ts: BigInt(TS), latitude: decimal(40.810562), shipmentId: 3 },
+      })
+      .mockResolvedValueOnce({ telemetry: null, location: null });
+    mockSaveTelemetry.mockResolvedValue(11);
+    mockSaveLocation.mockResolvedValue(12);
+
+    const summary = await reprocessRawPayloads(
+      [
+        { id: 42, payload: createValidTivePayload({ EntryTimeEpoch: TS, ShipmentId: 'SHP-1' }), tenantId: 2 },
+        { id: 43, payload: createValidTivePayload({ EntryTimeEpoch: TS + 60000, ShipmentId: 'SHP-1' }), tenantId: 2 },
+      ],
+      { dryRun: false }
+    );
+
+    expect(summary.counts).toEqual({ created: 1, updated: 1, unchanged: 0, invalid: 0, failed: 0 });
+    expect(mockUpdateTelemetry).toHaveBeenCalledWith(5, expect.objectContaining({ device_imei: IMEI }), {
+      tenantId: 2,
+      shipmentId: 7,
+      rawPayloadId: 42,
+    });
+    expect(mockUpdateLocation).toHaveBeenCalledWith(6, expect.anything(), expect.objectContaining({ rawPayloadId: 42 }));
+    expect(mockSaveTelemetry).toHaveBeenCalledWith(expect.anything(), expect.objectContaining({ rawPayloadId: 43 }));
+    expect(mockUpdateRawPayloadStatus).toHaveBeenCalledWith(42, 'completed');
+
+    // The first reading moved from shipment 3 to 7: both are recomputed, once each
+    expect(mockRecomputeTemperatureExcursions.mock.calls).toEqual([[IMEI, 7], [IMEI, 3]]);
+    expect(mockRecomputeShockEvents).toHaveBeenCalledTimes(2);
+    expect(mockUpdateDeviceBatteryForecast).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not recompute anything on a dry run', async () => {
+    mockFindReadingsOfRawPayload.mockResolvedValue({ telemetry: null, location: null });
+
+    const summary = await reprocessRawPayloads(
+      [{ id: 42, payload: createValidTivePayload({ EntryTimeEpoch: TS }), tenantId: null }],
+      { dryRun: true }
+    );
+
+    expect(summary).toMatchObject({ dryRun: true, counts: { created: 1 } });
+    expect(mockRecomputeTemperatureExcursions).not.toHaveBeenCalled();
+    expect(mockUpdateDeviceBatteryForecast).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,45 @@
+/**
+ * Unit tests for payload fingerprinting
+ */
+
+import { computePayloadFingerprint } from '@/lib/utils/fingerprint';
+import { createValidTivePayload } from '../../helpers/test-utils';
+
+describe('computePayloadFingerprint', () => {
+  const payload = createValidTivePayload({ EntryTimeEpoch: 1739215646000 });
+
+  it('should combine DeviceId, EntryTimeEpoch and a content hash', () => {
+    const fingerprint = computePayloadFingerprint(payload);
+    expect(fingerprint).toMatch(/^863257063350583:1739215646000:[0-9a-f]{64}$/);
+  });
+
+  it('should ignore object key order', () => {
+    const reordered = JSON.parse(JSON.stringify({
+      Location: payload.Location,
+      Temperature: payload.Temperature,
+      EntryTimeUtc: payload.EntryTimeUtc,
+      EntryTimeEpoch: payload.EntryTimeEpoch,
+      DeviceName: payload.DeviceName,
+      DeviceId: payload.DeviceId,
+    }));
+    expect(computePayloadFingerprint(reordered)).toBe(computePayloadFingerprint(payload));
+  });
+
+  it('should change when the content changes', () => {
+    const changed = { ...payload, Temperature: { Celsius: 11.0 } };
+    expect(computePayloadFingerprint(changed)).not.toBe(computePayloadFingerprint(payload));
+  });
+
+  it('should prefer the Idempotency-Key when present', () => {
+    const fromKey = computePayloadFingerprint(payload, 'delivery-1');
+    expect(fromKey).toMatch(/^key:global:863257063350583:[0-9a-f]{64}$/);
+    expect(computePayloadFingerprint({ ...payload, DeviceName: 'other' }, 'delivery-1')).toBe(fromKey);
+  });
+
+  it('should scope the Idempotency-Key to the tenant and device', () => {
+    const fromKey = computePayloadFingerprint(payload, 'delivery-1', 2);
+    expect(fromKey).toMatch(/^key:2:863257063350583:[0-9a-f]{64}$/);
+    expect(computePayloadFingerprint(payload, 'delivery-1', 3)).not.toBe(fromKey);
+    expect(computePayloadFingerprint({ ...payload, DeviceId: '863257063350584' }, 'delivery-1', 2)).not.toBe(fromKey);
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Unit tests for derived sensor values (tilt, box_open)
+ */
+
+import {
+  applySensorDerivations,
+  deriveBoxOpen,
+  deriveTilt,
+  getSensorDerivations,
+  DerivationContext,
+} from '@/lib/transformers/sensor-derivations';
+import { PaxafeSensorPayload } from '@/types/paxafe';
+
+const payload: PaxafeSensorPayload = {
+  device_id: 'A571992',
+  device_imei: '863257063350583',
+  timestamp: 1739215646000,
+  provider: 'Tive',
+  type: 'Active',
+  temperature: 10.08,
+  temperature_fahrenheit: 50.14,
+  probe_temperature: null,
+  probe_temperature_fahrenheit: null,
+  humidity: 38.7,
+  light_level: 0,
+  accelerometer: { x: 0, y: 0, z: 1, magnitude: 1 },
+  tilt: null,
+  box_open: null,
+  entity_name: 'A571992',
+};
+
+const uncalibrated: DerivationContext = { calibration: null, previousBoxOpen: null };
+
+function withAccelerometer(x: number, y: number, z: number): PaxafeSensorPayload {
+  return { ...payload, accelerometer: { x, y, z, magnitude: Math.sqrt(x * x + y * y + z * z) } };
+}
+
+describe('deriveTilt', () => {
+  it('should report a flat, face-up device as untilted', () => {
+    expect(deriveTilt(payload, uncalibrated)).toEqual({ x: 0, y: 0, z: 90, tilt: 0 });
+  });
+
+  it('should measure the angle from the rest orientation', () => {
+    const tilted = withAccelerometer(0.5, 0, 0.866);
+    expect(deriveTilt(tilted, uncalibrated)).toEqual({ x: 30, y: 0, z: 60, tilt: 30 });
+
+    const upsideDown = withAccelerometer(0, 0, -1);
+    expect(deriveTilt(upsideDown, uncalibrated)?.tilt).toBe(180);
+  });
+
+  it('should use the calibrated rest orientation', () => {
+    const mountedOnWall = { calibration: { luxBaseline: null, restOrientation: { x: 0, y: -1, z: 0 } }, previousBoxOpen: null };
+    expect(deriveTilt(withAccelerometer(0, -1, 0), mountedOnWall)?.tilt).toBe(0);
+    expect(deriveTilt(payload, mountedOnWall)?.tilt).toBe(90);
+  });
+
+  it('should not derive tilt without all axes or while accelerating', () => {
+    expect(deriveTilt({ ...payload, accelerometer: null }, uncalibrated)).toBeNull();
+    expect(deriveTilt(withAccelerometer(0, 0, 3), uncalibrated)).toBeNull();
+    expect(deriveTilt(withAccelerometer(0, 0, 0.1), uncalibrated)).toBeNull();
+  });
+});
+
+describe('deriveBoxOpen', () => {
+  it('should open above the baseline plus the open delta and close near the baseline', () => {
+    expect(deriveBoxOpen({ ...payload, light_level: 250 }, uncalibrated)).toBe(true);
+    expect(deriveBoxOpen({ ...payload, light_level: 2 }, uncalibrated)).toBe(false);
+  });
+
+  it('should hold the previous state between the thresholds', () => {
+    const dim = { ...payload, light_level: 10 };
+    expect(deriveBoxOpen(dim, { calibration: null, previousBoxOpen: true })).toBe(true);
+    expect(deriveBoxOpen(dim, { calibration: null, previousBoxOpen: false })).toBe(false);
+    expect(deriveBoxOpen(dim, uncalibrated)).toBe(false);
+  });
+
+  it('should measure against the calibrated baseline', () => {
+    const leaky = { calibration: { luxBaseline: 40, restOrientation: null }, previousBoxOpen: null };
+    expect(deriveBoxOpen({ ...payload, light_level: 45 }, leaky)).toBe(false);
+    expect(deriveBoxOpen({ ...payload, light_level: 60 }, leaky)).toBe(true);
+  });
+
+  it('should not derive without a light level', () => {
+    expect(deriveBoxOpen({ ...payload, light_level: null }, uncalibrated)).toBeNull();
+  });
+});
+
+describe('applySensorDerivations', () => {
+  it('should fill the fields the provider does not report', () => {
+    const derived = applySensorDerivations({ ...payload, light_level: 300 }, uncalibrated);
+    expect(derived.tilt).toEqual({ x: 0, y: 0, z: 90, tilt: 0 });
+    expect(derived.box_open).toBe(true);
+  });
+
+  it('should keep values the provider reports', () => {
+    const native = { ...payload, light_level: 300, box_open: false, tilt: { x: 1, y: 2, z: 3, tilt: 4 } };
+    expect(applySensorDerivations(native, uncalibrated)).toEqual(native);
+  });
+
+  it('should only apply the derivations registered for the provider', () => {
+    expect(Object.keys(getSensorDerivations('Tive')).sort()).toEqual(['box_open', 'tilt']);
+    expect(applySensorDerivations(payload, uncalibrated, {}).tilt).toBeNull();
+  });
+});
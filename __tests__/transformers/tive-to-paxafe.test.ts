@@ -2,7 +2,11 @@
  * Unit tests for Tive to PAXAFE transformation functions
  */
 
-import { transformToSensorPayload, transformToLocationPayload } from '@/lib/transformers/tive-to-paxafe';
+import {
+  transformToSensorPayload,
+  transformToLocationPayload,
+  transformToShipmentPayload,
+} from '@/lib/transformers/tive-to-paxafe';
 import { TivePayload } from '@/types/tive';
 
 describe('Tive to PAXAFE Transformations', () => {
@@ -70,6 +74,25 @@ describe('Tive to PAXAFE Transformations', () => {
       expect(result.accelerometer?.y).toBe(-0.437); // -0.4375 rounds to -0.437
       expect(result.accelerometer?.z).toBe(0.688);
       expect(result.accelerometer?.magnitude).toBe(0.99);
+      expect(result.temperature_fahrenheit).toBe(50.14);
+      expect(result.probe_temperature).toBeNull();
+      expect(result.entity_name).toBe('A571992');
+    });
+
+    it('should carry the probe temperature, converting Fahrenheit-only readings', () => {
+      const withProbe = transformToSensorPayload({
+        ...sampleTivePayload,
+        ProbeTemperature: { Celsius: 4.515625, Fahrenheit: 40.128125 },
+      });
+      expect(withProbe.probe_temperature).toBe(4.52);
+      expect(withProbe.probe_temperature_fahrenheit).toBe(40.13);
+
+      const fahrenheitOnly = transformToSensorPayload({
+        ...sampleTivePayload,
+        ProbeTemperature: { Fahrenheit: -4 },
+      });
+      expect(fahrenheitOnly.probe_temperature).toBe(-20);
+      expect(fahrenheitOnly.probe_temperature_fahrenheit).toBe(-4);
     });
 
     it('should handle null values gracefully', () => {
@@ -107,6 +130,11 @@ describe('Tive to PAXAFE Transformations', () => {
       expect(result.battery_level).toBe(65);
       expect(result.cellular_dbm).toBe(-100.0);
       expect(result.wifi_access_points).toBe(5);
+      expect(result.cell_towers).toBe(1);
+      expect(result.geolocation_source).toBe('skyhook');
+      expect(result.battery_estimation).toBe('N/A');
+      expect(result.battery_charging).toBe(false);
+      expect(result.cellular_signal_strength).toBe('Poor');
     });
 
     it('should categorize accuracy correctly', () => {
@@ -148,5 +176,45 @@ describe('Tive to PAXAFE Transformations', () => {
       expect(result.address?.country).toBe('USA');
     });
   });
-});
 
+  describe('transformToShipmentPayload', () => {
+    it('should return null when the reading has no shipment', () => {
+      expect(transformToShipmentPayload(sampleTivePayload)).toBeNull();
+    });
+
+    it('should transform Shipment fields to PAXAFE shipment format', () => {
+      const result = transformToShipmentPayload({
+        ...sampleTivePayload,
+        PublicShipmentId: 'PUB-123',
+        Shipment: {
+          Id: 'SHP-001',
+          Description: 'Vaccines to Boston',
+          Carrier: 'FedEx',
+          ShipFrom: { Latitude: 40.81, Longitude: -73.88, FormattedAddress: 'Bronx, NY, USA' },
+          ShipTo: { Latitude: 42.36, Longitude: -71.06, FormattedAddress: null },
+        },
+      });
+
+      expect(result).toEqual({
+        shipment_id: 'SHP-001',
+        public_shipment_id: 'PUB-123',
+        provider: 'Tive',
+        device_id: 'A571992',
+        device_imei: '863257063350583',
+        timestamp: 1739215646000,
+        description: 'Vaccines to Boston',
+        carrier: 'FedEx',
+        ship_from: { latitude: 40.81, longitude: -73.88, address: 'Bronx, NY, USA' },
+        ship_to: { latitude: 42.36, longitude: -71.06, address: null },
+      });
+    });
+
+    it('should fall back to the top-level ShipmentId', () => {
+      const result = transformToShipmentPayload({ ...sampleTivePayload, ShipmentId: 'SHP-002', Shipment: null });
+
+      expect(result?.shipment_id).toBe('SHP-002');
+      expect(result?.ship_from).toBeNull();
+      expect(result?.ship_to).toBeNull();
+    });
+  });
+});
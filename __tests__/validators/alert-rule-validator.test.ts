@@ -0,0 +1,72 @@
+/**
+ * Unit tests for alert rule request validation
+ */
+
+import { validateAlertRuleInput } from '@/lib/validators/alert-rule-validator';
+
+describe('validateAlertRuleInput', () => {
+  it('should accept a threshold rule with channels', () => {
+    const result = validateAlertRuleInput({
+      name: 'Too warm',
+      type: 'threshold',
+      params: { metric: 'temperature', operator: 'gt', value: 8, extra: true },
+      severity: 'critical',
+      channels: [
+        { type: 'email', to: ['ops@example.com'] },
+        { type: 'webhook', url: 'https://example.com/hook', secret: 's3cret' },
+        { type: 'slack', url: 'https://hooks.slack.com/services/T/B/X' },
+      ],
+    });
+
+    expect(result.valid).toBe(true);
+    expect(result.rule).toEqual({
+      name: 'Too warm',
+      type: 'threshold',
+      params: { metric: 'temperature', operator: 'gt', value: 8 },
+      deviceImei: null,
+      shipmentId: null,
+      severity: 'critical',
+      channels: [
+        { type: 'email', to: ['ops@example.com'] },
+        { type: 'webhook', url: 'https://example.com/hook', secret: 's3cret' },
+        { type: 'slack', url: 'https://hooks.slack.com/services/T/B/X' },
+      ],
+    });
+  });
+
+  it('should default the severity and channels', () => {
+    const result = validateAlertRuleInput({ name: 'Silent', type: 'no_data', params: { minutes: 60 } });
+
+    expect(result.rule).toMatchObject({ severity: 'warning', channels: [] });
+  });
+
+  it('should validate type-specific params', () => {
+    const result = validateAlertRuleInput({
+      name: 'Fence',
+      type: 'geofence',
+      params: { latitude: 95, longitude: -73.88, radiusMeters: 0, trigger: 'leave' },
+    });
+
+    expect(result.errors.map((e) => e.field)).toEqual(['params.latitude', 'params.radiusMeters', 'params.trigger']);
+  });
+
+  it('should validate the minimum severity of shock rules', () => {
+    expect(validateAlertRuleInput({ name: 'Drops', type: 'shock', params: { minSeverity: 'major' } }).rule).toMatchObject({
+      params: { minSeverity: 'major' },
+    });
+    expect(
+      validateAlertRuleInput({ name: 'Drops', type: 'shock', params: { minSeverity: 'huge' } }).errors.map((e) => e.field)
+    ).toEqual(['params.minSeverity']);
+  });
+
+  it('should reject unknown types, severities and channels', () => {
+    const result = validateAlertRuleInput({
+      name: 'Bad',
+      type: 'humidity_spike',
+      severity: 'urgent',
+      channels: [{ type: 'sms', to: '+15550100' }, { type: 'webhook', url: 'ftp://example.com' }],
+    });
+
+    expect(result.errors.map((e) => e.field)).toEqual(['type', 'severity', 'channels[0].type', 'channels[1].url']);
+  });
+});
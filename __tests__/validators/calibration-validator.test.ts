@@ -0,0 +1,28 @@
+import { validateCalibrationInput } from '@/lib/validators/calibration-validator';
+
+describe('validateCalibrationInput', () => {
+  it('should accept explicit values and nulls', () => {
+    expect(validateCalibrationInput({ luxBaseline: 12.5, restOrientation: { x: 0, y: -0.98, z: 0.1 } })).toEqual({
+      valid: true,
+      errors: [],
+      calibration: { luxBaseline: 12.5, restOrientation: { x: 0, y: -0.98, z: 0.1 } },
+    });
+    expect(validateCalibrationInput({ restOrientation: null }).calibration).toEqual({ restOrientation: null });
+  });
+
+  it('should accept calibration from the latest reading', () => {
+    expect(validateCalibrationInput({ fromLatest: true })).toMatchObject({ valid: true, fromLatest: true });
+    expect(validateCalibrationInput({ fromLatest: true, luxBaseline: 3 }).errors[0].field).toBe('fromLatest');
+  });
+
+  it('should reject invalid values', () => {
+    const result = validateCalibrationInput({ luxBaseline: -1, restOrientation: { x: 0, y: 0, z: 4 } });
+
+    expect(result.valid).toBe(false);
+    expect(result.errors.map((e) => e.field)).toEqual(['luxBaseline', 'restOrientation']);
+  });
+
+  it('should require at least one field', () => {
+    expect(validateCalibrationInput({}).errors[0].field).toBe('body');
+  });
+});
@@ -0,0 +1,15 @@
+import { validateReportingIntervalInput } from '@/lib/validators/connectivity-validator';
+
+describe('validateReportingIntervalInput', () => {
+  it('should accept an interval in minutes or null', () => {
+    expect(validateReportingIntervalInput({ reportingIntervalMinutes: 30 })).toEqual({ valid: true, errors: [], minutes: 30 });
+    expect(validateReportingIntervalInput({ reportingIntervalMinutes: null })).toEqual({ valid: true, errors: [], minutes: null });
+  });
+
+  it('should reject missing, fractional and out-of-range intervals', () => {
+    expect(validateReportingIntervalInput({}).valid).toBe(false);
+    expect(validateReportingIntervalInput({ reportingIntervalMinutes: 2.5 }).valid).toBe(false);
+    expect(validateReportingIntervalInput({ reportingIntervalMinutes: 0 }).valid).toBe(false);
+    expect(validateReportingIntervalInput({ reportingIntervalMinutes: 10081 }).errors[0].field).toBe('reportingIntervalMinutes');
+  });
+});
@@ -0,0 +1,61 @@
+/**
+ * Unit tests for geofence request validation
+ */
+
+import { validateGeofenceInput } from '@/lib/validators/geofence-validator';
+
+describe('validateGeofenceInput', () => {
+  it('should accept a circle', () => {
+    const result = validateGeofenceInput({ name: ' Dock 4 ', type: 'circle', latitude: 40.8, longitude: -73.9, radiusMeters: 250 });
+
+    expect(result.valid).toBe(true);
+    expect(result.geofence).toEqual({
+      name: 'Dock 4',
+      shape: { type: 'circle', latitude: 40.8, longitude: -73.9, radiusMeters: 250 },
+      dwellMinutes: null,
+    });
+  });
+
+  it('should accept a polygon and keep only the coordinates of each vertex', () => {
+    const result = validateGeofenceInput({
+      name: 'Yard',
+      type: 'polygon',
+      vertices: [
+        { latitude: 1, longitude: 1, label: 'gate' },
+        { latitude: 1, longitude: 2 },
+        { latitude: 2, longitude: 2 },
+      ],
+      dwellMinutes: 15,
+    });
+
+    expect(result.valid).toBe(true);
+    expect(result.geofence?.shape).toEqual({
+      type: 'polygon',
+      vertices: [
+        { latitude: 1, longitude: 1 },
+        { latitude: 1, longitude: 2 },
+        { latitude: 2, longitude: 2 },
+      ],
+    });
+    expect(result.geofence?.dwellMinutes).toBe(15);
+  });
+
+  it('should require at least three vertices within range', () => {
+    const tooFew = validateGeofenceInput({ name: 'Yard', type: 'polygon', vertices: [{ latitude: 1, longitude: 1 }] });
+    expect(tooFew.errors[0].field).toBe('vertices');
+
+    const outOfRange = validateGeofenceInput({
+      name: 'Yard',
+      type: 'polygon',
+      vertices: [{ latitude: 1, longitude: 1 }, { latitude: 1, longitude: 200 }, { latitude: 2, longitude: 2 }],
+    });
+    expect(outOfRange.errors[0].field).toBe('vertices[1]');
+  });
+
+  it('should reject a missing name, unknown type and invalid dwell time', () => {
+    const result = validateGeofenceInput({ type: 'hexagon', dwellMinutes: 0 });
+
+    expect(result.valid).toBe(false);
+    expect(result.errors.map((error) => error.field)).toEqual(['name', 'type', 'dwellMinutes']);
+  });
+});
@@ -0,0 +1,55 @@
+jest.mock('@/lib/db', () => ({
+  RAW_PAYLOAD_STATUSES: ['pending', 'processing', 'completed', 'failed'],
+}));
+
+import { validateReprocessRequest } from '@/lib/validators/reprocess-validator';
+
+describe('validateReprocessRequest', () => {
+  it('should select payloads by ids, limited to the number of ids', () => {
+    expect(validateReprocessRequest({ ids: [4, 2], dryRun: true })).toEqual({
+      valid: true,
+      errors: [],
+      request: { selection: { ids: [4, 2], limit: 2 }, dryRun: true },
+    });
+  });
+
+  it('should accept filters with epoch or ISO times and default to a real run', () => {
+    const result = validateReprocessRequest({
+      status: 'failed',
+      device: ' 863257063350583 ',
+      from: '2025-02-10T00:00:00.000Z',
+      to: 1739217000000,
+      validationError: 'Location.Latitude',
+      limit: 20,
+    });
+
+    expect(result.request).toEqual({
+      selection: {
+        status: 'failed',
+        deviceId: '863257063350583',
+        from: Date.parse('2025-02-10T00:00:00.000Z'),
+        to: 1739217000000,
+        validationErrorField: 'Location.Latitude',
+        limit: 20,
+      },
+      dryRun: false,
+    });
+  });
+
+  it('should require at least one selector', () => {
+    const result = validateReprocessRequest({ limit: 10, dryRun: true });
+    expect(result.valid).toBe(false);
+    expect(result.errors[0].field).toBe('body');
+    expect(validateReprocessRequest([]).valid).toBe(false);
+  });
+
+  it('should reject invalid ids, statuses, times, limits and dryRun flags', () => {
+    expect(validateReprocessRequest({ ids: [] }).errors[0].field).toBe('ids');
+    expect(validateReprocessRequest({ ids: [1, 'a'] }).errors[0].field).toBe('ids');
+    expect(validateReprocessRequest({ status: 'done' }).errors[0].field).toBe('status');
+    expect(validateReprocessRequest({ device: '' }).errors[0].field).toBe('device');
+    expect(validateReprocessRequest({ from: 'yesterday' }).errors[0].field).toBe('from');
+    expect(validateReprocessRequest({ status: 'failed', limit: 501 }).errors[0].field).toBe('limit');
+    expect(validateReprocessRequest({ status: 'failed', dryRun: 'yes' }).errors[0].field).toBe('dryRun');
+  });
+});
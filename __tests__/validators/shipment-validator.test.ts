@@ -0,0 +1,16 @@
+import { validateExpectedArrival } from '@/lib/validators/shipment-validator';
+
+describe('validateExpectedArrival', () => {
+  it('should accept epoch milliseconds, ISO 8601 dates and null', () => {
+    expect(validateExpectedArrival({ expectedArrivalTs: 1769594400000 })).toEqual({ valid: true, errors: [], expectedArrivalTs: 1769594400000 });
+    expect(validateExpectedArrival({ expectedArrivalTs: '2026-01-28T10:00:00Z' }).expectedArrivalTs).toBe(1769594400000);
+    expect(validateExpectedArrival({ expectedArrivalTs: null })).toEqual({ valid: true, errors: [], expectedArrivalTs: null });
+  });
+
+  it('should reject missing, unparseable and negative values', () => {
+    expect(validateExpectedArrival({}).valid).toBe(false);
+    expect(validateExpectedArrival(null).valid).toBe(false);
+    expect(validateExpectedArrival({ expectedArrivalTs: 'next tuesday' }).valid).toBe(false);
+    expect(validateExpectedArrival({ expectedArrivalTs: -1 }).errors[0].field).toBe('expectedArrivalTs');
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * Unit tests for webhook signature verification
+ */
+
+import { createHmac } from 'crypto';
+import { verifyWebhookSignature } from '@/lib/validators/signature-validator';
+
+describe('Webhook Signature Verification', () => {
+  const rawBody = JSON.stringify({ DeviceId: '863257063350583', EntryTimeEpoch: 1739215646000 });
+  const now = 1739215646000;
+  const timestamp = String(now / 1000);
+
+  function sign(secret: string, ts: string = timestamp, body: string = rawBody) {
+    return createHmac('sha256', secret).update(`${ts}.${body}`).digest('hex');
+  }
+
+  const options = { secrets: ['current-secret'], toleranceSeconds: 300, now };
+
+  it('should accept a valid signature', () => {
+    const result = verifyWebhookSignature(rawBody, sign('current-secret'), timestamp, options);
+    expect(result.valid).toBe(true);
+  });
+
+  it('should accept the sha256= prefix and millisecond timestamps', () => {
+    const msTimestamp = String(now);
+    const signature = `sha256=${sign('current-secret', msTimestamp)}`;
+    const result = verifyWebhookSignature(rawBody, signature, msTimestamp, options);
+    expect(result.valid).toBe(true);
+  });
+
+  it('should accept signatures from the previous secret during rotation', () => {
+    const result = verifyWebhookSignature(rawBody, sign('previous-secret'), timestamp, {
+      ...options,
+      secrets: ['current-secret', 'previous-secret'],
+    });
+    expect(result.valid).toBe(true);
+  });
+
+  it('should reject a signature from an unknown secret', () => {
+    const result = verifyWebhookSignature(rawBody, sign('other-secret'), timestamp, options);
+    expect(result.valid).toBe(false);
+    expect(result.reason).toContain('does not match');
+  });
+
+  it('should reject a modified body', () => {
+    const result = verifyWebhookSignature(`${rawBody} `, sign('current-secret'), timestamp, options);
+    expect(result.valid).toBe(false);
+  });
+
+  it('should reject timestamps outside the clock skew window', () => {
+    const oldTimestamp = String(now / 1000 - 301);
+    const result = verifyWebhookSignature(rawBody, sign('current-secret', oldTimestamp), oldTimestamp, options);
+    expect(result.valid).toBe(false);
+    expect(result.reason).toContain('clock skew');
+  });
+
+  it('should reject missing headers', () => {
+    expect(verifyWebhookSignature(rawBody, null, timestamp, options).valid).toBe(false);
+    expect(verifyWebhookSignature(rawBody, sign('current-secret'), null, options).valid).toBe(false);
+  });
+
+  it('should reject when no secret is configured', () => {
+    const result = verifyWebhookSignature(rawBody, sign('current-secret'), timestamp, { ...options, secrets: [] });
+    expect(result.valid).toBe(false);
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Unit tests for temperature profile request validation
+ */
+
+import {
+  validateTemperatureProfileInput,
+  validateProfileAssignment,
+  validateChannelAssignment,
+} from '@/lib/validators/temperature-profile-validator';
+
+describe('validateTemperatureProfileInput', () => {
+  it('should accept a two-sided range', () => {
+    const result = validateTemperatureProfileInput({
+      name: ' Vaccines ',
+      minTemp: 2,
+      maxTemp: 8,
+      allowedExcursionMinutes: 30,
+      stabilityBudgetMinutes: 1440,
+    });
+
+    expect(result.valid).toBe(true);
+    expect(result.profile).toEqual({
+      name: 'Vaccines',
+      minTemp: 2,
+      maxTemp: 8,
+      allowedExcursionMinutes: 30,
+      stabilityBudgetMinutes: 1440,
+    });
+  });
+
+  it('should accept a one-sided range and default the allowance to 0', () => {
+    const result = validateTemperatureProfileInput({ name: 'Frozen', maxTemp: -20 });
+
+    expect(result.profile).toEqual({
+      name: 'Frozen',
+      minTemp: null,
+      maxTemp: -20,
+      allowedExcursionMinutes: 0,
+      stabilityBudgetMinutes: null,
+    });
+  });
+
+  it('should reject a profile without bounds or with inverted bounds', () => {
+    expect(validateTemperatureProfileInput({ name: 'None' }).errors[0].field).toBe('minTemp');
+    expect(validateTemperatureProfileInput({ name: 'Inverted', minTemp: 8, maxTemp: 2 }).valid).toBe(false);
+  });
+
+  it('should reject invalid fields', () => {
+    const result = validateTemperatureProfileInput({
+      minTemp: 'cold',
+      maxTemp: 500,
+      allowedExcursionMinutes: -1,
+      stabilityBudgetMinutes: 2.5,
+    });
+
+    expect(result.errors.map((e) => e.field)).toEqual([
+      'name',
+      'minTemp',
+      'maxTemp',
+      'allowedExcursionMinutes',
+      'stabilityBudgetMinutes',
+    ]);
+  });
+});
+
+describe('validateProfileAssignment', () => {
+  it('should accept a profile id or null', () => {
+    expect(validateProfileAssignment({ profileId: 3 }).profileId).toBe(3);
+    expect(validateProfileAssignment({ profileId: null })).toMatchObject({ valid: true, profileId: null });
+  });
+
+  it('should reject a missing or invalid profile id', () => {
+    expect(validateProfileAssignment({}).valid).toBe(false);
+    expect(validateProfileAssignment({ profileId: '3' }).valid).toBe(false);
+  });
+});
+
+describe('validateChannelAssignment', () => {
+  it('should accept the ambient and probe channels', () => {
+    expect(validateChannelAssignment({ channel: 'probe' })).toMatchObject({ valid: true, channel: 'probe' });
+    expect(validateChannelAssignment({ channel: 'ambient' }).channel).toBe('ambient');
+  });
+
+  it('should reject a missing or unknown channel', () => {
+    expect(validateChannelAssignment({}).valid).toBe(false);
+    expect(validateChannelAssignment({ channel: 'PROBE' }).errors[0].field).toBe('channel');
+  });
+});
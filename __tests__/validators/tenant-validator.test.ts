@@ -0,0 +1,86 @@
+/**
+ * Unit tests for tenant resolution of inbound payloads
+ */
+
+jest.mock('@/lib/db', () => ({
+  findTenantByTiveAccountId: jest.fn(),
+  findDeviceTenantId: jest.fn(),
+  findShipmentTenantId: jest.fn(),
+}));
+
+import { createTenantResolver } from '@/lib/validators/tenant-validator';
+
+describe('createTenantResolver', () => {
+  const tenantKey = { tenantId: 3, tiveAccountId: 12345, apiKeyId: 7 };
+  const globalKey = { tenantId: null, tiveAccountId: null, apiKeyId: null };
+
+  beforeEach(() => {
+    const { findTenantByTiveAccountId, findDeviceTenantId, findShipmentTenantId } = require('@/lib/db');
+    findTenantByTiveAccountId.mockReset();
+    findDeviceTenantId.mockReset().mockResolvedValue(null);
+    findShipmentTenantId.mockReset().mockResolvedValue(null);
+  });
+
+  it('should use the tenant of a tenant API key', async () => {
+    const resolve = createTenantResolver(tenantKey);
+    expect(await resolve({ AccountId: 12345 })).toEqual({ tenantId: 3, errors: [] });
+    expect(await resolve({})).toEqual({ tenantId: 3, errors: [] });
+  });
+
+  it('should reject an AccountId that does not match the tenant', async () => {
+    const result = await createTenantResolver(tenantKey)({ AccountId: 99999 });
+    expect(result.tenantId).toBe(3);
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0].field).toBe('AccountId');
+  });
+
+  it('should accept any AccountId for a tenant without a Tive account', async () => {
+    const resolve = createTenantResolver({ tenantId: 4, tiveAccountId: null, apiKeyId: 8 });
+    expect(await resolve({ AccountId: 99999 })).toEqual({ tenantId: 4, errors: [] });
+  });
+
+  it('should look up the tenant by AccountId for the global key and cache it', async () => {
+    const { findTenantByTiveAccountId } = require('@/lib/db');
+    findTenantByTiveAccountId.mockResolvedValue({ id: 5, name: 'Globex', tiveAccountId: 555 });
+
+    const resolve = createTenantResolver(globalKey);
+    expect(await resolve({ AccountId: 555 })).toEqual({ tenantId: 5, errors: [] });
+    expect(await resolve({ AccountId: 555 })).toEqual({ tenantId: 5, errors: [] });
+    expect(findTenantByTiveAccountId).toHaveBeenCalledTimes(1);
+  });
+
+  it('should leave payloads unattributed when the tenant is unknown', async () => {
+    const { findTenantByTiveAccountId } = require('@/lib/db');
+    findTenantByTiveAccountId.mockResolvedValue(null);
+
+    expect(await createTenantResolver(undefined)({ AccountId: 1 })).toEqual({ tenantId: null, errors: [] });
+    expect(await createTenantResolver(globalKey)({})).toEqual({ tenantId: null, errors: [] });
+  });
+
+  it('should reject devices and shipments owned by another tenant', async () => {
+    const { findDeviceTenantId, findShipmentTenantId } = require('@/lib/db');
+    findDeviceTenantId.mockImplementation(async (imei: string) => (imei === '863257063350583' ? 5 : 3));
+    findShipmentTenantId.mockResolvedValue(5);
+
+    const resolve = createTenantResolver(tenantKey);
+    const result = await resolve({ AccountId: 12345, DeviceId: '863257063350583', Shipment: { Id: 'SHP-1' } });
+    expect(result.tenantId).toBe(3);
+    expect(result.errors.map((error) => error.field)).toEqual(['DeviceId', 'ShipmentId']);
+
+    // Own device, no shipment
+    expect(await resolve({ DeviceId: '863257063350584' })).toEqual({ tenantId: 3, errors: [] });
+    // Lookups are cached per request
+    await resolve({ DeviceId: '863257063350583', ShipmentId: 'SHP-1' });
+    expect(findDeviceTenantId).toHaveBeenCalledTimes(2);
+    expect(findShipmentTenantId).toHaveBeenCalledTimes(1);
+  });
+
+  it('should accept devices that are unowned or owned by the same tenant', async () => {
+    const { findTenantByTiveAccountId, findDeviceTenantId } = require('@/lib/db');
+    findTenantByTiveAccountId.mockResolvedValue({ id: 5, name: 'Globex', tiveAccountId: 555 });
+    findDeviceTenantId.mockResolvedValue(5);
+
+    expect(await createTenantResolver(globalKey)({ AccountId: 555, DeviceId: '863257063350583' })).toEqual({ tenantId: 5, errors: [] });
+    expect(await createTenantResolver(globalKey)({ DeviceId: '863257063350583' })).toEqual({ tenantId: null, errors: [] });
+  });
+});
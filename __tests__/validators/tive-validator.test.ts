@@ -95,6 +95,38 @@ describe('Tive Payload Validation', () => {
     expect(result.valid).toBe(true);
   });
 
+  it('should accept the reported Tive status fields', () => {
+    const payload = {
+      ...validPayload,
+      EntityName: 'A571992',
+      Temperature: { Celsius: 10.08, Fahrenheit: 50.14 },
+      ProbeTemperature: { Celsius: -20.5, Fahrenheit: -4.9 },
+      Battery: { Percentage: 65, Estimation: 'Weeks', IsCharging: true },
+      Cellular: { SignalStrength: 'No signal', Dbm: -120 },
+      Location: { ...validPayload.Location, GeolocationSourceName: 'skyhook', CellTowerUsedCount: 2 },
+    };
+    expect(validateTivePayload(payload).valid).toBe(true);
+  });
+
+  it('should reject malformed Tive status fields', () => {
+    const payload = {
+      ...validPayload,
+      ProbeTemperature: { Celsius: 150, Fahrenheit: 'cold' },
+      Battery: { Estimation: 'Years', IsCharging: 'no' },
+      Cellular: { SignalStrength: 'Excellent' },
+      Location: { ...validPayload.Location, CellTowerUsedCount: -1 },
+    };
+    const fields = validateTivePayload(payload).errors.map(e => e.field);
+    expect(fields).toEqual(expect.arrayContaining([
+      'ProbeTemperature.Celsius',
+      'ProbeTemperature.Fahrenheit',
+      'Battery.Estimation',
+      'Battery.IsCharging',
+      'Cellular.SignalStrength',
+      'Location.CellTowerUsedCount',
+    ]));
+  });
+
   it('should reject invalid humidity range', () => {
     const payload = {
       ...validPayload,
@@ -128,5 +160,30 @@ describe('Tive Payload Validation', () => {
     expect(validateTivePayload(northPole).valid).toBe(true);
     expect(validateTivePayload(southPole).valid).toBe(true);
   });
+
+  it('should validate shipment endpoint coordinates', () => {
+    const valid = {
+      ...validPayload,
+      Shipment: { Id: 'SHP-001', ShipFrom: { Latitude: 40.8, Longitude: -73.9 }, ShipTo: null },
+    };
+    const invalid = {
+      ...validPayload,
+      Shipment: { Id: 'SHP-001', ShipTo: { Latitude: 95, Longitude: -73.9 } },
+    };
+
+    expect(validateTivePayload(valid).valid).toBe(true);
+    expect(validateTivePayload(invalid).errors.some(e => e.field === 'Shipment.ShipTo.Latitude')).toBe(true);
+  });
+
+  it('should accept shock readings above 1 g', () => {
+    const shock = { ...validPayload, Accelerometer: { G: 9.6, X: -4.2, Y: 7.9, Z: 3.5 } };
+    expect(validateTivePayload(shock).valid).toBe(true);
+  });
+
+  it('should reject accelerometer values outside the sensor range', () => {
+    const result = validateTivePayload({ ...validPayload, Accelerometer: { G: -0.5, X: 17, Y: 0, Z: -17 } });
+
+    expect(result.errors.map(e => e.field)).toEqual(['Accelerometer.X', 'Accelerometer.Z', 'Accelerometer.G']);
+  });
 });
 
@@ -0,0 +1,103 @@
+/**
+ * Unit tests for inbound webhook authentication modes
+ */
+
+import { createHmac } from 'crypto';
+import { NextRequest } from 'next/server';
+
+const mockConfig = {
+  apiKey: 'test-api-key',
+  webhookAuth: {
+    Tive: { mode: 'api_key', signingSecrets: ['signing-secret'], signatureToleranceSeconds: 300 },
+  } as Record<string, any>,
+};
+
+jest.mock('@/lib/config', () => ({
+  get config() {
+    return mockConfig;
+  },
+}));
+
+jest.mock('@/lib/db', () => ({
+  findActiveApiKeyByHash: jest.fn(),
+  touchApiKeyLastUsed: jest.fn(),
+}));
+
+import { authenticateWebhook } from '@/lib/validators/webhook-auth';
+import { hashApiKey } from '@/lib/utils/api-key';
+
+describe('authenticateWebhook', () => {
+  const rawBody = '{"DeviceId":"863257063350583"}';
+
+  beforeEach(() => {
+    const { findActiveApiKeyByHash, touchApiKeyLastUsed } = require('@/lib/db');
+    findActiveApiKeyByHash.mockReset();
+    findActiveApiKeyByHash.mockResolvedValue(null);
+    touchApiKeyLastUsed.mockResolvedValue(undefined);
+  });
+
+  function createRequest(headers: Record<string, string>) {
+    return new NextRequest('http://localhost:3000/api/webhook/tive', {
+      method: 'POST',
+      body: rawBody,
+      headers: { 'Content-Type': 'application/json', ...headers },
+    });
+  }
+
+  function signatureHeaders(secret: string = 'signing-secret') {
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const signature = createHmac('sha256', secret).update(`${timestamp}.${rawBody}`).digest('hex');
+    return { 'X-Tive-Signature': `sha256=${signature}`, 'X-Tive-Timestamp': timestamp };
+  }
+
+  it('should require only the API key in api_key mode', async () => {
+    mockConfig.webhookAuth.Tive.mode = 'api_key';
+    expect((await authenticateWebhook(createRequest({ 'X-API-Key': 'test-api-key' }), rawBody)).authorized).toBe(true);
+    expect((await authenticateWebhook(createRequest(signatureHeaders()), rawBody)).authorized).toBe(false);
+  });
+
+  it('should require only the signature in signature mode', async () => {
+    mockConfig.webhookAuth.Tive.mode = 'signature';
+    expect((await authenticateWebhook(createRequest(signatureHeaders()), rawBody)).authorized).toBe(true);
+    expect((await authenticateWebhook(createRequest({ 'X-API-Key': 'test-api-key' }), rawBody)).authorized).toBe(false);
+    expect((await authenticateWebhook(createRequest(signatureHeaders('wrong-secret')), rawBody)).authorized).toBe(false);
+  });
+
+  it('should require both in both mode', async () => {
+    mockConfig.webhookAuth.Tive.mode = 'both';
+    expect((await authenticateWebhook(
+      createRequest({ 'X-API-Key': 'test-api-key', ...signatureHeaders() }),
+      rawBody
+    )).authorized).toBe(true);
+    expect((await authenticateWebhook(createRequest(signatureHeaders()), rawBody)).authorized).toBe(false);
+    expect((await authenticateWebhook(createRequest({ 'X-API-Key': 'test-api-key' }), rawBody)).authorized).toBe(false);
+  });
+
+  it('should fall back to api_key for unknown sources', async () => {
+    expect((await authenticateWebhook(createRequest({ 'X-API-Key': 'test-api-key' }), rawBody, 'Other')).authorized).toBe(true);
+  });
+
+  it('should resolve the tenant of a tenant API key', async () => {
+    const { findActiveApiKeyByHash, touchApiKeyLastUsed } = require('@/lib/db');
+    mockConfig.webhookAuth.Tive.mode = 'api_key';
+    findActiveApiKeyByHash.mockResolvedValue({
+      id: 7,
+      tenantId: 3,
+      lastUsedAt: null,
+      tenant: { id: 3, name: 'Acme', tiveAccountId: 12345 },
+    });
+
+    const result = await authenticateWebhook(createRequest({ 'X-API-Key': 'pxf_tenant-key' }), rawBody);
+
+    expect(result.authorized).toBe(true);
+    expect(result.identity).toEqual({ tenantId: 3, tiveAccountId: 12345, apiKeyId: 7 });
+    expect(findActiveApiKeyByHash).toHaveBeenCalledWith(hashApiKey('pxf_tenant-key'));
+    expect(touchApiKeyLastUsed).toHaveBeenCalledWith(7);
+  });
+
+  it('should identify the global API key as all tenants', async () => {
+    mockConfig.webhookAuth.Tive.mode = 'api_key';
+    const result = await authenticateWebhook(createRequest({ 'X-API-Key': 'test-api-key' }), rawBody);
+    expect(result.identity).toEqual({ tenantId: null, tiveAccountId: null, apiKeyId: null });
+  });
+});
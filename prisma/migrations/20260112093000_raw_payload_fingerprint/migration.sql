@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "raw_webhook_payloads" ADD COLUMN     "fingerprint" VARCHAR(128);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "raw_webhook_payloads_fingerprint_key" ON "raw_webhook_payloads"("fingerprint");
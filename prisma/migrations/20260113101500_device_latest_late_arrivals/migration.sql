@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "device_latest" ADD COLUMN     "late_arrival_count" INTEGER NOT NULL DEFAULT 0;
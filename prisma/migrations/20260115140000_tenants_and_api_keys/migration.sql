@@ -0,0 +1,71 @@
+-- CreateTable
+CREATE TABLE "tenants" (
+    "id" SERIAL NOT NULL,
+    "name" VARCHAR(255) NOT NULL,
+    "tive_account_id" INTEGER,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "tenants_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "api_keys" (
+    "id" SERIAL NOT NULL,
+    "tenant_id" INTEGER NOT NULL,
+    "label" VARCHAR(255) NOT NULL,
+    "key_hash" VARCHAR(64) NOT NULL,
+    "key_prefix" VARCHAR(16) NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "last_used_at" TIMESTAMP(3),
+    "revoked_at" TIMESTAMP(3),
+
+    CONSTRAINT "api_keys_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "raw_webhook_payloads" ADD COLUMN     "tenant_id" INTEGER;
+
+-- AlterTable
+ALTER TABLE "telemetry" ADD COLUMN     "tenant_id" INTEGER;
+
+-- AlterTable
+ALTER TABLE "locations" ADD COLUMN     "tenant_id" INTEGER;
+
+-- AlterTable
+ALTER TABLE "device_latest" ADD COLUMN     "tenant_id" INTEGER;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "tenants_tive_account_id_key" ON "tenants"("tive_account_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "api_keys_key_hash_key" ON "api_keys"("key_hash");
+
+-- CreateIndex
+CREATE INDEX "idx_api_keys_tenant" ON "api_keys"("tenant_id");
+
+-- CreateIndex
+CREATE INDEX "idx_raw_payloads_tenant" ON "raw_webhook_payloads"("tenant_id");
+
+-- CreateIndex
+CREATE INDEX "idx_telemetry_tenant" ON "telemetry"("tenant_id");
+
+-- CreateIndex
+CREATE INDEX "idx_location_tenant" ON "locations"("tenant_id");
+
+-- CreateIndex
+CREATE INDEX "idx_device_latest_tenant" ON "device_latest"("tenant_id");
+
+-- AddForeignKey
+ALTER TABLE "api_keys" ADD CONSTRAINT "api_keys_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "raw_webhook_payloads" ADD CONSTRAINT "raw_webhook_payloads_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "telemetry" ADD CONSTRAINT "telemetry_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "locations" ADD CONSTRAINT "locations_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "device_latest" ADD CONSTRAINT "device_latest_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,79 @@
+-- CreateTable
+CREATE TABLE "shipments" (
+    "id" SERIAL NOT NULL,
+    "external_id" VARCHAR(255) NOT NULL,
+    "public_id" VARCHAR(255),
+    "provider" VARCHAR(50) NOT NULL DEFAULT 'Tive',
+    "tenant_id" INTEGER,
+    "description" TEXT,
+    "carrier" VARCHAR(255),
+    "ship_from_lat" DECIMAL(10,8),
+    "ship_from_lon" DECIMAL(11,8),
+    "ship_from_address" TEXT,
+    "ship_to_lat" DECIMAL(10,8),
+    "ship_to_lon" DECIMAL(11,8),
+    "ship_to_address" TEXT,
+    "status" VARCHAR(50) NOT NULL DEFAULT 'in_transit',
+    "first_seen_ts" BIGINT NOT NULL,
+    "last_seen_ts" BIGINT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "shipments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "shipment_device_assignments" (
+    "id" SERIAL NOT NULL,
+    "shipment_id" INTEGER NOT NULL,
+    "device_imei" VARCHAR(15) NOT NULL,
+    "device_id" VARCHAR(255) NOT NULL,
+    "first_ts" BIGINT NOT NULL,
+    "last_ts" BIGINT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "shipment_device_assignments_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "telemetry" ADD COLUMN     "shipment_id" INTEGER;
+
+-- AlterTable
+ALTER TABLE "locations" ADD COLUMN     "shipment_id" INTEGER;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "shipments_external_id_key" ON "shipments"("external_id");
+
+-- CreateIndex
+CREATE INDEX "idx_shipments_tenant" ON "shipments"("tenant_id");
+
+-- CreateIndex
+CREATE INDEX "idx_shipments_status" ON "shipments"("status");
+
+-- CreateIndex
+CREATE INDEX "idx_shipments_last_seen" ON "shipments"("last_seen_ts" DESC);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "shipment_device_assignments_shipment_id_device_imei_key" ON "shipment_device_assignments"("shipment_id", "device_imei");
+
+-- CreateIndex
+CREATE INDEX "idx_shipment_assignments_device" ON "shipment_device_assignments"("device_imei", "last_ts" DESC);
+
+-- CreateIndex
+CREATE INDEX "idx_telemetry_shipment_timestamp" ON "telemetry"("shipment_id", "ts" DESC);
+
+-- CreateIndex
+CREATE INDEX "idx_location_shipment_timestamp" ON "locations"("shipment_id", "ts" DESC);
+
+-- AddForeignKey
+ALTER TABLE "shipments" ADD CONSTRAINT "shipments_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "shipment_device_assignments" ADD CONSTRAINT "shipment_device_assignments_shipment_id_fkey" FOREIGN KEY ("shipment_id") REFERENCES "shipments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "telemetry" ADD CONSTRAINT "telemetry_shipment_id_fkey" FOREIGN KEY ("shipment_id") REFERENCES "shipments"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "locations" ADD CONSTRAINT "locations_shipment_id_fkey" FOREIGN KEY ("shipment_id") REFERENCES "shipments"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,83 @@
+-- CreateTable
+CREATE TABLE "temperature_profiles" (
+    "id" SERIAL NOT NULL,
+    "name" VARCHAR(100) NOT NULL,
+    "tenant_id" INTEGER,
+    "min_temp" DECIMAL(5,2),
+    "max_temp" DECIMAL(5,2),
+    "allowed_excursion_minutes" INTEGER NOT NULL DEFAULT 0,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "temperature_profiles_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "device_configs" (
+    "device_imei" VARCHAR(15) NOT NULL,
+    "temperature_profile_id" INTEGER,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "device_configs_pkey" PRIMARY KEY ("device_imei")
+);
+
+-- CreateTable
+CREATE TABLE "temperature_excursions" (
+    "id" SERIAL NOT NULL,
+    "device_imei" VARCHAR(15) NOT NULL,
+    "shipment_id" INTEGER,
+    "tenant_id" INTEGER,
+    "profile_id" INTEGER NOT NULL,
+    "direction" VARCHAR(10) NOT NULL,
+    "start_ts" BIGINT NOT NULL,
+    "end_ts" BIGINT,
+    "last_ts" BIGINT NOT NULL,
+    "peak_temperature" DECIMAL(5,2) NOT NULL,
+    "duration_ms" BIGINT NOT NULL,
+    "reading_count" INTEGER NOT NULL,
+    "exceeds_allowance" BOOLEAN NOT NULL DEFAULT false,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "temperature_excursions_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "shipments" ADD COLUMN     "temperature_profile_id" INTEGER;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "temperature_profiles_tenant_id_name_key" ON "temperature_profiles"("tenant_id", "name");
+
+-- CreateIndex
+CREATE INDEX "idx_excursions_device_start" ON "temperature_excursions"("device_imei", "start_ts" DESC);
+
+-- CreateIndex
+CREATE INDEX "idx_excursions_shipment_start" ON "temperature_excursions"("shipment_id", "start_ts");
+
+-- CreateIndex
+CREATE INDEX "idx_excursions_tenant" ON "temperature_excursions"("tenant_id");
+
+-- AddForeignKey
+ALTER TABLE "shipments" ADD CONSTRAINT "shipments_temperature_profile_id_fkey" FOREIGN KEY ("temperature_profile_id") REFERENCES "temperature_profiles"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "temperature_profiles" ADD CONSTRAINT "temperature_profiles_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "device_configs" ADD CONSTRAINT "device_configs_temperature_profile_id_fkey" FOREIGN KEY ("temperature_profile_id") REFERENCES "temperature_profiles"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "temperature_excursions" ADD CONSTRAINT "temperature_excursions_shipment_id_fkey" FOREIGN KEY ("shipment_id") REFERENCES "shipments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "temperature_excursions" ADD CONSTRAINT "temperature_excursions_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "temperature_excursions" ADD CONSTRAINT "temperature_excursions_profile_id_fkey" FOREIGN KEY ("profile_id") REFERENCES "temperature_profiles"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Seed shared profiles
+INSERT INTO "temperature_profiles" ("name", "min_temp", "max_temp", "allowed_excursion_minutes") VALUES
+    ('Refrigerated (2-8°C)', 2, 8, 30),
+    ('Controlled room temperature (15-25°C)', 15, 25, 60),
+    ('Frozen (≤ -20°C)', NULL, -20, 15);
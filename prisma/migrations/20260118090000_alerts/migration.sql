@@ -0,0 +1,97 @@
+-- CreateTable
+CREATE TABLE "alert_rules" (
+    "id" SERIAL NOT NULL,
+    "tenant_id" INTEGER,
+    "name" VARCHAR(255) NOT NULL,
+    "type" VARCHAR(30) NOT NULL,
+    "params" JSONB NOT NULL,
+    "device_imei" VARCHAR(15),
+    "shipment_id" INTEGER,
+    "severity" VARCHAR(20) NOT NULL DEFAULT 'warning',
+    "channels" JSONB NOT NULL DEFAULT '[]',
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "alert_rules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "alerts" (
+    "id" SERIAL NOT NULL,
+    "rule_id" INTEGER NOT NULL,
+    "tenant_id" INTEGER,
+    "device_imei" VARCHAR(15) NOT NULL,
+    "shipment_id" INTEGER,
+    "type" VARCHAR(30) NOT NULL,
+    "severity" VARCHAR(20) NOT NULL,
+    "status" VARCHAR(20) NOT NULL DEFAULT 'open',
+    "dedup_key" VARCHAR(255),
+    "message" TEXT NOT NULL,
+    "value" DECIMAL(12,3),
+    "first_triggered_ts" BIGINT NOT NULL,
+    "last_triggered_ts" BIGINT NOT NULL,
+    "occurrence_count" INTEGER NOT NULL DEFAULT 1,
+    "acknowledged_at" TIMESTAMP(3),
+    "acknowledged_by" VARCHAR(255),
+    "resolved_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "alerts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "alert_deliveries" (
+    "id" SERIAL NOT NULL,
+    "alert_id" INTEGER NOT NULL,
+    "event" VARCHAR(20) NOT NULL,
+    "channel" VARCHAR(20) NOT NULL,
+    "target" VARCHAR(500) NOT NULL,
+    "status" VARCHAR(20) NOT NULL DEFAULT 'pending',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "last_error" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "delivered_at" TIMESTAMP(3),
+
+    CONSTRAINT "alert_deliveries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "idx_alert_rules_enabled_type" ON "alert_rules"("enabled", "type");
+
+-- CreateIndex
+CREATE INDEX "idx_alert_rules_tenant" ON "alert_rules"("tenant_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "alerts_dedup_key_key" ON "alerts"("dedup_key");
+
+-- CreateIndex
+CREATE INDEX "idx_alerts_status_created" ON "alerts"("status", "created_at" DESC);
+
+-- CreateIndex
+CREATE INDEX "idx_alerts_device_created" ON "alerts"("device_imei", "created_at" DESC);
+
+-- CreateIndex
+CREATE INDEX "idx_alerts_tenant" ON "alerts"("tenant_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "alert_deliveries_alert_id_event_channel_target_key" ON "alert_deliveries"("alert_id", "event", "channel", "target");
+
+-- CreateIndex
+CREATE INDEX "idx_alert_deliveries_status" ON "alert_deliveries"("status");
+
+-- AddForeignKey
+ALTER TABLE "alert_rules" ADD CONSTRAINT "alert_rules_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "alert_rules" ADD CONSTRAINT "alert_rules_shipment_id_fkey" FOREIGN KEY ("shipment_id") REFERENCES "shipments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "alerts" ADD CONSTRAINT "alerts_rule_id_fkey" FOREIGN KEY ("rule_id") REFERENCES "alert_rules"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "alerts" ADD CONSTRAINT "alerts_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "alert_deliveries" ADD CONSTRAINT "alert_deliveries_alert_id_fkey" FOREIGN KEY ("alert_id") REFERENCES "alerts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "temperature_profiles" ADD COLUMN "stability_budget_minutes" INTEGER;
@@ -0,0 +1,32 @@
+-- CreateTable
+CREATE TABLE "shock_events" (
+    "id" SERIAL NOT NULL,
+    "device_imei" VARCHAR(15) NOT NULL,
+    "shipment_id" INTEGER,
+    "tenant_id" INTEGER,
+    "kind" VARCHAR(10) NOT NULL,
+    "severity" VARCHAR(10) NOT NULL,
+    "start_ts" BIGINT NOT NULL,
+    "end_ts" BIGINT NOT NULL,
+    "peak_magnitude" DECIMAL(6,3) NOT NULL,
+    "reading_count" INTEGER NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "shock_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "idx_shock_events_device_start" ON "shock_events"("device_imei", "start_ts" DESC);
+
+-- CreateIndex
+CREATE INDEX "idx_shock_events_shipment_start" ON "shock_events"("shipment_id", "start_ts");
+
+-- CreateIndex
+CREATE INDEX "idx_shock_events_tenant" ON "shock_events"("tenant_id");
+
+-- AddForeignKey
+ALTER TABLE "shock_events" ADD CONSTRAINT "shock_events_shipment_id_fkey" FOREIGN KEY ("shipment_id") REFERENCES "shipments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "shock_events" ADD CONSTRAINT "shock_events_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE SET NULL ON UPDATE CASCADE;
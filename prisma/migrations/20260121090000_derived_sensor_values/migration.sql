@@ -0,0 +1,19 @@
+-- AlterTable
+ALTER TABLE "telemetry" ADD COLUMN "tilt_x" DECIMAL(5,2),
+ADD COLUMN "tilt_y" DECIMAL(5,2),
+ADD COLUMN "tilt_z" DECIMAL(5,2),
+ADD COLUMN "tilt" DECIMAL(5,2),
+ADD COLUMN "box_open" BOOLEAN;
+
+-- AlterTable
+ALTER TABLE "device_latest" ADD COLUMN "last_tilt_x" DECIMAL(5,2),
+ADD COLUMN "last_tilt_y" DECIMAL(5,2),
+ADD COLUMN "last_tilt_z" DECIMAL(5,2),
+ADD COLUMN "last_tilt" DECIMAL(5,2),
+ADD COLUMN "last_box_open" BOOLEAN;
+
+-- AlterTable
+ALTER TABLE "device_configs" ADD COLUMN "lux_baseline" DECIMAL(8,1),
+ADD COLUMN "rest_accelerometer_x" DECIMAL(6,3),
+ADD COLUMN "rest_accelerometer_y" DECIMAL(6,3),
+ADD COLUMN "rest_accelerometer_z" DECIMAL(6,3);
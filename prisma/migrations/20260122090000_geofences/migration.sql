@@ -0,0 +1,89 @@
+-- AlterTable
+ALTER TABLE "shipments" ADD COLUMN "departed_ts" BIGINT,
+ADD COLUMN "arrived_ts" BIGINT;
+
+-- CreateTable
+CREATE TABLE "geofences" (
+    "id" SERIAL NOT NULL,
+    "tenant_id" INTEGER,
+    "name" VARCHAR(255) NOT NULL,
+    "shape" VARCHAR(10) NOT NULL,
+    "center_lat" DECIMAL(10,8),
+    "center_lon" DECIMAL(11,8),
+    "radius_meters" INTEGER,
+    "vertices" JSONB,
+    "dwell_minutes" INTEGER,
+    "shipment_id" INTEGER,
+    "role" VARCHAR(20),
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "geofences_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "geofence_presences" (
+    "geofence_id" INTEGER NOT NULL,
+    "device_imei" VARCHAR(15) NOT NULL,
+    "inside" BOOLEAN NOT NULL,
+    "entered_ts" BIGINT,
+    "dwell_reported" BOOLEAN NOT NULL DEFAULT false,
+    "last_ts" BIGINT NOT NULL,
+    "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "geofence_presences_pkey" PRIMARY KEY ("geofence_id","device_imei")
+);
+
+-- CreateTable
+CREATE TABLE "geofence_events" (
+    "id" SERIAL NOT NULL,
+    "geofence_id" INTEGER NOT NULL,
+    "device_imei" VARCHAR(15) NOT NULL,
+    "shipment_id" INTEGER,
+    "tenant_id" INTEGER,
+    "type" VARCHAR(10) NOT NULL,
+    "ts" BIGINT NOT NULL,
+    "duration_ms" BIGINT,
+    "latitude" DECIMAL(10,8) NOT NULL,
+    "longitude" DECIMAL(11,8) NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "geofence_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "uq_geofences_shipment_role" ON "geofences"("shipment_id", "role");
+
+-- CreateIndex
+CREATE INDEX "idx_geofences_tenant" ON "geofences"("tenant_id");
+
+-- CreateIndex
+CREATE INDEX "idx_geofence_events_geofence_ts" ON "geofence_events"("geofence_id", "ts" DESC);
+
+-- CreateIndex
+CREATE INDEX "idx_geofence_events_device_ts" ON "geofence_events"("device_imei", "ts" DESC);
+
+-- CreateIndex
+CREATE INDEX "idx_geofence_events_shipment_ts" ON "geofence_events"("shipment_id", "ts");
+
+-- CreateIndex
+CREATE INDEX "idx_geofence_events_tenant" ON "geofence_events"("tenant_id");
+
+-- AddForeignKey
+ALTER TABLE "geofences" ADD CONSTRAINT "geofences_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "geofences" ADD CONSTRAINT "geofences_shipment_id_fkey" FOREIGN KEY ("shipment_id") REFERENCES "shipments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "geofence_presences" ADD CONSTRAINT "geofence_presences_geofence_id_fkey" FOREIGN KEY ("geofence_id") REFERENCES "geofences"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "geofence_events" ADD CONSTRAINT "geofence_events_geofence_id_fkey" FOREIGN KEY ("geofence_id") REFERENCES "geofences"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "geofence_events" ADD CONSTRAINT "geofence_events_shipment_id_fkey" FOREIGN KEY ("shipment_id") REFERENCES "shipments"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "geofence_events" ADD CONSTRAINT "geofence_events_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE SET NULL ON UPDATE CASCADE;
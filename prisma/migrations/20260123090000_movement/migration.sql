@@ -0,0 +1,15 @@
+-- AlterTable
+ALTER TABLE "locations" ADD COLUMN "distance_meters" DECIMAL(12,2),
+ADD COLUMN "speed_kmh" DECIMAL(9,2),
+ADD COLUMN "movement_state" VARCHAR(12);
+
+-- AlterTable
+ALTER TABLE "device_latest" ADD COLUMN "last_speed_kmh" DECIMAL(9,2),
+ADD COLUMN "movement_state" VARCHAR(12),
+ADD COLUMN "movement_since_ts" BIGINT;
+
+-- AlterTable
+ALTER TABLE "shipments" ADD COLUMN "distance_meters" DECIMAL(12,2) NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "shipment_device_assignments" ADD COLUMN "distance_meters" DECIMAL(12,2) NOT NULL DEFAULT 0;
@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "telemetry" ADD COLUMN "temperature_fahrenheit" DECIMAL(5,2),
+ADD COLUMN "probe_temperature" DECIMAL(5,2),
+ADD COLUMN "probe_temperature_fahrenheit" DECIMAL(5,2),
+ADD COLUMN "entity_name" VARCHAR(255);
+
+-- AlterTable
+ALTER TABLE "locations" ADD COLUMN "geolocation_source" VARCHAR(50),
+ADD COLUMN "battery_estimation" VARCHAR(10),
+ADD COLUMN "battery_charging" BOOLEAN,
+ADD COLUMN "cellular_signal_strength" VARCHAR(20),
+ADD COLUMN "cell_towers" INTEGER;
+
+-- AlterTable
+ALTER TABLE "device_latest" ADD COLUMN "entity_name" VARCHAR(255),
+ADD COLUMN "last_temperature_fahrenheit" DECIMAL(5,2),
+ADD COLUMN "last_probe_temperature" DECIMAL(5,2),
+ADD COLUMN "last_probe_temperature_fahrenheit" DECIMAL(5,2),
+ADD COLUMN "geolocation_source" VARCHAR(50),
+ADD COLUMN "battery_estimation" VARCHAR(10),
+ADD COLUMN "battery_charging" BOOLEAN,
+ADD COLUMN "cellular_signal_strength" VARCHAR(20),
+ADD COLUMN "cell_towers" INTEGER;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "device_configs" ADD COLUMN "temperature_channel" VARCHAR(10) NOT NULL DEFAULT 'ambient';
@@ -0,0 +1,34 @@
+-- AlterTable
+ALTER TABLE "device_latest" ADD COLUMN "connectivity_status" VARCHAR(10) NOT NULL DEFAULT 'online',
+ADD COLUMN "connectivity_since_ts" BIGINT,
+ADD COLUMN "reporting_interval_ms" INTEGER;
+
+-- AlterTable
+ALTER TABLE "device_configs" ADD COLUMN "reporting_interval_minutes" INTEGER;
+
+-- CreateTable
+CREATE TABLE "device_connectivity_events" (
+    "id" SERIAL NOT NULL,
+    "device_imei" VARCHAR(15) NOT NULL,
+    "tenant_id" INTEGER,
+    "from_status" VARCHAR(10) NOT NULL,
+    "to_status" VARCHAR(10) NOT NULL,
+    "ts" BIGINT NOT NULL,
+    "last_reading_ts" BIGINT NOT NULL,
+    "expected_interval_ms" INTEGER,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "device_connectivity_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "idx_device_latest_connectivity" ON "device_latest"("connectivity_status");
+
+-- CreateIndex
+CREATE INDEX "idx_connectivity_events_device_ts" ON "device_connectivity_events"("device_imei", "ts" DESC);
+
+-- CreateIndex
+CREATE INDEX "idx_connectivity_events_tenant_ts" ON "device_connectivity_events"("tenant_id", "ts" DESC);
+
+-- AddForeignKey
+ALTER TABLE "device_connectivity_events" ADD CONSTRAINT "device_connectivity_events_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE SET NULL ON UPDATE CASCADE;
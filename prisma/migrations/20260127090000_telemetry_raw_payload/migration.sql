@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "telemetry" ADD COLUMN "raw_payload_id" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "idx_telemetry_raw_payload" ON "telemetry"("raw_payload_id");
+
+-- AddForeignKey
+ALTER TABLE "telemetry" ADD CONSTRAINT "telemetry_raw_payload_id_fkey" FOREIGN KEY ("raw_payload_id") REFERENCES "raw_webhook_payloads"("id") ON DELETE SET NULL ON UPDATE CASCADE;
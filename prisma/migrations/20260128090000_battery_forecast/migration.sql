@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "device_latest" ADD COLUMN "battery_forecast_status" VARCHAR(20),
+ADD COLUMN "battery_drain_per_day" DECIMAL(7,2),
+ADD COLUMN "battery_empty_ts" BIGINT;
+
+-- AlterTable
+ALTER TABLE "shipments" ADD COLUMN "expected_arrival_ts" BIGINT;
@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "locations" ADD COLUMN "raw_payload_id" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "idx_location_raw_payload" ON "locations"("raw_payload_id");
+
+-- CreateIndex
+CREATE INDEX "idx_raw_payloads_created" ON "raw_webhook_payloads"("created_at" DESC, "id" DESC);
+
+-- AddForeignKey
+ALTER TABLE "locations" ADD CONSTRAINT "locations_raw_payload_id_fkey" FOREIGN KEY ("raw_payload_id") REFERENCES "raw_webhook_payloads"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,124 @@
+/**
+ * Tenant and API key management script
+ *
+ * Usage:
+ *   npm run tenants -- create-tenant <name> [tiveAccountId]
+ *   npm run tenants -- list-tenants
+ *   npm run tenants -- create-key <tenantId> <label>
+ *   npm run tenants -- list-keys <tenantId>
+ *   npm run tenants -- revoke-key <apiKeyId>
+ *
+ * API keys are printed once when created; only their SHA-256 hash is stored.
+ */
+
+// Load environment variables FIRST before importing any modules that use them
+import { config } from 'dotenv';
+import { resolve } from 'path';
+import { PrismaClient } from '@prisma/client';
+import { generateApiKey } from '../src/lib/utils/api-key';
+
+// Load .env.local first (takes precedence), then .env
+config({ path: resolve(process.cwd(), '.env.local') });
+config(); // Also load from .env if it exists
+
+if (!process.env.DATABASE_URL) {
+  console.error('❌ DATABASE_URL environment variable is required');
+  console.error('Please set DATABASE_URL in .env.local or as an environment variable');
+  process.exit(1);
+}
+
+const prisma = new PrismaClient();
+
+function usage(): never {
+  console.error('Usage:');
+  console.error('  npm run tenants -- create-tenant <name> [tiveAccountId]');
+  console.error('  npm run tenants -- list-tenants');
+  console.error('  npm run tenants -- create-key <tenantId> <label>');
+  console.error('  npm run tenants -- list-keys <tenantId>');
+  console.error('  npm run tenants -- revoke-key <apiKeyId>');
+  process.exit(1);
+}
+
+function parseId(value: string | undefined, name: string): number {
+  const id = value ? parseInt(value, 10) : NaN;
+  if (isNaN(id)) {
+    console.error(`❌ ${name} must be a number`);
+    usage();
+  }
+  return id;
+}
+
+async function run(command: string | undefined, args: string[]) {
+  switch (command) {
+    case 'create-tenant': {
+      if (!args[0]) usage();
+      const tenant = await prisma.tenant.create({
+        data: {
+          name: args[0],
+          tiveAccountId: args[1] ? parseId(args[1], 'tiveAccountId') : null,
+        },
+      });
+      console.log(`✅ Created tenant ${tenant.id} (${tenant.name}), Tive AccountId: ${tenant.tiveAccountId ?? 'none'}`);
+      break;
+    }
+
+    case 'list-tenants': {
+      const tenants = await prisma.tenant.findMany({
+        orderBy: { id: 'asc' },
+        include: { _count: { select: { apiKeys: { where: { revokedAt: null } } } } },
+      });
+      tenants.forEach((tenant) => {
+        console.log(
+          `${tenant.id}\t${tenant.name}\tTive AccountId: ${tenant.tiveAccountId ?? 'none'}\tactive keys: ${tenant._count.apiKeys}`
+        );
+      });
+      break;
+    }
+
+    case 'create-key': {
+      const tenantId = parseId(args[0], 'tenantId');
+      if (!args[1]) usage();
+      const { key, hash, prefix } = generateApiKey();
+      const apiKey = await prisma.apiKey.create({
+        data: { tenantId, label: args[1], keyHash: hash, keyPrefix: prefix },
+      });
+      console.log(`✅ Created API key ${apiKey.id} (${apiKey.label}) for tenant ${tenantId}`);
+      console.log('');
+      console.log(`   ${key}`);
+      console.log('');
+      console.log('⚠️  Store this key now - it cannot be shown again.');
+      break;
+    }
+
+    case 'list-keys': {
+      const tenantId = parseId(args[0], 'tenantId');
+      const keys = await prisma.apiKey.findMany({ where: { tenantId }, orderBy: { createdAt: 'asc' } });
+      keys.forEach((key) => {
+        const status = key.revokedAt ? `revoked ${key.revokedAt.toISOString()}` : 'active';
+        const lastUsed = key.lastUsedAt ? key.lastUsedAt.toISOString() : 'never';
+        console.log(`${key.id}\t${key.keyPrefix}…\t${key.label}\t${status}\tlast used: ${lastUsed}`);
+      });
+      break;
+    }
+
+    case 'revoke-key': {
+      const apiKeyId = parseId(args[0], 'apiKeyId');
+      const result = await prisma.apiKey.updateMany({
+        where: { id: apiKeyId, revokedAt: null },
+        data: { revokedAt: new Date() },
+      });
+      console.log(result.count > 0 ? `✅ Revoked API key ${apiKeyId}` : `⚠️  API key ${apiKeyId} not found or already revoked`);
+      break;
+    }
+
+    default:
+      usage();
+  }
+}
+
+run(process.argv[2], process.argv.slice(3))
+  .catch((error) => {
+    console.error('❌ Command failed:', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
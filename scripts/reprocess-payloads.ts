@@ -0,0 +1,124 @@
+/**
+ * Reprocess raw webhook payloads through validation, transformation and storage
+ * Use after fixing a transformer or changing thresholds. Runs in this process (no Inngest).
+ *
+ * Usage:
+ *   npm run reprocess -- [--dry-run] [--ids 1,2,3] [--status failed] [--device <DeviceId>]
+ *                        [--from <time>] [--to <time>] [--validation-error <field>] [--limit <n>]
+ *
+ * Times are epoch milliseconds or ISO 8601 (time the payload was received). At least one
+ * selector is required; --limit defaults to 100 (max 500). --dry-run prints what would change
+ * in each payload's telemetry and location rows without writing anything.
+ */
+
+// Load environment variables FIRST before importing any modules that use them
+import { config } from 'dotenv';
+import { resolve } from 'path';
+
+// Load .env.local first (takes precedence), then .env
+config({ path: resolve(process.cwd(), '.env.local') });
+config(); // Also load from .env if it exists
+
+if (!process.env.DATABASE_URL) {
+  console.error('❌ DATABASE_URL environment variable is required');
+  console.error('Please set DATABASE_URL in .env.local or as an environment variable');
+  process.exit(1);
+}
+
+const OPTIONS: Record<string, string> = {
+  '--ids': 'ids',
+  '--status': 'status',
+  '--device': 'device',
+  '--from': 'from',
+  '--to': 'to',
+  '--validation-error': 'validationError',
+  '--limit': 'limit',
+};
+
+function usage(): never {
+  console.error('Usage:');
+  console.error('  npm run reprocess -- [--dry-run] [--ids 1,2,3] [--status failed] [--device <DeviceId>]');
+  console.error('                       [--from <time>] [--to <time>] [--validation-error <field>] [--limit <n>]');
+  process.exit(1);
+}
+
+/**
+ * Build a request body (as accepted by POST /api/admin/payloads/reprocess) from the arguments
+ */
+function parseArgs(args: string[]): Record<string, unknown> {
+  const body: Record<string, unknown> = {};
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--dry-run') {
+      body.dryRun = true;
+      continue;
+    }
+
+    const field = OPTIONS[args[i]];
+    const value = args[i + 1];
+    if (!field || value === undefined) usage();
+    i++;
+
+    if (field === 'ids') {
+      body.ids = value.split(',').map((id) => Number(id.trim()));
+    } else if (field === 'limit') {
+      body.limit = Number(value);
+    } else if ((field === 'from' || field === 'to') && /^\d+$/.test(value)) {
+      body[field] = Number(value);
+    } else {
+      body[field] = value;
+    }
+  }
+  return body;
+}
+
+function formatValue(value: unknown): string {
+  return value === null ? 'null' : typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+async function run(args: string[]) {
+  // Imported after the environment is loaded
+  const { validateReprocessRequest } = await import('../src/lib/validators/reprocess-validator');
+  const { selectRawPayloads, disconnect } = await import('../src/lib/db');
+  const { reprocessRawPayloads } = await import('../src/lib/reprocess');
+
+  try {
+    const validation = validateReprocessRequest(parseArgs(args));
+    if (!validation.valid || !validation.request) {
+      validation.errors.forEach((error) => console.error(`❌ ${error.field}: ${error.message}`));
+      usage();
+    }
+
+    const { selection, dryRun } = validation.request;
+    const { payloads, truncated } = await selectRawPayloads(selection);
+    console.log(`${dryRun ? 'Dry run: ' : ''}reprocessing ${payloads.length} payload(s)`);
+    console.log('');
+
+    const summary = await reprocessRawPayloads(payloads, { dryRun });
+    for (const result of summary.results) {
+      console.log(`${result.rawPayloadId}\t${result.deviceImei ?? '-'}\t${result.ts ?? '-'}\t${result.outcome}`);
+      result.errors?.forEach((error) => console.log(`    ${error.field}: ${error.message}`));
+      if (result.error) console.log(`    ${result.error}`);
+      for (const table of ['telemetry', 'location'] as const) {
+        result[table]?.changes.forEach((change) => {
+          console.log(`    ${table}.${change.column}: ${formatValue(change.before)} → ${formatValue(change.after)}`);
+        });
+      }
+    }
+
+    console.log('');
+    console.log(Object.entries(summary.counts).map(([outcome, count]) => `${outcome}: ${count}`).join(', '));
+    if (truncated) {
+      console.log('⚠️  More payloads matched than --limit; narrow the selection (e.g. --from) to reprocess the rest.');
+    }
+    if (dryRun) {
+      console.log('Nothing was changed (dry run).');
+    }
+  } finally {
+    await disconnect();
+  }
+}
+
+run(process.argv.slice(2)).catch((error) => {
+  console.error('❌ Reprocessing failed:', error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,59 @@
+/**
+ * Admin API endpoint to inspect one raw webhook payload
+ * GET /api/admin/payloads/:id
+ *
+ * Returns the raw body, validation errors, processing error, Inngest event id and the
+ * telemetry and location rows produced from the payload.
+ * Requires the global API_KEY; tenant keys are refused.
+ */
+
+import { NextRequest } from 'next/server';
+import { getRawPayloadDetail } from '@/lib/db';
+import { authenticateApiKey, isAdminIdentity } from '@/lib/validators/api-key-validator';
+import { logger } from '@/lib/logger';
+import { successResponse, errorResponse } from '@/lib/api/response';
+import { serializePrisma } from '@/lib/api/serialize';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const identity = await authenticateApiKey(request);
+    if (!identity) {
+      return errorResponse(
+        'Unauthorized',
+        'Invalid or missing API key. Provide API key via X-API-Key header or Authorization: Bearer <key>',
+        401
+      );
+    }
+    if (!isAdminIdentity(identity)) {
+      return errorResponse('Forbidden', 'Raw payloads are only available with the global API key', 403);
+    }
+
+    const id = Number(params.id);
+    if (!Number.isInteger(id) || id < 1) {
+      return errorResponse('Not found', `Payload ${params.id} not found`, 404);
+    }
+
+    const payload = await getRawPayloadDetail(id);
+    if (!payload) {
+      return errorResponse('Not found', `Payload ${params.id} not found`, 404);
+    }
+
+    return successResponse(serializePrisma(payload));
+
+  } catch (error) {
+    logger.error('Error fetching raw payload', {
+      error: error instanceof Error ? error.message : 'Unknown',
+      stack: error instanceof Error ? error.stack : undefined,
+      id: params.id,
+    });
+
+    return errorResponse(
+      'Internal server error',
+      error instanceof Error ? error.message : 'Unknown error',
+      500
+    );
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * Admin API endpoint to reprocess raw webhook payloads through the pipeline
+ * POST /api/admin/payloads/reprocess
+ *
+ * Body (see validateReprocessRequest): payloads selected by ids, status, device, from/to
+ * (time received) and/or validationError, up to limit (default 100, max 500), plus dryRun.
+ *
+ * Payloads are validated, transformed and stored again; readings already stored from a payload
+ * are rewritten in place. A dry run returns each payload's outcome with the column changes of
+ * its telemetry and location rows without writing anything. Otherwise the payloads are handed
+ * to the reprocess-tive-payloads Inngest function and the response returns their ids.
+ * Requires the global API_KEY; tenant keys are refused.
+ */
+
+import { NextRequest } from 'next/server';
+import { selectRawPayloads } from '@/lib/db';
+import { reprocessRawPayloads } from '@/lib/reprocess';
+import { inngest } from '@/lib/inngest/client';
+import { authenticateApiKey, isAdminIdentity } from '@/lib/validators/api-key-validator';
+import { validateReprocessRequest } from '@/lib/validators/reprocess-validator';
+import { logger } from '@/lib/logger';
+import { successResponse, errorResponse } from '@/lib/api/response';
+
+export async function POST(request: NextRequest) {
+  try {
+    const identity = await authenticateApiKey(request);
+    if (!identity) {
+      return errorResponse(
+        'Unauthorized',
+        'Invalid or missing API key. Provide API key via X-API-Key header or Authorization: Bearer <key>',
+        401
+      );
+    }
+    if (!isAdminIdentity(identity)) {
+      return errorResponse('Forbidden', 'Raw payloads are only available with the global API key', 403);
+    }
+
+    let body: any;
+    try {
+      body = await request.json();
+    } catch (error) {
+      return errorResponse('Invalid JSON', 'Request body must be valid JSON', 400);
+    }
+
+    const validation = validateReprocessRequest(body);
+    if (!validation.valid || !validation.request) {
+      return errorResponse('Validation failed', 'See details for specific errors.', 400, { errors: validation.errors });
+    }
+
+    const { selection, dryRun } = validation.request;
+    const { payloads, truncated } = await selectRawPayloads(selection);
+
+    if (dryRun) {
+      const summary = await reprocessRawPayloads(payloads, { dryRun: true });
+      return successResponse({ ...summary, count: payloads.length, truncated }, 'Dry run: nothing was changed');
+    }
+
+    const rawPayloadIds = payloads.map((raw) => raw.id);
+    let eventId: string | null = null;
+    if (rawPayloadIds.length > 0) {
+      const { ids } = await inngest.send({
+        name: 'admin/payloads.reprocess',
+        data: { raw_ids: rawPayloadIds },
+      });
+      eventId = ids[0] ?? null;
+    }
+
+    return successResponse(
+      { dryRun: false, count: rawPayloadIds.length, truncated, rawPayloadIds, eventId },
+      'Reprocessing started'
+    );
+
+  } catch (error) {
+    logger.error('Error reprocessing raw payloads', {
+      error: error instanceof Error ? error.message : 'Unknown',
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+
+    return errorResponse(
+      'Internal server error',
+      error instanceof Error ? error.message : 'Unknown error',
+      500
+    );
+  }
+}
@@ -0,0 +1,98 @@
+/**
+ * Admin API endpoint to search the raw webhook payloads (audit trail)
+ * GET /api/admin/payloads
+ *
+ * Query parameters (all optional):
+ * - status: pending, processing, completed or failed
+ * - source: payload source (e.g. Tive)
+ * - device: Tive DeviceId in the payload body
+ * - validationError: field with a validation error (e.g. DeviceId, Location.Latitude)
+ * - from, to: time the payload was received (epoch ms or ISO 8601), inclusive
+ * - limit: payloads per page (default 50, max 500)
+ * - cursor: nextCursor of the previous page
+ *
+ * Payloads are listed newest first, without their body (see GET /api/admin/payloads/:id).
+ * Requires the global API_KEY; tenant keys are refused.
+ */
+
+import { NextRequest } from 'next/server';
+import { listRawPayloads, RAW_PAYLOAD_STATUSES, RawPayloadStatus } from '@/lib/db';
+import { authenticateApiKey, isAdminIdentity } from '@/lib/validators/api-key-validator';
+import { logger } from '@/lib/logger';
+import { RAW_PAYLOAD_QUERY } from '@/lib/constants';
+import { successResponse, errorResponse } from '@/lib/api/response';
+import { serializePrisma } from '@/lib/api/serialize';
+import {
+  encodeCursor,
+  parseCursorParam,
+  parseLimitParam,
+  parseStringParam,
+  parseTimeParam,
+  QueryParamError,
+} from '@/lib/api/query-params';
+
+export async function GET(request: NextRequest) {
+  try {
+    const identity = await authenticateApiKey(request);
+    if (!identity) {
+      return errorResponse(
+        'Unauthorized',
+        'Invalid or missing API key. Provide API key via X-API-Key header or Authorization: Bearer <key>',
+        401
+      );
+    }
+    if (!isAdminIdentity(identity)) {
+      return errorResponse('Forbidden', 'Raw payloads are only available with the global API key', 403);
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const errors: QueryParamError[] = [];
+    const from = parseTimeParam(searchParams, 'from', errors);
+    const to = parseTimeParam(searchParams, 'to', errors);
+    const cursor = parseCursorParam(searchParams, 'cursor', errors);
+    const limit = parseLimitParam(
+      searchParams,
+      'limit',
+      { defaultValue: RAW_PAYLOAD_QUERY.DEFAULT_LIMIT, max: RAW_PAYLOAD_QUERY.MAX_LIMIT },
+      errors
+    );
+
+    const status = parseStringParam(searchParams, 'status') as RawPayloadStatus | undefined;
+    if (status !== undefined && !RAW_PAYLOAD_STATUSES.includes(status)) {
+      errors.push({ field: 'status', message: `status must be one of ${RAW_PAYLOAD_STATUSES.join(', ')}` });
+    }
+
+    if (errors.length > 0) {
+      return errorResponse('Invalid query parameters', 'See details for specific errors.', 400, { errors });
+    }
+
+    const page = await listRawPayloads({
+      status,
+      source: parseStringParam(searchParams, 'source'),
+      deviceId: parseStringParam(searchParams, 'device'),
+      validationErrorField: parseStringParam(searchParams, 'validationError'),
+      from,
+      to,
+      cursor,
+      limit,
+    });
+
+    return successResponse({
+      count: page.items.length,
+      payloads: page.items.map(serializePrisma),
+      nextCursor: page.nextCursor ? encodeCursor(page.nextCursor) : null,
+    });
+
+  } catch (error) {
+    logger.error('Error listing raw payloads', {
+      error: error instanceof Error ? error.message : 'Unknown',
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+
+    return errorResponse(
+      'Internal server error',
+      error instanceof Error ? error.message : 'Unknown error',
+      500
+    );
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * API endpoint to enable or disable an alert rule
+ * PATCH /api/alert-rules/:id
+ *
+ * Body: { "enabled": boolean }
+ * Tenant keys can only change their own rules.
+ */
+
+import { NextRequest } from 'next/server';
+import { setAlertRuleEnabled } from '@/lib/db';
+import { authenticateApiKey } from '@/lib/validators/api-key-validator';
+import { logger } from '@/lib/logger';
+import { successResponse, errorResponse } from '@/lib/api/response';
+import { serializePrisma } from '@/lib/api/serialize';
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const identity = await authenticateApiKey(request);
+    if (!identity) {
+      return errorResponse(
+        'Unauthorized',
+        'Invalid or missing API key. Provide API key via X-API-Key header or Authorization: Bearer <key>',
+        401
+      );
+    }
+
+    const id = Number(params.id);
+    if (!Number.isInteger(id) || id < 1) {
+      return errorResponse('Not found', `Alert rule ${params.id} not found`, 404);
+    }
+
+    let body: any;
+    try {
+      body = await request.json();
+    } catch (error) {
+      return errorResponse('Invalid JSON', 'Request body must be valid JSON', 400);
+    }
+
+    if (typeof body?.enabled !== 'boolean') {
+      return errorResponse('Validation failed', 'See details for specific errors.', 400, {
+        errors: [{ field: 'enabled', message: 'enabled must be a boolean' }],
+      });
+    }
+
+    const rule = await setAlertRuleEnabled(id, body.enabled, identity.tenantId);
+    if (!rule) {
+      return errorResponse('Not found', `Alert rule ${params.id} not found`, 404);
+    }
+
+    return successResponse(serializePrisma(rule), body.enabled ? 'Alert rule enabled' : 'Alert rule disabled');
+
+  } catch (error) {
+    logger.error('Error updating alert rule', {
+      error: error instanceof Error ? error.message : 'Unknown',
+      stack: error instanceof Error ? error.stack : undefined,
+      id: params.id,
+    });
+
+    return errorResponse(
+      'Internal server error',
+      error instanceof Error ? error.message : 'Unknown error',
+      500
+    );
+  }
+}
@@ -0,0 +1,94 @@
+/**
+ * API endpoint for alert rules
+ * GET /api/alert-rules  - list the global rules and the tenant's own
+ * POST /api/alert-rules - create a rule
+ *
+ * Rules created with a tenant key only apply to that tenant's readings; rules created
+ * with the global API_KEY apply to all tenants.
+ */
+
+import { NextRequest } from 'next/server';
+import { listAlertRules, createAlertRule, findShipment } from '@/lib/db';
+import { authenticateApiKey } from '@/lib/validators/api-key-validator';
+import { validateAlertRuleInput } from '@/lib/validators/alert-rule-validator';
+import { logger } from '@/lib/logger';
+import { successResponse, errorResponse } from '@/lib/api/response';
+import { serializePrisma } from '@/lib/api/serialize';
+
+export async function GET(request: NextRequest) {
+  try {
+    const identity = await authenticateApiKey(request);
+    if (!identity) {
+      return errorResponse(
+        'Unauthorized',
+        'Invalid or missing API key. Provide API key via X-API-Key header or Authorization: Bearer <key>',
+        401
+      );
+    }
+
+    const rules = await listAlertRules(identity.tenantId);
+
+    return successResponse({
+      count: rules.length,
+      rules: rules.map(serializePrisma),
+    });
+
+  } catch (error) {
+    logger.error('Error fetching alert rules', {
+      error: error instanceof Error ? error.message : 'Unknown',
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+
+    return errorResponse(
+      'Internal server error',
+      error instanceof Error ? error.message : 'Unknown error',
+      500
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const identity = await authenticateApiKey(request);
+    if (!identity) {
+      return errorResponse(
+        'Unauthorized',
+        'Invalid or missing API key. Provide API key via X-API-Key header or Authorization: Bearer <key>',
+        401
+      );
+    }
+
+    let body: any;
+    try {
+      body = await request.json();
+    } catch (error) {
+      return errorResponse('Invalid JSON', 'Request body must be valid JSON', 400);
+    }
+
+    const validation = validateAlertRuleInput(body);
+    if (!validation.valid || !validation.rule) {
+      return errorResponse('Validation failed', 'See details for specific errors.', 400, { errors: validation.errors });
+    }
+
+    const { shipmentId } = validation.rule;
+    if (shipmentId !== null && !(await findShipment(String(shipmentId), identity.tenantId))) {
+      return errorResponse('Not found', `Shipment ${shipmentId} not found`, 404);
+    }
+
+    const rule = await createAlertRule({ ...validation.rule, tenantId: identity.tenantId });
+
+    return successResponse(serializePrisma(rule), 'Alert rule created');
+
+  } catch (error) {
+    logger.error('Error creating alert rule', {
+      error: error instanceof Error ? error.message : 'Unknown',
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+
+    return errorResponse(
+      'Internal server error',
+      error instanceof Error ? error.message : 'Unknown error',
+      500
+    );
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * API endpoint to acknowledge an alert
+ * POST /api/alerts/:id/acknowledge
+ *
+ * Body (optional): { "by": "name of the person acknowledging" }
+ * Only open alerts can be acknowledged. An acknowledged alert stays active
+ * (further occurrences are counted on it) until the condition clears.
+ */
+
+import { NextRequest } from 'next/server';
+import { acknowledgeAlert } from '@/lib/db';
+import { authenticateApiKey } from '@/lib/validators/api-key-validator';
+import { logger } from '@/lib/logger';
+import { successResponse, errorResponse } from '@/lib/api/response';
+import { serializePrisma } from '@/lib/api/serialize';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const identity = await authenticateApiKey(request);
+    if (!identity) {
+      return errorResponse(
+        'Unauthorized',
+        'Invalid or missing API key. Provide API key via X-API-Key header or Authorization: Bearer <key>',
+        401
+      );
+    }
+
+    const id = Number(params.id);
+    if (!Number.isInteger(id) || id < 1) {
+      return errorResponse('Not found', `Alert ${params.id} not found`, 404);
+    }
+
+    // The body is optional; an empty or non-JSON body acknowledges anonymously
+    const body = await request.json().catch(() => null);
+    const by = typeof body?.by === 'string' && body.by.trim()
+      ? body.by.trim().slice(0, 255)
+      : identity.apiKeyId !== null ? `api_key:${identity.apiKeyId}` : null;
+
+    const alert = await acknowledgeAlert(id, by, identity.tenantId);
+    if (!alert) {
+      return errorResponse('Not found', `No open alert ${params.id}`, 404);
+    }
+
+    return successResponse(serializePrisma(alert), 'Alert acknowledged');
+
+  } catch (error) {
+    logger.error('Error acknowledging alert', {
+      error: error instanceof Error ? error.message : 'Unknown',
+      stack: error instanceof Error ? error.stack : undefined,
+      id: params.id,
+    });
+
+    return errorResponse(
+      'Internal server error',
+      error instanceof Error ? error.message : 'Unknown error',
+      500
+    );
+  }
+}
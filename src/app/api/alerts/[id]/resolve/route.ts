@@ -0,0 +1,61 @@
+/**
+ * API endpoint to resolve an alert manually
+ * POST /api/alerts/:id/resolve
+ *
+ * Resolved notifications are sent to the rule's channels, as for automatic resolution.
+ * If the condition persists, the next reading opens a new alert.
+ */
+
+import { NextRequest } from 'next/server';
+import { resolveAlert } from '@/lib/db';
+import { inngest } from '@/lib/inngest/client';
+import { authenticateApiKey } from '@/lib/validators/api-key-validator';
+import { logger } from '@/lib/logger';
+import { successResponse, errorResponse } from '@/lib/api/response';
+import { serializePrisma } from '@/lib/api/serialize';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const identity = await authenticateApiKey(request);
+    if (!identity) {
+      return errorResponse(
+        'Unauthorized',
+        'Invalid or missing API key. Provide API key via X-API-Key header or Authorization: Bearer <key>',
+        401
+      );
+    }
+
+    const id = Number(params.id);
+    if (!Number.isInteger(id) || id < 1) {
+      return errorResponse('Not found', `Alert ${params.id} not found`, 404);
+    }
+
+    const alert = await resolveAlert(id, identity.tenantId);
+    if (!alert) {
+      return errorResponse('Not found', `No active alert ${params.id}`, 404);
+    }
+
+    await inngest.send({
+      name: 'alerts/alert.deliver',
+      data: { alert_id: alert.id, event: 'resolved' },
+    });
+
+    return successResponse(serializePrisma(alert), 'Alert resolved');
+
+  } catch (error) {
+    logger.error('Error resolving alert', {
+      error: error instanceof Error ? error.message : 'Unknown',
+      stack: error instanceof Error ? error.stack : undefined,
+      id: params.id,
+    });
+
+    return errorResponse(
+      'Internal server error',
+      error instanceof Error ? error.message : 'Unknown error',
+      500
+    );
+  }
+}
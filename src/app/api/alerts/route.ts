@@ -0,0 +1,77 @@
+/**
+ * API endpoint to list alerts
+ * GET /api/alerts
+ *
+ * Query parameters (all optional):
+ * - status: open, acknowledged or resolved
+ * - device: device IMEI
+ * - limit: number of alerts (default 100, max 1000)
+ *
+ * Requires an API key. Tenant keys only see their tenant's alerts.
+ */
+
+import { NextRequest } from 'next/server';
+import { listAlerts } from '@/lib/db';
+import { authenticateApiKey } from '@/lib/validators/api-key-validator';
+import { logger } from '@/lib/logger';
+import { ALERT_QUERY } from '@/lib/constants';
+import { successResponse, errorResponse } from '@/lib/api/response';
+import { serializePrisma } from '@/lib/api/serialize';
+import { parseLimitParam, parseStringParam, QueryParamError } from '@/lib/api/query-params';
+
+const ALERT_STATUSES = ['open', 'acknowledged', 'resolved'];
+
+export async function GET(request: NextRequest) {
+  try {
+    const identity = await authenticateApiKey(request);
+    if (!identity) {
+      return errorResponse(
+        'Unauthorized',
+        'Invalid or missing API key. Provide API key via X-API-Key header or Authorization: Bearer <key>',
+        401
+      );
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const errors: QueryParamError[] = [];
+    const limit = parseLimitParam(
+      searchParams,
+      'limit',
+      { defaultValue: ALERT_QUERY.DEFAULT_LIMIT, max: ALERT_QUERY.MAX_LIMIT },
+      errors
+    );
+
+    const status = parseStringParam(searchParams, 'status');
+    if (status !== undefined && !ALERT_STATUSES.includes(status)) {
+      errors.push({ field: 'status', message: `status must be one of: ${ALERT_STATUSES.join(', ')}` });
+    }
+
+    if (errors.length > 0) {
+      return errorResponse('Invalid query parameters', 'See details for specific errors.', 400, { errors });
+    }
+
+    const alerts = await listAlerts({
+      status,
+      deviceImei: parseStringParam(searchParams, 'device'),
+      tenantId: identity.tenantId,
+      limit,
+    });
+
+    return successResponse({
+      count: alerts.length,
+      alerts: alerts.map(serializePrisma),
+    });
+
+  } catch (error) {
+    logger.error('Error fetching alerts', {
+      error: error instanceof Error ? error.message : 'Unknown',
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+
+    return errorResponse(
+      'Internal server error',
+      error instanceof Error ? error.message : 'Unknown error',
+      500
+    );
+  }
+}
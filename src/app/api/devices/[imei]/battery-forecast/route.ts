@@ -0,0 +1,62 @@
+/**
+ * API endpoint for a device's battery forecast
+ * GET /api/devices/:imei/battery-forecast
+ *
+ * Fits the drain rate on the battery readings since the device last charged (up to 7 days)
+ * and returns the predicted time the battery is empty. When the shipment of the device's
+ * latest location has a planned arrival, the margin to it is returned and devices predicted
+ * to be empty before arrival have status at_risk.
+ * The stored forecast (GET /api/devices) is refreshed with every reading; this endpoint
+ * computes it on request. Requires an API key. Tenant keys only see their tenant's devices.
+ */
+
+import { NextRequest } from 'next/server';
+import { findDeviceLatest, getDeviceBatteryForecast } from '@/lib/db';
+import { authenticateApiKey } from '@/lib/validators/api-key-validator';
+import { logger } from '@/lib/logger';
+import { successResponse, errorResponse } from '@/lib/api/response';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { imei: string } }
+) {
+  try {
+    const identity = await authenticateApiKey(request);
+    if (!identity) {
+      return errorResponse(
+        'Unauthorized',
+        'Invalid or missing API key. Provide API key via X-API-Key header or Authorization: Bearer <key>',
+        401
+      );
+    }
+
+    const deviceImei = params.imei;
+    const device = await findDeviceLatest(deviceImei, identity.tenantId);
+    if (!device) {
+      return errorResponse('Not found', `Device ${deviceImei} not found`, 404);
+    }
+
+    const forecast = await getDeviceBatteryForecast(deviceImei);
+    if (!forecast) {
+      return errorResponse('Not found', `Device ${deviceImei} not found`, 404);
+    }
+
+    return successResponse({
+      ...forecast,
+      batteryEstimation: device.batteryEstimation,
+    });
+
+  } catch (error) {
+    logger.error('Error forecasting device battery', {
+      error: error instanceof Error ? error.message : 'Unknown',
+      stack: error instanceof Error ? error.stack : undefined,
+      imei: params.imei,
+    });
+
+    return errorResponse(
+      'Internal server error',
+      error instanceof Error ? error.message : 'Unknown error',
+      500
+    );
+  }
+}
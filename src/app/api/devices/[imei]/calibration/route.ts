@@ -0,0 +1,153 @@
+/**
+ * API endpoint to read and set the calibration used to derive tilt and box_open
+ * GET /api/devices/:imei/calibration
+ * PUT /api/devices/:imei/calibration
+ *
+ * PUT body, either:
+ * - { "fromLatest": true }: take the light level and accelerometer vector of the device's
+ *   latest reading as the closed-box baseline and the upright orientation
+ * - { "luxBaseline": number | null, "restOrientation": { "x", "y", "z" } | null }: omitted
+ *   fields keep their value, null restores the default
+ *
+ * Calibration applies to readings processed afterwards; stored readings are not re-derived.
+ */
+
+import { NextRequest } from 'next/server';
+import { findDeviceLatest, getDeviceCalibration, setDeviceCalibration } from '@/lib/db';
+import { DeviceCalibration, DEFAULT_REST_ORIENTATION } from '@/lib/transformers/sensor-derivations';
+import { authenticateApiKey } from '@/lib/validators/api-key-validator';
+import { validateCalibrationInput } from '@/lib/validators/calibration-validator';
+import { logger } from '@/lib/logger';
+import { DERIVATION } from '@/lib/constants';
+import { successResponse, errorResponse } from '@/lib/api/response';
+
+const EMPTY_CALIBRATION: DeviceCalibration = { luxBaseline: null, restOrientation: null };
+
+function unauthorized() {
+  return errorResponse(
+    'Unauthorized',
+    'Invalid or missing API key. Provide API key via X-API-Key header or Authorization: Bearer <key>',
+    401
+  );
+}
+
+function calibrationResponse(deviceImei: string, calibration: DeviceCalibration) {
+  return {
+    deviceImei,
+    calibration,
+    defaults: {
+      luxBaseline: DERIVATION.DEFAULT_LUX_BASELINE,
+      restOrientation: DEFAULT_REST_ORIENTATION,
+      boxOpenDeltaLux: DERIVATION.BOX_OPEN_DELTA_LUX,
+      boxClosedDeltaLux: DERIVATION.BOX_CLOSED_DELTA_LUX,
+    },
+  };
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { imei: string } }
+) {
+  try {
+    const identity = await authenticateApiKey(request);
+    if (!identity) {
+      return unauthorized();
+    }
+
+    const deviceImei = params.imei;
+    const device = await findDeviceLatest(deviceImei, identity.tenantId);
+    if (!device) {
+      return errorResponse('Not found', `Device ${deviceImei} not found`, 404);
+    }
+
+    const calibration = await getDeviceCalibration(deviceImei);
+    return successResponse(calibrationResponse(deviceImei, calibration ?? EMPTY_CALIBRATION));
+
+  } catch (error) {
+    logger.error('Error fetching device calibration', {
+      error: error instanceof Error ? error.message : 'Unknown',
+      stack: error instanceof Error ? error.stack : undefined,
+      imei: params.imei,
+    });
+
+    return errorResponse(
+      'Internal server error',
+      error instanceof Error ? error.message : 'Unknown error',
+      500
+    );
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { imei: string } }
+) {
+  try {
+    const identity = await authenticateApiKey(request);
+    if (!identity) {
+      return unauthorized();
+    }
+
+    const deviceImei = params.imei;
+    const device = await findDeviceLatest(deviceImei, identity.tenantId);
+    if (!device) {
+      return errorResponse('Not found', `Device ${deviceImei} not found`, 404);
+    }
+
+    let body: any;
+    try {
+      body = await request.json();
+    } catch (error) {
+      return errorResponse('Invalid JSON', 'Request body must be valid JSON', 400);
+    }
+
+    const validation = validateCalibrationInput(body);
+    if (!validation.valid) {
+      return errorResponse('Validation failed', 'See details for specific errors.', 400, { errors: validation.errors });
+    }
+
+    let calibration: DeviceCalibration;
+    if (validation.fromLatest) {
+      const { lastLightLevel, lastAccelerometerX, lastAccelerometerY, lastAccelerometerZ } = device;
+      if (lastLightLevel === null || lastAccelerometerX === null || lastAccelerometerY === null || lastAccelerometerZ === null) {
+        return errorResponse(
+          'Validation failed',
+          'The latest reading has no light level or accelerometer vector to calibrate from',
+          400
+        );
+      }
+      const latest = validateCalibrationInput({
+        luxBaseline: Number(lastLightLevel),
+        restOrientation: {
+          x: Number(lastAccelerometerX),
+          y: Number(lastAccelerometerY),
+          z: Number(lastAccelerometerZ),
+        },
+      });
+      if (!latest.valid || !latest.calibration) {
+        return errorResponse('Validation failed', 'The latest reading was not taken at rest', 400, { errors: latest.errors });
+      }
+      calibration = latest.calibration as DeviceCalibration;
+    } else {
+      const current = (await getDeviceCalibration(deviceImei)) ?? EMPTY_CALIBRATION;
+      calibration = { ...current, ...validation.calibration };
+    }
+
+    await setDeviceCalibration(deviceImei, calibration);
+
+    return successResponse(calibrationResponse(deviceImei, calibration), 'Calibration stored');
+
+  } catch (error) {
+    logger.error('Error storing device calibration', {
+      error: error instanceof Error ? error.message : 'Unknown',
+      stack: error instanceof Error ? error.stack : undefined,
+      imei: params.imei,
+    });
+
+    return errorResponse(
+      'Internal server error',
+      error instanceof Error ? error.message : 'Unknown error',
+      500
+    );
+  }
+}
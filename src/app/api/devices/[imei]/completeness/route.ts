@@ -0,0 +1,75 @@
+/**
+ * API endpoint for a device's reporting gaps and data completeness
+ * GET /api/devices/:imei/completeness
+ *
+ * Query parameters (all optional):
+ * - from, to: time range (epoch ms or ISO 8601); silences at either end count as gaps
+ * - intervalMinutes: expected reporting interval (default: the device's configured or learned interval)
+ * - gapFactor: longer silences than this many expected intervals are gaps (default 1.5)
+ * - bufferedDelayMinutes: readings arriving later than this were buffered and backfilled (default 30)
+ *
+ * Returns the gaps, the backfilled periods, a timeline and the completeness overall and
+ * per UTC day. Requires an API key. Tenant keys only see their tenant's devices.
+ */
+
+import { NextRequest } from 'next/server';
+import { findDeviceLatest, getDeviceCompleteness } from '@/lib/db';
+import { authenticateApiKey } from '@/lib/validators/api-key-validator';
+import { config } from '@/lib/config';
+import { logger } from '@/lib/logger';
+import { successResponse, errorResponse } from '@/lib/api/response';
+import { QueryParamError } from '@/lib/api/query-params';
+import { parseCompletenessParams } from '@/lib/api/completeness-params';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { imei: string } }
+) {
+  try {
+    const identity = await authenticateApiKey(request);
+    if (!identity) {
+      return errorResponse(
+        'Unauthorized',
+        'Invalid or missing API key. Provide API key via X-API-Key header or Authorization: Bearer <key>',
+        401
+      );
+    }
+
+    const errors: QueryParamError[] = [];
+    const completenessParams = parseCompletenessParams(request.nextUrl.searchParams, errors);
+    if (errors.length > 0) {
+      return errorResponse('Invalid query parameters', 'See details for specific errors.', 400, { errors });
+    }
+
+    const deviceImei = params.imei;
+    const device = await findDeviceLatest(deviceImei, identity.tenantId);
+    if (!device) {
+      return errorResponse('Not found', `Device ${deviceImei} not found`, 404);
+    }
+
+    const result = await getDeviceCompleteness(
+      deviceImei,
+      { ...completenessParams, tenantId: identity.tenantId },
+      config.connectivity
+    );
+
+    return successResponse({
+      ...result,
+      gapFactor: completenessParams.gapFactor,
+      bufferedDelayMinutes: completenessParams.bufferedDelayMs / 60000,
+    });
+
+  } catch (error) {
+    logger.error('Error computing device completeness', {
+      error: error instanceof Error ? error.message : 'Unknown',
+      stack: error instanceof Error ? error.stack : undefined,
+      imei: params.imei,
+    });
+
+    return errorResponse(
+      'Internal server error',
+      error instanceof Error ? error.message : 'Unknown error',
+      500
+    );
+  }
+}
@@ -0,0 +1,140 @@
+/**
+ * API endpoint to read a device's connectivity and configure its expected reporting interval
+ * GET /api/devices/:imei/connectivity
+ * PUT /api/devices/:imei/connectivity
+ *
+ * GET returns the connectivity status (online, late or offline), the expected reporting
+ * interval with its source (configured, learned or default) and the latest transitions.
+ *
+ * PUT body: { "reportingIntervalMinutes": number | null } (null returns to the learned cadence)
+ * The new interval applies from the next scheduled connectivity check.
+ */
+
+import { NextRequest } from 'next/server';
+import {
+  findDeviceLatest,
+  getDeviceReportingInterval,
+  listConnectivityEvents,
+  setDeviceReportingInterval,
+} from '@/lib/db';
+import { resolveExpectedInterval } from '@/lib/analytics/connectivity';
+import { authenticateApiKey } from '@/lib/validators/api-key-validator';
+import { validateReportingIntervalInput } from '@/lib/validators/connectivity-validator';
+import { config } from '@/lib/config';
+import { logger } from '@/lib/logger';
+import { CONNECTIVITY } from '@/lib/constants';
+import { successResponse, errorResponse } from '@/lib/api/response';
+import { serializePrisma } from '@/lib/api/serialize';
+
+function unauthorized() {
+  return errorResponse(
+    'Unauthorized',
+    'Invalid or missing API key. Provide API key via X-API-Key header or Authorization: Bearer <key>',
+    401
+  );
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { imei: string } }
+) {
+  try {
+    const identity = await authenticateApiKey(request);
+    if (!identity) {
+      return unauthorized();
+    }
+
+    const deviceImei = params.imei;
+    const device = await findDeviceLatest(deviceImei, identity.tenantId);
+    if (!device) {
+      return errorResponse('Not found', `Device ${deviceImei} not found`, 404);
+    }
+
+    const [configuredMinutes, events] = await Promise.all([
+      getDeviceReportingInterval(deviceImei),
+      listConnectivityEvents({ deviceImei, limit: CONNECTIVITY.EVENTS_LIMIT }),
+    ]);
+    const expected = resolveExpectedInterval(
+      configuredMinutes !== null ? configuredMinutes * 60000 : null,
+      device.reportingIntervalMs,
+      config.connectivity
+    );
+
+    return successResponse({
+      deviceImei,
+      status: device.connectivityStatus,
+      sinceTs: device.connectivitySinceTs !== null ? Number(device.connectivitySinceTs) : null,
+      lastTs: Number(device.lastTs),
+      reportingInterval: {
+        configuredMinutes,
+        learnedMs: device.reportingIntervalMs,
+        expectedMs: expected.intervalMs,
+        source: expected.source,
+      },
+      events: serializePrisma(events),
+    });
+
+  } catch (error) {
+    logger.error('Error fetching device connectivity', {
+      error: error instanceof Error ? error.message : 'Unknown',
+      stack: error instanceof Error ? error.stack : undefined,
+      imei: params.imei,
+    });
+
+    return errorResponse(
+      'Internal server error',
+      error instanceof Error ? error.message : 'Unknown error',
+      500
+    );
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { imei: string } }
+) {
+  try {
+    const identity = await authenticateApiKey(request);
+    if (!identity) {
+      return unauthorized();
+    }
+
+    const deviceImei = params.imei;
+    const device = await findDeviceLatest(deviceImei, identity.tenantId);
+    if (!device) {
+      return errorResponse('Not found', `Device ${deviceImei} not found`, 404);
+    }
+
+    let body: any;
+    try {
+      body = await request.json();
+    } catch (error) {
+      return errorResponse('Invalid JSON', 'Request body must be valid JSON', 400);
+    }
+
+    const validation = validateReportingIntervalInput(body);
+    if (!validation.valid || validation.minutes === undefined) {
+      return errorResponse('Validation failed', 'See details for specific errors.', 400, { errors: validation.errors });
+    }
+
+    await setDeviceReportingInterval(deviceImei, validation.minutes);
+
+    return successResponse(
+      { deviceImei, reportingIntervalMinutes: validation.minutes },
+      'Reporting interval set'
+    );
+
+  } catch (error) {
+    logger.error('Error setting device reporting interval', {
+      error: error instanceof Error ? error.message : 'Unknown',
+      stack: error instanceof Error ? error.stack : undefined,
+      imei: params.imei,
+    });
+
+    return errorResponse(
+      'Internal server error',
+      error instanceof Error ? error.message : 'Unknown error',
+      500
+    );
+  }
+}
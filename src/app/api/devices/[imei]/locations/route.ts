@@ -0,0 +1,100 @@
+/**
+ * API endpoint to read a device's location history
+ * GET /api/devices/:imei/locations
+ *
+ * Query parameters (all optional):
+ * - from, to: time range (epoch ms or ISO 8601), inclusive
+ * - order: asc or desc (default desc, newest first)
+ * - limit: locations per page (default 500, max 5000)
+ * - cursor: nextCursor of the previous page
+ * - fields: comma-separated columns to return (default all); id and ts are always returned
+ *
+ * Requires an API key. Tenant keys only see their tenant's devices.
+ */
+
+import { NextRequest } from 'next/server';
+import { findDeviceLatest, getLocationHistory, LOCATION_HISTORY_FIELDS } from '@/lib/db';
+import { authenticateApiKey } from '@/lib/validators/api-key-validator';
+import { logger } from '@/lib/logger';
+import { HISTORY_QUERY } from '@/lib/constants';
+import { successResponse, errorResponse } from '@/lib/api/response';
+import { serializePrisma } from '@/lib/api/serialize';
+import {
+  encodeCursor,
+  parseCursorParam,
+  parseFieldsParam,
+  parseLimitParam,
+  parseOrderParam,
+  parseTimeParam,
+  QueryParamError,
+} from '@/lib/api/query-params';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { imei: string } }
+) {
+  try {
+    const identity = await authenticateApiKey(request);
+    if (!identity) {
+      return errorResponse(
+        'Unauthorized',
+        'Invalid or missing API key. Provide API key via X-API-Key header or Authorization: Bearer <key>',
+        401
+      );
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const errors: QueryParamError[] = [];
+    const from = parseTimeParam(searchParams, 'from', errors);
+    const to = parseTimeParam(searchParams, 'to', errors);
+    const order = parseOrderParam(searchParams, 'order', 'desc', errors);
+    const cursor = parseCursorParam(searchParams, 'cursor', errors);
+    const fields = parseFieldsParam(searchParams, 'fields', LOCATION_HISTORY_FIELDS, errors);
+    const limit = parseLimitParam(
+      searchParams,
+      'limit',
+      { defaultValue: HISTORY_QUERY.DEFAULT_LIMIT, max: HISTORY_QUERY.MAX_LIMIT },
+      errors
+    );
+
+    if (errors.length > 0) {
+      return errorResponse('Invalid query parameters', 'See details for specific errors.', 400, { errors });
+    }
+
+    const deviceImei = params.imei;
+    const device = await findDeviceLatest(deviceImei, identity.tenantId);
+    if (!device) {
+      return errorResponse('Not found', `Device ${deviceImei} not found`, 404);
+    }
+
+    const page = await getLocationHistory({
+      deviceImei,
+      tenantId: identity.tenantId,
+      from,
+      to,
+      cursor,
+      order,
+      limit,
+      fields,
+    });
+
+    return successResponse({
+      deviceImei,
+      count: page.items.length,
+      locations: page.items.map(serializePrisma),
+      nextCursor: page.nextCursor ? encodeCursor(page.nextCursor) : null,
+    });
+
+  } catch (error) {
+    logger.error('Error fetching location history', {
+      error: error instanceof Error ? error.message : 'Unknown',
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+
+    return errorResponse(
+      'Internal server error',
+      error instanceof Error ? error.message : 'Unknown error',
+      500
+    );
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * API endpoint for a device's stops
+ * GET /api/devices/:imei/stops
+ *
+ * Query parameters (all optional):
+ * - from, to: time range (epoch ms or ISO 8601)
+ * - radiusMeters: locations within this distance of the stop centroid, widened by their
+ *   accuracy, belong to the stop (default 150, max 10000)
+ * - minDurationMinutes: shorter clusters are not stops (default 15)
+ * - activationEnergy, maxGapMinutes: as for temperature-stats, applied to each stop
+ *
+ * Returns the stops oldest first with centroid, start, end, duration and the temperature
+ * statistics while stopped, with locationsTruncated and readingsTruncated set when more
+ * locations or readings matched than are evaluated.
+ * Requires an API key. Tenant keys only see their tenant's devices.
+ */
+
+import { NextRequest } from 'next/server';
+import { findDeviceLatest, getDeviceStops } from '@/lib/db';
+import { authenticateApiKey } from '@/lib/validators/api-key-validator';
+import { logger } from '@/lib/logger';
+import { STOP } from '@/lib/constants';
+import { successResponse, errorResponse } from '@/lib/api/response';
+import { serializePrisma } from '@/lib/api/serialize';
+import { QueryParamError } from '@/lib/api/query-params';
+import { parseStabilityParams } from '@/lib/api/stability-params';
+
+function parsePositiveIntParam(
+  params: URLSearchParams,
+  name: string,
+  defaultValue: number,
+  max: number,
+  errors: QueryParamError[]
+): number {
+  const raw = params.get(name)?.trim();
+  if (!raw) return defaultValue;
+
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 1 || value > max) {
+    errors.push({ field: name, message: `${name} must be an integer between 1 and ${max}` });
+    return defaultValue;
+  }
+  return value;
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { imei: string } }
+) {
+  try {
+    const identity = await authenticateApiKey(request);
+    if (!identity) {
+      return errorResponse(
+        'Unauthorized',
+        'Invalid or missing API key. Provide API key via X-API-Key header or Authorization: Bearer <key>',
+        401
+      );
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const errors: QueryParamError[] = [];
+    const stabilityParams = parseStabilityParams(searchParams, errors);
+    const radiusMeters = parsePositiveIntParam(
+      searchParams, 'radiusMeters', STOP.DEFAULT_RADIUS_METERS, STOP.MAX_RADIUS_METERS, errors
+    );
+    const minDurationMinutes = parsePositiveIntParam(
+      searchParams, 'minDurationMinutes', STOP.DEFAULT_MIN_DURATION_MINUTES, 7 * 24 * 60, errors
+    );
+    if (errors.length > 0) {
+      return errorResponse('Invalid query parameters', 'See details for specific errors.', 400, { errors });
+    }
+
+    const deviceImei = params.imei;
+    const device = await findDeviceLatest(deviceImei, identity.tenantId);
+    if (!device) {
+      return errorResponse('Not found', `Device ${deviceImei} not found`, 404);
+    }
+
+    const result = await getDeviceStops(deviceImei, {
+      ...stabilityParams,
+      tenantId: identity.tenantId,
+      radiusMeters,
+      minDurationMs: minDurationMinutes * 60000,
+    });
+
+    return successResponse({
+      ...serializePrisma(result),
+      count: result.stops.length,
+      radiusMeters,
+      minDurationMinutes,
+    });
+
+  } catch (error) {
+    logger.error('Error detecting device stops', {
+      error: error instanceof Error ? error.message : 'Unknown',
+      stack: error instanceof Error ? error.stack : undefined,
+      imei: params.imei,
+    });
+
+    return errorResponse(
+      'Internal server error',
+      error instanceof Error ? error.message : 'Unknown error',
+      500
+    );
+  }
+}
@@ -0,0 +1,181 @@
+/**
+ * API endpoint to read a device's telemetry history
+ * GET /api/devices/:imei/telemetry
+ *
+ * Query parameters (all optional):
+ * - from, to: time range (epoch ms or ISO 8601), inclusive
+ * - order: asc or desc (default desc, newest first)
+ * - limit: readings per page (default 500, max 5000)
+ * - cursor: nextCursor of the previous page
+ * - fields: comma-separated columns to return (default all); id and ts are always returned
+ *
+ * Instead of raw readings, one of:
+ * - interval: 1m, 5m, 1h or 1d; returns min/max/avg/last per bucket for temperature (ambient),
+ *   probeTemperature, humidity, lightLevel and accelerometerMagnitude, oldest first
+ *   (limit = buckets, aggregated in SQL), with the device's primary temperatureChannel.
+ *   Pass nextFrom as `from` for the following buckets.
+ * - downsample: maximum number of points; returns the `metric` series (default temperature)
+ *   reduced with LTTB, oldest first; truncated is set when the series had more readings than
+ *   are reduced at once
+ *
+ * Requires an API key. Tenant keys only see their tenant's devices.
+ */
+
+import { NextRequest } from 'next/server';
+import {
+  findDeviceLatest,
+  getTelemetryHistory,
+  aggregateTelemetryHistory,
+  getTelemetryMetricSeries,
+  getDeviceTemperatureChannel,
+  TELEMETRY_HISTORY_FIELDS,
+  TELEMETRY_METRICS,
+  TelemetryMetric,
+} from '@/lib/db';
+import { downsampleLttb } from '@/lib/analytics/downsample';
+import { authenticateApiKey } from '@/lib/validators/api-key-validator';
+import { logger } from '@/lib/logger';
+import { HISTORY_QUERY, HISTORY_INTERVALS } from '@/lib/constants';
+import { successResponse, errorResponse } from '@/lib/api/response';
+import { serializePrisma } from '@/lib/api/serialize';
+import {
+  encodeCursor,
+  parseCursorParam,
+  parseFieldsParam,
+  parseLimitParam,
+  parseOrderParam,
+  parseStringParam,
+  parseTimeParam,
+  QueryParamError,
+} from '@/lib/api/query-params';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { imei: string } }
+) {
+  try {
+    const identity = await authenticateApiKey(request);
+    if (!identity) {
+      return errorResponse(
+        'Unauthorized',
+        'Invalid or missing API key. Provide API key via X-API-Key header or Authorization: Bearer <key>',
+        401
+      );
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const errors: QueryParamError[] = [];
+    const from = parseTimeParam(searchParams, 'from', errors);
+    const to = parseTimeParam(searchParams, 'to', errors);
+    const order = parseOrderParam(searchParams, 'order', 'desc', errors);
+    const cursor = parseCursorParam(searchParams, 'cursor', errors);
+    const fields = parseFieldsParam(searchParams, 'fields', TELEMETRY_HISTORY_FIELDS, errors);
+    const limit = parseLimitParam(
+      searchParams,
+      'limit',
+      { defaultValue: HISTORY_QUERY.DEFAULT_LIMIT, max: HISTORY_QUERY.MAX_LIMIT },
+      errors
+    );
+
+    const interval = parseStringParam(searchParams, 'interval');
+    if (interval !== undefined && !Object.keys(HISTORY_INTERVALS).includes(interval)) {
+      errors.push({ field: 'interval', message: `interval must be one of ${Object.keys(HISTORY_INTERVALS).join(', ')}` });
+    }
+
+    const downsample = searchParams.has('downsample')
+      ? parseLimitParam(searchParams, 'downsample', { defaultValue: HISTORY_QUERY.MAX_LIMIT, max: HISTORY_QUERY.MAX_LIMIT }, errors)
+      : undefined;
+    const metric = (parseStringParam(searchParams, 'metric') ?? 'temperature') as TelemetryMetric;
+    if (!TELEMETRY_METRICS.includes(metric)) {
+      errors.push({ field: 'metric', message: `metric must be one of ${TELEMETRY_METRICS.join(', ')}` });
+    }
+
+    if (interval !== undefined && downsample !== undefined) {
+      errors.push({ field: 'downsample', message: 'interval and downsample cannot be combined' });
+    }
+    if ((interval !== undefined || downsample !== undefined) && cursor !== undefined) {
+      errors.push({ field: 'cursor', message: 'cursor only applies to raw readings' });
+    }
+
+    if (errors.length > 0) {
+      return errorResponse('Invalid query parameters', 'See details for specific errors.', 400, { errors });
+    }
+
+    const deviceImei = params.imei;
+    const device = await findDeviceLatest(deviceImei, identity.tenantId);
+    if (!device) {
+      return errorResponse('Not found', `Device ${deviceImei} not found`, 404);
+    }
+
+    if (interval !== undefined) {
+      const [page, temperatureChannel] = await Promise.all([
+        aggregateTelemetryHistory({
+          deviceImei,
+          tenantId: identity.tenantId,
+          from,
+          to,
+          intervalMs: HISTORY_INTERVALS[interval as keyof typeof HISTORY_INTERVALS],
+          limit,
+        }),
+        getDeviceTemperatureChannel(deviceImei),
+      ]);
+
+      return successResponse({
+        deviceImei,
+        interval,
+        temperatureChannel,
+        count: page.buckets.length,
+        buckets: page.buckets,
+        nextFrom: page.nextFrom,
+      });
+    }
+
+    if (downsample !== undefined) {
+      const { series, truncated } = await getTelemetryMetricSeries(
+        { deviceImei, tenantId: identity.tenantId, from, to },
+        metric,
+        HISTORY_QUERY.MAX_DOWNSAMPLE_SOURCE_ROWS
+      );
+      const points = downsampleLttb(series, downsample);
+
+      return successResponse({
+        deviceImei,
+        metric,
+        sourceCount: series.length,
+        truncated,
+        count: points.length,
+        points,
+      });
+    }
+
+    const page = await getTelemetryHistory({
+      deviceImei,
+      tenantId: identity.tenantId,
+      from,
+      to,
+      cursor,
+      order,
+      limit,
+      fields,
+    });
+
+    return successResponse({
+      deviceImei,
+      count: page.items.length,
+      telemetry: page.items.map(serializePrisma),
+      nextCursor: page.nextCursor ? encodeCursor(page.nextCursor) : null,
+    });
+
+  } catch (error) {
+    logger.error('Error fetching telemetry history', {
+      error: error instanceof Error ? error.message : 'Unknown',
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+
+    return errorResponse(
+      'Internal server error',
+      error instanceof Error ? error.message : 'Unknown error',
+      500
+    );
+  }
+}
@@ -0,0 +1,112 @@
+/**
+ * API endpoint to read and set a device's primary temperature channel
+ * GET /api/devices/:imei/temperature-channel
+ * PUT /api/devices/:imei/temperature-channel
+ *
+ * PUT body: { "channel": "ambient" | "probe" }
+ * The primary channel is what the device's badge, profile thresholds, excursions, temperature
+ * statistics and temperature alerts use. The device's excursions are recomputed asynchronously
+ * from the new channel.
+ */
+
+import { NextRequest } from 'next/server';
+import { findDeviceLatest, getDeviceTemperatureChannel, setDeviceTemperatureChannel } from '@/lib/db';
+import { inngest } from '@/lib/inngest/client';
+import { authenticateApiKey } from '@/lib/validators/api-key-validator';
+import { validateChannelAssignment } from '@/lib/validators/temperature-profile-validator';
+import { logger } from '@/lib/logger';
+import { successResponse, errorResponse } from '@/lib/api/response';
+
+function unauthorized() {
+  return errorResponse(
+    'Unauthorized',
+    'Invalid or missing API key. Provide API key via X-API-Key header or Authorization: Bearer <key>',
+    401
+  );
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { imei: string } }
+) {
+  try {
+    const identity = await authenticateApiKey(request);
+    if (!identity) {
+      return unauthorized();
+    }
+
+    const deviceImei = params.imei;
+    const device = await findDeviceLatest(deviceImei, identity.tenantId);
+    if (!device) {
+      return errorResponse('Not found', `Device ${deviceImei} not found`, 404);
+    }
+
+    const channel = await getDeviceTemperatureChannel(deviceImei);
+    return successResponse({ deviceImei, channel });
+
+  } catch (error) {
+    logger.error('Error fetching device temperature channel', {
+      error: error instanceof Error ? error.message : 'Unknown',
+      stack: error instanceof Error ? error.stack : undefined,
+      imei: params.imei,
+    });
+
+    return errorResponse(
+      'Internal server error',
+      error instanceof Error ? error.message : 'Unknown error',
+      500
+    );
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { imei: string } }
+) {
+  try {
+    const identity = await authenticateApiKey(request);
+    if (!identity) {
+      return unauthorized();
+    }
+
+    const deviceImei = params.imei;
+    const device = await findDeviceLatest(deviceImei, identity.tenantId);
+    if (!device) {
+      return errorResponse('Not found', `Device ${deviceImei} not found`, 404);
+    }
+
+    let body: any;
+    try {
+      body = await request.json();
+    } catch (error) {
+      return errorResponse('Invalid JSON', 'Request body must be valid JSON', 400);
+    }
+
+    const validation = validateChannelAssignment(body);
+    if (!validation.valid || !validation.channel) {
+      return errorResponse('Validation failed', 'See details for specific errors.', 400, { errors: validation.errors });
+    }
+
+    await setDeviceTemperatureChannel(deviceImei, validation.channel);
+
+    await inngest.send({
+      name: 'temperature/excursions.recompute',
+      data: { device_imei: deviceImei },
+    });
+
+    return successResponse({ deviceImei, channel: validation.channel }, 'Temperature channel set');
+
+  } catch (error) {
+    logger.error('Error setting device temperature channel', {
+      error: error instanceof Error ? error.message : 'Unknown',
+      stack: error instanceof Error ? error.stack : undefined,
+      imei: params.imei,
+    });
+
+    return errorResponse(
+      'Internal server error',
+      error instanceof Error ? error.message : 'Unknown error',
+      500
+    );
+  }
+}
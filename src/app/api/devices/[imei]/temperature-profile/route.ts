@@ -0,0 +1,77 @@
+/**
+ * API endpoint to assign a temperature profile to a device
+ * PUT /api/devices/:imei/temperature-profile
+ *
+ * Body: { "profileId": number | null } (null removes the assignment)
+ * The device's excursions are recomputed asynchronously with the new profile.
+ * A shipment's own profile still takes precedence for readings on that shipment.
+ */
+
+import { NextRequest } from 'next/server';
+import { findDeviceLatest, findTemperatureProfile, setDeviceTemperatureProfile } from '@/lib/db';
+import { inngest } from '@/lib/inngest/client';
+import { authenticateApiKey } from '@/lib/validators/api-key-validator';
+import { validateProfileAssignment } from '@/lib/validators/temperature-profile-validator';
+import { logger } from '@/lib/logger';
+import { successResponse, errorResponse } from '@/lib/api/response';
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { imei: string } }
+) {
+  try {
+    const identity = await authenticateApiKey(request);
+    if (!identity) {
+      return errorResponse(
+        'Unauthorized',
+        'Invalid or missing API key. Provide API key via X-API-Key header or Authorization: Bearer <key>',
+        401
+      );
+    }
+
+    const deviceImei = params.imei;
+    const device = await findDeviceLatest(deviceImei, identity.tenantId);
+    if (!device) {
+      return errorResponse('Not found', `Device ${deviceImei} not found`, 404);
+    }
+
+    let body: any;
+    try {
+      body = await request.json();
+    } catch (error) {
+      return errorResponse('Invalid JSON', 'Request body must be valid JSON', 400);
+    }
+
+    const validation = validateProfileAssignment(body);
+    if (!validation.valid || validation.profileId === undefined) {
+      return errorResponse('Validation failed', 'See details for specific errors.', 400, { errors: validation.errors });
+    }
+
+    const profileId = validation.profileId;
+    if (profileId !== null && !(await findTemperatureProfile(profileId, identity.tenantId))) {
+      return errorResponse('Not found', `Temperature profile ${profileId} not found`, 404);
+    }
+
+    await setDeviceTemperatureProfile(deviceImei, profileId);
+
+    await inngest.send({
+      name: 'temperature/excursions.recompute',
+      data: { device_imei: deviceImei },
+    });
+
+    return successResponse({ deviceImei, profileId }, 'Temperature profile assigned');
+
+  } catch (error) {
+    logger.error('Error assigning device temperature profile', {
+      error: error instanceof Error ? error.message : 'Unknown',
+      stack: error instanceof Error ? error.stack : undefined,
+      imei: params.imei,
+    });
+
+    return errorResponse(
+      'Internal server error',
+      error instanceof Error ? error.message : 'Unknown error',
+      500
+    );
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * API endpoint for a device's temperature statistics
+ * GET /api/devices/:imei/temperature-stats
+ *
+ * Query parameters (all optional):
+ * - from, to: time range (epoch ms or ISO 8601); silences at either end count as gaps
+ * - activationEnergy: ΔH for Mean Kinetic Temperature in kJ/mol (default 83.144)
+ * - maxGapMinutes: longer intervals between readings are data gaps (default 60)
+ *
+ * Returns MKT, time in/above/below the device's temperature profile, data gaps and
+ * the remaining stability budget. Requires an API key. Tenant keys only see their tenant's devices.
+ */
+
+import { NextRequest } from 'next/server';
+import { findDeviceLatest, getDeviceTemperatureStats } from '@/lib/db';
+import { authenticateApiKey } from '@/lib/validators/api-key-validator';
+import { logger } from '@/lib/logger';
+import { successResponse, errorResponse } from '@/lib/api/response';
+import { serializePrisma } from '@/lib/api/serialize';
+import { QueryParamError } from '@/lib/api/query-params';
+import { parseStabilityParams } from '@/lib/api/stability-params';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { imei: string } }
+) {
+  try {
+    const identity = await authenticateApiKey(request);
+    if (!identity) {
+      return errorResponse(
+        'Unauthorized',
+        'Invalid or missing API key. Provide API key via X-API-Key header or Authorization: Bearer <key>',
+        401
+      );
+    }
+
+    const errors: QueryParamError[] = [];
+    const stabilityParams = parseStabilityParams(request.nextUrl.searchParams, errors);
+    if (errors.length > 0) {
+      return errorResponse('Invalid query parameters', 'See details for specific errors.', 400, { errors });
+    }
+
+    const deviceImei = params.imei;
+    const device = await findDeviceLatest(deviceImei, identity.tenantId);
+    if (!device) {
+      return errorResponse('Not found', `Device ${deviceImei} not found`, 404);
+    }
+
+    const result = await getDeviceTemperatureStats(deviceImei, {
+      ...stabilityParams,
+      tenantId: identity.tenantId,
+    });
+
+    return successResponse({
+      ...serializePrisma(result),
+      activationEnergy: stabilityParams.activationEnergyKjPerMol,
+      maxGapMinutes: stabilityParams.maxGapMs / 60000,
+    });
+
+  } catch (error) {
+    logger.error('Error computing device temperature statistics', {
+      error: error instanceof Error ? error.message : 'Unknown',
+      stack: error instanceof Error ? error.stack : undefined,
+      imei: params.imei,
+    });
+
+    return errorResponse(
+      'Internal server error',
+      error instanceof Error ? error.message : 'Unknown error',
+      500
+    );
+  }
+}
@@ -1,48 +1,63 @@
 /**
  * API endpoint to fetch latest device states from device_latest table
  * GET /api/devices
+ *
+ * Requires an API key. Tenant keys only see their tenant's devices;
+ * the global API_KEY sees all devices.
+ * Each device includes its assigned temperature profile (null when none) and its primary
+ * temperature channel (ambient or probe).
+ *
+ * Query parameters (all optional):
+ * - limit: number of devices (default 100)
+ * - connectivity: online, late or offline (only devices with that connectivity status)
  */
 
 import { NextRequest } from 'next/server';
-import { getDeviceLatestList } from '@/lib/db';
+import { getDeviceLatestList, getDeviceTemperatureChannels, getDeviceTemperatureProfiles } from '@/lib/db';
+import { DEFAULT_TEMPERATURE_CHANNEL } from '@/lib/analytics/temperature-channels';
+import { CONNECTIVITY_STATUSES, ConnectivityStatus } from '@/lib/analytics/connectivity';
+import { authenticateApiKey } from '@/lib/validators/api-key-validator';
 import { logger } from '@/lib/logger';
 import { successResponse, errorResponse } from '@/lib/api/response';
-import { Prisma } from '@prisma/client';
-
-// Type automatically generated from Prisma schema - no manual updates needed!
-type DeviceLatest = Prisma.DeviceLatestGetPayload<{}>;
-
-/**
- * Serialize Prisma entities for JSON response
- * Only handles type conversion needed for JSON serialization (Decimal, BigInt)
- * Returns entities as-is (camelCase) - frontend handles the rest
- */
-function serializeDevice(device: DeviceLatest): any {
-  return JSON.parse(
-    JSON.stringify(device, (_, value) => {
-      // Convert Prisma Decimal to number
-      if (value && typeof value === 'object' && 'toNumber' in value && typeof value.toNumber === 'function') {
-        return value.toNumber();
-      }
-      // Convert BigInt to number
-      if (typeof value === 'bigint') {
-        return Number(value);
-      }
-      return value;
-    })
-  );
-}
+import { serializePrisma } from '@/lib/api/serialize';
+import { parseStringParam, QueryParamError } from '@/lib/api/query-params';
 
 export async function GET(request: NextRequest) {
   try {
+    const identity = await authenticateApiKey(request);
+    if (!identity) {
+      return errorResponse(
+        'Unauthorized',
+        'Invalid or missing API key. Provide API key via X-API-Key header or Authorization: Bearer <key>',
+        401
+      );
+    }
+
     const searchParams = request.nextUrl.searchParams;
     const limit = parseInt(searchParams.get('limit') || '100', 10);
 
-    const devices = await getDeviceLatestList(limit);
+    const connectivity = parseStringParam(searchParams, 'connectivity') as ConnectivityStatus | undefined;
+    if (connectivity !== undefined && !CONNECTIVITY_STATUSES.includes(connectivity)) {
+      const errors: QueryParamError[] = [
+        { field: 'connectivity', message: `connectivity must be one of ${CONNECTIVITY_STATUSES.join(', ')}` },
+      ];
+      return errorResponse('Invalid query parameters', 'See details for specific errors.', 400, { errors });
+    }
+
+    const devices = await getDeviceLatestList(limit, identity.tenantId, connectivity);
+    const deviceImeis = devices.map((device) => device.deviceImei);
+    const [profiles, channels] = await Promise.all([
+      getDeviceTemperatureProfiles(deviceImeis),
+      getDeviceTemperatureChannels(deviceImeis),
+    ]);
 
     return successResponse({
       count: devices.length,
-      devices: devices.map(serializeDevice),
+      devices: devices.map((device) => ({
+        ...serializePrisma(device),
+        temperatureProfile: serializePrisma(profiles.get(device.deviceImei) ?? null),
+        temperatureChannel: channels.get(device.deviceImei) ?? DEFAULT_TEMPERATURE_CHANNEL,
+      })),
     });
 
   } catch (error) {
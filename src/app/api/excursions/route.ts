@@ -0,0 +1,87 @@
+/**
+ * API endpoint to list temperature excursions
+ * GET /api/excursions
+ *
+ * Query parameters (all optional):
+ * - device: device IMEI
+ * - shipment: Tive shipment id, PublicShipmentId or database id
+ * - status: open or closed
+ * - limit: number of excursions (default 100, max 1000)
+ *
+ * Requires an API key. Tenant keys only see their tenant's excursions.
+ */
+
+import { NextRequest } from 'next/server';
+import { findShipment, listTemperatureExcursions } from '@/lib/db';
+import { authenticateApiKey } from '@/lib/validators/api-key-validator';
+import { logger } from '@/lib/logger';
+import { EXCURSION_QUERY } from '@/lib/constants';
+import { successResponse, errorResponse } from '@/lib/api/response';
+import { serializePrisma } from '@/lib/api/serialize';
+import { parseLimitParam, parseStringParam, QueryParamError } from '@/lib/api/query-params';
+
+export async function GET(request: NextRequest) {
+  try {
+    const identity = await authenticateApiKey(request);
+    if (!identity) {
+      return errorResponse(
+        'Unauthorized',
+        'Invalid or missing API key. Provide API key via X-API-Key header or Authorization: Bearer <key>',
+        401
+      );
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const errors: QueryParamError[] = [];
+    const limit = parseLimitParam(
+      searchParams,
+      'limit',
+      { defaultValue: EXCURSION_QUERY.DEFAULT_LIMIT, max: EXCURSION_QUERY.MAX_LIMIT },
+      errors
+    );
+
+    const status = parseStringParam(searchParams, 'status');
+    if (status !== undefined && status !== 'open' && status !== 'closed') {
+      errors.push({ field: 'status', message: 'status must be open or closed' });
+    }
+
+    if (errors.length > 0) {
+      return errorResponse('Invalid query parameters', 'See details for specific errors.', 400, { errors });
+    }
+
+    let shipmentId: number | undefined;
+    const shipmentIdentifier = parseStringParam(searchParams, 'shipment');
+    if (shipmentIdentifier) {
+      const shipment = await findShipment(shipmentIdentifier, identity.tenantId);
+      if (!shipment) {
+        return errorResponse('Not found', `Shipment ${shipmentIdentifier} not found`, 404);
+      }
+      shipmentId = shipment.id;
+    }
+
+    const excursions = await listTemperatureExcursions({
+      deviceImei: parseStringParam(searchParams, 'device'),
+      shipmentId,
+      open: status === undefined ? undefined : status === 'open',
+      tenantId: identity.tenantId,
+      limit,
+    });
+
+    return successResponse({
+      count: excursions.length,
+      excursions: excursions.map(serializePrisma),
+    });
+
+  } catch (error) {
+    logger.error('Error fetching temperature excursions', {
+      error: error instanceof Error ? error.message : 'Unknown',
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+
+    return errorResponse(
+      'Internal server error',
+      error instanceof Error ? error.message : 'Unknown error',
+      500
+    );
+  }
+}
@@ -0,0 +1,103 @@
+/**
+ * API endpoint to list geofence enter, exit and dwell events
+ * GET /api/geofence-events
+ *
+ * Query parameters (all optional):
+ * - device: device IMEI
+ * - shipment: Tive shipment id, PublicShipmentId or database id
+ * - geofence: geofence id
+ * - type: enter, exit or dwell
+ * - from, to: event time range (epoch ms or ISO 8601), inclusive
+ * - limit: number of events (default 100, max 1000)
+ *
+ * Requires an API key. Tenant keys only see their tenant's events.
+ */
+
+import { NextRequest } from 'next/server';
+import { findShipment, listGeofenceEvents } from '@/lib/db';
+import { GeofenceEventType } from '@/lib/analytics/geofences';
+import { authenticateApiKey } from '@/lib/validators/api-key-validator';
+import { logger } from '@/lib/logger';
+import { GEOFENCE_QUERY } from '@/lib/constants';
+import { successResponse, errorResponse } from '@/lib/api/response';
+import { serializePrisma } from '@/lib/api/serialize';
+import { parseLimitParam, parseStringParam, parseTimeParam, QueryParamError } from '@/lib/api/query-params';
+
+const EVENT_TYPES: GeofenceEventType[] = ['enter', 'exit', 'dwell'];
+
+export async function GET(request: NextRequest) {
+  try {
+    const identity = await authenticateApiKey(request);
+    if (!identity) {
+      return errorResponse(
+        'Unauthorized',
+        'Invalid or missing API key. Provide API key via X-API-Key header or Authorization: Bearer <key>',
+        401
+      );
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const errors: QueryParamError[] = [];
+    const from = parseTimeParam(searchParams, 'from', errors);
+    const to = parseTimeParam(searchParams, 'to', errors);
+    const limit = parseLimitParam(
+      searchParams,
+      'limit',
+      { defaultValue: GEOFENCE_QUERY.DEFAULT_LIMIT, max: GEOFENCE_QUERY.MAX_LIMIT },
+      errors
+    );
+
+    const type = parseStringParam(searchParams, 'type') as GeofenceEventType | undefined;
+    if (type !== undefined && !EVENT_TYPES.includes(type)) {
+      errors.push({ field: 'type', message: `type must be one of ${EVENT_TYPES.join(', ')}` });
+    }
+
+    const geofenceParam = parseStringParam(searchParams, 'geofence');
+    const geofenceId = geofenceParam !== undefined ? Number(geofenceParam) : undefined;
+    if (geofenceId !== undefined && (!Number.isInteger(geofenceId) || geofenceId < 1)) {
+      errors.push({ field: 'geofence', message: 'geofence must be a positive integer' });
+    }
+
+    if (errors.length > 0) {
+      return errorResponse('Invalid query parameters', 'See details for specific errors.', 400, { errors });
+    }
+
+    let shipmentId: number | undefined;
+    const shipmentIdentifier = parseStringParam(searchParams, 'shipment');
+    if (shipmentIdentifier) {
+      const shipment = await findShipment(shipmentIdentifier, identity.tenantId);
+      if (!shipment) {
+        return errorResponse('Not found', `Shipment ${shipmentIdentifier} not found`, 404);
+      }
+      shipmentId = shipment.id;
+    }
+
+    const events = await listGeofenceEvents({
+      geofenceId,
+      deviceImei: parseStringParam(searchParams, 'device'),
+      shipmentId,
+      type,
+      from,
+      to,
+      tenantId: identity.tenantId,
+      limit,
+    });
+
+    return successResponse({
+      count: events.length,
+      geofenceEvents: events.map(serializePrisma),
+    });
+
+  } catch (error) {
+    logger.error('Error fetching geofence events', {
+      error: error instanceof Error ? error.message : 'Unknown',
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+
+    return errorResponse(
+      'Internal server error',
+      error instanceof Error ? error.message : 'Unknown error',
+      500
+    );
+  }
+}
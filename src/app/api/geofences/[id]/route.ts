@@ -0,0 +1,60 @@
+/**
+ * API endpoint to delete a geofence
+ * DELETE /api/geofences/:id
+ *
+ * Removes the geofence with its events. Tenant keys can only delete their own geofences.
+ * Origin and destination geofences follow their shipment's coordinates and cannot be deleted.
+ */
+
+import { NextRequest } from 'next/server';
+import { deleteGeofence, findGeofence } from '@/lib/db';
+import { authenticateApiKey } from '@/lib/validators/api-key-validator';
+import { logger } from '@/lib/logger';
+import { successResponse, errorResponse } from '@/lib/api/response';
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const identity = await authenticateApiKey(request);
+    if (!identity) {
+      return errorResponse(
+        'Unauthorized',
+        'Invalid or missing API key. Provide API key via X-API-Key header or Authorization: Bearer <key>',
+        401
+      );
+    }
+
+    const id = Number(params.id);
+    if (!Number.isInteger(id) || id < 1) {
+      return errorResponse('Not found', `Geofence ${params.id} not found`, 404);
+    }
+
+    const geofence = await findGeofence(id, identity.tenantId);
+    if (!geofence || (identity.tenantId != null && geofence.tenantId !== identity.tenantId)) {
+      return errorResponse('Not found', `Geofence ${params.id} not found`, 404);
+    }
+
+    if (geofence.shipmentId !== null) {
+      return errorResponse('Conflict', `Geofence ${params.id} is the ${geofence.role} of a shipment and cannot be deleted`, 409);
+    }
+
+    await deleteGeofence(id);
+
+    return successResponse({ id }, 'Geofence deleted');
+
+  } catch (error) {
+    logger.error('Error deleting geofence', {
+      error: error instanceof Error ? error.message : 'Unknown',
+      stack: error instanceof Error ? error.stack : undefined,
+      id: params.id,
+    });
+
+    return errorResponse(
+      'Internal server error',
+      error instanceof Error ? error.message : 'Unknown error',
+      500
+    );
+  }
+}
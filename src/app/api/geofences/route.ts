@@ -0,0 +1,130 @@
+/**
+ * API endpoint for geofences
+ * GET /api/geofences  - list the shared geofences and the tenant's own
+ * POST /api/geofences - create a circle or polygon geofence
+ *
+ * Query parameters for GET (all optional):
+ * - shipment: only the origin/destination geofences of this shipment
+ *   (Tive shipment id, PublicShipmentId or database id)
+ * - shipmentGeofences: "false" to leave out the geofences created from shipments
+ * - limit: number of geofences (default 100, max 1000)
+ *
+ * Geofences created with a tenant key belong to that tenant; geofences created with
+ * the global API_KEY are shared by all tenants.
+ */
+
+import { NextRequest } from 'next/server';
+import { createGeofence, findShipment, listGeofences } from '@/lib/db';
+import { authenticateApiKey } from '@/lib/validators/api-key-validator';
+import { validateGeofenceInput } from '@/lib/validators/geofence-validator';
+import { logger } from '@/lib/logger';
+import { GEOFENCE_QUERY } from '@/lib/constants';
+import { successResponse, errorResponse } from '@/lib/api/response';
+import { serializePrisma } from '@/lib/api/serialize';
+import { parseLimitParam, parseStringParam, QueryParamError } from '@/lib/api/query-params';
+
+export async function GET(request: NextRequest) {
+  try {
+    const identity = await authenticateApiKey(request);
+    if (!identity) {
+      return errorResponse(
+        'Unauthorized',
+        'Invalid or missing API key. Provide API key via X-API-Key header or Authorization: Bearer <key>',
+        401
+      );
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const errors: QueryParamError[] = [];
+    const limit = parseLimitParam(
+      searchParams,
+      'limit',
+      { defaultValue: GEOFENCE_QUERY.DEFAULT_LIMIT, max: GEOFENCE_QUERY.MAX_LIMIT },
+      errors
+    );
+
+    const shipmentGeofences = parseStringParam(searchParams, 'shipmentGeofences');
+    if (shipmentGeofences !== undefined && shipmentGeofences !== 'true' && shipmentGeofences !== 'false') {
+      errors.push({ field: 'shipmentGeofences', message: 'shipmentGeofences must be true or false' });
+    }
+
+    if (errors.length > 0) {
+      return errorResponse('Invalid query parameters', 'See details for specific errors.', 400, { errors });
+    }
+
+    let shipmentId: number | undefined;
+    const shipmentIdentifier = parseStringParam(searchParams, 'shipment');
+    if (shipmentIdentifier) {
+      const shipment = await findShipment(shipmentIdentifier, identity.tenantId);
+      if (!shipment) {
+        return errorResponse('Not found', `Shipment ${shipmentIdentifier} not found`, 404);
+      }
+      shipmentId = shipment.id;
+    }
+
+    const geofences = await listGeofences({
+      tenantId: identity.tenantId,
+      shipmentId,
+      includeShipmentGeofences: shipmentGeofences !== 'false',
+      limit,
+    });
+
+    return successResponse({
+      count: geofences.length,
+      geofences: geofences.map(serializePrisma),
+    });
+
+  } catch (error) {
+    logger.error('Error fetching geofences', {
+      error: error instanceof Error ? error.message : 'Unknown',
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+
+    return errorResponse(
+      'Internal server error',
+      error instanceof Error ? error.message : 'Unknown error',
+      500
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const identity = await authenticateApiKey(request);
+    if (!identity) {
+      return errorResponse(
+        'Unauthorized',
+        'Invalid or missing API key. Provide API key via X-API-Key header or Authorization: Bearer <key>',
+        401
+      );
+    }
+
+    let body: any;
+    try {
+      body = await request.json();
+    } catch (error) {
+      return errorResponse('Invalid JSON', 'Request body must be valid JSON', 400);
+    }
+
+    const validation = validateGeofenceInput(body);
+    if (!validation.valid || !validation.geofence) {
+      return errorResponse('Validation failed', 'See details for specific errors.', 400, { errors: validation.errors });
+    }
+
+    const geofence = await createGeofence({ ...validation.geofence, tenantId: identity.tenantId });
+
+    return successResponse(serializePrisma(geofence), 'Geofence created');
+
+  } catch (error) {
+    logger.error('Error creating geofence', {
+      error: error instanceof Error ? error.message : 'Unknown',
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+
+    return errorResponse(
+      'Internal server error',
+      error instanceof Error ? error.message : 'Unknown error',
+      500
+    );
+  }
+}
@@ -14,7 +14,16 @@
 
 import { serve } from 'inngest/next';
 import { inngest } from '@/lib/inngest/client';
-import { processTiveWebhook } from '@/lib/inngest/functions';
+import {
+  processTiveWebhook,
+  processTiveWebhookBatch,
+  reprocessTivePayloads,
+  recomputeDeviceExcursions,
+  recomputeBatteryForecast,
+  deliverAlert,
+  checkNoDataAlertRules,
+  checkDeviceConnectivity,
+} from '@/lib/inngest/functions';
 
 // Ensure this route is dynamic for Vercel deployment
 export const dynamic = 'force-dynamic';
@@ -24,6 +33,13 @@ export const { GET, POST, PUT } = serve({
   client: inngest,
   functions: [
     processTiveWebhook,
+    processTiveWebhookBatch,
+    reprocessTivePayloads,
+    recomputeDeviceExcursions,
+    recomputeBatteryForecast,
+    deliverAlert,
+    checkNoDataAlertRules,
+    checkDeviceConnectivity,
   ],
 });
 
@@ -0,0 +1,74 @@
+/**
+ * API endpoint for a shipment's data completeness
+ * GET /api/shipments/:id/completeness
+ *
+ * :id may be the Tive shipment id, the PublicShipmentId or the database id.
+ * Query parameters are the same as GET /api/devices/:imei/completeness.
+ *
+ * Returns the completeness of all devices together (overall and per UTC day) and each
+ * device's gaps, backfilled periods and timeline, judged against its own expected interval.
+ * Requires an API key. Tenant keys only see their tenant's shipments.
+ */
+
+import { NextRequest } from 'next/server';
+import { findShipment, getShipmentCompleteness } from '@/lib/db';
+import { authenticateApiKey } from '@/lib/validators/api-key-validator';
+import { config } from '@/lib/config';
+import { logger } from '@/lib/logger';
+import { successResponse, errorResponse } from '@/lib/api/response';
+import { QueryParamError } from '@/lib/api/query-params';
+import { parseCompletenessParams } from '@/lib/api/completeness-params';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const identity = await authenticateApiKey(request);
+    if (!identity) {
+      return errorResponse(
+        'Unauthorized',
+        'Invalid or missing API key. Provide API key via X-API-Key header or Authorization: Bearer <key>',
+        401
+      );
+    }
+
+    const errors: QueryParamError[] = [];
+    const completenessParams = parseCompletenessParams(request.nextUrl.searchParams, errors);
+    if (errors.length > 0) {
+      return errorResponse('Invalid query parameters', 'See details for specific errors.', 400, { errors });
+    }
+
+    const identifier = params.id.trim();
+    const shipment = await findShipment(identifier, identity.tenantId);
+    if (!shipment) {
+      return errorResponse('Not found', `Shipment ${identifier} not found`, 404);
+    }
+
+    const result = await getShipmentCompleteness(
+      shipment.id,
+      { ...completenessParams, tenantId: identity.tenantId },
+      config.connectivity
+    );
+
+    return successResponse({
+      shipmentId: shipment.id,
+      ...result,
+      gapFactor: completenessParams.gapFactor,
+      bufferedDelayMinutes: completenessParams.bufferedDelayMs / 60000,
+    });
+
+  } catch (error) {
+    logger.error('Error computing shipment completeness', {
+      error: error instanceof Error ? error.message : 'Unknown',
+      stack: error instanceof Error ? error.stack : undefined,
+      id: params.id,
+    });
+
+    return errorResponse(
+      'Internal server error',
+      error instanceof Error ? error.message : 'Unknown error',
+      500
+    );
+  }
+}
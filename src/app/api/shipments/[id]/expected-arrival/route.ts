@@ -0,0 +1,77 @@
+/**
+ * API endpoint to set the planned arrival of a shipment
+ * PUT /api/shipments/:id/expected-arrival
+ *
+ * Body: { "expectedArrivalTs": number | string | null } (epoch ms or ISO 8601; null = unknown)
+ * Battery forecasts of the devices on the shipment are recomputed asynchronously, flagging
+ * devices whose battery is predicted to be empty before the arrival.
+ */
+
+import { NextRequest } from 'next/server';
+import { findShipment, setShipmentExpectedArrival } from '@/lib/db';
+import { inngest } from '@/lib/inngest/client';
+import { authenticateApiKey } from '@/lib/validators/api-key-validator';
+import { validateExpectedArrival } from '@/lib/validators/shipment-validator';
+import { logger } from '@/lib/logger';
+import { successResponse, errorResponse } from '@/lib/api/response';
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const identity = await authenticateApiKey(request);
+    if (!identity) {
+      return errorResponse(
+        'Unauthorized',
+        'Invalid or missing API key. Provide API key via X-API-Key header or Authorization: Bearer <key>',
+        401
+      );
+    }
+
+    const identifier = params.id.trim();
+    const shipment = await findShipment(identifier, identity.tenantId);
+    if (!shipment) {
+      return errorResponse('Not found', `Shipment ${identifier} not found`, 404);
+    }
+
+    let body: any;
+    try {
+      body = await request.json();
+    } catch (error) {
+      return errorResponse('Invalid JSON', 'Request body must be valid JSON', 400);
+    }
+
+    const validation = validateExpectedArrival(body);
+    if (!validation.valid || validation.expectedArrivalTs === undefined) {
+      return errorResponse('Validation failed', 'See details for specific errors.', 400, { errors: validation.errors });
+    }
+
+    const expectedArrivalTs = validation.expectedArrivalTs;
+    await setShipmentExpectedArrival(shipment.id, expectedArrivalTs);
+
+    if (shipment.deviceAssignments.length > 0) {
+      await inngest.send(
+        shipment.deviceAssignments.map((assignment) => ({
+          name: 'battery/forecast.recompute',
+          data: { device_imei: assignment.deviceImei },
+        }))
+      );
+    }
+
+    return successResponse({ shipmentId: shipment.id, expectedArrivalTs }, 'Expected arrival set');
+
+  } catch (error) {
+    logger.error('Error setting shipment expected arrival', {
+      error: error instanceof Error ? error.message : 'Unknown',
+      stack: error instanceof Error ? error.stack : undefined,
+      id: params.id,
+    });
+
+    return errorResponse(
+      'Internal server error',
+      error instanceof Error ? error.message : 'Unknown error',
+      500
+    );
+  }
+}
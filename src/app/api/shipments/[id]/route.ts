@@ -0,0 +1,81 @@
+/**
+ * API endpoint to fetch one shipment
+ * GET /api/shipments/:id
+ *
+ * :id may be the Tive shipment id, the PublicShipmentId or the database id.
+ * Returns the shipment, its assigned devices, the temperature series, the route, the
+ * temperature excursions, the shock events and the geofence events
+ * (departure from the origin, arrival at the destination).
+ *
+ * Requires an API key. Tenant keys only see their tenant's shipments.
+ */
+
+import { NextRequest } from 'next/server';
+import {
+  findShipment,
+  getShipmentTemperatureSeries,
+  getShipmentRoute,
+  listTemperatureExcursions,
+  listShockEvents,
+  listGeofenceEvents,
+} from '@/lib/db';
+import { authenticateApiKey } from '@/lib/validators/api-key-validator';
+import { logger } from '@/lib/logger';
+import { SHIPMENT_QUERY, EXCURSION_QUERY, SHOCK_QUERY, GEOFENCE_QUERY } from '@/lib/constants';
+import { successResponse, errorResponse } from '@/lib/api/response';
+import { serializePrisma } from '@/lib/api/serialize';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const identity = await authenticateApiKey(request);
+    if (!identity) {
+      return errorResponse(
+        'Unauthorized',
+        'Invalid or missing API key. Provide API key via X-API-Key header or Authorization: Bearer <key>',
+        401
+      );
+    }
+
+    const identifier = params.id.trim();
+    const shipment = await findShipment(identifier, identity.tenantId);
+    if (!shipment) {
+      return errorResponse('Not found', `Shipment ${identifier} not found`, 404);
+    }
+
+    const [temperatureSeries, route, excursions, shockEvents, geofenceEvents] = await Promise.all([
+      getShipmentTemperatureSeries(shipment.id, SHIPMENT_QUERY.MAX_SERIES_POINTS),
+      getShipmentRoute(shipment.id, SHIPMENT_QUERY.MAX_SERIES_POINTS),
+      listTemperatureExcursions({ shipmentId: shipment.id, limit: EXCURSION_QUERY.MAX_LIMIT }),
+      listShockEvents({ shipmentId: shipment.id, limit: SHOCK_QUERY.MAX_LIMIT }),
+      listGeofenceEvents({ shipmentId: shipment.id, limit: GEOFENCE_QUERY.MAX_LIMIT }),
+    ]);
+
+    const { deviceAssignments, ...details } = shipment;
+
+    return successResponse({
+      shipment: serializePrisma(details),
+      devices: serializePrisma(deviceAssignments),
+      temperatureSeries: serializePrisma(temperatureSeries),
+      route: serializePrisma(route),
+      excursions: serializePrisma(excursions),
+      shockEvents: serializePrisma(shockEvents),
+      geofenceEvents: serializePrisma(geofenceEvents),
+    });
+
+  } catch (error) {
+    logger.error('Error fetching shipment', {
+      error: error instanceof Error ? error.message : 'Unknown',
+      stack: error instanceof Error ? error.stack : undefined,
+      id: params.id,
+    });
+
+    return errorResponse(
+      'Internal server error',
+      error instanceof Error ? error.message : 'Unknown error',
+      500
+    );
+  }
+}
@@ -0,0 +1,81 @@
+/**
+ * API endpoint to assign a temperature profile to a shipment
+ * PUT /api/shipments/:id/temperature-profile
+ *
+ * Body: { "profileId": number | null } (null removes the assignment)
+ * The shipment profile overrides the profiles of the devices carrying it.
+ * Excursions of every device on the shipment are recomputed asynchronously.
+ */
+
+import { NextRequest } from 'next/server';
+import { findShipment, findTemperatureProfile, setShipmentTemperatureProfile } from '@/lib/db';
+import { inngest } from '@/lib/inngest/client';
+import { authenticateApiKey } from '@/lib/validators/api-key-validator';
+import { validateProfileAssignment } from '@/lib/validators/temperature-profile-validator';
+import { logger } from '@/lib/logger';
+import { successResponse, errorResponse } from '@/lib/api/response';
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const identity = await authenticateApiKey(request);
+    if (!identity) {
+      return errorResponse(
+        'Unauthorized',
+        'Invalid or missing API key. Provide API key via X-API-Key header or Authorization: Bearer <key>',
+        401
+      );
+    }
+
+    const identifier = params.id.trim();
+    const shipment = await findShipment(identifier, identity.tenantId);
+    if (!shipment) {
+      return errorResponse('Not found', `Shipment ${identifier} not found`, 404);
+    }
+
+    let body: any;
+    try {
+      body = await request.json();
+    } catch (error) {
+      return errorResponse('Invalid JSON', 'Request body must be valid JSON', 400);
+    }
+
+    const validation = validateProfileAssignment(body);
+    if (!validation.valid || validation.profileId === undefined) {
+      return errorResponse('Validation failed', 'See details for specific errors.', 400, { errors: validation.errors });
+    }
+
+    const profileId = validation.profileId;
+    if (profileId !== null && !(await findTemperatureProfile(profileId, identity.tenantId))) {
+      return errorResponse('Not found', `Temperature profile ${profileId} not found`, 404);
+    }
+
+    await setShipmentTemperatureProfile(shipment.id, profileId);
+
+    if (shipment.deviceAssignments.length > 0) {
+      await inngest.send(
+        shipment.deviceAssignments.map((assignment) => ({
+          name: 'temperature/excursions.recompute',
+          data: { device_imei: assignment.deviceImei, shipment_id: shipment.id },
+        }))
+      );
+    }
+
+    return successResponse({ shipmentId: shipment.id, profileId }, 'Temperature profile assigned');
+
+  } catch (error) {
+    logger.error('Error assigning shipment temperature profile', {
+      error: error instanceof Error ? error.message : 'Unknown',
+      stack: error instanceof Error ? error.stack : undefined,
+      id: params.id,
+    });
+
+    return errorResponse(
+      'Internal server error',
+      error instanceof Error ? error.message : 'Unknown error',
+      500
+    );
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * API endpoint for a shipment's temperature statistics
+ * GET /api/shipments/:id/temperature-stats
+ *
+ * :id may be the Tive shipment id, the PublicShipmentId or the database id.
+ * Query parameters are the same as GET /api/devices/:imei/temperature-stats.
+ *
+ * Returns the statistics over all readings of the shipment and per device.
+ * Requires an API key. Tenant keys only see their tenant's shipments.
+ */
+
+import { NextRequest } from 'next/server';
+import { findShipment, getShipmentTemperatureStats } from '@/lib/db';
+import { authenticateApiKey } from '@/lib/validators/api-key-validator';
+import { logger } from '@/lib/logger';
+import { successResponse, errorResponse } from '@/lib/api/response';
+import { serializePrisma } from '@/lib/api/serialize';
+import { QueryParamError } from '@/lib/api/query-params';
+import { parseStabilityParams } from '@/lib/api/stability-params';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const identity = await authenticateApiKey(request);
+    if (!identity) {
+      return errorResponse(
+        'Unauthorized',
+        'Invalid or missing API key. Provide API key via X-API-Key header or Authorization: Bearer <key>',
+        401
+      );
+    }
+
+    const errors: QueryParamError[] = [];
+    const stabilityParams = parseStabilityParams(request.nextUrl.searchParams, errors);
+    if (errors.length > 0) {
+      return errorResponse('Invalid query parameters', 'See details for specific errors.', 400, { errors });
+    }
+
+    const identifier = params.id.trim();
+    const shipment = await findShipment(identifier, identity.tenantId);
+    if (!shipment) {
+      return errorResponse('Not found', `Shipment ${identifier} not found`, 404);
+    }
+
+    const result = await getShipmentTemperatureStats(shipment.id, {
+      ...stabilityParams,
+      tenantId: identity.tenantId,
+    });
+
+    return successResponse({
+      shipmentId: shipment.id,
+      ...serializePrisma(result),
+      activationEnergy: stabilityParams.activationEnergyKjPerMol,
+      maxGapMinutes: stabilityParams.maxGapMs / 60000,
+    });
+
+  } catch (error) {
+    logger.error('Error computing shipment temperature statistics', {
+      error: error instanceof Error ? error.message : 'Unknown',
+      stack: error instanceof Error ? error.stack : undefined,
+      id: params.id,
+    });
+
+    return errorResponse(
+      'Internal server error',
+      error instanceof Error ? error.message : 'Unknown error',
+      500
+    );
+  }
+}
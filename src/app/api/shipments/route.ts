@@ -0,0 +1,90 @@
+/**
+ * API endpoint to list shipments
+ * GET /api/shipments
+ *
+ * Query parameters (all optional):
+ * - status, carrier, origin, destination: filters (text filters are case-insensitive substrings)
+ * - from, to: date range (epoch ms or ISO 8601); matches shipments seen within the range
+ * - q: exact Tive shipment id or PublicShipmentId
+ * - limit: number of shipments (default 100, max 1000)
+ *
+ * Requires an API key. Tenant keys only see their tenant's shipments.
+ */
+
+import { NextRequest } from 'next/server';
+import { listShipments } from '@/lib/db';
+import { authenticateApiKey } from '@/lib/validators/api-key-validator';
+import { logger } from '@/lib/logger';
+import { SHIPMENT_QUERY } from '@/lib/constants';
+import { successResponse, errorResponse } from '@/lib/api/response';
+import { serializePrisma } from '@/lib/api/serialize';
+import {
+  parseLimitParam,
+  parseStringParam,
+  parseTimeParam,
+  QueryParamError,
+} from '@/lib/api/query-params';
+
+export async function GET(request: NextRequest) {
+  try {
+    const identity = await authenticateApiKey(request);
+    if (!identity) {
+      return errorResponse(
+        'Unauthorized',
+        'Invalid or missing API key. Provide API key via X-API-Key header or Authorization: Bearer <key>',
+        401
+      );
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const errors: QueryParamError[] = [];
+    const from = parseTimeParam(searchParams, 'from', errors);
+    const to = parseTimeParam(searchParams, 'to', errors);
+    const limit = parseLimitParam(
+      searchParams,
+      'limit',
+      { defaultValue: SHIPMENT_QUERY.DEFAULT_LIMIT, max: SHIPMENT_QUERY.MAX_LIMIT },
+      errors
+    );
+
+    if (from !== undefined && to !== undefined && from > to) {
+      errors.push({ field: 'from', message: 'from must not be after to' });
+    }
+
+    if (errors.length > 0) {
+      return errorResponse('Invalid query parameters', 'See details for specific errors.', 400, { errors });
+    }
+
+    const shipments = await listShipments({
+      status: parseStringParam(searchParams, 'status'),
+      carrier: parseStringParam(searchParams, 'carrier'),
+      origin: parseStringParam(searchParams, 'origin'),
+      destination: parseStringParam(searchParams, 'destination'),
+      search: parseStringParam(searchParams, 'q'),
+      from,
+      to,
+      tenantId: identity.tenantId,
+      limit,
+    });
+
+    return successResponse({
+      count: shipments.length,
+      shipments: shipments.map(({ _count, ...shipment }) => ({
+        ...serializePrisma(shipment),
+        deviceCount: _count.deviceAssignments,
+      })),
+    });
+
+  } catch (error) {
+    logger.error('Error fetching shipments', {
+      error: error instanceof Error ? error.message : 'Unknown',
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+
+    return errorResponse(
+      'Internal server error',
+      error instanceof Error ? error.message : 'Unknown error',
+      500
+    );
+  }
+}
@@ -0,0 +1,93 @@
+/**
+ * API endpoint to list shock and drop events
+ * GET /api/shock-events
+ *
+ * Query parameters (all optional):
+ * - device: device IMEI
+ * - shipment: Tive shipment id, PublicShipmentId or database id
+ * - severity: minimum severity (minor, major or severe)
+ * - from, to: event start range (epoch ms or ISO 8601), inclusive
+ * - limit: number of events (default 100, max 1000)
+ *
+ * Requires an API key. Tenant keys only see their tenant's events.
+ */
+
+import { NextRequest } from 'next/server';
+import { findShipment, listShockEvents } from '@/lib/db';
+import { SHOCK_SEVERITIES, ShockSeverity } from '@/lib/analytics/shocks';
+import { authenticateApiKey } from '@/lib/validators/api-key-validator';
+import { logger } from '@/lib/logger';
+import { SHOCK_QUERY } from '@/lib/constants';
+import { successResponse, errorResponse } from '@/lib/api/response';
+import { serializePrisma } from '@/lib/api/serialize';
+import { parseLimitParam, parseStringParam, parseTimeParam, QueryParamError } from '@/lib/api/query-params';
+
+export async function GET(request: NextRequest) {
+  try {
+    const identity = await authenticateApiKey(request);
+    if (!identity) {
+      return errorResponse(
+        'Unauthorized',
+        'Invalid or missing API key. Provide API key via X-API-Key header or Authorization: Bearer <key>',
+        401
+      );
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const errors: QueryParamError[] = [];
+    const from = parseTimeParam(searchParams, 'from', errors);
+    const to = parseTimeParam(searchParams, 'to', errors);
+    const limit = parseLimitParam(
+      searchParams,
+      'limit',
+      { defaultValue: SHOCK_QUERY.DEFAULT_LIMIT, max: SHOCK_QUERY.MAX_LIMIT },
+      errors
+    );
+
+    const severity = parseStringParam(searchParams, 'severity') as ShockSeverity | undefined;
+    if (severity !== undefined && !SHOCK_SEVERITIES.includes(severity)) {
+      errors.push({ field: 'severity', message: `severity must be one of ${SHOCK_SEVERITIES.join(', ')}` });
+    }
+
+    if (errors.length > 0) {
+      return errorResponse('Invalid query parameters', 'See details for specific errors.', 400, { errors });
+    }
+
+    let shipmentId: number | undefined;
+    const shipmentIdentifier = parseStringParam(searchParams, 'shipment');
+    if (shipmentIdentifier) {
+      const shipment = await findShipment(shipmentIdentifier, identity.tenantId);
+      if (!shipment) {
+        return errorResponse('Not found', `Shipment ${shipmentIdentifier} not found`, 404);
+      }
+      shipmentId = shipment.id;
+    }
+
+    const events = await listShockEvents({
+      deviceImei: parseStringParam(searchParams, 'device'),
+      shipmentId,
+      minSeverity: severity,
+      from,
+      to,
+      tenantId: identity.tenantId,
+      limit,
+    });
+
+    return successResponse({
+      count: events.length,
+      shockEvents: events.map(serializePrisma),
+    });
+
+  } catch (error) {
+    logger.error('Error fetching shock events', {
+      error: error instanceof Error ? error.message : 'Unknown',
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+
+    return errorResponse(
+      'Internal server error',
+      error instanceof Error ? error.message : 'Unknown error',
+      500
+    );
+  }
+}
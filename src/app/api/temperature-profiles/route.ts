@@ -0,0 +1,94 @@
+/**
+ * API endpoint for temperature profiles
+ * GET /api/temperature-profiles  - list the shared profiles and the tenant's own
+ * POST /api/temperature-profiles - create a profile
+ *
+ * Profiles created with a tenant key belong to that tenant; profiles created with
+ * the global API_KEY are shared by all tenants.
+ */
+
+import { NextRequest } from 'next/server';
+import { listTemperatureProfiles, createTemperatureProfile } from '@/lib/db';
+import { authenticateApiKey } from '@/lib/validators/api-key-validator';
+import { validateTemperatureProfileInput } from '@/lib/validators/temperature-profile-validator';
+import { ConflictError } from '@/lib/error-handling/error-types';
+import { logger } from '@/lib/logger';
+import { successResponse, errorResponse } from '@/lib/api/response';
+import { serializePrisma } from '@/lib/api/serialize';
+
+export async function GET(request: NextRequest) {
+  try {
+    const identity = await authenticateApiKey(request);
+    if (!identity) {
+      return errorResponse(
+        'Unauthorized',
+        'Invalid or missing API key. Provide API key via X-API-Key header or Authorization: Bearer <key>',
+        401
+      );
+    }
+
+    const profiles = await listTemperatureProfiles(identity.tenantId);
+
+    return successResponse({
+      count: profiles.length,
+      profiles: profiles.map(serializePrisma),
+    });
+
+  } catch (error) {
+    logger.error('Error fetching temperature profiles', {
+      error: error instanceof Error ? error.message : 'Unknown',
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+
+    return errorResponse(
+      'Internal server error',
+      error instanceof Error ? error.message : 'Unknown error',
+      500
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const identity = await authenticateApiKey(request);
+    if (!identity) {
+      return errorResponse(
+        'Unauthorized',
+        'Invalid or missing API key. Provide API key via X-API-Key header or Authorization: Bearer <key>',
+        401
+      );
+    }
+
+    let body: any;
+    try {
+      body = await request.json();
+    } catch (error) {
+      return errorResponse('Invalid JSON', 'Request body must be valid JSON', 400);
+    }
+
+    const validation = validateTemperatureProfileInput(body);
+    if (!validation.valid || !validation.profile) {
+      return errorResponse('Validation failed', 'See details for specific errors.', 400, { errors: validation.errors });
+    }
+
+    const profile = await createTemperatureProfile({ ...validation.profile, tenantId: identity.tenantId });
+
+    return successResponse(serializePrisma(profile), 'Temperature profile created');
+
+  } catch (error) {
+    if (error instanceof ConflictError) {
+      return errorResponse('Conflict', error.message, 409, { errors: [{ field: error.field, message: error.message }] });
+    }
+
+    logger.error('Error creating temperature profile', {
+      error: error instanceof Error ? error.message : 'Unknown',
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+
+    return errorResponse(
+      'Internal server error',
+      error instanceof Error ? error.message : 'Unknown error',
+      500
+    );
+  }
+}
@@ -0,0 +1,243 @@
+/**
+ * Tive Batch Webhook API Endpoint
+ * POST /api/webhook/tive/batch
+ *
+ * Receives many Tive payloads in one request (e.g. buffered readings a tracker
+ * uploads after reconnecting). The body is a JSON array or NDJSON
+ * (Content-Type: application/x-ndjson).
+ *
+ * Architecture:
+ * - Each item is validated independently and reported as accepted, rejected or duplicate
+ * - Each item is attributed to a tenant (same rules as the single-payload endpoint)
+ * - All items are stored in one transaction (raw_webhook_payloads audit trail)
+ * - device_latest is updated once per device with its newest accepted reading
+ * - A single webhook/tive.process-batch Inngest event fans out the accepted items
+ */
+
+import { createHash } from 'crypto';
+import { NextRequest } from 'next/server';
+import { authenticateWebhook } from '@/lib/validators/webhook-auth';
+import { parseTiveBatch } from '@/lib/validators/batch-validator';
+import { createTenantResolver } from '@/lib/validators/tenant-validator';
+import { transformToSensorPayload, transformToLocationPayload } from '@/lib/transformers/tive-to-paxafe';
+import {
+  storeRawPayloadBatch,
+  updateDeviceLatestCritical,
+  RawPayloadBatchEntry,
+  StoredRawPayload,
+} from '@/lib/db';
+import { notifyTiveOfError } from '@/lib/notifications/tive-notification';
+import { computePayloadFingerprint } from '@/lib/utils/fingerprint';
+import { inngest } from '@/lib/inngest/client';
+import { TivePayload } from '@/types/tive';
+import { logger } from '@/lib/logger';
+import { config } from '@/lib/config';
+import { successResponse, errorResponse } from '@/lib/api/response';
+
+type BatchItemStatus = 'accepted' | 'rejected' | 'duplicate';
+
+interface BatchItemResult {
+  index: number;
+  status: BatchItemStatus;
+  payload_id?: number;
+  device_imei?: string;
+  errors?: Array<{ field: string; message: string }>;
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    // 1. Validate batch size (per-item size is checked during parsing)
+    const contentLength = request.headers.get('content-length');
+    if (contentLength && parseInt(contentLength, 10) > config.webhookBatchMaxSize) {
+      return errorResponse(
+        'Payload too large',
+        `Maximum batch size is ${Math.floor(config.webhookBatchMaxSize / 1024)}KB`,
+        413
+      );
+    }
+
+    const rawBody = await request.text();
+    if (Buffer.byteLength(rawBody, 'utf8') > config.webhookBatchMaxSize) {
+      return errorResponse(
+        'Payload too large',
+        `Maximum batch size is ${Math.floor(config.webhookBatchMaxSize / 1024)}KB`,
+        413
+      );
+    }
+
+    // 2. Authenticate (API key and/or HMAC signature over the raw body, per source config)
+    const auth = await authenticateWebhook(request, rawBody, 'Tive');
+    if (!auth.authorized) {
+      return errorResponse('Unauthorized', auth.message || 'Unauthorized', 401);
+    }
+
+    // 3. Parse and validate each item
+    const batch = parseTiveBatch(rawBody, request.headers.get('content-type'));
+    if (!batch.valid) {
+      return errorResponse('Invalid batch', batch.error || 'Invalid batch body', 400);
+    }
+
+    if (batch.items.length > config.webhookBatchMaxItems) {
+      return errorResponse(
+        'Payload too large',
+        `Maximum number of payloads per batch is ${config.webhookBatchMaxItems}`,
+        413
+      );
+    }
+
+    // 4. Attribute items to tenants (AccountId mismatches reject the item)
+    const resolveTenant = createTenantResolver(auth.identity);
+    const tenantIds: Array<number | null> = [];
+    for (const item of batch.items) {
+      const tenant = await resolveTenant(item.payload);
+      item.errors.push(...tenant.errors);
+      tenantIds.push(tenant.tenantId);
+    }
+
+    // 5. Store all items in one transaction (invalid items are kept for the audit trail)
+    const entries: RawPayloadBatchEntry[] = batch.items.map((item, i) =>
+      item.errors.length > 0
+        ? {
+            // Lines that are not JSON keep their text so the audit trail shows what was sent
+            payload: item.raw !== undefined ? { raw: item.raw } : item.payload,
+            validationErrors: item.errors,
+            status: 'failed',
+            tenantId: tenantIds[i],
+          }
+        : {
+            payload: item.payload,
+            status: 'pending',
+            fingerprint: computePayloadFingerprint(item.payload),
+            tenantId: tenantIds[i],
+          }
+    );
+
+    let stored: StoredRawPayload[];
+    try {
+      stored = await storeRawPayloadBatch(entries);
+    } catch (dbError) {
+      logger.error('Failed to store raw payload batch', {
+        error: dbError instanceof Error ? dbError.message : 'Unknown',
+        count: entries.length,
+      });
+      return errorResponse(
+        'Database error',
+        'Failed to store payloads. Please retry.',
+        503
+      );
+    }
+
+    const results: BatchItemResult[] = batch.items.map((item, i) => {
+      const deviceImei = typeof item.payload?.DeviceId === 'string' ? item.payload.DeviceId : undefined;
+      if (item.errors.length > 0) {
+        return { index: item.index, status: 'rejected', payload_id: stored[i].id, device_imei: deviceImei, errors: item.errors };
+      }
+      return {
+        index: item.index,
+        status: stored[i].duplicate ? 'duplicate' : 'accepted',
+        payload_id: stored[i].id,
+        device_imei: deviceImei,
+      };
+    });
+
+    // 6. Notify Tive about rejected items (best-effort)
+    await Promise.all(
+      results
+        .filter((result) => result.status === 'rejected')
+        .map((result) => {
+          const payload = batch.items[result.index].payload;
+          return notifyTiveOfError({
+            payload_id: result.payload_id?.toString() || 'unknown',
+            device_id: payload?.DeviceId || payload?.DeviceName || 'unknown',
+            timestamp: payload?.EntryTimeEpoch || Date.now(),
+            error_type: 'validation',
+            errors: result.errors || [],
+            retryable: false,
+            received_at: Date.now(),
+          }).catch((notifyError) => {
+            logger.error('Failed to notify Tive', { error: notifyError instanceof Error ? notifyError.message : 'Unknown' });
+          });
+        })
+    );
+
+    const accepted = results.filter((result) => result.status === 'accepted');
+
+    // 7. Update device_latest critical fields with the newest accepted reading per device
+    const newestByDevice = new Map<string, { payload: TivePayload; tenantId: number | null }>();
+    accepted.forEach((result) => {
+      const payload = batch.items[result.index].payload as TivePayload;
+      const current = newestByDevice.get(payload.DeviceId);
+      if (!current || payload.EntryTimeEpoch > current.payload.EntryTimeEpoch) {
+        newestByDevice.set(payload.DeviceId, { payload, tenantId: tenantIds[result.index] });
+      }
+    });
+
+    for (const { payload, tenantId } of Array.from(newestByDevice.values())) {
+      try {
+        const sensorPayload = transformToSensorPayload(payload);
+        const locationPayload = transformToLocationPayload(payload);
+        await updateDeviceLatestCritical(
+          sensorPayload.device_imei,
+          sensorPayload.device_id,
+          sensorPayload.timestamp,
+          sensorPayload,
+          locationPayload,
+          tenantId
+        );
+      } catch (updateError) {
+        logger.error('Failed to update device_latest (critical fields) from batch', {
+          error: updateError instanceof Error ? updateError.message : 'Unknown',
+          device_id: payload.DeviceId,
+        });
+        // Continue - still process via Inngest
+      }
+    }
+
+    // 8. Trigger a single Inngest batch event (non-blocking, fire-and-forget)
+    if (accepted.length > 0) {
+      const rawIds = accepted.map((result) => result.payload_id as number);
+      const batchId = createHash('sha256').update(rawIds.join(',')).digest('hex');
+
+      inngest.send({
+        id: `batch:${batchId}`,
+        name: 'webhook/tive.process-batch',
+        data: {
+          raw_ids: rawIds,
+          timestamp: Date.now(),
+        },
+      }).catch((inngestError) => {
+        // Log error but don't fail - payloads are stored with status "pending"
+        logger.error('Failed to send Inngest batch event (async processing may be delayed)', {
+          error: inngestError instanceof Error ? inngestError.message : 'Unknown',
+          raw_ids: rawIds,
+        });
+      });
+    }
+
+    return successResponse({
+      total: results.length,
+      accepted: accepted.length,
+      rejected: results.filter((result) => result.status === 'rejected').length,
+      duplicates: results.filter((result) => result.status === 'duplicate').length,
+      results,
+    }, 'Batch received and processing');
+
+  } catch (error) {
+    logger.error('Unexpected error processing webhook batch', { error: error instanceof Error ? error.message : 'Unknown' });
+
+    return errorResponse(
+      'Internal server error',
+      error instanceof Error ? error.message : 'Unknown error occurred',
+      500
+    );
+  }
+}
+
+// Handle unsupported methods
+export async function GET() {
+  return errorResponse(
+    'Method not allowed',
+    'Only POST method is supported',
+    405
+  );
+}
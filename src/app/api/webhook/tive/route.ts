@@ -2,17 +2,24 @@
  * Tive Webhook API Endpoint
  * POST /api/webhook/tive
  * 
- * Receives Tive IoT device telemetry payloads, validates them,
+ * Receives Tive IoT device telemetry payloads, authenticates them (API key
+ * and/or HMAC signature, see TIVE_WEBHOOK_AUTH_MODE), validates them,
  * stores raw payload, and triggers Inngest for async processing.
+ *
+ * Every payload is attributed to a tenant: the tenant of the API key, or the
+ * tenant mapped to the payload's AccountId when the global key or signature-only
+ * auth is used. A tenant key sending another account's AccountId is rejected.
  * 
  * Architecture:
+ * - Each payload is fingerprinted; retried deliveries return the original payload_id and are not re-processed
  * - All events: Update device_latest critical fields synchronously for real-time dashboard
  * - All events: Save telemetry, locations, and update device_latest references asynchronously via Inngest
  */
 
 import { NextRequest } from 'next/server';
 import { validateTivePayload } from '@/lib/validators/tive-validator';
-import { validateApiKey } from '@/lib/validators/api-key-validator';
+import { authenticateWebhook } from '@/lib/validators/webhook-auth';
+import { createTenantResolver } from '@/lib/validators/tenant-validator';
 import { transformToSensorPayload, transformToLocationPayload } from '@/lib/transformers/tive-to-paxafe';
 import {
   storeRawPayload,
@@ -20,6 +27,8 @@ import {
   updateRawPayloadInngestEventId,
 } from '@/lib/db';
 import { notifyTiveOfError } from '@/lib/notifications/tive-notification';
+import { DuplicatePayloadError } from '@/lib/error-handling/error-types';
+import { computePayloadFingerprint } from '@/lib/utils/fingerprint';
 import { inngest } from '@/lib/inngest/client';
 import { TivePayload } from '@/types/tive';
 import { logger } from '@/lib/logger';
@@ -30,16 +39,7 @@ export async function POST(request: NextRequest) {
   let rawPayloadId: number | undefined;
   
   try {
-    // 1. API Key validation
-    if (!validateApiKey(request)) {
-      return errorResponse(
-        'Unauthorized',
-        'Invalid or missing API key. Provide API key via X-API-Key header or Authorization: Bearer <key>',
-        401
-      );
-    }
-
-    // 2. Validate payload size
+    // 1. Validate payload size
     const contentLength = request.headers.get('content-length');
     if (contentLength && parseInt(contentLength, 10) > VALIDATION.MAX_PAYLOAD_SIZE) {
       return errorResponse(
@@ -49,10 +49,17 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // 2. Authenticate (API key and/or HMAC signature over the raw body, per source config)
+    const rawBody = await request.text();
+    const auth = await authenticateWebhook(request, rawBody, 'Tive');
+    if (!auth.authorized) {
+      return errorResponse('Unauthorized', auth.message || 'Unauthorized', 401);
+    }
+
     // 3. Parse request body
     let body: any;
     try {
-      body = await request.json();
+      body = JSON.parse(rawBody);
     } catch (error) {
       return errorResponse(
         'Invalid JSON',
@@ -61,16 +68,20 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // 4. Validate payload structure and data
+    // 4. Validate payload structure and data, and attribute it to a tenant
     const validation = validateTivePayload(body);
+    const tenant = await createTenantResolver(auth.identity)(body);
+    const validationErrors = [...validation.errors, ...tenant.errors];
     
-    if (!validation.valid) {
+    if (validationErrors.length > 0) {
       // Store invalid payload for audit trail
       try {
         rawPayloadId = await storeRawPayload(
           body as TivePayload,
-          validation.errors,
-          'failed'
+          validationErrors,
+          'failed',
+          undefined,
+          { tenantId: tenant.tenantId }
         );
       } catch (dbError) {
         logger.error('Failed to store invalid payload', { 
@@ -86,7 +97,7 @@ export async function POST(request: NextRequest) {
           device_id: body.DeviceId || body.DeviceName || 'unknown',
           timestamp: body.EntryTimeEpoch || Date.now(),
           error_type: 'validation',
-          errors: validation.errors,
+          errors: validationErrors,
           retryable: false,
           received_at: Date.now(),
         });
@@ -99,14 +110,36 @@ export async function POST(request: NextRequest) {
         'Validation failed',
         'Payload validation failed. See details for specific errors.',
         400,
-        { errors: validation.errors, payload_id: rawPayloadId }
+        { errors: validationErrors, payload_id: rawPayloadId }
       );
     }
 
     // 5. Store raw payload in database (audit trail)
+    // The unique fingerprint makes retried deliveries detectable atomically
+    const fingerprint = computePayloadFingerprint(body, request.headers.get('idempotency-key'), tenant.tenantId);
+
     try {
-      rawPayloadId = await storeRawPayload(body as TivePayload, undefined, 'pending');
+      rawPayloadId = await storeRawPayload(body as TivePayload, undefined, 'pending', undefined, {
+        fingerprint,
+        tenantId: tenant.tenantId,
+      });
     } catch (dbError) {
+      if (dbError instanceof DuplicatePayloadError) {
+        // 6. Duplicate delivery: acknowledge with the original payload_id and skip re-processing
+        logger.info('Duplicate webhook payload ignored', {
+          device_id: body.DeviceId,
+          payload_id: dbError.existingPayloadId,
+          fingerprint,
+        });
+        return successResponse({
+          device_id: body.DeviceName,
+          device_imei: body.DeviceId,
+          timestamp: body.EntryTimeEpoch,
+          payload_id: dbError.existingPayloadId,
+          duplicate: true,
+        }, 'Duplicate payload already received');
+      }
+
       logger.error('Failed to store raw payload', { 
         error: dbError instanceof Error ? dbError.message : 'Unknown',
         payloadId: rawPayloadId 
@@ -132,18 +165,23 @@ export async function POST(request: NextRequest) {
 
     // 8. Update device_latest critical fields synchronously (for real-time dashboard)
     // All events update critical fields synchronously for immediate dashboard visibility
+    // Readings older than the stored state are kept out of device_latest (late arrivals)
+    let outOfOrder = false;
     if (sensorPayload && locationPayload) {
       try {
-        await updateDeviceLatestCritical(
+        const outcome = await updateDeviceLatestCritical(
           sensorPayload.device_imei,
           sensorPayload.device_id,
           sensorPayload.timestamp,
           sensorPayload,
-          locationPayload
+          locationPayload,
+          tenant.tenantId
         );
+        outOfOrder = outcome === 'late';
         
         logger.debug('Device latest critical fields updated synchronously', {
           device_id: body.DeviceId,
+          outcome,
         });
       } catch (updateError) {
         logger.error('Failed to update device_latest (critical fields)', { 
@@ -162,15 +200,21 @@ export async function POST(request: NextRequest) {
       device_imei: sensorPayload?.device_imei || body.DeviceId,
       timestamp: body.EntryTimeEpoch,
       payload_id: rawPayloadId,
+      duplicate: false,
+      out_of_order: outOfOrder,
     }, 'Payload received and processing');
 
     // 10. Trigger Inngest event for async processing (non-blocking, fire-and-forget)
     // This runs after the response is sent, so it doesn't block the webhook response
+    // The fingerprint is used as the event id so Inngest drops replayed events
     inngest.send({
+      id: fingerprint,
       name: 'webhook/tive.process',
       data: {
         raw_id: rawPayloadId,
         payload: body as TivePayload,
+        fingerprint,
+        tenant_id: tenant.tenantId,
         timestamp: Date.now(),
       },
     })
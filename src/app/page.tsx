@@ -1,9 +1,15 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useMemo, useState } from 'react';
 import { DeviceTable } from '@/components/DeviceTable';
 import { DeviceModal } from '@/components/DeviceModal';
+import { ApiKeyForm } from '@/components/ApiKeyForm';
+import { DashboardNav } from '@/components/DashboardNav';
 import { DeviceState } from '@/types/device';
+import { apiFetch, getStoredApiKey, setStoredApiKey } from '@/lib/api/client';
+import { CONNECTIVITY_STATUSES, connectivityRank, isConnectivityStatus } from '@/lib/analytics/connectivity';
+
+type DeviceSort = 'updated' | 'connectivity';
 
 export default function Home() {
   const [devices, setDevices] = useState<DeviceState[]>([]);
@@ -11,12 +17,26 @@ export default function Home() {
   const [error, setError] = useState<string | null>(null);
   const [selectedDevice, setSelectedDevice] = useState<DeviceState | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
+  const [needsApiKey, setNeedsApiKey] = useState(false);
+  const [apiKeyMessage, setApiKeyMessage] = useState<string | null>(null);
+  const [connectivityFilter, setConnectivityFilter] = useState('');
+  const [sort, setSort] = useState<DeviceSort>('updated');
 
-  const fetchDevices = async () => {
+  const fetchDevices = useCallback(async () => {
     try {
       setLoading(true);
       setError(null);
-      const response = await fetch('/api/devices?limit=50');
+      const query = connectivityFilter ? `&connectivity=${connectivityFilter}` : '';
+      const response = await apiFetch(`/api/devices?limit=50${query}`);
+
+      // Devices are scoped to the tenant of the API key
+      if (response.status === 401) {
+        setDevices([]);
+        setApiKeyMessage(getStoredApiKey() ? 'The stored API key was rejected. Enter a valid key.' : null);
+        setNeedsApiKey(true);
+        return;
+      }
+      setNeedsApiKey(false);
       
       if (!response.ok) {
         throw new Error(`HTTP ${response.status}: ${response.statusText}`);
@@ -37,14 +57,23 @@ export default function Home() {
     } finally {
       setLoading(false);
     }
-  };
+  }, [connectivityFilter]);
 
   useEffect(() => {
     fetchDevices();
     // Auto-refresh every 30 seconds
     const interval = setInterval(fetchDevices, 30000);
     return () => clearInterval(interval);
-  }, []);
+    // Refetch (and restart the refresh timer) when the connectivity filter changes
+  }, [fetchDevices]);
+
+  // The API returns the most recently updated devices first; connectivity sorting is done here
+  const sortedDevices = useMemo(() => {
+    if (sort !== 'connectivity') return devices;
+    const rank = (device: DeviceState) =>
+      isConnectivityStatus(device.connectivityStatus) ? connectivityRank(device.connectivityStatus) : CONNECTIVITY_STATUSES.length;
+    return [...devices].sort((a, b) => rank(a) - rank(b) || b.lastTs - a.lastTs);
+  }, [devices, sort]);
 
   const handleRowClick = (device: DeviceState) => {
     setSelectedDevice(device);
@@ -56,6 +85,31 @@ export default function Home() {
     setSelectedDevice(null);
   };
 
+  const handleApiKeySubmit = (apiKey: string) => {
+    setStoredApiKey(apiKey);
+    fetchDevices();
+  };
+
+  const handleChangeApiKey = () => {
+    setStoredApiKey(null);
+    setDevices([]);
+    setApiKeyMessage(null);
+    setNeedsApiKey(true);
+  };
+
+  if (needsApiKey) {
+    return (
+      <main className="min-vh-100 bg-light">
+        <div className="container-fluid py-4">
+          <div className="container">
+            <h1 className="display-5 fw-bold mb-4">Device State Dashboard</h1>
+            <ApiKeyForm onSubmit={handleApiKeySubmit} message={apiKeyMessage} />
+          </div>
+        </div>
+      </main>
+    );
+  }
+
   if (loading && devices.length === 0) {
     return (
       <main className="min-vh-100 bg-light">
@@ -121,13 +175,50 @@ export default function Home() {
                   </>
                 )}
               </button>
+              <button
+                className="btn btn-outline-secondary"
+                onClick={handleChangeApiKey}
+              >
+                <i className="bi bi-key me-2"></i>
+                Change API key
+              </button>
               <span className="text-muted small">
                 Auto-refresh: 30s
               </span>
             </div>
           </div>
+          <DashboardNav />
+
+          <div className="d-flex gap-3 mb-3 flex-wrap">
+            <div>
+              <label htmlFor="connectivity-filter" className="form-label small text-muted mb-1">Connectivity</label>
+              <select
+                id="connectivity-filter"
+                className="form-select form-select-sm"
+                value={connectivityFilter}
+                onChange={(e) => setConnectivityFilter(e.target.value)}
+              >
+                <option value="">All devices</option>
+                <option value="online">Online</option>
+                <option value="late">Late</option>
+                <option value="offline">Offline</option>
+              </select>
+            </div>
+            <div>
+              <label htmlFor="device-sort" className="form-label small text-muted mb-1">Sort by</label>
+              <select
+                id="device-sort"
+                className="form-select form-select-sm"
+                value={sort}
+                onChange={(e) => setSort(e.target.value as DeviceSort)}
+              >
+                <option value="updated">Last update</option>
+                <option value="connectivity">Connectivity (offline first)</option>
+              </select>
+            </div>
+          </div>
 
-          <DeviceTable devices={devices} onRowClick={handleRowClick} />
+          <DeviceTable devices={sortedDevices} onRowClick={handleRowClick} />
           
           <DeviceModal 
             device={selectedDevice} 
@@ -0,0 +1,289 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { DashboardNav } from '@/components/DashboardNav';
+import { ApiKeyForm } from '@/components/ApiKeyForm';
+import { TemperatureChart } from '@/components/TemperatureChart';
+import { RouteMap } from '@/components/RouteMap';
+import { TemperatureStatsSummary } from '@/components/TemperatureStatsSummary';
+import { ShockEventsTable } from '@/components/ShockEventsTable';
+import { GeofenceEventsTable } from '@/components/GeofenceEventsTable';
+import { formatStatus, getStatusBadgeClass } from '@/components/ShipmentTable';
+import { ShipmentDetail } from '@/types/shipment';
+import { ShipmentTemperatureStatsState } from '@/types/temperature';
+import { apiFetch, getStoredApiKey, setStoredApiKey } from '@/lib/api/client';
+import { formatDuration, formatNumber, formatTimestamp } from '@/lib/utils/format';
+
+export default function ShipmentDetailPage({ params }: { params: { id: string } }) {
+  const [detail, setDetail] = useState<ShipmentDetail | null>(null);
+  const [temperatureStats, setTemperatureStats] = useState<ShipmentTemperatureStatsState | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [needsApiKey, setNeedsApiKey] = useState(false);
+  const [apiKeyMessage, setApiKeyMessage] = useState<string | null>(null);
+
+  // Statistics are optional: the page still renders when they fail
+  const fetchTemperatureStats = useCallback(async () => {
+    try {
+      const response = await apiFetch(`/api/shipments/${params.id}/temperature-stats`);
+      const data = await response.json();
+      setTemperatureStats(response.ok && data.success ? data.data : null);
+    } catch {
+      setTemperatureStats(null);
+    }
+  }, [params.id]);
+
+  const fetchShipment = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const response = await apiFetch(`/api/shipments/${params.id}`);
+
+      if (response.status === 401) {
+        setApiKeyMessage(getStoredApiKey() ? 'The stored API key was rejected. Enter a valid key.' : null);
+        setNeedsApiKey(true);
+        return;
+      }
+      setNeedsApiKey(false);
+
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.message || data.error || `HTTP ${response.status}: ${response.statusText}`);
+      }
+      setDetail(data.data);
+      fetchTemperatureStats();
+    } catch (err) {
+      setDetail(null);
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setLoading(false);
+    }
+  }, [params.id, fetchTemperatureStats]);
+
+  useEffect(() => {
+    fetchShipment();
+  }, [fetchShipment]);
+
+  const handleApiKeySubmit = (apiKey: string) => {
+    setStoredApiKey(apiKey);
+    fetchShipment();
+  };
+
+  const shipment = detail?.shipment;
+
+  return (
+    <main className="min-vh-100 bg-light">
+      <div className="container-fluid py-4">
+        <div className="container">
+          <h1 className="display-5 fw-bold mb-2">Shipment {decodeURIComponent(params.id)}</h1>
+          <p className="text-muted">
+            <Link href="/shipments">&larr; All shipments</Link>
+          </p>
+          <DashboardNav />
+
+          {needsApiKey && <ApiKeyForm onSubmit={handleApiKeySubmit} message={apiKeyMessage} />}
+
+          {error && (
+            <div className="alert alert-danger" role="alert">
+              {error}
+            </div>
+          )}
+
+          {loading && !detail && !needsApiKey && (
+            <div className="text-center py-5">
+              <div className="spinner-border text-primary" role="status">
+                <span className="visually-hidden">Loading...</span>
+              </div>
+            </div>
+          )}
+
+          {detail && shipment && (
+            <>
+              <div className="card shadow-sm mb-4">
+                <div className="card-body">
+                  <div className="row g-3">
+                    <div className="col-md-3">
+                      <div className="small text-muted">Status</div>
+                      <span className={`badge ${getStatusBadgeClass(shipment.status)}`}>{formatStatus(shipment.status)}</span>
+                    </div>
+                    <div className="col-md-3">
+                      <div className="small text-muted">Public ID</div>
+                      <div>{shipment.publicId || 'N/A'}</div>
+                    </div>
+                    <div className="col-md-3">
+                      <div className="small text-muted">Carrier</div>
+                      <div>{shipment.carrier || 'N/A'}</div>
+                    </div>
+                    <div className="col-md-3">
+                      <div className="small text-muted">Description</div>
+                      <div>{shipment.description || 'N/A'}</div>
+                    </div>
+                    <div className="col-md-6">
+                      <div className="small text-muted">Origin</div>
+                      <div>{shipment.shipFromAddress || 'N/A'}</div>
+                    </div>
+                    <div className="col-md-6">
+                      <div className="small text-muted">Destination</div>
+                      <div>{shipment.shipToAddress || 'N/A'}</div>
+                    </div>
+                    <div className="col-md-6">
+                      <div className="small text-muted">First seen</div>
+                      <div>{formatTimestamp(shipment.firstSeenTs)}</div>
+                    </div>
+                    <div className="col-md-6">
+                      <div className="small text-muted">Last seen</div>
+                      <div>{formatTimestamp(shipment.lastSeenTs)}</div>
+                    </div>
+                    <div className="col-md-6">
+                      <div className="small text-muted">Distance travelled</div>
+                      <div>{formatNumber((shipment.distanceMeters ?? 0) / 1000, 1)} km</div>
+                    </div>
+                    <div className="col-md-6">
+                      <div className="small text-muted">Departed origin</div>
+                      <div>{shipment.departedTs !== null ? formatTimestamp(shipment.departedTs) : 'Not yet'}</div>
+                    </div>
+                    <div className="col-md-6">
+                      <div className="small text-muted">Expected arrival</div>
+                      <div>{shipment.expectedArrivalTs !== null ? formatTimestamp(shipment.expectedArrivalTs) : 'Not set'}</div>
+                    </div>
+                    <div className="col-md-6">
+                      <div className="small text-muted">Arrived at destination</div>
+                      <div>{shipment.arrivedTs !== null ? formatTimestamp(shipment.arrivedTs) : 'Not yet'}</div>
+                    </div>
+                  </div>
+                </div>
+              </div>
+
+              <div className="card shadow-sm mb-4">
+                <div className="card-header bg-white fw-semibold">Devices</div>
+                <div className="card-body p-0">
+                  <table className="table table-striped mb-0">
+                    <thead className="table-light">
+                      <tr>
+                        <th scope="col">Device IMEI</th>
+                        <th scope="col">Device ID</th>
+                        <th scope="col">First reading</th>
+                        <th scope="col">Last reading</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {detail.devices.map((device) => (
+                        <tr key={device.id}>
+                          <td className="font-monospace">{device.deviceImei}</td>
+                          <td>{device.deviceId}</td>
+                          <td>{formatTimestamp(device.firstTs)}</td>
+                          <td>{formatTimestamp(device.lastTs)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+
+              <div className="card shadow-sm mb-4">
+                <div className="card-header bg-white fw-semibold">Temperature</div>
+                <div className="card-body">
+                  <TemperatureChart points={detail.temperatureSeries} />
+                </div>
+              </div>
+
+              {temperatureStats && (
+                <div className="card shadow-sm mb-4">
+                  <div className="card-header bg-white fw-semibold">Temperature stability</div>
+                  <div className="card-body">
+                    <TemperatureStatsSummary
+                      stats={temperatureStats.stats}
+                      profile={temperatureStats.profile}
+                      truncated={temperatureStats.truncated}
+                    />
+                  </div>
+                </div>
+              )}
+
+              <div className="card shadow-sm mb-4">
+                <div className="card-header bg-white fw-semibold">Temperature excursions</div>
+                <div className="card-body p-0">
+                  {detail.excursions.length === 0 ? (
+                    <p className="text-muted p-3 mb-0">No excursions (or no temperature profile assigned).</p>
+                  ) : (
+                    <table className="table table-striped mb-0">
+                      <thead className="table-light">
+                        <tr>
+                          <th scope="col">Device IMEI</th>
+                          <th scope="col">Profile</th>
+                          <th scope="col">Start</th>
+                          <th scope="col">End</th>
+                          <th scope="col">Peak</th>
+                          <th scope="col">Duration</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {detail.excursions.map((excursion) => (
+                          <tr key={excursion.id}>
+                            <td className="font-monospace">{excursion.deviceImei}</td>
+                            <td>{excursion.profile.name}</td>
+                            <td>{formatTimestamp(excursion.startTs)}</td>
+                            <td>
+                              {excursion.endTs !== null ? (
+                                formatTimestamp(excursion.endTs)
+                              ) : (
+                                <span className="badge bg-danger">Open</span>
+                              )}
+                            </td>
+                            <td>
+                              {formatNumber(excursion.peakTemperature, 2)}°C
+                              <span className="text-muted small ms-1">({excursion.direction})</span>
+                            </td>
+                            <td>
+                              <span className={excursion.exceedsAllowance ? 'text-danger fw-semibold' : ''}>
+                                {formatDuration(excursion.durationMs)}
+                              </span>
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </div>
+              </div>
+
+              <div className="card shadow-sm mb-4">
+                <div className="card-header bg-white fw-semibold">Shock and drop events</div>
+                <div className="card-body p-0">
+                  <ShockEventsTable events={detail.shockEvents} />
+                </div>
+              </div>
+
+              <div className="card shadow-sm mb-4">
+                <div className="card-header bg-white fw-semibold">Geofence events</div>
+                <div className="card-body p-0">
+                  <GeofenceEventsTable events={detail.geofenceEvents} />
+                </div>
+              </div>
+
+              <div className="card shadow-sm mb-4">
+                <div className="card-header bg-white fw-semibold">Route</div>
+                <div className="card-body">
+                  <RouteMap
+                    route={detail.route}
+                    origin={{
+                      latitude: shipment.shipFromLat,
+                      longitude: shipment.shipFromLon,
+                      label: 'Origin',
+                    }}
+                    destination={{
+                      latitude: shipment.shipToLat,
+                      longitude: shipment.shipToLon,
+                      label: 'Destination',
+                    }}
+                  />
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,193 @@
+'use client';
+
+import { FormEvent, useCallback, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { DashboardNav } from '@/components/DashboardNav';
+import { ShipmentTable } from '@/components/ShipmentTable';
+import { ApiKeyForm } from '@/components/ApiKeyForm';
+import { ShipmentSummary } from '@/types/shipment';
+import { apiFetch, getStoredApiKey, setStoredApiKey } from '@/lib/api/client';
+
+interface ShipmentFilters {
+  q: string;
+  status: string;
+  carrier: string;
+  origin: string;
+  destination: string;
+  from: string;
+  to: string;
+}
+
+const EMPTY_FILTERS: ShipmentFilters = {
+  q: '',
+  status: '',
+  carrier: '',
+  origin: '',
+  destination: '',
+  from: '',
+  to: '',
+};
+
+function buildQuery(filters: ShipmentFilters): string {
+  const params = new URLSearchParams({ limit: '100' });
+  (Object.keys(filters) as Array<keyof ShipmentFilters>).forEach((key) => {
+    const value = filters[key].trim();
+    if (!value) return;
+    // Date inputs are local dates; send the whole day range
+    if (key === 'from') params.set(key, new Date(`${value}T00:00:00`).toISOString());
+    else if (key === 'to') params.set(key, new Date(`${value}T23:59:59.999`).toISOString());
+    else params.set(key, value);
+  });
+  return params.toString();
+}
+
+export default function ShipmentsPage() {
+  const router = useRouter();
+  const [shipments, setShipments] = useState<ShipmentSummary[]>([]);
+  const [filters, setFilters] = useState<ShipmentFilters>(EMPTY_FILTERS);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [needsApiKey, setNeedsApiKey] = useState(false);
+  const [apiKeyMessage, setApiKeyMessage] = useState<string | null>(null);
+
+  const fetchShipments = useCallback(async (activeFilters: ShipmentFilters) => {
+    try {
+      setLoading(true);
+      setError(null);
+      const response = await apiFetch(`/api/shipments?${buildQuery(activeFilters)}`);
+
+      if (response.status === 401) {
+        setShipments([]);
+        setApiKeyMessage(getStoredApiKey() ? 'The stored API key was rejected. Enter a valid key.' : null);
+        setNeedsApiKey(true);
+        return;
+      }
+      setNeedsApiKey(false);
+
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.message || data.error || `HTTP ${response.status}: ${response.statusText}`);
+      }
+      setShipments(data.data?.shipments || []);
+    } catch (err) {
+      setShipments([]);
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchShipments(EMPTY_FILTERS);
+  }, [fetchShipments]);
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    fetchShipments(filters);
+  };
+
+  const handleReset = () => {
+    setFilters(EMPTY_FILTERS);
+    fetchShipments(EMPTY_FILTERS);
+  };
+
+  const updateFilter = (key: keyof ShipmentFilters, value: string) => {
+    setFilters((current) => ({ ...current, [key]: value }));
+  };
+
+  const handleApiKeySubmit = (apiKey: string) => {
+    setStoredApiKey(apiKey);
+    fetchShipments(filters);
+  };
+
+  return (
+    <main className="min-vh-100 bg-light">
+      <div className="container-fluid py-4">
+        <div className="container">
+          <h1 className="display-5 fw-bold mb-2">Shipments</h1>
+          <p className="text-muted">Look up shipments by Tive shipment ID or public shipment ID</p>
+          <DashboardNav />
+
+          {needsApiKey ? (
+            <ApiKeyForm onSubmit={handleApiKeySubmit} message={apiKeyMessage} />
+          ) : (
+            <>
+              <form className="card shadow-sm mb-4" onSubmit={handleSubmit}>
+                <div className="card-body row g-2 align-items-end">
+                  <div className="col-md-3">
+                    <label className="form-label small text-muted" htmlFor="shipment-q">Shipment ID</label>
+                    <input id="shipment-q" className="form-control" placeholder="Shipment or public ID"
+                      value={filters.q} onChange={(e) => updateFilter('q', e.target.value)} />
+                  </div>
+                  <div className="col-md-2">
+                    <label className="form-label small text-muted" htmlFor="shipment-status">Status</label>
+                    <select id="shipment-status" className="form-select"
+                      value={filters.status} onChange={(e) => updateFilter('status', e.target.value)}>
+                      <option value="">Any</option>
+                      <option value="in_transit">In transit</option>
+                      <option value="arrived">Arrived</option>
+                      <option value="delivered">Delivered</option>
+                    </select>
+                  </div>
+                  <div className="col-md-2">
+                    <label className="form-label small text-muted" htmlFor="shipment-carrier">Carrier</label>
+                    <input id="shipment-carrier" className="form-control"
+                      value={filters.carrier} onChange={(e) => updateFilter('carrier', e.target.value)} />
+                  </div>
+                  <div className="col-md-2">
+                    <label className="form-label small text-muted" htmlFor="shipment-origin">Origin</label>
+                    <input id="shipment-origin" className="form-control"
+                      value={filters.origin} onChange={(e) => updateFilter('origin', e.target.value)} />
+                  </div>
+                  <div className="col-md-3">
+                    <label className="form-label small text-muted" htmlFor="shipment-destination">Destination</label>
+                    <input id="shipment-destination" className="form-control"
+                      value={filters.destination} onChange={(e) => updateFilter('destination', e.target.value)} />
+                  </div>
+                  <div className="col-md-2">
+                    <label className="form-label small text-muted" htmlFor="shipment-from">From</label>
+                    <input id="shipment-from" type="date" className="form-control"
+                      value={filters.from} onChange={(e) => updateFilter('from', e.target.value)} />
+                  </div>
+                  <div className="col-md-2">
+                    <label className="form-label small text-muted" htmlFor="shipment-to">To</label>
+                    <input id="shipment-to" type="date" className="form-control"
+                      value={filters.to} onChange={(e) => updateFilter('to', e.target.value)} />
+                  </div>
+                  <div className="col-md-auto d-flex gap-2">
+                    <button type="submit" className="btn btn-primary" disabled={loading}>
+                      <i className="bi bi-search me-2"></i>
+                      Search
+                    </button>
+                    <button type="button" className="btn btn-outline-secondary" onClick={handleReset} disabled={loading}>
+                      Reset
+                    </button>
+                  </div>
+                </div>
+              </form>
+
+              {error && (
+                <div className="alert alert-danger" role="alert">
+                  {error}
+                </div>
+              )}
+
+              {loading && shipments.length === 0 ? (
+                <div className="text-center py-5">
+                  <div className="spinner-border text-primary" role="status">
+                    <span className="visually-hidden">Loading...</span>
+                  </div>
+                </div>
+              ) : (
+                <ShipmentTable
+                  shipments={shipments}
+                  onRowClick={(shipment) => router.push(`/shipments/${encodeURIComponent(shipment.externalId)}`)}
+                />
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,50 @@
+'use client';
+
+import { FormEvent, useState } from 'react';
+
+interface ApiKeyFormProps {
+  onSubmit: (apiKey: string) => void;
+  message?: string | null;
+}
+
+export function ApiKeyForm({ onSubmit, message }: ApiKeyFormProps) {
+  const [apiKey, setApiKey] = useState('');
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    const trimmed = apiKey.trim();
+    if (trimmed) {
+      onSubmit(trimmed);
+    }
+  };
+
+  return (
+    <div className="card shadow-sm">
+      <div className="card-body">
+        <h5 className="card-title">API key required</h5>
+        <p className="text-muted">
+          Enter your API key to view your devices. The key is stored in this browser only.
+        </p>
+        {message && (
+          <div className="alert alert-warning py-2" role="alert">
+            {message}
+          </div>
+        )}
+        <form className="d-flex gap-2 flex-wrap" onSubmit={handleSubmit}>
+          <input
+            type="password"
+            className="form-control"
+            style={{ maxWidth: '28rem' }}
+            placeholder="API key"
+            autoComplete="off"
+            value={apiKey}
+            onChange={(e) => setApiKey(e.target.value)}
+          />
+          <button type="submit" className="btn btn-primary" disabled={!apiKey.trim()}>
+            Save key
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+'use client';
+
+import { DeviceCompletenessState } from '@/types/device';
+import { TimelineSegmentKind } from '@/lib/analytics/completeness';
+import { formatDuration, formatNumber, formatTimestamp } from '@/lib/utils/format';
+
+interface CompletenessTimelineProps {
+  completeness: DeviceCompletenessState;
+}
+
+const SEGMENT_CLASSES: Record<TimelineSegmentKind, string> = {
+  live: 'bg-success',
+  backfilled: 'bg-info',
+  gap: 'bg-danger',
+};
+
+const SEGMENT_LABELS: Record<TimelineSegmentKind, string> = {
+  live: 'Received live',
+  backfilled: 'Backfilled (buffered on the device)',
+  gap: 'Gap (no data)',
+};
+
+/**
+ * Completeness summary and a strip of live, backfilled and missing periods
+ */
+export function CompletenessTimeline({ completeness }: CompletenessTimelineProps) {
+  const { stats, timeline } = completeness;
+  if (stats.readingCount === 0 || stats.windowStartTs === null || stats.windowEndTs === null) {
+    return <p className="text-muted mb-0">No readings in this period.</p>;
+  }
+
+  const windowMs = Math.max(1, stats.windowMs);
+  const backfilledMs = completeness.backfilled.reduce((sum, period) => sum + (period.endTs - period.startTs), 0);
+
+  return (
+    <div>
+      <div className="row g-3 mb-3">
+        <div className="col-md-3">
+          <div className="small text-muted">Completeness</div>
+          <div className="fs-5 fw-semibold">
+            {stats.completenessPercent !== null ? `${formatNumber(stats.completenessPercent, 1)}%` : 'N/A'}
+          </div>
+        </div>
+        <div className="col-md-3">
+          <div className="small text-muted">Readings</div>
+          <div>
+            {stats.readingCount} of ~{stats.expectedReadings} expected
+          </div>
+        </div>
+        <div className="col-md-3">
+          <div className="small text-muted">Gaps</div>
+          <div className={stats.gapCount > 0 ? 'text-danger fw-semibold' : ''}>
+            {stats.gapCount > 0 ? `${formatDuration(stats.missingMs)} (${stats.gapCount})` : 'None'}
+          </div>
+        </div>
+        <div className="col-md-3">
+          <div className="small text-muted">Backfilled</div>
+          <div>
+            {stats.backfilledReadingCount > 0
+              ? `${stats.backfilledReadingCount} readings over ${formatDuration(backfilledMs)}`
+              : 'None'}
+          </div>
+        </div>
+      </div>
+
+      <div className="progress" style={{ height: 14 }} aria-label="Reporting timeline">
+        {timeline.map((segment) => (
+          <div
+            key={`${segment.kind}-${segment.startTs}`}
+            className={`progress-bar ${SEGMENT_CLASSES[segment.kind]}`}
+            style={{ width: `${((segment.endTs - segment.startTs) / windowMs) * 100}%` }}
+            title={`${SEGMENT_LABELS[segment.kind]}: ${formatTimestamp(segment.startTs)} – ${formatTimestamp(segment.endTs)}`}
+          />
+        ))}
+      </div>
+      <div className="d-flex justify-content-between small text-muted mt-1">
+        <span>{formatTimestamp(stats.windowStartTs)}</span>
+        <span>
+          Expected every {formatDuration(completeness.expectedIntervalMs)} ({completeness.intervalSource})
+        </span>
+        <span>{formatTimestamp(stats.windowEndTs)}</span>
+      </div>
+      <div className="d-flex gap-3 small mt-2">
+        {(Object.keys(SEGMENT_LABELS) as TimelineSegmentKind[]).map((kind) => (
+          <span key={kind}>
+            <span className={`d-inline-block rounded me-1 ${SEGMENT_CLASSES[kind]}`} style={{ width: 10, height: 10 }} />
+            {SEGMENT_LABELS[kind]}
+          </span>
+        ))}
+      </div>
+      {completeness.truncated && (
+        <p className="small text-warning mb-0 mt-2">Too many readings in this period: only the oldest were evaluated.</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,28 @@
+'use client';
+
+import Link from 'next/link';
+import { usePathname } from 'next/navigation';
+
+const NAV_ITEMS = [
+  { href: '/', label: 'Devices' },
+  { href: '/shipments', label: 'Shipments' },
+];
+
+export function DashboardNav() {
+  const pathname = usePathname();
+
+  return (
+    <ul className="nav nav-pills mb-4">
+      {NAV_ITEMS.map((item) => {
+        const active = item.href === '/' ? pathname === '/' : pathname?.startsWith(item.href);
+        return (
+          <li className="nav-item" key={item.href}>
+            <Link href={item.href} className={`nav-link ${active ? 'active' : ''}`}>
+              {item.label}
+            </Link>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -1,9 +1,20 @@
 'use client';
 
-import { useEffect } from 'react';
+import { useEffect, useState } from 'react';
 import { Modal } from 'react-bootstrap';
-import { DeviceState } from '@/types/device';
-import { formatNumber, formatTimestamp } from '@/lib/utils/format';
+import { DeviceCompletenessState, DeviceState, DeviceStopsState } from '@/types/device';
+import { DeviceTemperatureStatsState } from '@/types/temperature';
+import { ShockEventState } from '@/types/shock';
+import { TemperatureStatsSummary } from '@/components/TemperatureStatsSummary';
+import { ShockEventsTable } from '@/components/ShockEventsTable';
+import { RouteMap } from '@/components/RouteMap';
+import { DeviceStopsTable } from '@/components/DeviceStopsTable';
+import { CompletenessTimeline } from '@/components/CompletenessTimeline';
+import { apiFetch } from '@/lib/api/client';
+import { formatDuration, formatNumber, formatTimestamp } from '@/lib/utils/format';
+
+const TRACK_LIMIT = 1000; // Most recent locations drawn under the stops
+const COMPLETENESS_DAYS = 7; // Period of the reporting timeline
 
 interface DeviceModalProps {
   device: DeviceState | null;
@@ -12,6 +23,80 @@ interface DeviceModalProps {
 }
 
 export function DeviceModal({ device, isOpen, onClose }: DeviceModalProps) {
+  const [temperatureStats, setTemperatureStats] = useState<DeviceTemperatureStatsState | null>(null);
+  const [shockEvents, setShockEvents] = useState<ShockEventState[] | null>(null);
+  const [stops, setStops] = useState<DeviceStopsState | null>(null);
+  const [track, setTrack] = useState<Array<{ latitude: number; longitude: number }>>([]);
+  const [completeness, setCompleteness] = useState<DeviceCompletenessState | null>(null);
+  const deviceImei = device?.deviceImei;
+
+  // Load the device's temperature statistics, recent shock events, stops and reporting timeline when the modal opens
+  useEffect(() => {
+    if (!isOpen || !deviceImei) return;
+
+    let cancelled = false;
+    setTemperatureStats(null);
+    setShockEvents(null);
+    setStops(null);
+    setTrack([]);
+    setCompleteness(null);
+    apiFetch(`/api/devices/${deviceImei}/temperature-stats`)
+      .then(async (response) => {
+        const data = await response.json();
+        if (!cancelled && response.ok && data.success) {
+          setTemperatureStats(data.data);
+        }
+      })
+      .catch(() => {
+        // Statistics are optional; the modal shows the latest state without them
+      });
+    apiFetch(`/api/shock-events?device=${deviceImei}&limit=10`)
+      .then(async (response) => {
+        const data = await response.json();
+        if (!cancelled && response.ok && data.success) {
+          setShockEvents(data.data.shockEvents);
+        }
+      })
+      .catch(() => {
+        // Shock events are optional as well
+      });
+    apiFetch(`/api/devices/${deviceImei}/stops`)
+      .then(async (response) => {
+        const data = await response.json();
+        if (!cancelled && response.ok && data.success) {
+          setStops(data.data);
+        }
+      })
+      .catch(() => {
+        // Stops are optional as well
+      });
+    apiFetch(`/api/devices/${deviceImei}/locations?fields=latitude,longitude&limit=${TRACK_LIMIT}`)
+      .then(async (response) => {
+        const data = await response.json();
+        if (!cancelled && response.ok && data.success) {
+          setTrack([...data.data.locations].reverse());
+        }
+      })
+      .catch(() => {
+        // Without the track the stops are drawn on their own
+      });
+    const completenessFrom = Date.now() - COMPLETENESS_DAYS * 24 * 60 * 60 * 1000;
+    apiFetch(`/api/devices/${deviceImei}/completeness?from=${completenessFrom}`)
+      .then(async (response) => {
+        const data = await response.json();
+        if (!cancelled && response.ok && data.success) {
+          setCompleteness(data.data);
+        }
+      })
+      .catch(() => {
+        // The timeline is optional as well
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, deviceImei]);
+
   // Handle ESC key to close modal
   useEffect(() => {
     if (!isOpen) return;
@@ -51,6 +136,9 @@ export function DeviceModal({ device, isOpen, onClose }: DeviceModalProps) {
             {device.deviceId}
           </Modal.Title>
           <p className="text-muted small mb-0 font-monospace">{device.deviceImei}</p>
+          {device.entityName && device.entityName !== device.deviceId && (
+            <p className="text-muted small mb-0">{device.entityName}</p>
+          )}
         </div>
       </Modal.Header>
 
@@ -61,9 +149,19 @@ export function DeviceModal({ device, isOpen, onClose }: DeviceModalProps) {
             <div className="col-md-6">
               <h6 className="text-uppercase text-muted fw-bold mb-3">Sensor Data</h6>
               <div className="list-group list-group-flush">
-                <DetailRow label="Temperature" value={device.lastTemperature !== null ? `${formatNumber(device.lastTemperature, 2)}°C` : 'N/A'} />
+                <DetailRow label="Temperature" value={formatTemperature(device.lastTemperature, device.lastTemperatureFahrenheit)} />
+                {(device.lastProbeTemperature !== null || device.temperatureChannel === 'probe') && (
+                  <>
+                    <DetailRow
+                      label="Probe Temperature"
+                      value={formatTemperature(device.lastProbeTemperature, device.lastProbeTemperatureFahrenheit)}
+                    />
+                    <DetailRow label="Primary Channel" value={device.temperatureChannel === 'probe' ? 'Probe' : 'Ambient'} />
+                  </>
+                )}
                 <DetailRow label="Humidity" value={device.lastHumidity !== null ? `${formatNumber(device.lastHumidity, 1)}%` : 'N/A'} />
                 <DetailRow label="Light Level" value={device.lastLightLevel !== null ? `${formatNumber(device.lastLightLevel, 1)} lux` : 'N/A'} />
+                <DetailRow label="Box" value={device.lastBoxOpen === null ? 'N/A' : device.lastBoxOpen ? 'Open' : 'Closed'} />
                 {device.lastAccelerometerX !== null && (
                   <>
                     <hr className="my-2" />
@@ -71,6 +169,7 @@ export function DeviceModal({ device, isOpen, onClose }: DeviceModalProps) {
                     <DetailRow label="Accelerometer Y" value={formatNumber(device.lastAccelerometerY, 3)} />
                     <DetailRow label="Accelerometer Z" value={formatNumber(device.lastAccelerometerZ, 3)} />
                     <DetailRow label="Magnitude" value={formatNumber(device.lastAccelerometerMagnitude, 3)} />
+                    <DetailRow label="Tilt" value={device.lastTilt !== null ? `${formatNumber(device.lastTilt, 1)}°` : 'N/A'} />
                   </>
                 )}
               </div>
@@ -93,9 +192,89 @@ export function DeviceModal({ device, isOpen, onClose }: DeviceModalProps) {
                   </div>
                 )}
                 <DetailRow label="Source" value={device.locationSource || 'N/A'} />
+                {device.geolocationSource && (
+                  <DetailRow label="Geolocation Service" value={device.geolocationSource} />
+                )}
+                <DetailRow
+                  label="Movement"
+                  value={
+                    device.movementState === null
+                      ? 'N/A'
+                      : device.movementState === 'moving'
+                        ? `Moving at ${formatNumber(device.lastSpeedKmh, 1)} km/h`
+                        : 'Stationary'
+                  }
+                />
+                {device.movementSinceTs !== null && (
+                  <DetailRow label="Since" value={formatTimestamp(device.movementSinceTs)} />
+                )}
               </div>
             </div>
 
+            {/* Temperature Stability Section */}
+            {temperatureStats && (
+              <div className="col-12">
+                <hr />
+                <h6 className="text-uppercase text-muted fw-bold mb-3">Temperature Stability</h6>
+                <TemperatureStatsSummary
+                  stats={temperatureStats.stats}
+                  profile={temperatureStats.profile}
+                  truncated={temperatureStats.truncated}
+                />
+              </div>
+            )}
+
+            {/* Reporting Timeline Section */}
+            {completeness && (
+              <div className="col-12">
+                <hr />
+                <h6 className="text-uppercase text-muted fw-bold mb-3">Reporting (last {COMPLETENESS_DAYS} days)</h6>
+                <CompletenessTimeline completeness={completeness} />
+              </div>
+            )}
+
+            {/* Shock Events Section */}
+            {shockEvents && (
+              <div className="col-12">
+                <hr />
+                <h6 className="text-uppercase text-muted fw-bold mb-3">Recent Shock Events</h6>
+                <ShockEventsTable events={shockEvents} showDevice={false} />
+              </div>
+            )}
+
+            {/* Stops Section */}
+            {stops && (
+              <div className="col-12">
+                <hr />
+                <h6 className="text-uppercase text-muted fw-bold mb-3">Stops</h6>
+                <p className="small text-muted">
+                  Stays of at least {formatDuration(stops.minDurationMinutes * 60000)} within {stops.radiusMeters}m
+                  (amber markers on the track)
+                </p>
+                {(stops.locationsTruncated || stops.readingsTruncated) && (
+                  <p className="small text-warning">
+                    {stops.locationsTruncated
+                      ? 'Too many locations in this period: only the most recent were clustered.'
+                      : 'Too many readings during a stop: only the oldest were evaluated.'}
+                  </p>
+                )}
+                {stops.stops.length > 0 && (
+                  <div className="mb-3">
+                    <RouteMap
+                      route={track}
+                      stops={stops.stops.map((stop) => ({
+                        latitude: stop.latitude,
+                        longitude: stop.longitude,
+                        label: `${formatTimestamp(stop.startTs)} for ${formatDuration(stop.durationMs)}`,
+                      }))}
+                      height={260}
+                    />
+                  </div>
+                )}
+                <DeviceStopsTable stops={stops.stops} />
+              </div>
+            )}
+
             {/* Address Section */}
             {device.addressFullAddress && (
               <div className="col-12">
@@ -139,6 +318,22 @@ export function DeviceModal({ device, isOpen, onClose }: DeviceModalProps) {
               <hr />
               <h6 className="text-uppercase text-muted fw-bold mb-3">Device Status</h6>
               <div className="row g-3">
+                <div className="col-md-6">
+                  <DetailRow
+                    label="Connectivity"
+                    value={
+                      device.connectivitySinceTs !== null
+                        ? `${device.connectivityStatus} since ${formatTimestamp(device.connectivitySinceTs)}`
+                        : device.connectivityStatus
+                    }
+                  />
+                </div>
+                <div className="col-md-6">
+                  <DetailRow
+                    label="Reporting Interval"
+                    value={device.reportingIntervalMs !== null ? formatDuration(device.reportingIntervalMs) : 'Not learned yet'}
+                  />
+                </div>
                 <div className="col-md-6">
                   {device.batteryLevel !== null ? (
                     <div className="d-flex justify-content-between align-items-center py-2 border-bottom">
@@ -152,7 +347,29 @@ export function DeviceModal({ device, isOpen, onClose }: DeviceModalProps) {
                   )}
                 </div>
                 <div className="col-md-6">
-                  <DetailRow label="Cellular Signal" value={device.cellularDbm !== null ? `${formatNumber(device.cellularDbm, 1)} dBm` : 'N/A'} />
+                  <DetailRow label="Battery Life" value={device.batteryEstimation || 'N/A'} />
+                </div>
+                <div className="col-md-6">
+                  <DetailRow label="Charging" value={device.batteryCharging === null ? 'N/A' : device.batteryCharging ? 'Yes' : 'No'} />
+                </div>
+                <div className="col-md-6">
+                  <DetailRow label="Battery Forecast" value={formatBatteryForecast(device)} />
+                </div>
+                <div className="col-md-6">
+                  <DetailRow
+                    label="Battery Drain"
+                    value={device.batteryDrainPerDay !== null ? `${formatNumber(device.batteryDrainPerDay, 2)}% per day` : 'N/A'}
+                  />
+                </div>
+                <div className="col-md-6">
+                  <DetailRow
+                    label="Cellular Signal"
+                    value={
+                      device.cellularDbm !== null
+                        ? `${formatNumber(device.cellularDbm, 1)} dBm${device.cellularSignalStrength ? ` (${device.cellularSignalStrength})` : ''}`
+                        : device.cellularSignalStrength || 'N/A'
+                    }
+                  />
                 </div>
                 <div className="col-md-6">
                   <DetailRow label="Network Type" value={device.cellularNetworkType || 'N/A'} />
@@ -163,6 +380,9 @@ export function DeviceModal({ device, isOpen, onClose }: DeviceModalProps) {
                 <div className="col-md-6">
                   <DetailRow label="WiFi APs" value={device.wifiAccessPoints !== null ? device.wifiAccessPoints.toString() : 'N/A'} />
                 </div>
+                <div className="col-md-6">
+                  <DetailRow label="Cell Towers" value={device.cellTowers !== null ? device.cellTowers.toString() : 'N/A'} />
+                </div>
               </div>
             </div>
 
@@ -180,6 +400,9 @@ export function DeviceModal({ device, isOpen, onClose }: DeviceModalProps) {
                 <div className="col-md-6">
                   <DetailRow label="Last Updated" value={formatTimestamp(new Date(device.updatedAt).getTime())} />
                 </div>
+                <div className="col-md-6">
+                  <DetailRow label="Late Arrivals" value={device.lateArrivalCount} />
+                </div>
               </div>
             </div>
           </div>
@@ -195,6 +418,35 @@ export function DeviceModal({ device, isOpen, onClose }: DeviceModalProps) {
   );
 }
 
+function formatTemperature(celsius: number | null, fahrenheit: number | null): string {
+  if (celsius === null) return 'N/A';
+  return fahrenheit !== null
+    ? `${formatNumber(celsius, 2)}°C (${formatNumber(fahrenheit, 1)}°F)`
+    : `${formatNumber(celsius, 2)}°C`;
+}
+
+/**
+ * Forecast status with the predicted time the battery is empty
+ */
+function formatBatteryForecast(device: DeviceState): string {
+  switch (device.batteryForecastStatus) {
+    case 'charging':
+      return 'Charging';
+    case 'stable':
+      return 'Not draining';
+    case 'draining':
+    case 'at_risk': {
+      if (device.batteryEmptyTs === null) return 'N/A';
+      const empty = `Empty ~${formatTimestamp(device.batteryEmptyTs)}`;
+      return device.batteryForecastStatus === 'at_risk' ? `${empty} (before arrival)` : empty;
+    }
+    case 'insufficient_data':
+      return 'Not enough history';
+    default:
+      return 'N/A';
+  }
+}
+
 function DetailRow({ label, value }: { label: string; value: string | number }) {
   return (
     <div className="d-flex justify-content-between align-items-center py-2 border-bottom">
@@ -0,0 +1,57 @@
+'use client';
+
+import { DeviceStopState } from '@/types/device';
+import { formatDuration, formatNumber, formatTimestamp } from '@/lib/utils/format';
+
+interface DeviceStopsTableProps {
+  stops: DeviceStopState[];
+}
+
+/**
+ * Stops of a device with the temperature while stopped, most recent first
+ */
+export function DeviceStopsTable({ stops }: DeviceStopsTableProps) {
+  if (stops.length === 0) {
+    return <p className="text-muted mb-0">No stops.</p>;
+  }
+
+  return (
+    <table className="table table-striped table-sm mb-0">
+      <thead className="table-light">
+        <tr>
+          <th scope="col">Start</th>
+          <th scope="col">Duration</th>
+          <th scope="col">Location</th>
+          <th scope="col">Min / max</th>
+          <th scope="col">MKT</th>
+          <th scope="col">Out of range</th>
+        </tr>
+      </thead>
+      <tbody>
+        {[...stops].reverse().map((stop) => {
+          const temperature = stop.temperature;
+          const outOfRangeMs =
+            temperature.aboveRangeMs !== null ? temperature.aboveRangeMs + (temperature.belowRangeMs ?? 0) : null;
+          return (
+            <tr key={stop.startTs}>
+              <td>{formatTimestamp(stop.startTs)}</td>
+              <td>{formatDuration(stop.durationMs)}</td>
+              <td className="font-monospace small">
+                {formatNumber(stop.latitude, 5)}, {formatNumber(stop.longitude, 5)}
+              </td>
+              <td>
+                {temperature.readingCount > 0
+                  ? `${formatNumber(temperature.minTemperature, 1)}°C / ${formatNumber(temperature.maxTemperature, 1)}°C`
+                  : 'N/A'}
+              </td>
+              <td>{temperature.mkt !== null ? `${formatNumber(temperature.mkt, 2)}°C` : 'N/A'}</td>
+              <td className={outOfRangeMs ? 'text-danger fw-semibold' : ''}>
+                {outOfRangeMs !== null ? formatDuration(outOfRangeMs) : 'N/A'}
+              </td>
+            </tr>
+          );
+        })}
+      </tbody>
+    </table>
+  );
+}
@@ -1,7 +1,9 @@
 'use client';
 
 import { DeviceState } from '@/types/device';
-import { formatNumber, formatTimestamp } from '@/lib/utils/format';
+import { TemperatureProfileState } from '@/types/temperature';
+import { getChannelTemperature } from '@/lib/analytics/temperature-channels';
+import { formatDuration, formatNumber, formatTimestamp } from '@/lib/utils/format';
 
 interface DeviceTableProps {
   devices: DeviceState[];
@@ -27,6 +29,7 @@ export function DeviceTable({ devices, onRowClick }: DeviceTableProps) {
             <thead className="table-light">
               <tr>
                 <th scope="col">Device</th>
+                <th scope="col">Status</th>
                 <th scope="col">Temperature</th>
                 <th scope="col">Location</th>
                 <th scope="col">Battery</th>
@@ -57,13 +60,10 @@ export function DeviceTable({ devices, onRowClick }: DeviceTableProps) {
                     </div>
                   </td>
                   <td>
-                    {device.lastTemperature !== null ? (
-                      <span className={`badge ${getTemperatureBadgeClass(device.lastTemperature)}`}>
-                        {formatNumber(device.lastTemperature, 2)}°C
-                      </span>
-                    ) : (
-                      <span className="text-muted">N/A</span>
-                    )}
+                    <ConnectivityBadge device={device} />
+                  </td>
+                  <td>
+                    <TemperatureBadge device={device} />
                   </td>
                   <td>
                     {device.lastLat !== null && device.lastLon !== null ? (
@@ -83,9 +83,12 @@ export function DeviceTable({ devices, onRowClick }: DeviceTableProps) {
                   </td>
                   <td>
                     {device.batteryLevel !== null ? (
-                      <span className={`badge ${getBatteryBadgeClass(device.batteryLevel)}`}>
-                        {device.batteryLevel}%
-                      </span>
+                      <>
+                        <span className={`badge ${getBatteryBadgeClass(device.batteryLevel)}`}>
+                          {device.batteryLevel}%
+                        </span>
+                        <BatteryForecastHint device={device} />
+                      </>
                     ) : (
                       <span className="text-muted">N/A</span>
                     )}
@@ -124,9 +127,82 @@ export function DeviceTable({ devices, onRowClick }: DeviceTableProps) {
   );
 }
 
-function getTemperatureBadgeClass(temp: number): string {
-  if (temp < -20 || temp > 30) return 'bg-danger';
-  if (temp < 2 || temp > 8) return 'bg-warning text-dark';
+/**
+ * Connectivity status from the scheduled check, with the time it started in the tooltip
+ */
+function ConnectivityBadge({ device }: { device: DeviceState }) {
+  const since = device.connectivitySinceTs !== null ? `since ${formatTimestamp(device.connectivitySinceTs)}` : null;
+  return (
+    <span className={`badge ${getConnectivityBadgeClass(device.connectivityStatus)} text-capitalize`} title={since ?? undefined}>
+      {device.connectivityStatus}
+    </span>
+  );
+}
+
+/**
+ * Predicted time to empty under the battery badge; flagged when the battery is predicted to
+ * be empty before the shipment arrives
+ */
+function BatteryForecastHint({ device }: { device: DeviceState }) {
+  if (device.batteryForecastStatus === 'charging') {
+    return <div className="text-muted small">Charging</div>;
+  }
+  if (device.batteryEmptyTs === null) {
+    return null;
+  }
+
+  const remainingMs = Math.max(0, device.batteryEmptyTs - Date.now());
+  const atRisk = device.batteryForecastStatus === 'at_risk';
+  return (
+    <div
+      className={`small ${atRisk ? 'text-danger fw-semibold' : 'text-muted'}`}
+      title={`Predicted empty at ${formatTimestamp(device.batteryEmptyTs)}`}
+    >
+      {atRisk && <i className="bi bi-exclamation-triangle me-1" aria-label="Empty before arrival"></i>}
+      ~{formatDuration(remainingMs)} left
+    </div>
+  );
+}
+
+/**
+ * Latest temperature of the device's primary channel, colored against its profile
+ */
+function TemperatureBadge({ device }: { device: DeviceState }) {
+  const temp = getChannelTemperature(
+    { temperature: device.lastTemperature, probeTemperature: device.lastProbeTemperature },
+    device.temperatureChannel
+  );
+  const channelLabel = device.temperatureChannel === 'probe' ? 'Probe' : null;
+
+  if (temp === null) {
+    return <span className="text-muted">N/A{channelLabel && <span className="small ms-1">({channelLabel})</span>}</span>;
+  }
+
+  return (
+    <>
+      <span
+        className={`badge ${getTemperatureBadgeClass(temp, device.temperatureProfile)}`}
+        title={device.temperatureProfile?.name ?? 'No temperature profile'}
+      >
+        {formatNumber(temp, 2)}°C
+      </span>
+      {channelLabel && <span className="text-muted small ms-1">{channelLabel}</span>}
+    </>
+  );
+}
+
+function getTemperatureBadgeClass(temp: number, profile: TemperatureProfileState | null): string {
+  // Without a profile there is no allowed range to compare against
+  if (!profile) return 'bg-secondary';
+  if ((profile.maxTemp !== null && temp > profile.maxTemp) || (profile.minTemp !== null && temp < profile.minTemp)) {
+    return 'bg-danger';
+  }
+  return 'bg-success';
+}
+
+function getConnectivityBadgeClass(status: string): string {
+  if (status === 'offline') return 'bg-danger';
+  if (status === 'late') return 'bg-warning text-dark';
   return 'bg-success';
 }
 
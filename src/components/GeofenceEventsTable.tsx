@@ -0,0 +1,54 @@
+'use client';
+
+import { GeofenceEventState } from '@/types/geofence';
+import { formatDuration, formatTimestamp } from '@/lib/utils/format';
+
+interface GeofenceEventsTableProps {
+  events: GeofenceEventState[];
+  showDevice?: boolean;
+}
+
+const TYPE_BADGES: Record<string, string> = {
+  enter: 'bg-success',
+  exit: 'bg-secondary',
+  dwell: 'bg-info text-dark',
+};
+
+/**
+ * Geofence enter, exit and dwell events, most recent first
+ */
+export function GeofenceEventsTable({ events, showDevice = true }: GeofenceEventsTableProps) {
+  if (events.length === 0) {
+    return <p className="text-muted p-3 mb-0">No geofence events.</p>;
+  }
+
+  return (
+    <table className="table table-striped mb-0">
+      <thead className="table-light">
+        <tr>
+          {showDevice && <th scope="col">Device IMEI</th>}
+          <th scope="col">Time</th>
+          <th scope="col">Event</th>
+          <th scope="col">Geofence</th>
+          <th scope="col">Time inside</th>
+        </tr>
+      </thead>
+      <tbody>
+        {events.map((event) => (
+          <tr key={event.id}>
+            {showDevice && <td className="font-monospace">{event.deviceImei}</td>}
+            <td>{formatTimestamp(event.ts)}</td>
+            <td>
+              <span className={`badge ${TYPE_BADGES[event.type] ?? 'bg-secondary'}`}>{event.type}</span>
+            </td>
+            <td>
+              {event.geofence.name}
+              {event.geofence.role && <span className="text-muted small ms-1">({event.geofence.role})</span>}
+            </td>
+            <td>{event.durationMs !== null ? formatDuration(event.durationMs) : '-'}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
@@ -0,0 +1,102 @@
+'use client';
+
+import { ShipmentRoutePoint } from '@/types/shipment';
+
+interface RouteEndpoint {
+  latitude: number | null;
+  longitude: number | null;
+  label: string;
+}
+
+interface RouteStop {
+  latitude: number;
+  longitude: number;
+  label: string;
+}
+
+interface RouteMapProps {
+  route: Array<Pick<ShipmentRoutePoint, 'latitude' | 'longitude'>>;
+  origin?: RouteEndpoint;
+  destination?: RouteEndpoint;
+  stops?: RouteStop[];
+  height?: number;
+}
+
+const WIDTH = 800;
+const PADDING = 24;
+
+/**
+ * Route of a shipment or device drawn as an SVG polyline (no map tiles), with optional stops
+ * drawn as amber markers
+ * Uses an equirectangular projection scaled by the mean latitude,
+ * which is accurate enough to show the shape of a route
+ */
+export function RouteMap({ route, origin, destination, stops = [], height = 320 }: RouteMapProps) {
+  const endpoints = [origin, destination].filter(
+    (endpoint): endpoint is RouteEndpoint & { latitude: number; longitude: number } =>
+      !!endpoint && endpoint.latitude !== null && endpoint.longitude !== null
+  );
+  const coordinates = [
+    ...route.map((point) => ({ lat: point.latitude, lon: point.longitude })),
+    ...endpoints.map((endpoint) => ({ lat: endpoint.latitude, lon: endpoint.longitude })),
+    ...stops.map((stop) => ({ lat: stop.latitude, lon: stop.longitude })),
+  ];
+
+  if (coordinates.length === 0) {
+    return <p className="text-muted mb-0">No locations yet.</p>;
+  }
+
+  const meanLat = coordinates.reduce((sum, c) => sum + c.lat, 0) / coordinates.length;
+  const lonScale = Math.cos((meanLat * Math.PI) / 180);
+  const projected = coordinates.map((c) => ({ px: c.lon * lonScale, py: -c.lat }));
+  const minX = Math.min(...projected.map((p) => p.px));
+  const maxX = Math.max(...projected.map((p) => p.px));
+  const minY = Math.min(...projected.map((p) => p.py));
+  const maxY = Math.max(...projected.map((p) => p.py));
+  const span = Math.max(maxX - minX, maxY - minY, 1e-6);
+  const scale = Math.min((WIDTH - 2 * PADDING) / span, (height - 2 * PADDING) / span);
+  const offsetX = (WIDTH - (maxX - minX) * scale) / 2;
+  const offsetY = (height - (maxY - minY) * scale) / 2;
+
+  const project = (lat: number, lon: number) => ({
+    x: offsetX + (lon * lonScale - minX) * scale,
+    y: offsetY + (-lat - minY) * scale,
+  });
+
+  const points = route.map((point) => project(point.latitude, point.longitude));
+  const last = points[points.length - 1];
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${height}`} className="w-100 border rounded bg-white" role="img" aria-label="Route">
+      {points.length > 1 && (
+        <polyline
+          points={points.map((p) => `${p.x.toFixed(1)},${p.y.toFixed(1)}`).join(' ')}
+          fill="none"
+          stroke="#0d6efd"
+          strokeWidth="2"
+          strokeLinejoin="round"
+        />
+      )}
+      {endpoints.map((endpoint) => {
+        const p = project(endpoint.latitude, endpoint.longitude);
+        return (
+          <g key={endpoint.label}>
+            <rect x={p.x - 5} y={p.y - 5} width="10" height="10" fill="#198754" />
+            <text x={p.x + 8} y={p.y + 4} fontSize="12" fill="#198754">
+              {endpoint.label}
+            </text>
+          </g>
+        );
+      })}
+      {stops.map((stop, index) => {
+        const p = project(stop.latitude, stop.longitude);
+        return (
+          <circle key={index} cx={p.x} cy={p.y} r="7" fill="#ffc107" fillOpacity="0.85" stroke="#664d03" strokeWidth="1">
+            <title>{stop.label}</title>
+          </circle>
+        );
+      })}
+      {last && <circle cx={last.x} cy={last.y} r="6" fill="#dc3545" stroke="#fff" strokeWidth="2" />}
+    </svg>
+  );
+}
@@ -0,0 +1,90 @@
+'use client';
+
+import { ShipmentSummary } from '@/types/shipment';
+import { formatTimestamp } from '@/lib/utils/format';
+
+interface ShipmentTableProps {
+  shipments: ShipmentSummary[];
+  onRowClick: (shipment: ShipmentSummary) => void;
+}
+
+export function ShipmentTable({ shipments, onRowClick }: ShipmentTableProps) {
+  if (shipments.length === 0) {
+    return (
+      <div className="card shadow-sm">
+        <div className="card-body text-center py-5">
+          <p className="text-muted mb-0">No shipments found. Shipments appear once payloads with a Shipment block arrive.</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="card shadow-sm">
+      <div className="card-body p-0">
+        <div className="table-responsive">
+          <table className="table table-hover table-striped mb-0">
+            <thead className="table-light">
+              <tr>
+                <th scope="col">Shipment</th>
+                <th scope="col">Carrier</th>
+                <th scope="col">Origin</th>
+                <th scope="col">Destination</th>
+                <th scope="col">Status</th>
+                <th scope="col">Devices</th>
+                <th scope="col">Last Seen</th>
+              </tr>
+            </thead>
+            <tbody>
+              {shipments.map((shipment) => (
+                <tr
+                  key={shipment.id}
+                  onClick={() => onRowClick(shipment)}
+                  role="button"
+                  tabIndex={0}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter' || e.key === ' ') {
+                      e.preventDefault();
+                      onRowClick(shipment);
+                    }
+                  }}
+                  aria-label={`View details for shipment ${shipment.externalId}`}
+                >
+                  <td>
+                    <div className="fw-semibold font-monospace">{shipment.externalId}</div>
+                    {shipment.publicId && (
+                      <div className="text-muted small font-monospace">{shipment.publicId}</div>
+                    )}
+                    {shipment.description && (
+                      <div className="text-muted small">{shipment.description}</div>
+                    )}
+                  </td>
+                  <td>{shipment.carrier || <span className="text-muted">N/A</span>}</td>
+                  <td className="small">{shipment.shipFromAddress || <span className="text-muted">N/A</span>}</td>
+                  <td className="small">{shipment.shipToAddress || <span className="text-muted">N/A</span>}</td>
+                  <td>
+                    <span className={`badge ${getStatusBadgeClass(shipment.status)}`}>
+                      {formatStatus(shipment.status)}
+                    </span>
+                  </td>
+                  <td>{shipment.deviceCount}</td>
+                  <td className="text-muted small">{formatTimestamp(shipment.lastSeenTs)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export function formatStatus(status: string): string {
+  return status.replace(/_/g, ' ').replace(/^\w/, (c) => c.toUpperCase());
+}
+
+export function getStatusBadgeClass(status: string): string {
+  if (status === 'in_transit') return 'bg-primary';
+  if (status === 'delivered' || status === 'arrived') return 'bg-success';
+  return 'bg-secondary';
+}
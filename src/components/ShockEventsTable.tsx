@@ -0,0 +1,53 @@
+'use client';
+
+import { ShockEventState } from '@/types/shock';
+import { formatNumber, formatTimestamp } from '@/lib/utils/format';
+
+interface ShockEventsTableProps {
+  events: ShockEventState[];
+  showDevice?: boolean;
+}
+
+const SEVERITY_BADGES: Record<string, string> = {
+  minor: 'bg-secondary',
+  major: 'bg-warning text-dark',
+  severe: 'bg-danger',
+};
+
+/**
+ * Shock and drop events, most recent first
+ */
+export function ShockEventsTable({ events, showDevice = true }: ShockEventsTableProps) {
+  if (events.length === 0) {
+    return <p className="text-muted p-3 mb-0">No shock or drop events.</p>;
+  }
+
+  return (
+    <table className="table table-striped mb-0">
+      <thead className="table-light">
+        <tr>
+          {showDevice && <th scope="col">Device IMEI</th>}
+          <th scope="col">Time</th>
+          <th scope="col">Type</th>
+          <th scope="col">Severity</th>
+          <th scope="col">Peak</th>
+          <th scope="col">Readings</th>
+        </tr>
+      </thead>
+      <tbody>
+        {events.map((event) => (
+          <tr key={event.id}>
+            {showDevice && <td className="font-monospace">{event.deviceImei}</td>}
+            <td>{formatTimestamp(event.startTs)}</td>
+            <td className="text-capitalize">{event.kind}</td>
+            <td>
+              <span className={`badge ${SEVERITY_BADGES[event.severity] ?? 'bg-secondary'}`}>{event.severity}</span>
+            </td>
+            <td>{formatNumber(event.peakMagnitude, 2)} g</td>
+            <td>{event.readingCount}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
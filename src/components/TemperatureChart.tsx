@@ -0,0 +1,98 @@
+'use client';
+
+import { ShipmentTemperaturePoint } from '@/types/shipment';
+import { formatNumber, formatTimestamp } from '@/lib/utils/format';
+
+interface TemperatureChartProps {
+  points: ShipmentTemperaturePoint[];
+  height?: number;
+}
+
+const WIDTH = 800;
+const PADDING = { top: 16, right: 16, bottom: 28, left: 48 };
+
+const SERIES = [
+  { key: 'temperature', label: 'Ambient', color: '#0d6efd' },
+  { key: 'probeTemperature', label: 'Probe', color: '#fd7e14' },
+] as const;
+
+/**
+ * Ambient and probe temperature over time as an SVG line chart (no charting dependency)
+ * The probe series and the legend are only drawn when the shipment has probe readings.
+ */
+export function TemperatureChart({ points, height = 240 }: TemperatureChartProps) {
+  const series = SERIES.map((definition) => ({
+    ...definition,
+    readings: points
+      .filter((point) => point[definition.key] !== null)
+      .map((point) => ({ ts: point.ts, temperature: point[definition.key] as number })),
+  })).filter((definition) => definition.readings.length > 0);
+
+  if (series.length === 0) {
+    return <p className="text-muted mb-0">No temperature readings for this shipment yet.</p>;
+  }
+
+  const readings = series.flatMap((definition) => definition.readings);
+  const timestamps = readings.map((point) => point.ts);
+  const minTs = Math.min(...timestamps);
+  const maxTs = Math.max(...timestamps);
+  const temperatures = readings.map((point) => point.temperature);
+  const minTemp = Math.floor(Math.min(...temperatures) - 1);
+  const maxTemp = Math.ceil(Math.max(...temperatures) + 1);
+
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = height - PADDING.top - PADDING.bottom;
+  const x = (ts: number) => PADDING.left + (maxTs === minTs ? plotWidth / 2 : ((ts - minTs) / (maxTs - minTs)) * plotWidth);
+  const y = (temp: number) => PADDING.top + ((maxTemp - temp) / (maxTemp - minTemp)) * plotHeight;
+
+  const ticks = [minTemp, (minTemp + maxTemp) / 2, maxTemp];
+  const showLegend = series.length > 1 || series[0].key === 'probeTemperature';
+
+  return (
+    <svg
+      viewBox={`0 0 ${WIDTH} ${height}`}
+      className="w-100"
+      role="img"
+      aria-label={`Temperature from ${formatNumber(Math.min(...temperatures), 1)}°C to ${formatNumber(Math.max(...temperatures), 1)}°C`}
+    >
+      {ticks.map((tick) => (
+        <g key={tick}>
+          <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y(tick)} y2={y(tick)} stroke="#dee2e6" />
+          <text x={PADDING.left - 6} y={y(tick) + 4} textAnchor="end" fontSize="11" fill="#6c757d">
+            {formatNumber(tick, 1)}°C
+          </text>
+        </g>
+      ))}
+      {series.map(({ key, color, readings: seriesReadings }) => (
+        <g key={key}>
+          <path
+            d={seriesReadings
+              .map((point, i) => `${i === 0 ? 'M' : 'L'}${x(point.ts).toFixed(1)},${y(point.temperature).toFixed(1)}`)
+              .join(' ')}
+            fill="none"
+            stroke={color}
+            strokeWidth="2"
+          />
+          {seriesReadings.length === 1 && (
+            <circle cx={x(seriesReadings[0].ts)} cy={y(seriesReadings[0].temperature)} r="3" fill={color} />
+          )}
+        </g>
+      ))}
+      {showLegend &&
+        series.map(({ key, label, color }, i) => (
+          <g key={key} transform={`translate(${WIDTH - PADDING.right - 150 + i * 75}, ${PADDING.top})`}>
+            <line x1="0" x2="16" y1="0" y2="0" stroke={color} strokeWidth="2" />
+            <text x="20" y="4" fontSize="11" fill="#6c757d">
+              {label}
+            </text>
+          </g>
+        ))}
+      <text x={PADDING.left} y={height - 8} fontSize="11" fill="#6c757d">
+        {formatTimestamp(minTs)}
+      </text>
+      <text x={WIDTH - PADDING.right} y={height - 8} textAnchor="end" fontSize="11" fill="#6c757d">
+        {formatTimestamp(maxTs)}
+      </text>
+    </svg>
+  );
+}
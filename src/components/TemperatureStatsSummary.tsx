@@ -0,0 +1,94 @@
+'use client';
+
+import { TemperatureStats } from '@/lib/analytics/stability';
+import { TemperatureProfileState } from '@/types/temperature';
+import { formatDuration, formatNumber } from '@/lib/utils/format';
+
+interface TemperatureStatsSummaryProps {
+  stats: TemperatureStats;
+  profile: TemperatureProfileState | null;
+  truncated: boolean; // Only the oldest readings were evaluated
+}
+
+/**
+ * MKT, time out of range, data gaps and stability budget of a reading series
+ */
+export function TemperatureStatsSummary({ stats, profile, truncated }: TemperatureStatsSummaryProps) {
+  if (stats.readingCount === 0) {
+    return <p className="text-muted mb-0">No temperature readings.</p>;
+  }
+
+  const budget = stats.stabilityBudget;
+  const usedPercent = budget && budget.budgetMs > 0 ? Math.min(100, (budget.usedMs / budget.budgetMs) * 100) : 100;
+
+  return (
+    <div className="row g-3">
+      <div className="col-md-3">
+        <div className="small text-muted">Mean kinetic temperature</div>
+        <div className="fs-5 fw-semibold">{stats.mkt !== null ? `${formatNumber(stats.mkt, 2)}°C` : 'N/A'}</div>
+      </div>
+      <div className="col-md-3">
+        <div className="small text-muted">Min / max</div>
+        <div>
+          {formatNumber(stats.minTemperature, 2)}°C / {formatNumber(stats.maxTemperature, 2)}°C
+        </div>
+      </div>
+      <div className="col-md-3">
+        <div className="small text-muted">Covered by readings</div>
+        <div>{formatDuration(stats.coveredMs)}</div>
+      </div>
+      <div className="col-md-3">
+        <div className="small text-muted">Data gaps</div>
+        <div className={stats.gapCount > 0 ? 'text-warning fw-semibold' : ''}>
+          {stats.gapCount > 0 ? `${formatDuration(stats.gapMs)} (${stats.gapCount})` : 'None'}
+        </div>
+      </div>
+
+      {profile && stats.inRangeMs !== null ? (
+        <>
+          <div className="col-md-3">
+            <div className="small text-muted">Profile</div>
+            <div>{profile.name}</div>
+          </div>
+          <div className="col-md-3">
+            <div className="small text-muted">In range</div>
+            <div>{formatDuration(stats.inRangeMs)}</div>
+          </div>
+          <div className="col-md-3">
+            <div className="small text-muted">Above range</div>
+            <div className={stats.aboveRangeMs ? 'text-danger fw-semibold' : ''}>{formatDuration(stats.aboveRangeMs ?? 0)}</div>
+          </div>
+          <div className="col-md-3">
+            <div className="small text-muted">Below range</div>
+            <div className={stats.belowRangeMs ? 'text-danger fw-semibold' : ''}>{formatDuration(stats.belowRangeMs ?? 0)}</div>
+          </div>
+        </>
+      ) : (
+        <div className="col-12 small text-muted">No temperature profile assigned; time in range is not computed.</div>
+      )}
+
+      {budget && (
+        <div className="col-12">
+          <div className="d-flex justify-content-between small mb-1">
+            <span className="text-muted">Stability budget (time out of range and data gaps)</span>
+            <span className={budget.exceeded ? 'text-danger fw-semibold' : ''}>
+              {budget.exceeded
+                ? `Exceeded by ${formatDuration(budget.usedMs - budget.budgetMs)}`
+                : `${formatDuration(budget.remainingMs)} of ${formatDuration(budget.budgetMs)} remaining`}
+            </span>
+          </div>
+          <div className="progress" role="progressbar" aria-valuenow={Math.round(usedPercent)} aria-valuemin={0} aria-valuemax={100}>
+            <div
+              className={`progress-bar ${budget.exceeded ? 'bg-danger' : usedPercent >= 75 ? 'bg-warning' : 'bg-success'}`}
+              style={{ width: `${usedPercent}%` }}
+            />
+          </div>
+        </div>
+      )}
+
+      {truncated && (
+        <div className="col-12 small text-warning">Too many readings in this period: only the oldest were evaluated.</div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,167 @@
+/**
+ * Outbound alert channels: email (SMTP), generic webhook and Slack-compatible webhook
+ * Webhook payloads are signed the same way as Tive error notifications
+ * (X-Paxafe-Signature = hex HMAC-SHA256 of the JSON body)
+ */
+
+import nodemailer, { Transporter } from 'nodemailer';
+import { config } from '@/lib/config';
+import { createHmacSignature } from '@/lib/utils/hmac';
+import type { AlertChannelConfig } from './rules';
+
+export type AlertEvent = 'opened' | 'resolved';
+
+export interface AlertNotification {
+  alert_id: number;
+  event: AlertEvent;
+  rule_id: number;
+  rule_name: string;
+  type: string;
+  severity: string;
+  status: string;
+  device_imei: string;
+  shipment_id: number | null;
+  message: string;
+  value: number | null;
+  first_triggered_ts: number;
+  last_triggered_ts: number;
+  occurrence_count: number;
+  sent_at: number;
+}
+
+/**
+ * A channel that cannot work as configured (retrying will not help)
+ */
+export class ChannelConfigurationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ChannelConfigurationError';
+  }
+}
+
+const SLACK_COLORS: Record<string, string> = {
+  critical: '#dc3545',
+  warning: '#ffc107',
+  info: '#0d6efd',
+  resolved: '#198754',
+};
+
+let transporter: Transporter | null = null;
+
+function getTransporter(): Transporter {
+  if (!config.smtp) {
+    throw new ChannelConfigurationError('SMTP_HOST not configured - cannot send email alerts');
+  }
+  if (!transporter) {
+    transporter = nodemailer.createTransport({
+      host: config.smtp.host,
+      port: config.smtp.port,
+      secure: config.smtp.secure,
+      auth: config.smtp.user ? { user: config.smtp.user, pass: config.smtp.password } : undefined,
+    });
+  }
+  return transporter;
+}
+
+/**
+ * Identify where a channel delivers (used to record deliveries)
+ */
+export function getChannelTarget(channel: AlertChannelConfig): string {
+  return channel.type === 'email' ? channel.to.join(',') : channel.url;
+}
+
+function formatSubject(notification: AlertNotification): string {
+  const prefix = notification.event === 'resolved' ? 'Resolved' : notification.severity.toUpperCase();
+  return `[${prefix}] ${notification.rule_name} - device ${notification.device_imei}`;
+}
+
+function formatText(notification: AlertNotification): string {
+  return [
+    notification.message,
+    '',
+    `Rule: ${notification.rule_name} (${notification.type})`,
+    `Device: ${notification.device_imei}`,
+    ...(notification.shipment_id !== null ? [`Shipment: ${notification.shipment_id}`] : []),
+    `Status: ${notification.status}`,
+    `First triggered: ${new Date(notification.first_triggered_ts).toISOString()}`,
+    `Last triggered: ${new Date(notification.last_triggered_ts).toISOString()}`,
+    `Occurrences: ${notification.occurrence_count}`,
+  ].join('\n');
+}
+
+async function postJson(url: string, body: string, headers: Record<string, string> = {}): Promise<void> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body,
+  });
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+  }
+}
+
+/**
+ * Build the Slack-compatible payload (incoming webhook format, also accepted by Mattermost etc.)
+ */
+export function buildSlackPayload(notification: AlertNotification) {
+  return {
+    text: formatSubject(notification),
+    attachments: [
+      {
+        color: SLACK_COLORS[notification.event === 'resolved' ? 'resolved' : notification.severity] ?? SLACK_COLORS.info,
+        text: notification.message,
+        fields: [
+          { title: 'Device', value: notification.device_imei, short: true },
+          { title: 'Severity', value: notification.severity, short: true },
+          { title: 'Status', value: notification.status, short: true },
+          { title: 'Occurrences', value: String(notification.occurrence_count), short: true },
+        ],
+        ts: Math.floor(notification.last_triggered_ts / 1000),
+      },
+    ],
+  };
+}
+
+/**
+ * Send an alert notification through one channel
+ * @throws ChannelConfigurationError when the channel cannot work, Error when delivery failed
+ */
+export async function sendAlertNotification(
+  channel: AlertChannelConfig,
+  notification: AlertNotification
+): Promise<void> {
+  switch (channel.type) {
+    case 'email': {
+      await getTransporter().sendMail({
+        from: config.smtp!.from,
+        to: channel.to,
+        subject: formatSubject(notification),
+        text: formatText(notification),
+      });
+      return;
+    }
+
+    case 'webhook': {
+      const body = JSON.stringify(notification);
+      const secret = channel.secret || config.alertWebhookSecret;
+      if (!secret) {
+        throw new ChannelConfigurationError(
+          'Webhook channel has no secret and ALERT_WEBHOOK_SECRET not configured - cannot sign webhook alerts'
+        );
+      }
+      await postJson(channel.url, body, {
+        'X-Paxafe-Signature': createHmacSignature(secret, body),
+        'X-Paxafe-Timestamp': Date.now().toString(),
+      });
+      return;
+    }
+
+    case 'slack': {
+      await postJson(channel.url, JSON.stringify(buildSlackPayload(notification)));
+      return;
+    }
+
+    default:
+      throw new ChannelConfigurationError(`Unknown alert channel type: ${(channel as { type: string }).type}`);
+  }
+}
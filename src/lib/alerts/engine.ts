@@ -0,0 +1,218 @@
+/**
+ * Alert engine
+ * Applies alert rules to readings and detected shock events (called from the Inngest
+ * pipeline) and to silent devices (scheduled no-data check), opening and resolving alerts
+ */
+
+import {
+  listApplicableAlertRules,
+  listEnabledAlertRulesByType,
+  findMetricReference,
+  findSilentDevices,
+  findDeviceLatest,
+  getDeviceTemperatureChannel,
+  raiseAlert,
+  resolveActiveAlert,
+} from '@/lib/db';
+import { getChannelTemperature } from '@/lib/analytics/temperature-channels';
+import { PaxafeSensorPayload, PaxafeLocationPayload } from '@/types/paxafe';
+import type { AlertEvent } from './channels';
+import {
+  AlertReading,
+  AlertShockEvent,
+  AlertRuleDefinition,
+  AlertRuleType,
+  AlertRuleParams,
+  NoDataParams,
+  RateOfChangeParams,
+  ShockParams,
+  evaluateRule,
+  evaluateNoData,
+  evaluateShockEvent,
+} from './rules';
+
+/**
+ * An alert that was opened or resolved (each change is delivered to the rule's channels)
+ */
+export interface AlertChange {
+  alertId: number;
+  event: AlertEvent;
+}
+
+function toRuleDefinition(rule: { id: number; name: string; type: string; params: unknown }): AlertRuleDefinition {
+  return {
+    id: rule.id,
+    name: rule.name,
+    type: rule.type as AlertRuleType,
+    params: rule.params as AlertRuleParams,
+  };
+}
+
+/**
+ * Evaluate the applicable rules against a reading
+ * The temperature metric is the device's primary channel; rules can also name a channel explicitly.
+ * Late readings (older than the device's latest state) are skipped: they describe the past,
+ * and opening or resolving alerts from them would contradict the current state.
+ * A reading also resolves the device's no-data alerts.
+ */
+export async function evaluateReadingAlerts(
+  sensor: PaxafeSensorPayload,
+  location: PaxafeLocationPayload,
+  context: { tenantId: number | null; shipmentId: number | null }
+): Promise<AlertChange[]> {
+  const device = await findDeviceLatest(sensor.device_imei);
+  if (device && Number(device.lastTs) > sensor.timestamp) {
+    return [];
+  }
+
+  const [rules, channel] = await Promise.all([
+    listApplicableAlertRules({
+      tenantId: context.tenantId,
+      deviceImei: sensor.device_imei,
+      shipmentId: context.shipmentId,
+    }),
+    getDeviceTemperatureChannel(sensor.device_imei),
+  ]);
+
+  const temperatures = { temperature: sensor.temperature, probeTemperature: sensor.probe_temperature };
+  const reading: AlertReading = {
+    deviceImei: sensor.device_imei,
+    ts: sensor.timestamp,
+    temperature: getChannelTemperature(temperatures, channel),
+    ambientTemperature: sensor.temperature,
+    probeTemperature: sensor.probe_temperature,
+    humidity: sensor.humidity,
+    lightLevel: sensor.light_level,
+    batteryLevel: location.battery_level,
+    accelerometerMagnitude: sensor.accelerometer?.magnitude ?? null,
+    latitude: location.latitude,
+    longitude: location.longitude,
+  };
+
+  const changes: AlertChange[] = [];
+
+  for (const rule of rules) {
+    if (rule.type === 'no_data') {
+      const resolvedId = await resolveActiveAlert(rule.id, reading.deviceImei);
+      if (resolvedId !== null) changes.push({ alertId: resolvedId, event: 'resolved' });
+      continue;
+    }
+
+    let reference = null;
+    if (rule.type === 'rate_of_change') {
+      const params = rule.params as unknown as RateOfChangeParams;
+      reference = await findMetricReference(
+        reading.deviceImei,
+        params.metric,
+        reading.ts - params.windowMinutes * 60 * 1000,
+        reading.ts,
+        channel
+      );
+    }
+
+    const evaluation = evaluateRule(toRuleDefinition(rule), reading, reference);
+    if (!evaluation) {
+      continue;
+    }
+
+    if (evaluation.triggered) {
+      const { alertId, opened } = await raiseAlert({
+        ruleId: rule.id,
+        tenantId: context.tenantId,
+        deviceImei: reading.deviceImei,
+        shipmentId: context.shipmentId,
+        type: rule.type,
+        severity: rule.severity,
+        message: evaluation.message,
+        value: evaluation.value,
+        ts: reading.ts,
+      });
+      if (opened) changes.push({ alertId, event: 'opened' });
+    } else {
+      const resolvedId = await resolveActiveAlert(rule.id, reading.deviceImei);
+      if (resolvedId !== null) changes.push({ alertId: resolvedId, event: 'resolved' });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Evaluate the applicable shock rules against newly detected shock events
+ * A shock is a one-off event, so shock alerts are never resolved automatically: they stay
+ * active until resolved by a user, and further events count as occurrences of the same alert.
+ */
+export async function evaluateShockAlerts(
+  deviceImei: string,
+  events: AlertShockEvent[],
+  context: { tenantId: number | null; shipmentId: number | null }
+): Promise<AlertChange[]> {
+  if (events.length === 0) {
+    return [];
+  }
+
+  const rules = await listApplicableAlertRules({
+    tenantId: context.tenantId,
+    deviceImei,
+    shipmentId: context.shipmentId,
+  });
+
+  const changes: AlertChange[] = [];
+
+  for (const rule of rules) {
+    if (rule.type !== 'shock') continue;
+    const params = rule.params as unknown as ShockParams;
+
+    for (const event of events) {
+      const evaluation = evaluateShockEvent(params, event);
+      if (!evaluation.triggered) continue;
+
+      const { alertId, opened } = await raiseAlert({
+        ruleId: rule.id,
+        tenantId: context.tenantId,
+        deviceImei,
+        shipmentId: context.shipmentId,
+        type: rule.type,
+        severity: rule.severity,
+        message: evaluation.message,
+        value: evaluation.value,
+        ts: event.startTs,
+      });
+      if (opened) changes.push({ alertId, event: 'opened' });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Open no-data alerts for devices that stopped reporting
+ * Alerts are resolved by the device's next reading (see evaluateReadingAlerts)
+ */
+export async function checkNoDataAlerts(now: number = Date.now()): Promise<AlertChange[]> {
+  const rules = await listEnabledAlertRulesByType('no_data');
+  const changes: AlertChange[] = [];
+
+  for (const rule of rules) {
+    const params = rule.params as unknown as NoDataParams;
+    const devices = await findSilentDevices(rule, now - params.minutes * 60 * 1000);
+
+    for (const device of devices) {
+      const evaluation = evaluateNoData(params, Number(device.lastTs), now);
+      const { alertId, opened } = await raiseAlert({
+        ruleId: rule.id,
+        tenantId: device.tenantId,
+        deviceImei: device.deviceImei,
+        shipmentId: rule.shipmentId,
+        type: rule.type,
+        severity: rule.severity,
+        message: evaluation.message,
+        value: evaluation.value,
+        ts: now,
+      });
+      if (opened) changes.push({ alertId, event: 'opened' });
+    }
+  }
+
+  return changes;
+}
@@ -0,0 +1,258 @@
+/**
+ * Alert rule definitions and evaluation
+ * Pure functions: the engine (engine.ts) loads rules and readings and applies the results
+ */
+
+import { haversineMeters } from '@/lib/utils/geo';
+import { meetsShockSeverity, ShockKind, ShockSeverity } from '@/lib/analytics/shocks';
+
+export const ALERT_RULE_TYPES = ['threshold', 'rate_of_change', 'no_data', 'battery_low', 'geofence', 'shock'] as const;
+export type AlertRuleType = (typeof ALERT_RULE_TYPES)[number];
+
+export const ALERT_SEVERITIES = ['info', 'warning', 'critical'] as const;
+export type AlertSeverity = (typeof ALERT_SEVERITIES)[number];
+
+export const ALERT_METRICS = [
+  'temperature', // The device's primary temperature channel
+  'ambient_temperature',
+  'probe_temperature',
+  'humidity',
+  'light_level',
+  'battery_level',
+  'accelerometer_magnitude',
+] as const;
+export type AlertMetric = (typeof ALERT_METRICS)[number];
+
+export const THRESHOLD_OPERATORS = ['gt', 'gte', 'lt', 'lte'] as const;
+export type ThresholdOperator = (typeof THRESHOLD_OPERATORS)[number];
+
+export interface ThresholdParams {
+  metric: AlertMetric;
+  operator: ThresholdOperator;
+  value: number;
+}
+
+export interface RateOfChangeParams {
+  metric: AlertMetric;
+  maxChange: number; // Largest allowed absolute change within the window
+  windowMinutes: number;
+}
+
+export interface NoDataParams {
+  minutes: number; // Alert when a device has not reported for this long
+}
+
+export interface BatteryLowParams {
+  percent: number; // Alert at or below this battery level
+}
+
+export interface GeofenceParams {
+  latitude: number;
+  longitude: number;
+  radiusMeters: number;
+  trigger: 'exit' | 'enter'; // exit = alert while outside the circle, enter = while inside
+}
+
+export interface ShockParams {
+  minSeverity: ShockSeverity; // Alert on detected shock/drop events of at least this severity
+}
+
+export type AlertRuleParams =
+  | ThresholdParams
+  | RateOfChangeParams
+  | NoDataParams
+  | BatteryLowParams
+  | GeofenceParams
+  | ShockParams;
+
+export type AlertChannelConfig =
+  | { type: 'email'; to: string[] }
+  | { type: 'webhook'; url: string; secret?: string }
+  | { type: 'slack'; url: string };
+
+export interface AlertRuleDefinition {
+  id: number;
+  name: string;
+  type: AlertRuleType;
+  params: AlertRuleParams;
+}
+
+/**
+ * Reading as seen by the rules (metrics are null when the payload did not carry them)
+ */
+export interface AlertReading {
+  deviceImei: string;
+  ts: number;
+  temperature: number | null; // Primary channel
+  ambientTemperature: number | null;
+  probeTemperature: number | null;
+  humidity: number | null;
+  lightLevel: number | null;
+  batteryLevel: number | null;
+  accelerometerMagnitude: number | null;
+  latitude: number | null;
+  longitude: number | null;
+}
+
+/**
+ * Detected shock event as seen by shock rules
+ */
+export interface AlertShockEvent {
+  id: number;
+  kind: ShockKind;
+  severity: ShockSeverity;
+  startTs: number;
+  peakMagnitude: number;
+}
+
+export interface MetricSample {
+  ts: number;
+  value: number;
+}
+
+export interface RuleEvaluation {
+  triggered: boolean;
+  value: number | null;
+  message: string;
+}
+
+const METRIC_LABELS: Record<AlertMetric, { label: string; unit: string }> = {
+  temperature: { label: 'Temperature', unit: '°C' },
+  ambient_temperature: { label: 'Ambient temperature', unit: '°C' },
+  probe_temperature: { label: 'Probe temperature', unit: '°C' },
+  humidity: { label: 'Humidity', unit: '%' },
+  light_level: { label: 'Light level', unit: ' lux' },
+  battery_level: { label: 'Battery', unit: '%' },
+  accelerometer_magnitude: { label: 'Acceleration', unit: ' g' },
+};
+
+const OPERATOR_LABELS: Record<ThresholdOperator, string> = { gt: '>', gte: '≥', lt: '<', lte: '≤' };
+
+export function getMetricValue(reading: AlertReading, metric: AlertMetric): number | null {
+  switch (metric) {
+    case 'temperature':
+      return reading.temperature;
+    case 'ambient_temperature':
+      return reading.ambientTemperature;
+    case 'probe_temperature':
+      return reading.probeTemperature;
+    case 'humidity':
+      return reading.humidity;
+    case 'light_level':
+      return reading.lightLevel;
+    case 'battery_level':
+      return reading.batteryLevel;
+    case 'accelerometer_magnitude':
+      return reading.accelerometerMagnitude;
+  }
+}
+
+function formatMetric(metric: AlertMetric, value: number): string {
+  const { label, unit } = METRIC_LABELS[metric];
+  return `${label} ${Number(value.toFixed(2))}${unit}`;
+}
+
+function compare(value: number, operator: ThresholdOperator, threshold: number): boolean {
+  switch (operator) {
+    case 'gt':
+      return value > threshold;
+    case 'gte':
+      return value >= threshold;
+    case 'lt':
+      return value < threshold;
+    case 'lte':
+      return value <= threshold;
+  }
+}
+
+/**
+ * Evaluate a rule against a reading
+ * no_data rules are time-based and evaluated by the scheduled check, not per reading;
+ * shock rules are evaluated per detected shock event (see evaluateShockEvent).
+ *
+ * @param reference - For rate_of_change: the oldest value of the metric within the rule's window (null if none)
+ * @returns null when the rule cannot be evaluated (metric missing, no reference, no_data or shock rule);
+ *          the alert state is then left unchanged
+ */
+export function evaluateRule(
+  rule: AlertRuleDefinition,
+  reading: AlertReading,
+  reference: MetricSample | null = null
+): RuleEvaluation | null {
+  switch (rule.type) {
+    case 'threshold': {
+      const params = rule.params as ThresholdParams;
+      const value = getMetricValue(reading, params.metric);
+      if (value === null) return null;
+      return {
+        triggered: compare(value, params.operator, params.value),
+        value,
+        message: `${formatMetric(params.metric, value)} (rule: ${OPERATOR_LABELS[params.operator]} ${params.value})`,
+      };
+    }
+
+    case 'rate_of_change': {
+      const params = rule.params as RateOfChangeParams;
+      const value = getMetricValue(reading, params.metric);
+      if (value === null || !reference) return null;
+      const change = value - reference.value;
+      const minutes = Math.round((reading.ts - reference.ts) / 60000);
+      return {
+        triggered: Math.abs(change) > params.maxChange,
+        value: change,
+        message: `${METRIC_LABELS[params.metric].label} changed by ${Number(change.toFixed(2))}${METRIC_LABELS[params.metric].unit} in ${minutes} min (rule: max ${params.maxChange} in ${params.windowMinutes} min)`,
+      };
+    }
+
+    case 'battery_low': {
+      const params = rule.params as BatteryLowParams;
+      if (reading.batteryLevel === null) return null;
+      return {
+        triggered: reading.batteryLevel <= params.percent,
+        value: reading.batteryLevel,
+        message: `Battery ${reading.batteryLevel}% (rule: ≤ ${params.percent}%)`,
+      };
+    }
+
+    case 'geofence': {
+      const params = rule.params as GeofenceParams;
+      if (reading.latitude === null || reading.longitude === null) return null;
+      const distance = haversineMeters(params.latitude, params.longitude, reading.latitude, reading.longitude);
+      const inside = distance <= params.radiusMeters;
+      return {
+        triggered: params.trigger === 'exit' ? !inside : inside,
+        value: Math.round(distance),
+        message: `${inside ? 'Inside' : 'Outside'} geofence, ${Math.round(distance)} m from center (radius ${params.radiusMeters} m)`,
+      };
+    }
+
+    case 'no_data':
+    case 'shock':
+      return null;
+  }
+}
+
+/**
+ * Evaluate a shock rule against a detected shock event
+ */
+export function evaluateShockEvent(params: ShockParams, event: AlertShockEvent): RuleEvaluation {
+  const label = event.kind === 'drop' ? 'Drop' : 'Shock';
+  return {
+    triggered: meetsShockSeverity(event.severity, params.minSeverity),
+    value: event.peakMagnitude,
+    message: `${label} (${event.severity}), peak ${Number(event.peakMagnitude.toFixed(2))} g (rule: ${params.minSeverity} or worse)`,
+  };
+}
+
+/**
+ * Evaluate a no_data rule for a device
+ * @param lastTs - Timestamp of the device's latest reading
+ */
+export function evaluateNoData(params: NoDataParams, lastTs: number, now: number): RuleEvaluation {
+  const silentMinutes = Math.floor((now - lastTs) / 60000);
+  return {
+    triggered: silentMinutes >= params.minutes,
+    value: silentMinutes,
+    message: `No data for ${silentMinutes} min (rule: ${params.minutes} min)`,
+  };
+}
@@ -0,0 +1,132 @@
+/**
+ * Battery depletion forecasting
+ * Pure functions: no database access
+ *
+ * The battery level of the readings since the device last charged is fitted with a
+ * least-squares line; its slope is the drain rate, and the time to empty is the current
+ * level at that rate. Tive reports whole percentages, so the fit needs a span of readings
+ * rather than the last two.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const BATTERY_FORECAST_STATUSES = ['insufficient_data', 'charging', 'stable', 'draining', 'at_risk'] as const;
+export type BatteryForecastStatus = (typeof BATTERY_FORECAST_STATUSES)[number];
+
+export interface BatterySample {
+  ts: number;
+  level: number; // Percent
+  charging: boolean | null;
+}
+
+export interface BatteryForecastOptions {
+  minSamples: number; // Fewer discharge readings than this = no forecast
+  minSpanMs: number; // Shorter discharge runs = no forecast
+  minDrainPercentPerDay: number; // Slower drains are stable (no time to empty)
+  rechargeJumpPercent: number; // A rise of at least this much between readings is a recharge or battery swap
+}
+
+export interface BatteryForecast {
+  status: BatteryForecastStatus;
+  level: number | null; // Latest level
+  sampleCount: number; // Readings the drain was fitted on
+  fromTs: number | null;
+  toTs: number | null;
+  drainPercentPerDay: number | null;
+  emptyTs: number | null; // Predicted time the battery is empty
+  expectedArrivalTs: number | null; // Planned arrival of the device's shipment, when known
+  marginMs: number | null; // emptyTs - expectedArrivalTs; negative = empty before arrival
+}
+
+/**
+ * Readings since the device last charged, oldest first
+ * The run starts after the last reading reported as charging or the last rise of at least
+ * rechargeJumpPercent (devices do not always report charging).
+ */
+export function selectDischargeRun(samples: BatterySample[], rechargeJumpPercent: number): BatterySample[] {
+  const sorted = [...samples].sort((a, b) => a.ts - b.ts);
+  let start = 0;
+  for (let i = 0; i < sorted.length; i++) {
+    if (sorted[i].charging === true) {
+      start = i + 1;
+    } else if (i > 0 && sorted[i].level - sorted[i - 1].level >= rechargeJumpPercent) {
+      start = i;
+    }
+  }
+  return sorted.slice(start);
+}
+
+/**
+ * Least-squares slope of level over time, in percent per day
+ */
+export function fitDrainRate(samples: BatterySample[]): number | null {
+  if (samples.length < 2) return null;
+  const origin = samples[0].ts;
+  const days = samples.map((sample) => (sample.ts - origin) / DAY_MS);
+  const meanX = days.reduce((sum, x) => sum + x, 0) / days.length;
+  const meanY = samples.reduce((sum, sample) => sum + sample.level, 0) / samples.length;
+
+  let covariance = 0;
+  let variance = 0;
+  for (let i = 0; i < samples.length; i++) {
+    covariance += (days[i] - meanX) * (samples[i].level - meanY);
+    variance += (days[i] - meanX) ** 2;
+  }
+  return variance > 0 ? -covariance / variance : null;
+}
+
+/**
+ * Forecast when the battery will be empty and whether that is before the shipment arrives
+ * @param samples Battery readings in any order
+ * @param expectedArrivalTs Planned arrival of the device's shipment (null = unknown or arrived)
+ */
+export function forecastBattery(
+  samples: BatterySample[],
+  expectedArrivalTs: number | null,
+  options: BatteryForecastOptions
+): BatteryForecast {
+  const sorted = [...samples].sort((a, b) => a.ts - b.ts);
+  const latest = sorted.length > 0 ? sorted[sorted.length - 1] : null;
+  const forecast: BatteryForecast = {
+    status: 'insufficient_data',
+    level: latest?.level ?? null,
+    sampleCount: 0,
+    fromTs: null,
+    toTs: null,
+    drainPercentPerDay: null,
+    emptyTs: null,
+    expectedArrivalTs,
+    marginMs: null,
+  };
+  if (!latest) {
+    return forecast;
+  }
+  if (latest.charging === true) {
+    return { ...forecast, status: 'charging' };
+  }
+
+  const run = selectDischargeRun(sorted, options.rechargeJumpPercent);
+  const drain = fitDrainRate(run);
+  const fitted = {
+    ...forecast,
+    sampleCount: run.length,
+    fromTs: run.length > 0 ? run[0].ts : null,
+    toTs: latest.ts,
+  };
+  if (run.length < options.minSamples || latest.ts - run[0].ts < options.minSpanMs || drain === null) {
+    return fitted;
+  }
+  if (drain < options.minDrainPercentPerDay) {
+    return { ...fitted, status: 'stable', drainPercentPerDay: Math.max(0, drain) };
+  }
+
+  const emptyTs = latest.ts + Math.round((Math.max(0, latest.level) / drain) * DAY_MS);
+  const marginMs = expectedArrivalTs !== null ? emptyTs - expectedArrivalTs : null;
+  return {
+    ...fitted,
+    status: marginMs !== null && marginMs < 0 ? 'at_risk' : 'draining',
+    drainPercentPerDay: drain,
+    emptyTs,
+    marginMs,
+  };
+}
@@ -0,0 +1,295 @@
+/**
+ * Reporting gaps and data completeness
+ * Pure functions: no database access
+ *
+ * An interval between readings longer than gapFactor expected intervals is a gap: the readings
+ * due in it never arrived. The time after the first missed report (interval start + one expected
+ * interval) until the next reading counts as missing, so completeness is the share of the window
+ * that is not missing. A reading that arrived more than bufferedDelayMs after it was taken was
+ * buffered on the device (e.g. during a flight) and uploaded later: the time up to it was not
+ * lost, only backfilled.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ReceivedReading {
+  ts: number; // When the reading was taken
+  receivedAt: number; // When it arrived
+}
+
+export interface CompletenessOptions {
+  expectedIntervalMs: number;
+  gapFactor: number; // Longer intervals than this many expected intervals are gaps
+  bufferedDelayMs: number; // Readings arriving later than this after their timestamp were buffered
+  from?: number; // Start of the window; a longer silence before the first reading is a gap
+  to?: number; // End of the window; a longer silence after the last reading is a gap
+}
+
+export type TimelineSegmentKind = 'live' | 'backfilled' | 'gap';
+
+export interface TimelineSegment {
+  kind: TimelineSegmentKind;
+  startTs: number;
+  endTs: number;
+}
+
+export interface ReportingGap {
+  startTs: number; // Last reading before the gap (or the window start)
+  endTs: number; // First reading after the gap (or the window end)
+  durationMs: number;
+  missingMs: number; // Time after the first missed report
+  missingReadings: number; // Estimated number of reports that never arrived
+}
+
+export interface BackfilledPeriod {
+  startTs: number;
+  endTs: number;
+  readingCount: number;
+  maxDelayMs: number; // Longest time between a reading and its arrival
+}
+
+export interface CompletenessStats {
+  windowStartTs: number | null;
+  windowEndTs: number | null;
+  windowMs: number;
+  readingCount: number;
+  backfilledReadingCount: number;
+  expectedReadings: number;
+  missingMs: number;
+  gapCount: number;
+  completenessPercent: number | null; // null for an empty window
+}
+
+export interface DailyCompleteness extends CompletenessStats {
+  date: string; // UTC day, YYYY-MM-DD
+}
+
+export interface CompletenessReport {
+  expectedIntervalMs: number;
+  stats: CompletenessStats;
+  gaps: ReportingGap[];
+  backfilled: BackfilledPeriod[];
+  timeline: TimelineSegment[]; // Consecutive segments covering the window
+  days: DailyCompleteness[];
+}
+
+interface Point {
+  ts: number;
+  delayMs: number | null; // null for the window bounds
+}
+
+function overlapMs(startA: number, endA: number, startB: number, endB: number): number {
+  return Math.max(0, Math.min(endA, endB) - Math.max(startA, startB));
+}
+
+function toStats(
+  windowStartTs: number | null,
+  windowEndTs: number | null,
+  readingCount: number,
+  backfilledReadingCount: number,
+  missingMs: number,
+  gapCount: number,
+  expectedIntervalMs: number
+): CompletenessStats {
+  const windowMs = windowStartTs !== null && windowEndTs !== null ? windowEndTs - windowStartTs : 0;
+  return {
+    windowStartTs,
+    windowEndTs,
+    windowMs,
+    readingCount,
+    backfilledReadingCount,
+    expectedReadings: windowMs > 0 ? Math.floor(windowMs / expectedIntervalMs) + 1 : readingCount > 0 ? 1 : 0,
+    missingMs,
+    gapCount,
+    completenessPercent: windowMs > 0 ? (1 - missingMs / windowMs) * 100 : null,
+  };
+}
+
+/**
+ * Find the gaps and backfilled periods of one device's readings and its completeness
+ * overall and per UTC day
+ * @param readings Readings in any order; readings with the same timestamp count once
+ */
+export function computeCompleteness(readings: ReceivedReading[], options: CompletenessOptions): CompletenessReport {
+  const { expectedIntervalMs, gapFactor, bufferedDelayMs } = options;
+
+  // Earliest arrival per timestamp, within the window
+  const arrivals = new Map<number, number>();
+  for (const reading of readings) {
+    if (options.from !== undefined && reading.ts < options.from) continue;
+    if (options.to !== undefined && reading.ts > options.to) continue;
+    const known = arrivals.get(reading.ts);
+    arrivals.set(reading.ts, known === undefined ? reading.receivedAt : Math.min(known, reading.receivedAt));
+  }
+  const points: Point[] = Array.from(arrivals.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([ts, receivedAt]) => ({ ts, delayMs: Math.max(0, receivedAt - ts) }));
+
+  const windowStartTs = options.from ?? (points.length > 0 ? points[0].ts : null);
+  const windowEndTs = options.to ?? (points.length > 0 ? points[points.length - 1].ts : null);
+  const empty: CompletenessReport = {
+    expectedIntervalMs,
+    stats: toStats(windowStartTs, windowEndTs, 0, 0, 0, 0, expectedIntervalMs),
+    gaps: [],
+    backfilled: [],
+    timeline: [],
+    days: [],
+  };
+  if (windowStartTs === null || windowEndTs === null || windowEndTs < windowStartTs) {
+    return empty;
+  }
+
+  // The window bounds close the silences before the first and after the last reading
+  if (points.length === 0 || points[0].ts > windowStartTs) {
+    points.unshift({ ts: windowStartTs, delayMs: null });
+  }
+  if (points[points.length - 1].ts < windowEndTs) {
+    points.push({ ts: windowEndTs, delayMs: null });
+  }
+
+  const isBuffered = (point: Point) => point.delayMs !== null && point.delayMs > bufferedDelayMs;
+  const gaps: ReportingGap[] = [];
+  const timeline: TimelineSegment[] = [];
+
+  const addSegment = (kind: TimelineSegmentKind, startTs: number, endTs: number) => {
+    const last = timeline[timeline.length - 1];
+    if (last && last.kind === kind && kind !== 'gap') {
+      last.endTs = endTs;
+    } else {
+      timeline.push({ kind, startTs, endTs });
+    }
+  };
+
+  for (let i = 1; i < points.length; i++) {
+    const previous = points[i - 1];
+    const current = points[i];
+    const durationMs = current.ts - previous.ts;
+
+    if (durationMs > expectedIntervalMs * gapFactor) {
+      gaps.push({
+        startTs: previous.ts,
+        endTs: current.ts,
+        durationMs,
+        missingMs: durationMs - expectedIntervalMs,
+        missingReadings: Math.max(0, Math.round(durationMs / expectedIntervalMs) - 1),
+      });
+      addSegment('gap', previous.ts, current.ts);
+      continue;
+    }
+
+    // A short interval belongs to the reading that closes it (the last one for the window end)
+    const closing = current.delayMs !== null ? current : previous;
+    addSegment(isBuffered(closing) ? 'backfilled' : 'live', previous.ts, current.ts);
+  }
+
+  const readingPoints = points.filter((point) => point.delayMs !== null);
+  const bufferedPoints = readingPoints.filter(isBuffered);
+  const backfilled: BackfilledPeriod[] = timeline
+    .filter((segment) => segment.kind === 'backfilled')
+    .map((segment) => {
+      const delays = bufferedPoints
+        .filter((point) => point.ts >= segment.startTs && point.ts <= segment.endTs)
+        .map((point) => point.delayMs as number);
+      return {
+        startTs: segment.startTs,
+        endTs: segment.endTs,
+        readingCount: delays.length,
+        maxDelayMs: Math.max(...delays),
+      };
+    });
+  const backfilledReadingCount = bufferedPoints.length;
+  const missingMs = gaps.reduce((sum, gap) => sum + gap.missingMs, 0);
+
+  // Per UTC day: a gap's missing time is [start + one expected interval, end). Readings and gaps
+  // are both in time order, so one pass over the days assigns them to their day.
+  const days: DailyCompleteness[] = [];
+  let readingIndex = 0;
+  let gapIndex = 0;
+  for (let dayStart = Math.floor(windowStartTs / DAY_MS) * DAY_MS; dayStart <= windowEndTs; dayStart += DAY_MS) {
+    const dayEnd = dayStart + DAY_MS;
+    const start = Math.max(dayStart, windowStartTs);
+    const end = Math.min(dayEnd, windowEndTs);
+
+    let readingCount = 0;
+    let bufferedCount = 0;
+    for (; readingIndex < readingPoints.length && readingPoints[readingIndex].ts < dayEnd; readingIndex++) {
+      readingCount++;
+      if (isBuffered(readingPoints[readingIndex])) bufferedCount++;
+    }
+
+    while (gapIndex < gaps.length && gaps[gapIndex].endTs <= start) gapIndex++;
+    let dayMissingMs = 0;
+    let dayGapCount = 0;
+    for (let i = gapIndex; i < gaps.length && gaps[i].startTs + expectedIntervalMs < end; i++) {
+      const missing = overlapMs(gaps[i].startTs + expectedIntervalMs, gaps[i].endTs, start, end);
+      if (missing > 0) {
+        dayMissingMs += missing;
+        dayGapCount++;
+      }
+    }
+    if (end <= start && readingCount === 0) continue;
+
+    days.push({
+      date: new Date(dayStart).toISOString().slice(0, 10),
+      ...toStats(start, end, readingCount, bufferedCount, dayMissingMs, dayGapCount, expectedIntervalMs),
+    });
+  }
+
+  return {
+    expectedIntervalMs,
+    stats: toStats(
+      windowStartTs,
+      windowEndTs,
+      readingPoints.length,
+      backfilledReadingCount,
+      missingMs,
+      gaps.length,
+      expectedIntervalMs
+    ),
+    gaps,
+    backfilled,
+    timeline,
+    days,
+  };
+}
+
+/**
+ * Completeness of several devices together (e.g. the trackers of one shipment)
+ * Windows and missing time are summed, so each device weighs by the length of its window.
+ */
+export function combineCompleteness(reports: CompletenessReport[]): {
+  stats: CompletenessStats;
+  days: DailyCompleteness[];
+} {
+  const combine = (stats: CompletenessStats[]): CompletenessStats => {
+    const starts = stats.map((s) => s.windowStartTs).filter((ts): ts is number => ts !== null);
+    const ends = stats.map((s) => s.windowEndTs).filter((ts): ts is number => ts !== null);
+    const windowMs = stats.reduce((sum, s) => sum + s.windowMs, 0);
+    const missingMs = stats.reduce((sum, s) => sum + s.missingMs, 0);
+    return {
+      windowStartTs: starts.length > 0 ? Math.min(...starts) : null,
+      windowEndTs: ends.length > 0 ? Math.max(...ends) : null,
+      windowMs,
+      readingCount: stats.reduce((sum, s) => sum + s.readingCount, 0),
+      backfilledReadingCount: stats.reduce((sum, s) => sum + s.backfilledReadingCount, 0),
+      expectedReadings: stats.reduce((sum, s) => sum + s.expectedReadings, 0),
+      missingMs,
+      gapCount: stats.reduce((sum, s) => sum + s.gapCount, 0),
+      completenessPercent: windowMs > 0 ? (1 - missingMs / windowMs) * 100 : null,
+    };
+  };
+
+  const byDate = new Map<string, CompletenessStats[]>();
+  for (const report of reports) {
+    for (const { date, ...stats } of report.days) {
+      byDate.set(date, [...(byDate.get(date) ?? []), stats]);
+    }
+  }
+
+  return {
+    stats: combine(reports.map((report) => report.stats)),
+    days: Array.from(byDate.keys())
+      .sort()
+      .map((date) => ({ date, ...combine(byDate.get(date) as CompletenessStats[]) })),
+  };
+}
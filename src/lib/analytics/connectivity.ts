@@ -0,0 +1,70 @@
+/**
+ * Device connectivity: whether a tracker is reporting at its expected cadence
+ * Pure functions: the database layer (db/connectivity.ts) loads devices and their cadence
+ * and records the transitions
+ */
+
+export const CONNECTIVITY_STATUSES = ['online', 'late', 'offline'] as const;
+export type ConnectivityStatus = (typeof CONNECTIVITY_STATUSES)[number];
+
+export interface ConnectivityThresholds {
+  defaultIntervalMs: number; // Expected interval of devices without a configured or learned cadence
+  lateFactor: number; // Late after this many expected intervals of silence
+  offlineFactor: number; // Offline after this many
+  graceMs: number; // Added to both limits (network and processing delay)
+}
+
+export type ReportingIntervalSource = 'configured' | 'learned' | 'default';
+
+export interface ExpectedInterval {
+  intervalMs: number;
+  source: ReportingIntervalSource;
+}
+
+export function isConnectivityStatus(value: unknown): value is ConnectivityStatus {
+  return typeof value === 'string' && (CONNECTIVITY_STATUSES as readonly string[]).includes(value);
+}
+
+/**
+ * Expected reporting interval of a device
+ * A configured interval wins over the learned cadence, which wins over the default
+ */
+export function resolveExpectedInterval(
+  configuredMs: number | null,
+  learnedMs: number | null,
+  thresholds: ConnectivityThresholds
+): ExpectedInterval {
+  if (configuredMs !== null && configuredMs > 0) {
+    return { intervalMs: configuredMs, source: 'configured' };
+  }
+  if (learnedMs !== null && learnedMs > 0) {
+    return { intervalMs: learnedMs, source: 'learned' };
+  }
+  return { intervalMs: thresholds.defaultIntervalMs, source: 'default' };
+}
+
+/**
+ * Connectivity of a device from the time of its newest reading
+ */
+export function classifyConnectivity(
+  lastTs: number,
+  now: number,
+  intervalMs: number,
+  thresholds: ConnectivityThresholds
+): ConnectivityStatus {
+  const silenceMs = now - lastTs;
+  if (silenceMs > intervalMs * thresholds.offlineFactor + thresholds.graceMs) {
+    return 'offline';
+  }
+  if (silenceMs > intervalMs * thresholds.lateFactor + thresholds.graceMs) {
+    return 'late';
+  }
+  return 'online';
+}
+
+/**
+ * Ordering for lists sorted by connectivity: offline first, then late, then online
+ */
+export function connectivityRank(status: ConnectivityStatus): number {
+  return status === 'offline' ? 0 : status === 'late' ? 1 : 2;
+}
@@ -0,0 +1,69 @@
+/**
+ * Visual downsampling of time series
+ * Pure functions: no database access
+ */
+
+export interface SeriesPoint {
+  ts: number;
+  value: number;
+}
+
+/**
+ * Largest-Triangle-Three-Buckets downsampling
+ * Keeps the first and last points and, from each of the threshold - 2 buckets in between,
+ * the point forming the largest triangle with the previously kept point and the next
+ * bucket's average. Peaks and troughs survive, unlike plain averaging.
+ *
+ * @param points Series ordered by ts
+ * @param threshold Maximum number of points to return (values below 3 keep the endpoints only)
+ */
+export function downsampleLttb(points: SeriesPoint[], threshold: number): SeriesPoint[] {
+  if (points.length <= threshold || points.length <= 2) {
+    return points.slice();
+  }
+  if (threshold < 3) {
+    return [points[0], points[points.length - 1]];
+  }
+
+  const sampled: SeriesPoint[] = [points[0]];
+  const bucketSize = (points.length - 2) / (threshold - 2);
+  let previous = 0;
+
+  for (let bucket = 0; bucket < threshold - 2; bucket++) {
+    const start = Math.floor(bucket * bucketSize) + 1;
+    const end = Math.floor((bucket + 1) * bucketSize) + 1;
+
+    // Average of the next bucket (the last point for the final bucket)
+    const nextStart = end;
+    const nextEnd = Math.min(Math.floor((bucket + 2) * bucketSize) + 1, points.length);
+    let avgTs = 0;
+    let avgValue = 0;
+    for (let i = nextStart; i < nextEnd; i++) {
+      avgTs += points[i].ts;
+      avgValue += points[i].value;
+    }
+    const nextCount = nextEnd - nextStart;
+    avgTs /= nextCount;
+    avgValue /= nextCount;
+
+    const anchor = points[previous];
+    let maxArea = -1;
+    let selected = start;
+    for (let i = start; i < end; i++) {
+      const area = Math.abs(
+        (anchor.ts - avgTs) * (points[i].value - anchor.value) -
+        (anchor.ts - points[i].ts) * (avgValue - anchor.value)
+      );
+      if (area > maxArea) {
+        maxArea = area;
+        selected = i;
+      }
+    }
+
+    sampled.push(points[selected]);
+    previous = selected;
+  }
+
+  sampled.push(points[points.length - 1]);
+  return sampled;
+}
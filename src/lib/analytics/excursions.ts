@@ -0,0 +1,102 @@
+/**
+ * Temperature excursion detection
+ * Pure functions: no database access, so they can be re-run over any reading history
+ */
+
+export type ExcursionDirection = 'high' | 'low';
+
+/**
+ * Allowed temperature range (null bound = unbounded on that side)
+ */
+export interface TemperatureRange {
+  minTemp: number | null;
+  maxTemp: number | null;
+  allowedExcursionMinutes: number;
+}
+
+export interface TemperatureReading {
+  ts: number;
+  temperature: number;
+}
+
+export interface DetectedExcursion {
+  direction: ExcursionDirection;
+  startTs: number; // First out-of-range reading
+  endTs: number | null; // First reading back in range (null while still out of range)
+  lastTs: number; // Last out-of-range reading
+  peakTemperature: number; // Highest reading for high excursions, lowest for low excursions
+  durationMs: number; // startTs → endTs, or startTs → lastTs while open
+  readingCount: number; // Out-of-range readings in the excursion
+  exceedsAllowance: boolean; // Longer than the profile's allowed excursion duration
+}
+
+/**
+ * Classify a reading against a range
+ * @returns 'high' / 'low' when out of range, null when in range (bounds are inclusive)
+ */
+export function classifyTemperature(
+  temperature: number,
+  range: Pick<TemperatureRange, 'minTemp' | 'maxTemp'>
+): ExcursionDirection | null {
+  if (range.maxTemp !== null && temperature > range.maxTemp) return 'high';
+  if (range.minTemp !== null && temperature < range.minTemp) return 'low';
+  return null;
+}
+
+/**
+ * Detect excursions in a reading history
+ * An excursion is a run of consecutive out-of-range readings in the same direction. It closes at
+ * the first reading back in range; a jump straight from high to low closes it and opens a new one.
+ * Readings are sorted by timestamp first, so the result does not depend on arrival order.
+ */
+export function detectExcursions(readings: TemperatureReading[], range: TemperatureRange): DetectedExcursion[] {
+  const sorted = [...readings].sort((a, b) => a.ts - b.ts);
+  const allowanceMs = range.allowedExcursionMinutes * 60 * 1000;
+  const excursions: DetectedExcursion[] = [];
+  let current: DetectedExcursion | null = null;
+
+  const close = (excursion: DetectedExcursion, endTs: number | null) => {
+    excursion.endTs = endTs;
+    excursion.durationMs = (endTs ?? excursion.lastTs) - excursion.startTs;
+    excursion.exceedsAllowance = excursion.durationMs > allowanceMs;
+    excursions.push(excursion);
+  };
+
+  for (const reading of sorted) {
+    const direction = classifyTemperature(reading.temperature, range);
+
+    if (current && direction !== current.direction) {
+      close(current, reading.ts);
+      current = null;
+    }
+
+    if (direction === null) {
+      continue;
+    }
+
+    if (!current) {
+      current = {
+        direction,
+        startTs: reading.ts,
+        endTs: null,
+        lastTs: reading.ts,
+        peakTemperature: reading.temperature,
+        durationMs: 0,
+        readingCount: 0,
+        exceedsAllowance: false,
+      };
+    }
+
+    current.lastTs = reading.ts;
+    current.readingCount += 1;
+    current.peakTemperature = direction === 'high'
+      ? Math.max(current.peakTemperature, reading.temperature)
+      : Math.min(current.peakTemperature, reading.temperature);
+  }
+
+  if (current) {
+    close(current, null);
+  }
+
+  return excursions;
+}
@@ -0,0 +1,102 @@
+/**
+ * Geofence containment and enter/exit/dwell transitions
+ * Pure functions: the database layer (db/geofence.ts) loads geofences and presence state
+ */
+
+import { haversineMeters } from '@/lib/utils/geo';
+
+export type GeofenceEventType = 'enter' | 'exit' | 'dwell';
+
+export interface GeofenceVertex {
+  latitude: number;
+  longitude: number;
+}
+
+export type GeofenceShape =
+  | { type: 'circle'; latitude: number; longitude: number; radiusMeters: number }
+  | { type: 'polygon'; vertices: GeofenceVertex[] };
+
+/**
+ * Presence of a device in a geofence after its latest evaluated reading
+ */
+export interface GeofencePresenceState {
+  inside: boolean;
+  enteredTs: number | null; // When the device entered (null while outside)
+  dwellReported: boolean; // A dwell event was emitted for the current stay
+}
+
+export interface GeofenceTransition {
+  type: GeofenceEventType;
+  ts: number;
+  durationMs: number | null; // Time inside: at dwell and exit
+}
+
+/**
+ * Whether a point lies inside a polygon (ray casting in the lat/lon plane)
+ * Accurate for geofence-sized polygons that do not cross the antimeridian.
+ */
+export function pointInPolygon(latitude: number, longitude: number, vertices: GeofenceVertex[]): boolean {
+  let inside = false;
+  for (let i = 0, j = vertices.length - 1; i < vertices.length; j = i++) {
+    const a = vertices[i];
+    const b = vertices[j];
+    const crosses =
+      a.latitude > latitude !== b.latitude > latitude &&
+      longitude < ((b.longitude - a.longitude) * (latitude - a.latitude)) / (b.latitude - a.latitude) + a.longitude;
+    if (crosses) inside = !inside;
+  }
+  return inside;
+}
+
+/**
+ * Whether a point lies inside a geofence (circle boundary counts as inside)
+ */
+export function geofenceContains(shape: GeofenceShape, latitude: number, longitude: number): boolean {
+  if (shape.type === 'circle') {
+    return haversineMeters(shape.latitude, shape.longitude, latitude, longitude) <= shape.radiusMeters;
+  }
+  return pointInPolygon(latitude, longitude, shape.vertices);
+}
+
+/**
+ * Apply a reading to a device's presence in a geofence
+ * A device seen for the first time only produces an event when it is inside (enter); the first
+ * reading outside just records the state. Dwell is emitted once per stay, by the first reading
+ * at least dwellMs after entering.
+ *
+ * @param previous Presence before the reading (null = device not seen for this geofence yet)
+ * @param dwellMs Dwell threshold (null = no dwell events)
+ */
+export function applyGeofenceReading(
+  previous: GeofencePresenceState | null,
+  inside: boolean,
+  ts: number,
+  dwellMs: number | null
+): { state: GeofencePresenceState; transitions: GeofenceTransition[] } {
+  if (!inside) {
+    if (previous?.inside) {
+      const durationMs = previous.enteredTs !== null ? ts - previous.enteredTs : null;
+      return {
+        state: { inside: false, enteredTs: null, dwellReported: false },
+        transitions: [{ type: 'exit', ts, durationMs }],
+      };
+    }
+    return { state: { inside: false, enteredTs: null, dwellReported: false }, transitions: [] };
+  }
+
+  const transitions: GeofenceTransition[] = [];
+  let state: GeofencePresenceState;
+  if (previous?.inside) {
+    state = { ...previous };
+  } else {
+    state = { inside: true, enteredTs: ts, dwellReported: false };
+    transitions.push({ type: 'enter', ts, durationMs: null });
+  }
+
+  if (dwellMs !== null && !state.dwellReported && state.enteredTs !== null && ts - state.enteredTs >= dwellMs) {
+    state.dwellReported = true;
+    transitions.push({ type: 'dwell', ts, durationMs: ts - state.enteredTs });
+  }
+
+  return { state, transitions };
+}
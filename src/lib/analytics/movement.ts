@@ -0,0 +1,62 @@
+/**
+ * Distance, speed and movement state between successive location fixes
+ * Pure functions: the database layer (db/movement.ts) picks the fixes and stores the results
+ */
+
+import { haversineMeters } from '@/lib/utils/geo';
+
+export type MovementState = 'moving' | 'stationary' | 'implausible';
+
+export interface MovementFix {
+  ts: number;
+  latitude: number;
+  longitude: number;
+  accuracyMeters: number | null; // Location accuracy radius (null = unknown)
+}
+
+export interface MovementThresholds {
+  movingSpeedKmh: number; // Slower segments are stationary (GPS jitter, yard shunting)
+  maxSpeedKmh: number; // Faster segments are implausible jumps (e.g. a coarse cell fix)
+}
+
+export interface MovementSegment {
+  distanceMeters: number; // Great-circle distance from the previous fix
+  speedKmh: number; // Speed not explained by the fixes' accuracy (0 when their uncertainty circles overlap)
+  state: MovementState;
+  countedMeters: number; // Distance added to the travelled total (moving segments only)
+}
+
+/**
+ * Segment between the previous accepted fix and the current one
+ * Speed and state use only the distance that exceeds both fixes' accuracy radii, so
+ * two fixes whose uncertainty circles overlap are never moving and a coarse fix is only
+ * implausible when even its nearest possible position would need an impossible speed.
+ * Only moving segments count towards the travelled distance, so jitter while parked does
+ * not add up.
+ *
+ * @param previous Previous accepted fix (earlier than current)
+ */
+export function computeMovementSegment(
+  previous: MovementFix,
+  current: MovementFix,
+  thresholds: MovementThresholds
+): MovementSegment {
+  const distanceMeters = haversineMeters(previous.latitude, previous.longitude, current.latitude, current.longitude);
+  const hours = Math.max(current.ts - previous.ts, 1) / 3600000;
+  const uncertainMeters = (previous.accuracyMeters ?? 0) + (current.accuracyMeters ?? 0);
+  const speedKmh = Math.max(0, distanceMeters - uncertainMeters) / 1000 / hours;
+
+  let state: MovementState = 'stationary';
+  if (speedKmh > thresholds.maxSpeedKmh) {
+    state = 'implausible';
+  } else if (speedKmh >= thresholds.movingSpeedKmh) {
+    state = 'moving';
+  }
+
+  return {
+    distanceMeters,
+    speedKmh,
+    state,
+    countedMeters: state === 'moving' ? distanceMeters : 0,
+  };
+}
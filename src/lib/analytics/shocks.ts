@@ -0,0 +1,107 @@
+/**
+ * Shock and drop event detection from accelerometer magnitudes
+ * Pure functions: no database access, so they can be re-run over any reading history
+ */
+
+export type ShockKind = 'shock' | 'drop';
+export type ShockSeverity = 'minor' | 'major' | 'severe';
+
+export const SHOCK_SEVERITIES: readonly ShockSeverity[] = ['minor', 'major', 'severe'];
+
+/**
+ * g-thresholds (a device at rest reads about 1 g)
+ */
+export interface ShockThresholds {
+  thresholdG: number; // Magnitude at or above which a reading is a shock
+  majorG: number;
+  severeG: number;
+  freeFallG: number; // Magnitude at or below which a reading is free fall
+  mergeWindowMs: number; // Consecutive spikes at most this far apart belong to one event
+}
+
+export interface AccelerationReading {
+  ts: number;
+  magnitude: number;
+}
+
+export interface DetectedShockEvent {
+  kind: ShockKind; // drop = the event contains free fall
+  severity: ShockSeverity;
+  startTs: number;
+  endTs: number; // Last spike of the event
+  peakMagnitude: number; // Highest magnitude (the impact); lowest for free fall without impact
+  readingCount: number;
+}
+
+/**
+ * Whether a reading is a spike (shock or free fall)
+ */
+export function isShockSpike(magnitude: number, thresholds: ShockThresholds): boolean {
+  return magnitude >= thresholds.thresholdG || magnitude <= thresholds.freeFallG;
+}
+
+/**
+ * Severity of an impact of the given magnitude
+ */
+export function classifyShockSeverity(magnitude: number, thresholds: ShockThresholds): ShockSeverity {
+  if (magnitude >= thresholds.severeG) return 'severe';
+  if (magnitude >= thresholds.majorG) return 'major';
+  return 'minor';
+}
+
+/**
+ * Whether a severity is at least the given minimum
+ */
+export function meetsShockSeverity(severity: ShockSeverity, minimum: ShockSeverity): boolean {
+  return SHOCK_SEVERITIES.indexOf(severity) >= SHOCK_SEVERITIES.indexOf(minimum);
+}
+
+/**
+ * Group spikes into events
+ * Spikes belong to the same event while no normal reading lies between them and they are at
+ * most mergeWindowMs apart. Free fall without a recorded impact is a minor drop.
+ *
+ * @param readings Readings in any order; they are sorted by timestamp first
+ */
+export function detectShockEvents(readings: AccelerationReading[], thresholds: ShockThresholds): DetectedShockEvent[] {
+  const sorted = [...readings].sort((a, b) => a.ts - b.ts);
+  const events: DetectedShockEvent[] = [];
+
+  let spikes: AccelerationReading[] = [];
+
+  const close = () => {
+    if (spikes.length === 0) return;
+
+    const freeFall = spikes.some((spike) => spike.magnitude <= thresholds.freeFallG);
+    const impacts = spikes.filter((spike) => spike.magnitude >= thresholds.thresholdG);
+    const peakMagnitude = impacts.length > 0
+      ? Math.max(...impacts.map((spike) => spike.magnitude))
+      : Math.min(...spikes.map((spike) => spike.magnitude));
+
+    events.push({
+      kind: freeFall ? 'drop' : 'shock',
+      severity: impacts.length > 0 ? classifyShockSeverity(peakMagnitude, thresholds) : 'minor',
+      startTs: spikes[0].ts,
+      endTs: spikes[spikes.length - 1].ts,
+      peakMagnitude,
+      readingCount: spikes.length,
+    });
+    spikes = [];
+  };
+
+  for (const reading of sorted) {
+    if (!isShockSpike(reading.magnitude, thresholds)) {
+      close();
+      continue;
+    }
+
+    const previous = spikes[spikes.length - 1];
+    if (previous && reading.ts - previous.ts > thresholds.mergeWindowMs) {
+      close();
+    }
+    spikes.push(reading);
+  }
+  close();
+
+  return events;
+}
@@ -0,0 +1,149 @@
+/**
+ * Mean Kinetic Temperature and stability budget calculations
+ * Pure functions: no database access
+ *
+ * Each reading's temperature is held until the next reading. An interval longer than
+ * maxGapMs is a data gap: it is neither in nor out of range, does not weigh into MKT and
+ * counts against the stability budget (time without data cannot be shown to be in range).
+ */
+
+import { classifyTemperature, TemperatureRange, TemperatureReading } from './excursions';
+
+const GAS_CONSTANT = 8.3144598; // J/(mol·K)
+const KELVIN_OFFSET = 273.15;
+
+export interface StabilityRange extends Pick<TemperatureRange, 'minTemp' | 'maxTemp'> {
+  stabilityBudgetMinutes: number | null;
+}
+
+export interface StabilityOptions {
+  activationEnergyKjPerMol: number; // ΔH used for MKT (83.144 kJ/mol per USP <1079.2>)
+  maxGapMs: number; // Longer intervals between readings are data gaps
+  from?: number; // Start of the evaluated window; a longer silence before the first reading is a gap
+  to?: number; // End of the evaluated window; a longer silence after the last reading is a gap
+}
+
+export interface StabilityBudget {
+  budgetMs: number;
+  usedMs: number; // Time above or below range plus data gaps
+  remainingMs: number;
+  exceeded: boolean;
+}
+
+export interface TemperatureStats {
+  readingCount: number;
+  firstTs: number | null;
+  lastTs: number | null;
+  minTemperature: number | null;
+  maxTemperature: number | null;
+  mkt: number | null; // °C, null without any covered interval
+  coveredMs: number; // Time backed by readings
+  gapMs: number;
+  gapCount: number;
+  inRangeMs: number | null; // null without a temperature range
+  aboveRangeMs: number | null;
+  belowRangeMs: number | null;
+  stabilityBudget: StabilityBudget | null; // null when the range has no budget
+}
+
+/**
+ * Mean Kinetic Temperature of time-weighted temperatures
+ * MKT = (ΔH/R) / -ln(Σ wᵢ·e^(-ΔH/(R·Tᵢ)) / Σ wᵢ), temperatures in Kelvin
+ * @returns °C, or null when the total weight is zero
+ */
+export function meanKineticTemperature(
+  samples: Array<{ temperature: number; weight: number }>,
+  activationEnergyKjPerMol: number
+): number | null {
+  const ratio = (activationEnergyKjPerMol * 1000) / GAS_CONSTANT;
+  let totalWeight = 0;
+  let weightedSum = 0;
+
+  for (const sample of samples) {
+    if (sample.weight <= 0) continue;
+    totalWeight += sample.weight;
+    weightedSum += sample.weight * Math.exp(-ratio / (sample.temperature + KELVIN_OFFSET));
+  }
+
+  if (totalWeight === 0) return null;
+  return ratio / -Math.log(weightedSum / totalWeight) - KELVIN_OFFSET;
+}
+
+/**
+ * Compute MKT, time in/above/below range and the remaining stability budget
+ * @param readings Temperature readings in any order
+ * @param range Profile range (null = no range: only MKT, extremes and coverage)
+ */
+export function computeTemperatureStats(
+  readings: TemperatureReading[],
+  range: StabilityRange | null,
+  options: StabilityOptions
+): TemperatureStats {
+  const sorted = [...readings].sort((a, b) => a.ts - b.ts);
+
+  let coveredMs = 0;
+  let gapMs = 0;
+  let gapCount = 0;
+  let aboveRangeMs = 0;
+  let belowRangeMs = 0;
+  const samples: Array<{ temperature: number; weight: number }> = [];
+
+  const addGap = (duration: number) => {
+    if (duration > options.maxGapMs) {
+      gapMs += duration;
+      gapCount++;
+    }
+  };
+
+  if (sorted.length > 0) {
+    if (options.from !== undefined) addGap(sorted[0].ts - options.from);
+    if (options.to !== undefined) addGap(options.to - sorted[sorted.length - 1].ts);
+  } else if (options.from !== undefined && options.to !== undefined) {
+    addGap(options.to - options.from);
+  }
+
+  for (let i = 0; i < sorted.length - 1; i++) {
+    const duration = sorted[i + 1].ts - sorted[i].ts;
+    if (duration > options.maxGapMs) {
+      addGap(duration);
+      continue;
+    }
+
+    coveredMs += duration;
+    samples.push({ temperature: sorted[i].temperature, weight: duration });
+
+    if (range) {
+      const direction = classifyTemperature(sorted[i].temperature, range);
+      if (direction === 'high') aboveRangeMs += duration;
+      if (direction === 'low') belowRangeMs += duration;
+    }
+  }
+
+  let stabilityBudget: StabilityBudget | null = null;
+  if (range && range.stabilityBudgetMinutes !== null) {
+    const budgetMs = range.stabilityBudgetMinutes * 60000;
+    const usedMs = aboveRangeMs + belowRangeMs + gapMs;
+    stabilityBudget = {
+      budgetMs,
+      usedMs,
+      remainingMs: Math.max(0, budgetMs - usedMs),
+      exceeded: usedMs > budgetMs,
+    };
+  }
+
+  return {
+    readingCount: sorted.length,
+    firstTs: sorted.length > 0 ? sorted[0].ts : null,
+    lastTs: sorted.length > 0 ? sorted[sorted.length - 1].ts : null,
+    minTemperature: sorted.length > 0 ? sorted.reduce((min, r) => Math.min(min, r.temperature), Infinity) : null,
+    maxTemperature: sorted.length > 0 ? sorted.reduce((max, r) => Math.max(max, r.temperature), -Infinity) : null,
+    mkt: meanKineticTemperature(samples, options.activationEnergyKjPerMol),
+    coveredMs,
+    gapMs,
+    gapCount,
+    inRangeMs: range ? coveredMs - aboveRangeMs - belowRangeMs : null,
+    aboveRangeMs: range ? aboveRangeMs : null,
+    belowRangeMs: range ? belowRangeMs : null,
+    stabilityBudget,
+  };
+}
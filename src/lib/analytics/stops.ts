@@ -0,0 +1,104 @@
+/**
+ * Stop detection on device tracks
+ * Pure functions: no database access, so they can be re-run over any location history
+ *
+ * Consecutive locations stay in one cluster while each lies within the stop radius of the
+ * cluster's centroid, widened by the location's own accuracy: a coarse cell fix a kilometre
+ * away with a 2 km accuracy radius is consistent with standing still, so it neither ends the
+ * stop nor (weighted by accuracy) moves its centroid much. A cluster that lasts at least the
+ * minimum duration is a stop.
+ */
+
+import { haversineMeters } from '@/lib/utils/geo';
+
+export interface TrackPoint {
+  ts: number;
+  latitude: number;
+  longitude: number;
+  accuracyMeters: number | null; // Location accuracy radius (null = unknown)
+}
+
+export interface StopOptions {
+  radiusMeters: number; // Points within this distance of the centroid belong to the stop
+  minDurationMs: number; // Shorter clusters are not stops
+}
+
+export interface DetectedStop {
+  startTs: number; // First location of the stop
+  endTs: number; // Last location of the stop
+  durationMs: number;
+  latitude: number; // Centroid, weighted by location accuracy
+  longitude: number;
+  pointCount: number;
+}
+
+/**
+ * Weight of a location in the centroid (inverse variance of its accuracy)
+ * Locations without an accuracy are weighted as if accurate to the stop radius
+ */
+function pointWeight(point: TrackPoint, options: StopOptions): number {
+  const accuracy = Math.max(point.accuracyMeters ?? options.radiusMeters, 1);
+  return 1 / (accuracy * accuracy);
+}
+
+/**
+ * Cluster a track into stops
+ * @param points Locations in any order; they are sorted by timestamp first
+ */
+export function detectStops(points: TrackPoint[], options: StopOptions): DetectedStop[] {
+  const sorted = [...points].sort((a, b) => a.ts - b.ts);
+  const stops: DetectedStop[] = [];
+
+  let cluster: TrackPoint[] = [];
+  let weightSum = 0;
+  let latitudeSum = 0;
+  let longitudeSum = 0;
+
+  const start = (point: TrackPoint) => {
+    const weight = pointWeight(point, options);
+    cluster = [point];
+    weightSum = weight;
+    latitudeSum = point.latitude * weight;
+    longitudeSum = point.longitude * weight;
+  };
+
+  const close = () => {
+    if (cluster.length === 0) return;
+    const startTs = cluster[0].ts;
+    const endTs = cluster[cluster.length - 1].ts;
+    if (endTs - startTs >= options.minDurationMs) {
+      stops.push({
+        startTs,
+        endTs,
+        durationMs: endTs - startTs,
+        latitude: latitudeSum / weightSum,
+        longitude: longitudeSum / weightSum,
+        pointCount: cluster.length,
+      });
+    }
+    cluster = [];
+  };
+
+  for (const point of sorted) {
+    if (cluster.length === 0) {
+      start(point);
+      continue;
+    }
+
+    const distance = haversineMeters(latitudeSum / weightSum, longitudeSum / weightSum, point.latitude, point.longitude);
+    if (distance > options.radiusMeters + (point.accuracyMeters ?? 0)) {
+      close();
+      start(point);
+      continue;
+    }
+
+    const weight = pointWeight(point, options);
+    cluster.push(point);
+    weightSum += weight;
+    latitudeSum += point.latitude * weight;
+    longitudeSum += point.longitude * weight;
+  }
+  close();
+
+  return stops;
+}
@@ -0,0 +1,56 @@
+/**
+ * Temperature channels of dual-sensor devices
+ * Tive trackers measure the ambient temperature inside the tracker and, with a probe
+ * attached, the temperature of the product. Each device has a primary channel, which its
+ * badge, profile thresholds, excursions, statistics and temperature alerts use.
+ * Pure functions: no database access
+ */
+
+export const TEMPERATURE_CHANNELS = ['ambient', 'probe'] as const;
+export type TemperatureChannel = (typeof TEMPERATURE_CHANNELS)[number];
+
+export const DEFAULT_TEMPERATURE_CHANNEL: TemperatureChannel = 'ambient';
+
+/**
+ * Temperatures of both channels (null = not reported)
+ */
+export interface ChannelTemperatures {
+  temperature: number | null; // Ambient
+  probeTemperature: number | null;
+}
+
+export function isTemperatureChannel(value: unknown): value is TemperatureChannel {
+  return typeof value === 'string' && (TEMPERATURE_CHANNELS as readonly string[]).includes(value);
+}
+
+/**
+ * Stored channel value, falling back to ambient for unknown values
+ */
+export function toTemperatureChannel(value: string | null | undefined): TemperatureChannel {
+  return isTemperatureChannel(value) ? value : DEFAULT_TEMPERATURE_CHANNEL;
+}
+
+/**
+ * Temperature of one channel
+ */
+export function getChannelTemperature(values: ChannelTemperatures, channel: TemperatureChannel): number | null {
+  return channel === 'probe' ? values.probeTemperature : values.temperature;
+}
+
+/**
+ * Readings with the temperature of each device's channel, skipping readings without one
+ * Order is preserved, so readings of several devices stay in time order.
+ */
+export function selectChannelReadings<T extends ChannelTemperatures & { deviceImei: string; ts: number }>(
+  readings: T[],
+  channelOf: (deviceImei: string) => TemperatureChannel
+): Array<{ deviceImei: string; ts: number; temperature: number }> {
+  const selected: Array<{ deviceImei: string; ts: number; temperature: number }> = [];
+  for (const reading of readings) {
+    const temperature = getChannelTemperature(reading, channelOf(reading.deviceImei));
+    if (temperature !== null) {
+      selected.push({ deviceImei: reading.deviceImei, ts: reading.ts, temperature });
+    }
+  }
+  return selected;
+}
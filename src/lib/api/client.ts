@@ -0,0 +1,38 @@
+/**
+ * Browser-side API helpers for the dashboard
+ * The API key is entered by the user and kept in localStorage
+ */
+
+const API_KEY_STORAGE_KEY = 'paxafe_api_key';
+
+/**
+ * Read the stored API key (null on the server or when none is stored)
+ */
+export function getStoredApiKey(): string | null {
+  if (typeof window === 'undefined') return null;
+  return window.localStorage.getItem(API_KEY_STORAGE_KEY);
+}
+
+/**
+ * Store the API key, or remove it when null
+ */
+export function setStoredApiKey(apiKey: string | null): void {
+  if (typeof window === 'undefined') return;
+  if (apiKey) {
+    window.localStorage.setItem(API_KEY_STORAGE_KEY, apiKey);
+  } else {
+    window.localStorage.removeItem(API_KEY_STORAGE_KEY);
+  }
+}
+
+/**
+ * fetch() with the stored API key sent as X-API-Key
+ */
+export async function apiFetch(input: string, init: RequestInit = {}): Promise<Response> {
+  const headers = new Headers(init.headers);
+  const apiKey = getStoredApiKey();
+  if (apiKey) {
+    headers.set('X-API-Key', apiKey);
+  }
+  return fetch(input, { ...init, headers });
+}
@@ -0,0 +1,72 @@
+/**
+ * Query parameters shared by the data completeness endpoints
+ */
+
+import { COMPLETENESS, CONNECTIVITY } from '@/lib/constants';
+import { QueryParamError, parseTimeParam } from './query-params';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface CompletenessParams {
+  from?: number;
+  to?: number;
+  intervalMs?: number;
+  gapFactor: number;
+  bufferedDelayMs: number;
+}
+
+/**
+ * Parse from, to, intervalMinutes, gapFactor and bufferedDelayMinutes
+ * The from/to window is limited to COMPLETENESS.MAX_WINDOW_DAYS, as completeness is computed per day.
+ */
+export function parseCompletenessParams(params: URLSearchParams, errors: QueryParamError[]): CompletenessParams {
+  const from = parseTimeParam(params, 'from', errors);
+  const to = parseTimeParam(params, 'to', errors);
+  if (from !== undefined && to !== undefined && from > to) {
+    errors.push({ field: 'from', message: 'from must not be after to' });
+  } else if (from !== undefined && (to ?? Date.now()) - from > COMPLETENESS.MAX_WINDOW_DAYS * DAY_MS) {
+    // Without to the window runs up to the last reading, at most now
+    errors.push({ field: 'from', message: `from/to must not span more than ${COMPLETENESS.MAX_WINDOW_DAYS} days` });
+  }
+
+  let intervalMs: number | undefined;
+  const rawInterval = params.get('intervalMinutes')?.trim();
+  if (rawInterval) {
+    const value = Number(rawInterval);
+    if (!Number.isInteger(value) || value < 1 || value > CONNECTIVITY.MAX_REPORTING_INTERVAL_MINUTES) {
+      errors.push({
+        field: 'intervalMinutes',
+        message: `intervalMinutes must be an integer between 1 and ${CONNECTIVITY.MAX_REPORTING_INTERVAL_MINUTES}`,
+      });
+    } else {
+      intervalMs = value * 60000;
+    }
+  }
+
+  let gapFactor: number = COMPLETENESS.DEFAULT_GAP_FACTOR;
+  const rawFactor = params.get('gapFactor')?.trim();
+  if (rawFactor) {
+    const value = Number(rawFactor);
+    if (!Number.isFinite(value) || value < COMPLETENESS.MIN_GAP_FACTOR || value > COMPLETENESS.MAX_GAP_FACTOR) {
+      errors.push({
+        field: 'gapFactor',
+        message: `gapFactor must be between ${COMPLETENESS.MIN_GAP_FACTOR} and ${COMPLETENESS.MAX_GAP_FACTOR}`,
+      });
+    } else {
+      gapFactor = value;
+    }
+  }
+
+  let bufferedDelayMinutes: number = COMPLETENESS.DEFAULT_BUFFERED_DELAY_MINUTES;
+  const rawDelay = params.get('bufferedDelayMinutes')?.trim();
+  if (rawDelay) {
+    const value = Number(rawDelay);
+    if (!Number.isInteger(value) || value < 1) {
+      errors.push({ field: 'bufferedDelayMinutes', message: 'bufferedDelayMinutes must be a positive integer' });
+    } else {
+      bufferedDelayMinutes = value;
+    }
+  }
+
+  return { from, to, intervalMs, gapFactor, bufferedDelayMs: bufferedDelayMinutes * 60000 };
+}
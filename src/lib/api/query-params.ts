@@ -0,0 +1,129 @@
+/**
+ * Query string parsing helpers for API routes
+ * Parse errors are collected in the same { field, message } shape as payload validation errors
+ */
+
+export interface QueryParamError {
+  field: string;
+  message: string;
+}
+
+const MAX_EPOCH_MS = 8.64e15; // Largest distance from the epoch a Date can represent
+
+/**
+ * Parse a time parameter given as epoch milliseconds or an ISO 8601 date
+ * Returns undefined when the parameter is absent
+ */
+export function parseTimeParam(
+  params: URLSearchParams,
+  name: string,
+  errors: QueryParamError[]
+): number | undefined {
+  const raw = params.get(name)?.trim();
+  if (!raw) return undefined;
+
+  const value = /^-?\d+$/.test(raw) ? Number(raw) : Date.parse(raw);
+  if (!Number.isFinite(value) || Math.abs(value) > MAX_EPOCH_MS) {
+    errors.push({ field: name, message: `${name} must be epoch milliseconds or an ISO 8601 date` });
+    return undefined;
+  }
+  return value;
+}
+
+/**
+ * Parse a positive integer limit, clamped to max
+ */
+export function parseLimitParam(
+  params: URLSearchParams,
+  name: string,
+  options: { defaultValue: number; max: number },
+  errors: QueryParamError[]
+): number {
+  const raw = params.get(name)?.trim();
+  if (!raw) return options.defaultValue;
+
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 1) {
+    errors.push({ field: name, message: `${name} must be a positive integer` });
+    return options.defaultValue;
+  }
+  return Math.min(value, options.max);
+}
+
+/**
+ * Read a trimmed string parameter (undefined when absent or empty)
+ */
+export function parseStringParam(params: URLSearchParams, name: string): string | undefined {
+  return params.get(name)?.trim() || undefined;
+}
+
+/**
+ * Parse a sort order parameter (asc or desc)
+ */
+export function parseOrderParam(
+  params: URLSearchParams,
+  name: string,
+  defaultValue: 'asc' | 'desc',
+  errors: QueryParamError[]
+): 'asc' | 'desc' {
+  const raw = params.get(name)?.trim();
+  if (!raw) return defaultValue;
+
+  if (raw !== 'asc' && raw !== 'desc') {
+    errors.push({ field: name, message: `${name} must be asc or desc` });
+    return defaultValue;
+  }
+  return raw;
+}
+
+/**
+ * Parse a comma-separated list of field names, each of which must be allowed
+ * Returns undefined when the parameter is absent (all fields)
+ */
+export function parseFieldsParam(
+  params: URLSearchParams,
+  name: string,
+  allowed: readonly string[],
+  errors: QueryParamError[]
+): string[] | undefined {
+  const raw = params.get(name)?.trim();
+  if (!raw) return undefined;
+
+  const fields = Array.from(new Set(raw.split(',').map((field) => field.trim()).filter(Boolean)));
+  const unknown = fields.filter((field) => !allowed.includes(field));
+  if (unknown.length > 0) {
+    errors.push({
+      field: name,
+      message: `Unknown ${name}: ${unknown.join(', ')}. Allowed: ${allowed.join(', ')}`,
+    });
+    return undefined;
+  }
+  return fields;
+}
+
+/**
+ * Encode a (ts, id) pagination position as an opaque cursor string
+ */
+export function encodeCursor(cursor: { ts: number; id: number }): string {
+  return Buffer.from(`${cursor.ts}:${cursor.id}`).toString('base64url');
+}
+
+/**
+ * Parse a cursor produced by encodeCursor
+ * Returns undefined when the parameter is absent
+ */
+export function parseCursorParam(
+  params: URLSearchParams,
+  name: string,
+  errors: QueryParamError[]
+): { ts: number; id: number } | undefined {
+  const raw = params.get(name)?.trim();
+  if (!raw) return undefined;
+
+  const match = /^(-?\d+):(\d+)$/.exec(Buffer.from(raw, 'base64url').toString());
+  if (!match) {
+    errors.push({ field: name, message: `${name} is not a valid cursor` });
+    return undefined;
+  }
+  return { ts: Number(match[1]), id: Number(match[2]) };
+}
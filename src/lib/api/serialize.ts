@@ -0,0 +1,24 @@
+/**
+ * Serialization of Prisma entities for JSON responses
+ */
+
+/**
+ * Serialize Prisma entities for JSON response
+ * Only handles type conversion needed for JSON serialization (Decimal, BigInt)
+ * Returns entities as-is (camelCase) - frontend handles the rest
+ */
+export function serializePrisma(entity: unknown): any {
+  return JSON.parse(
+    JSON.stringify(entity, (_, value) => {
+      // Convert Prisma Decimal to number
+      if (value && typeof value === 'object' && 'toNumber' in value && typeof value.toNumber === 'function') {
+        return value.toNumber();
+      }
+      // Convert BigInt to number
+      if (typeof value === 'bigint') {
+        return Number(value);
+      }
+      return value;
+    })
+  );
+}
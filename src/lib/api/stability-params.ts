@@ -0,0 +1,55 @@
+/**
+ * Query parameters shared by the temperature statistics endpoints
+ */
+
+import { STABILITY } from '@/lib/constants';
+import { QueryParamError, parseTimeParam } from './query-params';
+
+export interface StabilityParams {
+  from?: number;
+  to?: number;
+  activationEnergyKjPerMol: number;
+  maxGapMs: number;
+}
+
+/**
+ * Parse from, to, activationEnergy (kJ/mol) and maxGapMinutes
+ */
+export function parseStabilityParams(params: URLSearchParams, errors: QueryParamError[]): StabilityParams {
+  const from = parseTimeParam(params, 'from', errors);
+  const to = parseTimeParam(params, 'to', errors);
+  if (from !== undefined && to !== undefined && from > to) {
+    errors.push({ field: 'from', message: 'from must not be after to' });
+  }
+
+  let activationEnergyKjPerMol: number = STABILITY.DEFAULT_ACTIVATION_ENERGY_KJ_PER_MOL;
+  const rawEnergy = params.get('activationEnergy')?.trim();
+  if (rawEnergy) {
+    const value = Number(rawEnergy);
+    if (
+      !Number.isFinite(value) ||
+      value < STABILITY.MIN_ACTIVATION_ENERGY_KJ_PER_MOL ||
+      value > STABILITY.MAX_ACTIVATION_ENERGY_KJ_PER_MOL
+    ) {
+      errors.push({
+        field: 'activationEnergy',
+        message: `activationEnergy must be between ${STABILITY.MIN_ACTIVATION_ENERGY_KJ_PER_MOL} and ${STABILITY.MAX_ACTIVATION_ENERGY_KJ_PER_MOL} kJ/mol`,
+      });
+    } else {
+      activationEnergyKjPerMol = value;
+    }
+  }
+
+  let maxGapMinutes: number = STABILITY.DEFAULT_MAX_GAP_MINUTES;
+  const rawGap = params.get('maxGapMinutes')?.trim();
+  if (rawGap) {
+    const value = Number(rawGap);
+    if (!Number.isInteger(value) || value < 1) {
+      errors.push({ field: 'maxGapMinutes', message: 'maxGapMinutes must be a positive integer' });
+    } else {
+      maxGapMinutes = value;
+    }
+  }
+
+  return { from, to, activationEnergyKjPerMol, maxGapMs: maxGapMinutes * 60000 };
+}
@@ -4,6 +4,24 @@
  */
 
 import { logger } from './logger';
+import { VALIDATION, WEBHOOK_SIGNATURE, SHOCK, MOVEMENT, GEOCODING, CONNECTIVITY } from './constants';
+import type { ShockThresholds } from './analytics/shocks';
+import type { MovementThresholds } from './analytics/movement';
+import type { ConnectivityThresholds } from './analytics/connectivity';
+
+/**
+ * How inbound webhooks from a source are authenticated
+ * - api_key: X-API-Key / Authorization: Bearer header
+ * - signature: HMAC-SHA256 signature + timestamp headers over the raw body
+ * - both: API key and signature are both required
+ */
+export type WebhookAuthMode = 'api_key' | 'signature' | 'both';
+
+export interface WebhookAuthConfig {
+  mode: WebhookAuthMode;
+  signingSecrets: string[]; // Current secret first; a previous secret stays valid during rotation
+  signatureToleranceSeconds: number;
+}
 
 function requireEnv(key: string): string {
   const value = process.env[key];
@@ -22,12 +40,172 @@ function requireEnv(key: string): string {
   return value;
 }
 
+function optionalIntEnv(key: string, fallback: number): number {
+  const value = process.env[key];
+  if (!value) {
+    return fallback;
+  }
+  const parsed = parseInt(value, 10);
+  if (isNaN(parsed) || parsed <= 0) {
+    logger.warn('Invalid numeric environment variable - using default', { key, value, fallback });
+    return fallback;
+  }
+  return parsed;
+}
+
+function optionalFloatEnv(key: string, fallback: number): number {
+  const value = process.env[key];
+  if (!value) {
+    return fallback;
+  }
+  const parsed = parseFloat(value);
+  if (isNaN(parsed) || parsed < 0) {
+    logger.warn('Invalid numeric environment variable - using default', { key, value, fallback });
+    return fallback;
+  }
+  return parsed;
+}
+
+/**
+ * Load webhook authentication settings for a source from <PREFIX>_* variables
+ * e.g. TIVE_WEBHOOK_AUTH_MODE, TIVE_SIGNING_SECRET, TIVE_SIGNING_SECRET_PREVIOUS
+ */
+function loadWebhookAuthConfig(prefix: string): WebhookAuthConfig {
+  const modeValue = (process.env[`${prefix}_WEBHOOK_AUTH_MODE`] || 'api_key').toLowerCase();
+  const mode: WebhookAuthMode = ['api_key', 'signature', 'both'].includes(modeValue)
+    ? (modeValue as WebhookAuthMode)
+    : 'api_key';
+
+  if (mode !== modeValue) {
+    logger.warn('Invalid webhook auth mode - using api_key', { key: `${prefix}_WEBHOOK_AUTH_MODE`, value: modeValue });
+  }
+
+  const signingSecrets = [
+    process.env[`${prefix}_SIGNING_SECRET`],
+    process.env[`${prefix}_SIGNING_SECRET_PREVIOUS`],
+  ].filter((secret): secret is string => !!secret);
+
+  if (mode !== 'api_key' && signingSecrets.length === 0) {
+    const error = new Error(`Missing required environment variable: ${prefix}_SIGNING_SECRET`);
+    if (process.env.NODE_ENV === 'production') {
+      throw error;
+    }
+    // Without a secret every signed request is rejected
+    logger.warn('Webhook signature verification enabled without a signing secret', {
+      key: `${prefix}_SIGNING_SECRET`,
+      message: error.message,
+    });
+  }
+
+  return {
+    mode,
+    signingSecrets,
+    signatureToleranceSeconds: optionalIntEnv(
+      `${prefix}_SIGNATURE_TOLERANCE_SECONDS`,
+      WEBHOOK_SIGNATURE.DEFAULT_TOLERANCE_SECONDS
+    ),
+  };
+}
+
+/**
+ * SMTP settings for email alerts (SMTP_HOST unset = email alerts disabled)
+ */
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean; // TLS from the start (port 465); otherwise STARTTLS when offered
+  user?: string;
+  password?: string;
+  from: string;
+}
+
+function loadSmtpConfig(): SmtpConfig | undefined {
+  const host = process.env.SMTP_HOST;
+  if (!host) {
+    return undefined;
+  }
+  const port = optionalIntEnv('SMTP_PORT', 587);
+  return {
+    host,
+    port,
+    secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+    user: process.env.SMTP_USER,
+    password: process.env.SMTP_PASSWORD,
+    from: process.env.ALERT_EMAIL_FROM || 'alerts@paxafe.com',
+  };
+}
+
+/**
+ * Shock detection thresholds from SHOCK_* variables
+ */
+function loadShockThresholds(): ShockThresholds {
+  return {
+    thresholdG: optionalFloatEnv('SHOCK_THRESHOLD_G', SHOCK.DEFAULT_THRESHOLD_G),
+    majorG: optionalFloatEnv('SHOCK_MAJOR_G', SHOCK.DEFAULT_MAJOR_G),
+    severeG: optionalFloatEnv('SHOCK_SEVERE_G', SHOCK.DEFAULT_SEVERE_G),
+    freeFallG: optionalFloatEnv('SHOCK_FREE_FALL_G', SHOCK.DEFAULT_FREE_FALL_G),
+    mergeWindowMs: optionalIntEnv('SHOCK_MERGE_WINDOW_SECONDS', SHOCK.DEFAULT_MERGE_WINDOW_SECONDS) * 1000,
+  };
+}
+
+/**
+ * Movement thresholds from MOVEMENT_* variables
+ */
+function loadMovementThresholds(): MovementThresholds {
+  return {
+    movingSpeedKmh: optionalFloatEnv('MOVEMENT_MOVING_SPEED_KMH', MOVEMENT.DEFAULT_MOVING_SPEED_KMH),
+    maxSpeedKmh: optionalFloatEnv('MOVEMENT_MAX_SPEED_KMH', MOVEMENT.DEFAULT_MAX_SPEED_KMH),
+  };
+}
+
+/**
+ * Connectivity thresholds from CONNECTIVITY_* variables
+ */
+function loadConnectivityThresholds(): ConnectivityThresholds {
+  return {
+    defaultIntervalMs: optionalFloatEnv('CONNECTIVITY_DEFAULT_INTERVAL_MINUTES', CONNECTIVITY.DEFAULT_INTERVAL_MINUTES) * 60000,
+    lateFactor: optionalFloatEnv('CONNECTIVITY_LATE_FACTOR', CONNECTIVITY.DEFAULT_LATE_FACTOR),
+    offlineFactor: optionalFloatEnv('CONNECTIVITY_OFFLINE_FACTOR', CONNECTIVITY.DEFAULT_OFFLINE_FACTOR),
+    graceMs: optionalFloatEnv('CONNECTIVITY_GRACE_MINUTES', CONNECTIVITY.DEFAULT_GRACE_MINUTES) * 60000,
+  };
+}
+
+/**
+ * Offline reverse geocoding (GAZETTEER_PATH unset = formatted address parsing only)
+ */
+export interface GeocodingConfig {
+  gazetteerPath: string; // GeoNames cities file
+  admin1Path: string | null; // GeoNames admin1 codes file (region names)
+  maxDistanceKm: number;
+}
+
+function loadGeocodingConfig(): GeocodingConfig | undefined {
+  const gazetteerPath = process.env.GAZETTEER_PATH;
+  if (!gazetteerPath) {
+    return undefined;
+  }
+  return {
+    gazetteerPath,
+    admin1Path: process.env.GAZETTEER_ADMIN1_PATH || null,
+    maxDistanceKm: optionalFloatEnv('GAZETTEER_MAX_DISTANCE_KM', GEOCODING.DEFAULT_MAX_DISTANCE_KM),
+  };
+}
+
 let config: {
   apiKey: string;
   databaseUrl: string;
   inngestEventKey?: string;
   inngestSigningKey?: string;
   tiveErrorWebhookUrl?: string;
+  alertWebhookSecret?: string; // Default signing secret for webhook alert channels
+  smtp?: SmtpConfig;
+  shock: ShockThresholds;
+  movement: MovementThresholds;
+  connectivity: ConnectivityThresholds;
+  geocoding?: GeocodingConfig;
+  webhookBatchMaxSize: number;
+  webhookBatchMaxItems: number;
+  webhookAuth: Record<string, WebhookAuthConfig>; // Keyed by source (e.g. "Tive")
   nodeEnv: string;
 };
 
@@ -38,6 +216,17 @@ try {
     inngestEventKey: process.env.INNGEST_EVENT_KEY,
     inngestSigningKey: process.env.INNGEST_SIGNING_KEY,
     tiveErrorWebhookUrl: process.env.TIVE_ERROR_WEBHOOK_URL,
+    alertWebhookSecret: process.env.ALERT_WEBHOOK_SECRET,
+    smtp: loadSmtpConfig(),
+    shock: loadShockThresholds(),
+    movement: loadMovementThresholds(),
+    connectivity: loadConnectivityThresholds(),
+    geocoding: loadGeocodingConfig(),
+    webhookBatchMaxSize: optionalIntEnv('WEBHOOK_BATCH_MAX_SIZE', VALIDATION.MAX_BATCH_SIZE),
+    webhookBatchMaxItems: optionalIntEnv('WEBHOOK_BATCH_MAX_ITEMS', VALIDATION.MAX_BATCH_ITEMS),
+    webhookAuth: {
+      Tive: loadWebhookAuthConfig('TIVE'),
+    },
     nodeEnv: process.env.NODE_ENV || 'development',
   } as const;
 } catch (error) {
@@ -2,7 +2,9 @@
  * Validation constants for payload validation
  */
 export const VALIDATION = {
-  MAX_PAYLOAD_SIZE: 100 * 1024, // 100KB
+  MAX_PAYLOAD_SIZE: 100 * 1024, // 100KB per payload (single request or batch item)
+  MAX_BATCH_SIZE: 5 * 1024 * 1024, // 5MB per batch request (default, see WEBHOOK_BATCH_MAX_SIZE)
+  MAX_BATCH_ITEMS: 500, // Payloads per batch request (default, see WEBHOOK_BATCH_MAX_ITEMS)
   MAX_TIMESTAMP_OFFSET: 365 * 24 * 60 * 60 * 1000, // 1 year
   TEMP_MIN: -100,
   TEMP_MAX: 100,
@@ -12,8 +14,215 @@ export const VALIDATION = {
   LATITUDE_MAX: 90,
   LONGITUDE_MIN: -180,
   LONGITUDE_MAX: 180,
-  ACCELEROMETER_MIN: -1,
-  ACCELEROMETER_MAX: 1,
+  ACCELEROMETER_MIN: -16, // g per axis (full scale of common tracker accelerometers)
+  ACCELEROMETER_MAX: 16,
+  ACCELEROMETER_MAGNITUDE_MAX: 28, // g, |(16, 16, 16)| rounded up
+  BATTERY_ESTIMATIONS: ['N/A', 'Days', 'Weeks', 'Months'],
+  SIGNAL_STRENGTHS: ['No signal', 'Poor', 'Fair', 'Good'],
+  MAX_TEXT_LENGTH: 255, // EntityName
+  MAX_SOURCE_LENGTH: 50, // Location.GeolocationSourceName
+} as const;
+
+/**
+ * Inbound webhook signature verification
+ * Signature = hex HMAC-SHA256 of "<timestamp>.<raw body>"
+ */
+export const WEBHOOK_SIGNATURE = {
+  SIGNATURE_HEADER: 'x-tive-signature', // "sha256=<hex>" or "<hex>"
+  TIMESTAMP_HEADER: 'x-tive-timestamp', // Epoch seconds or milliseconds
+  DEFAULT_TOLERANCE_SECONDS: 300, // Allowed clock skew (replay window)
+} as const;
+
+/**
+ * Limits for shipment queries
+ */
+export const SHIPMENT_QUERY = {
+  DEFAULT_LIMIT: 100,
+  MAX_LIMIT: 1000,
+  MAX_SERIES_POINTS: 5000, // Temperature and route points returned per shipment
+} as const;
+
+/**
+ * Limits for temperature excursion queries
+ */
+export const EXCURSION_QUERY = {
+  DEFAULT_LIMIT: 100,
+  MAX_LIMIT: 1000,
+} as const;
+
+/**
+ * Limits for device history (telemetry and location) queries
+ */
+export const HISTORY_QUERY = {
+  DEFAULT_LIMIT: 500,
+  MAX_LIMIT: 5000,
+  MAX_DOWNSAMPLE_SOURCE_ROWS: 200000, // Readings read for one downsampled series
+} as const;
+
+/**
+ * Bucket sizes for aggregated telemetry history (interval query parameter)
+ */
+export const HISTORY_INTERVALS = {
+  '1m': 60 * 1000,
+  '5m': 5 * 60 * 1000,
+  '1h': 60 * 60 * 1000,
+  '1d': 24 * 60 * 60 * 1000,
+} as const;
+
+/**
+ * Defaults for Mean Kinetic Temperature and stability budget calculations
+ */
+export const STABILITY = {
+  DEFAULT_ACTIVATION_ENERGY_KJ_PER_MOL: 83.144, // USP <1079.2> default ΔH
+  MIN_ACTIVATION_ENERGY_KJ_PER_MOL: 10,
+  MAX_ACTIVATION_ENERGY_KJ_PER_MOL: 500,
+  DEFAULT_MAX_GAP_MINUTES: 60, // Longer silences between readings are data gaps
+  MAX_READINGS: 500000, // Readings read for one calculation
+} as const;
+
+/**
+ * Default shock detection thresholds (overridable with SHOCK_* variables)
+ * Magnitudes are in g; a device at rest reads about 1 g
+ */
+export const SHOCK = {
+  DEFAULT_THRESHOLD_G: 2, // Readings at or above this are shocks (minor)
+  DEFAULT_MAJOR_G: 4,
+  DEFAULT_SEVERE_G: 8,
+  DEFAULT_FREE_FALL_G: 0.3, // Readings at or below this are free fall (drops)
+  DEFAULT_MERGE_WINDOW_SECONDS: 60, // Consecutive spikes at most this far apart form one event
+} as const;
+
+/**
+ * Limits for shock event queries
+ */
+export const SHOCK_QUERY = {
+  DEFAULT_LIMIT: 100,
+  MAX_LIMIT: 1000,
+} as const;
+
+/**
+ * Default movement thresholds (overridable with MOVEMENT_* variables)
+ */
+export const MOVEMENT = {
+  DEFAULT_MOVING_SPEED_KMH: 3, // Slower segments are stationary
+  DEFAULT_MAX_SPEED_KMH: 1000, // Faster segments are implausible jumps and are ignored
+} as const;
+
+/**
+ * Device connectivity (overridable with CONNECTIVITY_* variables)
+ * A device is late or offline once its silence exceeds a multiple of its expected reporting
+ * interval plus a grace period. The interval is configured per device, else learned from the
+ * median gap of its recent readings, else the default.
+ */
+export const CONNECTIVITY = {
+  DEFAULT_INTERVAL_MINUTES: 15, // Tive's default reporting interval
+  DEFAULT_LATE_FACTOR: 2, // Missed about one report
+  DEFAULT_OFFLINE_FACTOR: 4, // Missed several reports
+  DEFAULT_GRACE_MINUTES: 5, // Allowance for network and processing delay
+  CADENCE_SAMPLE_SIZE: 20, // Most recent readings the cadence is learned from
+  MIN_CADENCE_SAMPLES: 3, // Fewer gaps than this = cadence not learned yet
+  MAX_REPORTING_INTERVAL_MINUTES: 10080, // One week
+  EVENTS_LIMIT: 20, // Transitions returned with a device's connectivity
+} as const;
+
+/**
+ * Battery depletion forecast
+ * The drain rate is fitted on the readings since the last charge within the window
+ */
+export const BATTERY_FORECAST = {
+  WINDOW_DAYS: 7, // History the drain rate is fitted on
+  MAX_SAMPLES: 5000, // Most recent readings read for one forecast
+  MIN_SAMPLES: 4,
+  MIN_SPAN_HOURS: 6, // Whole percentages need a span of readings to show a slope
+  MIN_DRAIN_PERCENT_PER_DAY: 0.1, // Slower drains are stable
+  RECHARGE_JUMP_PERCENT: 5, // A rise this large is a recharge or battery swap
+} as const;
+
+/**
+ * Data completeness query defaults
+ * Gaps and backfilled readings are judged against each device's expected reporting interval
+ * (see CONNECTIVITY)
+ */
+export const COMPLETENESS = {
+  DEFAULT_GAP_FACTOR: 1.5, // Longer silences than this many expected intervals are gaps
+  MIN_GAP_FACTOR: 1,
+  MAX_GAP_FACTOR: 100,
+  DEFAULT_BUFFERED_DELAY_MINUTES: 30, // Readings arriving later than this were buffered on the device
+  MAX_READINGS: 500000, // Readings read for one calculation
+  MAX_WINDOW_DAYS: 366, // Longest from/to window, evaluated day by day
+} as const;
+
+/**
+ * Reverse geocoding (GAZETTEER_* variables)
+ */
+export const GEOCODING = {
+  DEFAULT_MAX_DISTANCE_KM: 25, // Places further away are not used to name a coordinate
+  CACHE_COORDINATE_DECIMALS: 3, // Cache key precision (about 110 m)
+  CACHE_MAX_ENTRIES: 10000,
+} as const;
+
+/**
+ * Derived sensor values (tilt, box open) for providers that do not report them
+ * Light levels are in lux, accelerations in g
+ */
+export const DERIVATION = {
+  DEFAULT_LUX_BASELINE: 0, // Light inside a closed box for devices without a calibrated baseline
+  BOX_OPEN_DELTA_LUX: 20, // Open once light rises this far above the baseline
+  BOX_CLOSED_DELTA_LUX: 5, // Closed again once light falls back to within this of the baseline
+  MIN_GRAVITY_G: 0.5, // Tilt is only derived when the vector is close to gravity alone
+  MAX_GRAVITY_G: 1.5, // (not during shocks or free fall)
+} as const;
+
+/**
+ * Geofence defaults and limits
+ */
+export const GEOFENCE = {
+  SHIPMENT_RADIUS_METERS: 1000, // Radius of the origin/destination geofences created from a shipment
+  SHIPMENT_DWELL_MINUTES: 30, // Dwell threshold of those geofences
+  MAX_RADIUS_METERS: 1000000,
+  MAX_POLYGON_VERTICES: 500,
+} as const;
+
+/**
+ * Stop detection defaults and limits
+ */
+export const STOP = {
+  DEFAULT_RADIUS_METERS: 150, // Locations this close to the centroid (plus their accuracy) belong to one stop
+  MAX_RADIUS_METERS: 10000,
+  DEFAULT_MIN_DURATION_MINUTES: 15, // Shorter clusters are not stops
+  MAX_LOCATIONS: 50000, // Locations read for one detection
+} as const;
+
+/**
+ * Limits for geofence and geofence event queries
+ */
+export const GEOFENCE_QUERY = {
+  DEFAULT_LIMIT: 100,
+  MAX_LIMIT: 1000,
+} as const;
+
+/**
+ * Limits for alert queries
+ */
+export const ALERT_QUERY = {
+  DEFAULT_LIMIT: 100,
+  MAX_LIMIT: 1000,
+} as const;
+
+/**
+ * Limits for the raw payload admin API
+ */
+export const RAW_PAYLOAD_QUERY = {
+  DEFAULT_LIMIT: 50,
+  MAX_LIMIT: 500,
+} as const;
+
+/**
+ * Limits for reprocessing raw payloads
+ */
+export const REPROCESS = {
+  DEFAULT_LIMIT: 100, // Payloads per request when no limit is given
+  MAX_PAYLOADS: 500, // Payloads per request (one Inngest step each)
 } as const;
 
 /**
@@ -33,6 +242,7 @@ export const PRECISION = {
   HUMIDITY: 1,         // 1 decimal place
   LIGHT_LEVEL: 1,      // 1 decimal place
   ACCELEROMETER: 3,    // 3 decimal places
+  TILT: 2,             // 2 decimal places (degrees)
   CELLULAR_DBM: 2,     // 2 decimal places
 } as const;
 
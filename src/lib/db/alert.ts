@@ -0,0 +1,356 @@
+/**
+ * Alert database operations
+ * Functions for managing alert_rules, alerts and alert_deliveries tables
+ */
+
+import { Prisma } from '@prisma/client';
+import type { AlertChannelConfig, AlertMetric, AlertRuleParams, MetricSample } from '@/lib/alerts/rules';
+import type { TemperatureChannel } from '@/lib/analytics/temperature-channels';
+import { logger } from '@/lib/logger';
+import { prisma } from './client';
+
+export interface AlertRuleInput {
+  tenantId: number | null;
+  name: string;
+  type: string;
+  params: AlertRuleParams;
+  deviceImei: string | null;
+  shipmentId: number | null;
+  severity: string;
+  channels: AlertChannelConfig[];
+}
+
+/**
+ * Scope of a reading, used to find the rules that apply to it
+ */
+export interface AlertRuleScope {
+  tenantId: number | null;
+  deviceImei: string;
+  shipmentId: number | null;
+}
+
+export interface RaiseAlertInput {
+  ruleId: number;
+  tenantId: number | null;
+  deviceImei: string;
+  shipmentId: number | null;
+  type: string;
+  severity: string;
+  message: string;
+  value: number | null;
+  ts: number;
+}
+
+/**
+ * Filters for listing alerts
+ */
+export interface AlertListFilters {
+  status?: string;
+  deviceImei?: string;
+  tenantId?: number | null; // Restrict to one tenant (null/undefined = all tenants)
+  limit?: number;
+}
+
+/**
+ * Deduplication key of the active alert of a rule on a device
+ */
+function alertDedupKey(ruleId: number, deviceImei: string): string {
+  return `${ruleId}:${deviceImei}`;
+}
+
+/**
+ * Rules visible to a tenant: global rules plus the tenant's own (tenantId null = all rules)
+ */
+function rulesVisibleToTenant(tenantId?: number | null): Prisma.AlertRuleWhereInput {
+  return tenantId != null ? { OR: [{ tenantId: null }, { tenantId }] } : {};
+}
+
+/**
+ * Create an alert rule
+ */
+export async function createAlertRule(rule: AlertRuleInput) {
+  try {
+    return await prisma.alertRule.create({
+      data: {
+        ...rule,
+        params: rule.params as unknown as Prisma.InputJsonValue,
+        channels: rule.channels as unknown as Prisma.InputJsonValue,
+      },
+    });
+  } catch (error) {
+    logger.error('Error creating alert rule', {
+      error: error instanceof Error ? error.message : 'Unknown',
+      name: rule.name,
+    });
+    throw new Error(`Failed to create alert rule: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * List alert rules visible to a tenant
+ */
+export async function listAlertRules(tenantId?: number | null) {
+  return await prisma.alertRule.findMany({
+    where: rulesVisibleToTenant(tenantId),
+    orderBy: { id: 'asc' },
+  });
+}
+
+/**
+ * Enable or disable an alert rule
+ * Tenant keys can only change their own rules
+ * @returns The updated rule, or null when not found
+ */
+export async function setAlertRuleEnabled(id: number, enabled: boolean, tenantId?: number | null) {
+  const result = await prisma.alertRule.updateMany({
+    where: { id, ...(tenantId != null ? { tenantId } : {}) },
+    data: { enabled },
+  });
+  if (result.count === 0) {
+    return null;
+  }
+  return await prisma.alertRule.findUnique({ where: { id } });
+}
+
+/**
+ * Enabled rules that apply to a reading's tenant, device and shipment
+ * Rules without a tenant apply to every tenant; a reading without a tenant only matches them
+ */
+export async function listApplicableAlertRules(scope: AlertRuleScope) {
+  return await prisma.alertRule.findMany({
+    where: {
+      enabled: true,
+      AND: [
+        { OR: [{ tenantId: null }, ...(scope.tenantId !== null ? [{ tenantId: scope.tenantId }] : [])] },
+        { OR: [{ deviceImei: null }, { deviceImei: scope.deviceImei }] },
+        { OR: [{ shipmentId: null }, ...(scope.shipmentId !== null ? [{ shipmentId: scope.shipmentId }] : [])] },
+      ],
+    },
+    orderBy: { id: 'asc' },
+  });
+}
+
+/**
+ * Enabled rules of one type (e.g. no_data rules for the scheduled check)
+ */
+export async function listEnabledAlertRulesByType(type: string) {
+  return await prisma.alertRule.findMany({
+    where: { enabled: true, type },
+    orderBy: { id: 'asc' },
+  });
+}
+
+/**
+ * Oldest value of a metric within [fromTs, toTs) for a device, as the reference of a rate-of-change rule
+ * battery_level lives on locations, the other metrics on telemetry; temperature is read from
+ * the device's primary channel
+ */
+export async function findMetricReference(
+  deviceImei: string,
+  metric: AlertMetric,
+  fromTs: number,
+  toTs: number,
+  temperatureChannel: TemperatureChannel = 'ambient'
+): Promise<MetricSample | null> {
+  const ts = { gte: BigInt(fromTs), lt: BigInt(toTs) };
+
+  if (metric === 'battery_level') {
+    const location = await prisma.location.findFirst({
+      where: { deviceImei, ts, batteryLevel: { not: null } },
+      orderBy: { ts: 'asc' },
+      select: { ts: true, batteryLevel: true },
+    });
+    return location ? { ts: Number(location.ts), value: location.batteryLevel! } : null;
+  }
+
+  const column = ({
+    temperature: temperatureChannel === 'probe' ? 'probeTemperature' : 'temperature',
+    ambient_temperature: 'temperature',
+    probe_temperature: 'probeTemperature',
+    humidity: 'humidity',
+    light_level: 'lightLevel',
+    accelerometer_magnitude: 'accelerometerMagnitude',
+  } as const)[metric];
+
+  const telemetry = await prisma.telemetry.findFirst({
+    where: { deviceImei, ts, [column]: { not: null } },
+    orderBy: { ts: 'asc' },
+    select: { ts: true, [column]: true },
+  });
+  if (!telemetry) {
+    return null;
+  }
+  return { ts: Number(telemetry.ts), value: Number((telemetry as Record<string, unknown>)[column]) };
+}
+
+/**
+ * Devices that have not reported since cutoffTs, within a no_data rule's scope
+ */
+export async function findSilentDevices(
+  rule: { tenantId: number | null; deviceImei: string | null; shipmentId: number | null },
+  cutoffTs: number
+) {
+  const where: Prisma.DeviceLatestWhereInput = { lastTs: { lt: BigInt(cutoffTs) } };
+  if (rule.tenantId !== null) where.tenantId = rule.tenantId;
+  if (rule.deviceImei !== null) where.deviceImei = rule.deviceImei;
+
+  if (rule.shipmentId !== null) {
+    const assignments = await prisma.shipmentDeviceAssignment.findMany({
+      where: { shipmentId: rule.shipmentId },
+      select: { deviceImei: true },
+    });
+    where.deviceImei = rule.deviceImei !== null
+      ? rule.deviceImei
+      : { in: assignments.map((assignment) => assignment.deviceImei) };
+  }
+
+  return await prisma.deviceLatest.findMany({
+    where,
+    select: { deviceImei: true, tenantId: true, lastTs: true },
+  });
+}
+
+/**
+ * Open an alert, or record another occurrence of the active alert of the same rule and device
+ * Runs as INSERT ... ON CONFLICT (dedup_key) so concurrent evaluations raise one alert
+ * @returns The alert id and whether a new alert was opened
+ */
+export async function raiseAlert(alert: RaiseAlertInput): Promise<{ alertId: number; opened: boolean }> {
+  const ts = BigInt(alert.ts);
+  const dedupKey = alertDedupKey(alert.ruleId, alert.deviceImei);
+
+  try {
+    const rows = await prisma.$queryRaw<Array<{ id: number; inserted: boolean }>>`
+      INSERT INTO alerts (
+        rule_id, tenant_id, device_imei, shipment_id, type, severity, status, dedup_key,
+        message, value, first_triggered_ts, last_triggered_ts, updated_at
+      ) VALUES (
+        ${alert.ruleId}, ${alert.tenantId}, ${alert.deviceImei}, ${alert.shipmentId}, ${alert.type},
+        ${alert.severity}, 'open', ${dedupKey}, ${alert.message}, ${alert.value}, ${ts}, ${ts}, CURRENT_TIMESTAMP
+      )
+      ON CONFLICT (dedup_key) DO UPDATE SET
+        message = EXCLUDED.message,
+        value = EXCLUDED.value,
+        last_triggered_ts = GREATEST(alerts.last_triggered_ts, EXCLUDED.last_triggered_ts),
+        occurrence_count = alerts.occurrence_count + 1,
+        updated_at = CURRENT_TIMESTAMP
+      RETURNING id, (xmax = 0) AS inserted
+    `;
+    return { alertId: rows[0].id, opened: rows[0].inserted };
+  } catch (error) {
+    logger.error('Error raising alert', {
+      error: error instanceof Error ? error.message : 'Unknown',
+      ruleId: alert.ruleId,
+      deviceImei: alert.deviceImei,
+    });
+    throw new Error(`Failed to raise alert: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Resolve the active (open or acknowledged) alert of a rule on a device, if any
+ * Clears the dedup key so the next occurrence opens a new alert
+ * @returns The resolved alert id, or null when there was no active alert
+ */
+export async function resolveActiveAlert(ruleId: number, deviceImei: string): Promise<number | null> {
+  const dedupKey = alertDedupKey(ruleId, deviceImei);
+
+  try {
+    const rows = await prisma.$queryRaw<Array<{ id: number }>>`
+      UPDATE alerts
+      SET status = 'resolved', dedup_key = NULL, resolved_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+      WHERE dedup_key = ${dedupKey}
+      RETURNING id
+    `;
+    return rows.length > 0 ? rows[0].id : null;
+  } catch (error) {
+    logger.error('Error resolving alert', {
+      error: error instanceof Error ? error.message : 'Unknown',
+      ruleId,
+      deviceImei,
+    });
+    throw new Error(`Failed to resolve alert: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Acknowledge an open alert
+ * @returns The updated alert, or null when not found or not open
+ */
+export async function acknowledgeAlert(id: number, acknowledgedBy: string | null, tenantId?: number | null) {
+  const result = await prisma.alert.updateMany({
+    where: { id, status: 'open', ...(tenantId != null ? { tenantId } : {}) },
+    data: { status: 'acknowledged', acknowledgedAt: new Date(), acknowledgedBy },
+  });
+  return result.count > 0 ? await prisma.alert.findUnique({ where: { id } }) : null;
+}
+
+/**
+ * Resolve an alert manually
+ * @returns The updated alert, or null when not found or already resolved
+ */
+export async function resolveAlert(id: number, tenantId?: number | null) {
+  const result = await prisma.alert.updateMany({
+    where: { id, status: { not: 'resolved' }, ...(tenantId != null ? { tenantId } : {}) },
+    data: { status: 'resolved', dedupKey: null, resolvedAt: new Date() },
+  });
+  return result.count > 0 ? await prisma.alert.findUnique({ where: { id } }) : null;
+}
+
+/**
+ * List alerts, newest first
+ */
+export async function listAlerts(filters: AlertListFilters = {}) {
+  const where: Prisma.AlertWhereInput = {};
+
+  if (filters.tenantId != null) where.tenantId = filters.tenantId;
+  if (filters.status) where.status = filters.status;
+  if (filters.deviceImei) where.deviceImei = filters.deviceImei;
+
+  return await prisma.alert.findMany({
+    where,
+    orderBy: { createdAt: 'desc' },
+    take: filters.limit ?? 100,
+    include: {
+      rule: { select: { id: true, name: true } },
+    },
+  });
+}
+
+/**
+ * Fetch an alert with the rule's name and channels, for delivery
+ */
+export async function findAlertForDelivery(id: number) {
+  return await prisma.alert.findUnique({
+    where: { id },
+    include: {
+      rule: { select: { id: true, name: true, channels: true } },
+    },
+  });
+}
+
+/**
+ * Record a delivery attempt of an alert notification
+ * One row per alert, event, channel and target; attempts accumulate across retries
+ */
+export async function recordAlertDelivery(
+  delivery: { alertId: number; event: string; channel: string; target: string },
+  error: string | null
+): Promise<void> {
+  const status = error === null ? 'sent' : 'failed';
+  const deliveredAt = error === null ? new Date() : null;
+
+  try {
+    await prisma.alertDelivery.upsert({
+      where: { alert_event_channel_target: delivery },
+      create: { ...delivery, status, attempts: 1, lastError: error, deliveredAt },
+      update: { status, attempts: { increment: 1 }, lastError: error, deliveredAt },
+    });
+  } catch (dbError) {
+    // Non-critical: the delivery itself already happened (or failed) and is logged
+    logger.error('Error recording alert delivery', {
+      error: dbError instanceof Error ? dbError.message : 'Unknown',
+      ...delivery,
+    });
+  }
+}
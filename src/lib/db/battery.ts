@@ -0,0 +1,125 @@
+/**
+ * Battery forecast database operations
+ * Reads the battery history of a device from locations, forecasts when it will be empty with
+ * the pure functions in analytics/battery and stores the forecast on device_latest.
+ * The device's shipment is the one of its latest location; its planned arrival is
+ * ignored once the shipment has arrived.
+ */
+
+import { BATTERY_FORECAST } from '@/lib/constants';
+import { BatteryForecast, BatterySample, forecastBattery } from '@/lib/analytics/battery';
+import { logger } from '@/lib/logger';
+import { prisma } from './client';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface DeviceBatteryForecast extends BatteryForecast {
+  deviceImei: string;
+  shipmentId: number | null; // Shipment of the device's latest location
+}
+
+/**
+ * Battery readings of a device from `fromTs` on, oldest first (the most recent `limit`)
+ */
+async function getBatterySamples(deviceImei: string, fromTs: number, limit: number): Promise<BatterySample[]> {
+  const rows = await prisma.location.findMany({
+    where: { deviceImei, batteryLevel: { not: null }, ts: { gte: BigInt(fromTs) } },
+    orderBy: [{ ts: 'desc' }, { id: 'desc' }],
+    take: limit,
+    select: { ts: true, batteryLevel: true, batteryCharging: true },
+  });
+
+  return rows.reverse().map((row) => ({
+    ts: Number(row.ts),
+    level: row.batteryLevel as number,
+    charging: row.batteryCharging,
+  }));
+}
+
+/**
+ * Forecast a device's battery from its recent history
+ * @returns The forecast, or null when the device is unknown
+ */
+export async function getDeviceBatteryForecast(deviceImei: string): Promise<DeviceBatteryForecast | null> {
+  const device = await prisma.deviceLatest.findUnique({
+    where: { deviceImei },
+    select: {
+      lastTs: true,
+      latestLocation: {
+        select: { shipment: { select: { id: true, expectedArrivalTs: true, arrivedTs: true } } },
+      },
+    },
+  });
+  if (!device) {
+    return null;
+  }
+
+  const shipment = device.latestLocation?.shipment ?? null;
+  const expectedArrivalTs =
+    shipment && shipment.arrivedTs === null && shipment.expectedArrivalTs !== null
+      ? Number(shipment.expectedArrivalTs)
+      : null;
+  const samples = await getBatterySamples(
+    deviceImei,
+    Number(device.lastTs) - BATTERY_FORECAST.WINDOW_DAYS * DAY_MS,
+    BATTERY_FORECAST.MAX_SAMPLES
+  );
+
+  return {
+    deviceImei,
+    shipmentId: shipment?.id ?? null,
+    ...forecastBattery(samples, expectedArrivalTs, {
+      minSamples: BATTERY_FORECAST.MIN_SAMPLES,
+      minSpanMs: BATTERY_FORECAST.MIN_SPAN_HOURS * 60 * 60 * 1000,
+      minDrainPercentPerDay: BATTERY_FORECAST.MIN_DRAIN_PERCENT_PER_DAY,
+      rechargeJumpPercent: BATTERY_FORECAST.RECHARGE_JUMP_PERCENT,
+    }),
+  };
+}
+
+/**
+ * Recompute a device's battery forecast and store it on device_latest
+ */
+export async function updateDeviceBatteryForecast(deviceImei: string): Promise<DeviceBatteryForecast | null> {
+  try {
+    const forecast = await getDeviceBatteryForecast(deviceImei);
+    if (!forecast) {
+      return null;
+    }
+
+    await prisma.deviceLatest.update({
+      where: { deviceImei },
+      data: {
+        batteryForecastStatus: forecast.status,
+        batteryDrainPerDay: forecast.drainPercentPerDay !== null ? Math.round(forecast.drainPercentPerDay * 100) / 100 : null,
+        batteryEmptyTs: forecast.emptyTs !== null ? BigInt(forecast.emptyTs) : null,
+      },
+    });
+    return forecast;
+  } catch (error) {
+    logger.error('Error updating battery forecast', {
+      error: error instanceof Error ? error.message : 'Unknown',
+      deviceImei,
+    });
+    throw new Error(`Failed to update battery forecast: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Set the planned arrival of a shipment (null = unknown)
+ */
+export async function setShipmentExpectedArrival(shipmentId: number, expectedArrivalTs: number | null): Promise<void> {
+  try {
+    await prisma.shipment.update({
+      where: { id: shipmentId },
+      data: { expectedArrivalTs: expectedArrivalTs !== null ? BigInt(expectedArrivalTs) : null },
+    });
+  } catch (error) {
+    logger.error('Error setting shipment expected arrival', {
+      error: error instanceof Error ? error.message : 'Unknown',
+      shipmentId,
+      expectedArrivalTs,
+    });
+    throw new Error(`Failed to set expected arrival: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
@@ -0,0 +1,111 @@
+/**
+ * Data completeness database operations
+ * Loads when each reading was taken and when it arrived, then finds gaps and backfilled
+ * readings with the pure functions in analytics/completeness.
+ * Each device is judged against its own expected reporting interval.
+ */
+
+import { COMPLETENESS } from '@/lib/constants';
+import { ConnectivityThresholds, ExpectedInterval } from '@/lib/analytics/connectivity';
+import {
+  combineCompleteness,
+  CompletenessOptions,
+  CompletenessReport,
+  CompletenessStats,
+  computeCompleteness,
+  DailyCompleteness,
+} from '@/lib/analytics/completeness';
+import { getReadingArrivals } from './history';
+import { getDeviceExpectedIntervals } from './connectivity';
+
+export interface CompletenessQuery {
+  tenantId?: number | null;
+  from?: number;
+  to?: number;
+  intervalMs?: number; // Overrides every device's expected interval
+  gapFactor: number;
+  bufferedDelayMs: number;
+}
+
+export interface DeviceCompleteness extends CompletenessReport {
+  deviceImei: string;
+  intervalSource: ExpectedInterval['source'] | 'query';
+  truncated: boolean; // More than COMPLETENESS.MAX_READINGS readings matched; the newest were left out
+}
+
+export interface ShipmentCompleteness {
+  stats: CompletenessStats; // All devices together
+  days: DailyCompleteness[];
+  devices: DeviceCompleteness[];
+  truncated: boolean; // More than COMPLETENESS.MAX_READINGS readings matched; the newest were left out
+}
+
+function evaluateDevice(
+  deviceImei: string,
+  readings: Array<{ ts: number; receivedAt: number }>,
+  expected: ExpectedInterval,
+  query: CompletenessQuery,
+  truncated: boolean
+): DeviceCompleteness {
+  const options: CompletenessOptions = {
+    expectedIntervalMs: query.intervalMs ?? expected.intervalMs,
+    gapFactor: query.gapFactor,
+    bufferedDelayMs: query.bufferedDelayMs,
+    from: query.from,
+    to: query.to,
+  };
+  return {
+    deviceImei,
+    intervalSource: query.intervalMs !== undefined ? 'query' : expected.source,
+    truncated,
+    ...computeCompleteness(readings, options),
+  };
+}
+
+/**
+ * Gaps, backfilled periods and completeness of a device
+ */
+export async function getDeviceCompleteness(
+  deviceImei: string,
+  query: CompletenessQuery,
+  thresholds: ConnectivityThresholds
+): Promise<DeviceCompleteness> {
+  const [intervals, { readings, truncated }] = await Promise.all([
+    getDeviceExpectedIntervals([deviceImei], thresholds),
+    getReadingArrivals(
+      { deviceImei, tenantId: query.tenantId, from: query.from, to: query.to },
+      COMPLETENESS.MAX_READINGS
+    ),
+  ]);
+
+  return evaluateDevice(deviceImei, readings, intervals.get(deviceImei) as ExpectedInterval, query, truncated);
+}
+
+/**
+ * Completeness of a shipment, overall and per device
+ * Without from/to each device's window is its first to last reading on the shipment.
+ */
+export async function getShipmentCompleteness(
+  shipmentId: number,
+  query: CompletenessQuery,
+  thresholds: ConnectivityThresholds
+): Promise<ShipmentCompleteness> {
+  const { readings, truncated } = await getReadingArrivals(
+    { shipmentId, tenantId: query.tenantId, from: query.from, to: query.to },
+    COMPLETENESS.MAX_READINGS
+  );
+  const deviceImeis = Array.from(new Set(readings.map((reading) => reading.deviceImei)));
+  const intervals = await getDeviceExpectedIntervals(deviceImeis, thresholds);
+
+  const devices = deviceImeis.map((deviceImei) =>
+    evaluateDevice(
+      deviceImei,
+      readings.filter((reading) => reading.deviceImei === deviceImei),
+      intervals.get(deviceImei) as ExpectedInterval,
+      query,
+      truncated
+    )
+  );
+
+  return { ...combineCompleteness(devices), devices, truncated };
+}
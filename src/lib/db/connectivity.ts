@@ -0,0 +1,282 @@
+/**
+ * Device connectivity database operations
+ * Learns each device's reporting cadence, classifies devices as online, late or offline with
+ * the pure functions in analytics/connectivity and records the transitions in
+ * device_connectivity_events
+ */
+
+import {
+  classifyConnectivity,
+  ConnectivityStatus,
+  ConnectivityThresholds,
+  ExpectedInterval,
+  resolveExpectedInterval,
+} from '@/lib/analytics/connectivity';
+import { CONNECTIVITY } from '@/lib/constants';
+import { logger } from '@/lib/logger';
+import { prisma } from './client';
+
+/**
+ * A change of a device's connectivity status
+ */
+export interface ConnectivityTransition {
+  deviceImei: string;
+  tenantId: number | null;
+  from: ConnectivityStatus;
+  to: ConnectivityStatus;
+  ts: number; // When the transition was detected
+  lastReadingTs: number;
+  expectedIntervalMs: number | null;
+}
+
+export interface ConnectivityEventFilters {
+  deviceImei?: string;
+  tenantId?: number | null; // Restrict to one tenant (null/undefined = all tenants)
+  limit: number;
+}
+
+interface ConnectivityScanRow {
+  device_imei: string;
+  tenant_id: number | null;
+  last_ts: bigint;
+  connectivity_status: string;
+  reporting_interval_ms: number | null;
+  configured_minutes: number | null;
+  learned_ms: number | null;
+  samples: number;
+}
+
+/**
+ * Store a transition, unless the device changed in the meantime
+ * The update only applies while the device still has the status and newest reading the
+ * transition was computed from, so a reading that arrives during the scan is not overwritten.
+ */
+async function recordConnectivityTransition(
+  transition: ConnectivityTransition,
+  reportingIntervalMs?: number | null
+): Promise<boolean> {
+  return await prisma.$transaction(async (tx) => {
+    const updated = await tx.deviceLatest.updateMany({
+      where: {
+        deviceImei: transition.deviceImei,
+        connectivityStatus: transition.from,
+        lastTs: BigInt(transition.lastReadingTs),
+      },
+      data: {
+        connectivityStatus: transition.to,
+        connectivitySinceTs: BigInt(transition.ts),
+        ...(reportingIntervalMs !== undefined ? { reportingIntervalMs } : {}),
+      },
+    });
+    if (updated.count === 0) {
+      return false;
+    }
+
+    await tx.deviceConnectivityEvent.create({
+      data: {
+        deviceImei: transition.deviceImei,
+        tenantId: transition.tenantId,
+        fromStatus: transition.from,
+        toStatus: transition.to,
+        ts: BigInt(transition.ts),
+        lastReadingTs: BigInt(transition.lastReadingTs),
+        expectedIntervalMs: transition.expectedIntervalMs,
+      },
+    });
+    return true;
+  });
+}
+
+/**
+ * Check every device against its expected reporting interval
+ * The cadence is learned in the same query from the median gap between each device's most
+ * recent readings (read through the (device_imei, ts) index), and stored on device_latest.
+ * @returns The transitions recorded by this scan
+ */
+export async function scanDeviceConnectivity(
+  now: number,
+  thresholds: ConnectivityThresholds
+): Promise<ConnectivityTransition[]> {
+  try {
+    const rows = await prisma.$queryRaw<ConnectivityScanRow[]>`
+      SELECT
+        d.device_imei,
+        d.tenant_id,
+        d.last_ts,
+        d.connectivity_status,
+        d.reporting_interval_ms,
+        c.reporting_interval_minutes AS configured_minutes,
+        cadence.learned_ms,
+        cadence.samples
+      FROM device_latest d
+      LEFT JOIN device_configs c ON c.device_imei = d.device_imei
+      CROSS JOIN LATERAL (
+        SELECT
+          (PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY gap))::float8 AS learned_ms,
+          COUNT(gap)::int AS samples
+        FROM (
+          SELECT ts - LAG(ts) OVER (ORDER BY ts) AS gap
+          FROM (
+            SELECT ts FROM telemetry t
+            WHERE t.device_imei = d.device_imei
+            ORDER BY ts DESC
+            LIMIT ${CONNECTIVITY.CADENCE_SAMPLE_SIZE + 1}
+          ) recent
+        ) gaps
+        WHERE gap > 0
+      ) cadence
+    `;
+
+    const transitions: ConnectivityTransition[] = [];
+    for (const row of rows) {
+      const learnedMs = row.samples >= CONNECTIVITY.MIN_CADENCE_SAMPLES && row.learned_ms !== null
+        ? Math.round(row.learned_ms)
+        : null;
+      const expected = resolveExpectedInterval(
+        row.configured_minutes !== null ? row.configured_minutes * 60000 : null,
+        learnedMs,
+        thresholds
+      );
+      const status = classifyConnectivity(Number(row.last_ts), now, expected.intervalMs, thresholds);
+
+      if (status !== row.connectivity_status) {
+        const transition: ConnectivityTransition = {
+          deviceImei: row.device_imei,
+          tenantId: row.tenant_id,
+          from: row.connectivity_status as ConnectivityStatus,
+          to: status,
+          ts: now,
+          lastReadingTs: Number(row.last_ts),
+          expectedIntervalMs: expected.intervalMs,
+        };
+        if (await recordConnectivityTransition(transition, learnedMs)) {
+          transitions.push(transition);
+        }
+      } else if (learnedMs !== row.reporting_interval_ms) {
+        await prisma.deviceLatest.update({
+          where: { deviceImei: row.device_imei },
+          data: { reportingIntervalMs: learnedMs },
+        });
+      }
+    }
+
+    return transitions;
+  } catch (error) {
+    logger.error('Error scanning device connectivity', {
+      error: error instanceof Error ? error.message : 'Unknown',
+    });
+    throw new Error(`Failed to scan device connectivity: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Bring a late or offline device back online when its newest reading arrives
+ * Readings older than the device's newest one (late arrivals) do not change the status.
+ * @returns The transition, or null when the device was already online
+ */
+export async function markDeviceReporting(deviceImei: string, ts: number): Promise<ConnectivityTransition | null> {
+  try {
+    const device = await prisma.deviceLatest.findUnique({
+      where: { deviceImei },
+      select: { tenantId: true, lastTs: true, connectivityStatus: true, reportingIntervalMs: true },
+    });
+    if (!device || device.connectivityStatus === 'online' || Number(device.lastTs) > ts) {
+      return null;
+    }
+
+    const transition: ConnectivityTransition = {
+      deviceImei,
+      tenantId: device.tenantId,
+      from: device.connectivityStatus as ConnectivityStatus,
+      to: 'online',
+      ts: Date.now(),
+      lastReadingTs: Number(device.lastTs),
+      expectedIntervalMs: device.reportingIntervalMs,
+    };
+    return (await recordConnectivityTransition(transition)) ? transition : null;
+  } catch (error) {
+    logger.error('Error restoring device connectivity', {
+      error: error instanceof Error ? error.message : 'Unknown',
+      deviceImei,
+    });
+    throw new Error(`Failed to restore device connectivity: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * List connectivity transitions, newest first
+ */
+export async function listConnectivityEvents(filters: ConnectivityEventFilters) {
+  return await prisma.deviceConnectivityEvent.findMany({
+    where: {
+      ...(filters.deviceImei !== undefined ? { deviceImei: filters.deviceImei } : {}),
+      ...(filters.tenantId != null ? { tenantId: filters.tenantId } : {}),
+    },
+    orderBy: [{ ts: 'desc' }, { id: 'desc' }],
+    take: filters.limit,
+  });
+}
+
+/**
+ * Configured reporting interval of a device in minutes (null = learned from its readings)
+ */
+export async function getDeviceReportingInterval(deviceImei: string): Promise<number | null> {
+  const config = await prisma.deviceConfig.findUnique({
+    where: { deviceImei },
+    select: { reportingIntervalMinutes: true },
+  });
+  return config?.reportingIntervalMinutes ?? null;
+}
+
+/**
+ * Expected reporting interval of each device: configured, learned by the connectivity check,
+ * or the default
+ */
+export async function getDeviceExpectedIntervals(
+  deviceImeis: string[],
+  thresholds: ConnectivityThresholds
+): Promise<Map<string, ExpectedInterval>> {
+  const [devices, configs] = await Promise.all([
+    prisma.deviceLatest.findMany({
+      where: { deviceImei: { in: deviceImeis } },
+      select: { deviceImei: true, reportingIntervalMs: true },
+    }),
+    prisma.deviceConfig.findMany({
+      where: { deviceImei: { in: deviceImeis } },
+      select: { deviceImei: true, reportingIntervalMinutes: true },
+    }),
+  ]);
+  const learned = new Map(devices.map((device) => [device.deviceImei, device.reportingIntervalMs]));
+  const configured = new Map(configs.map((config) => [config.deviceImei, config.reportingIntervalMinutes]));
+
+  return new Map(
+    deviceImeis.map((deviceImei) => {
+      const minutes = configured.get(deviceImei) ?? null;
+      return [
+        deviceImei,
+        resolveExpectedInterval(minutes !== null ? minutes * 60000 : null, learned.get(deviceImei) ?? null, thresholds),
+      ];
+    })
+  );
+}
+
+/**
+ * Configure a device's expected reporting interval (null returns to the learned cadence)
+ * Applies from the next scheduled check
+ */
+export async function setDeviceReportingInterval(deviceImei: string, minutes: number | null): Promise<void> {
+  try {
+    await prisma.deviceConfig.upsert({
+      where: { deviceImei },
+      create: { deviceImei, reportingIntervalMinutes: minutes },
+      update: { reportingIntervalMinutes: minutes },
+    });
+  } catch (error) {
+    logger.error('Error setting device reporting interval', {
+      error: error instanceof Error ? error.message : 'Unknown',
+      deviceImei,
+      minutes,
+    });
+    throw new Error(`Failed to set reporting interval: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
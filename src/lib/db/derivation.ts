@@ -0,0 +1,78 @@
+/**
+ * Device calibration and derivation context database operations
+ * Calibration lives in device_configs next to the device's temperature profile
+ */
+
+import { DeviceCalibration, DerivationContext } from '@/lib/transformers/sensor-derivations';
+import { logger } from '@/lib/logger';
+import { prisma } from './client';
+
+/**
+ * Calibration of a device (null when none is stored)
+ */
+export async function getDeviceCalibration(deviceImei: string): Promise<DeviceCalibration | null> {
+  const config = await prisma.deviceConfig.findUnique({
+    where: { deviceImei },
+    select: { luxBaseline: true, restAccelerometerX: true, restAccelerometerY: true, restAccelerometerZ: true },
+  });
+  if (!config) {
+    return null;
+  }
+
+  const hasRestOrientation =
+    config.restAccelerometerX !== null && config.restAccelerometerY !== null && config.restAccelerometerZ !== null;
+
+  return {
+    luxBaseline: config.luxBaseline !== null ? Number(config.luxBaseline) : null,
+    restOrientation: hasRestOrientation
+      ? {
+          x: Number(config.restAccelerometerX),
+          y: Number(config.restAccelerometerY),
+          z: Number(config.restAccelerometerZ),
+        }
+      : null,
+  };
+}
+
+/**
+ * Store the calibration of a device (null fields restore the defaults)
+ */
+export async function setDeviceCalibration(deviceImei: string, calibration: DeviceCalibration): Promise<void> {
+  const data = {
+    luxBaseline: calibration.luxBaseline,
+    restAccelerometerX: calibration.restOrientation?.x ?? null,
+    restAccelerometerY: calibration.restOrientation?.y ?? null,
+    restAccelerometerZ: calibration.restOrientation?.z ?? null,
+  };
+
+  try {
+    await prisma.deviceConfig.upsert({
+      where: { deviceImei },
+      create: { deviceImei, ...data },
+      update: data,
+    });
+  } catch (error) {
+    logger.error('Error storing device calibration', {
+      error: error instanceof Error ? error.message : 'Unknown',
+      deviceImei,
+    });
+    throw new Error(`Failed to store device calibration: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Context for deriving the values of a reading: the device's calibration and the
+ * box_open state of its previous reading (by timestamp, so late readings see the right state)
+ */
+export async function getDerivationContext(deviceImei: string, timestamp: number): Promise<DerivationContext> {
+  const [calibration, previous] = await Promise.all([
+    getDeviceCalibration(deviceImei),
+    prisma.telemetry.findFirst({
+      where: { deviceImei, ts: { lt: BigInt(timestamp) }, boxOpen: { not: null } },
+      orderBy: [{ ts: 'desc' }, { id: 'desc' }],
+      select: { boxOpen: true },
+    }),
+  ]);
+
+  return { calibration, previousBoxOpen: previous?.boxOpen ?? null };
+}
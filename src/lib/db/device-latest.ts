@@ -3,16 +3,29 @@
  * Functions for managing device_latest table
  */
 
-import { PaxafeSensorPayload, PaxafeLocationPayload } from '@/types/paxafe';
+import { PaxafeSensorPayload, PaxafeLocationPayload, PaxafeAddress } from '@/types/paxafe';
+import type { ConnectivityStatus } from '@/lib/analytics/connectivity';
 import { logger } from '@/lib/logger';
 import { prisma } from './client';
+import { isUniqueConstraintError } from './utils';
+import type { LocationMovement } from './movement';
 
 /**
  * Fetch latest device states from device_latest table
  * Returns devices ordered by most recently updated first
+ * When tenantId is given, only that tenant's devices are returned (null/undefined = all tenants),
+ * and with connectivityStatus only devices with that status
  */
-export async function getDeviceLatestList(limit: number = 100) {
+export async function getDeviceLatestList(
+  limit: number = 100,
+  tenantId?: number | null,
+  connectivityStatus?: ConnectivityStatus
+) {
   return await prisma.deviceLatest.findMany({
+    where: {
+      ...(tenantId != null ? { tenantId } : {}),
+      ...(connectivityStatus !== undefined ? { connectivityStatus } : {}),
+    },
     orderBy: {
       updatedAt: 'desc',
     },
@@ -20,84 +33,172 @@ export async function getDeviceLatestList(limit: number = 100) {
   });
 }
 
+/**
+ * Fetch the latest state of one device
+ * When tenantId is given, devices of other tenants are not found
+ */
+export async function findDeviceLatest(deviceImei: string, tenantId?: number | null) {
+  return await prisma.deviceLatest.findFirst({
+    where: { deviceImei, ...(tenantId != null ? { tenantId } : {}) },
+  });
+}
+
+/**
+ * Outcome of a device_latest critical update
+ * - applied: the reading is the newest seen and is now the latest state
+ * - late: a newer reading is already stored; the state was left untouched
+ * - failed: the update could not be written
+ */
+export type DeviceLatestUpdateOutcome = 'applied' | 'late' | 'failed';
+
+function toTiltColumns(tilt: PaxafeSensorPayload['tilt']) {
+  return {
+    lastTiltX: tilt?.x ?? null,
+    lastTiltY: tilt?.y ?? null,
+    lastTiltZ: tilt?.z ?? null,
+    lastTilt: tilt?.tilt ?? null,
+  };
+}
+
+/**
+ * Critical device_latest columns for a reading
+ */
+function toCriticalFields(
+  deviceId: string,
+  timestamp: number,
+  sensorPayload: PaxafeSensorPayload,
+  locationPayload: PaxafeLocationPayload
+) {
+  return {
+    deviceId,
+    lastTs: BigInt(timestamp),
+    ...(sensorPayload.entity_name !== null ? { entityName: sensorPayload.entity_name } : {}),
+    // Critical sensor fields (updated synchronously)
+    lastTemperature: sensorPayload.temperature ?? null,
+    lastTemperatureFahrenheit: sensorPayload.temperature_fahrenheit ?? null,
+    lastProbeTemperature: sensorPayload.probe_temperature ?? null,
+    lastProbeTemperatureFahrenheit: sensorPayload.probe_temperature_fahrenheit ?? null,
+    lastHumidity: sensorPayload.humidity ?? null,
+    lastLightLevel: sensorPayload.light_level ?? null,
+    lastAccelerometerX: sensorPayload.accelerometer?.x ?? null,
+    lastAccelerometerY: sensorPayload.accelerometer?.y ?? null,
+    lastAccelerometerZ: sensorPayload.accelerometer?.z ?? null,
+    lastAccelerometerMagnitude: sensorPayload.accelerometer?.magnitude ?? null,
+    // Tilt and box_open only when reported; derived values are set by updateDeviceLatestDerived
+    ...(sensorPayload.tilt !== null ? toTiltColumns(sensorPayload.tilt) : {}),
+    ...(sensorPayload.box_open !== null ? { lastBoxOpen: sensorPayload.box_open } : {}),
+    // Critical location fields (updated synchronously)
+    lastLat: locationPayload.latitude ?? null,
+    lastLon: locationPayload.longitude ?? null,
+    lastAltitude: locationPayload.altitude ?? null,
+    locationAccuracy: locationPayload.location_accuracy ?? null,
+    locationAccuracyCategory: locationPayload.location_accuracy_category ?? null,
+    locationSource: locationPayload.location_source ?? null,
+    geolocationSource: locationPayload.geolocation_source ?? null,
+    addressStreet: locationPayload.address?.street ?? null,
+    addressLocality: locationPayload.address?.locality ?? null,
+    addressState: locationPayload.address?.state ?? null,
+    addressCountry: locationPayload.address?.country ?? null,
+    addressPostalCode: locationPayload.address?.postal_code ?? null,
+    addressFullAddress: locationPayload.address?.full_address ?? null,
+    // Critical device status (updated synchronously)
+    batteryLevel: locationPayload.battery_level ?? null,
+    batteryEstimation: locationPayload.battery_estimation ?? null,
+    batteryCharging: locationPayload.battery_charging ?? null,
+    cellularDbm: locationPayload.cellular_dbm ?? null,
+    cellularSignalStrength: locationPayload.cellular_signal_strength ?? null,
+    cellularNetworkType: locationPayload.cellular_network_type ?? null,
+    cellularOperator: locationPayload.cellular_operator ?? null,
+    wifiAccessPoints: locationPayload.wifi_access_points ?? null,
+    cellTowers: locationPayload.cell_towers ?? null,
+  };
+}
+
+/**
+ * Attribute a device without a tenant to the tenant of its reading
+ * A device that already belongs to a tenant is never re-stamped: readings of other tenants
+ * are rejected when the payload is attributed (see createTenantResolver)
+ */
+async function claimDeviceTenant(deviceImei: string, tenantId: number | null): Promise<void> {
+  if (tenantId === null) {
+    return;
+  }
+  await prisma.deviceLatest.updateMany({
+    where: { deviceImei, tenantId: null },
+    data: { tenantId },
+  });
+}
+
 /**
  * Update device_latest table with critical fields synchronously
  * This is called during webhook processing for real-time dashboard updates
  * Critical fields are stored directly (no JOIN needed for dashboard queries)
+ *
+ * Out-of-order protection: the row is only updated when the incoming timestamp is
+ * newer than last_ts. The comparison happens in the UPDATE's WHERE clause, so it is
+ * atomic (no read-then-write). Late readings are counted per device in late_arrival_count.
+ *
+ * tenantId attributes a device that has no tenant yet; the owner of a device is never changed.
  */
 export async function updateDeviceLatestCritical(
   deviceImei: string,
   deviceId: string,
   timestamp: number,
   sensorPayload: PaxafeSensorPayload,
-  locationPayload: PaxafeLocationPayload
-): Promise<void> {
+  locationPayload: PaxafeLocationPayload,
+  tenantId: number | null = null
+): Promise<DeviceLatestUpdateOutcome> {
+  const lastTs = BigInt(timestamp);
+  const criticalFields = toCriticalFields(deviceId, timestamp, sensorPayload, locationPayload);
+
+  // Only move the state forward: matches no row when last_ts >= incoming timestamp
+  const applyIfNewer = () =>
+    prisma.deviceLatest.updateMany({
+      where: { deviceImei, lastTs: { lt: lastTs } },
+      data: criticalFields,
+    });
+
   try {
-    await prisma.deviceLatest.upsert({
+    const updated = await applyIfNewer();
+    if (updated.count > 0) {
+      await claimDeviceTenant(deviceImei, tenantId);
+      return 'applied';
+    }
+
+    try {
+      // First reading for this device
+      await prisma.deviceLatest.create({
+        data: {
+          deviceImei,
+          provider: sensorPayload.provider,
+          tenantId,
+          ...criticalFields,
+        },
+      });
+      return 'applied';
+    } catch (error) {
+      if (!isUniqueConstraintError(error)) {
+        throw error;
+      }
+    }
+
+    // Row exists: either a newer reading is stored, or a concurrent request created it first
+    const retried = await applyIfNewer();
+    if (retried.count > 0) {
+      await claimDeviceTenant(deviceImei, tenantId);
+      return 'applied';
+    }
+
+    await prisma.deviceLatest.update({
       where: { deviceImei },
-      create: {
-        deviceImei,
-        deviceId,
-        provider: sensorPayload.provider,
-        lastTs: BigInt(timestamp),
-        // Critical sensor fields (updated synchronously)
-        lastTemperature: sensorPayload.temperature ?? null,
-        lastHumidity: sensorPayload.humidity ?? null,
-        lastLightLevel: sensorPayload.light_level ?? null,
-        lastAccelerometerX: sensorPayload.accelerometer?.x ?? null,
-        lastAccelerometerY: sensorPayload.accelerometer?.y ?? null,
-        lastAccelerometerZ: sensorPayload.accelerometer?.z ?? null,
-        lastAccelerometerMagnitude: sensorPayload.accelerometer?.magnitude ?? null,
-        // Critical location fields (updated synchronously)
-        lastLat: locationPayload.latitude ?? null,
-        lastLon: locationPayload.longitude ?? null,
-        lastAltitude: locationPayload.altitude ?? null,
-        locationAccuracy: locationPayload.location_accuracy ?? null,
-        locationAccuracyCategory: locationPayload.location_accuracy_category ?? null,
-        locationSource: locationPayload.location_source ?? null,
-        addressStreet: locationPayload.address?.street ?? null,
-        addressLocality: locationPayload.address?.locality ?? null,
-        addressState: locationPayload.address?.state ?? null,
-        addressCountry: locationPayload.address?.country ?? null,
-        addressPostalCode: locationPayload.address?.postal_code ?? null,
-        addressFullAddress: locationPayload.address?.full_address ?? null,
-        // Critical device status (updated synchronously)
-        batteryLevel: locationPayload.battery_level ?? null,
-        cellularDbm: locationPayload.cellular_dbm ?? null,
-        cellularNetworkType: locationPayload.cellular_network_type ?? null,
-        cellularOperator: locationPayload.cellular_operator ?? null,
-        wifiAccessPoints: locationPayload.wifi_access_points ?? null,
-      },
-      update: {
-        deviceId,
-        lastTs: BigInt(timestamp),
-        // Update critical fields synchronously
-        lastTemperature: sensorPayload.temperature ?? null,
-        lastHumidity: sensorPayload.humidity ?? null,
-        lastLightLevel: sensorPayload.light_level ?? null,
-        lastAccelerometerX: sensorPayload.accelerometer?.x ?? null,
-        lastAccelerometerY: sensorPayload.accelerometer?.y ?? null,
-        lastAccelerometerZ: sensorPayload.accelerometer?.z ?? null,
-        lastAccelerometerMagnitude: sensorPayload.accelerometer?.magnitude ?? null,
-        lastLat: locationPayload.latitude ?? null,
-        lastLon: locationPayload.longitude ?? null,
-        lastAltitude: locationPayload.altitude ?? null,
-        locationAccuracy: locationPayload.location_accuracy ?? null,
-        locationAccuracyCategory: locationPayload.location_accuracy_category ?? null,
-        locationSource: locationPayload.location_source ?? null,
-        addressStreet: locationPayload.address?.street ?? null,
-        addressLocality: locationPayload.address?.locality ?? null,
-        addressState: locationPayload.address?.state ?? null,
-        addressCountry: locationPayload.address?.country ?? null,
-        addressPostalCode: locationPayload.address?.postal_code ?? null,
-        addressFullAddress: locationPayload.address?.full_address ?? null,
-        batteryLevel: locationPayload.battery_level ?? null,
-        cellularDbm: locationPayload.cellular_dbm ?? null,
-        cellularNetworkType: locationPayload.cellular_network_type ?? null,
-        cellularOperator: locationPayload.cellular_operator ?? null,
-        wifiAccessPoints: locationPayload.wifi_access_points ?? null,
-      },
+      data: { lateArrivalCount: { increment: 1 } },
     });
+
+    logger.info('Late reading did not replace device_latest state', {
+      deviceImei,
+      timestamp,
+    });
+    return 'late';
   } catch (error) {
     logger.error('Error updating device_latest (critical)', {
       error: error instanceof Error ? error.message : 'Unknown',
@@ -105,6 +206,40 @@ export async function updateDeviceLatestCritical(
       deviceId,
       timestamp,
     });
+    return 'failed';
+  }
+}
+
+/**
+ * Rewrite the critical fields of device_latest from a reprocessed reading
+ * Applies only when the reading is the device's latest (same last_ts); older readings leave
+ * the state untouched and are not counted as late arrivals.
+ * @returns Whether the device's state was rewritten
+ */
+export async function refreshDeviceLatestCritical(
+  deviceImei: string,
+  deviceId: string,
+  timestamp: number,
+  sensorPayload: PaxafeSensorPayload,
+  locationPayload: PaxafeLocationPayload,
+  tenantId: number | null = null
+): Promise<boolean> {
+  try {
+    const updated = await prisma.deviceLatest.updateMany({
+      where: { deviceImei, lastTs: BigInt(timestamp) },
+      data: toCriticalFields(deviceId, timestamp, sensorPayload, locationPayload),
+    });
+    if (updated.count > 0) {
+      await claimDeviceTenant(deviceImei, tenantId);
+    }
+    return updated.count > 0;
+  } catch (error) {
+    logger.error('Error refreshing device_latest (critical)', {
+      error: error instanceof Error ? error.message : 'Unknown',
+      deviceImei,
+      timestamp,
+    });
+    throw new Error(`Failed to refresh device latest: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 }
 
@@ -112,19 +247,39 @@ export async function updateDeviceLatestCritical(
  * Update device_latest table with references to telemetry and location records
  * This is called asynchronously via Inngest for consistency and audit trail
  * References allow linking back to the normalized tables
+ *
+ * References only move forward in time: a reference is replaced only when the
+ * currently referenced record is not newer than the given timestamp.
  */
 export async function updateDeviceLatestReferences(
   deviceImei: string,
   telemetryId: number,
-  locationId: number
+  locationId: number,
+  timestamp: number
 ): Promise<void> {
+  const ts = BigInt(timestamp);
+
   try {
-    await prisma.deviceLatest.update({
-      where: { deviceImei },
-      data: {
-        latestTelemetryId: telemetryId,
-        latestLocationId: locationId,
+    await prisma.deviceLatest.updateMany({
+      where: {
+        deviceImei,
+        OR: [
+          { latestTelemetryId: null },
+          { latestTelemetry: { is: { ts: { lte: ts } } } },
+        ],
+      },
+      data: { latestTelemetryId: telemetryId },
+    });
+
+    await prisma.deviceLatest.updateMany({
+      where: {
+        deviceImei,
+        OR: [
+          { latestLocationId: null },
+          { latestLocation: { is: { ts: { lte: ts } } } },
+        ],
       },
+      data: { latestLocationId: locationId },
     });
   } catch (error) {
     logger.error('Error updating device_latest references', {
@@ -136,4 +291,91 @@ export async function updateDeviceLatestReferences(
   }
 }
 
+/**
+ * Store the derived tilt and box_open of a reading in device_latest
+ * Called asynchronously via Inngest once the values are derived; applies only while the
+ * reading is still the device's latest, so a late reading cannot overwrite newer state.
+ */
+export async function updateDeviceLatestDerived(
+  deviceImei: string,
+  timestamp: number,
+  sensorPayload: PaxafeSensorPayload
+): Promise<void> {
+  try {
+    await prisma.deviceLatest.updateMany({
+      where: { deviceImei, lastTs: BigInt(timestamp) },
+      data: {
+        ...toTiltColumns(sensorPayload.tilt),
+        lastBoxOpen: sensorPayload.box_open,
+      },
+    });
+  } catch (error) {
+    logger.error('Error updating device_latest derived fields', {
+      error: error instanceof Error ? error.message : 'Unknown',
+      deviceImei,
+      timestamp,
+    });
+  }
+}
+
+/**
+ * Update the movement state of device_latest from a location's movement
+ * Like the derived values, only applied while the location is still the device's latest
+ * reading. Implausible jumps leave the state unchanged; movementSinceTs moves only when the
+ * state changes.
+ */
+export async function updateDeviceLatestMovement(
+  deviceImei: string,
+  timestamp: number,
+  movement: Pick<LocationMovement, 'state' | 'speedKmh'>
+): Promise<void> {
+  if (movement.state === 'implausible') return;
+
+  const ts = BigInt(timestamp);
+  try {
+    await prisma.$executeRaw`
+      UPDATE device_latest SET
+        last_speed_kmh = ${movement.speedKmh},
+        movement_since_ts = CASE WHEN movement_state IS DISTINCT FROM ${movement.state} THEN ${ts} ELSE movement_since_ts END,
+        movement_state = ${movement.state}
+      WHERE device_imei = ${deviceImei} AND last_ts = ${ts}
+    `;
+  } catch (error) {
+    logger.error('Error updating device_latest movement', {
+      error: error instanceof Error ? error.message : 'Unknown',
+      deviceImei,
+      timestamp,
+    });
+  }
+}
 
+/**
+ * Store the geocoded address of a location in device_latest
+ * The synchronous path stores the address parsed without reverse geocoding; this replaces it
+ * once geocoded, while the location is still the device's latest reading.
+ */
+export async function updateDeviceLatestAddress(
+  deviceImei: string,
+  timestamp: number,
+  address: PaxafeAddress | null
+): Promise<void> {
+  try {
+    await prisma.deviceLatest.updateMany({
+      where: { deviceImei, lastTs: BigInt(timestamp) },
+      data: {
+        addressStreet: address?.street ?? null,
+        addressLocality: address?.locality ?? null,
+        addressState: address?.state ?? null,
+        addressCountry: address?.country ?? null,
+        addressPostalCode: address?.postal_code ?? null,
+        addressFullAddress: address?.full_address ?? null,
+      },
+    });
+  } catch (error) {
+    logger.error('Error updating device_latest address', {
+      error: error instanceof Error ? error.message : 'Unknown',
+      deviceImei,
+      timestamp,
+    });
+  }
+}
@@ -0,0 +1,203 @@
+/**
+ * Temperature excursion database operations
+ * Functions for managing the temperature_excursions table
+ */
+
+import { Prisma } from '@prisma/client';
+import { detectExcursions, DetectedExcursion } from '@/lib/analytics/excursions';
+import { logger } from '@/lib/logger';
+import { prisma } from './client';
+import { getDeviceTemperatureChannel, resolveTemperatureProfile } from './temperature-profile';
+import { findRecomputeWindow, windowFilter } from './utils';
+
+/**
+ * Changes made by a recompute
+ */
+export interface ExcursionSyncResult {
+  profileId: number | null; // Profile applied (null = no profile, all excursions removed)
+  created: number; // Newly opened excursions
+  updated: number; // Extended, closed or otherwise changed excursions
+  removed: number; // Excursions that no longer exist (e.g. split or merged by a late reading)
+  open: number; // Excursions still open after the recompute
+}
+
+/**
+ * Filters for listing excursions
+ */
+export interface ExcursionListFilters {
+  deviceImei?: string;
+  shipmentId?: number;
+  open?: boolean; // true = only open, false = only closed
+  tenantId?: number | null; // Restrict to one tenant (null/undefined = all tenants)
+  limit?: number;
+}
+
+function excursionKey(direction: string, startTs: number | bigint): string {
+  return `${direction}:${startTs}`;
+}
+
+function toExcursionData(excursion: DetectedExcursion) {
+  return {
+    endTs: excursion.endTs !== null ? BigInt(excursion.endTs) : null,
+    lastTs: BigInt(excursion.lastTs),
+    peakTemperature: excursion.peakTemperature,
+    durationMs: BigInt(excursion.durationMs),
+    readingCount: excursion.readingCount,
+    exceedsAllowance: excursion.exceedsAllowance,
+  };
+}
+
+/**
+ * Recompute the excursions of a device on a shipment (shipmentId null = readings without a shipment)
+ * Excursions are detected from the reading history of the device's primary temperature channel
+ * in timestamp order, then synced with the stored rows: matching excursions (same direction and
+ * start) are updated in place so their ids stay stable, new ones are created and ones that no
+ * longer exist are deleted.
+ *
+ * With aroundTs (the timestamp of a new reading) only the readings between the nearest in-range
+ * readings before and after it are read, since excursions never span an in-range reading; without
+ * it the full history is recomputed (e.g. after a profile change).
+ * An advisory lock serializes concurrent recomputes of the same device and shipment.
+ */
+export async function recomputeTemperatureExcursions(
+  deviceImei: string,
+  shipmentId: number | null,
+  aroundTs?: number
+): Promise<ExcursionSyncResult> {
+  const scopeKey = `temperature_excursions:${deviceImei}:${shipmentId ?? 'none'}`;
+
+  try {
+    return await prisma.$transaction(async (tx) => {
+      await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${scopeKey}))`;
+
+      const profile = await resolveTemperatureProfile(deviceImei, shipmentId);
+
+      if (!profile) {
+        const existing = await tx.temperatureExcursion.findMany({
+          where: { deviceImei, shipmentId },
+        });
+        if (existing.length > 0) {
+          await tx.temperatureExcursion.deleteMany({ where: { id: { in: existing.map((e) => e.id) } } });
+        }
+        return { profileId: null, created: 0, updated: 0, removed: existing.length, open: 0 };
+      }
+
+      const channel = await getDeviceTemperatureChannel(deviceImei);
+      const column = channel === 'probe' ? 'probeTemperature' : 'temperature';
+      const scope: Prisma.TelemetryWhereInput = { deviceImei, shipmentId, [column]: { not: null } };
+      const inRange: Prisma.TelemetryWhereInput = {
+        [column]: {
+          ...(profile.minTemp !== null ? { gte: profile.minTemp } : {}),
+          ...(profile.maxTemp !== null ? { lte: profile.maxTemp } : {}),
+        },
+      };
+      const window = aroundTs !== undefined ? await findRecomputeWindow(tx, scope, inRange, aroundTs) : null;
+      const tsFilter = windowFilter(window);
+
+      const [existing, readings] = await Promise.all([
+        tx.temperatureExcursion.findMany({
+          where: { deviceImei, shipmentId, ...(tsFilter ? { startTs: tsFilter } : {}) },
+        }),
+        tx.telemetry.findMany({
+          where: { ...scope, ...(tsFilter ? { ts: tsFilter } : {}) },
+          orderBy: [{ ts: 'asc' }, { id: 'asc' }],
+          select: { ts: true, temperature: true, probeTemperature: true, tenantId: true },
+        }),
+      ]);
+      const tenantId = readings.length > 0 ? readings[readings.length - 1].tenantId : null;
+
+      const detected = detectExcursions(
+        readings.map((reading) => ({ ts: Number(reading.ts), temperature: Number(reading[column]) })),
+        {
+          minTemp: profile.minTemp !== null ? Number(profile.minTemp) : null,
+          maxTemp: profile.maxTemp !== null ? Number(profile.maxTemp) : null,
+          allowedExcursionMinutes: profile.allowedExcursionMinutes,
+        }
+      );
+
+      const existingByKey = new Map(existing.map((row) => [excursionKey(row.direction, row.startTs), row]));
+      const result: ExcursionSyncResult = { profileId: profile.id, created: 0, updated: 0, removed: 0, open: 0 };
+
+      for (const excursion of detected) {
+        const data = toExcursionData(excursion);
+        const key = excursionKey(excursion.direction, excursion.startTs);
+        const row = existingByKey.get(key);
+        if (excursion.endTs === null) result.open += 1;
+
+        if (!row) {
+          await tx.temperatureExcursion.create({
+            data: {
+              ...data,
+              deviceImei,
+              shipmentId,
+              tenantId,
+              profileId: profile.id,
+              direction: excursion.direction,
+              startTs: BigInt(excursion.startTs),
+            },
+          });
+          result.created += 1;
+          continue;
+        }
+
+        existingByKey.delete(key);
+        const unchanged =
+          row.profileId === profile.id &&
+          row.endTs === data.endTs &&
+          row.lastTs === data.lastTs &&
+          Number(row.peakTemperature) === data.peakTemperature &&
+          row.readingCount === data.readingCount &&
+          row.exceedsAllowance === data.exceedsAllowance;
+        if (!unchanged) {
+          await tx.temperatureExcursion.update({
+            where: { id: row.id },
+            data: { ...data, profileId: profile.id },
+          });
+          result.updated += 1;
+        }
+      }
+
+      if (existingByKey.size > 0) {
+        await tx.temperatureExcursion.deleteMany({
+          where: { id: { in: Array.from(existingByKey.values()).map((row) => row.id) } },
+        });
+        result.removed = existingByKey.size;
+      }
+
+      // Open excursions outside the window were left untouched
+      if (tsFilter) {
+        result.open = await tx.temperatureExcursion.count({ where: { deviceImei, shipmentId, endTs: null } });
+      }
+
+      return result;
+    }, { timeout: 30000 });
+  } catch (error) {
+    logger.error('Error recomputing temperature excursions', {
+      error: error instanceof Error ? error.message : 'Unknown',
+      deviceImei,
+      shipmentId,
+    });
+    throw new Error(`Failed to recompute temperature excursions: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * List excursions, most recent first
+ */
+export async function listTemperatureExcursions(filters: ExcursionListFilters = {}) {
+  const where: Prisma.TemperatureExcursionWhereInput = {};
+
+  if (filters.tenantId != null) where.tenantId = filters.tenantId;
+  if (filters.deviceImei) where.deviceImei = filters.deviceImei;
+  if (filters.shipmentId !== undefined) where.shipmentId = filters.shipmentId;
+  if (filters.open !== undefined) where.endTs = filters.open ? null : { not: null };
+
+  return await prisma.temperatureExcursion.findMany({
+    where,
+    orderBy: { startTs: 'desc' },
+    take: filters.limit ?? 100,
+    include: {
+      profile: { select: { id: true, name: true } },
+    },
+  });
+}
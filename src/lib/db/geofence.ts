@@ -0,0 +1,407 @@
+/**
+ * Geofence database operations
+ * Functions for managing the geofences, geofence_presences and geofence_events tables
+ */
+
+import { Geofence, GeofenceEvent, Prisma } from '@prisma/client';
+import {
+  applyGeofenceReading,
+  geofenceContains,
+  GeofenceEventType,
+  GeofenceShape,
+  GeofenceVertex,
+} from '@/lib/analytics/geofences';
+import { GEOFENCE } from '@/lib/constants';
+import { logger } from '@/lib/logger';
+import { prisma } from './client';
+import { ReadingContext } from './types';
+
+export type ShipmentGeofenceRole = 'origin' | 'destination';
+
+/**
+ * Geofence to create
+ */
+export interface GeofenceInput {
+  name: string;
+  shape: GeofenceShape;
+  dwellMinutes?: number | null; // null/undefined = no dwell events
+  tenantId?: number | null; // null = shared by all tenants
+}
+
+/**
+ * Filters for listing geofences
+ */
+export interface GeofenceListFilters {
+  tenantId?: number | null; // Restrict to one tenant's and shared geofences (null/undefined = all)
+  shipmentId?: number;
+  includeShipmentGeofences?: boolean; // Include origin/destination geofences of shipments (default true)
+  limit?: number;
+}
+
+/**
+ * Filters for listing geofence events
+ */
+export interface GeofenceEventListFilters {
+  geofenceId?: number;
+  deviceImei?: string;
+  shipmentId?: number;
+  type?: GeofenceEventType;
+  from?: number;
+  to?: number;
+  tenantId?: number | null; // Restrict to one tenant (null/undefined = all tenants)
+  limit?: number;
+}
+
+/**
+ * Location reading evaluated against the geofences
+ */
+export interface GeofenceLocationReading {
+  deviceImei: string;
+  ts: number;
+  latitude: number;
+  longitude: number;
+}
+
+/**
+ * Outcome of evaluating one reading
+ */
+export interface GeofenceEvaluationResult {
+  evaluated: number; // Geofences the reading was applied to (late readings are not applied)
+  events: GeofenceEvent[];
+  departed: boolean; // The reading set the shipment's departure time
+  arrived: boolean; // The reading set the shipment's arrival time
+}
+
+/**
+ * Shape of a stored geofence (null when the row is incomplete)
+ */
+export function toGeofenceShape(geofence: Geofence): GeofenceShape | null {
+  if (geofence.shape === 'circle') {
+    if (geofence.centerLat === null || geofence.centerLon === null || geofence.radiusMeters === null) return null;
+    return {
+      type: 'circle',
+      latitude: Number(geofence.centerLat),
+      longitude: Number(geofence.centerLon),
+      radiusMeters: geofence.radiusMeters,
+    };
+  }
+  if (geofence.shape === 'polygon' && Array.isArray(geofence.vertices)) {
+    return { type: 'polygon', vertices: geofence.vertices as unknown as GeofenceVertex[] };
+  }
+  return null;
+}
+
+function toShapeColumns(shape: GeofenceShape) {
+  if (shape.type === 'circle') {
+    return {
+      shape: 'circle',
+      centerLat: shape.latitude,
+      centerLon: shape.longitude,
+      radiusMeters: shape.radiusMeters,
+      vertices: Prisma.DbNull,
+    };
+  }
+  return {
+    shape: 'polygon',
+    centerLat: null,
+    centerLon: null,
+    radiusMeters: null,
+    vertices: shape.vertices.map((vertex) => ({ latitude: vertex.latitude, longitude: vertex.longitude })),
+  };
+}
+
+/**
+ * Create a geofence
+ */
+export async function createGeofence(input: GeofenceInput) {
+  try {
+    return await prisma.geofence.create({
+      data: {
+        name: input.name,
+        tenantId: input.tenantId ?? null,
+        dwellMinutes: input.dwellMinutes ?? null,
+        ...toShapeColumns(input.shape),
+      },
+    });
+  } catch (error) {
+    logger.error('Error creating geofence', {
+      error: error instanceof Error ? error.message : 'Unknown',
+      name: input.name,
+    });
+    throw new Error(`Failed to create geofence: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * List active geofences, most recently created first
+ */
+export async function listGeofences(filters: GeofenceListFilters = {}) {
+  const where: Prisma.GeofenceWhereInput = { active: true };
+
+  if (filters.tenantId != null) where.OR = [{ tenantId: filters.tenantId }, { tenantId: null }];
+  if (filters.shipmentId !== undefined) where.shipmentId = filters.shipmentId;
+  else if (filters.includeShipmentGeofences === false) where.shipmentId = null;
+
+  return await prisma.geofence.findMany({
+    where,
+    orderBy: { createdAt: 'desc' },
+    take: filters.limit ?? 100,
+  });
+}
+
+/**
+ * Find a geofence by id
+ * Tenants only see their own and shared geofences
+ */
+export async function findGeofence(id: number, tenantId?: number | null) {
+  return await prisma.geofence.findFirst({
+    where: {
+      id,
+      ...(tenantId != null ? { OR: [{ tenantId }, { tenantId: null }] } : {}),
+    },
+  });
+}
+
+/**
+ * Delete a geofence together with its presence state and events
+ */
+export async function deleteGeofence(id: number): Promise<void> {
+  try {
+    await prisma.geofence.delete({ where: { id } });
+  } catch (error) {
+    logger.error('Error deleting geofence', {
+      error: error instanceof Error ? error.message : 'Unknown',
+      geofenceId: id,
+    });
+    throw new Error(`Failed to delete geofence: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Create or move the origin and destination geofences of a shipment
+ * Circles of GEOFENCE.SHIPMENT_RADIUS_METERS around the ShipFrom and ShipTo coordinates.
+ * Rows are only written when missing or when the coordinates changed, so this can run for
+ * every reading of the shipment.
+ */
+export async function ensureShipmentGeofences(shipmentId: number): Promise<void> {
+  try {
+    const shipment = await prisma.shipment.findUnique({
+      where: { id: shipmentId },
+      include: { geofences: { where: { role: { not: null } } } },
+    });
+    if (!shipment) return;
+
+    const label = shipment.publicId ?? shipment.externalId;
+    const ends: Array<{ role: ShipmentGeofenceRole; lat: Prisma.Decimal | null; lon: Prisma.Decimal | null; address: string | null }> = [
+      { role: 'origin', lat: shipment.shipFromLat, lon: shipment.shipFromLon, address: shipment.shipFromAddress },
+      { role: 'destination', lat: shipment.shipToLat, lon: shipment.shipToLon, address: shipment.shipToAddress },
+    ];
+
+    for (const end of ends) {
+      if (end.lat === null || end.lon === null) continue;
+
+      const existing = shipment.geofences.find((geofence) => geofence.role === end.role);
+      if (existing && existing.centerLat?.equals(end.lat) && existing.centerLon?.equals(end.lon)) continue;
+
+      const data = {
+        name: `${end.role === 'origin' ? 'Origin' : 'Destination'} of shipment ${label}${end.address ? ` (${end.address})` : ''}`.slice(0, 255),
+        tenantId: shipment.tenantId,
+        shape: 'circle',
+        centerLat: end.lat,
+        centerLon: end.lon,
+        radiusMeters: GEOFENCE.SHIPMENT_RADIUS_METERS,
+        dwellMinutes: GEOFENCE.SHIPMENT_DWELL_MINUTES,
+      };
+      await prisma.geofence.upsert({
+        where: { uq_geofences_shipment_role: { shipmentId, role: end.role } },
+        create: { ...data, shipmentId, role: end.role },
+        update: data,
+      });
+    }
+  } catch (error) {
+    logger.error('Error creating shipment geofences', {
+      error: error instanceof Error ? error.message : 'Unknown',
+      shipmentId,
+    });
+    throw new Error(`Failed to create shipment geofences: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Geofences a reading is evaluated against: active shared or tenant geofences, plus the
+ * origin and destination geofences of the reading's own shipment
+ */
+function applicableGeofencesWhere(context: ReadingContext): Prisma.GeofenceWhereInput {
+  const tenantScope: Prisma.GeofenceWhereInput =
+    context.tenantId != null ? { OR: [{ tenantId: context.tenantId }, { tenantId: null }] } : { tenantId: null };
+
+  return {
+    active: true,
+    OR: [
+      { shipmentId: null, ...tenantScope },
+      ...(context.shipmentId != null ? [{ shipmentId: context.shipmentId }] : []),
+    ],
+  };
+}
+
+/**
+ * Evaluate a location reading against the applicable geofences
+ * Each geofence keeps the device's presence (inside, entered at, dwell reported) in
+ * geofence_presences; the reading is applied with applyGeofenceReading and resulting
+ * transitions are stored as geofence events. Presence is a running state, so readings older
+ * than the last evaluated one are skipped rather than replayed.
+ * Leaving the origin geofence sets the shipment's departure time; entering the destination
+ * geofence sets its arrival time and marks an in-transit shipment as arrived.
+ * An advisory lock serializes concurrent evaluations for the same device.
+ */
+export async function evaluateGeofences(
+  reading: GeofenceLocationReading,
+  context: ReadingContext = {}
+): Promise<GeofenceEvaluationResult> {
+  const result: GeofenceEvaluationResult = { evaluated: 0, events: [], departed: false, arrived: false };
+
+  try {
+    const geofences = await prisma.geofence.findMany({ where: applicableGeofencesWhere(context) });
+    if (geofences.length === 0) {
+      return result;
+    }
+
+    const ts = BigInt(reading.ts);
+    const lockKey = `geofences:${reading.deviceImei}`;
+
+    return await prisma.$transaction(async (tx) => {
+      await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${lockKey}))`;
+
+      const presences = await tx.geofencePresence.findMany({
+        where: { deviceImei: reading.deviceImei, geofenceId: { in: geofences.map((geofence) => geofence.id) } },
+      });
+      const presenceByGeofence = new Map(presences.map((presence) => [presence.geofenceId, presence]));
+      const unchanged: number[] = [];
+
+      for (const geofence of geofences) {
+        const shape = toGeofenceShape(geofence);
+        if (!shape) continue;
+
+        const presence = presenceByGeofence.get(geofence.id) ?? null;
+        if (presence && ts <= presence.lastTs) continue;
+        result.evaluated += 1;
+
+        const inside = geofenceContains(shape, reading.latitude, reading.longitude);
+        const { state, transitions } = applyGeofenceReading(
+          presence
+            ? {
+                inside: presence.inside,
+                enteredTs: presence.enteredTs !== null ? Number(presence.enteredTs) : null,
+                dwellReported: presence.dwellReported,
+              }
+            : null,
+          inside,
+          reading.ts,
+          geofence.dwellMinutes !== null ? geofence.dwellMinutes * 60000 : null
+        );
+
+        const stateData = {
+          inside: state.inside,
+          enteredTs: state.enteredTs !== null ? BigInt(state.enteredTs) : null,
+          dwellReported: state.dwellReported,
+          lastTs: ts,
+        };
+        if (
+          presence &&
+          presence.inside === stateData.inside &&
+          presence.enteredTs === stateData.enteredTs &&
+          presence.dwellReported === stateData.dwellReported
+        ) {
+          unchanged.push(geofence.id);
+        } else {
+          await tx.geofencePresence.upsert({
+            where: { geofenceId_deviceImei: { geofenceId: geofence.id, deviceImei: reading.deviceImei } },
+            create: { ...stateData, geofenceId: geofence.id, deviceImei: reading.deviceImei },
+            update: stateData,
+          });
+        }
+
+        for (const transition of transitions) {
+          result.events.push(
+            await tx.geofenceEvent.create({
+              data: {
+                geofenceId: geofence.id,
+                deviceImei: reading.deviceImei,
+                shipmentId: context.shipmentId ?? null,
+                tenantId: context.tenantId ?? null,
+                type: transition.type,
+                ts,
+                durationMs: transition.durationMs !== null ? BigInt(transition.durationMs) : null,
+                latitude: reading.latitude,
+                longitude: reading.longitude,
+              },
+            })
+          );
+
+          if (geofence.shipmentId === null) continue;
+          if (geofence.role === 'origin' && transition.type === 'exit') {
+            const { count } = await tx.shipment.updateMany({
+              where: { id: geofence.shipmentId, departedTs: null },
+              data: { departedTs: ts },
+            });
+            result.departed = result.departed || count > 0;
+          }
+          if (geofence.role === 'destination' && transition.type === 'enter') {
+            const { count } = await tx.shipment.updateMany({
+              where: { id: geofence.shipmentId, arrivedTs: null },
+              data: { arrivedTs: ts },
+            });
+            await tx.shipment.updateMany({
+              where: { id: geofence.shipmentId, status: 'in_transit' },
+              data: { status: 'arrived' },
+            });
+            result.arrived = result.arrived || count > 0;
+          }
+        }
+      }
+
+      if (unchanged.length > 0) {
+        await tx.geofencePresence.updateMany({
+          where: { deviceImei: reading.deviceImei, geofenceId: { in: unchanged } },
+          data: { lastTs: ts },
+        });
+      }
+
+      return result;
+    }, { timeout: 30000 });
+  } catch (error) {
+    logger.error('Error evaluating geofences', {
+      error: error instanceof Error ? error.message : 'Unknown',
+      deviceImei: reading.deviceImei,
+      ts: reading.ts,
+    });
+    throw new Error(`Failed to evaluate geofences: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * List geofence events, most recent first
+ * Events include the geofence's name, shape and shipment role
+ */
+export async function listGeofenceEvents(filters: GeofenceEventListFilters = {}) {
+  const where: Prisma.GeofenceEventWhereInput = {};
+
+  if (filters.tenantId != null) where.tenantId = filters.tenantId;
+  if (filters.geofenceId !== undefined) where.geofenceId = filters.geofenceId;
+  if (filters.deviceImei) where.deviceImei = filters.deviceImei;
+  if (filters.shipmentId !== undefined) where.shipmentId = filters.shipmentId;
+  if (filters.type) where.type = filters.type;
+  if (filters.from !== undefined || filters.to !== undefined) {
+    where.ts = {
+      ...(filters.from !== undefined ? { gte: BigInt(filters.from) } : {}),
+      ...(filters.to !== undefined ? { lte: BigInt(filters.to) } : {}),
+    };
+  }
+
+  return await prisma.geofenceEvent.findMany({
+    where,
+    orderBy: [{ ts: 'desc' }, { id: 'desc' }],
+    take: filters.limit ?? 100,
+    include: { geofence: { select: { id: true, name: true, shape: true, role: true } } },
+  });
+}
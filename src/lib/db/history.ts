@@ -0,0 +1,415 @@
+/**
+ * Device history database operations
+ * Reads the telemetry and locations time series of a device with keyset pagination
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from './client';
+
+/**
+ * Telemetry columns that can be selected through the history API
+ */
+export const TELEMETRY_HISTORY_FIELDS = [
+  'deviceId',
+  'provider',
+  'type',
+  'temperature',
+  'temperatureFahrenheit',
+  'probeTemperature',
+  'probeTemperatureFahrenheit',
+  'humidity',
+  'lightLevel',
+  'accelerometerX',
+  'accelerometerY',
+  'accelerometerZ',
+  'accelerometerMagnitude',
+  'tiltX',
+  'tiltY',
+  'tiltZ',
+  'tilt',
+  'boxOpen',
+  'entityName',
+  'shipmentId',
+] as const;
+
+/**
+ * Location columns that can be selected through the history API
+ */
+export const LOCATION_HISTORY_FIELDS = [
+  'deviceId',
+  'provider',
+  'type',
+  'latitude',
+  'longitude',
+  'altitude',
+  'locationAccuracy',
+  'locationAccuracyCategory',
+  'locationSource',
+  'geolocationSource',
+  'addressStreet',
+  'addressLocality',
+  'addressState',
+  'addressCountry',
+  'addressPostalCode',
+  'addressFullAddress',
+  'batteryLevel',
+  'batteryEstimation',
+  'batteryCharging',
+  'cellularDbm',
+  'cellularSignalStrength',
+  'cellularNetworkType',
+  'cellularOperator',
+  'wifiAccessPoints',
+  'cellTowers',
+  'shipmentId',
+] as const;
+
+/**
+ * Position of the last row of a page; the next page starts after it
+ * Rows are ordered by (ts, id) so rows sharing a timestamp are never skipped
+ */
+export interface HistoryCursor {
+  ts: number;
+  id: number;
+}
+
+export interface HistoryQuery {
+  deviceImei: string;
+  tenantId?: number | null;
+  from?: number;
+  to?: number;
+  cursor?: HistoryCursor;
+  order: 'asc' | 'desc';
+  limit: number;
+  fields?: readonly string[]; // Selected columns (all when omitted); id and ts are always returned
+}
+
+export interface HistoryPage<T> {
+  items: T[];
+  nextCursor: HistoryCursor | null;
+}
+
+/**
+ * Build the where clause of a history query
+ * The device and ts range conditions use the (device_imei, ts) indexes
+ */
+function buildHistoryWhere(query: HistoryQuery): Prisma.TelemetryWhereInput & Prisma.LocationWhereInput {
+  const where: Prisma.TelemetryWhereInput & Prisma.LocationWhereInput = { deviceImei: query.deviceImei };
+  if (query.tenantId != null) where.tenantId = query.tenantId;
+
+  if (query.from !== undefined || query.to !== undefined) {
+    where.ts = {
+      ...(query.from !== undefined ? { gte: BigInt(query.from) } : {}),
+      ...(query.to !== undefined ? { lte: BigInt(query.to) } : {}),
+    };
+  }
+
+  if (query.cursor) {
+    const after = query.order === 'desc' ? 'lt' : 'gt';
+    where.OR = [
+      { ts: { [after]: BigInt(query.cursor.ts) } },
+      { ts: BigInt(query.cursor.ts), id: { [after]: query.cursor.id } },
+    ];
+  }
+
+  return where;
+}
+
+function buildHistorySelect(fields: readonly string[]) {
+  const select: Record<string, true> = { id: true, ts: true };
+  for (const field of fields) {
+    select[field] = true;
+  }
+  return select;
+}
+
+/**
+ * Fetch one more row than requested to know whether another page exists
+ */
+function toHistoryPage<T extends { id: number; ts: bigint }>(rows: T[], limit: number): HistoryPage<T> {
+  if (rows.length <= limit) {
+    return { items: rows, nextCursor: null };
+  }
+
+  const items = rows.slice(0, limit);
+  const last = items[items.length - 1];
+  return { items, nextCursor: { ts: Number(last.ts), id: last.id } };
+}
+
+/**
+ * Fetch a page of a device's telemetry readings
+ */
+export async function getTelemetryHistory(query: HistoryQuery) {
+  const rows = await prisma.telemetry.findMany({
+    where: buildHistoryWhere(query),
+    orderBy: [{ ts: query.order }, { id: query.order }],
+    take: query.limit + 1,
+    select: buildHistorySelect(query.fields ?? TELEMETRY_HISTORY_FIELDS),
+  });
+  return toHistoryPage(rows as unknown as Array<{ id: number; ts: bigint }>, query.limit);
+}
+
+/**
+ * Fetch a page of a device's location readings
+ */
+export async function getLocationHistory(query: HistoryQuery) {
+  const rows = await prisma.location.findMany({
+    where: buildHistoryWhere(query),
+    orderBy: [{ ts: query.order }, { id: query.order }],
+    take: query.limit + 1,
+    select: buildHistorySelect(query.fields ?? LOCATION_HISTORY_FIELDS),
+  });
+  return toHistoryPage(rows as unknown as Array<{ id: number; ts: bigint }>, query.limit);
+}
+
+/**
+ * Telemetry metrics that can be aggregated or downsampled
+ */
+export const TELEMETRY_METRICS = [
+  'temperature',
+  'probeTemperature',
+  'humidity',
+  'lightLevel',
+  'accelerometerMagnitude',
+] as const;
+export type TelemetryMetric = (typeof TELEMETRY_METRICS)[number];
+
+export interface MetricAggregate {
+  min: number | null;
+  max: number | null;
+  avg: number | null;
+  last: number | null; // Value of the newest reading in the bucket that has one
+}
+
+export interface TelemetryBucket {
+  ts: number; // Bucket start (epoch ms, aligned to the interval)
+  count: number; // Readings in the bucket
+  temperature: MetricAggregate; // Ambient channel
+  probeTemperature: MetricAggregate; // Probe channel
+  humidity: MetricAggregate;
+  lightLevel: MetricAggregate;
+  accelerometerMagnitude: MetricAggregate;
+}
+
+export interface TelemetryAggregateQuery {
+  deviceImei: string;
+  tenantId?: number | null;
+  from?: number;
+  to?: number;
+  intervalMs: number;
+  limit: number; // Maximum number of buckets
+}
+
+export interface TelemetryAggregatePage {
+  buckets: TelemetryBucket[];
+  nextFrom: number | null; // Pass as `from` to read the following buckets
+}
+
+interface TelemetryBucketRow {
+  bucket: bigint;
+  count: number;
+  temperature_min: number | null;
+  temperature_max: number | null;
+  temperature_avg: number | null;
+  temperature_last: number | null;
+  probe_temperature_min: number | null;
+  probe_temperature_max: number | null;
+  probe_temperature_avg: number | null;
+  probe_temperature_last: number | null;
+  humidity_min: number | null;
+  humidity_max: number | null;
+  humidity_avg: number | null;
+  humidity_last: number | null;
+  light_level_min: number | null;
+  light_level_max: number | null;
+  light_level_avg: number | null;
+  light_level_last: number | null;
+  accelerometer_magnitude_min: number | null;
+  accelerometer_magnitude_max: number | null;
+  accelerometer_magnitude_avg: number | null;
+  accelerometer_magnitude_last: number | null;
+}
+
+/**
+ * Aggregate a device's telemetry into fixed time buckets, oldest first
+ * Runs in PostgreSQL over the (device_imei, ts) index; only one row per bucket is returned
+ */
+export async function aggregateTelemetryHistory(query: TelemetryAggregateQuery): Promise<TelemetryAggregatePage> {
+  const interval = BigInt(query.intervalMs);
+  const from = BigInt(query.from ?? 0);
+  const to = BigInt(query.to ?? Number.MAX_SAFE_INTEGER);
+  const tenantId = query.tenantId ?? null;
+
+  const rows = await prisma.$queryRaw<TelemetryBucketRow[]>`
+    SELECT
+      (ts / ${interval}) * ${interval} AS bucket,
+      COUNT(*)::int AS count,
+      MIN(temperature)::float8 AS temperature_min,
+      MAX(temperature)::float8 AS temperature_max,
+      AVG(temperature)::float8 AS temperature_avg,
+      ((ARRAY_AGG(temperature ORDER BY ts DESC, id DESC) FILTER (WHERE temperature IS NOT NULL))[1])::float8 AS temperature_last,
+      MIN(probe_temperature)::float8 AS probe_temperature_min,
+      MAX(probe_temperature)::float8 AS probe_temperature_max,
+      AVG(probe_temperature)::float8 AS probe_temperature_avg,
+      ((ARRAY_AGG(probe_temperature ORDER BY ts DESC, id DESC) FILTER (WHERE probe_temperature IS NOT NULL))[1])::float8 AS probe_temperature_last,
+      MIN(humidity)::float8 AS humidity_min,
+      MAX(humidity)::float8 AS humidity_max,
+      AVG(humidity)::float8 AS humidity_avg,
+      ((ARRAY_AGG(humidity ORDER BY ts DESC, id DESC) FILTER (WHERE humidity IS NOT NULL))[1])::float8 AS humidity_last,
+      MIN(light_level)::float8 AS light_level_min,
+      MAX(light_level)::float8 AS light_level_max,
+      AVG(light_level)::float8 AS light_level_avg,
+      ((ARRAY_AGG(light_level ORDER BY ts DESC, id DESC) FILTER (WHERE light_level IS NOT NULL))[1])::float8 AS light_level_last,
+      MIN(accelerometer_magnitude)::float8 AS accelerometer_magnitude_min,
+      MAX(accelerometer_magnitude)::float8 AS accelerometer_magnitude_max,
+      AVG(accelerometer_magnitude)::float8 AS accelerometer_magnitude_avg,
+      ((ARRAY_AGG(accelerometer_magnitude ORDER BY ts DESC, id DESC) FILTER (WHERE accelerometer_magnitude IS NOT NULL))[1])::float8 AS accelerometer_magnitude_last
+    FROM telemetry
+    WHERE device_imei = ${query.deviceImei}
+      AND ts >= ${from}
+      AND ts <= ${to}
+      AND (${tenantId}::int IS NULL OR tenant_id = ${tenantId}::int)
+    GROUP BY bucket
+    ORDER BY bucket ASC
+    LIMIT ${query.limit + 1}
+  `;
+
+  const buckets = rows.slice(0, query.limit).map((row) => ({
+    ts: Number(row.bucket),
+    count: row.count,
+    temperature: {
+      min: row.temperature_min,
+      max: row.temperature_max,
+      avg: row.temperature_avg,
+      last: row.temperature_last,
+    },
+    probeTemperature: {
+      min: row.probe_temperature_min,
+      max: row.probe_temperature_max,
+      avg: row.probe_temperature_avg,
+      last: row.probe_temperature_last,
+    },
+    humidity: {
+      min: row.humidity_min,
+      max: row.humidity_max,
+      avg: row.humidity_avg,
+      last: row.humidity_last,
+    },
+    lightLevel: {
+      min: row.light_level_min,
+      max: row.light_level_max,
+      avg: row.light_level_avg,
+      last: row.light_level_last,
+    },
+    accelerometerMagnitude: {
+      min: row.accelerometer_magnitude_min,
+      max: row.accelerometer_magnitude_max,
+      avg: row.accelerometer_magnitude_avg,
+      last: row.accelerometer_magnitude_last,
+    },
+  }));
+
+  const nextFrom = rows.length > query.limit ? buckets[buckets.length - 1].ts + query.intervalMs : null;
+  return { buckets, nextFrom };
+}
+
+/**
+ * Read one metric of a device's telemetry, oldest first, skipping readings without a value
+ * Only ts and the metric are selected; used as the input of visual downsampling. At most limit
+ * readings are returned; truncated is set when more matched, so the newest ones were left out.
+ */
+export async function getTelemetryMetricSeries(
+  query: Pick<HistoryQuery, 'deviceImei' | 'tenantId' | 'from' | 'to'>,
+  metric: TelemetryMetric,
+  limit: number
+): Promise<{ series: Array<{ ts: number; value: number }>; truncated: boolean }> {
+  const rows = await prisma.telemetry.findMany({
+    where: { ...buildHistoryWhere({ ...query, order: 'asc', limit }), [metric]: { not: null } },
+    orderBy: [{ ts: 'asc' }, { id: 'asc' }],
+    take: limit + 1,
+    select: { ts: true, [metric]: true },
+  });
+
+  const series = (rows as unknown as Array<Record<string, unknown>>).slice(0, limit).map((row) => ({
+    ts: Number(row.ts),
+    value: Number(row[metric]),
+  }));
+  return { series, truncated: rows.length > limit };
+}
+
+export interface TemperatureReadingFilters {
+  deviceImei?: string;
+  shipmentId?: number;
+  tenantId?: number | null;
+  from?: number;
+  to?: number;
+}
+
+/**
+ * Read temperature readings of a device and/or shipment, oldest first
+ * Both channels are returned; readings without either temperature are skipped
+ * (see selectChannelReadings to pick each device's channel). At most limit readings are
+ * returned; truncated is set when more matched, so the newest ones were left out.
+ */
+export async function getTemperatureReadings(filters: TemperatureReadingFilters, limit: number) {
+  const where: Prisma.TelemetryWhereInput = {
+    OR: [{ temperature: { not: null } }, { probeTemperature: { not: null } }],
+  };
+  if (filters.deviceImei !== undefined) where.deviceImei = filters.deviceImei;
+  if (filters.shipmentId !== undefined) where.shipmentId = filters.shipmentId;
+  if (filters.tenantId != null) where.tenantId = filters.tenantId;
+  if (filters.from !== undefined || filters.to !== undefined) {
+    where.ts = {
+      ...(filters.from !== undefined ? { gte: BigInt(filters.from) } : {}),
+      ...(filters.to !== undefined ? { lte: BigInt(filters.to) } : {}),
+    };
+  }
+
+  const rows = await prisma.telemetry.findMany({
+    where,
+    orderBy: [{ ts: 'asc' }, { id: 'asc' }],
+    take: limit + 1,
+    select: { deviceImei: true, ts: true, temperature: true, probeTemperature: true },
+  });
+
+  const readings = rows.slice(0, limit).map((row) => ({
+    deviceImei: row.deviceImei,
+    ts: Number(row.ts),
+    temperature: row.temperature !== null ? Number(row.temperature) : null,
+    probeTemperature: row.probeTemperature !== null ? Number(row.probeTemperature) : null,
+  }));
+  return { readings, truncated: rows.length > limit };
+}
+
+/**
+ * Read when each reading of a device and/or shipment was taken and when it arrived, oldest first
+ * The arrival is the time its raw payload was stored; readings stored before payloads were
+ * linked fall back to the time the reading itself was stored. At most limit readings are
+ * returned; truncated is set when more matched, so the newest ones were left out.
+ */
+export async function getReadingArrivals(filters: TemperatureReadingFilters, limit: number) {
+  const where: Prisma.TelemetryWhereInput = {};
+  if (filters.deviceImei !== undefined) where.deviceImei = filters.deviceImei;
+  if (filters.shipmentId !== undefined) where.shipmentId = filters.shipmentId;
+  if (filters.tenantId != null) where.tenantId = filters.tenantId;
+  if (filters.from !== undefined || filters.to !== undefined) {
+    where.ts = {
+      ...(filters.from !== undefined ? { gte: BigInt(filters.from) } : {}),
+      ...(filters.to !== undefined ? { lte: BigInt(filters.to) } : {}),
+    };
+  }
+
+  const rows = await prisma.telemetry.findMany({
+    where,
+    orderBy: [{ ts: 'asc' }, { id: 'asc' }],
+    take: limit + 1,
+    select: { deviceImei: true, ts: true, createdAt: true, rawPayload: { select: { createdAt: true } } },
+  });
+
+  const readings = rows.slice(0, limit).map((row) => ({
+    deviceImei: row.deviceImei,
+    ts: Number(row.ts),
+    receivedAt: (row.rawPayload?.createdAt ?? row.createdAt).getTime(),
+  }));
+  return { readings, truncated: rows.length > limit };
+}
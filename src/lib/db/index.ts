@@ -8,27 +8,190 @@ import { logger } from '@/lib/logger';
 import { checkDatabaseHealth, disconnect } from './utils';
 
 export { prisma, prisma as db } from './client';
-export { checkDatabaseHealth, disconnect, withTransaction } from './utils';
+export { checkDatabaseHealth, disconnect, withTransaction, isUniqueConstraintError } from './utils';
 
 // Re-export DeviceLatest operations for backward compatibility
 export {
   updateDeviceLatestCritical,
+  refreshDeviceLatestCritical,
   updateDeviceLatestReferences,
+  updateDeviceLatestDerived,
+  updateDeviceLatestMovement,
+  updateDeviceLatestAddress,
   getDeviceLatestList,
+  findDeviceLatest,
 } from './device-latest';
+export type { DeviceLatestUpdateOutcome } from './device-latest';
 
 // Re-export RawPayload operations for backward compatibility
 export {
   storeRawPayload,
   updateRawPayloadStatus,
   updateRawPayloadInngestEventId,
+  findRawPayloadByFingerprint,
+  storeRawPayloadBatch,
+  getRawPayloadsByIds,
+  listRawPayloads,
+  getRawPayloadDetail,
+  selectRawPayloads,
+  findReadingsOfRawPayload,
+  RAW_PAYLOAD_STATUSES,
 } from './raw-payload';
+export type {
+  RawPayloadMetadata,
+  RawPayloadBatchEntry,
+  StoredRawPayload,
+  RawPayloadStatus,
+  RawPayloadCursor,
+  RawPayloadFilters,
+} from './raw-payload';
+
+// Re-export Tenant and ApiKey operations
+export {
+  findTenantByTiveAccountId,
+  findDeviceTenantId,
+  findShipmentTenantId,
+  findActiveApiKeyByHash,
+  touchApiKeyLastUsed,
+} from './tenant';
+export type { ReadingContext } from './types';
+
+// Re-export Shipment operations
+export {
+  upsertShipment,
+  listShipments,
+  findShipment,
+  getShipmentTemperatureSeries,
+  getShipmentRoute,
+  getDeviceShipmentIds,
+} from './shipment';
+export type { ShipmentListFilters } from './shipment';
+
+// Re-export TemperatureProfile and TemperatureExcursion operations
+export {
+  listTemperatureProfiles,
+  findTemperatureProfile,
+  createTemperatureProfile,
+  setDeviceTemperatureProfile,
+  setShipmentTemperatureProfile,
+  getDeviceTemperatureProfiles,
+  resolveTemperatureProfile,
+  setDeviceTemperatureChannel,
+  getDeviceTemperatureChannel,
+  getDeviceTemperatureChannels,
+} from './temperature-profile';
+export type { TemperatureProfileInput } from './temperature-profile';
+export { recomputeTemperatureExcursions, listTemperatureExcursions } from './excursion';
+export type { ExcursionSyncResult, ExcursionListFilters } from './excursion';
+
+// Re-export device calibration operations
+export { getDeviceCalibration, setDeviceCalibration, getDerivationContext } from './derivation';
+
+// Re-export ShockEvent operations
+export { recomputeShockEvents, listShockEvents } from './shock';
+export type { ShockSyncResult, ShockEventListFilters } from './shock';
+
+// Re-export movement operations
+export { recordLocationMovement } from './movement';
+export type { MovementLocation, LocationMovement } from './movement';
+
+// Re-export connectivity operations
+export {
+  scanDeviceConnectivity,
+  markDeviceReporting,
+  listConnectivityEvents,
+  getDeviceReportingInterval,
+  setDeviceReportingInterval,
+  getDeviceExpectedIntervals,
+} from './connectivity';
+export type { ConnectivityTransition, ConnectivityEventFilters } from './connectivity';
+
+// Re-export battery forecast operations
+export {
+  getDeviceBatteryForecast,
+  updateDeviceBatteryForecast,
+  setShipmentExpectedArrival,
+} from './battery';
+export type { DeviceBatteryForecast } from './battery';
+
+// Re-export Geofence operations
+export {
+  createGeofence,
+  listGeofences,
+  findGeofence,
+  deleteGeofence,
+  ensureShipmentGeofences,
+  evaluateGeofences,
+  listGeofenceEvents,
+  toGeofenceShape,
+} from './geofence';
+export type {
+  ShipmentGeofenceRole,
+  GeofenceInput,
+  GeofenceListFilters,
+  GeofenceEventListFilters,
+  GeofenceLocationReading,
+  GeofenceEvaluationResult,
+} from './geofence';
+
+// Re-export device history operations
+export {
+  getTelemetryHistory,
+  getLocationHistory,
+  aggregateTelemetryHistory,
+  getTelemetryMetricSeries,
+  getTemperatureReadings,
+  getReadingArrivals,
+  TELEMETRY_HISTORY_FIELDS,
+  LOCATION_HISTORY_FIELDS,
+  TELEMETRY_METRICS,
+} from './history';
+export type {
+  HistoryCursor,
+  HistoryQuery,
+  HistoryPage,
+  TelemetryMetric,
+  MetricAggregate,
+  TelemetryBucket,
+  TelemetryAggregateQuery,
+  TelemetryAggregatePage,
+  TemperatureReadingFilters,
+} from './history';
+export { getDeviceTemperatureStats, getShipmentTemperatureStats } from './temperature-stats';
+export type {
+  TemperatureStatsQuery,
+  DeviceTemperatureStats,
+  ShipmentTemperatureStats,
+} from './temperature-stats';
+export { getDeviceCompleteness, getShipmentCompleteness } from './completeness';
+export type { CompletenessQuery, DeviceCompleteness, ShipmentCompleteness } from './completeness';
+export { getDeviceStops } from './stops';
+export type { StopQuery, DeviceStop, DeviceStops } from './stops';
+
+// Re-export Alert operations
+export {
+  createAlertRule,
+  listAlertRules,
+  setAlertRuleEnabled,
+  listApplicableAlertRules,
+  listEnabledAlertRulesByType,
+  findMetricReference,
+  findSilentDevices,
+  raiseAlert,
+  resolveActiveAlert,
+  acknowledgeAlert,
+  resolveAlert,
+  listAlerts,
+  findAlertForDelivery,
+  recordAlertDelivery,
+} from './alert';
+export type { AlertRuleInput, AlertRuleScope, RaiseAlertInput, AlertListFilters } from './alert';
 
 // Re-export Telemetry operations for backward compatibility
-export { saveTelemetry } from './telemetry';
+export { saveTelemetry, updateTelemetry, toTelemetryData } from './telemetry';
 
 // Re-export Location operations for backward compatibility
-export { saveLocation } from './location';
+export { saveLocation, updateLocation, toLocationData } from './location';
 
 /**
  * Startup database health check
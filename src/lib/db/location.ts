@@ -6,38 +6,59 @@
 import { PaxafeLocationPayload } from '@/types/paxafe';
 import { logger } from '@/lib/logger';
 import { prisma } from './client';
+import { ReadingContext } from './types';
+
+/**
+ * Columns of a location row for a reading
+ * Movement columns are computed separately (recordLocationMovement)
+ */
+export function toLocationData(payload: PaxafeLocationPayload, context: ReadingContext = {}) {
+  return {
+    deviceId: payload.device_id,
+    deviceImei: payload.device_imei,
+    ts: BigInt(payload.timestamp),
+    provider: payload.provider,
+    type: payload.type,
+    latitude: payload.latitude,
+    longitude: payload.longitude,
+    altitude: payload.altitude ?? null,
+    locationAccuracy: payload.location_accuracy ?? null,
+    locationAccuracyCategory: payload.location_accuracy_category ?? null,
+    locationSource: payload.location_source ?? null,
+    geolocationSource: payload.geolocation_source ?? null,
+    addressStreet: payload.address?.street ?? null,
+    addressLocality: payload.address?.locality ?? null,
+    addressState: payload.address?.state ?? null,
+    addressCountry: payload.address?.country ?? null,
+    addressPostalCode: payload.address?.postal_code ?? null,
+    addressFullAddress: payload.address?.full_address ?? null,
+    batteryLevel: payload.battery_level ?? null,
+    batteryEstimation: payload.battery_estimation ?? null,
+    batteryCharging: payload.battery_charging ?? null,
+    cellularDbm: payload.cellular_dbm ?? null,
+    cellularSignalStrength: payload.cellular_signal_strength ?? null,
+    cellularNetworkType: payload.cellular_network_type ?? null,
+    cellularOperator: payload.cellular_operator ?? null,
+    wifiAccessPoints: payload.wifi_access_points ?? null,
+    cellTowers: payload.cell_towers ?? null,
+    tenantId: context.tenantId ?? null,
+    shipmentId: context.shipmentId ?? null,
+    rawPayloadId: context.rawPayloadId ?? null,
+  };
+}
 
 /**
  * Save location reading to normalized table
  * Stores all readings as historical data (allows duplicates with same timestamp)
+ * The context stamps the reading with its tenant and shipment
  */
-export async function saveLocation(payload: PaxafeLocationPayload): Promise<number> {
+export async function saveLocation(
+  payload: PaxafeLocationPayload,
+  context: ReadingContext = {}
+): Promise<number> {
   try {
     const result = await prisma.location.create({
-      data: {
-        deviceId: payload.device_id,
-        deviceImei: payload.device_imei,
-        ts: BigInt(payload.timestamp),
-        provider: payload.provider,
-        type: payload.type,
-        latitude: payload.latitude,
-        longitude: payload.longitude,
-        altitude: payload.altitude ?? null,
-        locationAccuracy: payload.location_accuracy ?? null,
-        locationAccuracyCategory: payload.location_accuracy_category ?? null,
-        locationSource: payload.location_source ?? null,
-        addressStreet: payload.address?.street ?? null,
-        addressLocality: payload.address?.locality ?? null,
-        addressState: payload.address?.state ?? null,
-        addressCountry: payload.address?.country ?? null,
-        addressPostalCode: payload.address?.postal_code ?? null,
-        addressFullAddress: payload.address?.full_address ?? null,
-        batteryLevel: payload.battery_level ?? null,
-        cellularDbm: payload.cellular_dbm ?? null,
-        cellularNetworkType: payload.cellular_network_type ?? null,
-        cellularOperator: payload.cellular_operator ?? null,
-        wifiAccessPoints: payload.wifi_access_points ?? null,
-      },
+      data: toLocationData(payload, context),
     });
     return result.id;
   } catch (error) {
@@ -48,3 +69,26 @@ export async function saveLocation(payload: PaxafeLocationPayload): Promise<numb
     throw new Error(`Failed to save location: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 }
+
+/**
+ * Rewrite a stored location row from a reading (used when a raw payload is reprocessed)
+ * The row keeps its id and its movement columns; recompute them with recordLocationMovement.
+ */
+export async function updateLocation(
+  id: number,
+  payload: PaxafeLocationPayload,
+  context: ReadingContext = {}
+): Promise<void> {
+  try {
+    await prisma.location.update({
+      where: { id },
+      data: toLocationData(payload, context),
+    });
+  } catch (error) {
+    logger.error('Error updating location', {
+      error: error instanceof Error ? error.message : 'Unknown',
+      id,
+    });
+    throw new Error(`Failed to update location: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
@@ -0,0 +1,148 @@
+/**
+ * Movement database operations
+ * Distance, speed and movement state of each location, computed incrementally when the
+ * location is stored, and the travelled distance of devices on their shipments
+ */
+
+import { Prisma } from '@prisma/client';
+import {
+  computeMovementSegment,
+  MovementFix,
+  MovementSegment,
+  MovementState,
+  MovementThresholds,
+} from '@/lib/analytics/movement';
+import { logger } from '@/lib/logger';
+import { prisma } from './client';
+
+const ACCEPTED_STATES: MovementState[] = ['moving', 'stationary'];
+
+/**
+ * Stored location to compute movement for
+ */
+export interface MovementLocation extends MovementFix {
+  id: number; // locations.id
+  deviceImei: string;
+  shipmentId: number | null;
+}
+
+/**
+ * Movement of a location
+ */
+export interface LocationMovement {
+  state: MovementState; // The device's first fix on a shipment is stationary
+  distanceMeters: number | null; // null for the first fix
+  speedKmh: number | null; // null for the first fix and implausible jumps
+  countedMeters: number; // Change of the device's travelled distance on the shipment
+}
+
+const LOCATION_SELECT = {
+  id: true,
+  ts: true,
+  latitude: true,
+  longitude: true,
+  locationAccuracy: true,
+  distanceMeters: true,
+  movementState: true,
+} satisfies Prisma.LocationSelect;
+
+type StoredLocation = Prisma.LocationGetPayload<{ select: typeof LOCATION_SELECT }>;
+
+function toFix(location: StoredLocation): MovementFix {
+  return {
+    ts: Number(location.ts),
+    latitude: Number(location.latitude),
+    longitude: Number(location.longitude),
+    accuracyMeters: location.locationAccuracy,
+  };
+}
+
+function toMovementColumns(segment: MovementSegment | null) {
+  return {
+    movementState: segment?.state ?? 'stationary',
+    distanceMeters: segment ? segment.distanceMeters : null,
+    speedKmh: segment && segment.state !== 'implausible' ? segment.speedKmh : null,
+  };
+}
+
+function countedMeters(location: StoredLocation): number {
+  return location.movementState === 'moving' && location.distanceMeters !== null ? Number(location.distanceMeters) : 0;
+}
+
+/**
+ * Compute the movement of a stored location from the device's previous accepted fix
+ * Fixes are compared per device and shipment. Implausible jumps are stored as such but never
+ * become the previous fix of later locations. When the location arrives late, the following
+ * fix is recomputed against it too, and the travelled distance is corrected by the difference,
+ * so nothing is recomputed from the full history. Recomputing a location again (a retried step)
+ * replaces its previous contribution instead of adding to it.
+ * An advisory lock serializes concurrent computations for the same device.
+ */
+export async function recordLocationMovement(
+  location: MovementLocation,
+  thresholds: MovementThresholds
+): Promise<LocationMovement> {
+  const lockKey = `movement:${location.deviceImei}`;
+  const ts = BigInt(location.ts);
+
+  try {
+    return await prisma.$transaction(async (tx) => {
+      await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${lockKey}))`;
+
+      const scope = { deviceImei: location.deviceImei, shipmentId: location.shipmentId, id: { not: location.id } };
+      const [stored, previous, next] = await Promise.all([
+        tx.location.findUnique({ where: { id: location.id }, select: LOCATION_SELECT }),
+        tx.location.findFirst({
+          where: { ...scope, ts: { lt: ts }, movementState: { in: ACCEPTED_STATES } },
+          orderBy: [{ ts: 'desc' }, { id: 'desc' }],
+          select: LOCATION_SELECT,
+        }),
+        tx.location.findFirst({
+          where: { ...scope, ts: { gt: ts }, movementState: { in: ACCEPTED_STATES } },
+          orderBy: [{ ts: 'asc' }, { id: 'asc' }],
+          select: LOCATION_SELECT,
+        }),
+      ]);
+
+      const segment = previous ? computeMovementSegment(toFix(previous), location, thresholds) : null;
+      const columns = toMovementColumns(segment);
+      await tx.location.update({ where: { id: location.id }, data: columns });
+
+      let counted = (segment?.countedMeters ?? 0) - (stored ? countedMeters(stored) : 0);
+      if (next && columns.movementState !== 'implausible') {
+        const nextSegment = computeMovementSegment(location, toFix(next), thresholds);
+        await tx.location.update({ where: { id: next.id }, data: toMovementColumns(nextSegment) });
+        counted += nextSegment.countedMeters - countedMeters(next);
+      }
+
+      if (location.shipmentId !== null && counted !== 0) {
+        await tx.$executeRaw`
+          UPDATE shipment_device_assignments
+          SET distance_meters = GREATEST(distance_meters + ${counted}, 0), updated_at = CURRENT_TIMESTAMP
+          WHERE shipment_id = ${location.shipmentId} AND device_imei = ${location.deviceImei}
+        `;
+        await tx.$executeRaw`
+          UPDATE shipments
+          SET distance_meters = COALESCE(
+            (SELECT MAX(distance_meters) FROM shipment_device_assignments WHERE shipment_id = ${location.shipmentId}), 0
+          )
+          WHERE id = ${location.shipmentId}
+        `;
+      }
+
+      return {
+        state: columns.movementState as MovementState,
+        distanceMeters: columns.distanceMeters,
+        speedKmh: columns.speedKmh,
+        countedMeters: counted,
+      };
+    }, { timeout: 30000 });
+  } catch (error) {
+    logger.error('Error computing location movement', {
+      error: error instanceof Error ? error.message : 'Unknown',
+      deviceImei: location.deviceImei,
+      locationId: location.id,
+    });
+    throw new Error(`Failed to compute movement: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
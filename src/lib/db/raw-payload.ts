@@ -3,18 +3,31 @@
  * Functions for managing raw_webhook_payloads table
  */
 
+import { Prisma } from '@prisma/client';
 import { TivePayload } from '@/types/tive';
 import { logger } from '@/lib/logger';
+import { DuplicatePayloadError } from '@/lib/error-handling/error-types';
 import { prisma } from './client';
+import { isUniqueConstraintError } from './utils';
+
+/**
+ * Additional attributes recorded alongside a raw payload
+ */
+export interface RawPayloadMetadata {
+  fingerprint?: string; // Deduplication key, unique across all payloads
+  tenantId?: number | null; // Tenant the payload was attributed to
+}
 
 /**
  * Store raw webhook payload for audit trail
+ * Throws DuplicatePayloadError when a payload with the same fingerprint was already stored
  */
 export async function storeRawPayload(
   payload: TivePayload,
   validationErrors?: Array<{ field: string; message: string }>,
   status: 'pending' | 'failed' = 'pending',
-  inngestEventId?: string
+  inngestEventId?: string,
+  metadata: RawPayloadMetadata = {}
 ): Promise<number> {
   try {
     const result = await prisma.rawWebhookPayload.create({
@@ -24,10 +37,20 @@ export async function storeRawPayload(
         status,
         validationErrors: validationErrors ? (validationErrors as any) : null,
         inngestEventId: inngestEventId || null,
+        fingerprint: metadata.fingerprint || null,
+        tenantId: metadata.tenantId ?? null,
       },
     });
     return result.id;
   } catch (error) {
+    // Unique fingerprint violation means this delivery is a retry of a stored payload
+    if (metadata.fingerprint && isUniqueConstraintError(error)) {
+      const existing = await findRawPayloadByFingerprint(metadata.fingerprint);
+      if (existing) {
+        throw new DuplicatePayloadError(metadata.fingerprint, existing.id);
+      }
+    }
+
     logger.error('Error storing raw payload', {
       error: error instanceof Error ? error.message : 'Unknown',
       payload: JSON.stringify(payload),
@@ -36,6 +59,131 @@ export async function storeRawPayload(
   }
 }
 
+/**
+ * One entry of a batched raw payload insert
+ */
+export interface RawPayloadBatchEntry {
+  payload: Prisma.InputJsonValue | null | undefined; // Missing or null bodies are stored as JSON null
+  validationErrors?: Array<{ field: string; message: string }>;
+  status: 'pending' | 'failed';
+  fingerprint?: string;
+  tenantId?: number | null;
+}
+
+/**
+ * Result for one batch entry: the stored (or previously stored) payload id
+ */
+export interface StoredRawPayload {
+  id: number;
+  duplicate: boolean;
+}
+
+/**
+ * Store a batch of raw payloads in a single transaction
+ * Entries whose fingerprint already exists (in the database or earlier in the batch)
+ * are not inserted again; they resolve to the original payload id with duplicate: true.
+ * Results are returned in the same order as the entries.
+ */
+export async function storeRawPayloadBatch(entries: RawPayloadBatchEntry[]): Promise<StoredRawPayload[]> {
+  try {
+    return await prisma.$transaction(async (tx) => {
+      const fingerprints = entries
+        .map((entry) => entry.fingerprint)
+        .filter((fingerprint): fingerprint is string => !!fingerprint);
+
+      const idsByFingerprint = new Map<string, number>();
+      if (fingerprints.length > 0) {
+        const existing = await tx.rawWebhookPayload.findMany({
+          where: { fingerprint: { in: fingerprints } },
+          select: { id: true, fingerprint: true },
+        });
+        existing.forEach((row) => idsByFingerprint.set(row.fingerprint as string, row.id));
+      }
+      const previouslyStored = new Set(idsByFingerprint.keys());
+
+      // New fingerprinted payloads, first occurrence only
+      const toCreate = new Map<string, RawPayloadBatchEntry>();
+      entries.forEach((entry) => {
+        if (entry.fingerprint && !idsByFingerprint.has(entry.fingerprint) && !toCreate.has(entry.fingerprint)) {
+          toCreate.set(entry.fingerprint, entry);
+        }
+      });
+
+      if (toCreate.size > 0) {
+        // skipDuplicates guards against a concurrent request storing the same payload
+        const created = await tx.rawWebhookPayload.createManyAndReturn({
+          data: Array.from(toCreate.values()).map((entry) => ({
+            payload: entry.payload ?? Prisma.JsonNull,
+            source: 'Tive',
+            status: entry.status,
+            validationErrors: entry.validationErrors ?? Prisma.DbNull,
+            fingerprint: entry.fingerprint,
+            tenantId: entry.tenantId ?? null,
+          })),
+          select: { id: true, fingerprint: true },
+          skipDuplicates: true,
+        });
+        created.forEach((row) => idsByFingerprint.set(row.fingerprint as string, row.id));
+
+        const skipped = Array.from(toCreate.keys()).filter((fingerprint) => !idsByFingerprint.has(fingerprint));
+        if (skipped.length > 0) {
+          const concurrent = await tx.rawWebhookPayload.findMany({
+            where: { fingerprint: { in: skipped } },
+            select: { id: true, fingerprint: true },
+          });
+          concurrent.forEach((row) => {
+            idsByFingerprint.set(row.fingerprint as string, row.id);
+            previouslyStored.add(row.fingerprint as string);
+          });
+        }
+      }
+
+      const claimed = new Set<string>();
+      const results: StoredRawPayload[] = [];
+      for (const entry of entries) {
+        if (!entry.fingerprint) {
+          // Rejected payloads are stored individually for the audit trail
+          const row = await tx.rawWebhookPayload.create({
+            data: {
+              payload: entry.payload ?? Prisma.JsonNull,
+              source: 'Tive',
+              status: entry.status,
+              validationErrors: entry.validationErrors ?? Prisma.DbNull,
+              tenantId: entry.tenantId ?? null,
+            },
+            select: { id: true },
+          });
+          results.push({ id: row.id, duplicate: false });
+          continue;
+        }
+
+        const duplicate = previouslyStored.has(entry.fingerprint) || claimed.has(entry.fingerprint);
+        claimed.add(entry.fingerprint);
+        results.push({ id: idsByFingerprint.get(entry.fingerprint) as number, duplicate });
+      }
+
+      return results;
+    });
+  } catch (error) {
+    logger.error('Error storing raw payload batch', {
+      error: error instanceof Error ? error.message : 'Unknown',
+      count: entries.length,
+    });
+    throw new Error(`Failed to store raw payload batch: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Fetch raw payloads by id (used to fan out batched deliveries)
+ */
+export async function getRawPayloadsByIds(ids: number[]) {
+  return await prisma.rawWebhookPayload.findMany({
+    where: { id: { in: ids } },
+    select: { id: true, payload: true, fingerprint: true, tenantId: true },
+    orderBy: { id: 'asc' },
+  });
+}
+
 /**
  * Update raw payload status after processing
  * Preserves inngest_event_id if it was already set
@@ -87,3 +235,159 @@ export async function updateRawPayloadInngestEventId(
     throw error;
   }
 }
+
+/**
+ * Find a previously stored raw payload by its fingerprint
+ */
+export async function findRawPayloadByFingerprint(fingerprint: string) {
+  return await prisma.rawWebhookPayload.findUnique({
+    where: { fingerprint },
+    select: { id: true, status: true, inngestEventId: true, createdAt: true },
+  });
+}
+
+export const RAW_PAYLOAD_STATUSES = ['pending', 'processing', 'completed', 'failed'] as const;
+export type RawPayloadStatus = (typeof RAW_PAYLOAD_STATUSES)[number];
+
+/**
+ * Position of the last payload of a page; payloads are ordered newest first by (created_at, id)
+ */
+export interface RawPayloadCursor {
+  ts: number; // created_at in epoch ms
+  id: number;
+}
+
+export interface RawPayloadFilters {
+  ids?: number[];
+  status?: RawPayloadStatus;
+  source?: string;
+  deviceId?: string; // Tive DeviceId in the payload body
+  from?: number; // created_at range, inclusive
+  to?: number;
+  validationErrorField?: string; // Payloads rejected with an error on this field
+  cursor?: RawPayloadCursor;
+  limit: number;
+}
+
+/**
+ * Build the where clause of a raw payload search
+ * The device filter is a JSONB path query on the payload body
+ */
+function buildRawPayloadWhere(filters: RawPayloadFilters): Prisma.RawWebhookPayloadWhereInput {
+  const conditions: Prisma.RawWebhookPayloadWhereInput[] = [];
+  if (filters.ids !== undefined) conditions.push({ id: { in: filters.ids } });
+  if (filters.status !== undefined) conditions.push({ status: filters.status });
+  if (filters.source !== undefined) conditions.push({ source: filters.source });
+  if (filters.deviceId !== undefined) {
+    conditions.push({ payload: { path: ['DeviceId'], equals: filters.deviceId } });
+  }
+  if (filters.validationErrorField !== undefined) {
+    conditions.push({ validationErrors: { array_contains: [{ field: filters.validationErrorField }] } });
+  }
+  if (filters.from !== undefined) conditions.push({ createdAt: { gte: new Date(filters.from) } });
+  if (filters.to !== undefined) conditions.push({ createdAt: { lte: new Date(filters.to) } });
+
+  if (filters.cursor) {
+    const createdAt = new Date(filters.cursor.ts);
+    conditions.push({
+      OR: [{ createdAt: { lt: createdAt } }, { createdAt, id: { lt: filters.cursor.id } }],
+    });
+  }
+  return { AND: conditions };
+}
+
+/**
+ * Search raw payloads, newest first
+ * The payload body is not returned; listed payloads carry the DeviceId and EntryTimeEpoch from it.
+ */
+export async function listRawPayloads(filters: RawPayloadFilters) {
+  const rows = await prisma.rawWebhookPayload.findMany({
+    where: buildRawPayloadWhere(filters),
+    orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+    take: filters.limit + 1, // One more row than requested to know whether another page exists
+    select: {
+      id: true,
+      source: true,
+      status: true,
+      tenantId: true,
+      payload: true,
+      validationErrors: true,
+      processingError: true,
+      inngestEventId: true,
+      createdAt: true,
+      processedAt: true,
+    },
+  });
+
+  const items = rows.slice(0, filters.limit).map(({ payload, ...row }) => {
+    const body = payload && typeof payload === 'object' && !Array.isArray(payload) ? (payload as Prisma.JsonObject) : {};
+    return {
+      ...row,
+      deviceId: typeof body.DeviceId === 'string' ? body.DeviceId : null,
+      entryTimeEpoch: typeof body.EntryTimeEpoch === 'number' ? body.EntryTimeEpoch : null,
+    };
+  });
+  const last = items[items.length - 1];
+  return {
+    items,
+    nextCursor: rows.length > filters.limit ? { ts: last.createdAt.getTime(), id: last.id } : null,
+  };
+}
+
+/**
+ * A raw payload with the telemetry and location rows produced from it
+ * Readings stored before payloads were linked to their rows are not listed.
+ */
+export async function getRawPayloadDetail(id: number) {
+  return await prisma.rawWebhookPayload.findUnique({
+    where: { id },
+    include: {
+      tenant: { select: { id: true, name: true } },
+      telemetry: { orderBy: [{ ts: 'asc' }, { id: 'asc' }] },
+      locations: { orderBy: [{ ts: 'asc' }, { id: 'asc' }] },
+    },
+  });
+}
+
+/**
+ * Select raw payloads to reprocess, with their body
+ * Returned in reading order (EntryTimeEpoch, then id) so derived values that depend on the
+ * previous reading are rebuilt in sequence. truncated is set when more payloads matched than limit.
+ */
+export async function selectRawPayloads(filters: Omit<RawPayloadFilters, 'cursor'>) {
+  const rows = await prisma.rawWebhookPayload.findMany({
+    where: buildRawPayloadWhere(filters),
+    orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+    take: filters.limit + 1,
+    select: { id: true, payload: true, tenantId: true, status: true },
+  });
+
+  const entryTime = (payload: Prisma.JsonValue) => {
+    const body = payload && typeof payload === 'object' && !Array.isArray(payload) ? (payload as Prisma.JsonObject) : {};
+    return typeof body.EntryTimeEpoch === 'number' ? body.EntryTimeEpoch : 0;
+  };
+  const payloads = rows
+    .slice(0, filters.limit)
+    .sort((a, b) => entryTime(a.payload) - entryTime(b.payload) || a.id - b.id);
+  return { payloads, truncated: rows.length > filters.limit };
+}
+
+/**
+ * The telemetry and location rows stored from a raw payload
+ * Rows stored before payloads were linked to their readings are matched by device and timestamp.
+ */
+export async function findReadingsOfRawPayload(rawPayloadId: number, deviceImei: string, ts: number) {
+  const where = {
+    OR: [{ rawPayloadId }, { rawPayloadId: null, deviceImei, ts: BigInt(ts) }],
+  };
+  const orderBy: Prisma.TelemetryOrderByWithRelationInput[] = [
+    { rawPayloadId: { sort: 'asc', nulls: 'last' } },
+    { id: 'asc' },
+  ];
+
+  const [telemetry, location] = await Promise.all([
+    prisma.telemetry.findFirst({ where, orderBy }),
+    prisma.location.findFirst({ where, orderBy: orderBy as Prisma.LocationOrderByWithRelationInput[] }),
+  ]);
+  return { telemetry, location };
+}
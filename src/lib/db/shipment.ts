@@ -0,0 +1,200 @@
+/**
+ * Shipment database operations
+ * Functions for managing shipments and shipment_device_assignments tables
+ */
+
+import { Prisma } from '@prisma/client';
+import { PaxafeShipmentPayload } from '@/types/paxafe';
+import { logger } from '@/lib/logger';
+import { prisma } from './client';
+
+/**
+ * Upsert the shipment of a reading and record the device assignment
+ * Runs as INSERT ... ON CONFLICT so concurrent readings of the same shipment are safe:
+ * - first/last seen timestamps only widen (LEAST/GREATEST), so late readings are handled
+ * - descriptive fields are only overwritten by non-null values
+ * - the device assignment keeps the first and last reading time of the device on the shipment
+ *
+ * @returns The shipment id (shipments.id)
+ */
+export async function upsertShipment(
+  shipment: PaxafeShipmentPayload,
+  tenantId: number | null = null
+): Promise<number> {
+  const ts = BigInt(shipment.timestamp);
+
+  try {
+    return await prisma.$transaction(async (tx) => {
+      const rows = await tx.$queryRaw<Array<{ id: number }>>`
+        INSERT INTO shipments (
+          external_id, public_id, provider, tenant_id, description, carrier,
+          ship_from_lat, ship_from_lon, ship_from_address,
+          ship_to_lat, ship_to_lon, ship_to_address,
+          first_seen_ts, last_seen_ts
+        ) VALUES (
+          ${shipment.shipment_id}, ${shipment.public_shipment_id}, ${shipment.provider}, ${tenantId},
+          ${shipment.description}, ${shipment.carrier},
+          ${shipment.ship_from?.latitude ?? null}, ${shipment.ship_from?.longitude ?? null}, ${shipment.ship_from?.address ?? null},
+          ${shipment.ship_to?.latitude ?? null}, ${shipment.ship_to?.longitude ?? null}, ${shipment.ship_to?.address ?? null},
+          ${ts}, ${ts}
+        )
+        ON CONFLICT (external_id) DO UPDATE SET
+          public_id = COALESCE(EXCLUDED.public_id, shipments.public_id),
+          tenant_id = COALESCE(shipments.tenant_id, EXCLUDED.tenant_id),
+          description = COALESCE(EXCLUDED.description, shipments.description),
+          carrier = COALESCE(EXCLUDED.carrier, shipments.carrier),
+          ship_from_lat = COALESCE(EXCLUDED.ship_from_lat, shipments.ship_from_lat),
+          ship_from_lon = COALESCE(EXCLUDED.ship_from_lon, shipments.ship_from_lon),
+          ship_from_address = COALESCE(EXCLUDED.ship_from_address, shipments.ship_from_address),
+          ship_to_lat = COALESCE(EXCLUDED.ship_to_lat, shipments.ship_to_lat),
+          ship_to_lon = COALESCE(EXCLUDED.ship_to_lon, shipments.ship_to_lon),
+          ship_to_address = COALESCE(EXCLUDED.ship_to_address, shipments.ship_to_address),
+          first_seen_ts = LEAST(shipments.first_seen_ts, EXCLUDED.first_seen_ts),
+          last_seen_ts = GREATEST(shipments.last_seen_ts, EXCLUDED.last_seen_ts),
+          updated_at = CURRENT_TIMESTAMP
+        RETURNING id
+      `;
+      const shipmentId = rows[0].id;
+
+      await tx.$executeRaw`
+        INSERT INTO shipment_device_assignments (shipment_id, device_imei, device_id, first_ts, last_ts)
+        VALUES (${shipmentId}, ${shipment.device_imei}, ${shipment.device_id}, ${ts}, ${ts})
+        ON CONFLICT (shipment_id, device_imei) DO UPDATE SET
+          device_id = EXCLUDED.device_id,
+          first_ts = LEAST(shipment_device_assignments.first_ts, EXCLUDED.first_ts),
+          last_ts = GREATEST(shipment_device_assignments.last_ts, EXCLUDED.last_ts),
+          updated_at = CURRENT_TIMESTAMP
+      `;
+
+      return shipmentId;
+    });
+  } catch (error) {
+    logger.error('Error upserting shipment', {
+      error: error instanceof Error ? error.message : 'Unknown',
+      shipmentId: shipment.shipment_id,
+      deviceImei: shipment.device_imei,
+    });
+    throw new Error(`Failed to upsert shipment: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+
+/**
+ * Filters for listing shipments
+ * Text filters are case-insensitive substring matches
+ */
+export interface ShipmentListFilters {
+  status?: string;
+  carrier?: string;
+  origin?: string; // Matches the ShipFrom address
+  destination?: string; // Matches the ShipTo address
+  from?: number; // Epoch ms; shipments seen at or after this time
+  to?: number; // Epoch ms; shipments seen at or before this time
+  search?: string; // Exact Tive shipment id or PublicShipmentId
+  tenantId?: number | null; // Restrict to one tenant (null/undefined = all tenants)
+  limit?: number;
+}
+
+/**
+ * List shipments, most recently seen first
+ * The date range matches shipments whose [first_seen_ts, last_seen_ts] overlaps [from, to]
+ */
+export async function listShipments(filters: ShipmentListFilters = {}) {
+  const where: Prisma.ShipmentWhereInput = {};
+
+  if (filters.tenantId != null) where.tenantId = filters.tenantId;
+  if (filters.status) where.status = filters.status;
+  if (filters.carrier) where.carrier = { contains: filters.carrier, mode: 'insensitive' };
+  if (filters.origin) where.shipFromAddress = { contains: filters.origin, mode: 'insensitive' };
+  if (filters.destination) where.shipToAddress = { contains: filters.destination, mode: 'insensitive' };
+  if (filters.from !== undefined) where.lastSeenTs = { gte: BigInt(filters.from) };
+  if (filters.to !== undefined) where.firstSeenTs = { lte: BigInt(filters.to) };
+  if (filters.search) {
+    where.OR = [{ externalId: filters.search }, { publicId: filters.search }];
+  }
+
+  return await prisma.shipment.findMany({
+    where,
+    orderBy: { lastSeenTs: 'desc' },
+    take: filters.limit ?? 100,
+    include: {
+      _count: { select: { deviceAssignments: true } },
+    },
+  });
+}
+
+/**
+ * Find a shipment by database id, Tive shipment id or PublicShipmentId
+ * Ops staff look shipments up by whichever id they have at hand
+ */
+export async function findShipment(identifier: string, tenantId?: number | null) {
+  const candidates: Prisma.ShipmentWhereInput[] = [{ externalId: identifier }, { publicId: identifier }];
+  if (/^\d+$/.test(identifier) && Number(identifier) <= 2147483647) {
+    candidates.push({ id: Number(identifier) });
+  }
+
+  const matches = await prisma.shipment.findMany({
+    where: {
+      OR: candidates,
+      ...(tenantId != null ? { tenantId } : {}),
+    },
+    include: {
+      deviceAssignments: { orderBy: { firstTs: 'asc' } },
+    },
+    take: candidates.length,
+  });
+
+  // Prefer the Tive shipment id, then the public id, then the database id
+  return (
+    matches.find((shipment) => shipment.externalId === identifier) ??
+    matches.find((shipment) => shipment.publicId === identifier) ??
+    matches[0] ??
+    null
+  );
+}
+
+/**
+ * Fetch the temperature series of a shipment, with both temperature channels
+ * Returns the most recent `limit` readings, oldest first
+ */
+export async function getShipmentTemperatureSeries(shipmentId: number, limit: number = 5000) {
+  const readings = await prisma.telemetry.findMany({
+    where: { shipmentId },
+    orderBy: { ts: 'desc' },
+    take: limit,
+    select: { ts: true, deviceImei: true, temperature: true, probeTemperature: true, humidity: true },
+  });
+  return readings.reverse();
+}
+
+/**
+ * Fetch the route of a shipment
+ * Returns the most recent `limit` locations, oldest first
+ */
+export async function getShipmentRoute(shipmentId: number, limit: number = 5000) {
+  const points = await prisma.location.findMany({
+    where: { shipmentId },
+    orderBy: { ts: 'desc' },
+    take: limit,
+    select: {
+      ts: true,
+      deviceImei: true,
+      latitude: true,
+      longitude: true,
+      locationAccuracy: true,
+      addressFullAddress: true,
+    },
+  });
+  return points.reverse();
+}
+
+/**
+ * Ids of the shipments a device has been assigned to
+ */
+export async function getDeviceShipmentIds(deviceImei: string): Promise<number[]> {
+  const assignments = await prisma.shipmentDeviceAssignment.findMany({
+    where: { deviceImei },
+    select: { shipmentId: true },
+  });
+  return assignments.map((assignment) => assignment.shipmentId);
+}
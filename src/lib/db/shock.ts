@@ -0,0 +1,182 @@
+/**
+ * Shock event database operations
+ * Functions for managing the shock_events table
+ */
+
+import { Prisma, ShockEvent } from '@prisma/client';
+import {
+  detectShockEvents,
+  isShockSpike,
+  AccelerationReading,
+  DetectedShockEvent,
+  ShockSeverity,
+  ShockThresholds,
+  SHOCK_SEVERITIES,
+} from '@/lib/analytics/shocks';
+import { logger } from '@/lib/logger';
+import { prisma } from './client';
+import { findRecomputeWindow, windowFilter } from './utils';
+
+/**
+ * Changes made by a recompute
+ */
+export interface ShockSyncResult {
+  skipped: boolean; // The reading could not change any event, nothing was recomputed
+  created: ShockEvent[]; // Newly detected events (used as alert triggers)
+  updated: number; // Extended or reclassified events
+  removed: number; // Events that no longer exist (e.g. split by a late reading)
+}
+
+/**
+ * Filters for listing shock events
+ */
+export interface ShockEventListFilters {
+  deviceImei?: string;
+  shipmentId?: number;
+  minSeverity?: ShockSeverity;
+  from?: number;
+  to?: number;
+  tenantId?: number | null; // Restrict to one tenant (null/undefined = all tenants)
+  limit?: number;
+}
+
+function toShockEventData(event: DetectedShockEvent) {
+  return {
+    kind: event.kind,
+    severity: event.severity,
+    endTs: BigInt(event.endTs),
+    peakMagnitude: event.peakMagnitude,
+    readingCount: event.readingCount,
+  };
+}
+
+/**
+ * Recompute the shock events of a device on a shipment (shipmentId null = readings without a shipment)
+ * Events are detected from the accelerometer history and synced with the stored rows by start
+ * timestamp, like temperature excursions. When the triggering reading is given, is not a spike and
+ * falls outside every stored event, it cannot change any event and the recompute is skipped.
+ * Otherwise only the readings between the nearest normal readings before and after it are read,
+ * since events never span a normal reading; without a reading the full history is recomputed.
+ */
+export async function recomputeShockEvents(
+  deviceImei: string,
+  shipmentId: number | null,
+  thresholds: ShockThresholds,
+  reading?: AccelerationReading
+): Promise<ShockSyncResult> {
+  const scopeKey = `shock_events:${deviceImei}:${shipmentId ?? 'none'}`;
+
+  try {
+    return await prisma.$transaction(async (tx) => {
+      if (reading && !isShockSpike(reading.magnitude, thresholds)) {
+        const spanning = await tx.shockEvent.count({
+          where: {
+            deviceImei,
+            shipmentId,
+            startTs: { lte: BigInt(reading.ts) },
+            endTs: { gte: BigInt(reading.ts) },
+          },
+        });
+        if (spanning === 0) {
+          return { skipped: true, created: [], updated: 0, removed: 0 };
+        }
+      }
+
+      await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${scopeKey}))`;
+
+      const scope: Prisma.TelemetryWhereInput = { deviceImei, shipmentId, accelerometerMagnitude: { not: null } };
+      const normal: Prisma.TelemetryWhereInput = {
+        accelerometerMagnitude: { gt: thresholds.freeFallG, lt: thresholds.thresholdG },
+      };
+      const window = reading ? await findRecomputeWindow(tx, scope, normal, reading.ts) : null;
+      const tsFilter = windowFilter(window);
+
+      const [existing, readings] = await Promise.all([
+        tx.shockEvent.findMany({ where: { deviceImei, shipmentId, ...(tsFilter ? { startTs: tsFilter } : {}) } }),
+        tx.telemetry.findMany({
+          where: { ...scope, ...(tsFilter ? { ts: tsFilter } : {}) },
+          orderBy: [{ ts: 'asc' }, { id: 'asc' }],
+          select: { ts: true, accelerometerMagnitude: true, tenantId: true },
+        }),
+      ]);
+      const tenantId = readings.length > 0 ? readings[readings.length - 1].tenantId : null;
+
+      const detected = detectShockEvents(
+        readings.map((row) => ({ ts: Number(row.ts), magnitude: Number(row.accelerometerMagnitude) })),
+        thresholds
+      );
+
+      const existingByStart = new Map(existing.map((row) => [row.startTs.toString(), row]));
+      const result: ShockSyncResult = { skipped: false, created: [], updated: 0, removed: 0 };
+
+      for (const event of detected) {
+        const data = toShockEventData(event);
+        const key = String(event.startTs);
+        const row = existingByStart.get(key);
+
+        if (!row) {
+          result.created.push(
+            await tx.shockEvent.create({
+              data: { ...data, deviceImei, shipmentId, tenantId, startTs: BigInt(event.startTs) },
+            })
+          );
+          continue;
+        }
+
+        existingByStart.delete(key);
+        const unchanged =
+          row.kind === data.kind &&
+          row.severity === data.severity &&
+          row.endTs === data.endTs &&
+          Number(row.peakMagnitude) === data.peakMagnitude &&
+          row.readingCount === data.readingCount;
+        if (!unchanged) {
+          await tx.shockEvent.update({ where: { id: row.id }, data });
+          result.updated += 1;
+        }
+      }
+
+      if (existingByStart.size > 0) {
+        await tx.shockEvent.deleteMany({
+          where: { id: { in: Array.from(existingByStart.values()).map((row) => row.id) } },
+        });
+        result.removed = existingByStart.size;
+      }
+
+      return result;
+    }, { timeout: 30000 });
+  } catch (error) {
+    logger.error('Error recomputing shock events', {
+      error: error instanceof Error ? error.message : 'Unknown',
+      deviceImei,
+      shipmentId,
+    });
+    throw new Error(`Failed to recompute shock events: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * List shock events, most recent first
+ */
+export async function listShockEvents(filters: ShockEventListFilters = {}) {
+  const where: Prisma.ShockEventWhereInput = {};
+
+  if (filters.tenantId != null) where.tenantId = filters.tenantId;
+  if (filters.deviceImei) where.deviceImei = filters.deviceImei;
+  if (filters.shipmentId !== undefined) where.shipmentId = filters.shipmentId;
+  if (filters.minSeverity) {
+    where.severity = { in: SHOCK_SEVERITIES.slice(SHOCK_SEVERITIES.indexOf(filters.minSeverity)) };
+  }
+  if (filters.from !== undefined || filters.to !== undefined) {
+    where.startTs = {
+      ...(filters.from !== undefined ? { gte: BigInt(filters.from) } : {}),
+      ...(filters.to !== undefined ? { lte: BigInt(filters.to) } : {}),
+    };
+  }
+
+  return await prisma.shockEvent.findMany({
+    where,
+    orderBy: { startTs: 'desc' },
+    take: filters.limit ?? 100,
+  });
+}
@@ -0,0 +1,106 @@
+/**
+ * Stop detection database operations
+ * Loads a device's locations and temperature readings, clusters the locations into stops with
+ * the pure functions in analytics/stops and computes the temperature statistics of each stop
+ */
+
+import { STABILITY, STOP } from '@/lib/constants';
+import { detectStops, DetectedStop } from '@/lib/analytics/stops';
+import { computeTemperatureStats, TemperatureStats } from '@/lib/analytics/stability';
+import { selectChannelReadings } from '@/lib/analytics/temperature-channels';
+import { prisma } from './client';
+import { getTemperatureReadings } from './history';
+import { getDeviceTemperatureChannel, resolveTemperatureProfile } from './temperature-profile';
+import { toStabilityRange } from './temperature-stats';
+
+export interface StopQuery {
+  tenantId?: number | null;
+  from?: number;
+  to?: number;
+  radiusMeters: number;
+  minDurationMs: number;
+  activationEnergyKjPerMol: number;
+  maxGapMs: number;
+}
+
+export interface DeviceStop extends DetectedStop {
+  temperature: TemperatureStats; // Primary channel readings between the stop's start and end, against the device's profile
+}
+
+export interface DeviceStops {
+  deviceImei: string;
+  locationCount: number; // Locations clustered (at most STOP.MAX_LOCATIONS, the most recent)
+  locationsTruncated: boolean; // More locations matched; the oldest were left out
+  readingsTruncated: boolean; // A stop had more than STABILITY.MAX_READINGS readings; its newest were left out
+  stops: DeviceStop[];
+}
+
+/**
+ * Detect the stops of a device, oldest first
+ */
+export async function getDeviceStops(deviceImei: string, query: StopQuery): Promise<DeviceStops> {
+  const where = {
+    deviceImei,
+    ...(query.tenantId != null ? { tenantId: query.tenantId } : {}),
+    ...(query.from !== undefined || query.to !== undefined
+      ? {
+          ts: {
+            ...(query.from !== undefined ? { gte: BigInt(query.from) } : {}),
+            ...(query.to !== undefined ? { lte: BigInt(query.to) } : {}),
+          },
+        }
+      : {}),
+  };
+
+  const [locations, profile, channel] = await Promise.all([
+    prisma.location.findMany({
+      where,
+      orderBy: [{ ts: 'desc' }, { id: 'desc' }],
+      take: STOP.MAX_LOCATIONS + 1,
+      select: { ts: true, latitude: true, longitude: true, locationAccuracy: true },
+    }),
+    resolveTemperatureProfile(deviceImei, null),
+    getDeviceTemperatureChannel(deviceImei),
+  ]);
+
+  const locationsTruncated = locations.length > STOP.MAX_LOCATIONS;
+  const detected = detectStops(
+    locations.slice(0, STOP.MAX_LOCATIONS).map((location) => ({
+      ts: Number(location.ts),
+      latitude: Number(location.latitude),
+      longitude: Number(location.longitude),
+      accuracyMeters: location.locationAccuracy,
+    })),
+    { radiusMeters: query.radiusMeters, minDurationMs: query.minDurationMs }
+  );
+
+  // Each stop reads its own readings, so a long history cannot leave the later stops without any
+  const range = toStabilityRange(profile);
+  let readingsTruncated = false;
+  const stops: DeviceStop[] = [];
+  for (const stop of detected) {
+    const { readings, truncated } = await getTemperatureReadings(
+      { deviceImei, tenantId: query.tenantId, from: stop.startTs, to: stop.endTs },
+      STABILITY.MAX_READINGS
+    );
+    readingsTruncated = readingsTruncated || truncated;
+
+    stops.push({
+      ...stop,
+      temperature: computeTemperatureStats(selectChannelReadings(readings, () => channel), range, {
+        activationEnergyKjPerMol: query.activationEnergyKjPerMol,
+        maxGapMs: query.maxGapMs,
+        from: stop.startTs,
+        to: stop.endTs,
+      }),
+    });
+  }
+
+  return {
+    deviceImei,
+    locationCount: Math.min(locations.length, STOP.MAX_LOCATIONS),
+    locationsTruncated,
+    readingsTruncated,
+    stops,
+  };
+}
@@ -6,28 +6,52 @@
 import { PaxafeSensorPayload } from '@/types/paxafe';
 import { logger } from '@/lib/logger';
 import { prisma } from './client';
+import { ReadingContext } from './types';
+
+/**
+ * Columns of a telemetry row for a reading
+ */
+export function toTelemetryData(payload: PaxafeSensorPayload, context: ReadingContext = {}) {
+  return {
+    deviceId: payload.device_id,
+    deviceImei: payload.device_imei,
+    ts: BigInt(payload.timestamp),
+    provider: payload.provider,
+    type: payload.type,
+    temperature: payload.temperature !== null ? payload.temperature : null,
+    temperatureFahrenheit: payload.temperature_fahrenheit ?? null,
+    probeTemperature: payload.probe_temperature ?? null,
+    probeTemperatureFahrenheit: payload.probe_temperature_fahrenheit ?? null,
+    humidity: payload.humidity !== null ? payload.humidity : null,
+    lightLevel: payload.light_level !== null ? payload.light_level : null,
+    accelerometerX: payload.accelerometer?.x ?? null,
+    accelerometerY: payload.accelerometer?.y ?? null,
+    accelerometerZ: payload.accelerometer?.z ?? null,
+    accelerometerMagnitude: payload.accelerometer?.magnitude ?? null,
+    tiltX: payload.tilt?.x ?? null,
+    tiltY: payload.tilt?.y ?? null,
+    tiltZ: payload.tilt?.z ?? null,
+    tilt: payload.tilt?.tilt ?? null,
+    boxOpen: payload.box_open,
+    entityName: payload.entity_name ?? null,
+    tenantId: context.tenantId ?? null,
+    shipmentId: context.shipmentId ?? null,
+    rawPayloadId: context.rawPayloadId ?? null,
+  };
+}
 
 /**
  * Save telemetry reading to normalized table
  * Stores all readings as historical data (allows duplicates with same timestamp)
+ * The context stamps the reading with its tenant, shipment and the raw payload it arrived in
  */
-export async function saveTelemetry(payload: PaxafeSensorPayload): Promise<number> {
+export async function saveTelemetry(
+  payload: PaxafeSensorPayload,
+  context: ReadingContext = {}
+): Promise<number> {
   try {
     const result = await prisma.telemetry.create({
-      data: {
-        deviceId: payload.device_id,
-        deviceImei: payload.device_imei,
-        ts: BigInt(payload.timestamp),
-        provider: payload.provider,
-        type: payload.type,
-        temperature: payload.temperature !== null ? payload.temperature : null,
-        humidity: payload.humidity !== null ? payload.humidity : null,
-        lightLevel: payload.light_level !== null ? payload.light_level : null,
-        accelerometerX: payload.accelerometer?.x ?? null,
-        accelerometerY: payload.accelerometer?.y ?? null,
-        accelerometerZ: payload.accelerometer?.z ?? null,
-        accelerometerMagnitude: payload.accelerometer?.magnitude ?? null,
-      },
+      data: toTelemetryData(payload, context),
     });
     return result.id;
   } catch (error) {
@@ -38,3 +62,26 @@ export async function saveTelemetry(payload: PaxafeSensorPayload): Promise<numbe
     throw new Error(`Failed to save telemetry: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 }
+
+/**
+ * Rewrite a stored telemetry row from a reading (used when a raw payload is reprocessed)
+ * The row keeps its id, so device_latest and other references stay valid.
+ */
+export async function updateTelemetry(
+  id: number,
+  payload: PaxafeSensorPayload,
+  context: ReadingContext = {}
+): Promise<void> {
+  try {
+    await prisma.telemetry.update({
+      where: { id },
+      data: toTelemetryData(payload, context),
+    });
+  } catch (error) {
+    logger.error('Error updating telemetry', {
+      error: error instanceof Error ? error.message : 'Unknown',
+      id,
+    });
+    throw new Error(`Failed to update telemetry: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
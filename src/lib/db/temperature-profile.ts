@@ -0,0 +1,202 @@
+/**
+ * Temperature profile database operations
+ * Functions for managing temperature_profiles and device_configs tables
+ */
+
+import { Prisma } from '@prisma/client';
+import {
+  DEFAULT_TEMPERATURE_CHANNEL,
+  TemperatureChannel,
+  toTemperatureChannel,
+} from '@/lib/analytics/temperature-channels';
+import { logger } from '@/lib/logger';
+import { ConflictError } from '@/lib/error-handling/error-types';
+import { prisma } from './client';
+import { isUniqueConstraintError } from './utils';
+
+export interface TemperatureProfileInput {
+  name: string;
+  minTemp: number | null;
+  maxTemp: number | null;
+  allowedExcursionMinutes: number;
+  stabilityBudgetMinutes: number | null;
+  tenantId: number | null;
+}
+
+/**
+ * Profiles visible to a tenant: the shared profiles plus the tenant's own
+ * (tenantId null = all profiles)
+ */
+function visibleToTenant(tenantId?: number | null): Prisma.TemperatureProfileWhereInput {
+  return tenantId != null ? { OR: [{ tenantId: null }, { tenantId }] } : {};
+}
+
+/**
+ * List temperature profiles visible to a tenant
+ */
+export async function listTemperatureProfiles(tenantId?: number | null) {
+  return await prisma.temperatureProfile.findMany({
+    where: visibleToTenant(tenantId),
+    orderBy: [{ tenantId: { sort: 'asc', nulls: 'first' } }, { name: 'asc' }],
+  });
+}
+
+/**
+ * Find a temperature profile visible to a tenant
+ */
+export async function findTemperatureProfile(id: number, tenantId?: number | null) {
+  return await prisma.temperatureProfile.findFirst({
+    where: { id, ...visibleToTenant(tenantId) },
+  });
+}
+
+/**
+ * Create a temperature profile
+ * @throws ConflictError when the tenant already has a profile with this name
+ */
+export async function createTemperatureProfile(profile: TemperatureProfileInput) {
+  try {
+    return await prisma.temperatureProfile.create({ data: profile });
+  } catch (error) {
+    if (isUniqueConstraintError(error)) {
+      throw new ConflictError(`Temperature profile "${profile.name}" already exists`, 'name');
+    }
+
+    logger.error('Error creating temperature profile', {
+      error: error instanceof Error ? error.message : 'Unknown',
+      name: profile.name,
+    });
+    throw new Error(`Failed to create temperature profile: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Assign a temperature profile to a device (null removes the assignment)
+ */
+export async function setDeviceTemperatureProfile(deviceImei: string, profileId: number | null): Promise<void> {
+  try {
+    await prisma.deviceConfig.upsert({
+      where: { deviceImei },
+      create: { deviceImei, temperatureProfileId: profileId },
+      update: { temperatureProfileId: profileId },
+    });
+  } catch (error) {
+    logger.error('Error assigning device temperature profile', {
+      error: error instanceof Error ? error.message : 'Unknown',
+      deviceImei,
+      profileId,
+    });
+    throw new Error(`Failed to assign temperature profile: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Assign a temperature profile to a shipment (null removes the assignment)
+ * A shipment profile overrides the profiles of the devices carrying it
+ */
+export async function setShipmentTemperatureProfile(shipmentId: number, profileId: number | null): Promise<void> {
+  try {
+    await prisma.shipment.update({
+      where: { id: shipmentId },
+      data: { temperatureProfileId: profileId },
+    });
+  } catch (error) {
+    logger.error('Error assigning shipment temperature profile', {
+      error: error instanceof Error ? error.message : 'Unknown',
+      shipmentId,
+      profileId,
+    });
+    throw new Error(`Failed to assign temperature profile: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Fetch the temperature profiles assigned to devices
+ * @returns Map of device IMEI → profile (devices without a profile are absent)
+ */
+export async function getDeviceTemperatureProfiles(deviceImeis: string[]) {
+  if (deviceImeis.length === 0) {
+    return new Map<string, Prisma.TemperatureProfileGetPayload<{}>>();
+  }
+
+  const configs = await prisma.deviceConfig.findMany({
+    where: { deviceImei: { in: deviceImeis }, temperatureProfileId: { not: null } },
+    include: { temperatureProfile: true },
+  });
+
+  return new Map(
+    configs
+      .filter((config) => config.temperatureProfile !== null)
+      .map((config) => [config.deviceImei, config.temperatureProfile!])
+  );
+}
+
+/**
+ * Set a device's primary temperature channel
+ */
+export async function setDeviceTemperatureChannel(deviceImei: string, channel: TemperatureChannel): Promise<void> {
+  try {
+    await prisma.deviceConfig.upsert({
+      where: { deviceImei },
+      create: { deviceImei, temperatureChannel: channel },
+      update: { temperatureChannel: channel },
+    });
+  } catch (error) {
+    logger.error('Error setting device temperature channel', {
+      error: error instanceof Error ? error.message : 'Unknown',
+      deviceImei,
+      channel,
+    });
+    throw new Error(`Failed to set temperature channel: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Primary temperature channel of a device (ambient when not configured)
+ */
+export async function getDeviceTemperatureChannel(deviceImei: string): Promise<TemperatureChannel> {
+  const config = await prisma.deviceConfig.findUnique({
+    where: { deviceImei },
+    select: { temperatureChannel: true },
+  });
+  return config ? toTemperatureChannel(config.temperatureChannel) : DEFAULT_TEMPERATURE_CHANNEL;
+}
+
+/**
+ * Fetch the primary temperature channels of devices
+ * @returns Map of device IMEI → channel (devices without a configuration are absent: ambient)
+ */
+export async function getDeviceTemperatureChannels(deviceImeis: string[]): Promise<Map<string, TemperatureChannel>> {
+  if (deviceImeis.length === 0) {
+    return new Map();
+  }
+
+  const configs = await prisma.deviceConfig.findMany({
+    where: { deviceImei: { in: deviceImeis } },
+    select: { deviceImei: true, temperatureChannel: true },
+  });
+
+  return new Map(configs.map((config) => [config.deviceImei, toTemperatureChannel(config.temperatureChannel)]));
+}
+
+/**
+ * Resolve the profile that applies to a device's readings on a shipment
+ * The shipment profile wins over the device profile
+ */
+export async function resolveTemperatureProfile(deviceImei: string, shipmentId: number | null) {
+  if (shipmentId !== null) {
+    const shipment = await prisma.shipment.findUnique({
+      where: { id: shipmentId },
+      select: { temperatureProfile: true },
+    });
+    if (shipment?.temperatureProfile) {
+      return shipment.temperatureProfile;
+    }
+  }
+
+  const config = await prisma.deviceConfig.findUnique({
+    where: { deviceImei },
+    select: { temperatureProfile: true },
+  });
+  return config?.temperatureProfile ?? null;
+}
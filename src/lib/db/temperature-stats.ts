@@ -0,0 +1,139 @@
+/**
+ * Temperature statistics database operations
+ * Loads readings and the applicable profile, then computes MKT, time out of range and
+ * the stability budget with the pure functions in analytics/stability.
+ * Each device's readings are taken from its primary temperature channel.
+ */
+
+import { STABILITY } from '@/lib/constants';
+import {
+  computeTemperatureStats,
+  StabilityOptions,
+  StabilityRange,
+  TemperatureStats,
+} from '@/lib/analytics/stability';
+import { selectChannelReadings, TemperatureChannel } from '@/lib/analytics/temperature-channels';
+import { getTemperatureReadings } from './history';
+import {
+  getDeviceTemperatureChannel,
+  getDeviceTemperatureChannels,
+  resolveTemperatureProfile,
+} from './temperature-profile';
+
+type ResolvedProfile = Awaited<ReturnType<typeof resolveTemperatureProfile>>;
+
+export interface TemperatureStatsQuery {
+  tenantId?: number | null;
+  from?: number;
+  to?: number;
+  activationEnergyKjPerMol: number;
+  maxGapMs: number;
+}
+
+export interface DeviceTemperatureStats {
+  deviceImei: string;
+  channel: TemperatureChannel; // Primary channel the readings were taken from
+  profile: ResolvedProfile;
+  stats: TemperatureStats;
+  truncated: boolean; // More than STABILITY.MAX_READINGS readings matched; the newest were left out
+}
+
+export interface ShipmentTemperatureStats {
+  profile: ResolvedProfile; // Shared by every device, or null when they differ
+  stats: TemperatureStats; // All devices' readings as one series
+  devices: DeviceTemperatureStats[];
+  truncated: boolean; // More than STABILITY.MAX_READINGS readings matched; the newest were left out
+}
+
+/**
+ * Temperature range and stability budget of a resolved profile
+ */
+export function toStabilityRange(profile: ResolvedProfile): StabilityRange | null {
+  if (!profile) return null;
+  return {
+    minTemp: profile.minTemp !== null ? Number(profile.minTemp) : null,
+    maxTemp: profile.maxTemp !== null ? Number(profile.maxTemp) : null,
+    stabilityBudgetMinutes: profile.stabilityBudgetMinutes,
+  };
+}
+
+function toStabilityOptions(query: TemperatureStatsQuery): StabilityOptions {
+  return {
+    activationEnergyKjPerMol: query.activationEnergyKjPerMol,
+    maxGapMs: query.maxGapMs,
+    from: query.from,
+    to: query.to,
+  };
+}
+
+/**
+ * Temperature statistics of a device against its own profile
+ */
+export async function getDeviceTemperatureStats(
+  deviceImei: string,
+  query: TemperatureStatsQuery
+): Promise<DeviceTemperatureStats> {
+  const [profile, channel, { readings, truncated }] = await Promise.all([
+    resolveTemperatureProfile(deviceImei, null),
+    getDeviceTemperatureChannel(deviceImei),
+    getTemperatureReadings(
+      { deviceImei, tenantId: query.tenantId, from: query.from, to: query.to },
+      STABILITY.MAX_READINGS
+    ),
+  ]);
+
+  return {
+    deviceImei,
+    channel,
+    profile,
+    stats: computeTemperatureStats(
+      selectChannelReadings(readings, () => channel),
+      toStabilityRange(profile),
+      toStabilityOptions(query)
+    ),
+    truncated,
+  };
+}
+
+/**
+ * Temperature statistics of a shipment, overall and per device
+ * Each device is evaluated on its primary channel against the profile that applies to it on the shipment
+ */
+export async function getShipmentTemperatureStats(
+  shipmentId: number,
+  query: TemperatureStatsQuery
+): Promise<ShipmentTemperatureStats> {
+  const { readings: allReadings, truncated } = await getTemperatureReadings(
+    { shipmentId, tenantId: query.tenantId, from: query.from, to: query.to },
+    STABILITY.MAX_READINGS
+  );
+  const options = toStabilityOptions(query);
+
+  const deviceImeis = Array.from(new Set(allReadings.map((reading) => reading.deviceImei)));
+  const channels = await getDeviceTemperatureChannels(deviceImeis);
+  const channelOf = (deviceImei: string) => channels.get(deviceImei) ?? 'ambient';
+  const readings = selectChannelReadings(allReadings, channelOf);
+
+  const devices: DeviceTemperatureStats[] = [];
+  for (const deviceImei of deviceImeis) {
+    const profile = await resolveTemperatureProfile(deviceImei, shipmentId);
+    const deviceReadings = readings.filter((reading) => reading.deviceImei === deviceImei);
+    devices.push({
+      deviceImei,
+      channel: channelOf(deviceImei),
+      profile,
+      stats: computeTemperatureStats(deviceReadings, toStabilityRange(profile), options),
+      truncated,
+    });
+  }
+
+  const profileIds = new Set(devices.map((device) => device.profile?.id ?? null));
+  const profile = devices.length > 0 && profileIds.size === 1 ? devices[0].profile : null;
+
+  return {
+    profile,
+    stats: computeTemperatureStats(readings, toStabilityRange(profile), options),
+    devices,
+    truncated,
+  };
+}
@@ -0,0 +1,83 @@
+/**
+ * Tenant and ApiKey database operations
+ * Functions for managing tenants and api_keys tables
+ */
+
+import { logger } from '@/lib/logger';
+import { prisma } from './client';
+
+/**
+ * Minimum time between last_used_at writes for the same key
+ * Avoids a database write on every authenticated request
+ */
+const LAST_USED_UPDATE_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Find the tenant mapped to a Tive AccountId
+ */
+export async function findTenantByTiveAccountId(tiveAccountId: number) {
+  return await prisma.tenant.findUnique({
+    where: { tiveAccountId },
+    select: { id: true, name: true, tiveAccountId: true },
+  });
+}
+
+/**
+ * Find the tenant that owns a device (null when the device is unknown or unattributed)
+ */
+export async function findDeviceTenantId(deviceImei: string): Promise<number | null> {
+  const device = await prisma.deviceLatest.findUnique({
+    where: { deviceImei },
+    select: { tenantId: true },
+  });
+  return device?.tenantId ?? null;
+}
+
+/**
+ * Find the tenant that owns a shipment by its Tive id (null when unknown or unattributed)
+ */
+export async function findShipmentTenantId(externalId: string): Promise<number | null> {
+  const shipment = await prisma.shipment.findUnique({
+    where: { externalId },
+    select: { tenantId: true },
+  });
+  return shipment?.tenantId ?? null;
+}
+
+/**
+ * Find an active (not revoked) API key by its hash, with its tenant
+ */
+export async function findActiveApiKeyByHash(keyHash: string) {
+  return await prisma.apiKey.findFirst({
+    where: { keyHash, revokedAt: null },
+    select: {
+      id: true,
+      tenantId: true,
+      lastUsedAt: true,
+      tenant: { select: { id: true, name: true, tiveAccountId: true } },
+    },
+  });
+}
+
+/**
+ * Record that an API key was used
+ * Writes at most once per LAST_USED_UPDATE_INTERVAL_MS per key; errors are logged, not thrown
+ */
+export async function touchApiKeyLastUsed(apiKeyId: number): Promise<void> {
+  const threshold = new Date(Date.now() - LAST_USED_UPDATE_INTERVAL_MS);
+
+  try {
+    await prisma.apiKey.updateMany({
+      where: {
+        id: apiKeyId,
+        OR: [{ lastUsedAt: null }, { lastUsedAt: { lt: threshold } }],
+      },
+      data: { lastUsedAt: new Date() },
+    });
+  } catch (error) {
+    logger.error('Error updating API key last_used_at', {
+      error: error instanceof Error ? error.message : 'Unknown',
+      apiKeyId,
+    });
+  }
+}
@@ -0,0 +1,12 @@
+/**
+ * Shared types for database operations
+ */
+
+/**
+ * Attributes of a reading that do not come from the PAXAFE payload itself
+ */
+export interface ReadingContext {
+  tenantId?: number | null; // Tenant the reading belongs to (null when unattributed)
+  shipmentId?: number | null; // shipments.id of the shipment the reading belongs to
+  rawPayloadId?: number | null; // raw_webhook_payloads.id of the payload the reading arrived in
+}
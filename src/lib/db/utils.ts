@@ -3,7 +3,7 @@
  * Helper functions for database operations, health checks, and transactions
  */
 
-import { PrismaClient } from '@prisma/client';
+import { Prisma, PrismaClient } from '@prisma/client';
 import { prisma } from './client';
 
 /**
@@ -39,3 +39,63 @@ export async function withTransaction<T>(
 ): Promise<T> {
   return (await prisma.$transaction(callback)) as T;
 }
+
+/**
+ * Check whether an error is a Prisma unique constraint violation (P2002)
+ * Duck-typed so it works without importing Prisma error classes
+ */
+export function isUniqueConstraintError(error: unknown): boolean {
+  return (
+    typeof error === 'object' &&
+    error !== null &&
+    'code' in error &&
+    (error as { code?: unknown }).code === 'P2002'
+  );
+}
+
+/**
+ * Time window of a recompute (null = no bound on that side)
+ */
+export interface RecomputeWindow {
+  fromTs: bigint | null;
+  toTs: bigint | null;
+}
+
+/**
+ * Find the readings a new reading can affect in a run-based detection (excursions, shock events)
+ * Runs are separated by boundary readings (e.g. in range, not a spike), so the nearest boundary
+ * readings before and after ts bound every run the reading can extend, split or merge.
+ */
+export async function findRecomputeWindow(
+  tx: Prisma.TransactionClient,
+  where: Prisma.TelemetryWhereInput,
+  boundary: Prisma.TelemetryWhereInput,
+  ts: number
+): Promise<RecomputeWindow> {
+  const [before, after] = await Promise.all([
+    tx.telemetry.findFirst({
+      where: { AND: [where, boundary, { ts: { lt: BigInt(ts) } }] },
+      orderBy: [{ ts: 'desc' }, { id: 'desc' }],
+      select: { ts: true },
+    }),
+    tx.telemetry.findFirst({
+      where: { AND: [where, boundary, { ts: { gt: BigInt(ts) } }] },
+      orderBy: [{ ts: 'asc' }, { id: 'asc' }],
+      select: { ts: true },
+    }),
+  ]);
+  return { fromTs: before?.ts ?? null, toTs: after?.ts ?? null };
+}
+
+/**
+ * Timestamp filter for a recompute window (undefined = no window, the full history)
+ */
+export function windowFilter(window: RecomputeWindow | null): Prisma.BigIntFilter | undefined {
+  if (!window || (window.fromTs === null && window.toTs === null)) {
+    return undefined;
+  }
+  return {
+    ...(window.fromTs !== null ? { gte: window.fromTs } : {}),
+    ...(window.toTs !== null ? { lte: window.toTs } : {}),
+  };
+}
@@ -53,3 +53,17 @@ export class DatabaseError extends Error {
   }
 }
 
+
+export class DuplicatePayloadError extends Error {
+  constructor(public fingerprint: string, public existingPayloadId: number) {
+    super(`Payload already received (payload_id ${existingPayloadId})`);
+    this.name = 'DuplicatePayloadError';
+  }
+}
+
+export class ConflictError extends Error {
+  constructor(message: string, public field: string) {
+    super(message);
+    this.name = 'ConflictError';
+  }
+}
@@ -0,0 +1,262 @@
+/**
+ * Formatted address parsing
+ * Splits a single-line address (Tive's FormattedAddress) into street, locality, region,
+ * postal code and country for the common international layouts:
+ * - "114 Hunts Point Market, Bronx, NY 10474, USA" (postal code after the region)
+ * - "Unter den Linden 1, 10117 Berlin, Germany" (postal code before the locality)
+ * - "1 George St, Sydney NSW 2000, Australia" (locality, region and postal code together)
+ * - "10 Downing St, London SW1A 2AA, UK" (postal code after the locality)
+ * - "Av. Paulista 1578, São Paulo - SP, 01310-100, Brazil" (postal code on its own)
+ * The country decides the postal code format; without a country in the text the caller's
+ * hint (e.g. from reverse geocoding) is used, else a generic numeric format.
+ */
+
+import { PaxafeAddress } from '@/types/paxafe';
+
+interface PostalFormat {
+  pattern: string; // Regular expression source of the postal code (matched case-insensitively)
+  trailingRemainder: 'region' | 'locality'; // What precedes a postal code at the end of a part
+}
+
+const POSTAL_FORMATS: Array<PostalFormat & { countries: string[] }> = [
+  { countries: ['US'], pattern: '\\d{5}(?:-\\d{4})?', trailingRemainder: 'region' },
+  { countries: ['CA'], pattern: '[A-Z]\\d[A-Z] ?\\d[A-Z]\\d', trailingRemainder: 'region' },
+  { countries: ['GB'], pattern: '[A-Z]{1,2}\\d[A-Z\\d]? ?\\d[A-Z]{2}', trailingRemainder: 'locality' },
+  { countries: ['IE'], pattern: '[A-Z]\\d{2} ?[A-Z\\d]{4}', trailingRemainder: 'locality' },
+  { countries: ['NL'], pattern: '\\d{4} ?[A-Z]{2}', trailingRemainder: 'region' },
+  { countries: ['PL'], pattern: '\\d{2}-\\d{3}', trailingRemainder: 'region' },
+  { countries: ['PT'], pattern: '\\d{4}-\\d{3}', trailingRemainder: 'region' },
+  { countries: ['BR'], pattern: '\\d{5}-?\\d{3}', trailingRemainder: 'region' },
+  { countries: ['JP'], pattern: '\\d{3}-\\d{4}', trailingRemainder: 'region' },
+  { countries: ['SE', 'CZ', 'SK', 'GR'], pattern: '\\d{3} ?\\d{2}', trailingRemainder: 'region' },
+  { countries: ['IN'], pattern: '\\d{3} ?\\d{3}', trailingRemainder: 'region' },
+  { countries: ['SG'], pattern: '\\d{6}', trailingRemainder: 'locality' },
+  { countries: ['CN', 'RU'], pattern: '\\d{6}', trailingRemainder: 'region' },
+  {
+    countries: ['AU', 'NZ', 'AT', 'BE', 'CH', 'DK', 'NO', 'HU', 'ZA', 'LU'],
+    pattern: '\\d{4}',
+    trailingRemainder: 'region',
+  },
+  {
+    countries: ['DE', 'FR', 'ES', 'IT', 'FI', 'MX', 'TR', 'KR', 'MY', 'TH', 'ID', 'HR', 'EE', 'LT', 'UA'],
+    pattern: '\\d{5}',
+    trailingRemainder: 'region',
+  },
+];
+
+const GENERIC_POSTAL_FORMAT: PostalFormat = { pattern: '\\d{4,6}(?:-\\d{3,4})?', trailingRemainder: 'region' };
+
+// A trailing part that is only a postal code, as in "..., Shanghai, China, 200120"
+const STANDALONE_POSTAL = /^\d[\d -]{2,9}$/;
+
+// "Sydney NSW", "Roma RM": a locality followed by a region code
+const LOCALITY_WITH_REGION_CODE = /^(.+?)\s+([A-Z]{2,3})$/;
+
+// "São Paulo - SP"
+const LOCALITY_DASH_REGION = /^(.+?)\s+-\s+([A-Z]{2})$/;
+
+const REGION_CODE = /^[A-Z]{2,3}$/;
+
+// Languages whose country names are recognized, besides the aliases below
+const COUNTRY_NAME_LOCALES = ['en', 'de', 'fr', 'es', 'it', 'nl', 'pt', 'pl', 'sv', 'da', 'ja', 'zh', 'ko'];
+
+const COUNTRY_ALIASES: Record<string, string> = {
+  'us': 'US',
+  'usa': 'US',
+  'u.s.a.': 'US',
+  'united states of america': 'US',
+  'uk': 'GB',
+  'u.k.': 'GB',
+  'great britain': 'GB',
+  'england': 'GB',
+  'scotland': 'GB',
+  'wales': 'GB',
+  'northern ireland': 'GB',
+  'the netherlands': 'NL',
+  'holland': 'NL',
+  'korea': 'KR',
+  'republic of korea': 'KR',
+  'prc': 'CN',
+  "people's republic of china": 'CN',
+  'uae': 'AE',
+  'russia': 'RU',
+  'czech republic': 'CZ',
+  'turkey': 'TR',
+  'viet nam': 'VN',
+};
+
+let countryCodesByName: Map<string, string> | null = null;
+
+/**
+ * Country names in the supported languages, lowercased, to ISO 3166-1 alpha-2 codes
+ * Built once from the runtime's Intl data, so no country list is bundled
+ */
+function getCountryCodesByName(): Map<string, string> {
+  if (!countryCodesByName) {
+    const byName = new Map<string, string>(Object.entries(COUNTRY_ALIASES));
+    for (const locale of COUNTRY_NAME_LOCALES) {
+      const names = new Intl.DisplayNames([locale], { type: 'region' });
+      for (let first = 65; first <= 90; first++) {
+        for (let second = 65; second <= 90; second++) {
+          const code = String.fromCharCode(first, second);
+          // Deprecated codes (e.g. "DD") are aliases of current ones and share their names
+          if (new Intl.Locale(`und-${code}`).region !== code) continue;
+          const name = names.of(code);
+          if (name && name !== code && !byName.has(name.toLowerCase())) {
+            byName.set(name.toLowerCase(), code);
+          }
+        }
+      }
+    }
+    countryCodesByName = byName;
+  }
+  return countryCodesByName;
+}
+
+/**
+ * ISO 3166-1 alpha-2 code of a country name (e.g. "Deutschland" → "DE"), or null
+ * Bare two-letter codes other than "US" are not recognized ("CA" is more often California)
+ */
+export function findCountryCode(name: string): string | null {
+  return getCountryCodesByName().get(name.trim().toLowerCase()) ?? null;
+}
+
+/**
+ * English name of an ISO 3166-1 alpha-2 country code (e.g. "DE" → "Germany")
+ */
+export function getCountryName(code: string): string {
+  return new Intl.DisplayNames(['en'], { type: 'region' }).of(code.toUpperCase()) ?? code;
+}
+
+function getPostalFormat(countryCode: string | null): PostalFormat {
+  const code = countryCode?.toUpperCase();
+  return POSTAL_FORMATS.find((format) => code && format.countries.includes(code)) ?? GENERIC_POSTAL_FORMAT;
+}
+
+interface PostalMatch {
+  index: number; // Part that holds the postal code
+  postalCode: string;
+  remainder: string; // Rest of the part
+  position: 'leading' | 'trailing' | 'alone';
+}
+
+/**
+ * Find the postal code, searching from the last part; the first part is the street and is
+ * only searched when it is the only part (so house numbers are not taken for postal codes)
+ */
+function findPostalCode(parts: string[], format: PostalFormat): PostalMatch | null {
+  const alone = new RegExp(`^(${format.pattern})$`, 'i');
+  const leading = new RegExp(`^(${format.pattern})\\s+(.+)$`, 'i');
+  const trailing = new RegExp(`^(.+?)\\s+(${format.pattern})$`, 'i');
+  const lowest = parts.length === 1 ? 0 : 1;
+
+  for (let index = parts.length - 1; index >= lowest; index--) {
+    const part = parts[index];
+    if (alone.test(part)) {
+      return { index, postalCode: part, remainder: '', position: 'alone' };
+    }
+    const trailingMatch = part.match(trailing);
+    if (trailingMatch) {
+      return { index, postalCode: trailingMatch[2], remainder: trailingMatch[1], position: 'trailing' };
+    }
+    const leadingMatch = part.match(leading);
+    if (leadingMatch) {
+      return { index, postalCode: leadingMatch[1], remainder: leadingMatch[2], position: 'leading' };
+    }
+  }
+  return null;
+}
+
+/**
+ * Split "Sydney NSW" into locality and region code (null when there is no code)
+ */
+function splitRegionCode(text: string): { locality: string; state: string } | null {
+  const match = text.match(LOCALITY_DASH_REGION) ?? text.match(LOCALITY_WITH_REGION_CODE);
+  return match ? { locality: match[1], state: match[2] } : null;
+}
+
+/**
+ * Parse a single-line formatted address
+ * @param countryHint ISO 3166-1 alpha-2 code used when the address does not name its country
+ */
+export function parseFormattedAddress(
+  formattedAddress: string | null | undefined,
+  countryHint: string | null = null
+): PaxafeAddress {
+  const address: PaxafeAddress = {
+    street: null,
+    locality: null,
+    state: null,
+    country: null,
+    postal_code: null,
+    full_address: formattedAddress?.trim() || null,
+  };
+  if (!address.full_address) {
+    return address;
+  }
+
+  const parts = address.full_address.split(',').map((part) => part.trim()).filter(Boolean);
+  let countryCode = countryHint;
+
+  if (parts.length > 1 && STANDALONE_POSTAL.test(parts[parts.length - 1])) {
+    address.postal_code = parts.pop()!;
+  }
+  if (parts.length > 1) {
+    const code = findCountryCode(parts[parts.length - 1]);
+    if (code) {
+      address.country = parts.pop()!;
+      countryCode = code;
+    }
+  }
+
+  // Parts before the locality; the first is the street
+  let leading = parts;
+  const format = getPostalFormat(countryCode);
+  const postal = address.postal_code ? null : findPostalCode(parts, format);
+
+  if (postal && postal.position !== 'alone') {
+    address.postal_code = postal.postalCode;
+    leading = parts.slice(0, postal.index);
+    const following = parts[postal.index + 1] ?? null;
+
+    if (postal.position === 'leading' || format.trailingRemainder === 'locality') {
+      // "10117 Berlin", "00100 Roma RM", "London SW1A 2AA"
+      const split = splitRegionCode(postal.remainder);
+      address.locality = split?.locality ?? postal.remainder;
+      address.state = split?.state ?? following;
+    } else {
+      // "NY 10474", "Sydney NSW 2000", "Tokyo 131-0045"
+      const split = splitRegionCode(postal.remainder);
+      address.locality = split?.locality ?? null;
+      address.state = split?.state ?? postal.remainder;
+    }
+  } else {
+    if (postal) {
+      address.postal_code = postal.postalCode;
+      leading = parts.filter((_, index) => index !== postal.index);
+    }
+    // No postal code within the parts: the last part is the region when it is a region
+    // code or when there are enough parts for street, locality and region
+    const last = leading[leading.length - 1];
+    const split = last !== undefined ? last.match(LOCALITY_DASH_REGION) : null;
+    if (split) {
+      address.locality = split[1];
+      address.state = split[2];
+      leading = leading.slice(0, -1);
+    } else if (leading.length >= 3 || (leading.length === 2 && REGION_CODE.test(last))) {
+      address.state = last;
+      leading = leading.slice(0, -1);
+    }
+  }
+
+  if (!address.locality && leading.length > 0) {
+    // A lone part is the locality unless it looks like a street (has a house number)
+    if (leading.length >= 2 || !/\d/.test(leading[0])) {
+      address.locality = leading[leading.length - 1];
+      leading = leading.slice(0, -1);
+    }
+  }
+  address.street = leading[0] ?? null;
+
+  return address;
+}
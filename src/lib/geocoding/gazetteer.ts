@@ -0,0 +1,137 @@
+/**
+ * Offline reverse geocoding from a gazetteer
+ * Reads the GeoNames dumps (https://download.geonames.org/export/dump/): a cities file such as
+ * cities1000.txt for places and, optionally, admin1CodesASCII.txt for region names. A coordinate
+ * is named after the nearest place within the maximum distance, found through a one-degree grid.
+ */
+
+import { readFileSync } from 'fs';
+import { haversineMeters } from '@/lib/utils/geo';
+import { getCountryName } from './address-parser';
+import type { GeocodedPlace, ReverseGeocoder } from './types';
+
+export interface GazetteerPlace {
+  name: string;
+  latitude: number;
+  longitude: number;
+  countryCode: string; // ISO 3166-1 alpha-2
+  region: string | null;
+}
+
+const KM_PER_DEGREE_LATITUDE = 111.2;
+
+/**
+ * Parse admin1CodesASCII.txt ("US.NY<TAB>New York<TAB>New York<TAB>5128638")
+ * @returns Region names keyed by "<country code>.<admin1 code>"
+ */
+export function parseAdmin1Codes(text: string): Map<string, string> {
+  const names = new Map<string, string>();
+  for (const line of text.split('\n')) {
+    const columns = line.split('\t');
+    if (columns.length >= 2 && columns[0] && columns[1]) {
+      names.set(columns[0], columns[1]);
+    }
+  }
+  return names;
+}
+
+/**
+ * Parse a GeoNames cities file (tab-separated, one place per line)
+ * Columns used: 1 name, 4 latitude, 5 longitude, 8 country code, 10 admin1 code.
+ * Malformed lines are skipped.
+ */
+export function parseGeoNamesCities(text: string, admin1Names: Map<string, string> = new Map()): GazetteerPlace[] {
+  const places: GazetteerPlace[] = [];
+  for (const line of text.split('\n')) {
+    const columns = line.split('\t');
+    if (columns.length < 11) continue;
+
+    const latitude = parseFloat(columns[4]);
+    const longitude = parseFloat(columns[5]);
+    const countryCode = columns[8];
+    if (!columns[1] || isNaN(latitude) || isNaN(longitude) || !/^[A-Z]{2}$/.test(countryCode)) continue;
+
+    places.push({
+      name: columns[1],
+      latitude,
+      longitude,
+      countryCode,
+      region: admin1Names.get(`${countryCode}.${columns[10]}`) ?? null,
+    });
+  }
+  return places;
+}
+
+function cellKey(latitudeCell: number, longitudeCell: number): string {
+  return `${latitudeCell}:${longitudeCell}`;
+}
+
+/**
+ * Reverse geocoder over a list of places
+ * @param maxDistanceKm Coordinates further than this from every place resolve to null
+ */
+export function createGazetteerGeocoder(places: GazetteerPlace[], maxDistanceKm: number): ReverseGeocoder {
+  const grid = new Map<string, GazetteerPlace[]>();
+  for (const place of places) {
+    const key = cellKey(Math.floor(place.latitude), Math.floor(place.longitude));
+    const cell = grid.get(key);
+    if (cell) {
+      cell.push(place);
+    } else {
+      grid.set(key, [place]);
+    }
+  }
+
+  const maxDistanceMeters = maxDistanceKm * 1000;
+  const latitudeCells = Math.ceil(maxDistanceKm / KM_PER_DEGREE_LATITUDE);
+
+  const nearest = (latitude: number, longitude: number) => {
+    // Longitude degrees shrink towards the poles, so more cells are searched there
+    const cosLatitude = Math.max(Math.cos((latitude * Math.PI) / 180), 0.01);
+    const longitudeCells = Math.min(Math.ceil(latitudeCells / cosLatitude), 180);
+    const latitudeCell = Math.floor(latitude);
+    const longitudeCell = Math.floor(longitude);
+
+    let best: GazetteerPlace | null = null;
+    let bestDistance = maxDistanceMeters;
+    for (let dLat = -latitudeCells; dLat <= latitudeCells; dLat++) {
+      for (let dLon = -longitudeCells; dLon <= longitudeCells; dLon++) {
+        // Wrap around the antimeridian
+        const wrapped = ((((longitudeCell + dLon + 180) % 360) + 360) % 360) - 180;
+        for (const place of grid.get(cellKey(latitudeCell + dLat, wrapped)) ?? []) {
+          const distance = haversineMeters(latitude, longitude, place.latitude, place.longitude);
+          if (distance <= bestDistance) {
+            best = place;
+            bestDistance = distance;
+          }
+        }
+      }
+    }
+    return best ? { place: best, distanceMeters: bestDistance } : null;
+  };
+
+  return {
+    name: 'gazetteer',
+    async reverse(latitude: number, longitude: number): Promise<GeocodedPlace | null> {
+      const match = nearest(latitude, longitude);
+      if (!match) return null;
+      return {
+        locality: match.place.name,
+        region: match.place.region,
+        country: getCountryName(match.place.countryCode),
+        countryCode: match.place.countryCode,
+        distanceMeters: Math.round(match.distanceMeters),
+      };
+    },
+  };
+}
+
+/**
+ * Load a gazetteer geocoder from GeoNames files on disk
+ * @param admin1Path Optional region names; without them places have no region
+ */
+export function loadGazetteerGeocoder(path: string, admin1Path: string | null, maxDistanceKm: number): ReverseGeocoder {
+  const admin1Names = admin1Path ? parseAdmin1Codes(readFileSync(admin1Path, 'utf8')) : new Map<string, string>();
+  const places = parseGeoNamesCities(readFileSync(path, 'utf8'), admin1Names);
+  return createGazetteerGeocoder(places, maxDistanceKm);
+}
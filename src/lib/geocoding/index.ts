@@ -0,0 +1,121 @@
+/**
+ * Geocoding: formatted address parsing and reverse geocoding of locations
+ * The reverse geocoder is chosen from configuration (currently the offline gazetteer) and
+ * cached by rounded coordinate, so a parked device does not repeat lookups.
+ */
+
+import { config } from '@/lib/config';
+import { GEOCODING } from '@/lib/constants';
+import { logger } from '@/lib/logger';
+import { PaxafeAddress, PaxafeLocationPayload } from '@/types/paxafe';
+import { parseFormattedAddress } from './address-parser';
+import { loadGazetteerGeocoder } from './gazetteer';
+import type { GeocodedPlace, ReverseGeocoder } from './types';
+
+export { parseFormattedAddress, findCountryCode, getCountryName } from './address-parser';
+export { createGazetteerGeocoder, parseGeoNamesCities, parseAdmin1Codes } from './gazetteer';
+export type { GazetteerPlace } from './gazetteer';
+export type { GeocodedPlace, ReverseGeocoder } from './types';
+
+/**
+ * Wrap a geocoder with a least-recently-used cache keyed by the rounded coordinate
+ * Places not found are cached too; failed lookups are not.
+ */
+export function withCoordinateCache(
+  geocoder: ReverseGeocoder,
+  maxEntries: number = GEOCODING.CACHE_MAX_ENTRIES
+): ReverseGeocoder {
+  const cache = new Map<string, GeocodedPlace | null>();
+
+  return {
+    name: geocoder.name,
+    async reverse(latitude: number, longitude: number): Promise<GeocodedPlace | null> {
+      const key = `${latitude.toFixed(GEOCODING.CACHE_COORDINATE_DECIMALS)},${longitude.toFixed(GEOCODING.CACHE_COORDINATE_DECIMALS)}`;
+      if (cache.has(key)) {
+        const cached = cache.get(key)!;
+        // Move to the most recently used end
+        cache.delete(key);
+        cache.set(key, cached);
+        return cached;
+      }
+
+      const place = await geocoder.reverse(latitude, longitude);
+      cache.set(key, place);
+      if (cache.size > maxEntries) {
+        cache.delete(cache.keys().next().value!);
+      }
+      return place;
+    },
+  };
+}
+
+let reverseGeocoder: ReverseGeocoder | null | undefined;
+
+/**
+ * Configured reverse geocoder, loaded on first use (null when none is configured)
+ * A gazetteer that fails to load is logged and not retried until the process restarts.
+ */
+export function getReverseGeocoder(): ReverseGeocoder | null {
+  if (reverseGeocoder !== undefined) {
+    return reverseGeocoder;
+  }
+
+  reverseGeocoder = null;
+  if (config.geocoding) {
+    try {
+      const { gazetteerPath, admin1Path, maxDistanceKm } = config.geocoding;
+      reverseGeocoder = withCoordinateCache(loadGazetteerGeocoder(gazetteerPath, admin1Path, maxDistanceKm));
+      logger.info('Gazetteer loaded for reverse geocoding', { gazetteerPath });
+    } catch (error) {
+      logger.error('Failed to load gazetteer - reverse geocoding disabled', {
+        error: error instanceof Error ? error.message : 'Unknown',
+        gazetteerPath: config.geocoding.gazetteerPath,
+      });
+    }
+  }
+  return reverseGeocoder;
+}
+
+/**
+ * Address of a location from its formatted address and coordinates
+ * The formatted address is parsed with the country of the coordinates as a hint, and the
+ * locality, region and country it lacks are filled from reverse geocoding. A location without
+ * a formatted address gets one composed from the geocoded place. Geocoding failures are
+ * logged and leave the parsed address as it is.
+ */
+export async function geocodeLocationAddress(
+  location: PaxafeLocationPayload,
+  geocoder: ReverseGeocoder | null = getReverseGeocoder()
+): Promise<PaxafeAddress | null> {
+  const formattedAddress = location.address?.full_address ?? null;
+
+  let place: GeocodedPlace | null = null;
+  if (geocoder) {
+    try {
+      place = await geocoder.reverse(location.latitude, location.longitude);
+    } catch (error) {
+      logger.warn('Reverse geocoding failed', {
+        error: error instanceof Error ? error.message : 'Unknown',
+        geocoder: geocoder.name,
+        device_imei: location.device_imei,
+      });
+    }
+  }
+
+  const parsed = formattedAddress ? parseFormattedAddress(formattedAddress, place?.countryCode ?? null) : null;
+  if (!place) {
+    return parsed ?? location.address;
+  }
+
+  const locality = parsed?.locality ?? place.locality;
+  const state = parsed?.state ?? place.region;
+  const country = parsed?.country ?? place.country;
+  return {
+    street: parsed?.street ?? null,
+    locality,
+    state,
+    country,
+    postal_code: parsed?.postal_code ?? null,
+    full_address: formattedAddress ?? ([locality, state, country].filter(Boolean).join(', ') || null),
+  };
+}
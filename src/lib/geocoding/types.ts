@@ -0,0 +1,23 @@
+/**
+ * Shared types for geocoding providers
+ */
+
+/**
+ * Place at a coordinate, as far as a provider can tell
+ */
+export interface GeocodedPlace {
+  locality: string | null; // City, town or village
+  region: string | null; // State, province or other first-level region
+  country: string | null; // English country name
+  countryCode: string | null; // ISO 3166-1 alpha-2
+  distanceMeters: number | null; // From the coordinate to the matched place (null = not applicable)
+}
+
+/**
+ * Reverse geocoding provider: resolves coordinates to a place
+ * Implementations return null when they know no place near the coordinate
+ */
+export interface ReverseGeocoder {
+  name: string;
+  reverse(latitude: number, longitude: number): Promise<GeocodedPlace | null>;
+}
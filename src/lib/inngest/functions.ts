@@ -2,32 +2,113 @@
  * Inngest functions for processing webhook payloads
  */
 
+import { NonRetriableError } from 'inngest';
 import { inngest } from './client';
-import { transformToSensorPayload, transformToLocationPayload } from '@/lib/transformers/tive-to-paxafe';
-import { saveTelemetry, saveLocation, updateRawPayloadStatus, updateDeviceLatestReferences } from '@/lib/db';
+import {
+  transformToSensorPayload,
+  transformToLocationPayload,
+  transformToShipmentPayload,
+} from '@/lib/transformers/tive-to-paxafe';
+import { applySensorDerivations } from '@/lib/transformers/sensor-derivations';
+import { geocodeLocationAddress } from '@/lib/geocoding';
+import {
+  saveTelemetry,
+  saveLocation,
+  upsertShipment,
+  updateRawPayloadStatus,
+  updateDeviceLatestReferences,
+  updateDeviceLatestDerived,
+  updateDeviceLatestMovement,
+  updateDeviceLatestAddress,
+  getDerivationContext,
+  getRawPayloadsByIds,
+  updateRawPayloadInngestEventId,
+  recomputeTemperatureExcursions,
+  recomputeShockEvents,
+  recordLocationMovement,
+  ensureShipmentGeofences,
+  evaluateGeofences,
+  getDeviceShipmentIds,
+  findAlertForDelivery,
+  recordAlertDelivery,
+  scanDeviceConnectivity,
+  markDeviceReporting,
+  updateDeviceBatteryForecast,
+} from '@/lib/db';
+import type { ConnectivityTransition } from '@/lib/db';
+import {
+  reprocessRawPayload,
+  recomputeReprocessedScopes,
+  countOutcomes,
+  ReprocessOutcome,
+  ReprocessScope,
+} from '@/lib/reprocess';
+import { evaluateReadingAlerts, evaluateShockAlerts, checkNoDataAlerts, AlertChange } from '@/lib/alerts/engine';
+import {
+  sendAlertNotification,
+  getChannelTarget,
+  ChannelConfigurationError,
+  AlertEvent,
+  AlertNotification,
+} from '@/lib/alerts/channels';
+import type { AlertChannelConfig, AlertShockEvent } from '@/lib/alerts/rules';
+import type { ShockKind, ShockSeverity } from '@/lib/analytics/shocks';
+import { config } from '@/lib/config';
 import { TivePayload } from '@/types/tive';
 import { logger } from '@/lib/logger';
 
+/**
+ * Event that delivers one opened or resolved alert to its rule's channels
+ */
+function toDeliveryEvent(change: AlertChange) {
+  return {
+    name: 'alerts/alert.deliver' as const,
+    data: { alert_id: change.alertId, event: change.event },
+  };
+}
+
+/**
+ * Event announcing a change of a device's connectivity status
+ */
+function toConnectivityEvent(transition: ConnectivityTransition) {
+  return {
+    name: 'device/connectivity.changed' as const,
+    data: {
+      device_imei: transition.deviceImei,
+      tenant_id: transition.tenantId,
+      from: transition.from,
+      to: transition.to,
+      ts: transition.ts,
+      last_reading_ts: transition.lastReadingTs,
+      expected_interval_ms: transition.expectedIntervalMs,
+    },
+  };
+}
+
 /**
  * Process Tive webhook payload
  * Handles transformation and storage of normalized data
  * Inngest automatically handles retries and DLQ
+ * Runs at most once per payload fingerprint so replayed events cannot double-insert
  */
 export const processTiveWebhook = inngest.createFunction(
   {
     id: 'process-tive-webhook',
     name: 'Process Tive Webhook',
     retries: 3, // Inngest handles retries with exponential backoff
+    idempotency: 'event.data.fingerprint',
   },
   { event: 'webhook/tive.process' },
   async ({ event, step }) => {
-    const { raw_id, payload } = event.data as {
+    const { raw_id, payload, tenant_id } = event.data as {
       raw_id: number;
       payload: TivePayload;
+      fingerprint: string;
+      tenant_id?: number | null;
     };
 
     // Step 1: Transform to PAXAFE formats
-    const sensorPayload = await step.run('transform-sensor', async () => {
+    const transformedSensorPayload = await step.run('transform-sensor', async () => {
       try {
         return transformToSensorPayload(payload);
       } catch (error) {
@@ -35,21 +116,59 @@ export const processTiveWebhook = inngest.createFunction(
       }
     });
 
+    // Fill in tilt and box_open the provider does not report (uses the device's calibration
+    // and the box state of its previous reading)
+    const sensorPayload = await step.run('derive-sensor-values', async () => {
+      try {
+        const derivationContext = await getDerivationContext(
+          transformedSensorPayload.device_imei,
+          transformedSensorPayload.timestamp
+        );
+        return applySensorDerivations(transformedSensorPayload, derivationContext);
+      } catch (error) {
+        throw new Error(`Sensor derivation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    });
+
+    // The address is parsed from FormattedAddress and completed by reverse geocoding
     const locationPayload = await step.run('transform-location', async () => {
       try {
-        return transformToLocationPayload(payload);
+        const transformedLocationPayload = transformToLocationPayload(payload);
+        return {
+          ...transformedLocationPayload,
+          address: await geocodeLocationAddress(transformedLocationPayload),
+        };
       } catch (error) {
         throw new Error(`Location transformation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
       }
     });
 
-    // Step 2: Store normalized data in separate tables and get IDs
+    // Step 2: Upsert the shipment and the device assignment (readings without a shipment skip this)
+    // and keep its origin/destination geofences in line with the ShipFrom/ShipTo coordinates
+    const shipmentId = await step.run('upsert-shipment', async () => {
+      const shipmentPayload = transformToShipmentPayload(payload);
+      if (!shipmentPayload) {
+        return null;
+      }
+
+      try {
+        const id = await upsertShipment(shipmentPayload, tenant_id ?? null);
+        await ensureShipmentGeofences(id);
+        return id;
+      } catch (error) {
+        throw new Error(`Shipment upsert failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    });
+
+    const context = { tenantId: tenant_id ?? null, shipmentId, rawPayloadId: raw_id };
+
+    // Step 3: Store normalized data in separate tables and get IDs
     // All events are saved asynchronously (critical fields already updated synchronously in webhook)
     const { telemetryId, locationId } = await step.run('save-normalized-data', async () => {
       try {
         const [telemetryId, locationId] = await Promise.all([
-          saveTelemetry(sensorPayload),
-          saveLocation(locationPayload),
+          saveTelemetry(sensorPayload, context),
+          saveLocation(locationPayload, context),
         ]);
         return { telemetryId, locationId };
       } catch (error) {
@@ -57,16 +176,122 @@ export const processTiveWebhook = inngest.createFunction(
       }
     });
 
-    // Step 3: Update device_latest references asynchronously
+    // Step 4: Open, extend or close temperature excursions
+    // Recomputed from the readings around this one (in timestamp order), so a late reading
+    // lands in the right place instead of being treated as the newest one
+    const excursions = await step.run('detect-temperature-excursions', async () => {
+      // Skipped when neither channel was reported; the recompute reads the device's primary channel
+      if (sensorPayload.temperature === null && sensorPayload.probe_temperature === null) {
+        return null;
+      }
+
+      try {
+        return await recomputeTemperatureExcursions(sensorPayload.device_imei, shipmentId, sensorPayload.timestamp);
+      } catch (error) {
+        throw new Error(`Excursion detection failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    });
+
+    // Step 5: Group accelerometer spikes into shock and drop events
+    // Same windowed recompute as excursions; skipped when the reading cannot change any event
+    const shocks = await step.run('detect-shock-events', async () => {
+      const magnitude = sensorPayload.accelerometer?.magnitude ?? null;
+      if (magnitude === null) {
+        return null;
+      }
+
+      try {
+        const result = await recomputeShockEvents(sensorPayload.device_imei, shipmentId, config.shock, {
+          ts: sensorPayload.timestamp,
+          magnitude,
+        });
+        const created: AlertShockEvent[] = result.created.map((shock) => ({
+          id: shock.id,
+          kind: shock.kind as ShockKind,
+          severity: shock.severity as ShockSeverity,
+          startTs: Number(shock.startTs),
+          peakMagnitude: Number(shock.peakMagnitude),
+        }));
+        return { created, updated: result.updated, removed: result.removed };
+      } catch (error) {
+        throw new Error(`Shock detection failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    });
+
+    // Step 6: Distance, speed and movement state from the device's previous fix
+    // Incremental: only this fix (and the next one, for a late fix) is computed
+    const movement = await step.run('compute-movement', async () => {
+      try {
+        return await recordLocationMovement(
+          {
+            id: locationId,
+            deviceImei: locationPayload.device_imei,
+            shipmentId,
+            ts: locationPayload.timestamp,
+            latitude: locationPayload.latitude,
+            longitude: locationPayload.longitude,
+            accuracyMeters: locationPayload.location_accuracy ?? null,
+          },
+          config.movement
+        );
+      } catch (error) {
+        throw new Error(`Movement computation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    });
+
+    // Step 7: Emit geofence enter, exit and dwell events (sets shipment departure/arrival)
+    // Implausible jumps are not evaluated, so a stray cell fix cannot fake an exit
+    const geofences = await step.run('evaluate-geofences', async () => {
+      if (movement.state === 'implausible') {
+        return { events: 0, departed: false, arrived: false };
+      }
+
+      try {
+        const result = await evaluateGeofences(
+          {
+            deviceImei: locationPayload.device_imei,
+            ts: locationPayload.timestamp,
+            latitude: locationPayload.latitude,
+            longitude: locationPayload.longitude,
+          },
+          context
+        );
+        return { events: result.events.length, departed: result.departed, arrived: result.arrived };
+      } catch (error) {
+        throw new Error(`Geofence evaluation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    });
+
+    // Step 8: Evaluate alert rules and hand opened/resolved alerts to delivery
+    const alertChanges = await step.run('evaluate-alert-rules', async () => {
+      try {
+        const changes = await evaluateReadingAlerts(sensorPayload, locationPayload, context);
+        const shockChanges = await evaluateShockAlerts(sensorPayload.device_imei, shocks?.created ?? [], context);
+        return [...changes, ...shockChanges];
+      } catch (error) {
+        throw new Error(`Alert evaluation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    });
+
+    if (alertChanges.length > 0) {
+      await step.sendEvent('deliver-alerts', alertChanges.map(toDeliveryEvent));
+    }
+
+    // Step 9: Update device_latest references, derived values, movement and address asynchronously
     // Critical fields are already updated synchronously in webhook handler
     // This updates the references to telemetry/locations for consistency and audit trail
+    // References only move forward, so late readings stay in history without becoming "latest"
     await step.run('update-device-latest-references', async () => {
       try {
         await updateDeviceLatestReferences(
           sensorPayload.device_imei,
           telemetryId,
-          locationId
+          locationId,
+          sensorPayload.timestamp
         );
+        await updateDeviceLatestDerived(sensorPayload.device_imei, sensorPayload.timestamp, sensorPayload);
+        await updateDeviceLatestMovement(locationPayload.device_imei, locationPayload.timestamp, movement);
+        await updateDeviceLatestAddress(locationPayload.device_imei, locationPayload.timestamp, locationPayload.address);
       } catch (error) {
         // Non-critical, log but don't fail
         logger.error('Failed to update device_latest references (async)', {
@@ -77,7 +302,46 @@ export const processTiveWebhook = inngest.createFunction(
       }
     });
 
-    // Step 4: Update raw payload status
+    // Step 10: Bring a late or offline device back online
+    const reconnected = await step.run('restore-device-connectivity', async () => {
+      try {
+        return await markDeviceReporting(sensorPayload.device_imei, sensorPayload.timestamp);
+      } catch (error) {
+        // Non-critical: the scheduled check brings the device back online
+        logger.error('Failed to restore device connectivity', {
+          error: error instanceof Error ? error.message : 'Unknown',
+          device_imei: sensorPayload.device_imei,
+          raw_id,
+        });
+        return null;
+      }
+    });
+
+    if (reconnected) {
+      await step.sendEvent('announce-connectivity', toConnectivityEvent(reconnected));
+    }
+
+    // Step 11: Forecast when the battery will be empty (and whether before the shipment arrives)
+    const batteryForecast = await step.run('forecast-battery', async () => {
+      if (locationPayload.battery_level === null) {
+        return null;
+      }
+
+      try {
+        const forecast = await updateDeviceBatteryForecast(locationPayload.device_imei);
+        return forecast?.status ?? null;
+      } catch (error) {
+        // Non-critical: the forecast is refreshed with the device's next reading
+        logger.error('Failed to forecast battery', {
+          error: error instanceof Error ? error.message : 'Unknown',
+          device_imei: locationPayload.device_imei,
+          raw_id,
+        });
+        return null;
+      }
+    });
+
+    // Step 12: Update raw payload status
     await step.run('update-raw-status', async () => {
       try {
         await updateRawPayloadStatus(raw_id, 'completed');
@@ -94,8 +358,328 @@ export const processTiveWebhook = inngest.createFunction(
       success: true,
       raw_id,
       device_imei: sensorPayload.device_imei,
+      shipment_id: shipmentId,
+      open_excursions: excursions?.open ?? 0,
+      shock_events: shocks?.created.length ?? 0,
+      movement: movement.state,
+      geofence_events: geofences.events,
+      alerts: alertChanges.length,
+      battery_forecast: batteryForecast,
       timestamp: sensorPayload.timestamp,
     };
   }
 );
 
+
+/**
+ * Process a batch of Tive webhook payloads
+ * The batch event only carries raw payload ids (keeps the event small); the payloads
+ * are loaded from raw_webhook_payloads and fanned out as individual
+ * webhook/tive.process events so each reading runs through the same pipeline.
+ */
+export const processTiveWebhookBatch = inngest.createFunction(
+  {
+    id: 'process-tive-webhook-batch',
+    name: 'Process Tive Webhook Batch',
+    retries: 3,
+  },
+  { event: 'webhook/tive.process-batch' },
+  async ({ event, step }) => {
+    const { raw_ids } = event.data as { raw_ids: number[] };
+
+    const rawPayloads = await step.run('load-raw-payloads', async () => {
+      return await getRawPayloadsByIds(raw_ids);
+    });
+
+    if (rawPayloads.length === 0) {
+      return { success: true, count: 0 };
+    }
+
+    // Event ids are the payload fingerprints, so re-running this step cannot double-process
+    const { ids } = await step.sendEvent(
+      'fan-out-payloads',
+      rawPayloads.map((raw) => ({
+        id: raw.fingerprint ?? undefined,
+        name: 'webhook/tive.process',
+        data: {
+          raw_id: raw.id,
+          payload: raw.payload as unknown as TivePayload,
+          fingerprint: raw.fingerprint,
+          tenant_id: raw.tenantId,
+          timestamp: Date.now(),
+        },
+      }))
+    );
+
+    await step.run('update-raw-event-ids', async () => {
+      await Promise.all(
+        rawPayloads.map((raw, index) =>
+          ids[index]
+            ? updateRawPayloadInngestEventId(raw.id, ids[index]).catch((error) => {
+                // Non-critical, log but don't fail
+                logger.error('Failed to update Inngest event ID', {
+                  error: error instanceof Error ? error.message : 'Unknown',
+                  raw_id: raw.id,
+                });
+              })
+            : Promise.resolve()
+        )
+      );
+    });
+
+    return {
+      success: true,
+      count: rawPayloads.length,
+    };
+  }
+);
+
+
+/**
+ * Reprocess stored raw payloads through validation, transformation and storage
+ * Sent by POST /api/admin/payloads/reprocess with the payload ids in reading order.
+ * Each payload is its own step, so a retry does not rewrite the payloads already done;
+ * excursions, shock events and battery forecasts are recomputed once at the end.
+ */
+export const reprocessTivePayloads = inngest.createFunction(
+  {
+    id: 'reprocess-tive-payloads',
+    name: 'Reprocess Tive Payloads',
+    retries: 3,
+  },
+  { event: 'admin/payloads.reprocess' },
+  async ({ event, step }) => {
+    const { raw_ids } = event.data as { raw_ids: number[] };
+
+    const results: Array<{ outcome: ReprocessOutcome }> = [];
+    const scopes: ReprocessScope[] = [];
+    for (const rawId of raw_ids) {
+      const processed = await step.run(`reprocess-${rawId}`, async () => {
+        const [raw] = await getRawPayloadsByIds([rawId]);
+        if (!raw) {
+          return null;
+        }
+        const { result, scopes } = await reprocessRawPayload(raw, { dryRun: false });
+        return { outcome: result.outcome, scopes };
+      });
+      if (processed) {
+        results.push({ outcome: processed.outcome });
+        scopes.push(...processed.scopes);
+      }
+    }
+
+    if (scopes.length > 0) {
+      await step.run('recompute-derived', async () => {
+        await recomputeReprocessedScopes(scopes);
+      });
+    }
+
+    return {
+      success: true,
+      count: results.length,
+      ...countOutcomes(results),
+    };
+  }
+);
+
+
+/**
+ * Recompute the temperature excursions of a device
+ * Sent when a temperature profile is assigned to a device or shipment, or when a device's
+ * primary temperature channel changes.
+ * With shipment_id only that shipment is recomputed; without it, all of the device's
+ * shipments and its readings without a shipment are.
+ */
+export const recomputeDeviceExcursions = inngest.createFunction(
+  {
+    id: 'recompute-temperature-excursions',
+    name: 'Recompute Temperature Excursions',
+    retries: 3,
+  },
+  { event: 'temperature/excursions.recompute' },
+  async ({ event, step }) => {
+    const { device_imei, shipment_id } = event.data as {
+      device_imei: string;
+      shipment_id?: number | null;
+    };
+
+    const shipmentIds = shipment_id !== undefined
+      ? [shipment_id]
+      : await step.run('load-device-shipments', async () => [null, ...(await getDeviceShipmentIds(device_imei))]);
+
+    let open = 0;
+    for (const shipmentId of shipmentIds) {
+      const result = await step.run(`recompute-${shipmentId ?? 'unassigned'}`, async () => {
+        return await recomputeTemperatureExcursions(device_imei, shipmentId);
+      });
+      open += result.open;
+    }
+
+    return {
+      success: true,
+      device_imei,
+      shipments: shipmentIds.length,
+      open_excursions: open,
+    };
+  }
+);
+
+
+/**
+ * Recompute the battery forecast of a device
+ * Sent when the planned arrival of a shipment changes, for each device on it
+ */
+export const recomputeBatteryForecast = inngest.createFunction(
+  {
+    id: 'recompute-battery-forecast',
+    name: 'Recompute Battery Forecast',
+    retries: 3,
+  },
+  { event: 'battery/forecast.recompute' },
+  async ({ event, step }) => {
+    const { device_imei } = event.data as { device_imei: string };
+
+    const forecast = await step.run('forecast-battery', async () => {
+      return await updateDeviceBatteryForecast(device_imei);
+    });
+
+    return {
+      success: true,
+      device_imei,
+      status: forecast?.status ?? null,
+    };
+  }
+);
+
+
+/**
+ * Deliver an alert notification to every channel of its rule
+ * Each channel is its own step, so a failing channel is retried without re-sending
+ * to the channels that already succeeded. Every attempt is recorded in alert_deliveries.
+ */
+export const deliverAlert = inngest.createFunction(
+  {
+    id: 'deliver-alert',
+    name: 'Deliver Alert',
+    retries: 5,
+  },
+  { event: 'alerts/alert.deliver' },
+  async ({ event, step }) => {
+    const { alert_id, event: alertEvent } = event.data as { alert_id: number; event: AlertEvent };
+
+    const notification = await step.run('load-alert', async () => {
+      const alert = await findAlertForDelivery(alert_id);
+      if (!alert) {
+        return null;
+      }
+      return {
+        channels: alert.rule.channels as unknown as AlertChannelConfig[],
+        payload: {
+          alert_id: alert.id,
+          event: alertEvent,
+          rule_id: alert.rule.id,
+          rule_name: alert.rule.name,
+          type: alert.type,
+          severity: alert.severity,
+          status: alert.status,
+          device_imei: alert.deviceImei,
+          shipment_id: alert.shipmentId,
+          message: alert.message,
+          value: alert.value !== null ? Number(alert.value) : null,
+          first_triggered_ts: Number(alert.firstTriggeredTs),
+          last_triggered_ts: Number(alert.lastTriggeredTs),
+          occurrence_count: alert.occurrenceCount,
+          sent_at: Date.now(),
+        } as AlertNotification,
+      };
+    });
+
+    if (!notification) {
+      return { success: false, alert_id, reason: 'Alert not found' };
+    }
+
+    for (let index = 0; index < notification.channels.length; index++) {
+      const channel = notification.channels[index];
+      await step.run(`deliver-${index}-${channel.type}`, async () => {
+        const delivery = { alertId: alert_id, event: alertEvent, channel: channel.type, target: getChannelTarget(channel) };
+
+        try {
+          await sendAlertNotification(channel, notification.payload);
+          await recordAlertDelivery(delivery, null);
+        } catch (error) {
+          const message = error instanceof Error ? error.message : 'Unknown error';
+          await recordAlertDelivery(delivery, message);
+          logger.error('Alert delivery failed', { ...delivery, error: message });
+
+          if (error instanceof ChannelConfigurationError) {
+            throw new NonRetriableError(message);
+          }
+          throw new Error(`Alert delivery failed: ${message}`);
+        }
+      });
+    }
+
+    return {
+      success: true,
+      alert_id,
+      channels: notification.channels.length,
+    };
+  }
+);
+
+
+/**
+ * Scheduled no-data check
+ * Opens no-data alerts for devices that have not reported within their rule's window
+ */
+export const checkNoDataAlertRules = inngest.createFunction(
+  {
+    id: 'check-no-data-alerts',
+    name: 'Check No-Data Alerts',
+    retries: 1,
+  },
+  { cron: '*/5 * * * *' },
+  async ({ step }) => {
+    const changes = await step.run('check-silent-devices', async () => {
+      return await checkNoDataAlerts();
+    });
+
+    if (changes.length > 0) {
+      await step.sendEvent('deliver-alerts', changes.map(toDeliveryEvent));
+    }
+
+    return { success: true, opened: changes.length };
+  }
+);
+
+
+/**
+ * Scheduled connectivity check
+ * Marks devices late or offline when they exceed their expected reporting interval (configured
+ * per device or learned from their recent cadence) and announces every transition as a
+ * device/connectivity.changed event
+ */
+export const checkDeviceConnectivity = inngest.createFunction(
+  {
+    id: 'check-device-connectivity',
+    name: 'Check Device Connectivity',
+    retries: 1,
+  },
+  { cron: '*/5 * * * *' },
+  async ({ step }) => {
+    const transitions = await step.run('scan-device-connectivity', async () => {
+      return await scanDeviceConnectivity(Date.now(), config.connectivity);
+    });
+
+    if (transitions.length > 0) {
+      await step.sendEvent('announce-connectivity', transitions.map(toConnectivityEvent));
+    }
+
+    return {
+      success: true,
+      late: transitions.filter((transition) => transition.to === 'late').length,
+      offline: transitions.filter((transition) => transition.to === 'offline').length,
+      online: transitions.filter((transition) => transition.to === 'online').length,
+    };
+  }
+);
@@ -5,6 +5,7 @@
 
 import { logger } from '@/lib/logger';
 import { config } from '@/lib/config';
+import { createHmacSignature } from '@/lib/utils/hmac';
 
 export interface TiveErrorNotification {
   payload_id: string;
@@ -21,10 +22,7 @@ export interface TiveErrorNotification {
  */
 function generateSignature(payload: TiveErrorNotification): string {
   const secret = process.env.TIVE_WEBHOOK_SECRET || '';
-  const crypto = require('crypto');
-  const hmac = crypto.createHmac('sha256', secret);
-  hmac.update(JSON.stringify(payload));
-  return hmac.digest('hex');
+  return createHmacSignature(secret, JSON.stringify(payload));
 }
 
 /**
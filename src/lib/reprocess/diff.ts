@@ -0,0 +1,47 @@
+/**
+ * Column diff between a stored row and the row a reprocessed payload produces
+ * Pure functions: no database access
+ */
+
+export interface ColumnChange {
+  column: string;
+  before: unknown; // null when the row does not exist yet
+  after: unknown;
+}
+
+/**
+ * Comparable JSON value of a Prisma column (Decimal and BigInt as numbers, dates as ISO strings)
+ */
+function normalize(value: unknown): unknown {
+  if (value === undefined || value === null) return null;
+  if (typeof value === 'bigint') return Number(value);
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'object' && 'toNumber' in value && typeof value.toNumber === 'function') {
+    return (value as { toNumber: () => number }).toNumber();
+  }
+  return value;
+}
+
+/**
+ * Columns of `next` whose value differs from `current`
+ * @param current Stored row (null = not stored yet: every non-null column is a change)
+ * @param next Columns the reprocessed payload would write
+ * @param ignore Columns left out of the comparison
+ */
+export function diffColumns(
+  current: Record<string, unknown> | null,
+  next: Record<string, unknown>,
+  ignore: readonly string[] = []
+): ColumnChange[] {
+  const changes: ColumnChange[] = [];
+  for (const column of Object.keys(next)) {
+    if (ignore.includes(column)) continue;
+
+    const before = current ? normalize(current[column]) : null;
+    const after = normalize(next[column]);
+    if (JSON.stringify(before) !== JSON.stringify(after)) {
+      changes.push({ column, before, after });
+    }
+  }
+  return changes;
+}
@@ -0,0 +1,270 @@
+/**
+ * Reprocessing of stored raw webhook payloads
+ * Runs raw_webhook_payloads through validation, the Tive transformers and storage again, e.g.
+ * after fixing a transformer or changing thresholds. Readings already stored from a payload are
+ * rewritten in place (their ids stay stable); a dry run computes the same diff without writing.
+ *
+ * Excursions, shock events and battery forecasts are recomputed once per device and shipment
+ * after the payloads are rewritten. Alerts and geofence events are not re-evaluated: they record
+ * what was known when the reading arrived, and a replay must not notify again.
+ */
+
+import {
+  transformToSensorPayload,
+  transformToLocationPayload,
+  transformToShipmentPayload,
+} from '@/lib/transformers/tive-to-paxafe';
+import { applySensorDerivations } from '@/lib/transformers/sensor-derivations';
+import { geocodeLocationAddress } from '@/lib/geocoding';
+import { validateTivePayload, ValidationError } from '@/lib/validators/tive-validator';
+import {
+  findReadingsOfRawPayload,
+  getDerivationContext,
+  toTelemetryData,
+  toLocationData,
+  saveTelemetry,
+  saveLocation,
+  updateTelemetry,
+  updateLocation,
+  upsertShipment,
+  ensureShipmentGeofences,
+  recordLocationMovement,
+  updateDeviceLatestCritical,
+  refreshDeviceLatestCritical,
+  updateDeviceLatestReferences,
+  updateDeviceLatestDerived,
+  updateDeviceLatestMovement,
+  updateDeviceLatestAddress,
+  updateRawPayloadStatus,
+  recomputeTemperatureExcursions,
+  recomputeShockEvents,
+  updateDeviceBatteryForecast,
+} from '@/lib/db';
+import { config } from '@/lib/config';
+import { logger } from '@/lib/logger';
+import { TivePayload } from '@/types/tive';
+import { ColumnChange, diffColumns } from './diff';
+
+export type { ColumnChange } from './diff';
+
+/**
+ * What reprocessing did (or, in a dry run, would do) with a payload
+ * - created: no readings were stored from it yet (e.g. it failed before)
+ * - updated: its stored readings change
+ * - unchanged: its stored readings stay the same
+ * - invalid: it no longer passes validation; nothing is changed
+ * - failed: transformation or storage failed
+ */
+export type ReprocessOutcome = 'created' | 'updated' | 'unchanged' | 'invalid' | 'failed';
+
+export const REPROCESS_OUTCOMES: readonly ReprocessOutcome[] = ['created', 'updated', 'unchanged', 'invalid', 'failed'];
+
+// Stamped from the reprocessing context rather than the payload, so not compared
+const CONTEXT_COLUMNS = ['tenantId', 'shipmentId', 'rawPayloadId'] as const;
+
+export interface ReprocessPayload {
+  id: number;
+  payload: unknown; // Stored body (JSON)
+  tenantId: number | null;
+}
+
+export interface ReadingDiff {
+  id: number | null; // Stored row (null = not stored yet)
+  changes: ColumnChange[];
+}
+
+export interface ReprocessResult {
+  rawPayloadId: number;
+  deviceImei: string | null;
+  ts: number | null;
+  outcome: ReprocessOutcome;
+  errors?: ValidationError[]; // invalid
+  error?: string; // failed
+  telemetry: ReadingDiff | null;
+  location: ReadingDiff | null;
+}
+
+/**
+ * Device and shipment whose derived tables need a recompute after reprocessing
+ */
+export interface ReprocessScope {
+  deviceImei: string;
+  shipmentId: number | null;
+}
+
+export interface ReprocessSummary {
+  dryRun: boolean;
+  counts: Record<ReprocessOutcome, number>;
+  results: ReprocessResult[];
+}
+
+/**
+ * Reprocess one raw payload
+ * @returns The result, and the scopes to recompute (none for a dry run)
+ */
+export async function reprocessRawPayload(
+  raw: ReprocessPayload,
+  options: { dryRun: boolean }
+): Promise<{ result: ReprocessResult; scopes: ReprocessScope[] }> {
+  const payload = raw.payload as TivePayload;
+  const base = {
+    rawPayloadId: raw.id,
+    deviceImei: typeof payload?.DeviceId === 'string' ? payload.DeviceId : null,
+    ts: typeof payload?.EntryTimeEpoch === 'number' ? payload.EntryTimeEpoch : null,
+    telemetry: null,
+    location: null,
+  };
+
+  const validation = validateTivePayload(payload ?? {});
+  if (!validation.valid) {
+    return { result: { ...base, outcome: 'invalid', errors: validation.errors }, scopes: [] };
+  }
+
+  try {
+    const transformedSensorPayload = transformToSensorPayload(payload);
+    const sensorPayload = applySensorDerivations(
+      transformedSensorPayload,
+      await getDerivationContext(transformedSensorPayload.device_imei, transformedSensorPayload.timestamp)
+    );
+    const transformedLocationPayload = transformToLocationPayload(payload);
+    const locationPayload = {
+      ...transformedLocationPayload,
+      address: await geocodeLocationAddress(transformedLocationPayload),
+    };
+    const deviceImei = sensorPayload.device_imei;
+    const ts = sensorPayload.timestamp;
+
+    const stored = await findReadingsOfRawPayload(raw.id, deviceImei, ts);
+    const telemetry: ReadingDiff = {
+      id: stored.telemetry?.id ?? null,
+      changes: diffColumns(stored.telemetry, toTelemetryData(sensorPayload), CONTEXT_COLUMNS),
+    };
+    const location: ReadingDiff = {
+      id: stored.location?.id ?? null,
+      changes: diffColumns(stored.location, toLocationData(locationPayload), CONTEXT_COLUMNS),
+    };
+    const outcome: ReprocessOutcome = !stored.telemetry && !stored.location
+      ? 'created'
+      : telemetry.changes.length + location.changes.length > 0 ? 'updated' : 'unchanged';
+    const result: ReprocessResult = { ...base, deviceImei, ts, outcome, telemetry, location };
+
+    if (options.dryRun) {
+      return { result, scopes: [] };
+    }
+
+    // Same storage as the processing pipeline, rewriting the rows stored from the payload
+    const shipmentPayload = transformToShipmentPayload(payload);
+    let shipmentId: number | null = null;
+    if (shipmentPayload) {
+      shipmentId = await upsertShipment(shipmentPayload, raw.tenantId);
+      await ensureShipmentGeofences(shipmentId);
+    }
+
+    const context = { tenantId: raw.tenantId, shipmentId, rawPayloadId: raw.id };
+    let telemetryId: number;
+    if (stored.telemetry) {
+      telemetryId = stored.telemetry.id;
+      await updateTelemetry(telemetryId, sensorPayload, context);
+    } else {
+      telemetryId = await saveTelemetry(sensorPayload, context);
+    }
+    let locationId: number;
+    if (stored.location) {
+      locationId = stored.location.id;
+      await updateLocation(locationId, locationPayload, context);
+    } else {
+      locationId = await saveLocation(locationPayload, context);
+    }
+
+    const movement = await recordLocationMovement(
+      {
+        id: locationId,
+        deviceImei,
+        shipmentId,
+        ts,
+        latitude: locationPayload.latitude,
+        longitude: locationPayload.longitude,
+        accuracyMeters: locationPayload.location_accuracy ?? null,
+      },
+      config.movement
+    );
+
+    // device_latest only changes when this is the device's latest reading. A reading stored for
+    // the first time moves it forward like a new arrival (creating it for an unseen device);
+    // a rewritten one only refreshes it when it already is the latest.
+    if (outcome === 'created') {
+      await updateDeviceLatestCritical(deviceImei, sensorPayload.device_id, ts, sensorPayload, locationPayload, raw.tenantId);
+    } else {
+      await refreshDeviceLatestCritical(deviceImei, sensorPayload.device_id, ts, sensorPayload, locationPayload, raw.tenantId);
+    }
+    await updateDeviceLatestReferences(deviceImei, telemetryId, locationId, ts);
+    await updateDeviceLatestDerived(deviceImei, ts, sensorPayload);
+    await updateDeviceLatestMovement(deviceImei, ts, movement);
+    await updateDeviceLatestAddress(deviceImei, ts, locationPayload.address);
+
+    await updateRawPayloadStatus(raw.id, 'completed');
+
+    // A reading that moved to another shipment also changes the one it left
+    const shipmentIds = new Set<number | null>([shipmentId]);
+    if (stored.telemetry) shipmentIds.add(stored.telemetry.shipmentId);
+    if (stored.location) shipmentIds.add(stored.location.shipmentId);
+    return {
+      result,
+      scopes: Array.from(shipmentIds).map((id) => ({ deviceImei, shipmentId: id })),
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    logger.error('Error reprocessing raw payload', { error: message, raw_id: raw.id, dryRun: options.dryRun });
+
+    if (!options.dryRun) {
+      await updateRawPayloadStatus(raw.id, 'failed', `Reprocessing failed: ${message}`).catch(() => undefined);
+    }
+    return { result: { ...base, outcome: 'failed', error: message }, scopes: [] };
+  }
+}
+
+/**
+ * Recompute excursions and shock events of each device and shipment, and the battery forecast
+ * of each device, once for all reprocessed payloads
+ */
+export async function recomputeReprocessedScopes(scopes: ReprocessScope[]): Promise<void> {
+  const unique = new Map(scopes.map((scope) => [`${scope.deviceImei}:${scope.shipmentId ?? 'none'}`, scope]));
+
+  for (const { deviceImei, shipmentId } of Array.from(unique.values())) {
+    await recomputeTemperatureExcursions(deviceImei, shipmentId);
+    await recomputeShockEvents(deviceImei, shipmentId, config.shock);
+  }
+  for (const deviceImei of Array.from(new Set(scopes.map((scope) => scope.deviceImei)))) {
+    await updateDeviceBatteryForecast(deviceImei);
+  }
+}
+
+/**
+ * Reprocess raw payloads one after another (in the given order), then recompute what they changed
+ */
+export async function reprocessRawPayloads(
+  payloads: ReprocessPayload[],
+  options: { dryRun: boolean }
+): Promise<ReprocessSummary> {
+  const results: ReprocessResult[] = [];
+  const scopes: ReprocessScope[] = [];
+  for (const raw of payloads) {
+    const processed = await reprocessRawPayload(raw, options);
+    results.push(processed.result);
+    scopes.push(...processed.scopes);
+  }
+
+  if (!options.dryRun) {
+    await recomputeReprocessedScopes(scopes);
+  }
+  return { dryRun: options.dryRun, counts: countOutcomes(results), results };
+}
+
+/**
+ * Number of payloads per outcome
+ */
+export function countOutcomes(results: Array<{ outcome: ReprocessOutcome }>): Record<ReprocessOutcome, number> {
+  const counts = Object.fromEntries(REPROCESS_OUTCOMES.map((outcome) => [outcome, 0])) as Record<ReprocessOutcome, number>;
+  results.forEach((result) => counts[result.outcome]++);
+  return counts;
+}
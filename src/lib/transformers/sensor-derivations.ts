@@ -0,0 +1,122 @@
+/**
+ * Derived sensor values for providers that do not report them natively
+ * Tilt angles come from the accelerometer's gravity vector, box_open from light level
+ * transitions against a per-device baseline. Values the provider reports are never overwritten.
+ */
+
+import { PaxafeSensorPayload } from '@/types/paxafe';
+import { DERIVATION, PRECISION } from '@/lib/constants';
+
+export type DerivedSensorField = 'tilt' | 'box_open';
+
+/**
+ * Per-device calibration (device_configs); null fields fall back to the defaults
+ */
+export interface DeviceCalibration {
+  luxBaseline: number | null; // Light inside the closed box
+  restOrientation: { x: number; y: number; z: number } | null; // Gravity vector when mounted upright
+}
+
+export interface DerivationContext {
+  calibration: DeviceCalibration | null;
+  previousBoxOpen: boolean | null; // box_open of the device's previous reading (null = unknown)
+}
+
+/**
+ * Derivation functions by field; a provider registers only the fields it lacks
+ */
+export type SensorDerivations = {
+  [K in DerivedSensorField]?: (payload: PaxafeSensorPayload, context: DerivationContext) => PaxafeSensorPayload[K];
+};
+
+export const DEFAULT_REST_ORIENTATION = { x: 0, y: 0, z: 1 }; // Flat, face up
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+function toDegrees(radians: number): number {
+  return round((radians * 180) / Math.PI, PRECISION.TILT);
+}
+
+/**
+ * Tilt from the accelerometer's gravity vector
+ * x, y, z: elevation of each axis above the horizontal plane (-90..90°; z = 90 when flat, face up)
+ * tilt: angle between the vector and the calibrated rest orientation (0..180°)
+ * @returns null without all three axes, or while the device is accelerating (shock, free fall)
+ */
+export function deriveTilt(
+  payload: PaxafeSensorPayload,
+  context: DerivationContext
+): PaxafeSensorPayload['tilt'] {
+  const x = payload.accelerometer?.x ?? null;
+  const y = payload.accelerometer?.y ?? null;
+  const z = payload.accelerometer?.z ?? null;
+  if (x === null || y === null || z === null) {
+    return null;
+  }
+
+  const norm = Math.sqrt(x * x + y * y + z * z);
+  if (norm < DERIVATION.MIN_GRAVITY_G || norm > DERIVATION.MAX_GRAVITY_G) {
+    return null;
+  }
+
+  const rest = context.calibration?.restOrientation ?? DEFAULT_REST_ORIENTATION;
+  const restNorm = Math.sqrt(rest.x * rest.x + rest.y * rest.y + rest.z * rest.z);
+  const cosine = (x * rest.x + y * rest.y + z * rest.z) / (norm * restNorm);
+
+  return {
+    x: toDegrees(Math.asin(x / norm)),
+    y: toDegrees(Math.asin(y / norm)),
+    z: toDegrees(Math.asin(z / norm)),
+    tilt: toDegrees(Math.acos(Math.min(1, Math.max(-1, cosine)))),
+  };
+}
+
+/**
+ * Whether the box is open, from the light level
+ * Opens when light rises BOX_OPEN_DELTA_LUX above the baseline and closes once it falls back to
+ * within BOX_CLOSED_DELTA_LUX; in between the previous state holds, so light near the threshold
+ * does not flap. Without a previous state the box counts as closed in that band.
+ */
+export function deriveBoxOpen(payload: PaxafeSensorPayload, context: DerivationContext): boolean | null {
+  if (payload.light_level === null) {
+    return null;
+  }
+
+  const baseline = context.calibration?.luxBaseline ?? DERIVATION.DEFAULT_LUX_BASELINE;
+  if (payload.light_level >= baseline + DERIVATION.BOX_OPEN_DELTA_LUX) {
+    return true;
+  }
+  if (payload.light_level <= baseline + DERIVATION.BOX_CLOSED_DELTA_LUX) {
+    return false;
+  }
+  return context.previousBoxOpen ?? false;
+}
+
+/**
+ * Derivations per provider (providers that report tilt or box_open natively register fewer)
+ */
+const PROVIDER_DERIVATIONS: Record<string, SensorDerivations> = {
+  Tive: { tilt: deriveTilt, box_open: deriveBoxOpen },
+};
+
+export function getSensorDerivations(provider: string): SensorDerivations {
+  return PROVIDER_DERIVATIONS[provider] ?? {};
+}
+
+/**
+ * Fill the derived fields the payload does not carry
+ */
+export function applySensorDerivations(
+  payload: PaxafeSensorPayload,
+  context: DerivationContext,
+  derivations: SensorDerivations = getSensorDerivations(payload.provider)
+): PaxafeSensorPayload {
+  return {
+    ...payload,
+    tilt: payload.tilt ?? derivations.tilt?.(payload, context) ?? null,
+    box_open: payload.box_open ?? derivations.box_open?.(payload, context) ?? null,
+  };
+}
@@ -3,8 +3,14 @@
  */
 
 import { TivePayload } from '@/types/tive';
-import { PaxafeSensorPayload, PaxafeLocationPayload } from '@/types/paxafe';
+import {
+  PaxafeSensorPayload,
+  PaxafeLocationPayload,
+  PaxafeShipmentPayload,
+  PaxafeShipmentEndpoint,
+} from '@/types/paxafe';
 import { ACCURACY_CATEGORIES } from '@/lib/constants';
+import { parseFormattedAddress } from '@/lib/geocoding/address-parser';
 
 /**
  * Normalize timestamp to milliseconds
@@ -29,6 +35,18 @@ export function transformToSensorPayload(tive: TivePayload): PaxafeSensorPayload
     ? Math.round(tive.Temperature.Celsius * 100) / 100
     : null;
 
+  // Fahrenheit as reported, 2 decimal places
+  const temperatureFahrenheit = tive.Temperature?.Fahrenheit !== null && tive.Temperature?.Fahrenheit !== undefined
+    ? Math.round(tive.Temperature.Fahrenheit * 100) / 100
+    : null;
+
+  // Probe temperature, 2 decimal places; Celsius is converted from Fahrenheit when only that is reported
+  const probeFahrenheit = tive.ProbeTemperature?.Fahrenheit ?? null;
+  const probeCelsius = tive.ProbeTemperature?.Celsius
+    ?? (probeFahrenheit !== null ? ((probeFahrenheit - 32) * 5) / 9 : null);
+  const probeTemperature = probeCelsius !== null ? Math.round(probeCelsius * 100) / 100 : null;
+  const probeTemperatureFahrenheit = probeFahrenheit !== null ? Math.round(probeFahrenheit * 100) / 100 : null;
+
   // Round humidity to 1 decimal place
   const humidity = tive.Humidity?.Percentage !== null && tive.Humidity?.Percentage !== undefined
     ? Math.round(tive.Humidity.Percentage * 10) / 10
@@ -62,11 +80,15 @@ export function transformToSensorPayload(tive: TivePayload): PaxafeSensorPayload
     provider: "Tive",
     type: "Active",
     temperature,
+    temperature_fahrenheit: temperatureFahrenheit,
+    probe_temperature: probeTemperature,
+    probe_temperature_fahrenheit: probeTemperatureFahrenheit,
     humidity,
     light_level: lightLevel,
     accelerometer,
-    tilt: null, // Not available from Tive
-    box_open: null, // Not available from Tive
+    tilt: null, // Not reported by Tive; derived from the accelerometer (see sensor-derivations)
+    box_open: null, // Not reported by Tive; derived from the light level (see sensor-derivations)
+    entity_name: tive.EntityName?.trim() || null,
   };
 }
 
@@ -102,8 +124,8 @@ export function transformToLocationPayload(tive: TivePayload): PaxafeLocationPay
     }
   }
 
-  // Parse address from FormattedAddress
-  const address = parseAddress(tive.Location.FormattedAddress);
+  // Parse address from FormattedAddress (reverse geocoding fills in the rest asynchronously)
+  const address = parseFormattedAddress(tive.Location.FormattedAddress);
 
   // Round cellular dBm to 2 decimal places
   const cellularDbm = tive.Cellular?.Dbm !== null && tive.Cellular?.Dbm !== undefined
@@ -122,102 +144,61 @@ export function transformToLocationPayload(tive: TivePayload): PaxafeLocationPay
     location_accuracy: accuracyMeters ? Math.round(accuracyMeters) : null,
     location_accuracy_category: accuracyCategory,
     location_source: locationSource,
+    geolocation_source: tive.Location.GeolocationSourceName?.trim() || null,
     address,
     battery_level: tive.Battery?.Percentage ?? null,
+    battery_estimation: tive.Battery?.Estimation ?? null,
+    battery_charging: tive.Battery?.IsCharging ?? null,
     cellular_dbm: cellularDbm,
+    cellular_signal_strength: tive.Cellular?.SignalStrength ?? null,
     cellular_network_type: null, // Not available from Tive
     cellular_operator: null, // Not available from Tive
     wifi_access_points: tive.Location.WifiAccessPointUsedCount ?? null,
+    cell_towers: tive.Location.CellTowerUsedCount ?? null,
   };
 }
 
 /**
- * Parse formatted address into components
- * Example: "114 Hunts Point Market, Bronx, NY 10474, USA"
- * 
- * Note: This is a simple parser. For production, consider using a geocoding API
- * like Mapbox or Google Geocoding API for more accurate parsing.
+ * Transform Tive shipment fields to PAXAFE shipment format
+ * Returns null when the reading is not attached to a shipment
+ * The shipment id is Shipment.Id, falling back to the top-level ShipmentId
  */
-function parseAddress(formattedAddress: string | null | undefined): {
-  street: string | null;
-  locality: string | null;
-  state: string | null;
-  country: string | null;
-  postal_code: string | null;
-  full_address: string | null;
-} {
-  if (!formattedAddress) {
-    return {
-      street: null,
-      locality: null,
-      state: null,
-      country: null,
-      postal_code: null,
-      full_address: null,
-    };
+export function transformToShipmentPayload(tive: TivePayload): PaxafeShipmentPayload | null {
+  const shipmentId = tive.Shipment?.Id?.trim() || tive.ShipmentId?.trim();
+  if (!shipmentId) {
+    return null;
   }
 
-  // Simple parsing - can be enhanced with geocoding API
-  const parts = formattedAddress.split(',').map(p => p.trim());
-  
-  let postalCode: string | null = null;
-  let state: string | null = null;
-  let locality: string | null = null;
-  let country: string | null = null;
-  let street: string | null = null;
-
-  if (parts.length >= 1) {
-    street = parts[0] || null;
-  }
-  
-  if (parts.length >= 2) {
-    locality = parts[1] || null;
-  }
+  return {
+    shipment_id: shipmentId,
+    public_shipment_id: tive.PublicShipmentId?.trim() || null,
+    provider: "Tive",
+    device_id: tive.DeviceName,
+    device_imei: tive.DeviceId,
+    timestamp: normalizeTimestamp(tive.EntryTimeEpoch),
+    description: tive.Shipment?.Description?.trim() || null,
+    carrier: tive.Shipment?.Carrier?.trim() || null,
+    ship_from: transformShipmentEndpoint(tive.Shipment?.ShipFrom),
+    ship_to: transformShipmentEndpoint(tive.Shipment?.ShipTo),
+  };
+}
 
-  if (parts.length >= 3) {
-    // Try to parse "ST ZIP" or "ST" or "ZIP"
-    const thirdPart = parts[2];
-    // Match "NY 10474" format
-    const stateZipMatch = thirdPart.match(/^([A-Z]{2})\s+(\d{5}(?:-\d{4})?)$/);
-    if (stateZipMatch) {
-      state = stateZipMatch[1] || null;
-      postalCode = stateZipMatch[2] || null;
-    } else {
-      // Try just state "NY"
-      const stateMatch = thirdPart.match(/^[A-Z]{2}$/);
-      if (stateMatch) {
-        state = thirdPart;
-      } else {
-        // Try just ZIP
-        const zipMatch = thirdPart.match(/^(\d{5}(?:-\d{4})?)$/);
-        if (zipMatch) {
-          postalCode = thirdPart;
-        }
-      }
-    }
+/**
+ * Transform a ShipFrom/ShipTo endpoint (null when it carries no data)
+ */
+function transformShipmentEndpoint(
+  endpoint: { Latitude?: number | null; Longitude?: number | null; FormattedAddress?: string | null } | null | undefined
+): PaxafeShipmentEndpoint | null {
+  if (!endpoint) {
+    return null;
   }
 
-  if (parts.length >= 4) {
-    // Last part is usually country
-    country = parts[parts.length - 1] || null;
-    // If we didn't get postal code yet, check if it's in the country part
-    if (!postalCode && parts.length === 4) {
-      const lastPart = parts[3];
-      const zipMatch = lastPart.match(/(\d{5}(?:-\d{4})?)/);
-      if (zipMatch) {
-        postalCode = zipMatch[1];
-        country = lastPart.replace(zipMatch[0], '').trim() || null;
-      }
-    }
+  const latitude = endpoint.Latitude ?? null;
+  const longitude = endpoint.Longitude ?? null;
+  const address = endpoint.FormattedAddress?.trim() || null;
+  if (latitude === null && longitude === null && address === null) {
+    return null;
   }
 
-  return {
-    street,
-    locality,
-    state,
-    country,
-    postal_code: postalCode,
-    full_address: formattedAddress,
-  };
+  return { latitude, longitude, address };
 }
-
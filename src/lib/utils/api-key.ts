@@ -0,0 +1,33 @@
+/**
+ * Tenant API key helpers
+ * Keys are random tokens; only their SHA-256 hash is stored
+ */
+
+import { createHash, randomBytes } from 'crypto';
+
+const API_KEY_PREFIX = 'pxf_';
+const API_KEY_BYTES = 32;
+const DISPLAY_PREFIX_LENGTH = 12;
+
+/**
+ * Hash an API key for storage and lookup
+ * A plain SHA-256 is sufficient because keys are high-entropy random tokens
+ */
+export function hashApiKey(apiKey: string): string {
+  return createHash('sha256').update(apiKey).digest('hex');
+}
+
+/**
+ * Generate a new tenant API key
+ * Returns the plaintext key (shown once), its hash and a short prefix for identification
+ *
+ * Example key: "pxf_q3ZrV0b1..."
+ */
+export function generateApiKey(): { key: string; hash: string; prefix: string } {
+  const key = `${API_KEY_PREFIX}${randomBytes(API_KEY_BYTES).toString('base64url')}`;
+  return {
+    key,
+    hash: hashApiKey(key),
+    prefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+  };
+}
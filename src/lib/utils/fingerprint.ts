@@ -0,0 +1,54 @@
+/**
+ * Payload fingerprinting for idempotent webhook ingestion
+ * A fingerprint identifies one logical delivery so that retries can be detected
+ */
+
+import { createHash } from 'crypto';
+
+/**
+ * Serialize a value to JSON with object keys sorted
+ * Ensures the same payload hashes identically regardless of key order
+ */
+function stableStringify(value: unknown): string {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value) ?? 'null';
+  }
+
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+
+  const entries = Object.keys(value as Record<string, unknown>)
+    .sort()
+    .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+    .map((key) => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+
+  return `{${entries.join(',')}}`;
+}
+
+function sha256(content: string): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Compute the fingerprint of a webhook payload
+ * - With an Idempotency-Key header: the hashed key, scoped to the tenant and DeviceId so that
+ *   senders reusing the same key values do not collide (sender controls deduplication)
+ * - Otherwise: DeviceId + EntryTimeEpoch + hash of the payload content
+ *
+ * Example: "863257063350583:1739215646000:9f86d081884c7d65..."
+ */
+export function computePayloadFingerprint(
+  payload: any,
+  idempotencyKey?: string | null,
+  tenantId: number | null = null
+): string {
+  const deviceId = payload?.DeviceId ?? 'unknown';
+  const key = idempotencyKey?.trim();
+  if (key) {
+    return `key:${tenantId ?? 'global'}:${deviceId}:${sha256(key)}`;
+  }
+
+  const entryTime = payload?.EntryTimeEpoch ?? 'unknown';
+  return `${deviceId}:${entryTime}:${sha256(stableStringify(payload))}`;
+}
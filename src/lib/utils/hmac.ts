@@ -0,0 +1,26 @@
+/**
+ * HMAC signing helpers
+ * Shared by outbound notifications (we sign) and inbound webhooks (we verify)
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+
+/**
+ * Compute a hex-encoded HMAC-SHA256 signature of the given content
+ */
+export function createHmacSignature(secret: string, content: string): string {
+  return createHmac('sha256', secret).update(content).digest('hex');
+}
+
+/**
+ * Compare two strings in constant time
+ * Returns false for different lengths without comparing contents
+ */
+export function safeCompare(a: string, b: string): boolean {
+  const aBuffer = Buffer.from(a, 'utf8');
+  const bBuffer = Buffer.from(b, 'utf8');
+  if (aBuffer.length !== bBuffer.length) {
+    return false;
+  }
+  return timingSafeEqual(aBuffer, bBuffer);
+}
@@ -0,0 +1,212 @@
+/**
+ * Validation for alert rule requests
+ */
+
+import { VALIDATION } from '@/lib/constants';
+import { SHOCK_SEVERITIES } from '@/lib/analytics/shocks';
+import {
+  ALERT_METRICS,
+  ALERT_RULE_TYPES,
+  ALERT_SEVERITIES,
+  THRESHOLD_OPERATORS,
+  AlertChannelConfig,
+  AlertRuleParams,
+  AlertRuleType,
+} from '@/lib/alerts/rules';
+import { ValidationError, ValidationResult } from './tive-validator';
+
+export interface AlertRuleFields {
+  name: string;
+  type: AlertRuleType;
+  params: AlertRuleParams;
+  deviceImei: string | null;
+  shipmentId: number | null;
+  severity: string;
+  channels: AlertChannelConfig[];
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+function isNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function isPositiveInteger(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) > 0;
+}
+
+function isHttpUrl(value: unknown): value is string {
+  if (typeof value !== 'string') return false;
+  try {
+    const url = new URL(value);
+    return url.protocol === 'https:' || url.protocol === 'http:';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Validate the type-specific params of a rule
+ * Returns only the known keys so stored params never carry unexpected data
+ */
+function validateParams(type: AlertRuleType, params: any, errors: ValidationError[]): AlertRuleParams | null {
+  if (!params || typeof params !== 'object' || Array.isArray(params)) {
+    errors.push({ field: 'params', message: 'params must be an object' });
+    return null;
+  }
+
+  const before = errors.length;
+
+  switch (type) {
+    case 'threshold':
+      if (!ALERT_METRICS.includes(params.metric)) {
+        errors.push({ field: 'params.metric', message: `params.metric must be one of: ${ALERT_METRICS.join(', ')}` });
+      }
+      if (!THRESHOLD_OPERATORS.includes(params.operator)) {
+        errors.push({ field: 'params.operator', message: `params.operator must be one of: ${THRESHOLD_OPERATORS.join(', ')}` });
+      }
+      if (!isNumber(params.value)) {
+        errors.push({ field: 'params.value', message: 'params.value must be a number' });
+      }
+      return errors.length > before ? null : { metric: params.metric, operator: params.operator, value: params.value };
+
+    case 'rate_of_change':
+      if (!ALERT_METRICS.includes(params.metric)) {
+        errors.push({ field: 'params.metric', message: `params.metric must be one of: ${ALERT_METRICS.join(', ')}` });
+      }
+      if (!isNumber(params.maxChange) || params.maxChange <= 0) {
+        errors.push({ field: 'params.maxChange', message: 'params.maxChange must be a positive number' });
+      }
+      if (!isPositiveInteger(params.windowMinutes)) {
+        errors.push({ field: 'params.windowMinutes', message: 'params.windowMinutes must be a positive integer' });
+      }
+      return errors.length > before
+        ? null
+        : { metric: params.metric, maxChange: params.maxChange, windowMinutes: params.windowMinutes };
+
+    case 'no_data':
+      if (!isPositiveInteger(params.minutes)) {
+        errors.push({ field: 'params.minutes', message: 'params.minutes must be a positive integer' });
+      }
+      return errors.length > before ? null : { minutes: params.minutes };
+
+    case 'battery_low':
+      if (!isNumber(params.percent) || params.percent < 0 || params.percent > 100) {
+        errors.push({ field: 'params.percent', message: 'params.percent must be between 0 and 100' });
+      }
+      return errors.length > before ? null : { percent: params.percent };
+
+    case 'geofence':
+      if (!isNumber(params.latitude) || params.latitude < VALIDATION.LATITUDE_MIN || params.latitude > VALIDATION.LATITUDE_MAX) {
+        errors.push({ field: 'params.latitude', message: 'params.latitude must be between -90 and 90' });
+      }
+      if (!isNumber(params.longitude) || params.longitude < VALIDATION.LONGITUDE_MIN || params.longitude > VALIDATION.LONGITUDE_MAX) {
+        errors.push({ field: 'params.longitude', message: 'params.longitude must be between -180 and 180' });
+      }
+      if (!isNumber(params.radiusMeters) || params.radiusMeters <= 0) {
+        errors.push({ field: 'params.radiusMeters', message: 'params.radiusMeters must be a positive number' });
+      }
+      if (params.trigger !== 'exit' && params.trigger !== 'enter') {
+        errors.push({ field: 'params.trigger', message: 'params.trigger must be exit or enter' });
+      }
+      return errors.length > before
+        ? null
+        : { latitude: params.latitude, longitude: params.longitude, radiusMeters: params.radiusMeters, trigger: params.trigger };
+
+    case 'shock':
+      if (!SHOCK_SEVERITIES.includes(params.minSeverity)) {
+        errors.push({ field: 'params.minSeverity', message: `params.minSeverity must be one of: ${SHOCK_SEVERITIES.join(', ')}` });
+      }
+      return errors.length > before ? null : { minSeverity: params.minSeverity };
+  }
+}
+
+function validateChannels(channels: any, errors: ValidationError[]): AlertChannelConfig[] {
+  if (channels === undefined) {
+    return [];
+  }
+  if (!Array.isArray(channels)) {
+    errors.push({ field: 'channels', message: 'channels must be an array' });
+    return [];
+  }
+
+  const result: AlertChannelConfig[] = [];
+  channels.forEach((channel: any, index: number) => {
+    const field = `channels[${index}]`;
+    switch (channel?.type) {
+      case 'email':
+        if (!Array.isArray(channel.to) || channel.to.length === 0 || !channel.to.every((to: unknown) => typeof to === 'string' && EMAIL_PATTERN.test(to))) {
+          errors.push({ field: `${field}.to`, message: 'to must be a non-empty array of email addresses' });
+        } else {
+          result.push({ type: 'email', to: channel.to });
+        }
+        break;
+      case 'webhook':
+        if (!isHttpUrl(channel.url)) {
+          errors.push({ field: `${field}.url`, message: 'url must be an http(s) URL' });
+        } else if (channel.secret !== undefined && typeof channel.secret !== 'string') {
+          errors.push({ field: `${field}.secret`, message: 'secret must be a string' });
+        } else {
+          result.push({ type: 'webhook', url: channel.url, ...(channel.secret ? { secret: channel.secret } : {}) });
+        }
+        break;
+      case 'slack':
+        if (!isHttpUrl(channel.url)) {
+          errors.push({ field: `${field}.url`, message: 'url must be an http(s) URL' });
+        } else {
+          result.push({ type: 'slack', url: channel.url });
+        }
+        break;
+      default:
+        errors.push({ field: `${field}.type`, message: 'type must be email, webhook or slack' });
+    }
+  });
+  return result;
+}
+
+/**
+ * Validate the body of a create alert rule request
+ */
+export function validateAlertRuleInput(body: any): ValidationResult & { rule?: AlertRuleFields } {
+  const errors: ValidationError[] = [];
+
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return { valid: false, errors: [{ field: 'body', message: 'Body must be a JSON object' }] };
+  }
+
+  const name = typeof body.name === 'string' ? body.name.trim() : '';
+  if (!name) {
+    errors.push({ field: 'name', message: 'name is required' });
+  }
+
+  const type = body.type as AlertRuleType;
+  let params: AlertRuleParams | null = null;
+  if (!ALERT_RULE_TYPES.includes(type)) {
+    errors.push({ field: 'type', message: `type must be one of: ${ALERT_RULE_TYPES.join(', ')}` });
+  } else {
+    params = validateParams(type, body.params, errors);
+  }
+
+  const severity = body.severity ?? 'warning';
+  if (!ALERT_SEVERITIES.includes(severity)) {
+    errors.push({ field: 'severity', message: `severity must be one of: ${ALERT_SEVERITIES.join(', ')}` });
+  }
+
+  const deviceImei = body.deviceImei ?? null;
+  if (deviceImei !== null && (typeof deviceImei !== 'string' || !/^[0-9]{15}$/.test(deviceImei))) {
+    errors.push({ field: 'deviceImei', message: 'deviceImei must be exactly 15 digits' });
+  }
+
+  const shipmentId = body.shipmentId ?? null;
+  if (shipmentId !== null && !isPositiveInteger(shipmentId)) {
+    errors.push({ field: 'shipmentId', message: 'shipmentId must be a positive integer (shipments.id)' });
+  }
+
+  const channels = validateChannels(body.channels, errors);
+
+  if (errors.length > 0 || !params) {
+    return { valid: false, errors };
+  }
+
+  return { valid: true, errors, rule: { name, type, params, deviceImei, shipmentId, severity, channels } };
+}
@@ -1,14 +1,41 @@
 /**
  * API Key validation functions
  * Provides secure API key validation with timing-safe comparison
+ *
+ * Two kinds of keys are accepted:
+ * - The global API_KEY (admin): sees every tenant's data
+ * - Per-tenant keys (api_keys table): scoped to one tenant
  */
 
 import { NextRequest } from 'next/server';
 import { timingSafeEqual } from 'crypto';
 import { config } from '@/lib/config';
+import { findActiveApiKeyByHash, touchApiKeyLastUsed } from '@/lib/db';
+import { hashApiKey } from '@/lib/utils/api-key';
 
 /**
- * Validate API key from request headers
+ * Identity of an authenticated caller
+ */
+export interface ApiKeyIdentity {
+  tenantId: number | null; // null for the global API_KEY (all tenants)
+  tiveAccountId: number | null; // Tive AccountId mapped to the tenant, if any
+  apiKeyId: number | null; // null for the global API_KEY
+}
+
+/**
+ * Extract the API key from request headers
+ * Supports both X-API-Key header and Authorization: Bearer <key> format
+ */
+export function extractApiKey(request: NextRequest): string | null {
+  return (
+    request.headers.get('x-api-key') ||
+    request.headers.get('authorization')?.replace(/^Bearer\s+/i, '') ||
+    null
+  );
+}
+
+/**
+ * Validate API key from request headers against the global API_KEY
  * Supports both X-API-Key header and Authorization: Bearer <key> format
  * Uses timing-safe comparison to prevent timing attacks
  * 
@@ -17,9 +44,7 @@ import { config } from '@/lib/config';
  */
 export function validateApiKey(request: NextRequest): boolean {
   // Extract API key from headers (supports both formats)
-  const apiKey = 
-    request.headers.get('x-api-key') || 
-    request.headers.get('authorization')?.replace(/^Bearer\s+/i, '');
+  const apiKey = extractApiKey(request);
   
   const expectedApiKey = config.apiKey;
   
@@ -44,4 +69,42 @@ export function validateApiKey(request: NextRequest): boolean {
   }
 }
 
+/**
+ * Authenticate a request with either the global API_KEY or a tenant API key
+ * Tenant keys are looked up by hash, so no timing-safe comparison is needed
+ *
+ * @param request - Next.js request object
+ * @returns The caller identity, or null when the key is missing, unknown or revoked
+ * @throws When the api_keys lookup fails (callers should answer 5xx so the sender retries)
+ */
+export async function authenticateApiKey(request: NextRequest): Promise<ApiKeyIdentity | null> {
+  if (validateApiKey(request)) {
+    return { tenantId: null, tiveAccountId: null, apiKeyId: null };
+  }
+
+  const apiKey = extractApiKey(request);
+  if (!apiKey) {
+    return null;
+  }
+
+  const record = await findActiveApiKeyByHash(hashApiKey(apiKey));
+  if (!record) {
+    return null;
+  }
+
+  // Non-blocking: last_used_at is informational
+  touchApiKeyLastUsed(record.id).catch(() => undefined);
 
+  return {
+    tenantId: record.tenantId,
+    tiveAccountId: record.tenant.tiveAccountId,
+    apiKeyId: record.id,
+  };
+}
+
+/**
+ * Whether the caller used the global API_KEY, which administers all tenants
+ */
+export function isAdminIdentity(identity: ApiKeyIdentity): boolean {
+  return identity.tenantId === null && identity.apiKeyId === null;
+}
@@ -0,0 +1,107 @@
+/**
+ * Parsing and validation for batched Tive webhook payloads
+ * Accepts a JSON array body or newline-delimited JSON (application/x-ndjson)
+ */
+
+import { VALIDATION } from '@/lib/constants';
+import { validateTivePayload, ValidationError } from './tive-validator';
+
+export interface BatchItem {
+  index: number;
+  payload: any; // Parsed item (undefined when the item could not be parsed)
+  raw?: string; // Line text of an NDJSON item that could not be parsed
+  errors: ValidationError[];
+}
+
+export interface BatchParseResult {
+  valid: boolean;
+  error?: string; // Set when the body as a whole is not a batch
+  items: BatchItem[];
+}
+
+/**
+ * Check whether a request content type is NDJSON
+ */
+export function isNdjsonContentType(contentType: string | null): boolean {
+  if (!contentType) return false;
+  const type = contentType.split(';')[0].trim().toLowerCase();
+  return type === 'application/x-ndjson' || type === 'application/ndjson';
+}
+
+/**
+ * Split the raw body into items with their serialized size
+ */
+function splitBatchBody(
+  rawBody: string,
+  contentType: string | null
+): { error?: string; entries: Array<{ payload: any; size: number; raw?: string; parseError?: string }> } {
+  if (isNdjsonContentType(contentType)) {
+    const entries = rawBody
+      .split(/\r?\n/)
+      .filter((line) => line.trim().length > 0)
+      .map((line) => {
+        const size = Buffer.byteLength(line, 'utf8');
+        try {
+          return { payload: JSON.parse(line), size };
+        } catch {
+          return { payload: undefined, size, raw: line, parseError: 'Line is not valid JSON' };
+        }
+      });
+    return { entries };
+  }
+
+  let body: unknown;
+  try {
+    body = JSON.parse(rawBody);
+  } catch {
+    return { error: 'Request body must be a JSON array or NDJSON', entries: [] };
+  }
+
+  if (!Array.isArray(body)) {
+    return { error: 'Batch request body must be a JSON array of payloads', entries: [] };
+  }
+
+  return {
+    entries: body.map((payload) => ({
+      payload,
+      size: Buffer.byteLength(JSON.stringify(payload) ?? '', 'utf8'),
+    })),
+  };
+}
+
+/**
+ * Parse a batch body and validate every item
+ * Each item is validated independently so one bad reading does not reject the batch
+ */
+export function parseTiveBatch(rawBody: string, contentType: string | null): BatchParseResult {
+  const { error, entries } = splitBatchBody(rawBody, contentType);
+  if (error) {
+    return { valid: false, error, items: [] };
+  }
+
+  if (entries.length === 0) {
+    return { valid: false, error: 'Batch must contain at least one payload', items: [] };
+  }
+
+  const items = entries.map((entry, index): BatchItem => {
+    if (entry.parseError) {
+      return { index, payload: undefined, raw: entry.raw, errors: [{ field: 'payload', message: entry.parseError }] };
+    }
+
+    if (entry.size > VALIDATION.MAX_PAYLOAD_SIZE) {
+      return {
+        index,
+        payload: entry.payload,
+        errors: [{ field: 'payload', message: `Payload exceeds maximum size of ${VALIDATION.MAX_PAYLOAD_SIZE / 1024}KB` }],
+      };
+    }
+
+    if (!entry.payload || typeof entry.payload !== 'object' || Array.isArray(entry.payload)) {
+      return { index, payload: entry.payload, errors: [{ field: 'payload', message: 'Payload must be a JSON object' }] };
+    }
+
+    return { index, payload: entry.payload, errors: validateTivePayload(entry.payload).errors };
+  });
+
+  return { valid: true, items };
+}
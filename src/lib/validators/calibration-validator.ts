@@ -0,0 +1,79 @@
+/**
+ * Validation for device calibration requests
+ */
+
+import { DERIVATION, VALIDATION } from '@/lib/constants';
+import { DeviceCalibration } from '@/lib/transformers/sensor-derivations';
+import { ValidationError, ValidationResult } from './tive-validator';
+
+const MAX_LUX_BASELINE = 999999.9; // telemetry light level column is DECIMAL(8,1)
+
+/**
+ * Validate the body of a calibration request
+ * Either { "fromLatest": true } (calibrate from the device's latest reading), or any of
+ * luxBaseline and restOrientation; omitted fields keep their value, null restores the default
+ */
+export function validateCalibrationInput(
+  body: any
+): ValidationResult & { fromLatest?: boolean; calibration?: Partial<DeviceCalibration> } {
+  const errors: ValidationError[] = [];
+
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return { valid: false, errors: [{ field: 'body', message: 'Body must be a JSON object' }] };
+  }
+
+  if (body.fromLatest !== undefined) {
+    if (body.fromLatest !== true) {
+      errors.push({ field: 'fromLatest', message: 'fromLatest must be true when given' });
+    } else if (body.luxBaseline !== undefined || body.restOrientation !== undefined) {
+      errors.push({ field: 'fromLatest', message: 'fromLatest cannot be combined with explicit values' });
+    }
+    return errors.length > 0 ? { valid: false, errors } : { valid: true, errors, fromLatest: true };
+  }
+
+  const calibration: Partial<DeviceCalibration> = {};
+
+  if (body.luxBaseline !== undefined) {
+    const lux = body.luxBaseline;
+    if (lux !== null && (typeof lux !== 'number' || !Number.isFinite(lux) || lux < 0 || lux > MAX_LUX_BASELINE)) {
+      errors.push({ field: 'luxBaseline', message: `luxBaseline must be a number between 0 and ${MAX_LUX_BASELINE} or null` });
+    } else {
+      calibration.luxBaseline = lux;
+    }
+  }
+
+  if (body.restOrientation !== undefined) {
+    const rest = body.restOrientation;
+    if (rest === null) {
+      calibration.restOrientation = null;
+    } else {
+      const axes = ['x', 'y', 'z'] as const;
+      const valid = rest && typeof rest === 'object' && axes.every((axis) =>
+        typeof rest[axis] === 'number' &&
+        rest[axis] >= VALIDATION.ACCELEROMETER_MIN &&
+        rest[axis] <= VALIDATION.ACCELEROMETER_MAX
+      );
+      const norm = valid ? Math.sqrt(rest.x * rest.x + rest.y * rest.y + rest.z * rest.z) : 0;
+      if (!valid) {
+        errors.push({ field: 'restOrientation', message: 'restOrientation must be { x, y, z } in g or null' });
+      } else if (norm < DERIVATION.MIN_GRAVITY_G || norm > DERIVATION.MAX_GRAVITY_G) {
+        errors.push({
+          field: 'restOrientation',
+          message: `restOrientation must be a gravity vector at rest (magnitude between ${DERIVATION.MIN_GRAVITY_G} and ${DERIVATION.MAX_GRAVITY_G} g)`,
+        });
+      } else {
+        calibration.restOrientation = { x: rest.x, y: rest.y, z: rest.z };
+      }
+    }
+  }
+
+  if (errors.length === 0 && Object.keys(calibration).length === 0) {
+    errors.push({ field: 'body', message: 'Provide fromLatest, luxBaseline or restOrientation' });
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  return { valid: true, errors, calibration };
+}
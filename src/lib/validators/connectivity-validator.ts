@@ -0,0 +1,34 @@
+/**
+ * Validation for device connectivity requests
+ */
+
+import { CONNECTIVITY } from '@/lib/constants';
+import { ValidationResult } from './tive-validator';
+
+/**
+ * Validate the body of a reporting interval request: { "reportingIntervalMinutes": number | null }
+ * null returns the device to its learned cadence
+ */
+export function validateReportingIntervalInput(body: any): ValidationResult & { minutes?: number | null } {
+  if (!body || typeof body !== 'object' || !('reportingIntervalMinutes' in body)) {
+    return {
+      valid: false,
+      errors: [{ field: 'reportingIntervalMinutes', message: 'reportingIntervalMinutes is required (null uses the learned cadence)' }],
+    };
+  }
+
+  const minutes = body.reportingIntervalMinutes;
+  if (
+    minutes !== null &&
+    (!Number.isInteger(minutes) || minutes < 1 || minutes > CONNECTIVITY.MAX_REPORTING_INTERVAL_MINUTES)
+  ) {
+    return {
+      valid: false,
+      errors: [{
+        field: 'reportingIntervalMinutes',
+        message: `reportingIntervalMinutes must be an integer between 1 and ${CONNECTIVITY.MAX_REPORTING_INTERVAL_MINUTES} or null`,
+      }],
+    };
+  }
+  return { valid: true, errors: [], minutes };
+}
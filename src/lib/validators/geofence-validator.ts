@@ -0,0 +1,98 @@
+/**
+ * Validation for geofence requests
+ */
+
+import { GEOFENCE, VALIDATION } from '@/lib/constants';
+import { GeofenceShape, GeofenceVertex } from '@/lib/analytics/geofences';
+import { ValidationError, ValidationResult } from './tive-validator';
+
+export interface GeofenceFields {
+  name: string;
+  shape: GeofenceShape;
+  dwellMinutes: number | null;
+}
+
+function isLatitude(value: unknown): boolean {
+  return typeof value === 'number' && value >= VALIDATION.LATITUDE_MIN && value <= VALIDATION.LATITUDE_MAX;
+}
+
+function isLongitude(value: unknown): boolean {
+  return typeof value === 'number' && value >= VALIDATION.LONGITUDE_MIN && value <= VALIDATION.LONGITUDE_MAX;
+}
+
+function validateCircle(body: any, errors: ValidationError[]): GeofenceShape | null {
+  const before = errors.length;
+  if (!isLatitude(body.latitude)) {
+    errors.push({ field: 'latitude', message: `latitude must be between ${VALIDATION.LATITUDE_MIN} and ${VALIDATION.LATITUDE_MAX}` });
+  }
+  if (!isLongitude(body.longitude)) {
+    errors.push({ field: 'longitude', message: `longitude must be between ${VALIDATION.LONGITUDE_MIN} and ${VALIDATION.LONGITUDE_MAX}` });
+  }
+  if (!Number.isInteger(body.radiusMeters) || body.radiusMeters < 1 || body.radiusMeters > GEOFENCE.MAX_RADIUS_METERS) {
+    errors.push({ field: 'radiusMeters', message: `radiusMeters must be an integer between 1 and ${GEOFENCE.MAX_RADIUS_METERS}` });
+  }
+  if (errors.length > before) return null;
+
+  return { type: 'circle', latitude: body.latitude, longitude: body.longitude, radiusMeters: body.radiusMeters };
+}
+
+function validatePolygon(body: any, errors: ValidationError[]): GeofenceShape | null {
+  const vertices = body.vertices;
+  if (!Array.isArray(vertices) || vertices.length < 3 || vertices.length > GEOFENCE.MAX_POLYGON_VERTICES) {
+    errors.push({ field: 'vertices', message: `vertices must be an array of 3 to ${GEOFENCE.MAX_POLYGON_VERTICES} points` });
+    return null;
+  }
+
+  const points: GeofenceVertex[] = [];
+  for (let index = 0; index < vertices.length; index++) {
+    const vertex = vertices[index];
+    if (!vertex || typeof vertex !== 'object' || !isLatitude(vertex.latitude) || !isLongitude(vertex.longitude)) {
+      errors.push({ field: `vertices[${index}]`, message: 'Each vertex must be { latitude, longitude } within range' });
+      return null;
+    }
+    points.push({ latitude: vertex.latitude, longitude: vertex.longitude });
+  }
+
+  return { type: 'polygon', vertices: points };
+}
+
+/**
+ * Validate the body of a create geofence request
+ * Circles: { name, type: "circle", latitude, longitude, radiusMeters }
+ * Polygons: { name, type: "polygon", vertices: [{ latitude, longitude }, ...] } (closing vertex optional)
+ * dwellMinutes is optional for both; without it no dwell events are emitted
+ */
+export function validateGeofenceInput(body: any): ValidationResult & { geofence?: GeofenceFields } {
+  const errors: ValidationError[] = [];
+
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return { valid: false, errors: [{ field: 'body', message: 'Body must be a JSON object' }] };
+  }
+
+  const name = typeof body.name === 'string' ? body.name.trim() : '';
+  if (!name) {
+    errors.push({ field: 'name', message: 'name is required' });
+  } else if (name.length > 255) {
+    errors.push({ field: 'name', message: 'name must be at most 255 characters' });
+  }
+
+  let shape: GeofenceShape | null = null;
+  if (body.type === 'circle') {
+    shape = validateCircle(body, errors);
+  } else if (body.type === 'polygon') {
+    shape = validatePolygon(body, errors);
+  } else {
+    errors.push({ field: 'type', message: 'type must be "circle" or "polygon"' });
+  }
+
+  const dwellMinutes = body.dwellMinutes ?? null;
+  if (dwellMinutes !== null && (!Number.isInteger(dwellMinutes) || dwellMinutes < 1)) {
+    errors.push({ field: 'dwellMinutes', message: 'dwellMinutes must be a positive integer or null' });
+  }
+
+  if (errors.length > 0 || !shape) {
+    return { valid: false, errors };
+  }
+
+  return { valid: true, errors, geofence: { name, shape, dwellMinutes } };
+}
@@ -0,0 +1,100 @@
+/**
+ * Validation for raw payload reprocessing requests
+ */
+
+import { REPROCESS } from '@/lib/constants';
+import { RAW_PAYLOAD_STATUSES, RawPayloadFilters, RawPayloadStatus } from '@/lib/db';
+import { ValidationError, ValidationResult } from './tive-validator';
+
+export interface ReprocessRequest {
+  selection: Omit<RawPayloadFilters, 'cursor'>;
+  dryRun: boolean;
+}
+
+function parseTime(value: unknown): number | null {
+  const ts = typeof value === 'number' ? value : typeof value === 'string' ? Date.parse(value) : NaN;
+  return Number.isInteger(ts) && ts >= 0 ? ts : null;
+}
+
+/**
+ * Validate the body of a reprocessing request:
+ * {
+ *   "ids": number[], "status": string, "device": string, "from": number | string, "to": number | string,
+ *   "validationError": string, "limit": number, "dryRun": boolean
+ * }
+ * At least one of ids, status, device, from, to and validationError selects the payloads,
+ * so a request cannot reprocess every payload by accident.
+ */
+export function validateReprocessRequest(body: any): ValidationResult & { request?: ReprocessRequest } {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return { valid: false, errors: [{ field: 'body', message: 'Request body must be an object' }] };
+  }
+
+  const errors: ValidationError[] = [];
+  const selection: ReprocessRequest['selection'] = { limit: REPROCESS.DEFAULT_LIMIT };
+
+  if (body.ids !== undefined) {
+    if (
+      !Array.isArray(body.ids) ||
+      body.ids.length === 0 ||
+      body.ids.length > REPROCESS.MAX_PAYLOADS ||
+      !body.ids.every((id: unknown) => Number.isInteger(id) && (id as number) > 0)
+    ) {
+      errors.push({ field: 'ids', message: `ids must be a list of 1 to ${REPROCESS.MAX_PAYLOADS} payload ids` });
+    } else {
+      selection.ids = body.ids;
+      selection.limit = body.ids.length;
+    }
+  }
+
+  if (body.status !== undefined) {
+    if (!RAW_PAYLOAD_STATUSES.includes(body.status)) {
+      errors.push({ field: 'status', message: `status must be one of ${RAW_PAYLOAD_STATUSES.join(', ')}` });
+    } else {
+      selection.status = body.status as RawPayloadStatus;
+    }
+  }
+
+  for (const field of ['device', 'validationError'] as const) {
+    if (body[field] === undefined) continue;
+    if (typeof body[field] !== 'string' || body[field].trim() === '') {
+      errors.push({ field, message: `${field} must be a non-empty string` });
+    } else if (field === 'device') {
+      selection.deviceId = body.device.trim();
+    } else {
+      selection.validationErrorField = body.validationError.trim();
+    }
+  }
+
+  for (const field of ['from', 'to'] as const) {
+    if (body[field] === undefined) continue;
+    const ts = parseTime(body[field]);
+    if (ts === null) {
+      errors.push({ field, message: `${field} must be epoch milliseconds or an ISO 8601 date` });
+    } else {
+      selection[field] = ts;
+    }
+  }
+
+  if (body.limit !== undefined) {
+    if (!Number.isInteger(body.limit) || body.limit < 1 || body.limit > REPROCESS.MAX_PAYLOADS) {
+      errors.push({ field: 'limit', message: `limit must be an integer between 1 and ${REPROCESS.MAX_PAYLOADS}` });
+    } else {
+      selection.limit = body.limit;
+    }
+  }
+
+  if (body.dryRun !== undefined && typeof body.dryRun !== 'boolean') {
+    errors.push({ field: 'dryRun', message: 'dryRun must be a boolean' });
+  }
+
+  const selectors = ['ids', 'status', 'device', 'from', 'to', 'validationError'];
+  if (errors.length === 0 && !selectors.some((field) => body[field] !== undefined)) {
+    errors.push({ field: 'body', message: `Select payloads with at least one of ${selectors.join(', ')}` });
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+  return { valid: true, errors: [], request: { selection, dryRun: body.dryRun === true } };
+}
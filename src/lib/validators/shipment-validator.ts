@@ -0,0 +1,31 @@
+/**
+ * Validation for shipment requests
+ */
+
+import { ValidationResult } from './tive-validator';
+
+/**
+ * Validate the body of an expected arrival request:
+ * { "expectedArrivalTs": number | string | null } (epoch ms or ISO 8601; null = unknown)
+ */
+export function validateExpectedArrival(body: any): ValidationResult & { expectedArrivalTs?: number | null } {
+  if (!body || typeof body !== 'object' || !('expectedArrivalTs' in body)) {
+    return {
+      valid: false,
+      errors: [{ field: 'expectedArrivalTs', message: 'expectedArrivalTs is required (null clears it)' }],
+    };
+  }
+
+  const value = body.expectedArrivalTs;
+  if (value === null) {
+    return { valid: true, errors: [], expectedArrivalTs: null };
+  }
+  const ts = typeof value === 'number' ? value : typeof value === 'string' ? Date.parse(value) : NaN;
+  if (!Number.isInteger(ts) || ts < 0) {
+    return {
+      valid: false,
+      errors: [{ field: 'expectedArrivalTs', message: 'expectedArrivalTs must be epoch milliseconds, an ISO 8601 date or null' }],
+    };
+  }
+  return { valid: true, errors: [], expectedArrivalTs: ts };
+}
@@ -0,0 +1,74 @@
+/**
+ * Webhook signature verification functions
+ * Verifies HMAC-SHA256 signatures over the raw request body and a timestamp
+ */
+
+import { createHmacSignature, safeCompare } from '@/lib/utils/hmac';
+
+export interface SignatureVerificationOptions {
+  secrets: string[]; // Any of these secrets may have produced the signature (rotation)
+  toleranceSeconds: number; // Maximum allowed difference between timestamp and now
+  now?: number; // Current time in milliseconds (for testing)
+}
+
+export interface SignatureVerificationResult {
+  valid: boolean;
+  reason?: string;
+}
+
+/**
+ * Parse the timestamp header into milliseconds
+ * Accepts epoch seconds or milliseconds
+ */
+function parseTimestamp(value: string): number | null {
+  if (!/^\d+$/.test(value.trim())) {
+    return null;
+  }
+  const epoch = parseInt(value, 10);
+  return epoch < 1e12 ? epoch * 1000 : epoch;
+}
+
+/**
+ * Verify a webhook signature
+ * The signature must be the hex HMAC-SHA256 of "<timestamp>.<raw body>",
+ * optionally prefixed with "sha256=". Requests whose timestamp is outside the
+ * tolerance window are rejected to prevent replay of captured requests.
+ *
+ * @param rawBody - Request body exactly as received
+ * @param signatureHeader - Value of the signature header
+ * @param timestampHeader - Value of the timestamp header
+ */
+export function verifyWebhookSignature(
+  rawBody: string,
+  signatureHeader: string | null,
+  timestampHeader: string | null,
+  options: SignatureVerificationOptions
+): SignatureVerificationResult {
+  if (!signatureHeader || !timestampHeader) {
+    return { valid: false, reason: 'Missing signature or timestamp header' };
+  }
+
+  const timestamp = parseTimestamp(timestampHeader);
+  if (timestamp === null) {
+    return { valid: false, reason: 'Invalid timestamp header' };
+  }
+
+  const now = options.now ?? Date.now();
+  if (Math.abs(now - timestamp) > options.toleranceSeconds * 1000) {
+    return { valid: false, reason: 'Timestamp is outside the allowed clock skew window' };
+  }
+
+  if (options.secrets.length === 0) {
+    return { valid: false, reason: 'No signing secret configured' };
+  }
+
+  const signature = signatureHeader.trim().replace(/^sha256=/i, '').toLowerCase();
+  const signedContent = `${timestampHeader.trim()}.${rawBody}`;
+
+  // Check every active secret (no early exit, so timing does not reveal which matched)
+  const matched = options.secrets
+    .map((secret) => safeCompare(createHmacSignature(secret, signedContent), signature))
+    .some(Boolean);
+
+  return matched ? { valid: true } : { valid: false, reason: 'Signature does not match' };
+}
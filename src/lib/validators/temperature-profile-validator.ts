@@ -0,0 +1,105 @@
+/**
+ * Validation for temperature profile requests
+ */
+
+import { VALIDATION } from '@/lib/constants';
+import { isTemperatureChannel, TemperatureChannel, TEMPERATURE_CHANNELS } from '@/lib/analytics/temperature-channels';
+import { ValidationError, ValidationResult } from './tive-validator';
+
+export interface TemperatureProfileFields {
+  name: string;
+  minTemp: number | null;
+  maxTemp: number | null;
+  allowedExcursionMinutes: number;
+  stabilityBudgetMinutes: number | null;
+}
+
+function validateBound(value: unknown, field: string, errors: ValidationError[]): number | null {
+  if (value === undefined || value === null) {
+    return null;
+  }
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    errors.push({ field, message: `${field} must be a number or null` });
+    return null;
+  }
+  if (value < VALIDATION.TEMP_MIN || value > VALIDATION.TEMP_MAX) {
+    errors.push({ field, message: `${field} must be between ${VALIDATION.TEMP_MIN} and ${VALIDATION.TEMP_MAX}` });
+    return null;
+  }
+  return value;
+}
+
+/**
+ * Validate the body of a create temperature profile request
+ * At least one bound is required; a missing bound means unbounded on that side
+ */
+export function validateTemperatureProfileInput(
+  body: any
+): ValidationResult & { profile?: TemperatureProfileFields } {
+  const errors: ValidationError[] = [];
+
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return { valid: false, errors: [{ field: 'body', message: 'Body must be a JSON object' }] };
+  }
+
+  const name = typeof body.name === 'string' ? body.name.trim() : '';
+  if (!name) {
+    errors.push({ field: 'name', message: 'name is required' });
+  } else if (name.length > 100) {
+    errors.push({ field: 'name', message: 'name must be at most 100 characters' });
+  }
+
+  const minTemp = validateBound(body.minTemp, 'minTemp', errors);
+  const maxTemp = validateBound(body.maxTemp, 'maxTemp', errors);
+  if (body.minTemp == null && body.maxTemp == null) {
+    errors.push({ field: 'minTemp', message: 'At least one of minTemp and maxTemp is required' });
+  } else if (minTemp !== null && maxTemp !== null && minTemp > maxTemp) {
+    errors.push({ field: 'minTemp', message: 'minTemp must not be greater than maxTemp' });
+  }
+
+  const allowedExcursionMinutes = body.allowedExcursionMinutes ?? 0;
+  if (!Number.isInteger(allowedExcursionMinutes) || allowedExcursionMinutes < 0) {
+    errors.push({ field: 'allowedExcursionMinutes', message: 'allowedExcursionMinutes must be a non-negative integer' });
+  }
+
+  const stabilityBudgetMinutes = body.stabilityBudgetMinutes ?? null;
+  if (stabilityBudgetMinutes !== null && (!Number.isInteger(stabilityBudgetMinutes) || stabilityBudgetMinutes < 0)) {
+    errors.push({ field: 'stabilityBudgetMinutes', message: 'stabilityBudgetMinutes must be a non-negative integer or null' });
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  return {
+    valid: true,
+    errors,
+    profile: { name, minTemp, maxTemp, allowedExcursionMinutes, stabilityBudgetMinutes },
+  };
+}
+
+/**
+ * Validate the body of a profile assignment request: { "profileId": number | null }
+ */
+export function validateProfileAssignment(body: any): ValidationResult & { profileId?: number | null } {
+  if (!body || typeof body !== 'object' || !('profileId' in body)) {
+    return { valid: false, errors: [{ field: 'profileId', message: 'profileId is required (null removes the profile)' }] };
+  }
+  if (body.profileId !== null && (!Number.isInteger(body.profileId) || body.profileId < 1)) {
+    return { valid: false, errors: [{ field: 'profileId', message: 'profileId must be a positive integer or null' }] };
+  }
+  return { valid: true, errors: [], profileId: body.profileId };
+}
+
+/**
+ * Validate the body of a primary channel request: { "channel": "ambient" | "probe" }
+ */
+export function validateChannelAssignment(body: any): ValidationResult & { channel?: TemperatureChannel } {
+  if (!body || typeof body !== 'object' || !isTemperatureChannel(body.channel)) {
+    return {
+      valid: false,
+      errors: [{ field: 'channel', message: `channel must be one of: ${TEMPERATURE_CHANNELS.join(', ')}` }],
+    };
+  }
+  return { valid: true, errors: [], channel: body.channel };
+}
@@ -0,0 +1,89 @@
+/**
+ * Tenant resolution for inbound Tive payloads
+ * Maps each payload to a tenant and rejects payloads whose AccountId, device or shipment
+ * belongs to a different tenant than the one the payload is attributed to
+ */
+
+import { findTenantByTiveAccountId, findDeviceTenantId, findShipmentTenantId } from '@/lib/db';
+import { ApiKeyIdentity } from './api-key-validator';
+import { ValidationError } from './tive-validator';
+
+export interface TenantResolution {
+  tenantId: number | null; // null when the payload cannot be attributed to a tenant
+  errors: ValidationError[];
+}
+
+function trimmedString(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() !== '' ? value.trim() : null;
+}
+
+/**
+ * Create a resolver for the payloads of one request
+ * - Tenant key: payloads are stamped with the key's tenant; a payload AccountId that
+ *   differs from the tenant's Tive account is a validation error
+ * - Global key or signature-only auth: the tenant is looked up from the payload AccountId
+ *
+ * An attributed payload whose DeviceId or shipment is already owned by another tenant is a
+ * validation error, so one tenant cannot take over or write into another tenant's devices.
+ *
+ * AccountId and ownership lookups are cached for the lifetime of the resolver (one request)
+ */
+export function createTenantResolver(identity?: ApiKeyIdentity | null) {
+  const tenantsByAccountId = new Map<number, number | null>();
+  const deviceOwners = new Map<string, number | null>();
+  const shipmentOwners = new Map<string, number | null>();
+
+  async function ownershipErrors(payload: any, tenantId: number): Promise<ValidationError[]> {
+    const errors: ValidationError[] = [];
+
+    const deviceImei = trimmedString(payload?.DeviceId);
+    if (deviceImei !== null) {
+      if (!deviceOwners.has(deviceImei)) {
+        deviceOwners.set(deviceImei, await findDeviceTenantId(deviceImei));
+      }
+      const owner = deviceOwners.get(deviceImei);
+      if (owner != null && owner !== tenantId) {
+        errors.push({ field: 'DeviceId', message: `Device ${deviceImei} belongs to another tenant` });
+      }
+    }
+
+    // Same id as transformToShipmentPayload: Shipment.Id, falling back to ShipmentId
+    const shipmentId = trimmedString(payload?.Shipment?.Id) ?? trimmedString(payload?.ShipmentId);
+    if (shipmentId !== null) {
+      if (!shipmentOwners.has(shipmentId)) {
+        shipmentOwners.set(shipmentId, await findShipmentTenantId(shipmentId));
+      }
+      const owner = shipmentOwners.get(shipmentId);
+      if (owner != null && owner !== tenantId) {
+        errors.push({ field: 'ShipmentId', message: `Shipment ${shipmentId} belongs to another tenant` });
+      }
+    }
+
+    return errors;
+  }
+
+  return async function resolvePayloadTenant(payload: any): Promise<TenantResolution> {
+    const accountId = typeof payload?.AccountId === 'number' ? payload.AccountId : null;
+
+    if (identity?.tenantId != null) {
+      if (identity.tiveAccountId != null && accountId !== null && accountId !== identity.tiveAccountId) {
+        return {
+          tenantId: identity.tenantId,
+          errors: [{ field: 'AccountId', message: `AccountId ${accountId} does not belong to the tenant of this API key` }],
+        };
+      }
+      return { tenantId: identity.tenantId, errors: await ownershipErrors(payload, identity.tenantId) };
+    }
+
+    if (accountId === null) {
+      return { tenantId: null, errors: [] };
+    }
+
+    if (!tenantsByAccountId.has(accountId)) {
+      const tenant = await findTenantByTiveAccountId(accountId);
+      tenantsByAccountId.set(accountId, tenant?.id ?? null);
+    }
+    const tenantId = tenantsByAccountId.get(accountId) ?? null;
+    return { tenantId, errors: tenantId !== null ? await ownershipErrors(payload, tenantId) : [] };
+  };
+}
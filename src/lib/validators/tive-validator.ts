@@ -72,6 +72,24 @@ export function validateTivePayload(payload: any): ValidationResult {
         errors.push({ field: 'Temperature.Celsius', message: 'Temperature.Celsius is outside reasonable range (-100 to 100)' });
       }
     }
+    errors.push(...validateFahrenheit(payload.Temperature.Fahrenheit, 'Temperature.Fahrenheit'));
+  }
+
+  // Probe temperature (optional; the product temperature when an external probe is fitted)
+  if (payload.ProbeTemperature !== null && payload.ProbeTemperature !== undefined) {
+    if (typeof payload.ProbeTemperature !== 'object') {
+      errors.push({ field: 'ProbeTemperature', message: 'ProbeTemperature must be an object' });
+    } else {
+      const celsius = payload.ProbeTemperature.Celsius;
+      if (celsius !== null && celsius !== undefined) {
+        if (typeof celsius !== 'number') {
+          errors.push({ field: 'ProbeTemperature.Celsius', message: 'ProbeTemperature.Celsius must be a number' });
+        } else if (celsius < VALIDATION.TEMP_MIN || celsius > VALIDATION.TEMP_MAX) {
+          errors.push({ field: 'ProbeTemperature.Celsius', message: 'ProbeTemperature.Celsius is outside reasonable range (-100 to 100)' });
+        }
+      }
+      errors.push(...validateFahrenheit(payload.ProbeTemperature.Fahrenheit, 'ProbeTemperature.Fahrenheit'));
+    }
   }
 
   // Location validation
@@ -98,6 +116,28 @@ export function validateTivePayload(payload: any): ValidationResult {
     } else if (lon < -180 || lon > 180) {
       errors.push({ field: 'Location.Longitude', message: 'Longitude must be between -180 and 180' });
     }
+
+    const cellTowers = payload.Location.CellTowerUsedCount;
+    if (cellTowers !== null && cellTowers !== undefined && (!Number.isInteger(cellTowers) || cellTowers < 0)) {
+      errors.push({ field: 'Location.CellTowerUsedCount', message: 'Location.CellTowerUsedCount must be a non-negative integer' });
+    }
+
+    const source = payload.Location.GeolocationSourceName;
+    if (source !== null && source !== undefined) {
+      if (typeof source !== 'string') {
+        errors.push({ field: 'Location.GeolocationSourceName', message: 'Location.GeolocationSourceName must be a string' });
+      } else if (source.length > VALIDATION.MAX_SOURCE_LENGTH) {
+        errors.push({ field: 'Location.GeolocationSourceName', message: `Location.GeolocationSourceName must be at most ${VALIDATION.MAX_SOURCE_LENGTH} characters` });
+      }
+    }
+  }
+
+  if (payload.EntityName !== null && payload.EntityName !== undefined) {
+    if (typeof payload.EntityName !== 'string') {
+      errors.push({ field: 'EntityName', message: 'EntityName must be a string' });
+    } else if (payload.EntityName.length > VALIDATION.MAX_TEXT_LENGTH) {
+      errors.push({ field: 'EntityName', message: `EntityName must be at most ${VALIDATION.MAX_TEXT_LENGTH} characters` });
+    }
   }
 
   // Optional field validations
@@ -119,6 +159,16 @@ export function validateTivePayload(payload: any): ValidationResult {
     }
   }
 
+  const estimation = payload.Battery?.Estimation;
+  if (estimation !== null && estimation !== undefined && !(VALIDATION.BATTERY_ESTIMATIONS as readonly unknown[]).includes(estimation)) {
+    errors.push({ field: 'Battery.Estimation', message: `Battery.Estimation must be one of: ${VALIDATION.BATTERY_ESTIMATIONS.join(', ')}` });
+  }
+
+  const isCharging = payload.Battery?.IsCharging;
+  if (isCharging !== null && isCharging !== undefined && typeof isCharging !== 'boolean') {
+    errors.push({ field: 'Battery.IsCharging', message: 'Battery.IsCharging must be a boolean' });
+  }
+
   if (payload.Cellular?.Dbm !== null && payload.Cellular?.Dbm !== undefined) {
     const dbm = payload.Cellular.Dbm;
     if (typeof dbm !== 'number') {
@@ -128,8 +178,29 @@ export function validateTivePayload(payload: any): ValidationResult {
     }
   }
 
+  const signalStrength = payload.Cellular?.SignalStrength;
+  if (signalStrength !== null && signalStrength !== undefined && !(VALIDATION.SIGNAL_STRENGTHS as readonly unknown[]).includes(signalStrength)) {
+    errors.push({ field: 'Cellular.SignalStrength', message: `Cellular.SignalStrength must be one of: ${VALIDATION.SIGNAL_STRENGTHS.join(', ')}` });
+  }
+
+  // Shipment validation (optional; ShipFrom/ShipTo coordinates are used for geofencing)
+  if (payload.Shipment !== null && payload.Shipment !== undefined) {
+    if (typeof payload.Shipment !== 'object') {
+      errors.push({ field: 'Shipment', message: 'Shipment must be an object' });
+    } else {
+      if (payload.Shipment.Id !== null && payload.Shipment.Id !== undefined && typeof payload.Shipment.Id !== 'string') {
+        errors.push({ field: 'Shipment.Id', message: 'Shipment.Id must be a string' });
+      }
+      errors.push(...validateShipmentEndpoint(payload.Shipment.ShipFrom, 'Shipment.ShipFrom'));
+      errors.push(...validateShipmentEndpoint(payload.Shipment.ShipTo, 'Shipment.ShipTo'));
+    }
+  }
+
+  if (payload.ShipmentId !== null && payload.ShipmentId !== undefined && typeof payload.ShipmentId !== 'string') {
+    errors.push({ field: 'ShipmentId', message: 'ShipmentId must be a string' });
+  }
+
   if (payload.Accelerometer) {
-    console.log("HI", payload.Accelerometer, VALIDATION.ACCELEROMETER_MAX, VALIDATION.ACCELEROMETER_MIN);
     if (payload.Accelerometer.X < VALIDATION.ACCELEROMETER_MIN) {
       errors.push({ field: 'Accelerometer.X', message: `Accelerometer.X must be greater than ${VALIDATION.ACCELEROMETER_MIN}`});
     }
@@ -151,11 +222,11 @@ export function validateTivePayload(payload: any): ValidationResult {
       errors.push({ field: 'Accelerometer.Z', message: `Accelerometer.Z must be less than ${VALIDATION.ACCELEROMETER_MAX}`});
     }
 
-    if (payload.Accelerometer.G < VALIDATION.ACCELEROMETER_MIN) {
-      errors.push({ field: 'Accelerometer.G', message: `Accelerometer.G must be greater than ${VALIDATION.ACCELEROMETER_MIN}`});
+    if (payload.Accelerometer.G < 0) {
+      errors.push({ field: 'Accelerometer.G', message: 'Accelerometer.G must not be negative'});
     }
-    if (payload.Accelerometer.G > VALIDATION.ACCELEROMETER_MAX) {
-      errors.push({ field: 'Accelerometer.G', message: `Accelerometer.G must be less than ${VALIDATION.ACCELEROMETER_MAX}`});
+    if (payload.Accelerometer.G > VALIDATION.ACCELEROMETER_MAGNITUDE_MAX) {
+      errors.push({ field: 'Accelerometer.G', message: `Accelerometer.G must be less than ${VALIDATION.ACCELEROMETER_MAGNITUDE_MAX}`});
     }
   }
 
@@ -165,3 +236,56 @@ export function validateTivePayload(payload: any): ValidationResult {
   };
 }
 
+/**
+ * Validate an optional Fahrenheit value against the Celsius range
+ */
+function validateFahrenheit(value: unknown, field: string): ValidationError[] {
+  if (value === null || value === undefined) {
+    return [];
+  }
+  if (typeof value !== 'number') {
+    return [{ field, message: `${field} must be a number` }];
+  }
+  const min = (VALIDATION.TEMP_MIN * 9) / 5 + 32;
+  const max = (VALIDATION.TEMP_MAX * 9) / 5 + 32;
+  if (value < min || value > max) {
+    return [{ field, message: `${field} is outside reasonable range (${min} to ${max})` }];
+  }
+  return [];
+}
+
+/**
+ * Validate a ShipFrom/ShipTo endpoint (all fields optional)
+ */
+function validateShipmentEndpoint(endpoint: any, field: string): ValidationError[] {
+  const errors: ValidationError[] = [];
+  if (endpoint === null || endpoint === undefined) {
+    return errors;
+  }
+
+  if (typeof endpoint !== 'object') {
+    errors.push({ field, message: `${field} must be an object` });
+    return errors;
+  }
+
+  const lat = endpoint.Latitude;
+  const lon = endpoint.Longitude;
+
+  if (lat !== null && lat !== undefined) {
+    if (typeof lat !== 'number') {
+      errors.push({ field: `${field}.Latitude`, message: `${field}.Latitude must be a number` });
+    } else if (lat < -90 || lat > 90) {
+      errors.push({ field: `${field}.Latitude`, message: 'Latitude must be between -90 and 90' });
+    }
+  }
+
+  if (lon !== null && lon !== undefined) {
+    if (typeof lon !== 'number') {
+      errors.push({ field: `${field}.Longitude`, message: `${field}.Longitude must be a number` });
+    } else if (lon < -180 || lon > 180) {
+      errors.push({ field: `${field}.Longitude`, message: 'Longitude must be between -180 and 180' });
+    }
+  }
+
+  return errors;
+}
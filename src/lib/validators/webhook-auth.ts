@@ -0,0 +1,62 @@
+/**
+ * Inbound webhook authentication
+ * Combines API key and signature verification according to the source's configured mode
+ * API keys may be the global API_KEY or a tenant key; the resolved identity is returned
+ */
+
+import { NextRequest } from 'next/server';
+import { config } from '@/lib/config';
+import { WEBHOOK_SIGNATURE } from '@/lib/constants';
+import { authenticateApiKey, ApiKeyIdentity } from './api-key-validator';
+import { verifyWebhookSignature } from './signature-validator';
+
+export interface WebhookAuthResult {
+  authorized: boolean;
+  message?: string;
+  identity?: ApiKeyIdentity; // Set when an API key was checked (not in signature-only mode)
+}
+
+/**
+ * Authenticate an inbound webhook request
+ *
+ * @param request - Next.js request object
+ * @param rawBody - Request body exactly as received (needed for signature verification)
+ * @param source - Webhook source whose auth settings apply (default: Tive)
+ */
+export async function authenticateWebhook(
+  request: NextRequest,
+  rawBody: string,
+  source: string = 'Tive'
+): Promise<WebhookAuthResult> {
+  const authConfig = config.webhookAuth[source];
+  const mode = authConfig?.mode ?? 'api_key';
+  let identity: ApiKeyIdentity | undefined;
+
+  if (mode === 'api_key' || mode === 'both') {
+    const result = await authenticateApiKey(request);
+    if (!result) {
+      return {
+        authorized: false,
+        message: 'Invalid or missing API key. Provide API key via X-API-Key header or Authorization: Bearer <key>',
+      };
+    }
+    identity = result;
+  }
+
+  if (mode === 'signature' || mode === 'both') {
+    const result = verifyWebhookSignature(
+      rawBody,
+      request.headers.get(WEBHOOK_SIGNATURE.SIGNATURE_HEADER),
+      request.headers.get(WEBHOOK_SIGNATURE.TIMESTAMP_HEADER),
+      {
+        secrets: authConfig?.signingSecrets ?? [],
+        toleranceSeconds: authConfig?.signatureToleranceSeconds ?? WEBHOOK_SIGNATURE.DEFAULT_TOLERANCE_SECONDS,
+      }
+    );
+    if (!result.valid) {
+      return { authorized: false, message: `Invalid webhook signature: ${result.reason}` };
+    }
+  }
+
+  return { authorized: true, identity };
+}
@@ -1,8 +1,27 @@
-// Branded types for better type safety
-export type PayloadId = number & { readonly __brand: 'PayloadId' };
-export type DeviceImei = string & { readonly __brand: 'DeviceImei' };
+/**
+ * Shared type helpers
+ */
 
-// Helper functions
-export function asPayloadId(id: number): PayloadId {
-  return id as PayloadId;
-}
+import { Prisma } from '@prisma/client';
+
+/**
+ * Type helper: Convert Prisma types to JSON-serializable types
+ * - Decimal → number
+ * - BigInt → number  
+ * - Date → string (ISO)
+ */
+export type SerializePrisma<T> = {
+  [K in keyof T]: T[K] extends Prisma.Decimal | null
+    ? number | null
+    : T[K] extends Prisma.Decimal
+    ? number
+    : T[K] extends bigint
+    ? number
+    : T[K] extends bigint | null
+    ? number | null
+    : T[K] extends Date
+    ? string
+    : T[K] extends Date | null
+    ? string | null
+    : T[K];
+};
@@ -7,26 +7,13 @@
  */
 
 import { Prisma } from '@prisma/client';
-
-/**
- * Type helper: Convert Prisma types to JSON-serializable types
- * - Decimal → number
- * - BigInt → number  
- * - Date → string (ISO)
- */
-type SerializePrisma<T> = {
-  [K in keyof T]: T[K] extends Prisma.Decimal | null
-    ? number | null
-    : T[K] extends Prisma.Decimal
-    ? number
-    : T[K] extends bigint
-    ? number
-    : T[K] extends Date
-    ? string
-    : T[K] extends Date | null
-    ? string | null
-    : T[K];
-};
+import { SerializePrisma } from './common';
+import { TemperatureProfileState } from './temperature';
+import { DetectedStop } from '@/lib/analytics/stops';
+import { TemperatureStats } from '@/lib/analytics/stability';
+import { TemperatureChannel } from '@/lib/analytics/temperature-channels';
+import { CompletenessReport } from '@/lib/analytics/completeness';
+import { ReportingIntervalSource } from '@/lib/analytics/connectivity';
 
 /**
  * Device state type - automatically derived from Prisma DeviceLatest model
@@ -34,4 +21,34 @@ type SerializePrisma<T> = {
  * 
  * Type is automatically synced with Prisma schema - no manual updates needed!
  */
-export type DeviceState = SerializePrisma<Prisma.DeviceLatestGetPayload<{}>>;
+export type DeviceState = SerializePrisma<Prisma.DeviceLatestGetPayload<{}>> & {
+  temperatureProfile: TemperatureProfileState | null; // Assigned profile (null when none)
+  temperatureChannel: TemperatureChannel; // Primary channel shown in the badge and used for alerting
+};
+
+/**
+ * Stop with its temperature statistics, as returned by GET /api/devices/:imei/stops
+ */
+export type DeviceStopState = DetectedStop & { temperature: TemperatureStats };
+
+export interface DeviceStopsState {
+  deviceImei: string;
+  locationCount: number;
+  locationsTruncated: boolean;
+  readingsTruncated: boolean;
+  count: number;
+  radiusMeters: number;
+  minDurationMinutes: number;
+  stops: DeviceStopState[];
+}
+
+/**
+ * Gaps and completeness as returned by GET /api/devices/:imei/completeness
+ */
+export type DeviceCompletenessState = CompletenessReport & {
+  deviceImei: string;
+  intervalSource: ReportingIntervalSource | 'query';
+  truncated: boolean;
+  gapFactor: number;
+  bufferedDelayMinutes: number;
+};
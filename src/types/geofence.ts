@@ -0,0 +1,19 @@
+/**
+ * Geofence types
+ * Derived from Prisma schema and matching what the APIs return
+ */
+
+import { Prisma } from '@prisma/client';
+import { SerializePrisma } from './common';
+
+/**
+ * Geofence as returned by GET /api/geofences
+ */
+export type GeofenceState = SerializePrisma<Prisma.GeofenceGetPayload<{}>>;
+
+/**
+ * Enter, exit or dwell event as returned by GET /api/geofence-events
+ */
+export type GeofenceEventState = SerializePrisma<
+  Prisma.GeofenceEventGetPayload<{ include: { geofence: { select: { id: true; name: true; shape: true; role: true } } } }>
+>;
@@ -10,6 +10,9 @@ export interface PaxafeSensorPayload {
   provider: "Tive";
   type: "Active";
   temperature: number | null;
+  temperature_fahrenheit: number | null; // As reported (not converted)
+  probe_temperature: number | null; // External probe in °C: the product temperature when a probe is fitted
+  probe_temperature_fahrenheit: number | null;
   humidity: number | null;
   light_level: number | null;
   accelerometer: {
@@ -25,6 +28,16 @@ export interface PaxafeSensorPayload {
     tilt: number | null;
   } | null;
   box_open: boolean | null;
+  entity_name: string | null; // Device label in the provider's platform
+}
+
+export interface PaxafeAddress {
+  street: string | null;
+  locality: string | null;
+  state: string | null; // State, province or other first-level region
+  country: string | null;
+  postal_code: string | null;
+  full_address: string | null;
 }
 
 export interface PaxafeLocationPayload {
@@ -39,18 +52,37 @@ export interface PaxafeLocationPayload {
   location_accuracy: number | null;
   location_accuracy_category: "High" | "Medium" | "Low" | null;
   location_source: string | null;
-  address: {
-    street: string | null;
-    locality: string | null;
-    state: string | null;
-    country: string | null;
-    postal_code: string | null;
-    full_address: string | null;
-  } | null;
+  geolocation_source: string | null; // Service that resolved a WiFi/cell fix (e.g. "skyhook")
+  address: PaxafeAddress | null;
   battery_level: number | null;
+  battery_estimation: "N/A" | "Days" | "Weeks" | "Months" | null; // Remaining battery life
+  battery_charging: boolean | null;
   cellular_dbm: number | null;
+  cellular_signal_strength: "No signal" | "Poor" | "Fair" | "Good" | null;
   cellular_network_type: string | null;
   cellular_operator: string | null;
   wifi_access_points: number | null;
+  cell_towers: number | null; // Cell towers used for the fix
 }
 
+export interface PaxafeShipmentEndpoint {
+  latitude: number | null;
+  longitude: number | null;
+  address: string | null;
+}
+
+/**
+ * Shipment a reading belongs to (from Tive Shipment / ShipmentId fields)
+ */
+export interface PaxafeShipmentPayload {
+  shipment_id: string;
+  public_shipment_id: string | null;
+  provider: "Tive";
+  device_id: string;
+  device_imei: string;
+  timestamp: number;
+  description: string | null;
+  carrier: string | null;
+  ship_from: PaxafeShipmentEndpoint | null;
+  ship_to: PaxafeShipmentEndpoint | null;
+}
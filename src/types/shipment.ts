@@ -0,0 +1,52 @@
+/**
+ * Shipment types
+ * Derived from Prisma schema and matching what the shipment APIs return
+ */
+
+import { Prisma } from '@prisma/client';
+import { SerializePrisma } from './common';
+import { TemperatureExcursionState } from './temperature';
+import { ShockEventState } from './shock';
+import { GeofenceEventState } from './geofence';
+
+/**
+ * Shipment as returned by GET /api/shipments (with its number of assigned devices)
+ */
+export type ShipmentSummary = SerializePrisma<Prisma.ShipmentGetPayload<{}>> & {
+  deviceCount: number;
+};
+
+/**
+ * Device assignment of a shipment (which tracker carried it, and when)
+ */
+export type ShipmentDeviceAssignmentState = SerializePrisma<Prisma.ShipmentDeviceAssignmentGetPayload<{}>>;
+
+export interface ShipmentTemperaturePoint {
+  ts: number;
+  deviceImei: string;
+  temperature: number | null; // Ambient channel
+  probeTemperature: number | null; // Probe channel
+  humidity: number | null;
+}
+
+export interface ShipmentRoutePoint {
+  ts: number;
+  deviceImei: string;
+  latitude: number;
+  longitude: number;
+  locationAccuracy: number | null;
+  addressFullAddress: string | null;
+}
+
+/**
+ * Shipment as returned by GET /api/shipments/:id
+ */
+export interface ShipmentDetail {
+  shipment: SerializePrisma<Prisma.ShipmentGetPayload<{}>>;
+  devices: ShipmentDeviceAssignmentState[];
+  temperatureSeries: ShipmentTemperaturePoint[];
+  route: ShipmentRoutePoint[];
+  excursions: TemperatureExcursionState[];
+  shockEvents: ShockEventState[];
+  geofenceEvents: GeofenceEventState[];
+}
@@ -0,0 +1,12 @@
+/**
+ * Shock event types
+ * Derived from Prisma schema and matching what the APIs return
+ */
+
+import { Prisma } from '@prisma/client';
+import { SerializePrisma } from './common';
+
+/**
+ * Shock or drop event as returned by GET /api/shock-events
+ */
+export type ShockEventState = SerializePrisma<Prisma.ShockEventGetPayload<{}>>;
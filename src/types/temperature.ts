@@ -0,0 +1,42 @@
+/**
+ * Temperature profile and excursion types
+ * Derived from Prisma schema and matching what the APIs return
+ */
+
+import { Prisma } from '@prisma/client';
+import { SerializePrisma } from './common';
+import { TemperatureStats } from '@/lib/analytics/stability';
+
+export type TemperatureProfileState = SerializePrisma<Prisma.TemperatureProfileGetPayload<{}>>;
+
+/**
+ * Excursion as returned by GET /api/excursions (with its profile name)
+ */
+export type TemperatureExcursionState = SerializePrisma<Prisma.TemperatureExcursionGetPayload<{}>> & {
+  profile: { id: number; name: string };
+};
+
+/**
+ * Temperature statistics as returned by GET /api/devices/:imei/temperature-stats
+ */
+export interface DeviceTemperatureStatsState {
+  deviceImei: string;
+  profile: TemperatureProfileState | null;
+  stats: TemperatureStats;
+  truncated: boolean;
+  activationEnergy: number;
+  maxGapMinutes: number;
+}
+
+/**
+ * Temperature statistics as returned by GET /api/shipments/:id/temperature-stats
+ */
+export interface ShipmentTemperatureStatsState {
+  shipmentId: number;
+  profile: TemperatureProfileState | null;
+  stats: TemperatureStats;
+  devices: Array<{ deviceImei: string; profile: TemperatureProfileState | null; stats: TemperatureStats }>;
+  truncated: boolean;
+  activationEnergy: number;
+  maxGapMinutes: number;
+}